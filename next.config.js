@@ -4,6 +4,10 @@ const nextConfig = {
   images: {
     domains: [],
   },
+  experimental: {
+    // Loaded from node_modules by the export routes instead of being bundled
+    serverComponentsExternalPackages: ['exceljs', 'puppeteer-core'],
+  },
 }
 
 module.exports = nextConfig
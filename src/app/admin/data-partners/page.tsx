@@ -23,7 +23,7 @@ import {
   useUpdateDataPartner,
   useSyncDataPartners,
 } from '@/features/admin/hooks/useDataPartners';
-import { DataPartner } from '@/features/admin/api/dataPartners';
+import { DataPartner, DataPartnerUpdate } from '@/features/admin/api/dataPartners';
 import { Avatar } from '@mui/material';
 
 export default function DataPartnersPage() {
@@ -48,7 +48,7 @@ export default function DataPartnersPage() {
     }
   };
 
-  const handleSave = async (updates: Partial<Pick<DataPartner, 'display_name' | 'website_url' | 'description' | 'logo_url'>>) => {
+  const handleSave = async (updates: DataPartnerUpdate) => {
     if (editingPartner) {
       await updatePartner.mutateAsync({ providerKey: editingPartner.provider_key, updates });
     }
@@ -73,7 +73,7 @@ export default function DataPartnersPage() {
     <AdminPageShell title="Data Partners">
       <Box sx={{ mb: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
         <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>
-          Providers are automatically synced from uploaded data. Edit display names and metadata below.
+          Providers are automatically synced from uploaded data. Edit display names, metadata and weighted-agreement settings below.
         </Typography>
         <Box sx={{ display: 'flex', gap: 1 }}>
           <Button
@@ -96,13 +96,15 @@ export default function DataPartnersPage() {
               <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Display Name</TableCell>
               <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Website</TableCell>
               <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Description</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }} align="right">Trust Weight</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }} align="right">Agreement Threshold</TableCell>
               <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Actions</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
             {partners.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} align="center" sx={{ py: 4 }}>
+                <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
                   <Typography variant="body2" color="text.secondary">
                     No data partners yet. Click &quot;Sync from data&quot; to load providers from uploaded files.
                   </Typography>
@@ -130,6 +132,8 @@ export default function DataPartnersPage() {
                     )}
                   </TableCell>
                   <TableCell sx={{ fontSize: '0.8125rem' }}>{partner.description || '—'}</TableCell>
+                  <TableCell sx={{ fontSize: '0.8125rem' }} align="right">{Number(partner.trust_weight ?? 1).toFixed(2)}</TableCell>
+                  <TableCell sx={{ fontSize: '0.8125rem' }} align="right">{Number(partner.agreement_threshold ?? 0.5).toFixed(2)}</TableCell>
                   <TableCell>
                     <IconButton size="small" onClick={() => handleEdit(partner)}>
                       <Edit sx={{ fontSize: '1rem' }} />
@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  IconButton,
+  CircularProgress,
+  Typography,
+  Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import { Edit, Delete } from '@mui/icons-material';
+import { AdminPageShell } from '@/features/admin/components/AdminPageShell';
+import { EditPlatformConnectionDialog } from '@/features/admin/components/EditPlatformConnectionDialog';
+import { useClients } from '@/features/admin/hooks/useClients';
+import {
+  usePlatformConnections,
+  useSavePlatformConnection,
+  useDeletePlatformConnection,
+} from '@/features/admin/hooks/usePlatformConnections';
+import { PlatformConnection, PlatformConnectionInput } from '@/features/admin/api/platformConnections';
+import { getAllConnectors } from '@/features/audience-builder/connectors/registry';
+import { ConnectorMetadata, PlatformKey, PUSH_PAYLOAD_FORMATS } from '@/features/audience-builder/connectors/types';
+
+type ConnectionStatus = 'not_configured' | 'missing_credentials' | 'disabled' | 'ready';
+
+const STATUS_STYLES: Record<ConnectionStatus, { label: string; bg: string; fg: string }> = {
+  not_configured: { label: 'Not configured', bg: '#f5f5f5', fg: '#757575' },
+  missing_credentials: { label: 'Credentials missing', bg: '#fff3e0', fg: '#e65100' },
+  disabled: { label: 'Disabled', bg: '#f5f5f5', fg: '#757575' },
+  ready: { label: 'Ready', bg: '#e8f5e9', fg: '#2e7d32' },
+};
+
+function connectionStatus(connection: PlatformConnection | undefined): ConnectionStatus {
+  if (!connection) return 'not_configured';
+  if (!connection.is_enabled) return 'disabled';
+  if (!connection.credentials_set) return 'missing_credentials';
+  return 'ready';
+}
+
+export default function PlatformConnectionsPage() {
+  const { data: clients = [], isLoading: clientsLoading } = useClients();
+  const [clientId, setClientId] = useState<string>('');
+  const { data: connections = [], isLoading: connectionsLoading } = usePlatformConnections(clientId, !!clientId);
+  const saveConnection = useSavePlatformConnection();
+  const deleteConnection = useDeletePlatformConnection();
+  const [editingPlatform, setEditingPlatform] = useState<ConnectorMetadata | null>(null);
+
+  const platforms = useMemo(() => getAllConnectors().map((connector) => connector.getMetadata()), []);
+  const connectionByPlatform = useMemo(
+    () => new Map<PlatformKey, PlatformConnection>(connections.map((c) => [c.platform, c])),
+    [connections]
+  );
+
+  useEffect(() => {
+    if (!clientId && clients.length > 0) {
+      setClientId(clients[0].id);
+    }
+  }, [clients, clientId]);
+
+  const handleSave = async (input: PlatformConnectionInput) => {
+    await saveConnection.mutateAsync(input);
+  };
+
+  const handleDelete = async (connection: PlatformConnection, label: string) => {
+    if (!confirm(`Remove the ${label} connection and its credentials?`)) return;
+
+    try {
+      await deleteConnection.mutateAsync(connection.id);
+    } catch (error) {
+      console.error('Failed to delete platform connection:', error);
+      alert('Failed to delete. Please try again.');
+    }
+  };
+
+  if (clientsLoading) {
+    return (
+      <AdminPageShell title="Platform Connections">
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      </AdminPageShell>
+    );
+  }
+
+  return (
+    <AdminPageShell title="Platform Connections">
+      <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2 }}>
+        <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>
+          Credentials and account settings used by &quot;Push to platform&quot; on the export step. Credentials are write-only once saved.
+        </Typography>
+        <FormControl size="small" sx={{ minWidth: 220 }}>
+          <InputLabel>Client</InputLabel>
+          <Select value={clientId} label="Client" onChange={(e) => setClientId(e.target.value)}>
+            {clients.map((client) => (
+              <MenuItem key={client.id} value={client.id} sx={{ fontSize: '0.8125rem' }}>
+                {client.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+
+      {clients.length === 0 ? (
+        <Paper sx={{ p: 4, textAlign: 'center', boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="body2" color="text.secondary">
+            No clients yet. Add a client before connecting platforms.
+          </Typography>
+        </Paper>
+      ) : (
+        <TableContainer component={Paper} sx={{ boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)' }}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Platform</TableCell>
+                <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Status</TableCell>
+                <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Default Payload</TableCell>
+                <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Endpoint</TableCell>
+                <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {connectionsLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} align="center" sx={{ py: 4 }}>
+                    <CircularProgress size={24} />
+                  </TableCell>
+                </TableRow>
+              ) : (
+                platforms.map((platform) => {
+                  const connection = connectionByPlatform.get(platform.key);
+                  const status = STATUS_STYLES[connectionStatus(connection)];
+                  return (
+                    <TableRow key={platform.key}>
+                      <TableCell sx={{ fontSize: '0.8125rem', fontWeight: 500 }}>{platform.label}</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={status.label}
+                          size="small"
+                          sx={{ height: 20, fontSize: '0.7rem', bgcolor: status.bg, color: status.fg }}
+                        />
+                      </TableCell>
+                      <TableCell sx={{ fontSize: '0.8125rem' }}>
+                        {connection ? PUSH_PAYLOAD_FORMATS[connection.payload_format].label : '—'}
+                      </TableCell>
+                      <TableCell sx={{ fontSize: '0.8125rem', color: 'text.secondary' }}>
+                        {connection?.endpoint_url || platform.defaultEndpoint}
+                      </TableCell>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                        <IconButton size="small" onClick={() => setEditingPlatform(platform)}>
+                          <Edit sx={{ fontSize: '1rem' }} />
+                        </IconButton>
+                        {connection && (
+                          <IconButton size="small" onClick={() => handleDelete(connection, platform.label)}>
+                            <Delete sx={{ fontSize: '1rem' }} />
+                          </IconButton>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <EditPlatformConnectionDialog
+        open={!!editingPlatform}
+        onClose={() => setEditingPlatform(null)}
+        onSave={handleSave}
+        clientId={clientId}
+        metadata={editingPlatform}
+        connection={editingPlatform ? connectionByPlatform.get(editingPlatform.key) : null}
+      />
+    </AdminPageShell>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  IconButton,
+  CircularProgress,
+  Typography,
+} from '@mui/material';
+import { Edit } from '@mui/icons-material';
+import { AdminPageShell } from '@/features/admin/components/AdminPageShell';
+import { EditSignalNormalizationDialog } from '@/features/admin/components/EditSignalNormalizationDialog';
+import {
+  useSignalNormalizationSettings,
+  useSaveSignalNormalizationSetting,
+} from '@/features/admin/hooks/useSignalNormalization';
+import { useSignalImportBatches } from '@/features/admin/hooks/useSegmentSignalImport';
+import {
+  DEFAULT_NORMALIZATION_METHOD,
+  SignalNormalizationInput,
+  SignalNormalizationSetting,
+} from '@/features/admin/api/signalNormalization';
+import { SignalImportBatch } from '@/features/admin/api/segmentSignalImport';
+import { SCORE_NORMALIZATION_METHODS } from '@/features/audience-builder/types/signals';
+
+interface NormalizationRow {
+  provider: string;
+  segmentKey: string;
+  setting: SignalNormalizationSetting | null;
+  activeBatch: SignalImportBatch | null;
+}
+
+export default function ScoreNormalisationPage() {
+  const { data: settings = [], isLoading: settingsLoading } = useSignalNormalizationSettings();
+  const { data: batches = [], isLoading: batchesLoading } = useSignalImportBatches();
+  const saveSetting = useSaveSignalNormalizationSetting();
+  const [editingRow, setEditingRow] = useState<NormalizationRow | null>(null);
+
+  // Every provider + segment with data or a saved setting
+  const rows = useMemo(() => {
+    const byKey = new Map<string, NormalizationRow>();
+    const rowFor = (provider: string, segmentKey: string) => {
+      const key = `${provider}:${segmentKey}`;
+      if (!byKey.has(key)) byKey.set(key, { provider, segmentKey, setting: null, activeBatch: null });
+      return byKey.get(key)!;
+    };
+    batches.forEach((batch) => {
+      const row = rowFor(batch.provider, batch.segment_key);
+      if (batch.is_active) row.activeBatch = batch;
+    });
+    settings.forEach((setting) => {
+      rowFor(setting.provider, setting.segment_key).setting = setting;
+    });
+    return Array.from(byKey.values()).sort(
+      (a, b) => a.provider.localeCompare(b.provider) || a.segmentKey.localeCompare(b.segmentKey)
+    );
+  }, [batches, settings]);
+
+  const handleSave = async (setting: SignalNormalizationInput) => {
+    const count = await saveSetting.mutateAsync(setting);
+    alert(`Saved. Re-normalised ${count} ${count === 1 ? 'batch' : 'batches'}.`);
+  };
+
+  if (settingsLoading || batchesLoading) {
+    return (
+      <AdminPageShell title="Score Normalisation">
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      </AdminPageShell>
+    );
+  }
+
+  return (
+    <AdminPageShell title="Score Normalisation">
+      <Box sx={{ mb: 2 }}>
+        <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>
+          Partners score on different scales. Choose how each provider&apos;s raw scores become normalised 0-1 scores; agreement thresholds are applied to the normalised value.
+        </Typography>
+      </Box>
+
+      <TableContainer component={Paper} sx={{ boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)' }}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Provider</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Segment</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Method</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }} align="right">Presence Weight</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }} align="right">Index Baseline</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }} align="right">Scored Sectors (Active)</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
+                  <Typography variant="body2" color="text.secondary">
+                    No signal data yet. Use Signal import to load a partner file.
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((row) => {
+                const method = row.setting?.method || DEFAULT_NORMALIZATION_METHOD;
+                return (
+                  <TableRow key={`${row.provider}:${row.segmentKey}`}>
+                    <TableCell sx={{ fontSize: '0.8125rem', fontWeight: 500 }}>{row.provider}</TableCell>
+                    <TableCell sx={{ fontSize: '0.8125rem' }}>{row.segmentKey}</TableCell>
+                    <TableCell sx={{ fontSize: '0.8125rem' }}>
+                      {SCORE_NORMALIZATION_METHODS[method].label}
+                      {!row.setting && (
+                        <Typography component="span" color="text.secondary" sx={{ fontSize: '0.75rem', ml: 0.5 }}>
+                          (default)
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell sx={{ fontSize: '0.8125rem' }} align="right">
+                      {row.setting?.presence_weight != null ? Number(row.setting.presence_weight).toFixed(2) : '—'}
+                    </TableCell>
+                    <TableCell sx={{ fontSize: '0.8125rem' }} align="right">
+                      {method === 'index_to_probability' ? Number(row.setting?.index_baseline ?? 100) : '—'}
+                    </TableCell>
+                    <TableCell sx={{ fontSize: '0.8125rem' }} align="right">
+                      {row.activeBatch
+                        ? `${row.activeBatch.rows_with_score.toLocaleString()} / ${row.activeBatch.row_count.toLocaleString()}`
+                        : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <IconButton size="small" onClick={() => setEditingRow(row)}>
+                        <Edit sx={{ fontSize: '1rem' }} />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <EditSignalNormalizationDialog
+        open={!!editingRow}
+        onClose={() => setEditingRow(null)}
+        onSave={handleSave}
+        provider={editingRow?.provider || ''}
+        segmentKey={editingRow?.segmentKey || ''}
+        setting={editingRow?.setting}
+      />
+    </AdminPageShell>
+  );
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  IconButton,
+  CircularProgress,
+  Typography,
+  Chip,
+  MenuItem,
+  Select,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+} from '@mui/material';
+import { Check, Close, Delete } from '@mui/icons-material';
+import { AdminPageShell } from '@/features/admin/components/AdminPageShell';
+import { AddSegmentMappingDialog } from '@/features/admin/components/AddSegmentMappingDialog';
+import {
+  useCanonicalSegments,
+  useSegmentMappings,
+  useUpsertCanonicalSegment,
+  useCreateSegmentMapping,
+  useUpdateSegmentMapping,
+  useDeleteSegmentMapping,
+  useSuggestSegmentMappings,
+} from '@/features/admin/hooks/useSegmentMappings';
+import { SegmentMapping, SegmentMappingInput, SegmentMappingStatus, SegmentMappingUpdate } from '@/features/admin/api/segmentMappings';
+
+const STATUS_COLORS: Record<SegmentMappingStatus, { bg: string; fg: string }> = {
+  suggested: { bg: '#fff3e0', fg: '#e65100' },
+  approved: { bg: '#e8f5e9', fg: '#2e7d32' },
+  rejected: { bg: '#f5f5f5', fg: '#757575' },
+};
+
+export default function SegmentMappingsPage() {
+  const [statusFilter, setStatusFilter] = useState<SegmentMappingStatus | 'all'>('suggested');
+  const { data: mappings = [], isLoading } = useSegmentMappings(statusFilter === 'all' ? undefined : statusFilter);
+  const { data: canonicalSegments = [] } = useCanonicalSegments();
+  const upsertCanonical = useUpsertCanonicalSegment();
+  const createMapping = useCreateSegmentMapping();
+  const updateMapping = useUpdateSegmentMapping();
+  const deleteMapping = useDeleteSegmentMapping();
+  const suggestMappings = useSuggestSegmentMappings();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const canonicalLabels = useMemo(
+    () => new Map(canonicalSegments.map((s) => [s.canonical_key, s.label])),
+    [canonicalSegments]
+  );
+
+  const handleSuggest = async () => {
+    try {
+      const count = await suggestMappings.mutateAsync();
+      alert(count > 0 ? `Suggested ${count} new mappings for review.` : 'No new mappings to suggest.');
+    } catch (error) {
+      console.error('Failed to suggest mappings:', error);
+      alert('Failed to suggest mappings. Please try again.');
+    }
+  };
+
+  const handleUpdate = async (mapping: SegmentMapping, updates: SegmentMappingUpdate) => {
+    try {
+      await updateMapping.mutateAsync({ id: mapping.id, updates });
+    } catch (error) {
+      console.error('Failed to update mapping:', error);
+      alert('Failed to update mapping. Please try again.');
+    }
+  };
+
+  const handleDelete = async (mapping: SegmentMapping) => {
+    if (!confirm(`Delete mapping ${mapping.provider} / ${mapping.provider_segment_key}?`)) return;
+    try {
+      await deleteMapping.mutateAsync(mapping.id);
+    } catch (error) {
+      console.error('Failed to delete mapping:', error);
+      alert('Failed to delete mapping. Please try again.');
+    }
+  };
+
+  const handleCreate = async (mapping: SegmentMappingInput, newCanonicalLabel?: string) => {
+    if (newCanonicalLabel) {
+      await upsertCanonical.mutateAsync({
+        canonical_key: mapping.canonical_key,
+        label: newCanonicalLabel,
+        description: null,
+      });
+    }
+    await createMapping.mutateAsync(mapping);
+  };
+
+  const isMutating = updateMapping.isPending || deleteMapping.isPending;
+
+  return (
+    <AdminPageShell title="Segment Mappings">
+      <Box sx={{ mb: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2 }}>
+        <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>
+          Map provider segments onto canonical segments. Only approved mappings are used for segment matching and validation.
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1, flexShrink: 0 }}>
+          <Button
+            variant="outlined"
+            onClick={handleSuggest}
+            disabled={suggestMappings.isPending}
+            size="small"
+            sx={{ fontSize: '0.875rem' }}
+          >
+            {suggestMappings.isPending ? 'Suggesting...' : 'Suggest mappings'}
+          </Button>
+          <Button
+            variant="contained"
+            onClick={() => setDialogOpen(true)}
+            size="small"
+            sx={{ fontSize: '0.875rem', bgcolor: '#02b5e7', '&:hover': { bgcolor: '#02a0d0' } }}
+          >
+            Add mapping
+          </Button>
+        </Box>
+      </Box>
+
+      <ToggleButtonGroup
+        value={statusFilter}
+        exclusive
+        size="small"
+        onChange={(_, value) => value && setStatusFilter(value)}
+        sx={{ mb: 2 }}
+      >
+        {(['suggested', 'approved', 'rejected', 'all'] as const).map((status) => (
+          <ToggleButton key={status} value={status} sx={{ fontSize: '0.75rem', textTransform: 'none', px: 1.5 }}>
+            {status.charAt(0).toUpperCase() + status.slice(1)}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer component={Paper} sx={{ boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)' }}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Provider</TableCell>
+                <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Provider Segment</TableCell>
+                <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Canonical Segment</TableCell>
+                <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }} align="right">Confidence</TableCell>
+                <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Status</TableCell>
+                <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {mappings.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                    <Typography variant="body2" color="text.secondary">
+                      {statusFilter === 'suggested'
+                        ? 'No suggestions awaiting review. Click "Suggest mappings" to match uploaded provider segments.'
+                        : 'No mappings.'}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                mappings.map((mapping) => (
+                  <TableRow key={mapping.id}>
+                    <TableCell sx={{ fontSize: '0.8125rem', fontWeight: 500 }}>{mapping.provider}</TableCell>
+                    <TableCell sx={{ fontSize: '0.8125rem' }}>
+                      {mapping.provider_segment_label}
+                      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', fontFamily: 'monospace' }}>
+                        {mapping.provider_segment_key}
+                      </Typography>
+                    </TableCell>
+                    <TableCell sx={{ fontSize: '0.8125rem' }}>
+                      <Select
+                        value={mapping.canonical_key}
+                        size="small"
+                        variant="standard"
+                        disabled={isMutating}
+                        onChange={(e) => handleUpdate(mapping, { canonical_key: e.target.value })}
+                        sx={{ fontSize: '0.8125rem', minWidth: 180 }}
+                      >
+                        {!canonicalLabels.has(mapping.canonical_key) && (
+                          <MenuItem value={mapping.canonical_key} sx={{ fontSize: '0.8125rem' }}>
+                            {mapping.canonical_key}
+                          </MenuItem>
+                        )}
+                        {canonicalSegments.map((segment) => (
+                          <MenuItem key={segment.canonical_key} value={segment.canonical_key} sx={{ fontSize: '0.8125rem' }}>
+                            {segment.label}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell sx={{ fontSize: '0.8125rem' }} align="right">
+                      {Math.round(Number(mapping.similarity_score) * 100)}%
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        label={mapping.status}
+                        size="small"
+                        sx={{
+                          height: 20,
+                          fontSize: '0.7rem',
+                          bgcolor: STATUS_COLORS[mapping.status].bg,
+                          color: STATUS_COLORS[mapping.status].fg,
+                        }}
+                      />
+                    </TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {mapping.status !== 'approved' && (
+                        <Tooltip title="Approve">
+                          <IconButton size="small" disabled={isMutating} onClick={() => handleUpdate(mapping, { status: 'approved' })}>
+                            <Check sx={{ fontSize: '1rem', color: '#2e7d32' }} />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                      {mapping.status !== 'rejected' && (
+                        <Tooltip title="Reject">
+                          <IconButton size="small" disabled={isMutating} onClick={() => handleUpdate(mapping, { status: 'rejected' })}>
+                            <Close sx={{ fontSize: '1rem' }} />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                      <Tooltip title="Delete">
+                        <IconButton size="small" disabled={isMutating} onClick={() => handleDelete(mapping)}>
+                          <Delete sx={{ fontSize: '1rem' }} />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <AddSegmentMappingDialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        onSave={handleCreate}
+        canonicalSegments={canonicalSegments}
+      />
+    </AdminPageShell>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  IconButton,
+  CircularProgress,
+  Typography,
+  Chip,
+  Checkbox,
+  TextField,
+  MenuItem,
+  Tooltip,
+} from '@mui/material';
+import { Delete, Restore } from '@mui/icons-material';
+import { AdminPageShell } from '@/features/admin/components/AdminPageShell';
+import { SignalBatchComparisonDialog } from '@/features/admin/components/SignalBatchComparisonDialog';
+import {
+  useSignalImportBatches,
+  useActivateSignalImportBatch,
+  useDeleteSignalImportBatch,
+} from '@/features/admin/hooks/useSegmentSignalImport';
+import { SignalImportBatch } from '@/features/admin/api/segmentSignalImport';
+import { SCORE_NORMALIZATION_METHODS } from '@/features/audience-builder/types/signals';
+
+const groupKey = (batch: SignalImportBatch) => `${batch.provider}:${batch.segment_key}`;
+
+export default function SignalBatchesPage() {
+  const { data: batches = [], isLoading } = useSignalImportBatches();
+  const activateBatch = useActivateSignalImportBatch();
+  const deleteBatch = useDeleteSignalImportBatch();
+  const [group, setGroup] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [compareOpen, setCompareOpen] = useState(false);
+
+  const groups = useMemo(
+    () => Array.from(new Set(batches.map(groupKey))).sort(),
+    [batches]
+  );
+  const activeGroup = group || groups[0] || '';
+  const groupBatches = useMemo(
+    () => batches.filter((batch) => groupKey(batch) === activeGroup),
+    [batches, activeGroup]
+  );
+
+  // Compare the older selected batch against the newer one
+  const [fromBatch, toBatch] = useMemo(() => {
+    const selected = groupBatches
+      .filter((batch) => selectedIds.includes(batch.id))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    return selected.length === 2 ? [selected[0], selected[1]] : [null, null];
+  }, [groupBatches, selectedIds]);
+
+  const toggleSelected = (batchId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(batchId)
+        ? prev.filter((id) => id !== batchId)
+        : [...prev, batchId].slice(-2)
+    );
+  };
+
+  const handleGroupChange = (value: string) => {
+    setGroup(value);
+    setSelectedIds([]);
+  };
+
+  const handleActivate = async (batch: SignalImportBatch) => {
+    if (!confirm(`Make ${batch.source_file || 'this batch'} (${new Date(batch.created_at).toLocaleString()}) the active batch for ${batch.provider} / ${batch.segment_key}?`)) {
+      return;
+    }
+    try {
+      await activateBatch.mutateAsync(batch.id);
+    } catch (error) {
+      console.error('Failed to activate batch:', error);
+      alert('Failed to roll back. Please try again.');
+    }
+  };
+
+  const handleDelete = async (batch: SignalImportBatch) => {
+    if (!confirm(`Delete ${batch.source_file || 'this batch'} and its ${batch.row_count.toLocaleString()} sector rows?`)) {
+      return;
+    }
+    try {
+      await deleteBatch.mutateAsync(batch.id);
+      setSelectedIds((prev) => prev.filter((id) => id !== batch.id));
+    } catch (error) {
+      console.error('Failed to delete batch:', error);
+      alert('Failed to delete batch. Please try again.');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <AdminPageShell title="Signal Batches">
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      </AdminPageShell>
+    );
+  }
+
+  const isMutating = activateBatch.isPending || deleteBatch.isPending;
+
+  return (
+    <AdminPageShell title="Signal Batches">
+      <Box sx={{ mb: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2 }}>
+        <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>
+          Every signal import is kept as a batch. Only the active batch per provider and segment is used; restore an earlier batch to roll back.
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexShrink: 0 }}>
+          <TextField
+            select
+            size="small"
+            label="Provider / segment"
+            value={activeGroup}
+            onChange={(e) => handleGroupChange(e.target.value)}
+            sx={{ minWidth: 240 }}
+            disabled={groups.length === 0}
+          >
+            {groups.map((key) => (
+              <MenuItem key={key} value={key} sx={{ fontSize: '0.8125rem' }}>
+                {key.replace(':', ' / ')}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Button
+            variant="outlined"
+            size="small"
+            disabled={!fromBatch || !toBatch}
+            onClick={() => setCompareOpen(true)}
+            sx={{ fontSize: '0.875rem' }}
+          >
+            Compare selected
+          </Button>
+        </Box>
+      </Box>
+
+      <TableContainer component={Paper} sx={{ boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)' }}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell padding="checkbox" />
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Imported</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Source File</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }} align="right">Sectors</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }} align="right">Districts</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }} align="right">With Score</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Normalisation</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Checksum</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Importer</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Status</TableCell>
+              <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {groupBatches.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={11} align="center" sx={{ py: 4 }}>
+                  <Typography variant="body2" color="text.secondary">
+                    No import batches yet. Use Signal import to load a partner file.
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              groupBatches.map((batch) => (
+                <TableRow key={batch.id} selected={selectedIds.includes(batch.id)}>
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      size="small"
+                      checked={selectedIds.includes(batch.id)}
+                      onChange={() => toggleSelected(batch.id)}
+                    />
+                  </TableCell>
+                  <TableCell sx={{ fontSize: '0.8125rem' }}>{new Date(batch.created_at).toLocaleString()}</TableCell>
+                  <TableCell sx={{ fontSize: '0.8125rem', fontWeight: 500 }}>{batch.source_file || '—'}</TableCell>
+                  <TableCell sx={{ fontSize: '0.8125rem' }} align="right">{batch.row_count.toLocaleString()}</TableCell>
+                  <TableCell sx={{ fontSize: '0.8125rem' }} align="right">{batch.district_count.toLocaleString()}</TableCell>
+                  <TableCell sx={{ fontSize: '0.8125rem' }} align="right">{batch.rows_with_score.toLocaleString()}</TableCell>
+                  <TableCell sx={{ fontSize: '0.8125rem' }}>
+                    {SCORE_NORMALIZATION_METHODS[batch.normalization_method]?.label || batch.normalization_method}
+                  </TableCell>
+                  <TableCell sx={{ fontSize: '0.75rem', fontFamily: 'monospace' }} title={batch.checksum || undefined}>
+                    {batch.checksum ? batch.checksum.slice(0, 12) : '—'}
+                  </TableCell>
+                  <TableCell sx={{ fontSize: '0.8125rem' }}>{batch.imported_by_email || '—'}</TableCell>
+                  <TableCell>
+                    {batch.is_active && (
+                      <Chip label="Active" size="small" sx={{ height: 20, fontSize: '0.7rem', bgcolor: '#e8f5e9', color: '#2e7d32' }} />
+                    )}
+                  </TableCell>
+                  <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                    {!batch.is_active && (
+                      <>
+                        <Tooltip title="Restore (make active)">
+                          <IconButton size="small" disabled={isMutating} onClick={() => handleActivate(batch)}>
+                            <Restore sx={{ fontSize: '1rem' }} />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Delete">
+                          <IconButton size="small" disabled={isMutating} onClick={() => handleDelete(batch)}>
+                            <Delete sx={{ fontSize: '1rem' }} />
+                          </IconButton>
+                        </Tooltip>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <SignalBatchComparisonDialog
+        open={compareOpen}
+        onClose={() => setCompareOpen(false)}
+        fromBatch={fromBatch}
+        toBatch={toBatch}
+      />
+    </AdminPageShell>
+  );
+}
@@ -0,0 +1,15 @@
+'use client';
+
+import { AdminPageShell } from '@/features/admin/components/AdminPageShell';
+import { SegmentSignalImportWizard } from '@/features/admin/components/SegmentSignalImportWizard';
+
+export default function SignalImportPage() {
+  return (
+    <AdminPageShell
+      title="Signal Import"
+      subtitle="Load a partner segment file into geo_sector_signals. Columns are detected automatically and a dry-run preview is shown before anything is written."
+    >
+      <SegmentSignalImportWizard />
+    </AdminPageShell>
+  );
+}
@@ -31,10 +31,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Export not found or access denied' }, { status: 403 });
     }
 
-    // Generate signed URL with short expiry (15 minutes)
+    // Generate signed URL with short expiry (15 minutes), served as an attachment so it downloads in place
     const { data, error } = await supabase.storage
       .from('audience-exports')
-      .createSignedUrl(storagePath, 900); // 15 minutes
+      .createSignedUrl(storagePath, 900, { download: true }); // 15 minutes
 
     if (error) {
       return NextResponse.json({ error: 'Failed to generate download URL' }, { status: 500 });
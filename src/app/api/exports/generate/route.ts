@@ -1,10 +1,19 @@
 import { createServerClient } from '@/lib/supabase/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import type { Json } from '@/lib/supabase/database.types';
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import * as geoDistrictsApi from '@/features/audience-builder/api/geoDistricts';
-import { getProviderImpact } from '@/features/audience-builder/api/extensionResults';
-import { getSelectedSegmentKeys } from '@/features/audience-builder/api/selectedSegments';
-
+import { AudienceResolutionInput } from '@/features/audience-builder/services/audienceResolution.service';
+import {
+  ExportGenerationError,
+  ExportGenerationParams,
+  generateExport,
+} from '@/features/audience-builder/services/exportGeneration.service';
+import { startExportJob } from '@/features/audience-builder/services/exportJobs.service';
+
+/**
+ * Previews are generated in the request. Exports are queued as a job on a new exports
+ * row and generated after the response; clients poll the row for progress.
+ */
 export async function POST(request: NextRequest) {
   try {
     const supabase = createServerClient();
@@ -17,17 +26,33 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { 
-      audienceId, 
-      exportType, 
-      activationTarget = 'h3', 
-      recommendedThreshold = 50, 
+    const {
+      audienceId,
+      exportType,
+      activationTarget = 'h3',
+      h3Resolution, // H3 cell resolution for the h3 target (optional)
+      recommendedThreshold = 50,
       preview = false,
       validationMinAgreement, // From context (optional, falls back to DB)
       includedSegmentKeys, // From context (optional, falls back to DB)
-    } = body;
+      segmentKey, // From context (optional, falls back to DB)
+      resolution, // Full builder state from context (optional)
+      expectedChecksum, // District checksum the client resolved (optional)
+    } = body as {
+      audienceId?: string;
+      exportType?: string;
+      activationTarget?: string;
+      h3Resolution?: number;
+      recommendedThreshold?: number;
+      preview?: boolean;
+      validationMinAgreement?: number;
+      includedSegmentKeys?: string[];
+      segmentKey?: string;
+      resolution?: Partial<AudienceResolutionInput>;
+      expectedChecksum?: string;
+    };
 
-    if (!audienceId || !exportType || !['csv', 'geojson'].includes(exportType)) {
+    if (!audienceId || !exportType || !['csv', 'geojson', 'xlsx', 'html', 'pdf'].includes(exportType)) {
       return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
     }
 
@@ -43,325 +68,57 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Audience not found or access denied' }, { status: 403 });
     }
 
-    // Get construction settings first (needed to determine mode)
-    const { data: constructionSettings, error: settingsError } = await supabase
-      .from('audience_construction_settings')
-      .select('*')
-      .eq('audience_id', audienceId)
-      .single();
-
-    // Determine if we're in validation mode and should use districts
-    const isValidationMode = constructionSettings && (constructionSettings as any).construction_mode === 'validation';
-    // Use validationMinAgreement from context if provided, otherwise fall back to DB (default 1)
-    const minAgreement = validationMinAgreement !== undefined ? validationMinAgreement : ((constructionSettings as any)?.validation_min_agreement || 1);
-    
-    let geoUnits: any[] = [];
-    let districts: any[] = [];
-    let providerImpactData: any = null;
+    const params: ExportGenerationParams = {
+      audienceId,
+      exportType: exportType as ExportGenerationParams['exportType'],
+      activationTarget,
+      h3Resolution,
+      recommendedThreshold,
+      validationMinAgreement,
+      includedSegmentKeys,
+      segmentKey,
+      resolution,
+      expectedChecksum,
+    };
 
-    if (isValidationMode) {
-      // Validation mode: use districts with agreement
-      const audienceKey = 'home_movers'; // TODO: derive from anchor segment
-      const providers = ['CCS', 'ONS', 'Experian', 'TwentyCI', 'Outra'];
-      
+    // If preview mode, return content without uploading
+    if (preview) {
+      let generated;
       try {
-        districts = await geoDistrictsApi.getDistrictsWithAgreement(audienceKey, minAgreement, providers);
-        
-        // Convert districts to geo_units format for compatibility
-        geoUnits = districts.map((d) => ({
-          id: `district_${d.district}`,
-          audience_id: audienceId,
-          geo_type: 'postcode_sector',
-          geo_id: d.district,
-          score: d.avg_confidence * 100,
-          confidence_tier: d.avg_confidence >= 0.7 ? 'high' : d.avg_confidence >= 0.4 ? 'medium' : 'low',
-          drivers: {
-            signals: [],
-            agreement_count: d.agreement_count,
-          },
-          geometry: d.geometry,
-          agreement_count: d.agreement_count,
-          agreeing_providers: d.agreeing_providers,
-        }));
+        generated = await generateExport(params, { client: supabase, preview: true });
       } catch (error) {
-        console.error('Failed to fetch districts:', error);
-        // Fallback to empty array
-      }
-    } else {
-      // Extension mode: use providerImpact results
-      const anchorKey = 'home_movers'; // TODO: derive from anchor segment
-      
-      // Get selected segments
-      let selectedKeys: string[] = [];
-      if (includedSegmentKeys && includedSegmentKeys.length > 0) {
-        selectedKeys = includedSegmentKeys;
-      } else {
-        try {
-          selectedKeys = await getSelectedSegmentKeys(audienceId);
-          // Ensure anchor is included
-          if (!selectedKeys.includes(anchorKey)) {
-            selectedKeys = [anchorKey, ...selectedKeys];
-          }
-        } catch (error) {
-          console.error('Failed to load selected segments:', error);
-          selectedKeys = [anchorKey];
+        if (error instanceof ExportGenerationError) {
+          return NextResponse.json({ error: error.message }, { status: error.status });
         }
+        throw error;
       }
 
-      // Get provider impact
-      try {
-        const providerImpact = await getProviderImpact({
-          anchorKey,
-          includedSegmentKeys: selectedKeys,
-          confidenceThreshold: 0.5,
-          includeAnchorOnly: true,
+      const { content, metadata, features, rowCount } = generated;
+      if (exportType === 'xlsx') {
+        // Districts sheet rows
+        const headers = features.length > 0 ? Object.keys(features[0]) : [];
+        return NextResponse.json({
+          success: true,
+          preview: {
+            metadata,
+            sheets: ['Summary', 'Districts', 'Provider Contributions', 'TV Regions'],
+            headers,
+            rows: features.slice(0, 15).map((row) => Object.values(row).map((value) => String(value ?? ''))),
+            totalRows: rowCount,
+          },
         });
-
-        // Convert includedDistricts to geo_units format
-        geoUnits = providerImpact.includedDistricts.map((d) => ({
-          id: `district_${d.district}`,
-          audience_id: audienceId,
-          geo_type: 'postcode_sector',
-          geo_id: d.district,
-          score: d.avgConfidence * 100,
-          confidence_tier: d.avgConfidence >= 0.7 ? 'high' : d.avgConfidence >= 0.4 ? 'medium' : 'low',
-          drivers: {
-            signals: [],
-            agreement_count: d.agreementCount,
-            supporting_providers: d.supportingProviders,
+      } else if (exportType === 'html' || exportType === 'pdf') {
+        // Report previews are the HTML the PDF is printed from
+        return NextResponse.json({
+          success: true,
+          preview: {
+            metadata,
+            html: String(content),
+            totalRows: rowCount,
           },
-          geometry: null, // Centroids only, no polygon
-          agreement_count: d.agreementCount,
-          agreeing_providers: d.supportingProviders,
-          centroid_lat: d.centroid_lat,
-          centroid_lng: d.centroid_lng,
-        }));
-
-        // Store provider impact for metadata
-        providerImpactData = providerImpact;
-      } catch (error) {
-        console.error('Failed to fetch provider impact:', error);
-        // Fallback to empty array
-        geoUnits = [];
-      }
-    }
-
-    // Get included segments for metadata
-    // Use includedSegmentKeys from context if provided, otherwise query DB
-    let segments: any[] = [];
-    
-    if (isValidationMode) {
-      // Validation mode: get segments from audience_segments
-      if (includedSegmentKeys && includedSegmentKeys.length > 0) {
-        const { data: segs = [] } = await supabase
-          .from('audience_segments')
-          .select('*')
-          .eq('audience_id', audienceId)
-          .in('segment_key', includedSegmentKeys);
-        segments = segs || [];
-      } else {
-        const { data: segs = [] } = await supabase
-          .from('audience_segments')
-          .select('*')
-          .eq('audience_id', audienceId)
-          .eq('is_selected', true);
-        segments = segs || [];
-      }
-    } else {
-      // Extension mode: segments come from selectedSegmentKeys
-      const anchorKey = 'home_movers';
-      let selectedKeys: string[] = [];
-      if (includedSegmentKeys && includedSegmentKeys.length > 0) {
-        selectedKeys = includedSegmentKeys;
-      } else {
-        try {
-          selectedKeys = await getSelectedSegmentKeys(audienceId);
-          if (!selectedKeys.includes(anchorKey)) {
-            selectedKeys = [anchorKey, ...selectedKeys];
-          }
-        } catch (error) {
-          selectedKeys = [anchorKey];
-        }
-      }
-      
-      // Get segment labels from segment_library
-      if (selectedKeys.length > 0) {
-        const { data: segLibs = [] } = await supabase
-          .from('segment_library')
-          .select('segment_key, label, provider')
-          .in('segment_key', selectedKeys)
-          .eq('is_active', true);
-        segments = (segLibs || []).map((s: any) => ({
-          segment_key: s.segment_key,
-          segment_label: s.label,
-          provider: s.provider,
-          origin: 'suggested',
-        }));
-      }
-    }
-
-    // Build metadata
-    const metadata: any = {
-      mode: (constructionSettings as any)?.construction_mode || 'extension',
-      included_segments: segments.map(s => ({
-        segment_key: s.segment_key,
-        segment_label: s.segment_label,
-        provider: s.provider,
-        origin: s.origin,
-      })),
-      last_built_at: (constructionSettings as any)?.last_run_at || null,
-      activation_target: activationTarget,
-      recommended_threshold: recommendedThreshold,
-      export_generated_at: new Date().toISOString(),
-    };
-    
-    // Add provider impact for Extension mode (already computed above)
-    if (!isValidationMode && providerImpactData) {
-      metadata.provider_impact = providerImpactData.providerStats;
-      metadata.totals = providerImpactData.totals;
-    }
-
-    // Calculate inclusion based on threshold
-    const threshold = recommendedThreshold || 50;
-    
-    // Generate content
-    let content: string;
-    let features: any[] = [];
-    if (exportType === 'csv') {
-      // Add metadata as commented JSON line
-      const metadataLine = `# ${JSON.stringify(metadata)}`;
-      
-      // Headers differ for validation vs extension mode
-      const headers = isValidationMode
-        ? ['district', 'providers_agreeing', 'confidence_level', 'avg_confidence', 'agreeing_providers', 'lat', 'lng']
-        : ['geo_id', 'geo_type', 'score', 'confidence_tier', 'included', 'top_drivers', 'lat', 'lng'];
-      
-      const rows = geoUnits.map((unit) => {
-        const geometry = unit.geometry as any;
-        let lat = 0;
-        let lng = 0;
-        
-        if (isValidationMode && districts.length > 0) {
-          // For districts, use centroid
-          const district = districts.find(d => d.district === unit.geo_id);
-          if (district) {
-            lat = district.centroid_lat;
-            lng = district.centroid_lng;
-          }
-        } else {
-          // For geo units, extract from geometry
-          [lng, lat] = geometry?.coordinates?.[0]?.[0] || [0, 0];
-        }
-        
-        if (isValidationMode) {
-          // Validation mode: district-based export
-          const agreementCount = unit.agreement_count || 0;
-          const confidenceLevel = unit.confidence_tier || 'low';
-          const avgConfidence = districts.find(d => d.district === unit.geo_id)?.avg_confidence || 0;
-          const agreeingProviders = (unit.agreeing_providers || []).join('; ');
-          
-          return [
-            unit.geo_id, // district code
-            agreementCount,
-            confidenceLevel,
-            avgConfidence.toFixed(3),
-            `"${agreeingProviders}"`,
-            lat,
-            lng,
-          ].join(',');
-        } else {
-          // Extension mode: existing logic
-          const included = unit.score >= threshold;
-          
-          const drivers = unit.drivers as any;
-          const signals = drivers?.signals || [];
-          const topDrivers = signals
-            .sort((a: any, b: any) => b.contribution - a.contribution)
-            .slice(0, 3)
-            .map((s: any) => `${s.signal_type}(${s.contribution.toFixed(1)})`)
-            .join('; ');
-          
-          return [
-            unit.geo_id,
-            unit.geo_type,
-            unit.score,
-            unit.confidence_tier,
-            included ? 'true' : 'false',
-            `"${topDrivers || ''}"`,
-            lat,
-            lng,
-          ].join(',');
-        }
-      });
-      content = [metadataLine, headers.join(','), ...rows].join('\n');
-    } else {
-      features = geoUnits.map((unit) => {
-        if (isValidationMode) {
-          // Validation mode: district-based GeoJSON
-          const district = districts.find(d => d.district === unit.geo_id);
-          return {
-            type: 'Feature',
-            geometry: district?.geometry || unit.geometry || {
-              type: 'Polygon',
-              coordinates: [],
-            },
-            properties: {
-              district: unit.geo_id,
-              providers_agreeing: unit.agreement_count || 0,
-              confidence_level: unit.confidence_tier || 'low',
-              avg_confidence: district?.avg_confidence || 0,
-              agreeing_providers: unit.agreeing_providers || [],
-              audience_key: 'home_movers',
-            },
-          };
-        } else {
-          // Extension mode: existing logic
-          const drivers = unit.drivers as any;
-          const signals = drivers?.signals || [];
-          const topDrivers = signals
-            .sort((a: any, b: any) => b.contribution - a.contribution)
-            .slice(0, 3)
-            .map((s: any) => ({
-              signal_type: s.signal_type,
-              contribution: s.contribution,
-              inferred: s.inferred || false,
-            }));
-          
-          return {
-            type: 'Feature',
-            geometry: unit.geometry || {
-              type: 'Point',
-              coordinates: [0, 0],
-            },
-            properties: {
-              geo_id: unit.geo_id,
-              geo_type: unit.geo_type,
-              score: unit.score,
-              confidence_tier: unit.confidence_tier,
-              included: unit.score >= threshold,
-              top_drivers: topDrivers,
-              recommended_threshold: threshold,
-              activation_target: activationTarget,
-            },
-          };
-        }
-      });
-      content = JSON.stringify(
-        {
-          type: 'FeatureCollection',
-          metadata,
-          features,
-        },
-        null,
-        2
-      );
-    }
-
-    // If preview mode, return content without uploading
-    if (preview) {
-      if (exportType === 'csv') {
-        const rows = content.split('\n');
-        const metadataRow = rows.find(r => r.startsWith('#'));
+        });
+      } else if (exportType === 'csv') {
+        const rows = String(content).split('\n');
         const headerRow = rows.find(r => !r.startsWith('#') && r.trim());
         const dataRows = rows
           .filter(r => !r.startsWith('#') && r.trim() && r !== headerRow)
@@ -372,7 +129,7 @@ export async function POST(request: NextRequest) {
             metadata,
             headers: headerRow?.split(',') || [],
             rows: dataRows.map(r => r.split(',')),
-            totalRows: geoUnits.length,
+            totalRows: rowCount,
           },
         });
       } else {
@@ -387,37 +144,31 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Upload to storage
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `audience-${audienceId}-${activationTarget}-v1-${timestamp}.${exportType}`;
-
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from('audience-exports')
-      .upload(filename, content, {
-        contentType: exportType === 'csv' ? 'text/csv' : 'application/geo+json',
-      });
-
-    if (uploadError) {
-      return NextResponse.json({ error: 'Failed to upload export' }, { status: 500 });
-    }
-
-    // Create export record
-    const { data: exportRecord, error: exportError } = await supabase
+    // Queue the export job (job rows are written with the service role)
+    const serviceClient = createServiceClient();
+    const { data: job, error: jobError } = await serviceClient
       .from('exports')
       .insert({
         audience_id: audienceId,
         user_id: user.id,
-        export_type: exportType,
-        storage_path: uploadData.path,
-      } as any)
+        export_type: params.exportType,
+        storage_path: null,
+        activation_target: activationTarget,
+        status: 'queued',
+        progress: 0,
+        progress_message: 'Queued',
+        job_params: params as unknown as Json,
+      })
       .select()
       .single();
 
-    if (exportError) {
-      return NextResponse.json({ error: 'Failed to create export record' }, { status: 500 });
+    if (jobError || !job) {
+      return NextResponse.json({ error: 'Failed to queue export' }, { status: 500 });
     }
 
-    return NextResponse.json({ success: true, export: exportRecord });
+    startExportJob(serviceClient, job.id, params, user.id);
+
+    return NextResponse.json({ success: true, export: job }, { status: 202 });
   } catch (error) {
     console.error('Export generation error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
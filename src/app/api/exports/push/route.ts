@@ -0,0 +1,188 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import {
+  AudienceResolution,
+  AudienceResolutionInput,
+  resolveAudience,
+  resolveSavedAudience,
+} from '@/features/audience-builder/services/audienceResolution.service';
+import {
+  ExportGenerationError,
+  isValidResolutionRequest,
+  prepareExportResolution,
+} from '@/features/audience-builder/services/exportGeneration.service';
+import {
+  getPlatformConnectionWithSecrets,
+  pushAudienceToPlatform,
+  resolveConnectorBaseUrl,
+} from '@/features/audience-builder/services/platformPush.service';
+import { getConnector, isPlatformKey } from '@/features/audience-builder/connectors/registry';
+import { PushPayloadFormat, PUSH_PAYLOAD_FORMATS } from '@/features/audience-builder/connectors/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const {
+      audienceId,
+      platform,
+      payloadFormat: requestedFormat, // Optional, defaults to the connection's format
+      h3Resolution,
+      resolution: requestedResolution, // Full builder state from context (optional, falls back to saved state)
+      expectedChecksum,
+    } = body as {
+      audienceId?: string;
+      platform?: string;
+      payloadFormat?: string;
+      h3Resolution?: number;
+      resolution?: Partial<AudienceResolutionInput>;
+      expectedChecksum?: string;
+    };
+
+    if (
+      !audienceId ||
+      !isPlatformKey(platform) ||
+      (requestedResolution != null && !isValidResolutionRequest(requestedResolution))
+    ) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    // Verify ownership
+    const { data: audience, error: audienceError } = await supabase
+      .from('audiences')
+      .select('id, user_id, name, client_id')
+      .eq('id', audienceId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (audienceError || !audience) {
+      return NextResponse.json({ error: 'Audience not found or access denied' }, { status: 403 });
+    }
+
+    const clientId = audience.client_id;
+    if (!clientId) {
+      return NextResponse.json(
+        { error: 'Assign a client to this audience before pushing to a platform.' },
+        { status: 422 }
+      );
+    }
+
+    const connector = getConnector(platform);
+    const metadata = connector.getMetadata();
+    // Export rows and the delivery log are written with the service role (users can't update them)
+    const serviceClient = createServiceClient();
+    const connection = await getPlatformConnectionWithSecrets(serviceClient, clientId, platform);
+    if (!connection || !connection.isEnabled) {
+      return NextResponse.json(
+        { error: `${metadata.label} is not configured for this client. Set it up in Admin → Platform connections.` },
+        { status: 422 }
+      );
+    }
+
+    try {
+      resolveConnectorBaseUrl(connector, connection);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Connection endpoint is not allowed' },
+        { status: 422 }
+      );
+    }
+
+    const format = (requestedFormat || connection.payloadFormat) as PushPayloadFormat;
+    if (!(format in PUSH_PAYLOAD_FORMATS) || !metadata.supportedFormats.includes(format)) {
+      return NextResponse.json(
+        { error: `${metadata.label} does not accept ${format} payloads` },
+        { status: 400 }
+      );
+    }
+
+    // Builder state is completed the same way as file exports (anchor fallback, saved
+    // composition for composite audiences); without it the saved audience is resolved
+    let resolutionInput: AudienceResolutionInput | null = null;
+    if (requestedResolution) {
+      try {
+        ({ input: resolutionInput } = await prepareExportResolution(supabase, {
+          audienceId,
+          resolution: requestedResolution,
+        }));
+      } catch (error) {
+        if (error instanceof ExportGenerationError) {
+          return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+      }
+    }
+
+    // Resolve through the same service as the map and file exports
+    let resolution: AudienceResolution | null;
+    try {
+      resolution = resolutionInput
+        ? await resolveAudience(resolutionInput, supabase)
+        : await resolveSavedAudience(audienceId, supabase);
+    } catch (error) {
+      console.error('Failed to resolve audience districts:', error);
+      return NextResponse.json({ error: 'Failed to resolve audience districts' }, { status: 500 });
+    }
+    if (!resolution) {
+      return NextResponse.json(
+        { error: 'No anchor segment configured for this audience. Select a segment in Audience Selection before pushing.' },
+        { status: 422 }
+      );
+    }
+    if (expectedChecksum && expectedChecksum !== resolution.checksum) {
+      console.warn('[exports/push] District checksum differs from client resolution', {
+        audienceId,
+        expectedChecksum,
+        checksum: resolution.checksum,
+      });
+    }
+
+    let result;
+    try {
+      result = await pushAudienceToPlatform({
+        client: serviceClient,
+        userId: user.id,
+        audienceId,
+        audienceName: audience.name,
+        connector,
+        connection,
+        format,
+        h3Resolution,
+        resolution,
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to push audience' },
+        { status: 500 }
+      );
+    }
+    const { export: exportRecord, delivery } = result;
+
+    const lastAttempt = delivery.log[delivery.log.length - 1];
+    return NextResponse.json(
+      {
+        success: delivery.status === 'delivered',
+        export: exportRecord,
+        delivery: {
+          status: delivery.status,
+          externalId: delivery.externalId,
+          message: lastAttempt?.message || '',
+          attempts: delivery.log.length,
+        },
+      },
+      { status: delivery.status === 'delivered' ? 200 : 502 }
+    );
+  } catch (error) {
+    console.error('Platform push error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import { NextRequest, NextResponse } from 'next/server';
+import { ExportGenerationParams } from '@/features/audience-builder/services/exportGeneration.service';
+import { startExportJob } from '@/features/audience-builder/services/exportJobs.service';
+import { canRetryExportJob } from '@/features/audience-builder/utils/exportJobs';
+import { Export } from '@/lib/types';
+
+/**
+ * Re-run a failed (or interrupted) export job with the parameters it was queued with
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { exportId } = (await request.json()) as { exportId?: string };
+    if (!exportId) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    // Verify ownership
+    const { data, error: jobError } = await supabase
+      .from('exports')
+      .select('*')
+      .eq('id', exportId)
+      .eq('user_id', user.id)
+      .single();
+
+    const job = data as Export | null;
+    if (jobError || !job) {
+      return NextResponse.json({ error: 'Export not found or access denied' }, { status: 403 });
+    }
+
+    if (!canRetryExportJob(job)) {
+      return NextResponse.json(
+        { error: job.job_params ? `Export is ${job.status} and cannot be retried` : 'This export cannot be retried' },
+        { status: 409 }
+      );
+    }
+
+    // Job rows are written with the service role
+    const serviceClient = createServiceClient();
+    const { data: queuedJob, error: updateError } = await serviceClient
+      .from('exports')
+      .update({
+        status: 'queued',
+        progress: 0,
+        progress_message: 'Queued',
+        error_detail: null,
+        attempts: (job.attempts || 1) + 1,
+        started_at: null,
+        completed_at: null,
+      })
+      .eq('id', exportId)
+      .select()
+      .single();
+
+    if (updateError || !queuedJob) {
+      return NextResponse.json({ error: 'Failed to queue export' }, { status: 500 });
+    }
+
+    startExportJob(serviceClient, exportId, job.job_params as unknown as ExportGenerationParams, user.id);
+
+    return NextResponse.json({ success: true, export: queuedJob }, { status: 202 });
+  } catch (error) {
+    console.error('Export retry error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
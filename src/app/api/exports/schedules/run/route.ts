@@ -0,0 +1,85 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import { ExportSchedule } from '@/features/audience-builder/api/exportSchedules';
+import {
+  runDueExportSchedules,
+  runExportSchedule,
+} from '@/features/audience-builder/services/exportSchedules.service';
+import { recoverExportJobs } from '@/features/audience-builder/services/exportJobs.service';
+
+function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return Boolean(secret) && request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+async function runDue() {
+  const serviceClient = createServiceClient();
+  // Export jobs whose request was cut off first, then the due schedules
+  const jobs = await recoverExportJobs(serviceClient);
+  const runs = await runDueExportSchedules(serviceClient);
+  return NextResponse.json({ success: true, runs, jobs });
+}
+
+/**
+ * Scheduler entry point: finishes interrupted export jobs and runs every due schedule.
+ * Call from cron with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return await runDue();
+  } catch (error) {
+    console.error('Scheduled exports error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Cron (same as GET), or a signed-in user running one of their schedules now
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (isCronRequest(request)) {
+      return await runDue();
+    }
+
+    const supabase = createServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { scheduleId } = (await request.json()) as { scheduleId?: string };
+    if (!scheduleId) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    // Verify ownership
+    const { data: schedule, error: scheduleError } = await supabase
+      .from('export_schedules')
+      .select('*')
+      .eq('id', scheduleId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (scheduleError || !schedule) {
+      return NextResponse.json({ error: 'Schedule not found or access denied' }, { status: 403 });
+    }
+
+    const run = await runExportSchedule(createServiceClient(), schedule as ExportSchedule);
+    return NextResponse.json(
+      { success: run.status === 'succeeded', runs: [run] },
+      { status: run.status === 'failed' ? 502 : 200 }
+    );
+  } catch (error) {
+    console.error('Scheduled export run error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { redirect } from 'next/navigation';
+import { createServerClient } from '@/lib/supabase/server';
+import { CompositeAudienceView } from '@/components/audiences/CompositeAudienceView';
+
+export default async function CompositeAudiencePage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const supabase = createServerClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  return <CompositeAudienceView audienceId={params.id} />;
+}
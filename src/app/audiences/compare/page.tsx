@@ -0,0 +1,25 @@
+import { redirect } from 'next/navigation';
+import { createServerClient } from '@/lib/supabase/server';
+import { AudienceComparison } from '@/components/audiences/AudienceComparison';
+
+export default async function CompareAudiencesPage({
+  searchParams,
+}: {
+  searchParams: { ids?: string };
+}) {
+  const supabase = createServerClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  // ?ids=a,b,c - order determines each audience's colour
+  const audienceIds = Array.from(
+    new Set((searchParams.ids || '').split(',').map((id) => id.trim()).filter(Boolean))
+  );
+
+  return <AudienceComparison audienceIds={audienceIds} />;
+}
@@ -1,16 +1,36 @@
 'use client';
 
-import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
 import { ConstructionMode } from '@/lib/types';
-import { useConstructionSettings } from '@/features/audience-builder/hooks/useConstruction';
+import { useConstructionSettings, useUpdateConstructionSettings } from '@/features/audience-builder/hooks/useConstruction';
+import { GeoResolution, ValidationAgreementMode } from '@/features/audience-builder/types/signals';
 import { useSegments } from '@/features/audience-builder/hooks/useSegments';
+import { useSavedBuilderState, useSaveBuilderState } from '@/features/audience-builder/hooks/useBuilderState';
+import { PersistedBuilderState, pickPersistedBuilderState } from '@/features/audience-builder/api/builderState';
+import { AgreementScoring } from '@/features/audience-builder/api/validationResults';
+import { useDebounce } from '@/hooks/useDebounce';
+import {
+  AudienceResolutionInput,
+  DEFAULT_BASE_PROVIDER,
+  resolutionInputFromBuilderState,
+} from '@/features/audience-builder/services/audienceResolution.service';
+import {
+  BattleZoneCatchment,
+  DEFAULT_BATTLE_ZONE_CATCHMENT,
+} from '@/features/audience-builder/utils/battleZoneCatchments';
 
 interface BuilderState {
   constructionMode: ConstructionMode;
   validationMinAgreement: number;
+  validationAgreementMode: ValidationAgreementMode; // Persisted on construction settings
+  validationScoring: AgreementScoring; // Validation slider semantics: provider count or weighted trust
+  validationMinWeightedScore: number; // Applied weighted agreement threshold (0-1) in Validation mode
+  geoResolution: GeoResolution; // Validation mode: agreement per district or per postcode sector
+  extensionConfidenceThreshold: number; // Applied confidence threshold in Extension mode
   includedSegmentKeys: string[];
   selectionConfirmed: boolean;
-  selectedProviders: string[]; // Non-CCS providers selected in step 2
+  selectedProviders: string[]; // Non-base providers selected in step 2
+  baseProvider: string; // Validation base universe provider (CCS unless the client licenses another primary source)
   selectedSegmentKey: string | null; // Canonical segment key from geo_district_signals
   tvRegions: string[]; // TV region keys for filtering map (e.g., ['london', 'stv_north'])
   selectedPoiIds: string[]; // Selected store POI IDs (manual selection)
@@ -19,6 +39,7 @@ interface BuilderState {
   battleZoneBaseBrand: string;
   battleZoneCompetitorBrands: string[];
   battleZoneRings: number;
+  battleZoneCatchment: BattleZoneCatchment; // Neighbour rings, km radius or drive time per base store
   activeTab: 'map' | 'tvInsights'; // Active tab in Build & Explore step
 }
 
@@ -26,6 +47,11 @@ interface BuilderContextType {
   state: BuilderState;
   setConstructionMode: (mode: ConstructionMode) => void;
   setValidationMinAgreement: (value: number) => void;
+  setValidationAgreementMode: (mode: ValidationAgreementMode) => void;
+  setValidationScoring: (scoring: AgreementScoring) => void;
+  setValidationMinWeightedScore: (value: number) => void;
+  setGeoResolution: (resolution: GeoResolution) => void;
+  setExtensionConfidenceThreshold: (value: number) => void;
   setIncludedSegmentKeys: (keys: string[]) => void;
   setSelectionConfirmed: (confirmed: boolean) => void;
   setSelectedProviders: (providers: string[], keepSelectionConfirmed?: boolean) => void;
@@ -37,22 +63,52 @@ interface BuilderContextType {
   setBattleZoneBaseBrand: (brand: string) => void;
   setBattleZoneCompetitorBrands: (brands: string[]) => void;
   setBattleZoneRings: (rings: number) => void;
+  setBattleZoneCatchment: (catchment: BattleZoneCatchment) => void;
   setActiveTab: (tab: 'map' | 'tvInsights') => void;
-  confirmSelection: (segmentKey: string, providers: string[]) => void; // Helper to set all selection state at once
-  getAllProvidersForBuild: () => string[]; // Returns ['CCS', ...selectedProviders]
+  confirmSelection: (segmentKey: string, providers: string[], baseProvider?: string) => void; // Helper to set all selection state at once
+  getAllProvidersForBuild: () => string[]; // Returns [baseProvider, ...selectedProviders]
+  getResolutionInput: (fallbackSegmentKey?: string) => AudienceResolutionInput | null; // Shared map/export resolution input
+  applySavedState: (saved: PersistedBuilderState) => void; // Replace state with a saved/restored snapshot
+  flushBuilderState: () => Promise<void>; // Save pending changes now instead of waiting for the debounced autosave
 }
 
 const BuilderContext = createContext<BuilderContextType | undefined>(undefined);
 
+/**
+ * Pick the fields to restore from a saved state. Selection fields are dropped when they were
+ * saved under a different construction mode (switching mode resets the selection).
+ */
+function getHydratableState(
+  saved: PersistedBuilderState,
+  currentMode: ConstructionMode | undefined
+): Partial<BuilderState> {
+  const { constructionMode: savedMode, ...rest } = pickPersistedBuilderState(saved);
+  const hydratable: Partial<BuilderState> = rest;
+  if (savedMode && currentMode && savedMode !== currentMode) {
+    delete hydratable.selectionConfirmed;
+    delete hydratable.selectedProviders;
+    delete hydratable.baseProvider;
+    delete hydratable.selectedSegmentKey;
+    delete hydratable.includedSegmentKeys;
+  }
+  return hydratable;
+}
+
 export function BuilderProvider({ children, audienceId }: { children: ReactNode; audienceId: string }) {
   // Initialize with default values to avoid hydration mismatch
   // These defaults ensure server and client render the same initially
   const [state, setState] = useState<BuilderState>({
     constructionMode: 'extension',
     validationMinAgreement: 1,
+    validationAgreementMode: 'threshold',
+    validationScoring: 'count',
+    validationMinWeightedScore: 0.5,
+    geoResolution: 'district',
+    extensionConfidenceThreshold: 0.5,
     includedSegmentKeys: [],
     selectionConfirmed: false,
     selectedProviders: [],
+    baseProvider: DEFAULT_BASE_PROVIDER,
     selectedSegmentKey: null,
     tvRegions: [],
     selectedPoiIds: [],
@@ -61,6 +117,7 @@ export function BuilderProvider({ children, audienceId }: { children: ReactNode;
     battleZoneBaseBrand: '',
     battleZoneCompetitorBrands: [],
     battleZoneRings: 0,
+    battleZoneCatchment: DEFAULT_BATTLE_ZONE_CATCHMENT,
     activeTab: 'map',
   });
 
@@ -72,11 +129,17 @@ export function BuilderProvider({ children, audienceId }: { children: ReactNode;
   }, []);
 
   // Only fetch data on client to avoid SSR/client mismatches
-  const { data: settings } = useConstructionSettings(audienceId);
+  const { data: settings, isFetched: settingsFetched } = useConstructionSettings(audienceId);
   const { data: segments = [] } = useSegments(audienceId, 'primary', settings?.construction_mode);
+  const { data: savedState, isFetched: savedStateFetched } = useSavedBuilderState(audienceId);
+  const { mutateAsync: saveBuilderState } = useSaveBuilderState();
+  const { mutate: updateConstructionSettings } = useUpdateConstructionSettings();
 
   // Track if user has explicitly changed mode (to prevent DB from overwriting)
   const hasUserChangedModeRef = useRef(false);
+  // Autosave is held back until the saved state has been applied (prevents saving defaults over it)
+  const [stateHydrated, setStateHydrated] = useState(false);
+  const lastSavedStateRef = useRef<string | null>(null);
 
   // Sync with database settings only after client mount AND only if user hasn't changed it
   useEffect(() => {
@@ -100,6 +163,55 @@ export function BuilderProvider({ children, audienceId }: { children: ReactNode;
     }
   }, [isClient, settings?.construction_mode]); // Removed state.constructionMode from deps to prevent loops
 
+  // Agreement mode lives on construction settings (shared with exports), so settings win over saved state
+  useEffect(() => {
+    if (!isClient || !settings?.validation_agreement_mode) return;
+    const mode = settings.validation_agreement_mode;
+    setState(prev => (prev.validationAgreementMode === mode ? prev : { ...prev, validationAgreementMode: mode }));
+  }, [isClient, settings?.validation_agreement_mode]);
+
+  // Hydrate the rest of the saved builder state once (mode itself comes from construction settings)
+  useEffect(() => {
+    if (!isClient || stateHydrated || !savedStateFetched || !settingsFetched) return;
+    if (savedState) {
+      if (process.env.NODE_ENV === 'development') {
+        console.log('[BuilderContext] hydrating builder state from DB', savedState);
+      }
+      setState(prev => ({
+        ...prev,
+        ...getHydratableState(savedState, settings?.construction_mode),
+        validationAgreementMode: settings?.validation_agreement_mode || savedState.validationAgreementMode || prev.validationAgreementMode,
+      }));
+    }
+    setStateHydrated(true);
+  }, [isClient, stateHydrated, savedStateFetched, settingsFetched, savedState, settings?.construction_mode]);
+
+  const persistState = useCallback(
+    async (next: BuilderState) => {
+      const persisted = pickPersistedBuilderState(next);
+      const serialized = JSON.stringify(persisted);
+      if (serialized === lastSavedStateRef.current) return;
+      lastSavedStateRef.current = serialized;
+      await saveBuilderState({ audienceId, state: persisted });
+    },
+    [audienceId, saveBuilderState]
+  );
+
+  // Autosave with debounce; only once the debounced value has caught up with the latest state
+  const debouncedState = useDebounce(state, 1000);
+  useEffect(() => {
+    if (!stateHydrated || debouncedState !== state) return;
+    persistState(debouncedState).catch((error) => console.warn('[BuilderContext] autosave failed:', error));
+  }, [stateHydrated, debouncedState, state, persistState]);
+
+  // Latest state for flushBuilderState, which may run before a re-render picks up the last change
+  const latestStateRef = useRef(state);
+  latestStateRef.current = state;
+  const flushBuilderState = async () => {
+    if (!stateHydrated) return;
+    await persistState(latestStateRef.current);
+  };
+
   // Sync included segments from database only after client mount
   useEffect(() => {
     if (!isClient) return;
@@ -127,12 +239,53 @@ export function BuilderProvider({ children, audienceId }: { children: ReactNode;
         console.log('[BuilderContext] updating state', { from: prev.constructionMode, to: mode });
       }
       // Reset selectionConfirmed, selectedProviders, and selectedSegmentKey when mode changes
-      return { ...prev, constructionMode: mode, selectionConfirmed: false, selectedProviders: [], selectedSegmentKey: null };
+      return { ...prev, constructionMode: mode, selectionConfirmed: false, selectedProviders: [], selectedSegmentKey: null, baseProvider: DEFAULT_BASE_PROVIDER };
     });
   };
 
   const setValidationMinAgreement = (value: number) => {
-    setState(prev => ({ ...prev, validationMinAgreement: value }));
+    setState(prev => {
+      if (prev.validationMinAgreement === value) return prev;
+      return { ...prev, validationMinAgreement: value };
+    });
+  };
+
+  const setValidationAgreementMode = (mode: ValidationAgreementMode) => {
+    setState(prev => {
+      if (prev.validationAgreementMode === mode) return prev;
+      return { ...prev, validationAgreementMode: mode };
+    });
+    if (settings?.validation_agreement_mode !== mode) {
+      updateConstructionSettings({ audienceId, updates: { validation_agreement_mode: mode } });
+    }
+  };
+
+  const setValidationScoring = (scoring: AgreementScoring) => {
+    setState(prev => {
+      if (prev.validationScoring === scoring) return prev;
+      return { ...prev, validationScoring: scoring };
+    });
+  };
+
+  const setValidationMinWeightedScore = (value: number) => {
+    setState(prev => {
+      if (prev.validationMinWeightedScore === value) return prev;
+      return { ...prev, validationMinWeightedScore: value };
+    });
+  };
+
+  const setGeoResolution = (resolution: GeoResolution) => {
+    setState(prev => {
+      if (prev.geoResolution === resolution) return prev;
+      return { ...prev, geoResolution: resolution };
+    });
+  };
+
+  const setExtensionConfidenceThreshold = (value: number) => {
+    setState(prev => {
+      if (prev.extensionConfidenceThreshold === value) return prev;
+      return { ...prev, extensionConfidenceThreshold: value };
+    });
   };
 
   const setIncludedSegmentKeys = (keys: string[]) => {
@@ -178,12 +331,13 @@ export function BuilderProvider({ children, audienceId }: { children: ReactNode;
     });
   };
 
-  const confirmSelection = (segmentKey: string, providers: string[]) => {
+  const confirmSelection = (segmentKey: string, providers: string[], baseProvider?: string) => {
     // Set all selection state in a single update to avoid race conditions
     setState(prev => ({
       ...prev,
       selectedSegmentKey: segmentKey,
       selectedProviders: providers,
+      baseProvider: baseProvider || prev.baseProvider,
       selectionConfirmed: true,
     }));
   };
@@ -249,6 +403,20 @@ export function BuilderProvider({ children, audienceId }: { children: ReactNode;
     });
   };
 
+  const setBattleZoneCatchment = (catchment: BattleZoneCatchment) => {
+    setState(prev => {
+      const current = prev.battleZoneCatchment;
+      if (
+        current.mode === catchment.mode &&
+        current.radiusKm === catchment.radiusKm &&
+        current.driveMinutes === catchment.driveMinutes
+      ) {
+        return prev;
+      }
+      return { ...prev, battleZoneCatchment: catchment };
+    });
+  };
+
   const setActiveTab = (tab: 'map' | 'tvInsights') => {
     setState(prev => {
       if (prev.activeTab === tab) return prev;
@@ -257,8 +425,21 @@ export function BuilderProvider({ children, audienceId }: { children: ReactNode;
   };
 
   const getAllProvidersForBuild = (): string[] => {
-    // Always include CCS, then selected providers
-    return ['CCS', ...state.selectedProviders];
+    // Always include the base provider, then selected providers
+    const baseProvider = state.constructionMode === 'validation' ? state.baseProvider : DEFAULT_BASE_PROVIDER;
+    return [baseProvider, ...state.selectedProviders];
+  };
+
+  const applySavedState = (saved: PersistedBuilderState) => {
+    setState(prev => ({
+      ...prev,
+      ...getHydratableState(saved, undefined),
+      constructionMode: saved.constructionMode || prev.constructionMode,
+    }));
+  };
+
+  const getResolutionInput = (fallbackSegmentKey?: string): AudienceResolutionInput | null => {
+    return resolutionInputFromBuilderState(state, fallbackSegmentKey);
   };
 
   return (
@@ -267,6 +448,11 @@ export function BuilderProvider({ children, audienceId }: { children: ReactNode;
         state,
         setConstructionMode,
         setValidationMinAgreement,
+        setValidationAgreementMode,
+        setValidationScoring,
+        setValidationMinWeightedScore,
+        setGeoResolution,
+        setExtensionConfidenceThreshold,
         setIncludedSegmentKeys,
         setSelectionConfirmed,
         setSelectedProviders,
@@ -278,9 +464,13 @@ export function BuilderProvider({ children, audienceId }: { children: ReactNode;
         setBattleZoneBaseBrand,
         setBattleZoneCompetitorBrands,
         setBattleZoneRings,
+        setBattleZoneCatchment,
         setActiveTab,
         confirmSelection,
         getAllProvidersForBuild,
+        getResolutionInput,
+        applySavedState,
+        flushBuilderState,
       }}
     >
       <div suppressHydrationWarning>
@@ -300,9 +490,15 @@ export function useBuilderContext(): BuilderContextType {
         state: {
           constructionMode: 'extension' as ConstructionMode,
           validationMinAgreement: 1,
+          validationAgreementMode: 'threshold',
+          validationScoring: 'count',
+          validationMinWeightedScore: 0.5,
+          geoResolution: 'district',
+          extensionConfidenceThreshold: 0.5,
           includedSegmentKeys: [],
           selectionConfirmed: false,
           selectedProviders: [],
+          baseProvider: DEFAULT_BASE_PROVIDER,
           selectedSegmentKey: null,
           tvRegions: [],
           selectedPoiIds: [],
@@ -311,10 +507,16 @@ export function useBuilderContext(): BuilderContextType {
           battleZoneBaseBrand: '',
           battleZoneCompetitorBrands: [],
           battleZoneRings: 0,
+          battleZoneCatchment: DEFAULT_BATTLE_ZONE_CATCHMENT,
           activeTab: 'map',
         },
         setConstructionMode: () => {},
         setValidationMinAgreement: () => {},
+        setValidationAgreementMode: () => {},
+        setValidationScoring: () => {},
+        setValidationMinWeightedScore: () => {},
+        setGeoResolution: () => {},
+        setExtensionConfidenceThreshold: () => {},
         setIncludedSegmentKeys: () => {},
         setSelectionConfirmed: () => {},
         setSelectedProviders: () => {},
@@ -326,9 +528,13 @@ export function useBuilderContext(): BuilderContextType {
         setBattleZoneBaseBrand: () => {},
         setBattleZoneCompetitorBrands: () => {},
         setBattleZoneRings: () => {},
+        setBattleZoneCatchment: () => {},
         setActiveTab: () => {},
         confirmSelection: () => {},
         getAllProvidersForBuild: () => ['CCS'],
+        getResolutionInput: () => null,
+        applySavedState: () => {},
+        flushBuilderState: async () => {},
       };
       return defaultContext;
     }
@@ -8,12 +8,21 @@ import { aggregateDistrictsToHexesFromCentroids } from './hexAggregation';
 import { HexOverlayLayer } from './HexOverlayLayer';
 import { BaseGreyTileLayer } from './BaseGreyTileLayer';
 import { useMapResize } from './useMapResize';
-import { IncludedDistrict } from '@/features/audience-builder/api/validationResults';
-import { BattleZoneDistrict } from '@/features/audience-builder/api/battleZones';
+import { IncludedDistrict, IncludedSector } from '@/features/audience-builder/api/validationResults';
+import { BattleZoneDistrict, BattleZoneStoreCatchment } from '@/features/audience-builder/api/battleZones';
 import { DistrictCentroid } from '@/features/audience-builder/api/districtCentroids';
+import { useDistrictBoundaries } from '@/features/audience-builder/hooks/useDistrictBoundaries';
+import { boundaryZoomLevelFor } from '@/features/audience-builder/utils/districtBoundaries';
+import {
+  BattleZoneCatchment,
+  convexHull,
+  describeCatchment,
+  driveMinutesToKm,
+} from '@/features/audience-builder/utils/battleZoneCatchments';
 
 interface StableValidationMapProps {
   includedDistricts: IncludedDistrict[]; // Districts with centroids
+  includedSectors?: IncludedSector[]; // Sector resolution: plotted instead of the districts
   maxAgreement: number;
   overlayMode: 'district' | 'hex';
   hexResolution?: number;
@@ -28,6 +37,8 @@ interface StableValidationMapProps {
   battleZoneCentroids?: DistrictCentroid[];
   battleZoneBaseBrand?: string;
   battleZoneCompetitorBrands?: string[];
+  battleZoneCatchment?: BattleZoneCatchment;
+  battleZoneStoreCatchments?: BattleZoneStoreCatchment[];
 }
 
 // Normalize district code (trim, uppercase, remove spaces)
@@ -49,6 +60,8 @@ function MapContent({
   battleZoneCentroids = [],
   battleZoneBaseBrand,
   battleZoneCompetitorBrands = [],
+  battleZoneCatchment,
+  battleZoneStoreCatchments = [],
 }: {
   includedDistricts: IncludedDistrict[];
   maxAgreement: number;
@@ -62,6 +75,8 @@ function MapContent({
   battleZoneCentroids?: DistrictCentroid[];
   battleZoneBaseBrand?: string;
   battleZoneCompetitorBrands?: string[];
+  battleZoneCatchment?: BattleZoneCatchment;
+  battleZoneStoreCatchments?: BattleZoneStoreCatchment[];
 }) {
   const map = useMap();
   useMapResize();
@@ -74,8 +89,31 @@ function MapContent({
   // Refs for layer instances
   const markerLayerGroupRef = useRef<L.LayerGroup | null>(null);
   const poiLayerGroupRef = useRef<L.LayerGroup | null>(null);
+  const catchmentLayerGroupRef = useRef<L.LayerGroup | null>(null);
   const battleLayerGroupRef = useRef<L.LayerGroup | null>(null);
 
+  // Boundary detail level follows the map zoom
+  const [boundaryZoom, setBoundaryZoom] = useState(() => boundaryZoomLevelFor(map.getZoom()));
+  useEffect(() => {
+    const handleZoom = () => setBoundaryZoom(boundaryZoomLevelFor(map.getZoom()));
+    map.on('zoomend', handleZoom);
+    return () => {
+      map.off('zoomend', handleZoom);
+    };
+  }, [map]);
+
+  // Districts are drawn as boundary polygons where imported; sectors stay as points
+  const isSectorView = includedDistricts.length > 0 && 'sector' in includedDistricts[0];
+  const boundaryDistrictIds = useMemo(
+    () => (isSectorView ? [] : includedDistricts.map((d) => normalizeDistrict(d.district))),
+    [includedDistricts, isSectorView]
+  );
+  const { data: districtBoundaries } = useDistrictBoundaries(
+    boundaryDistrictIds,
+    boundaryZoom,
+    overlayMode === 'district' && !isSectorView
+  );
+
   // Create marker layer group ONCE
   useEffect(() => {
     if (!markerLayerGroupRef.current) {
@@ -108,6 +146,22 @@ function MapContent({
     };
   }, [map]);
 
+  // Create store catchment layer group ONCE (before battle zones so markers draw on top)
+  useEffect(() => {
+    if (!catchmentLayerGroupRef.current) {
+      const layerGroup = L.layerGroup();
+      layerGroup.addTo(map);
+      catchmentLayerGroupRef.current = layerGroup;
+    }
+
+    return () => {
+      if (catchmentLayerGroupRef.current) {
+        map.removeLayer(catchmentLayerGroupRef.current);
+        catchmentLayerGroupRef.current = null;
+      }
+    };
+  }, [map]);
+
   // Create battle zones layer group ONCE
   useEffect(() => {
     if (!battleLayerGroupRef.current) {
@@ -133,7 +187,7 @@ function MapContent({
     const layerGroup = markerLayerGroupRef.current;
     layerGroup.clearLayers();
 
-    // Create CircleMarkers for each included district
+    // Choropleth polygon per included district, falling back to a CircleMarker without a boundary
     for (const district of includedDistricts) {
       const agreementCount = district.agreementCount;
       const maxAg = Math.max(1, maxAgreement);
@@ -145,16 +199,28 @@ function MapContent({
       const fillOpacity = 0.15 + intensity * 0.5; // 0.15 to 0.65
       const radius = 3 + intensity * 3; // 3 to 6 pixels
       
-      // Check if district has POIs
+      // Sector points are labelled with their sector; POIs still match on the parent district
+      const label = 'sector' in district ? (district as IncludedSector).sector : district.district;
       const districtPoiInfo = poiDistricts[district.district];
-      const marker = L.circleMarker([district.centroid_lat, district.centroid_lng], {
-        radius: districtPoiInfo ? radius + 1 : radius,
-        fillColor: '#3bc8ea',
-        fillOpacity,
-        color: districtPoiInfo ? '#ff6b00' : '#3bc8ea',
-        weight: districtPoiInfo ? 3 : (intensity > 0.7 ? 2 : 1),
-        opacity: 0.8,
-      });
+      const boundary = districtBoundaries?.get(normalizeDistrict(district.district));
+      const marker: L.Layer = boundary
+        ? L.geoJSON(boundary, {
+            style: {
+              fillColor: '#02b5e7',
+              fillOpacity: 0.1 + intensity * 0.6, // 0.1 to 0.7
+              color: districtPoiInfo ? '#ff6b00' : '#02b5e7',
+              weight: districtPoiInfo ? 2 : 0.5,
+              opacity: 0.6,
+            },
+          })
+        : L.circleMarker([district.centroid_lat, district.centroid_lng], {
+            radius: districtPoiInfo ? radius + 1 : radius,
+            fillColor: '#3bc8ea',
+            fillOpacity,
+            color: districtPoiInfo ? '#ff6b00' : '#3bc8ea',
+            weight: districtPoiInfo ? 3 : (intensity > 0.7 ? 2 : 1),
+            opacity: 0.8,
+          });
       
       // Store district code for later reference
       (marker as any).options.district = district.district;
@@ -162,7 +228,7 @@ function MapContent({
       // Build tooltip with agreement and POI info
       let tooltipContent = `
         <div class="custom-tooltip">
-          <div class="tooltip-header">${district.district}</div>
+          <div class="tooltip-header">${label}</div>
           <div class="tooltip-content">
             <span class="tooltip-label">Agreement:</span>
             <span class="tooltip-value">${agreementCount} of ${maxAg}</span>
@@ -181,14 +247,15 @@ function MapContent({
       
       marker.bindTooltip(tooltipContent, {
         permanent: false,
-        direction: 'top',
+        direction: boundary ? 'center' : 'top',
+        sticky: !!boundary,
         className: 'custom-map-tooltip',
         interactive: false,
       });
 
       marker.addTo(layerGroup);
     }
-  }, [includedDistricts, maxAgreement, overlayMode, poiDistricts]);
+  }, [includedDistricts, maxAgreement, overlayMode, poiDistricts, districtBoundaries]);
 
   // Update POI markers (always visible, separate layer)
   // Memoize marker IDs to avoid unnecessary updates
@@ -369,6 +436,81 @@ function MapContent({
     }
   }, [battleZonesEnabled, battleKey, centroidByDistrictBattle, battleZoneDistricts]);
 
+  // Update per-store catchment overlays: km circles, estimated drive-time circles (dashed) or
+  // the outline of the districts a store reaches on the road graph
+  useEffect(() => {
+    if (!catchmentLayerGroupRef.current) {
+      return;
+    }
+
+    const layerGroup = catchmentLayerGroupRef.current;
+    layerGroup.clearLayers();
+
+    if (!battleZonesEnabled || !battleZoneCatchment || battleZoneCatchment.mode === 'rings') {
+      return;
+    }
+
+    const shapeOptions: L.PathOptions = {
+      color: '#02b5e7',
+      weight: 1,
+      opacity: 0.6,
+      fillColor: '#02b5e7',
+      fillOpacity: 0.04,
+    };
+    const radiusKm = battleZoneCatchment.mode === 'distance'
+      ? battleZoneCatchment.radiusKm
+      : driveMinutesToKm(battleZoneCatchment.driveMinutes);
+
+    for (const store of battleZoneStoreCatchments) {
+      const hull = store.source === 'road_graph'
+        ? convexHull([[store.lat, store.lng], ...store.points])
+        : [];
+      const shape = hull.length >= 3
+        ? L.polygon(hull, shapeOptions)
+        : L.circle([store.lat, store.lng], {
+            ...shapeOptions,
+            radius: (store.source === 'road_graph' ? store.reach_km || radiusKm : radiusKm) * 1000,
+            dashArray: store.source === 'estimate' ? '4 4' : undefined,
+          });
+
+      const catchmentLabel = store.source === 'road_graph'
+        ? `${battleZoneCatchment.driveMinutes} min drive (road graph)`
+        : store.source === 'estimate'
+          ? `${battleZoneCatchment.driveMinutes} min drive (estimated)`
+          : describeCatchment(battleZoneCatchment, 0);
+      const tooltipContent = `
+        <div class="custom-tooltip">
+          <div class="tooltip-header">${store.store_name}</div>
+          <div class="tooltip-content">
+            <span class="tooltip-label">Catchment:</span>
+            <span class="tooltip-value">${catchmentLabel}</span>
+          </div>
+          <div class="tooltip-content">
+            <span class="tooltip-label">Districts:</span>
+            <span class="tooltip-value">${store.district_count}</span>
+          </div>
+        </div>
+      `;
+
+      const storeMarker = L.circleMarker([store.lat, store.lng], {
+        radius: 3,
+        color: '#02b5e7',
+        weight: 1,
+        fillColor: '#02b5e7',
+        fillOpacity: 0.9,
+      });
+      storeMarker.bindTooltip(tooltipContent, {
+        permanent: false,
+        direction: 'top',
+        className: 'custom-map-tooltip',
+        interactive: false,
+      });
+
+      shape.addTo(layerGroup);
+      storeMarker.addTo(layerGroup);
+    }
+  }, [battleZonesEnabled, battleZoneCatchment, battleZoneStoreCatchments]);
+
   // Control overlay visibility imperatively
   useEffect(() => {
     if (overlayMode === 'district') {
@@ -410,6 +552,7 @@ function MapContent({
 // Main component
 export function StableValidationMap({
   includedDistricts,
+  includedSectors,
   maxAgreement,
   overlayMode = 'hex', // Default to hex mode
   hexResolution = 5, // Default to 5 for hex
@@ -424,6 +567,8 @@ export function StableValidationMap({
   battleZoneCentroids = [],
   battleZoneBaseBrand,
   battleZoneCompetitorBrands = [],
+  battleZoneCatchment,
+  battleZoneStoreCatchments = [],
 }: StableValidationMapProps) {
   const mapRef = useRef<L.Map | null>(null);
   const renderCountRef = useRef(0);
@@ -440,7 +585,7 @@ export function StableValidationMap({
       >
         <BaseGreyTileLayer />
         <MapContent
-          includedDistricts={includedDistricts}
+          includedDistricts={includedSectors || includedDistricts}
           maxAgreement={maxAgreement}
           overlayMode={overlayMode}
           hexResolution={hexResolution}
@@ -452,6 +597,8 @@ export function StableValidationMap({
           battleZoneCentroids={battleZoneCentroids}
           battleZoneBaseBrand={battleZoneBaseBrand}
           battleZoneCompetitorBrands={battleZoneCompetitorBrands}
+          battleZoneCatchment={battleZoneCatchment}
+          battleZoneStoreCatchments={battleZoneStoreCatchments}
         />
       </MapContainer>
 
@@ -510,7 +657,7 @@ export function StableValidationMap({
               },
             }}
           >
-            <ToggleButton value="district">Points</ToggleButton>
+            <ToggleButton value="district">{includedSectors ? 'Points' : 'Districts'}</ToggleButton>
             <ToggleButton value="hex">Hex</ToggleButton>
           </ToggleButtonGroup>
 
@@ -561,6 +708,48 @@ export function StableValidationMap({
         </Paper>
       )}
 
+      {/* Agreement Legend - Bottom right (district choropleth) */}
+      {overlayMode === 'district' && !includedSectors && maxAgreement > 0 && (
+        <Paper
+          sx={{
+            position: 'absolute',
+            bottom: 24,
+            right: 12,
+            zIndex: 2000,
+            p: 1.5,
+            pointerEvents: 'auto',
+            boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+            borderRadius: 1,
+            bgcolor: 'rgba(255, 255, 255, 0.95)',
+            backdropFilter: 'blur(4px)',
+          }}
+        >
+          <Typography
+            variant="caption"
+            sx={{ display: 'block', mb: 0.75, fontSize: '0.7rem', fontWeight: 600, color: 'text.primary' }}
+          >
+            Providers agreeing
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 0.5 }}>
+            {Array.from({ length: maxAgreement }, (_, i) => i + 1).map((count) => (
+              <Box key={count} sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 0.25 }}>
+                <Box
+                  sx={{
+                    width: 18,
+                    height: 10,
+                    bgcolor: `rgba(2, 181, 231, ${0.1 + (count / maxAgreement) * 0.6})`,
+                    border: '0.5px solid rgba(2, 181, 231, 0.6)',
+                  }}
+                />
+                <Typography variant="caption" sx={{ fontSize: '0.6rem', color: 'text.secondary' }}>
+                  {count}
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+        </Paper>
+      )}
+
       {/* Battle Zones Legend - Bottom left */}
       {battleZonesEnabled && (
         <Paper
@@ -667,6 +856,22 @@ export function StableValidationMap({
                   Competitor-only
                 </Typography>
               </Box>
+              {battleZoneCatchment && battleZoneCatchment.mode !== 'rings' && (
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+                  <Box
+                    sx={{
+                      width: 8,
+                      height: 8,
+                      borderRadius: '50%',
+                      bgcolor: 'rgba(2, 181, 231, 0.08)',
+                      border: '1.5px solid #02b5e7',
+                    }}
+                  />
+                  <Typography variant="caption" sx={{ fontSize: '0.65rem' }}>
+                    Store catchment ({describeCatchment(battleZoneCatchment, 0)})
+                  </Typography>
+                </Box>
+              )}
             </Box>
             </>
           )}
@@ -97,6 +97,7 @@ export function AudienceDetailsStep({ audienceId, onNext }: AudienceDetailsStepP
   const { data: settings } = useConstructionSettings(audienceId);
   const updateMutation = useUpdateAudience();
   const updateConstructionMutation = useUpdateConstructionSettings();
+  const { flushBuilderState } = useBuilderContext();
   const [infoModalOpen, setInfoModalOpen] = useState<string | null>(null);
   const [isBuilding, setIsBuilding] = useState(false);
   const [buildProgress, setBuildProgress] = useState<{
@@ -171,7 +172,8 @@ export function AudienceDetailsStep({ audienceId, onNext }: AudienceDetailsStepP
         label: mode === 'validation' ? 'Validating providers' : 'Generating suggestions' 
       });
       
-      // Trigger build pipeline
+      // Trigger build pipeline (the build snapshot reads the saved builder state, so save pending edits first)
+      await flushBuilderState();
       await buildAudience(audienceId);
 
       // Step 3: Scoring geo units (simulated - actual scoring happens on map step)
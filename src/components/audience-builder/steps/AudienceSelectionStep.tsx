@@ -1,6 +1,6 @@
 'use client';
 
-import { Box, Card, CardContent, Typography, Button, Avatar, Chip, Switch, Alert, Autocomplete, TextField, Dialog, DialogTitle, DialogContent, DialogActions } from '@mui/material';
+import { Box, Card, CardContent, Typography, Button, Avatar, Chip, Switch, Alert, Autocomplete, TextField, Dialog, DialogTitle, DialogContent, DialogActions, MenuItem } from '@mui/material';
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { useBuilderContext } from '../BuilderContext';
@@ -8,7 +8,9 @@ import { flushSync } from 'react-dom';
 import { useConstructionSettings, useUpdateConstructionSettings } from '@/features/audience-builder/hooks/useConstruction';
 import { useAvailableSegments } from '@/features/audience-builder/hooks/useAvailableSegments';
 import { useSegmentProviderCoverage } from '@/features/audience-builder/hooks/useSegmentProviderCoverage';
+import { ProviderCoverage } from '@/features/audience-builder/api/segmentCoverage';
 import { useProviderMetadata } from '@/features/audience-builder/hooks/useProviderMetadata';
+import { DEFAULT_BASE_PROVIDER } from '@/features/audience-builder/services/audienceResolution.service';
 import { getProviderFavicon } from '../providers/providerIcons';
 import { ConstructionMode } from '@/lib/types';
 import { ConstructionModeToggle } from '../ConstructionModeToggle';
@@ -88,37 +90,57 @@ export function AudienceSelectionStep({ audienceId, onNext, onBack }: AudienceSe
     enabled: !!selectedSegment?.segmentKey,
   });
   
-  // Compute CCS count and validators
-  const { ccsCount, validators } = useMemo(() => {
-    if (!selectedSegment) return { ccsCount: 0, validators: [] };
+  // Base universe provider: selectable in validation mode, extension always anchors on CCS
+  const [localBaseProvider, setLocalBaseProvider] = useState(state.baseProvider || DEFAULT_BASE_PROVIDER);
+  useEffect(() => {
+    setLocalBaseProvider(state.baseProvider || DEFAULT_BASE_PROVIDER);
+  }, [state.baseProvider]);
+  const baseProvider = constructionMode === 'validation' ? localBaseProvider : DEFAULT_BASE_PROVIDER;
+
+  // Compute base provider count and validators
+  const { baseCount, validators } = useMemo(() => {
+    if (!selectedSegment) return { baseCount: 0, validators: [] };
     
-    const ccs = providerCoverage.find(p => p.provider === 'CCS');
-    const ccsCount = ccs?.districtCount || selectedSegment.ccsDistricts || 0;
+    const base = providerCoverage.find(p => p.provider === baseProvider);
+    const baseCount = base?.districtCount
+      || (baseProvider === DEFAULT_BASE_PROVIDER ? selectedSegment.ccsDistricts : 0)
+      || 0;
     
-    // Get validators from coverage (excluding CCS)
+    // Get validators from coverage (excluding the base provider)
     const validators = providerCoverage
-      .filter(p => p.provider !== 'CCS')
+      .filter(p => p.provider !== baseProvider)
       .sort((a, b) => b.districtCount - a.districtCount);
     
-    return { ccsCount, validators };
-  }, [providerCoverage, selectedSegment]);
+    return { baseCount, validators };
+  }, [providerCoverage, selectedSegment, baseProvider]);
+
+  // Providers with coverage for this segment can define the validation universe
+  const baseProviderOptions = useMemo(() => {
+    const options = providerCoverage.map(p => p.provider);
+    return options.includes(localBaseProvider) ? options : [localBaseProvider, ...options];
+  }, [providerCoverage, localBaseProvider]);
   
   // Fetch provider metadata for display names and logos
   const providerKeys = useMemo(() => {
-    const keys = new Set<string>();
+    const keys = new Set<string>(baseProviderOptions);
     if (validators.length > 0) {
       validators.forEach(v => keys.add(v.provider));
     }
-    keys.add('CCS'); // Always include CCS
+    keys.add(baseProvider); // Always include the base provider
     return Array.from(keys);
-  }, [validators]);
+  }, [validators, baseProviderOptions, baseProvider]);
   
   const { data: providerMetadataMap = new Map<string, any>() } = useProviderMetadata(providerKeys);
   
   // Track selected providers (for extension mode)
   const [localSelectedProviders, setLocalSelectedProviders] = useState<string[]>([]);
   const [rationaleModalOpen, setRationaleModalOpen] = useState(false);
-  const [selectedRationaleProvider, setSelectedRationaleProvider] = useState<{ provider: string; matchPercent: number } | null>(null);
+  const [selectedRationaleProvider, setSelectedRationaleProvider] = useState<{
+    provider: string;
+    matchPercent: number;
+    normalizationMethod: ProviderCoverage['normalizationMethod'];
+    presenceOnly: boolean;
+  } | null>(null);
   const [segmentPickerOpen, setSegmentPickerOpen] = useState(false);
   const [hasUnappliedModeChange, setHasUnappliedModeChange] = useState(false);
   const didInitDefaultsRef = useRef<string | null>(null);
@@ -214,8 +236,8 @@ export function AudienceSelectionStep({ audienceId, onNext, onBack }: AudienceSe
   
   // Compute match % for a provider
   const computeMatchPercent = (providerDistrictCount: number): number => {
-    if (ccsCount === 0) return 0;
-    return Math.min(100, Math.round((providerDistrictCount / ccsCount) * 100));
+    if (baseCount === 0) return 0;
+    return Math.min(100, Math.round((providerDistrictCount / baseCount) * 100));
   };
   
   // Handle confirm
@@ -232,6 +254,7 @@ export function AudienceSelectionStep({ audienceId, onNext, onBack }: AudienceSe
       sessionStorage.setItem(`audience_${audienceId}_selection`, JSON.stringify({
         segmentKey: selectedSegment.segmentKey,
         providers: providersToSet,
+        baseProvider,
         timestamp: Date.now(),
       }));
     } catch (e) {
@@ -240,7 +263,7 @@ export function AudienceSelectionStep({ audienceId, onNext, onBack }: AudienceSe
     
     // Use flushSync to ensure state update completes synchronously before navigation
     flushSync(() => {
-      confirmSelection(selectedSegment.segmentKey, providersToSet);
+      confirmSelection(selectedSegment.segmentKey, providersToSet, baseProvider);
     });
     
     // Small delay to ensure context update propagates
@@ -302,10 +325,11 @@ export function AudienceSelectionStep({ audienceId, onNext, onBack }: AudienceSe
         </Alert>
       ) : (
         <>
-          {/* CCS Warning - only show if truly missing */}
-          {ccsCount === 0 && (
+          {/* Base provider warning - only show if truly missing */}
+          {baseCount === 0 && !coverageLoading && (
             <Alert severity="warning" sx={{ mb: 2 }}>
-              CCS data not uploaded for this segment. Please ensure CCS data is available.
+              {baseProvider} data not uploaded for this segment. Please ensure {baseProvider} data is available
+              {constructionMode === 'validation' ? ' or choose another base universe provider.' : '.'}
             </Alert>
           )}
           
@@ -317,13 +341,13 @@ export function AudienceSelectionStep({ audienceId, onNext, onBack }: AudienceSe
             <Card sx={{ borderLeft: '4px solid #9c27b0' }}>
               <CardContent sx={{ pb: 2 }}>
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
-                  <ProviderAvatar provider="CCS" logoUrl={providerMetadataMap.get('CCS')?.logo_url} />
+                  <ProviderAvatar provider={baseProvider} logoUrl={providerMetadataMap.get(baseProvider)?.logo_url} />
                   <Box sx={{ flex: 1 }}>
                     <Typography variant="body1" sx={{ fontWeight: 600, mb: 0.5 }}>
                       {formatSegmentLabel(selectedSegment.segmentKey)}
                     </Typography>
                     <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem' }}>
-                      Source: CCS • Coverage: {ccsCount.toLocaleString()} districts
+                      Source: {providerMetadataMap.get(baseProvider)?.display_name || baseProvider} • Coverage: {baseCount.toLocaleString()} districts
                     </Typography>
                   </Box>
                   <Button
@@ -345,6 +369,28 @@ export function AudienceSelectionStep({ audienceId, onNext, onBack }: AudienceSe
                     }}
                   />
                 </Box>
+                {constructionMode === 'validation' && (
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, mt: 2 }}>
+                    <TextField
+                      select
+                      size="small"
+                      label="Base universe provider"
+                      value={localBaseProvider}
+                      onChange={(e) => setLocalBaseProvider(e.target.value)}
+                      disabled={coverageLoading}
+                      sx={{ minWidth: 220 }}
+                    >
+                      {baseProviderOptions.map((provider) => (
+                        <MenuItem key={provider} value={provider}>
+                          {providerMetadataMap.get(provider)?.display_name || provider}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem' }}>
+                      Eligible districts come from this partner; the others validate against it.
+                    </Typography>
+                  </Box>
+                )}
               </CardContent>
             </Card>
           </Box>
@@ -452,7 +498,12 @@ export function AudienceSelectionStep({ audienceId, onNext, onBack }: AudienceSe
                                   variant="outlined"
                                   size="small"
                                   onClick={() => {
-                                    setSelectedRationaleProvider({ provider: validator.provider, matchPercent });
+                                    setSelectedRationaleProvider({
+                                      provider: validator.provider,
+                                      matchPercent,
+                                      normalizationMethod: validator.normalizationMethod,
+                                      presenceOnly: validator.presenceOnly,
+                                    });
                                     setRationaleModalOpen(true);
                                   }}
                                   sx={{ fontSize: '0.75rem', minWidth: 'auto', px: 1.5 }}
@@ -517,6 +568,8 @@ export function AudienceSelectionStep({ audienceId, onNext, onBack }: AudienceSe
           }}
           provider={selectedRationaleProvider.provider}
           matchPercent={selectedRationaleProvider.matchPercent}
+          normalizationMethod={selectedRationaleProvider.normalizationMethod}
+          presenceOnly={selectedRationaleProvider.presenceOnly}
         />
       )}
       
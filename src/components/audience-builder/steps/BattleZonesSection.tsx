@@ -20,10 +20,14 @@ import {
   TableContainer,
   TableHead,
   TableRow,
+  Button,
 } from '@mui/material';
+import { Tune } from '@mui/icons-material';
 import { usePoiBrands } from '@/features/audience-builder/hooks/useStorePois';
 import { useBattleZoneDistricts, useBattleZoneSummary } from '@/features/audience-builder/hooks/useBattleZones';
 import { BattleZoneSummary } from '@/features/audience-builder/api/battleZones';
+import { BattleZoneCatchment, describeCatchment } from '@/features/audience-builder/utils/battleZoneCatchments';
+import { BattlegroundDialog } from './BattlegroundDialog';
 
 interface BattleZonesSectionProps {
   baseBrand: string;
@@ -34,6 +38,8 @@ interface BattleZonesSectionProps {
   ringsApplied: number;
   onRingsDraftChange: (rings: number) => void;
   onRingsApply: (rings: number) => void;
+  catchment: BattleZoneCatchment;
+  onCatchmentChange: (catchment: BattleZoneCatchment) => void;
   enabled: boolean;
   onEnabledChange: (enabled: boolean) => void;
   tvRegions?: string[];
@@ -48,11 +54,14 @@ export function BattleZonesSection({
   ringsApplied,
   onRingsDraftChange,
   onRingsApply,
+  catchment,
+  onCatchmentChange,
   enabled,
   onEnabledChange,
   tvRegions = [],
 }: BattleZonesSectionProps) {
   const { data: brands = [], isLoading: brandsLoading } = usePoiBrands();
+  const [catchmentDialogOpen, setCatchmentDialogOpen] = useState(false);
 
   // Initialize defaults if base brand is empty
   useEffect(() => {
@@ -86,9 +95,10 @@ export function BattleZonesSection({
       baseBrand,
       competitorBrands: competitorBrands.length > 0 ? competitorBrands : undefined,
       rings: ringsApplied,
+      catchment,
       tvRegions: tvRegions.length > 0 ? tvRegions : undefined,
     };
-  }, [enabled, baseBrand, competitorBrands, ringsApplied, tvRegions]);
+  }, [enabled, baseBrand, competitorBrands, ringsApplied, catchment, tvRegions]);
 
   const { data: districts = [], isLoading: districtsLoading } = useBattleZoneDistricts(
     battleZonesOptions,
@@ -190,31 +200,54 @@ export function BattleZonesSection({
             </Box>
           </Box>
 
-          {/* Coverage Radius Slider */}
-          <Box sx={{ mb: 1.5 }}>
-            <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary', display: 'block', mb: 0.5, fontWeight: 500 }}>
-              Coverage radius: {ringsDraft}
+          {/* Catchment */}
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+            <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary', fontWeight: 500 }}>
+              Catchment: {catchment.mode === 'rings' ? 'neighbour rings' : describeCatchment(catchment, ringsApplied)}
             </Typography>
-            <Slider
-              value={ringsDraft}
-              onChange={handleRingsChange}
-              onChangeCommitted={handleRingsChangeCommitted}
-              min={0}
-              max={4}
-              step={1}
-              marks
-              valueLabelDisplay="auto"
+            <Button
               size="small"
-            />
-            <Typography variant="caption" sx={{ fontSize: '0.65rem', color: 'text.secondary', display: 'block', mt: 0.5 }}>
-              Each step expands the battle area by multiple district hops (bigger jumps).
-            </Typography>
-            {ringsDraft > 0 && (
-              <Typography variant="caption" sx={{ fontSize: '0.65rem', color: 'primary.main', display: 'block', mt: 0.25, fontWeight: 500 }}>
-                Radius steps: {ringsDraft * 5} districts outward
-              </Typography>
-            )}
+              startIcon={<Tune sx={{ fontSize: '0.9rem !important' }} />}
+              onClick={() => setCatchmentDialogOpen(true)}
+              sx={{ textTransform: 'none', fontSize: '0.7rem', py: 0, minWidth: 0 }}
+            >
+              Change
+            </Button>
           </Box>
+          <BattlegroundDialog
+            open={catchmentDialogOpen}
+            onClose={() => setCatchmentDialogOpen(false)}
+            onApply={onCatchmentChange}
+            initialCatchment={catchment}
+          />
+
+          {/* Coverage Radius Slider */}
+          {catchment.mode === 'rings' && (
+            <Box sx={{ mb: 1.5 }}>
+              <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary', display: 'block', mb: 0.5, fontWeight: 500 }}>
+                Coverage radius: {ringsDraft}
+              </Typography>
+              <Slider
+                value={ringsDraft}
+                onChange={handleRingsChange}
+                onChangeCommitted={handleRingsChangeCommitted}
+                min={0}
+                max={4}
+                step={1}
+                marks
+                valueLabelDisplay="auto"
+                size="small"
+              />
+              <Typography variant="caption" sx={{ fontSize: '0.65rem', color: 'text.secondary', display: 'block', mt: 0.5 }}>
+                Each step expands the battle area by multiple district hops (bigger jumps).
+              </Typography>
+              {ringsDraft > 0 && (
+                <Typography variant="caption" sx={{ fontSize: '0.65rem', color: 'primary.main', display: 'block', mt: 0.25, fontWeight: 500 }}>
+                  Radius steps: {ringsDraft * 5} districts outward
+                </Typography>
+              )}
+            </Box>
+          )}
 
           {/* Summary */}
           {(districtsLoading || summaryLoading) && (
@@ -229,7 +262,7 @@ export function BattleZonesSection({
                 Summary
               </Typography>
               <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
-                {process.env.NODE_ENV === 'development' && (
+                {process.env.NODE_ENV === 'development' && catchment.mode === 'rings' && (
                   <Typography variant="caption" sx={{ fontSize: '0.65rem', color: 'text.secondary', fontStyle: 'italic', mb: 0.5 }}>
                     Effective steps: {ringsApplied * 5} (radius {ringsApplied} × scale 5)
                   </Typography>
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -11,69 +11,109 @@ import {
   Typography,
   ToggleButton,
   ToggleButtonGroup,
-  TextField,
-  IconButton,
   Slider,
-  FormControlLabel,
-  Checkbox,
 } from '@mui/material';
-import { Add, Remove } from '@mui/icons-material';
-
-interface BattlegroundConfig {
-  zoneType: 'district' | 'hex';
-  minTotalStores: number;
-  balance: number; // 0 = client-heavy, 100 = competitor-heavy
-  requireClientStore: boolean;
-}
+import {
+  BattleZoneCatchment,
+  BattleZoneCatchmentMode,
+  CATCHMENT_DRIVE_MINUTES,
+  CATCHMENT_RADIUS_KM,
+  DEFAULT_BATTLE_ZONE_CATCHMENT,
+  DRIVE_DETOUR_FACTOR,
+  DRIVE_SPEED_KMH,
+  driveMinutesToKm,
+} from '@/features/audience-builder/utils/battleZoneCatchments';
 
 interface BattlegroundDialogProps {
   open: boolean;
   onClose: () => void;
-  onApply: (config: BattlegroundConfig) => void;
-  initialConfig?: BattlegroundConfig;
+  onApply: (catchment: BattleZoneCatchment) => void;
+  initialCatchment?: BattleZoneCatchment;
 }
 
-const defaultConfig: BattlegroundConfig = {
-  zoneType: 'district',
-  minTotalStores: 3,
-  balance: 50,
-  requireClientStore: true,
+const toggleGroupSx = {
+  '& .MuiToggleButton-root': {
+    flex: 1,
+    px: 2,
+    py: 1,
+    fontSize: '0.875rem',
+    fontWeight: 500,
+    textTransform: 'none',
+    color: '#02b5e7',
+    borderColor: 'rgba(2, 181, 231, 0.3)',
+    bgcolor: 'white',
+    '&.Mui-selected': {
+      backgroundColor: 'rgba(2, 181, 231, 0.1)',
+      color: '#02b5e7',
+      '&:hover': {
+        backgroundColor: 'rgba(2, 181, 231, 0.15)',
+      },
+    },
+    '&:hover': {
+      backgroundColor: 'rgba(2, 181, 231, 0.05)',
+    },
+  },
+};
+
+const sliderSx = {
+  color: '#02b5e7',
+  height: 6,
+  '& .MuiSlider-track': {
+    height: 6,
+    borderRadius: 3,
+    border: 'none',
+    bgcolor: '#02b5e7',
+  },
+  '& .MuiSlider-rail': {
+    height: 6,
+    borderRadius: 3,
+    bgcolor: 'rgba(2, 181, 231, 0.2)',
+    opacity: 1,
+  },
+  '& .MuiSlider-thumb': {
+    width: 20,
+    height: 20,
+    bgcolor: '#02b5e7',
+    border: '2px solid white',
+    boxShadow: '0 2px 4px rgba(0,0,0,0.2)',
+    '&:hover': {
+      boxShadow: '0 2px 8px rgba(2, 181, 231, 0.4)',
+    },
+  },
 };
 
 export function BattlegroundDialog({
   open,
   onClose,
   onApply,
-  initialConfig = defaultConfig,
+  initialCatchment = DEFAULT_BATTLE_ZONE_CATCHMENT,
 }: BattlegroundDialogProps) {
-  const [config, setConfig] = useState<BattlegroundConfig>(initialConfig);
+  const [catchment, setCatchment] = useState<BattleZoneCatchment>(initialCatchment);
+
+  // Start from the applied catchment each time the dialog opens
+  useEffect(() => {
+    if (open) setCatchment(initialCatchment);
+  }, [open, initialCatchment]);
 
-  const handleZoneTypeChange = (
+  const handleModeChange = (
     _event: React.MouseEvent<HTMLElement>,
-    newType: 'district' | 'hex' | null
+    newMode: BattleZoneCatchmentMode | null
   ) => {
-    if (newType !== null) {
-      setConfig((prev) => ({ ...prev, zoneType: newType }));
+    if (newMode !== null) {
+      setCatchment((prev) => ({ ...prev, mode: newMode }));
     }
   };
 
-  const handleMinStoresChange = (delta: number) => {
-    setConfig((prev) => ({
-      ...prev,
-      minTotalStores: Math.max(1, prev.minTotalStores + delta),
-    }));
+  const handleRadiusChange = (_event: Event, newValue: number | number[]) => {
+    setCatchment((prev) => ({ ...prev, radiusKm: newValue as number }));
   };
 
-  const handleBalanceChange = (_event: Event, newValue: number | number[]) => {
-    setConfig((prev) => ({ ...prev, balance: newValue as number }));
-  };
-
-  const handleRequireClientStoreChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setConfig((prev) => ({ ...prev, requireClientStore: event.target.checked }));
+  const handleDriveMinutesChange = (_event: Event, newValue: number | number[]) => {
+    setCatchment((prev) => ({ ...prev, driveMinutes: newValue as number }));
   };
 
   const handleApply = () => {
-    onApply(config);
+    onApply(catchment);
     onClose();
   };
 
@@ -95,174 +135,76 @@ export function BattlegroundDialog({
       </DialogTitle>
       <DialogContent>
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, pt: 1 }}>
-          {/* Zone Type */}
+          {/* Catchment Type */}
           <Box>
             <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem', mb: 1.5 }}>
-              Zone Type
+              Store Catchment
             </Typography>
             <ToggleButtonGroup
-              value={config.zoneType}
+              value={catchment.mode}
               exclusive
-              onChange={handleZoneTypeChange}
+              onChange={handleModeChange}
               fullWidth
-              sx={{
-                '& .MuiToggleButton-root': {
-                  flex: 1,
-                  px: 2,
-                  py: 1,
-                  fontSize: '0.875rem',
-                  fontWeight: 500,
-                  textTransform: 'none',
-                  color: '#02b5e7',
-                  borderColor: 'rgba(2, 181, 231, 0.3)',
-                  bgcolor: 'white',
-                  '&.Mui-selected': {
-                    backgroundColor: 'rgba(2, 181, 231, 0.1)',
-                    color: '#02b5e7',
-                    '&:hover': {
-                      backgroundColor: 'rgba(2, 181, 231, 0.15)',
-                    },
-                  },
-                  '&:hover': {
-                    backgroundColor: 'rgba(2, 181, 231, 0.05)',
-                  },
-                },
-              }}
+              sx={toggleGroupSx}
             >
-              <ToggleButton value="district">Postcode District</ToggleButton>
-              <ToggleButton value="hex">Hex Grid (H3)</ToggleButton>
+              <ToggleButton value="rings">Neighbour Rings</ToggleButton>
+              <ToggleButton value="distance">Distance</ToggleButton>
+              <ToggleButton value="drive_time">Drive Time</ToggleButton>
             </ToggleButtonGroup>
           </Box>
 
-          {/* Minimum Total Stores Required */}
-          <Box>
-            <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem', mb: 1.5 }}>
-              Minimum Total Stores Required
+          {catchment.mode === 'rings' && (
+            <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem', display: 'block' }}>
+              Expands outward from each store&apos;s district over neighbouring districts. Set how far with the
+              coverage radius in the Battle Zones panel.
             </Typography>
-            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-              <IconButton
-                onClick={() => handleMinStoresChange(-1)}
-                disabled={config.minTotalStores <= 1}
-                sx={{
-                  border: '1px solid #e0e0e0',
-                  borderRadius: 1,
-                  width: 36,
-                  height: 36,
-                }}
-              >
-                <Remove sx={{ fontSize: '1rem' }} />
-              </IconButton>
-              <TextField
-                value={config.minTotalStores}
-                onChange={(e) => {
-                  const val = parseInt(e.target.value, 10);
-                  if (!isNaN(val) && val >= 1) {
-                    setConfig((prev) => ({ ...prev, minTotalStores: val }));
-                  }
-                }}
-                inputProps={{
-                  style: { textAlign: 'center', fontSize: '1rem', fontWeight: 500 },
-                  min: 1,
-                }}
-                sx={{
-                  width: 80,
-                  '& .MuiOutlinedInput-root': {
-                    '& fieldset': {
-                      borderColor: '#e0e0e0',
-                    },
-                  },
-                }}
+          )}
+
+          {/* Straight-line Radius */}
+          {catchment.mode === 'distance' && (
+            <Box>
+              <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem', mb: 1.5 }}>
+                Radius: {catchment.radiusKm} km
+              </Typography>
+              <Slider
+                value={catchment.radiusKm}
+                onChange={handleRadiusChange}
+                min={CATCHMENT_RADIUS_KM.min}
+                max={CATCHMENT_RADIUS_KM.max}
+                step={1}
+                valueLabelDisplay="auto"
+                sx={sliderSx}
               />
-              <IconButton
-                onClick={() => handleMinStoresChange(1)}
-                sx={{
-                  border: '1px solid #e0e0e0',
-                  borderRadius: 1,
-                  width: 36,
-                  height: 36,
-                }}
-              >
-                <Add sx={{ fontSize: '1rem' }} />
-              </IconButton>
+              <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem', mt: 1, display: 'block' }}>
+                Districts whose centre is within {catchment.radiusKm} km of a base store, plus the store&apos;s own
+                district.
+              </Typography>
             </Box>
-            <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem', mt: 1, display: 'block' }}>
-              Zones must contain at least this many combined stores (yours + competitors) to be included.
-            </Typography>
-          </Box>
+          )}
 
-          {/* Battleground Balance */}
-          <Box>
-            <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem', mb: 1.5 }}>
-              Battleground Balance
-            </Typography>
-            <Slider
-              value={config.balance}
-              onChange={handleBalanceChange}
-              min={0}
-              max={100}
-              step={1}
-              sx={{
-                color: '#02b5e7',
-                height: 6,
-                '& .MuiSlider-track': {
-                  height: 6,
-                  borderRadius: 3,
-                  border: 'none',
-                  bgcolor: '#02b5e7',
-                },
-                '& .MuiSlider-rail': {
-                  height: 6,
-                  borderRadius: 3,
-                  bgcolor: 'rgba(2, 181, 231, 0.2)',
-                  opacity: 1,
-                },
-                '& .MuiSlider-thumb': {
-                  width: 20,
-                  height: 20,
-                  bgcolor: '#02b5e7',
-                  border: '2px solid white',
-                  boxShadow: '0 2px 4px rgba(0,0,0,0.2)',
-                  '&:hover': {
-                    boxShadow: '0 2px 8px rgba(2, 181, 231, 0.4)',
-                  },
-                },
-              }}
-            />
-            <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 0.5 }}>
-              <Typography variant="caption" sx={{ fontSize: '0.75rem', color: 'text.secondary' }}>
-                Client-heavy
+          {/* Drive Time */}
+          {catchment.mode === 'drive_time' && (
+            <Box>
+              <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem', mb: 1.5 }}>
+                Drive time: {catchment.driveMinutes} min
               </Typography>
-              <Typography variant="caption" sx={{ fontSize: '0.75rem', color: 'text.secondary' }}>
-                Competitor-heavy
+              <Slider
+                value={catchment.driveMinutes}
+                onChange={handleDriveMinutesChange}
+                min={CATCHMENT_DRIVE_MINUTES.min}
+                max={CATCHMENT_DRIVE_MINUTES.max}
+                step={5}
+                marks
+                valueLabelDisplay="auto"
+                sx={sliderSx}
+              />
+              <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem', mt: 1, display: 'block' }}>
+                Uses the imported road graph where a store has one. Other stores are estimated at {DRIVE_SPEED_KMH} km/h
+                with {Math.round((DRIVE_DETOUR_FACTOR - 1) * 100)}% road detour (about{' '}
+                {driveMinutesToKm(catchment.driveMinutes).toFixed(1)} km straight-line).
               </Typography>
             </Box>
-            <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem', mt: 1, display: 'block' }}>
-              Choose the balance of store presence you want to highlight:
-            </Typography>
-          </Box>
-
-          {/* Checkbox */}
-          <Box>
-            <FormControlLabel
-              control={
-                <Checkbox
-                  checked={config.requireClientStore}
-                  onChange={handleRequireClientStoreChange}
-                  sx={{
-                    color: '#02b5e7',
-                    '&.Mui-checked': {
-                      color: '#02b5e7',
-                    },
-                  }}
-                />
-              }
-              label={
-                <Typography variant="body2" sx={{ fontSize: '0.875rem' }}>
-                  Only include zones with at least one client store
-                </Typography>
-              }
-            />
-          </Box>
+          )}
         </Box>
       </DialogContent>
       <DialogActions sx={{ px: 3, pb: 2, gap: 1 }}>
@@ -291,7 +233,7 @@ export function BattlegroundDialog({
             },
           }}
         >
-          APPLY BATTLEGROUND LOGIC
+          APPLY CATCHMENT
         </Button>
       </DialogActions>
     </Dialog>
@@ -0,0 +1,275 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Download, RestartAlt } from '@mui/icons-material';
+import { useAllocationBase } from '@/features/audience-builder/hooks/useBudgetAllocation';
+import {
+  allocateBudget,
+  allocateDistricts,
+  budgetAllocationToCsv,
+  RegionAllocationRule,
+  RegionAllocationRules,
+} from '@/features/audience-builder/utils/budgetAllocation';
+import { csvFilename, downloadCsv } from '@/features/audience-builder/utils/csvDownload';
+import { ExportContext } from './hooks/useExportContext';
+
+interface BudgetAllocationCardProps {
+  context: ExportContext;
+}
+
+const headerCellSx = { fontSize: '0.75rem', fontWeight: 600 };
+const cellSx = { fontSize: '0.8125rem' };
+const inputSx = { width: 84, '& input': { fontSize: '0.75rem', py: 0.5, px: 1 } };
+
+const LIMIT_LABELS: Record<'min' | 'max' | 'override', string> = {
+  min: 'At min',
+  max: 'At max',
+  override: 'Manual',
+};
+
+function formatCurrency(value: number): string {
+  return `£${Math.round(value).toLocaleString()}`;
+}
+
+function parseRuleValue(value: string): number | undefined {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+export function BudgetAllocationCard({ context }: BudgetAllocationCardProps) {
+  const { data: base, isLoading, error } = useAllocationBase(context.districtIds, context.districtChecksum);
+  const [rules, setRules] = useState<RegionAllocationRules>({});
+  const [byDistrict, setByDistrict] = useState(false);
+  const budget = context.budgetTotal || 0;
+
+  const allocation = useMemo(
+    () => (base ? allocateBudget(budget, base.districts, base.regionNames, rules) : null),
+    [base, budget, rules]
+  );
+  const districtRows = useMemo(
+    () => (allocation && base && byDistrict ? allocateDistricts(allocation, base.districts) : null),
+    [allocation, base, byDistrict]
+  );
+
+  const updateRule = (regionKey: string, field: keyof RegionAllocationRule, value: string) => {
+    setRules((prev) => {
+      const rule = { ...prev[regionKey], [field]: parseRuleValue(value) };
+      return { ...prev, [regionKey]: rule };
+    });
+  };
+
+  const handleDownload = () => {
+    if (!allocation) return;
+    downloadCsv(
+      budgetAllocationToCsv(allocation, districtRows || undefined),
+      csvFilename(context.audienceName, byDistrict ? 'budget-allocation-districts' : 'budget-allocation')
+    );
+  };
+
+  if (!context.budgetTotal || context.budgetTotal <= 0) {
+    return (
+      <Card sx={{ boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)' }}>
+        <CardContent sx={{ p: 3 }}>
+          <Alert severity="info" sx={{ fontSize: '0.8125rem' }}>
+            Set a total budget in the audience details to split it across TV regions.
+          </Alert>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card sx={{ boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)' }}>
+      <CardContent sx={{ p: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+          <Box>
+            <Typography variant="body2" sx={{ fontSize: '0.875rem', fontWeight: 600 }}>
+              {formatCurrency(budget)} across TV regions by in-audience households
+            </Typography>
+            {allocation && (
+              <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem' }}>
+                {formatCurrency(allocation.allocated)} allocated
+                {Math.round(allocation.allocated) !== Math.round(budget) &&
+                  ` · ${formatCurrency(budget - allocation.allocated)} unallocated`}
+              </Typography>
+            )}
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <FormControlLabel
+              control={<Switch size="small" checked={byDistrict} onChange={(e) => setByDistrict(e.target.checked)} />}
+              label={<Typography sx={{ fontSize: '0.8125rem' }}>Split by district</Typography>}
+            />
+            <Button
+              size="small"
+              startIcon={<RestartAlt />}
+              onClick={() => setRules({})}
+              disabled={Object.keys(rules).length === 0}
+              sx={{ textTransform: 'none', fontSize: '0.75rem' }}
+            >
+              Reset
+            </Button>
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<Download />}
+              onClick={handleDownload}
+              disabled={!allocation || allocation.regions.length === 0}
+              sx={{ textTransform: 'none', fontSize: '0.75rem' }}
+            >
+              Download CSV
+            </Button>
+          </Box>
+        </Box>
+
+        {isLoading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ fontSize: '0.8125rem' }}>
+            Failed to load households: {error instanceof Error ? error.message : 'unknown error'}
+          </Alert>
+        )}
+
+        {allocation && allocation.warnings.length > 0 && (
+          <Alert severity="warning" sx={{ fontSize: '0.8125rem', mb: 2 }}>
+            {allocation.warnings.map((warning) => (
+              <div key={warning}>{warning}</div>
+            ))}
+          </Alert>
+        )}
+
+        {allocation && allocation.regions.length > 0 && (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={headerCellSx}>TV region</TableCell>
+                  <TableCell align="right" sx={headerCellSx}>Districts</TableCell>
+                  <TableCell align="right" sx={headerCellSx}>Households</TableCell>
+                  <TableCell align="right" sx={headerCellSx}>Proportional</TableCell>
+                  <TableCell sx={headerCellSx}>Min %</TableCell>
+                  <TableCell sx={headerCellSx}>Max %</TableCell>
+                  <TableCell sx={headerCellSx}>Override £</TableCell>
+                  <TableCell align="right" sx={headerCellSx}>Allocated</TableCell>
+                  <TableCell align="right" sx={headerCellSx}>Share</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {allocation.regions.map((region) => {
+                  const rule = rules[region.regionKey] || {};
+                  const isOverride = rule.amount !== undefined;
+                  return (
+                    <TableRow key={region.regionKey}>
+                      <TableCell sx={{ ...cellSx, fontWeight: 500 }}>{region.name}</TableCell>
+                      <TableCell align="right" sx={cellSx}>{region.districts.toLocaleString()}</TableCell>
+                      <TableCell align="right" sx={cellSx}>
+                        {region.households.toLocaleString()} ({(region.householdShare * 100).toFixed(1)}%)
+                      </TableCell>
+                      <TableCell align="right" sx={cellSx}>{formatCurrency(region.proportionalAmount)}</TableCell>
+                      <TableCell sx={cellSx}>
+                        <TextField
+                          size="small"
+                          type="number"
+                          value={rule.minPct ?? ''}
+                          onChange={(e) => updateRule(region.regionKey, 'minPct', e.target.value)}
+                          disabled={isOverride}
+                          inputProps={{ min: 0, max: 100 }}
+                          sx={inputSx}
+                        />
+                      </TableCell>
+                      <TableCell sx={cellSx}>
+                        <TextField
+                          size="small"
+                          type="number"
+                          value={rule.maxPct ?? ''}
+                          onChange={(e) => updateRule(region.regionKey, 'maxPct', e.target.value)}
+                          disabled={isOverride}
+                          inputProps={{ min: 0, max: 100 }}
+                          sx={inputSx}
+                        />
+                      </TableCell>
+                      <TableCell sx={cellSx}>
+                        <TextField
+                          size="small"
+                          type="number"
+                          value={rule.amount ?? ''}
+                          onChange={(e) => updateRule(region.regionKey, 'amount', e.target.value)}
+                          inputProps={{ min: 0 }}
+                          sx={{ ...inputSx, width: 104 }}
+                        />
+                      </TableCell>
+                      <TableCell align="right" sx={{ ...cellSx, fontWeight: 600 }}>
+                        {formatCurrency(region.amount)}
+                        {region.limitedBy && (
+                          <Chip
+                            label={LIMIT_LABELS[region.limitedBy]}
+                            size="small"
+                            sx={{ ml: 1, height: 18, fontSize: '0.65rem' }}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell align="right" sx={cellSx}>{(region.share * 100).toFixed(1)}%</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {districtRows && districtRows.length > 0 && (
+          <TableContainer sx={{ maxHeight: 320, mt: 2 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={headerCellSx}>TV region</TableCell>
+                  <TableCell sx={headerCellSx}>District</TableCell>
+                  <TableCell align="right" sx={headerCellSx}>Households</TableCell>
+                  <TableCell align="right" sx={headerCellSx}>Allocated</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {districtRows.map((row) => (
+                  <TableRow key={`${row.regionKey}|${row.district}`}>
+                    <TableCell sx={cellSx}>{base?.regionNames.get(row.regionKey) || row.regionKey}</TableCell>
+                    <TableCell sx={cellSx}>{row.district}</TableCell>
+                    <TableCell align="right" sx={cellSx}>{row.households.toLocaleString()}</TableCell>
+                    <TableCell align="right" sx={cellSx}>{formatCurrency(row.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem', display: 'block', mt: 2 }}>
+          Households come from geo_districts (2,500 where missing); a district in several TV regions is split evenly
+          between them. Min/max caps are % of the total budget; a manual amount fixes the region and the rest is
+          re-split across the others.
+        </Typography>
+      </CardContent>
+    </Card>
+  );
+}
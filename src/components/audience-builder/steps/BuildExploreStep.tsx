@@ -10,12 +10,11 @@ import { useConstructionSettings } from '@/features/audience-builder/hooks/useCo
 import { useSegments } from '@/features/audience-builder/hooks/useSegments';
 import { useAudience } from '@/features/audience-builder/hooks/useAudiences';
 import { useUpdateSegmentSelection } from '@/features/audience-builder/hooks/useSegments';
-import { useValidationResults } from '@/features/audience-builder/hooks/useValidationResults';
+import { useAudienceResolution } from '@/features/audience-builder/hooks/useAudienceResolution';
 import { useExtensionSuggestions } from '@/features/audience-builder/hooks/useExtensionSuggestions';
-import { useProviderImpact } from '@/features/audience-builder/hooks/useProviderImpact';
 import { usePoisByIds, usePoiDistrictMap, usePoisByBrands } from '@/features/audience-builder/hooks/useStorePois';
 import { StorePoi } from '@/features/audience-builder/api/storePois';
-import { useBattleZoneDistricts } from '@/features/audience-builder/hooks/useBattleZones';
+import { useBattleZoneDistricts, useBattleZoneStoreCatchments } from '@/features/audience-builder/hooks/useBattleZones';
 import { useDistrictCentroids } from '@/features/audience-builder/hooks/useDistrictCentroids';
 import { useBuilderContext } from '../BuilderContext';
 import { toggleSelectedSegment, getSelectedSegmentKeys } from '@/features/audience-builder/api/selectedSegments';
@@ -68,7 +67,7 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
   const { data: settings } = useConstructionSettings(audienceId);
   const { data: segments = [] } = useSegments(audienceId, 'primary', settings?.construction_mode);
   const updateSegmentSelection = useUpdateSegmentSelection();
-  const { state, setValidationMinAgreement, setIncludedSegmentKeys, getAllProvidersForBuild, confirmSelection, setTvRegions, setSelectedPoiIds, setSelectedPoiBrands, setBattleZonesEnabled, setBattleZoneBaseBrand, setBattleZoneCompetitorBrands, setBattleZoneRings, setActiveTab } = useBuilderContext();
+  const { state, setValidationMinAgreement, setValidationAgreementMode, setValidationScoring, setValidationMinWeightedScore, setGeoResolution, setExtensionConfidenceThreshold, setIncludedSegmentKeys, getResolutionInput, confirmSelection, setTvRegions, setSelectedPoiIds, setSelectedPoiBrands, setBattleZonesEnabled, setBattleZoneBaseBrand, setBattleZoneCompetitorBrands, setBattleZoneRings, setBattleZoneCatchment, setActiveTab } = useBuilderContext();
   const selectionConfirmed = state.selectionConfirmed;
   const hasValidSelection = Boolean(state.selectionConfirmed && state.selectedSegmentKey && state.selectedSegmentKey.length > 0);
   const [mounted, setMounted] = useState(false);
@@ -107,13 +106,18 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
     }
   };
 
-  // Initialize slider values from context on mount
+  // Keep slider drafts in step with applied values in context (mount, saved-state hydration)
   useEffect(() => {
-    if (mounted && state.validationMinAgreement) {
-      setSliderDraft(state.validationMinAgreement);
-      setSliderApplied(state.validationMinAgreement);
-    }
-  }, [mounted]); // Only run on mount
+    setSliderDraft(state.validationMinAgreement);
+  }, [state.validationMinAgreement]);
+
+  useEffect(() => {
+    setWeightedScoreDraft(state.validationMinWeightedScore);
+  }, [state.validationMinWeightedScore]);
+
+  useEffect(() => {
+    setConfidenceThresholdDraft(state.extensionConfidenceThreshold);
+  }, [state.extensionConfidenceThreshold]);
 
   // Use settings for construction mode if available, otherwise fall back to context
   const constructionMode = (mounted && settings?.construction_mode) ? settings.construction_mode : state.constructionMode;
@@ -138,7 +142,7 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
         if (parsed.timestamp && Date.now() - parsed.timestamp < 30000) {
           if (parsed.segmentKey && parsed.providers) {
             // Restore from sessionStorage
-            confirmSelection(parsed.segmentKey, parsed.providers);
+            confirmSelection(parsed.segmentKey, parsed.providers, parsed.baseProvider);
             setWaitingForState(false);
             return;
           }
@@ -186,9 +190,12 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
   const [justificationModalOpen, setJustificationModalOpen] = useState(false);
   const [expandedExplain, setExpandedExplain] = useState<string | null>(null);
   const [districts, setDistricts] = useState<any[]>([]);
-  // Two slider states: draft (UI) and applied (map computations)
-  const [sliderDraft, setSliderDraft] = useState(1);
-  const [sliderApplied, setSliderApplied] = useState(1);
+  // Two slider states: draft (UI) and applied (map computations, held in context so export matches)
+  const [sliderDraft, setSliderDraft] = useState(state.validationMinAgreement);
+  const sliderApplied = state.validationMinAgreement;
+  const setSliderApplied = setValidationMinAgreement;
+  // Weighted scoring slider (share of provider trust weight), same draft/applied split
+  const [weightedScoreDraft, setWeightedScoreDraft] = useState(state.validationMinWeightedScore);
   // Overlay mode state
   const [overlayMode, setOverlayMode] = useState<'district' | 'hex'>('hex');
   const [hexResolution, setHexResolution] = useState(5);
@@ -197,8 +204,8 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
   // Battleground state
   const [battlegroundConfig, setBattlegroundConfig] = useState<any>(null);
   // Extension mode state
-  const [confidenceThresholdDraft, setConfidenceThresholdDraft] = useState(0.5);
-  const [confidenceThresholdApplied, setConfidenceThresholdApplied] = useState(0.5);
+  const [confidenceThresholdDraft, setConfidenceThresholdDraft] = useState(state.extensionConfidenceThreshold);
+  const confidenceThresholdApplied = state.extensionConfidenceThreshold;
   const [selectedExtensionSegments, setSelectedExtensionSegments] = useState<string[]>([]);
   
   // Render count tracking (DEV only) - read-only, no setState
@@ -265,21 +272,14 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
     return [];
   }, [constructionMode, selectedSegmentKey]);
   
-  // Get selected providers for the build
-  const selectedProviders = useMemo(() => {
-    if (!hasValidSelection) return undefined;
-    return getAllProvidersForBuild();
-  }, [hasValidSelection, getAllProvidersForBuild]);
-  
-  const { data: providerImpact, isLoading: providerImpactLoading } = useProviderImpact({
-    anchorKey: selectedSegmentKey || anchorKey,
-    includedSegmentKeys: extensionSelectedKeys,
-    confidenceThreshold: confidenceThresholdApplied,
-    includeAnchorOnly: true,
-    providers: constructionMode === 'extension' ? selectedProviders : undefined,
-    tvRegions: state.tvRegions.length > 0 ? state.tvRegions : undefined,
-    enabled: constructionMode === 'extension' && mounted && extensionSelectedKeys.length > 0 && hasValidSelection,
-  });
+  // Resolve the district set through the shared service (same resolution the export route runs)
+  const {
+    data: resolution,
+    isLoading: resolutionLoading,
+    error: validationError,
+  } = useAudienceResolution(getResolutionInput(), mounted && hasValidSelection);
+  const providerImpact = constructionMode === 'extension' ? resolution?.providerImpact : undefined;
+  const providerImpactLoading = constructionMode === 'extension' && resolutionLoading;
   
   // Memoize includedSegmentKeys to prevent unnecessary re-renders
   const includedSegmentKeys = useMemo(() => {
@@ -294,16 +294,9 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
     setIncludedSegmentKeys(includedSegmentKeys);
   }, [includedSegmentKeys.join(','), setIncludedSegmentKeys]);
 
-  // Fetch validation results with current slider value (minAgreement in query key)
-  // Use selectedSegmentKey from context (set in Step 2)
-  const segmentKey = selectedSegmentKey || 'home_movers';
-  const { data: validationResults, isLoading: validationLoading, error: validationError } = useValidationResults({
-    segmentKey,
-    minAgreement: sliderApplied, // Pass current slider value so API calculates households for filtered districts
-    providers: constructionMode === 'validation' ? selectedProviders : undefined,
-    tvRegions: state.tvRegions.length > 0 ? state.tvRegions : undefined,
-    enabled: constructionMode === 'validation' && mounted && hasValidSelection,
-  });
+  // Validation results come from the same resolution, keyed by the applied slider value in context
+  const validationResults = constructionMode === 'validation' ? resolution?.validationResults : undefined;
+  const validationLoading = constructionMode === 'validation' && resolutionLoading;
   
   // Log validation errors
   useEffect(() => {
@@ -467,6 +460,10 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
     setSliderApplied(clampedValue); // Update map computations only on commit
   };
 
+  const handleWeightedScoreCommit = (value: number) => {
+    setValidationMinWeightedScore(Math.max(0, Math.min(1, value)));
+  };
+
   const handlePoiTypeToggle = useCallback((poiType: string) => {
     setSelectedPoiTypes((prev) => {
       if (prev.includes(poiType)) {
@@ -488,8 +485,8 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
   }, []);
 
   const handleConfidenceThresholdCommit = useCallback((value: number) => {
-    setConfidenceThresholdApplied(value);
-  }, []);
+    setExtensionConfidenceThreshold(value);
+  }, [setExtensionConfidenceThreshold]);
 
   const handleExtensionSegmentToggle = useCallback(async (segmentKey: string, isSelected: boolean) => {
     // Don't allow deselecting anchor
@@ -620,6 +617,7 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
       baseBrand: state.battleZoneBaseBrand,
       competitorBrands: state.battleZoneCompetitorBrands.length > 0 ? state.battleZoneCompetitorBrands : undefined,
       rings: state.battleZoneRings,
+      catchment: state.battleZoneCatchment,
       tvRegions: state.tvRegions.length > 0 ? state.tvRegions : undefined,
     };
   }, [
@@ -627,6 +625,7 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
     state.battleZoneBaseBrand,
     state.battleZoneCompetitorBrands,
     state.battleZoneRings,
+    state.battleZoneCatchment,
     state.tvRegions,
   ]);
 
@@ -635,6 +634,13 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
     state.battleZonesEnabled && !!state.battleZoneBaseBrand
   );
 
+  // Per-store catchment overlays (distance and drive-time catchments)
+  const { data: battleZoneStoreCatchments = [] } = useBattleZoneStoreCatchments(
+    state.battleZoneBaseBrand,
+    state.battleZoneCatchment,
+    state.battleZonesEnabled
+  );
+
   // Normalize district function (matches validationResults.ts)
   const normalizeDistrict = useCallback((d: string): string => {
     return d.trim().toUpperCase().replace(/\s+/g, '');
@@ -778,6 +784,7 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
           <Box sx={{ flex: 1, position: 'relative', minHeight: '600px', overflow: 'hidden' }}>
             <ValidationMapPanel
             includedDistricts={includedDistricts}
+            includedSectors={validationResults?.includedSectors}
             maxAgreement={maxAgreement}
             overlayMode={overlayMode}
             hexResolution={hexResolution}
@@ -791,6 +798,8 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
             battleZoneCentroids={battleZoneCentroids}
             battleZoneBaseBrand={state.battleZoneBaseBrand}
             battleZoneCompetitorBrands={state.battleZoneCompetitorBrands}
+            battleZoneCatchment={state.battleZoneCatchment}
+            battleZoneStoreCatchments={battleZoneStoreCatchments}
           />
           {/* Tool Drawer - positioned inside map container */}
           <MapToolDrawer open={activeTool !== null} tool={activeTool} onClose={() => setActiveTool(null)}>
@@ -829,6 +838,8 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
                   ringsApplied={state.battleZoneRings}
                   onRingsDraftChange={setBattleZoneRings}
                   onRingsApply={setBattleZoneRings}
+                  catchment={state.battleZoneCatchment}
+                  onCatchmentChange={setBattleZoneCatchment}
                   enabled={state.battleZonesEnabled}
                   onEnabledChange={setBattleZonesEnabled}
                   tvRegions={state.tvRegions}
@@ -850,8 +861,18 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
               validationLoading={validationLoading}
               onSliderChange={handleSliderChange}
               onSliderChangeCommitted={handleSliderChangeCommitted}
+              scoring={state.validationScoring}
+              onScoringChange={setValidationScoring}
+              weightedScoreDraft={weightedScoreDraft}
+              onWeightedScoreChange={setWeightedScoreDraft}
+              onWeightedScoreCommit={handleWeightedScoreCommit}
+              agreementMode={state.validationAgreementMode}
+              onAgreementModeChange={setValidationAgreementMode}
+              resolution={state.geoResolution}
+              onResolutionChange={setGeoResolution}
               audienceSize={audienceSize}
               districtsIncluded={districtsIncluded}
+              sectorsIncluded={validationResults?.totals.sectorsIncluded}
               validationResults={validationResults}
               onViewProviders={() => setProviderModalOpen(true)}
               suggestedSegments={suggestedSegments}
@@ -928,7 +949,13 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
             zIndex: state.activeTab === 'tvInsights' ? 1 : 0,
           }}
         >
-          <TvSpotInsightsPanel />
+          <TvSpotInsightsPanel
+            districtIds={resolution?.districtIds}
+            districtChecksum={resolution?.checksum}
+            isResolving={resolutionLoading}
+            audience={audience}
+            tvRegions={state.tvRegions}
+          />
         </Box>
       </Box>
 
@@ -1052,16 +1079,20 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
                 Confidence increases where multiple sources agree on the same locations.
               </Typography>
               <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem', fontStyle: 'italic' }}>
-                Areas included in the audience require at least {sliderApplied} agreeing providers.
+                {validationResults.agreementMode === 'unanimous'
+                  ? 'Areas included in the audience require every provider to agree.'
+                  : validationResults.agreementScoring === 'weighted'
+                  ? `Areas included in the audience require agreeing providers holding ${validationResults.agreementMode === 'majority' ? 'more than half' : `at least ${Math.round(state.validationMinWeightedScore * 100)}%`} of total trust weight. Each provider agrees at its own threshold.`
+                  : `Areas included in the audience require at least ${validationResults.requiredAgreement} agreeing providers${validationResults.agreementMode === 'majority' ? ' (majority)' : ''}.`}
               </Typography>
             </Box>
             <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
-              {/* CCS is the base universe */}
+              {/* Base universe provider (CCS unless changed in Audience Selection) */}
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, p: 1.5, border: '1px solid #e0e0e0', borderRadius: 1 }}>
-                <ProviderAvatar provider="CCS" />
+                <ProviderAvatar provider={validationResults.baseProvider} />
                 <Box sx={{ minWidth: 100 }}>
                   <Typography variant="body2" sx={{ fontWeight: 500, fontSize: '0.875rem' }}>
-                    CCS
+                    {validationResults.baseProvider}
                   </Typography>
                 </Box>
                 <Box sx={{ flex: 1 }}>
@@ -1091,6 +1122,8 @@ export function BuildExploreStep({ audienceId, onNext, onBack }: BuildExploreSte
                     </Typography>
                     <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem' }}>
                       Agreeing districts: {stats.agreeingDistricts}
+                      {validationResults.providerWeights?.[provider] &&
+                        ` · Weight ${validationResults.providerWeights[provider].trustWeight}, threshold ${validationResults.providerWeights[provider].agreementThreshold}`}
                     </Typography>
                   </Box>
                   <Box>
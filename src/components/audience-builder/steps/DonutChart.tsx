@@ -2,6 +2,7 @@
 
 import { Box, Typography, Avatar } from '@mui/material';
 import { useMemo, useState } from 'react';
+import { buildDonutSegments, donutArcPath } from '@/features/audience-builder/utils/donutChart';
 
 interface DonutChartProps {
   providers: Array<{
@@ -13,70 +14,18 @@ interface DonutChartProps {
   size?: number;
 }
 
-// Color palette centered around #3bc8ea
-const COLOR_PALETTE = [
-  '#3bc8ea', // Base lightbox blue
-  '#5dd4f0', // Lighter
-  '#1bb4d6', // Darker
-  '#7de0f5', // Very light
-  '#0a9fc4', // Very dark
-  '#9de8f8', // Lightest
-  '#0088a8', // Darkest
-];
-
 export function DonutChart({ providers, size = 160 }: DonutChartProps) {
   const [hoveredSegment, setHoveredSegment] = useState<string | null>(null);
   
-  const chartData = useMemo(() => {
-    if (providers.length === 0) return [];
-    
-    // Normalize percentages to sum to 100
-    const total = providers.reduce((sum, p) => sum + p.percentContributed, 0);
-    const normalized = providers.map(p => ({
-      ...p,
-      normalizedPercent: total > 0 ? (p.percentContributed / total) * 100 : 0,
-    }));
-
-    // Calculate angles
-    let currentAngle = -90; // Start at top
-    return normalized.map((provider, index) => {
-      const angle = (provider.normalizedPercent / 100) * 360;
-      const startAngle = currentAngle;
-      const endAngle = currentAngle + angle;
-      currentAngle = endAngle;
-
-      return {
-        ...provider,
-        startAngle,
-        endAngle,
-        color: COLOR_PALETTE[index % COLOR_PALETTE.length],
-      };
-    });
-  }, [providers]);
+  const chartData = useMemo(() => buildDonutSegments(providers), [providers]);
 
   const radius = size / 2 - 10;
   const innerRadius = radius * 0.6;
   const centerX = size / 2;
   const centerY = size / 2;
 
-  const createArcPath = (startAngle: number, endAngle: number) => {
-    const start = (startAngle * Math.PI) / 180;
-    const end = (endAngle * Math.PI) / 180;
-    
-    const x1 = centerX + radius * Math.cos(start);
-    const y1 = centerY + radius * Math.sin(start);
-    const x2 = centerX + radius * Math.cos(end);
-    const y2 = centerY + radius * Math.sin(end);
-    
-    const x3 = centerX + innerRadius * Math.cos(end);
-    const y3 = centerY + innerRadius * Math.sin(end);
-    const x4 = centerX + innerRadius * Math.cos(start);
-    const y4 = centerY + innerRadius * Math.sin(start);
-    
-    const largeArc = end - start > Math.PI ? 1 : 0;
-    
-    return `M ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2} L ${x3} ${y3} A ${innerRadius} ${innerRadius} 0 ${largeArc} 0 ${x4} ${y4} Z`;
-  };
+  const createArcPath = (startAngle: number, endAngle: number) =>
+    donutArcPath(centerX, centerY, radius, innerRadius, startAngle, endAngle);
 
   if (chartData.length === 0) {
     return (
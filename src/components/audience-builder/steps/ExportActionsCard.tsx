@@ -27,31 +27,39 @@ import {
   Avatar,
   ToggleButton,
   ToggleButtonGroup,
+  Alert,
 } from '@mui/material';
 import { Download, CloudUpload } from '@mui/icons-material';
+import Link from 'next/link';
+import { H3_ACTIVATION_RESOLUTIONS } from '@/features/audience-builder/utils/h3Activation';
+import { usePlatformConnections } from '@/features/admin/hooks/usePlatformConnections';
+import { getConnector } from '@/features/audience-builder/connectors/registry';
+import { PushPayloadFormat, PUSH_PAYLOAD_FORMATS } from '@/features/audience-builder/connectors/types';
 
 interface ExportActionsCardProps {
   audienceId: string;
   activationTarget: 'districts' | 'h3' | 'geojson';
   onActivationTargetChange: (target: 'districts' | 'h3' | 'geojson') => void;
-  onExport: (type: 'csv' | 'geojson') => Promise<void>;
-  onPreview: (type: 'csv' | 'geojson') => Promise<void>;
+  onExport: (type: 'csv' | 'geojson' | 'xlsx' | 'report') => Promise<void>;
+  onPreview: (type: 'csv' | 'geojson' | 'xlsx' | 'report') => Promise<void>;
   isExporting: boolean;
   isLoadingPreview: boolean;
   previewData?: any;
-  previewType?: 'csv' | 'geojson' | null;
+  previewType?: 'csv' | 'geojson' | 'xlsx' | 'html' | 'pdf' | null;
   exportMethod: 'download' | 'push';
   onExportMethodChange: (method: 'download' | 'push') => void;
   selectedPlatform: 'magnite' | 'ttd' | 'dv360' | 'liveramp' | null;
   onSelectedPlatformChange: (platform: 'magnite' | 'ttd' | 'dv360' | 'liveramp' | null) => void;
-  onExportFormatChange?: (format: 'csv' | 'geojson' | 'h3') => void;
-}
-
-interface PlatformConfig {
-  magnite: { accountId?: string; destination?: string; notes?: string };
-  ttd: { advertiserId?: string; seatId?: string; destination?: string; notes?: string };
-  dv360: { advertiserId?: string; partnerId?: string; destination?: string; notes?: string };
-  liveramp: { destination?: string; notes?: string };
+  onExportFormatChange?: (format: 'csv' | 'geojson' | 'h3' | 'xlsx' | 'report') => void;
+  h3FileFormat?: 'csv' | 'geojson';
+  onH3FileFormatChange?: (format: 'csv' | 'geojson') => void;
+  reportFormat?: 'html' | 'pdf';
+  onReportFormatChange?: (format: 'html' | 'pdf') => void;
+  h3Resolution?: number;
+  onH3ResolutionChange?: (resolution: number) => void;
+  clientId?: string | null;
+  pushPayloadFormat?: PushPayloadFormat | null;
+  onPushPayloadFormatChange?: (format: PushPayloadFormat) => void;
 }
 
 export function ExportActionsCard({
@@ -69,19 +77,24 @@ export function ExportActionsCard({
   selectedPlatform,
   onSelectedPlatformChange,
   onExportFormatChange,
+  h3FileFormat = 'csv',
+  onH3FileFormatChange,
+  reportFormat = 'pdf',
+  onReportFormatChange,
+  h3Resolution,
+  onH3ResolutionChange,
+  clientId,
+  pushPayloadFormat,
+  onPushPayloadFormatChange,
 }: ExportActionsCardProps) {
   const [previewOpen, setPreviewOpen] = useState(false);
-  const [platformConfigs, setPlatformConfigs] = useState<PlatformConfig>({
-    magnite: {},
-    ttd: {},
-    dv360: {},
-    liveramp: {},
-  });
-  const [platformDialogOpen, setPlatformDialogOpen] = useState<string | null>(null);
-  const [platformDialogData, setPlatformDialogData] = useState<any>({});
-  const [selectedExportFormat, setSelectedExportFormat] = useState<'csv' | 'geojson' | 'h3'>('csv');
+  const { data: connections = [], isLoading: connectionsLoading } = usePlatformConnections(
+    clientId,
+    !!clientId && exportMethod === 'push'
+  );
+  const [selectedExportFormat, setSelectedExportFormat] = useState<'csv' | 'geojson' | 'h3' | 'xlsx' | 'report'>('csv');
 
-  const handlePreview = async (type: 'csv' | 'geojson') => {
+  const handlePreview = async (type: 'csv' | 'geojson' | 'xlsx' | 'report') => {
     try {
       await onPreview(type);
       setPreviewOpen(true);
@@ -93,30 +106,12 @@ export function ExportActionsCard({
   const previewData = externalPreviewData;
   const previewType = externalPreviewType;
 
-  const handlePlatformClick = (platform: 'magnite' | 'ttd' | 'dv360' | 'liveramp') => {
-    const config = platformConfigs[platform];
-    if (!config || Object.keys(config).length === 0) {
-      // Open dialog to configure
-      setPlatformDialogData({});
-      setPlatformDialogOpen(platform);
-    }
-  };
-
-  const handlePlatformSave = () => {
-    if (platformDialogOpen) {
-      setPlatformConfigs(prev => ({
-        ...prev,
-        [platformDialogOpen]: platformDialogData,
-      }));
-      setPlatformDialogOpen(null);
-      setPlatformDialogData({});
-    }
-  };
-
-  const isPlatformConfigured = (platform: string) => {
-    const config = platformConfigs[platform as keyof PlatformConfig];
-    return config && Object.keys(config).length > 0 && Object.values(config).some(v => v);
-  };
+  const selectedConnection = selectedPlatform
+    ? connections.find((c) => c.platform === selectedPlatform)
+    : undefined;
+  const selectedMetadata = selectedPlatform ? getConnector(selectedPlatform).getMetadata() : null;
+  const isPlatformReady = !!selectedConnection?.is_enabled && selectedConnection.credentials_set;
+  const effectivePushFormat = pushPayloadFormat || selectedConnection?.payload_format || null;
 
   return (
     <>
@@ -201,10 +196,96 @@ export function ExportActionsCard({
                 <ToggleButton value="csv">CSV</ToggleButton>
                 <ToggleButton value="geojson">JSON</ToggleButton>
                 <ToggleButton value="h3">H3 hex</ToggleButton>
+                <ToggleButton value="xlsx">XLSX</ToggleButton>
+                <ToggleButton value="report">Report</ToggleButton>
               </ToggleButtonGroup>
             </Box>
           )}
 
+          {/* Report options: printable HTML or PDF */}
+          {exportMethod === 'download' && selectedExportFormat === 'report' && (
+            <Box sx={{ mb: 2 }}>
+              <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', display: 'block', mb: 0.75 }}>
+                Planning report
+              </Typography>
+              <ToggleButtonGroup
+                value={reportFormat}
+                exclusive
+                size="small"
+                onChange={(_, v) => v && onReportFormatChange?.(v)}
+                sx={{
+                  '& .MuiToggleButton-root': {
+                    px: 2,
+                    fontSize: '0.8125rem',
+                    textTransform: 'none',
+                    color: '#02b5e7',
+                    borderColor: 'rgba(2, 181, 231, 0.3)',
+                    '&.Mui-selected': {
+                      backgroundColor: 'rgba(2, 181, 231, 0.1)',
+                      color: '#02b5e7',
+                    },
+                  },
+                }}
+              >
+                <ToggleButton value="pdf">PDF</ToggleButton>
+                <ToggleButton value="html">HTML</ToggleButton>
+              </ToggleButtonGroup>
+              <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem', display: 'block', mt: 0.75 }}>
+                Brief, construction, provider mix, district map, battle zones, TV regions and spot insights in one document
+              </Typography>
+            </Box>
+          )}
+
+          {/* H3 options: cell list file and cell size */}
+          {exportMethod === 'download' && selectedExportFormat === 'h3' && (
+            <Box sx={{ mb: 2, display: 'flex', gap: 2, alignItems: 'flex-end' }}>
+              <Box>
+                <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', display: 'block', mb: 0.75 }}>
+                  H3 cell list
+                </Typography>
+                <ToggleButtonGroup
+                  value={h3FileFormat}
+                  exclusive
+                  size="small"
+                  onChange={(_, v) => v && onH3FileFormatChange?.(v)}
+                  sx={{
+                    '& .MuiToggleButton-root': {
+                      px: 2,
+                      fontSize: '0.8125rem',
+                      textTransform: 'none',
+                      color: '#02b5e7',
+                      borderColor: 'rgba(2, 181, 231, 0.3)',
+                      '&.Mui-selected': {
+                        backgroundColor: 'rgba(2, 181, 231, 0.1)',
+                        color: '#02b5e7',
+                      },
+                    },
+                  }}
+                >
+                  <ToggleButton value="csv">CSV</ToggleButton>
+                  <ToggleButton value="geojson">JSON</ToggleButton>
+                </ToggleButtonGroup>
+              </Box>
+              {h3Resolution !== undefined && onH3ResolutionChange && (
+                <FormControl size="small" sx={{ minWidth: 140 }}>
+                  <InputLabel sx={{ fontSize: '0.8125rem' }}>Resolution</InputLabel>
+                  <Select
+                    value={h3Resolution}
+                    label="Resolution"
+                    onChange={(e) => onH3ResolutionChange(Number(e.target.value))}
+                    sx={{ fontSize: '0.8125rem' }}
+                  >
+                    {H3_ACTIVATION_RESOLUTIONS.map((resolution) => (
+                      <MenuItem key={resolution} value={resolution} sx={{ fontSize: '0.8125rem' }}>
+                        {resolution}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+            </Box>
+          )}
+
           {exportMethod === 'push' && (
             <Box sx={{ mb: 2 }}>
               <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', display: 'block', mb: 0.75 }}>
@@ -216,7 +297,6 @@ export function ExportActionsCard({
                 onChange={(_, v) => {
                   if (v) {
                     onSelectedPlatformChange(v as 'magnite' | 'ttd' | 'dv360' | 'liveramp');
-                    handlePlatformClick(v as 'magnite' | 'ttd' | 'dv360' | 'liveramp');
                   }
                 }}
                 sx={{
@@ -245,10 +325,69 @@ export function ExportActionsCard({
                 <ToggleButton value="liveramp">LiveRamp</ToggleButton>
                 <ToggleButton value="ttd">The Trade Desk</ToggleButton>
                 <ToggleButton value="magnite">Magnite</ToggleButton>
+                <ToggleButton value="dv360">DV360</ToggleButton>
               </ToggleButtonGroup>
             </Box>
           )}
 
+          {/* Push options: connection status and payload */}
+          {exportMethod === 'push' && selectedMetadata && !connectionsLoading && (
+            <Box sx={{ mb: 2 }}>
+              {!clientId ? (
+                <Alert severity="warning" sx={{ fontSize: '0.8125rem' }}>
+                  Assign a client to this audience to push it to {selectedMetadata.label}.
+                </Alert>
+              ) : !isPlatformReady ? (
+                <Alert severity="warning" sx={{ fontSize: '0.8125rem' }}>
+                  {selectedMetadata.label} is {selectedConnection ? 'disabled or missing credentials' : 'not configured'} for this client.{' '}
+                  <Link href="/admin/platform-connections" style={{ color: '#02b5e7' }}>
+                    Set up platform connections
+                  </Link>
+                </Alert>
+              ) : (
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-end' }}>
+                  <FormControl size="small" sx={{ minWidth: 180 }}>
+                    <InputLabel sx={{ fontSize: '0.8125rem' }}>Payload</InputLabel>
+                    <Select
+                      value={effectivePushFormat || ''}
+                      label="Payload"
+                      onChange={(e) => onPushPayloadFormatChange?.(e.target.value as PushPayloadFormat)}
+                      sx={{ fontSize: '0.8125rem' }}
+                    >
+                      {selectedMetadata.supportedFormats.map((format) => (
+                        <MenuItem key={format} value={format} sx={{ fontSize: '0.8125rem' }}>
+                          {PUSH_PAYLOAD_FORMATS[format].label}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  {effectivePushFormat === 'h3' && h3Resolution !== undefined && onH3ResolutionChange && (
+                    <FormControl size="small" sx={{ minWidth: 140 }}>
+                      <InputLabel sx={{ fontSize: '0.8125rem' }}>Resolution</InputLabel>
+                      <Select
+                        value={h3Resolution}
+                        label="Resolution"
+                        onChange={(e) => onH3ResolutionChange(Number(e.target.value))}
+                        sx={{ fontSize: '0.8125rem' }}
+                      >
+                        {H3_ACTIVATION_RESOLUTIONS.map((resolution) => (
+                          <MenuItem key={resolution} value={resolution} sx={{ fontSize: '0.8125rem' }}>
+                            {resolution}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  )}
+                  {effectivePushFormat && (
+                    <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.75rem', pb: 1 }}>
+                      {PUSH_PAYLOAD_FORMATS[effectivePushFormat].description}
+                    </Typography>
+                  )}
+                </Box>
+              )}
+            </Box>
+          )}
+
 
           {/* Push to platform panel */}
         </CardContent>
@@ -280,7 +419,7 @@ export function ExportActionsCard({
               </Box>
 
               {/* CSV Preview */}
-              {previewType === 'csv' && previewData.rows && (
+              {(previewType === 'csv' || previewType === 'xlsx') && previewData.rows && (
                 <Box>
                   <Typography variant="caption" sx={{ fontSize: '0.7rem', fontWeight: 600, display: 'block', mb: 0.5 }}>
                     Sample rows ({previewData.rows.length} of {previewData.totalRows}):
@@ -312,6 +451,16 @@ export function ExportActionsCard({
                 </Box>
               )}
 
+              {/* Report Preview */}
+              {(previewType === 'html' || previewType === 'pdf') && previewData.html && (
+                <Box
+                  component="iframe"
+                  title="Report preview"
+                  srcDoc={previewData.html}
+                  sx={{ width: '100%', height: 480, border: '1px solid #e0e0e0', borderRadius: 1 }}
+                />
+              )}
+
               {/* GeoJSON Preview */}
               {previewType === 'geojson' && previewData.sampleFeatures && (
                 <Box>
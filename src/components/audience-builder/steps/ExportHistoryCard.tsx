@@ -1,16 +1,84 @@
 'use client';
 
-import { Box, Card, CardContent, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, Button } from '@mui/material';
-import { Download } from '@mui/icons-material';
-import { useExports } from '@/features/audience-builder/hooks/useExports';
+import { Box, Card, CardContent, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, Button, Tooltip, LinearProgress } from '@mui/material';
+import { Download, Replay } from '@mui/icons-material';
+import { useExports, useRetryExport } from '@/features/audience-builder/hooks/useExports';
+import { canRetryExportJob, isExportJobActive, isExportJobStale } from '@/features/audience-builder/utils/exportJobs';
+import { Export } from '@/lib/types';
+import { useSnapshots } from '@/features/audience-builder/hooks/useSnapshots';
+import { getConnector, isPlatformKey } from '@/features/audience-builder/connectors/registry';
+import { DeliveryLogEntry } from '@/features/audience-builder/connectors/types';
+import { DistrictChange } from '@/features/audience-builder/utils/exportSchedules';
+
+const DELIVERY_STATUS_STYLES: Record<string, { label: string; bg: string; fg: string }> = {
+  pending: { label: 'Pending', bg: '#fff3e0', fg: '#e65100' },
+  delivered: { label: 'Delivered', bg: '#e8f5e9', fg: '#2e7d32' },
+  failed: { label: 'Failed', bg: '#ffebee', fg: '#c62828' },
+};
+const READY_STYLE = { label: 'Ready', bg: '#e8f5e9', fg: '#2e7d32' };
+const JOB_FAILED_STYLE = { label: 'Failed', bg: '#ffebee', fg: '#c62828' };
+const JOB_INTERRUPTED_STYLE = { label: 'Interrupted', bg: '#fff3e0', fg: '#e65100' };
+
+function destinationLabel(destination: string): string {
+  return isPlatformKey(destination) ? getConnector(destination).getMetadata().label : destination;
+}
 
 interface ExportHistoryCardProps {
   audienceId: string;
   onDownload: (storagePath: string) => Promise<void>;
 }
 
+function statusStyle(exp: Export) {
+  if (exp.status === 'failed') return JOB_FAILED_STYLE;
+  if (isExportJobStale(exp)) return JOB_INTERRUPTED_STYLE;
+  // File exports are ready once generated; pushes report their delivery
+  if (!exp.destination) return READY_STYLE;
+  return DELIVERY_STATUS_STYLES[exp.delivery_status || 'pending'] || DELIVERY_STATUS_STYLES.pending;
+}
+
+function lastLogMessage(log: unknown): string {
+  const entries = Array.isArray(log) ? (log as unknown as DeliveryLogEntry[]) : [];
+  const last = entries[entries.length - 1];
+  if (!last) return '';
+  return `Attempt ${last.attempt}${last.http_status ? ` (HTTP ${last.http_status})` : ''}: ${last.message}`;
+}
+
+function describeDistrictChange(change: DistrictChange): string {
+  if (!change.previous_export_id) return 'First scheduled run';
+  return `${change.added_count} added, ${change.removed_count} removed versus the previous run (${change.previous_count} → ${change.current_count} districts, flagged above ${change.threshold_pct}%)`;
+}
+
+/** Scheduled runs: change in the district list versus the schedule's previous run */
+function DistrictChangeLabel({ change }: { change: DistrictChange }) {
+  return (
+    <Tooltip title={describeDistrictChange(change)}>
+      <Typography
+        variant="caption"
+        sx={{ display: 'block', mt: 0.5, fontSize: '0.7rem', color: change.material ? '#e65100' : 'text.secondary' }}
+      >
+        {change.material
+          ? `Districts changed ${change.changed_pct}%`
+          : change.previous_export_id
+          ? `${change.changed_pct}% change`
+          : 'First run'}
+      </Typography>
+    </Tooltip>
+  );
+}
+
+function statusDetail(exp: Export): string {
+  if (exp.status === 'failed') {
+    return `${exp.progress_message ? `Failed while: ${exp.progress_message}. ` : ''}${exp.error_detail || 'Unknown error'}`;
+  }
+  if (isExportJobStale(exp)) return 'The export stopped reporting progress. Retry to run it again.';
+  return lastLogMessage(exp.delivery_log);
+}
+
 export function ExportHistoryCard({ audienceId, onDownload }: ExportHistoryCardProps) {
   const { data: exports = [] } = useExports(audienceId);
+  const retryExport = useRetryExport(audienceId);
+  const { data: snapshots = [] } = useSnapshots(audienceId);
+  const versionBySnapshotId = new Map(snapshots.map((s) => [s.id, s.version]));
 
   return (
     <Card id="export-history" sx={{ boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)' }}>
@@ -26,6 +94,7 @@ export function ExportHistoryCard({ audienceId, onDownload }: ExportHistoryCardP
                 <TableRow>
                   <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Type</TableCell>
                   <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Target</TableCell>
+                  <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Version</TableCell>
                   <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Created</TableCell>
                   <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Status</TableCell>
                   <TableCell sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Actions</TableCell>
@@ -34,35 +103,96 @@ export function ExportHistoryCard({ audienceId, onDownload }: ExportHistoryCardP
               <TableBody>
                 {exports.map((exp) => (
                   <TableRow key={exp.id}>
-                    <TableCell sx={{ fontSize: '0.8125rem' }}>{exp.export_type.toUpperCase()}</TableCell>
-                    <TableCell sx={{ fontSize: '0.8125rem' }}>—</TableCell>
+                    <TableCell sx={{ fontSize: '0.8125rem' }}>
+                      {exp.destination
+                        ? `Push · ${destinationLabel(exp.destination)}`
+                        : exp.activation_target === 'h3' && exp.export_type === 'geojson'
+                        ? 'JSON'
+                        : exp.export_type === 'html' || exp.export_type === 'pdf'
+                        ? `${exp.export_type.toUpperCase()} report`
+                        : exp.export_type.toUpperCase()}
+                      {exp.schedule_id && (
+                        <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', display: 'block' }}>
+                          Scheduled
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell sx={{ fontSize: '0.8125rem' }}>
+                      {exp.destination && exp.activation_target !== 'h3'
+                        ? `${exp.activation_target === 'geo_list' ? 'Geo list' : 'Postcodes'}${exp.row_count != null ? ` · ${exp.row_count.toLocaleString()}` : ''}`
+                        : exp.activation_target === 'h3'
+                        ? `H3 r${exp.h3_resolution}${exp.row_count != null ? ` · ${exp.row_count.toLocaleString()} cells` : ''}`
+                        : exp.activation_target
+                        ? `${exp.activation_target === 'geojson' ? 'GeoJSON' : 'Areas'}${exp.row_count != null ? ` · ${exp.row_count.toLocaleString()}` : ''}`
+                        : '—'}
+                    </TableCell>
+                    <TableCell sx={{ fontSize: '0.8125rem' }}>
+                      {exp.snapshot_id && versionBySnapshotId.has(exp.snapshot_id)
+                        ? `v${versionBySnapshotId.get(exp.snapshot_id)}`
+                        : '—'}
+                    </TableCell>
                     <TableCell sx={{ fontSize: '0.8125rem' }}>
                       {new Date(exp.created_at).toLocaleString()}
                     </TableCell>
                     <TableCell>
-                      <Typography
-                        variant="caption"
-                        sx={{
-                          fontSize: '0.7rem',
-                          px: 1,
-                          py: 0.25,
-                          borderRadius: 1,
-                          bgcolor: '#e8f5e9',
-                          color: '#2e7d32',
-                        }}
-                      >
-                        Ready
-                      </Typography>
+                      {isExportJobActive(exp) && !isExportJobStale(exp) ? (
+                        <Box sx={{ minWidth: 140 }}>
+                          <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', display: 'block' }}>
+                            {exp.status === 'queued' ? 'Queued' : exp.progress_message || 'Running'} · {exp.progress}%
+                          </Typography>
+                          <LinearProgress
+                            variant={exp.status === 'queued' ? 'indeterminate' : 'determinate'}
+                            value={exp.progress}
+                            sx={{ height: 4, borderRadius: 2, bgcolor: 'rgba(2, 181, 231, 0.15)', '& .MuiLinearProgress-bar': { bgcolor: '#02b5e7' } }}
+                          />
+                        </Box>
+                      ) : (
+                        <Tooltip title={statusDetail(exp)}>
+                          <Typography
+                            variant="caption"
+                            sx={{
+                              fontSize: '0.7rem',
+                              px: 1,
+                              py: 0.25,
+                              borderRadius: 1,
+                              bgcolor: statusStyle(exp).bg,
+                              color: statusStyle(exp).fg,
+                            }}
+                          >
+                            {statusStyle(exp).label}
+                            {exp.attempts > 1 ? ` · attempt ${exp.attempts}` : ''}
+                          </Typography>
+                        </Tooltip>
+                      )}
+                      {exp.district_change && (
+                        <DistrictChangeLabel change={exp.district_change as unknown as DistrictChange} />
+                      )}
                     </TableCell>
                     <TableCell>
-                      <Button
-                        size="small"
-                        startIcon={<Download />}
-                        onClick={() => onDownload(exp.storage_path)}
-                        sx={{ fontSize: '0.75rem' }}
-                      >
-                        Download
-                      </Button>
+                      {exp.storage_path ? (
+                        <Button
+                          size="small"
+                          startIcon={<Download />}
+                          onClick={() => onDownload(exp.storage_path!)}
+                          sx={{ fontSize: '0.75rem' }}
+                        >
+                          Download
+                        </Button>
+                      ) : canRetryExportJob(exp) ? (
+                        <Button
+                          size="small"
+                          startIcon={<Replay />}
+                          disabled={retryExport.isPending && retryExport.variables === exp.id}
+                          onClick={() =>
+                            retryExport.mutate(exp.id, {
+                              onError: (error) => alert(error instanceof Error ? error.message : 'Retry failed. Please try again.'),
+                            })
+                          }
+                          sx={{ fontSize: '0.75rem' }}
+                        >
+                          Retry
+                        </Button>
+                      ) : null}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -0,0 +1,438 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Button,
+  IconButton,
+  Switch,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import { Add, Delete, Edit, PlayArrow } from '@mui/icons-material';
+import { format } from 'date-fns';
+import {
+  useExportSchedules,
+  useSaveExportSchedule,
+  useToggleExportSchedule,
+  useDeleteExportSchedule,
+  useRunExportSchedule,
+} from '@/features/audience-builder/hooks/useExportSchedules';
+import { useExports } from '@/features/audience-builder/hooks/useExports';
+import { ExportSchedule, ExportScheduleInput } from '@/features/audience-builder/api/exportSchedules';
+import {
+  DEFAULT_CHANGE_THRESHOLD_PCT,
+  DistrictChange,
+  EXPORT_SCHEDULE_CADENCES,
+  ExportScheduleCadence,
+} from '@/features/audience-builder/utils/exportSchedules';
+import { DEFAULT_H3_ACTIVATION_RESOLUTION, H3_ACTIVATION_RESOLUTIONS } from '@/features/audience-builder/utils/h3Activation';
+import { getAllConnectors, getConnector, isPlatformKey } from '@/features/audience-builder/connectors/registry';
+import { PushPayloadFormat, PUSH_PAYLOAD_FORMATS } from '@/features/audience-builder/connectors/types';
+
+interface ExportSchedulesCardProps {
+  audienceId: string;
+}
+
+const headerCellSx = { fontSize: '0.75rem', fontWeight: 600 };
+const cellSx = { fontSize: '0.8125rem' };
+const fieldSx = { fontSize: '0.8125rem' };
+
+// File formats a schedule can write (export type + activation target)
+const FILE_FORMATS: Record<string, { label: string; exportType: ExportSchedule['export_type']; activationTarget: ExportSchedule['activation_target'] }> = {
+  csv: { label: 'CSV (areas)', exportType: 'csv', activationTarget: 'postcode_sector' },
+  xlsx: { label: 'XLSX planning workbook', exportType: 'xlsx', activationTarget: 'postcode_sector' },
+  html: { label: 'Planning report (HTML)', exportType: 'html', activationTarget: 'postcode_sector' },
+  pdf: { label: 'Planning report (PDF)', exportType: 'pdf', activationTarget: 'postcode_sector' },
+  geojson: { label: 'GeoJSON', exportType: 'geojson', activationTarget: 'geojson' },
+  h3_csv: { label: 'H3 cells (CSV)', exportType: 'csv', activationTarget: 'h3' },
+  h3_json: { label: 'H3 cells (JSON)', exportType: 'geojson', activationTarget: 'h3' },
+};
+
+function fileFormatKey(schedule: Pick<ExportSchedule, 'export_type' | 'activation_target'>): string {
+  if (schedule.activation_target === 'h3') return schedule.export_type === 'csv' ? 'h3_csv' : 'h3_json';
+  if (schedule.export_type === 'xlsx' || schedule.export_type === 'html' || schedule.export_type === 'pdf') {
+    return schedule.export_type;
+  }
+  return schedule.activation_target === 'geojson' ? 'geojson' : 'csv';
+}
+
+function describeOutput(schedule: ExportSchedule): string {
+  if (schedule.destination) {
+    const label = getConnector(schedule.destination).getMetadata().label;
+    const payload = schedule.payload_format ? PUSH_PAYLOAD_FORMATS[schedule.payload_format].label : 'default payload';
+    return `Push · ${label} · ${payload}`;
+  }
+  return FILE_FORMATS[fileFormatKey(schedule)].label;
+}
+
+function toLocalInputValue(iso: string): string {
+  return format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+}
+
+function emptyInput(): ExportScheduleInput {
+  const firstRun = new Date();
+  firstRun.setHours(firstRun.getHours() + 1, 0, 0, 0);
+  return {
+    cadence: 'weekly',
+    export_type: 'csv',
+    activation_target: 'postcode_sector',
+    h3_resolution: null,
+    destination: null,
+    payload_format: null,
+    change_threshold_pct: DEFAULT_CHANGE_THRESHOLD_PCT,
+    is_enabled: true,
+    next_run_at: firstRun.toISOString(),
+  };
+}
+
+function toInput(schedule: ExportSchedule): ExportScheduleInput {
+  const { cadence, export_type, activation_target, h3_resolution, destination, payload_format, change_threshold_pct, is_enabled, next_run_at } = schedule;
+  return { cadence, export_type, activation_target, h3_resolution, destination, payload_format, change_threshold_pct, is_enabled, next_run_at };
+}
+
+export function ExportSchedulesCard({ audienceId }: ExportSchedulesCardProps) {
+  const { data: schedules = [], isLoading } = useExportSchedules(audienceId);
+  const { data: exports = [] } = useExports(audienceId);
+  const saveSchedule = useSaveExportSchedule(audienceId);
+  const toggleSchedule = useToggleExportSchedule(audienceId);
+  const deleteSchedule = useDeleteExportSchedule(audienceId);
+  const runSchedule = useRunExportSchedule(audienceId);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<ExportScheduleInput>(emptyInput);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [runMessage, setRunMessage] = useState<{ severity: 'success' | 'info' | 'error'; text: string } | null>(null);
+
+  const changeByExportId = new Map(
+    exports.filter((e) => e.district_change).map((e) => [e.id, e.district_change as unknown as DistrictChange])
+  );
+
+  const openDialog = (schedule?: ExportSchedule) => {
+    setEditingId(schedule?.id || null);
+    setForm(schedule ? toInput(schedule) : emptyInput());
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const updateForm = (updates: Partial<ExportScheduleInput>) => setForm((prev) => ({ ...prev, ...updates }));
+
+  const usesH3 = form.destination ? form.payload_format === 'h3' : form.activation_target === 'h3';
+  const destinationFormats = form.destination ? getConnector(form.destination).getMetadata().supportedFormats : [];
+
+  const handleSave = async () => {
+    setFormError(null);
+    try {
+      await saveSchedule.mutateAsync({
+        id: editingId || undefined,
+        input: {
+          ...form,
+          h3_resolution: usesH3 ? form.h3_resolution ?? DEFAULT_H3_ACTIVATION_RESOLUTION : null,
+        },
+      });
+      setDialogOpen(false);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save schedule');
+    }
+  };
+
+  const handleRun = async (schedule: ExportSchedule) => {
+    setRunMessage(null);
+    try {
+      const run = await runSchedule.mutateAsync(schedule.id);
+      setRunMessage(
+        run.status === 'succeeded'
+          ? { severity: 'success', text: 'Scheduled export ran. The result is in the export history.' }
+          : run.status === 'skipped'
+          ? { severity: 'info', text: 'This schedule is already running. The result will appear in the export history.' }
+          : { severity: 'error', text: `Scheduled export failed: ${run.message || 'unknown error'}` }
+      );
+    } catch (error) {
+      setRunMessage({ severity: 'error', text: error instanceof Error ? error.message : 'Scheduled export failed' });
+    }
+  };
+
+  const handleDelete = (schedule: ExportSchedule) => {
+    if (!confirm('Delete this schedule? Exports it already produced stay in the history.')) return;
+    deleteSchedule.mutate(schedule.id);
+  };
+
+  return (
+    <Card sx={{ boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)' }}>
+      <CardContent sx={{ p: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>
+            Re-run this audience with its saved settings and flag runs where the district list changed.
+          </Typography>
+          <Button
+            size="small"
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => openDialog()}
+            sx={{ fontSize: '0.75rem', bgcolor: '#02b5e7', '&:hover': { bgcolor: '#02a0d0' } }}
+          >
+            Add schedule
+          </Button>
+        </Box>
+
+        {runMessage && (
+          <Alert severity={runMessage.severity} onClose={() => setRunMessage(null)} sx={{ mb: 1.5, fontSize: '0.8125rem' }}>
+            {runMessage.text}
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : schedules.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem', textAlign: 'center', py: 4 }}>
+            No schedules. Add one to export or push this audience on a regular cadence.
+          </Typography>
+        ) : (
+          <TableContainer component={Paper} sx={{ boxShadow: 'none' }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={headerCellSx}>Cadence</TableCell>
+                  <TableCell sx={headerCellSx}>Output</TableCell>
+                  <TableCell sx={headerCellSx}>Next run</TableCell>
+                  <TableCell sx={headerCellSx}>Last run</TableCell>
+                  <TableCell sx={headerCellSx}>Enabled</TableCell>
+                  <TableCell sx={headerCellSx} align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {schedules.map((schedule) => {
+                  const lastChange = schedule.last_export_id ? changeByExportId.get(schedule.last_export_id) : undefined;
+                  return (
+                    <TableRow key={schedule.id}>
+                      <TableCell sx={cellSx}>{EXPORT_SCHEDULE_CADENCES[schedule.cadence]}</TableCell>
+                      <TableCell sx={cellSx}>
+                        {describeOutput(schedule)}
+                        {(schedule.activation_target === 'h3' || schedule.payload_format === 'h3') && schedule.h3_resolution
+                          ? ` · r${schedule.h3_resolution}`
+                          : ''}
+                      </TableCell>
+                      <TableCell sx={cellSx}>
+                        {schedule.is_enabled ? format(new Date(schedule.next_run_at), 'd MMM yyyy HH:mm') : '—'}
+                      </TableCell>
+                      <TableCell sx={cellSx}>
+                        {schedule.last_run_at ? (
+                          <Box>
+                            {format(new Date(schedule.last_run_at), 'd MMM yyyy HH:mm')}
+                            {schedule.last_error ? (
+                              <Tooltip title={schedule.last_error}>
+                                <Typography variant="caption" sx={{ display: 'block', fontSize: '0.7rem', color: '#c62828' }}>
+                                  Failed
+                                </Typography>
+                              </Tooltip>
+                            ) : lastChange?.material ? (
+                              <Typography variant="caption" sx={{ display: 'block', fontSize: '0.7rem', color: '#e65100' }}>
+                                Districts changed {lastChange.changed_pct}%
+                              </Typography>
+                            ) : null}
+                          </Box>
+                        ) : (
+                          'Never'
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          size="small"
+                          checked={schedule.is_enabled}
+                          onChange={(e) => toggleSchedule.mutate({ id: schedule.id, isEnabled: e.target.checked })}
+                        />
+                      </TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        <Tooltip title="Run now">
+                          <span>
+                            <IconButton
+                              size="small"
+                              onClick={() => handleRun(schedule)}
+                              disabled={runSchedule.isPending}
+                            >
+                              {runSchedule.isPending && runSchedule.variables === schedule.id ? (
+                                <CircularProgress size={16} />
+                              ) : (
+                                <PlayArrow fontSize="small" />
+                              )}
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title="Edit">
+                          <IconButton size="small" onClick={() => openDialog(schedule)}>
+                            <Edit fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Delete">
+                          <IconButton size="small" onClick={() => handleDelete(schedule)}>
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle sx={{ fontSize: '1.125rem', fontWeight: 600 }}>
+          {editingId ? 'Edit schedule' : 'Add schedule'}
+        </DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            {formError && <Alert severity="error" sx={fieldSx}>{formError}</Alert>}
+            <FormControl size="small" fullWidth>
+              <InputLabel sx={fieldSx}>Cadence</InputLabel>
+              <Select
+                value={form.cadence}
+                label="Cadence"
+                onChange={(e) => updateForm({ cadence: e.target.value as ExportScheduleCadence })}
+                sx={fieldSx}
+              >
+                {Object.entries(EXPORT_SCHEDULE_CADENCES).map(([value, label]) => (
+                  <MenuItem key={value} value={value} sx={fieldSx}>{label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              size="small"
+              type="datetime-local"
+              label={editingId ? 'Next run' : 'First run'}
+              value={toLocalInputValue(form.next_run_at)}
+              onChange={(e) => {
+                if (e.target.value) updateForm({ next_run_at: new Date(e.target.value).toISOString() });
+              }}
+              InputLabelProps={{ shrink: true }}
+              inputProps={{ style: fieldSx }}
+            />
+            <FormControl size="small" fullWidth>
+              <InputLabel shrink sx={fieldSx}>Delivery</InputLabel>
+              <Select
+                value={form.destination || ''}
+                label="Delivery"
+                notched
+                displayEmpty
+                onChange={(e) => {
+                  const value = e.target.value;
+                  updateForm({ destination: isPlatformKey(value) ? value : null, payload_format: null });
+                }}
+                sx={fieldSx}
+              >
+                <MenuItem value="" sx={fieldSx}>Export file only</MenuItem>
+                {getAllConnectors().map((connector) => {
+                  const metadata = connector.getMetadata();
+                  return (
+                    <MenuItem key={metadata.key} value={metadata.key} sx={fieldSx}>
+                      Push to {metadata.label}
+                    </MenuItem>
+                  );
+                })}
+              </Select>
+            </FormControl>
+            {form.destination ? (
+              <FormControl size="small" fullWidth>
+                <InputLabel shrink sx={fieldSx}>Payload</InputLabel>
+                <Select
+                  value={form.payload_format || ''}
+                  label="Payload"
+                  notched
+                  displayEmpty
+                  onChange={(e) => updateForm({ payload_format: (e.target.value || null) as PushPayloadFormat | null })}
+                  sx={fieldSx}
+                >
+                  <MenuItem value="" sx={fieldSx}>Connection default</MenuItem>
+                  {destinationFormats.map((payloadFormat) => (
+                    <MenuItem key={payloadFormat} value={payloadFormat} sx={fieldSx}>
+                      {PUSH_PAYLOAD_FORMATS[payloadFormat].label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            ) : (
+              <FormControl size="small" fullWidth>
+                <InputLabel sx={fieldSx}>File format</InputLabel>
+                <Select
+                  value={fileFormatKey(form)}
+                  label="File format"
+                  onChange={(e) => {
+                    const fileFormat = FILE_FORMATS[e.target.value];
+                    updateForm({ export_type: fileFormat.exportType, activation_target: fileFormat.activationTarget });
+                  }}
+                  sx={fieldSx}
+                >
+                  {Object.entries(FILE_FORMATS).map(([value, { label }]) => (
+                    <MenuItem key={value} value={value} sx={fieldSx}>{label}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+            {usesH3 && (
+              <FormControl size="small" fullWidth>
+                <InputLabel sx={fieldSx}>H3 resolution</InputLabel>
+                <Select
+                  value={form.h3_resolution ?? DEFAULT_H3_ACTIVATION_RESOLUTION}
+                  label="H3 resolution"
+                  onChange={(e) => updateForm({ h3_resolution: Number(e.target.value) })}
+                  sx={fieldSx}
+                >
+                  {H3_ACTIVATION_RESOLUTIONS.map((resolution) => (
+                    <MenuItem key={resolution} value={resolution} sx={fieldSx}>{resolution}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+            <TextField
+              size="small"
+              type="number"
+              label="Flag district changes above (%)"
+              value={form.change_threshold_pct}
+              onChange={(e) => updateForm({ change_threshold_pct: Math.max(0, Number(e.target.value) || 0) })}
+              helperText="Districts added plus removed, as a share of the previous run"
+              inputProps={{ min: 0, step: 1, style: fieldSx }}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)} sx={{ fontSize: '0.8125rem' }}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={saveSchedule.isPending}
+            sx={{ fontSize: '0.8125rem', bgcolor: '#02b5e7', '&:hover': { bgcolor: '#02a0d0' } }}
+          >
+            {saveSchedule.isPending ? 'Saving…' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+}
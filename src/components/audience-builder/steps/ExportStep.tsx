@@ -5,9 +5,15 @@ import { useState, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { useQueryClient } from '@tanstack/react-query';
 import { useExportContext } from './hooks/useExportContext';
+import { useExportJobCompletion } from '@/features/audience-builder/hooks/useExports';
 import { ExportSummaryCard } from './ExportSummaryCard';
 import { ExportActionsCard } from './ExportActionsCard';
 import { ExportHistoryCard } from './ExportHistoryCard';
+import { ExportSchedulesCard } from './ExportSchedulesCard';
+import { BudgetAllocationCard } from './BudgetAllocationCard';
+import { VersionHistoryCard } from './VersionHistoryCard';
+import { DEFAULT_H3_ACTIVATION_RESOLUTION } from '@/features/audience-builder/utils/h3Activation';
+import { PushPayloadFormat } from '@/features/audience-builder/connectors/types';
 
 interface ExportStepProps {
   audienceId: string;
@@ -18,28 +24,34 @@ export function ExportStep({ audienceId, onBack }: ExportStepProps) {
   const router = useRouter();
   const { context, isLoading } = useExportContext(audienceId);
   const queryClient = useQueryClient();
-  const [activationTarget, setActivationTarget] = useState<'districts' | 'h3' | 'geojson'>('h3');
+  const [activationTarget, setActivationTarget] = useState<'districts' | 'h3' | 'geojson'>('districts');
   const [isExporting, setIsExporting] = useState(false);
   const [isLoadingPreview, setIsLoadingPreview] = useState(false);
   const [previewData, setPreviewData] = useState<any>(null);
-  const [previewType, setPreviewType] = useState<'csv' | 'geojson' | null>(null);
+  const [previewType, setPreviewType] = useState<'csv' | 'geojson' | 'xlsx' | 'html' | 'pdf' | null>(null);
   const [exportMethod, setExportMethod] = useState<'download' | 'push'>('download');
   const [selectedPlatform, setSelectedPlatform] = useState<'magnite' | 'ttd' | 'dv360' | 'liveramp' | null>(null);
-  const [selectedExportFormat, setSelectedExportFormat] = useState<'csv' | 'geojson' | 'h3'>('csv');
+  const [pushPayloadFormat, setPushPayloadFormat] = useState<PushPayloadFormat | null>(null);
+  const [selectedExportFormat, setSelectedExportFormat] = useState<'csv' | 'geojson' | 'h3' | 'xlsx' | 'report'>('csv');
+  const [h3FileFormat, setH3FileFormat] = useState<'csv' | 'geojson'>('csv');
+  const [reportFormat, setReportFormat] = useState<'html' | 'pdf'>('pdf');
+  const [h3Resolution, setH3Resolution] = useState(DEFAULT_H3_ACTIVATION_RESOLUTION);
+  const [h3Summary, setH3Summary] = useState<{ resolution: number; cellCount: number } | null>(null);
   const [snackbarOpen, setSnackbarOpen] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
+  const [readyExportPath, setReadyExportPath] = useState<string | null>(null);
 
   // Scroll-to-section behavior
   const summaryRef = useRef<HTMLDivElement>(null);
   const actionsRef = useRef<HTMLDivElement>(null);
   const historyRef = useRef<HTMLDivElement>(null);
 
-  const handleExport = async (type: 'csv' | 'geojson' | 'h3') => {
+  const handleExport = async (type: 'csv' | 'geojson' | 'h3' | 'xlsx' | 'report') => {
     if (!context) return;
     
     setIsExporting(true);
-    // For H3, we export as geojson format but with h3 activation target
-    const exportType = type === 'h3' ? 'geojson' : type;
+    // For H3, the file is the chosen H3 cell list format with the h3 activation target
+    const exportType = type === 'h3' ? h3FileFormat : type === 'report' ? reportFormat : type;
     const targetActivationTarget = type === 'h3' ? 'h3' : type === 'geojson' ? 'geojson' : 'postcode_sector';
     
     try {
@@ -50,9 +62,12 @@ export function ExportStep({ audienceId, onBack }: ExportStepProps) {
           audienceId,
           exportType: exportType,
           activationTarget: targetActivationTarget,
+          h3Resolution: type === 'h3' ? h3Resolution : undefined,
           recommendedThreshold: 50,
-          validationMinAgreement: context.mode === 'validation' ? 1 : undefined,
           includedSegmentKeys: context.selectedSegments.map(s => s.segment_key),
+          segmentKey: context.anchorSegmentKey || undefined,
+          resolution: context.resolutionInput || undefined,
+          expectedChecksum: context.districtChecksum || undefined,
         }),
       });
 
@@ -63,13 +78,13 @@ export function ExportStep({ audienceId, onBack }: ExportStepProps) {
 
       const result = await response.json();
 
-      // Invalidate exports query to refresh list
-      queryClient.invalidateQueries({ queryKey: ['exports', audienceId] });
-
-      // Trigger download
+      // The export is generated as a job; offer the download once it succeeds
       if (result.export) {
-        handleDownload(result.export.storage_path);
+        watchExportJob(result.export.id);
       }
+      queryClient.invalidateQueries({ queryKey: ['exports', audienceId] });
+      setSnackbarMessage('Export started. You can download it when it is ready.');
+      setSnackbarOpen(true);
     } catch (error) {
       console.error('Export error:', error);
       setSnackbarMessage(error instanceof Error ? error.message : 'Export failed. Please try again.');
@@ -79,6 +94,25 @@ export function ExportStep({ audienceId, onBack }: ExportStepProps) {
     }
   };
 
+  const watchExportJob = useExportJobCompletion(audienceId, {
+    onSucceeded: (job) => {
+      queryClient.invalidateQueries({ queryKey: ['audience_snapshots', audienceId] });
+      if (job.activation_target === 'h3' && job.h3_resolution != null && job.row_count != null) {
+        setH3Summary({ resolution: job.h3_resolution, cellCount: job.row_count });
+      }
+      // Browsers block downloads started from a polling callback, so wait for a click
+      if (job.storage_path) {
+        setSnackbarOpen(false);
+        setReadyExportPath(job.storage_path);
+      }
+    },
+    onFailed: (job) => {
+      queryClient.invalidateQueries({ queryKey: ['audience_snapshots', audienceId] });
+      setSnackbarMessage(`Export failed: ${job.error_detail || 'unknown error'}. You can retry it from History.`);
+      setSnackbarOpen(true);
+    },
+  });
+
   const handleDownload = async (storagePath: string) => {
     try {
       const response = await fetch(`/api/exports/download?path=${encodeURIComponent(storagePath)}`);
@@ -86,7 +120,13 @@ export function ExportStep({ audienceId, onBack }: ExportStepProps) {
         throw new Error('Failed to generate download URL');
       }
       const { url } = await response.json();
-      window.open(url, '_blank');
+      // Same-tab anchor download: not treated as a popup, and the URL is served as an attachment
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = '';
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
     } catch (error) {
       console.error('Download error:', error);
       setSnackbarMessage('Download failed. Please try again.');
@@ -94,12 +134,12 @@ export function ExportStep({ audienceId, onBack }: ExportStepProps) {
     }
   };
 
-  const handlePreview = async (type: 'csv' | 'geojson' | 'h3') => {
+  const handlePreview = async (type: 'csv' | 'geojson' | 'h3' | 'xlsx' | 'report') => {
     if (!context) return;
     
     setIsLoadingPreview(true);
-    // For H3, we preview as geojson format but with h3 activation target
-    const exportType = type === 'h3' ? 'geojson' : type;
+    // For H3, the file is the chosen H3 cell list format with the h3 activation target
+    const exportType = type === 'h3' ? h3FileFormat : type === 'report' ? reportFormat : type;
     const targetActivationTarget = type === 'h3' ? 'h3' : type === 'geojson' ? 'geojson' : 'postcode_sector';
     setPreviewType(exportType);
     try {
@@ -110,9 +150,12 @@ export function ExportStep({ audienceId, onBack }: ExportStepProps) {
           audienceId,
           exportType: exportType,
           activationTarget: targetActivationTarget,
+          h3Resolution: type === 'h3' ? h3Resolution : undefined,
           recommendedThreshold: 50,
-          validationMinAgreement: context.mode === 'validation' ? 1 : undefined,
           includedSegmentKeys: context.selectedSegments.map(s => s.segment_key),
+          segmentKey: context.anchorSegmentKey || undefined,
+          resolution: context.resolutionInput || undefined,
+          expectedChecksum: context.districtChecksum || undefined,
           preview: true,
         }),
       });
@@ -124,6 +167,12 @@ export function ExportStep({ audienceId, onBack }: ExportStepProps) {
 
       const result = await response.json();
       setPreviewData(result.preview);
+      if (result.preview?.metadata?.h3) {
+        setH3Summary({
+          resolution: result.preview.metadata.h3.resolution,
+          cellCount: result.preview.metadata.h3.cell_count,
+        });
+      }
     } catch (error) {
       console.error('Preview error:', error);
       setSnackbarMessage(error instanceof Error ? error.message : 'Preview failed. Please try again.');
@@ -138,9 +187,49 @@ export function ExportStep({ audienceId, onBack }: ExportStepProps) {
       // Trigger export with selected format
       await handleExport(selectedExportFormat);
     } else if (exportMethod === 'push') {
-      // Show demo message
-      setSnackbarMessage('Demo: push simulated');
+      await handlePush();
+    }
+  };
+
+  const handlePush = async () => {
+    if (!context || !selectedPlatform) return;
+
+    setIsExporting(true);
+    try {
+      const response = await fetch('/api/exports/push', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          audienceId,
+          platform: selectedPlatform,
+          payloadFormat: pushPayloadFormat || undefined, // Connection default when unset
+          h3Resolution, // Only used for H3 payloads
+          resolution: context.resolutionInput || undefined,
+          expectedChecksum: context.districtChecksum || undefined,
+        }),
+      });
+
+      const result = await response.json();
+
+      // A failed delivery still records an export with its delivery log
+      queryClient.invalidateQueries({ queryKey: ['exports', audienceId] });
+      queryClient.invalidateQueries({ queryKey: ['audience_snapshots', audienceId] });
+
+      if (!result.delivery) {
+        throw new Error(result.error || 'Push failed');
+      }
+      setSnackbarMessage(
+        result.delivery.status === 'delivered'
+          ? result.delivery.message || 'Pushed to platform'
+          : `Push failed: ${result.delivery.message || 'platform did not accept the audience'}`
+      );
+      setSnackbarOpen(true);
+    } catch (error) {
+      console.error('Push error:', error);
+      setSnackbarMessage(error instanceof Error ? `Push failed: ${error.message}` : 'Push failed. Please try again.');
       setSnackbarOpen(true);
+    } finally {
+      setIsExporting(false);
     }
   };
 
@@ -173,10 +262,19 @@ export function ExportStep({ audienceId, onBack }: ExportStepProps) {
             context={context} 
             activationTarget={exportMethod === 'download' ? activationTarget : undefined}
             exportMethod={exportMethod}
+            h3Summary={h3Summary && h3Summary.resolution === h3Resolution ? h3Summary : null}
           />
         </div>
       </Box>
 
+      {/* Budget Allocation */}
+      <Box id="budget-allocation" sx={{ mb: 3, scrollMarginTop: '80px' }}>
+        <Typography variant="h6" sx={{ fontWeight: 600, fontSize: '1rem', mb: 1 }}>
+          Budget allocation
+        </Typography>
+        <BudgetAllocationCard context={context} />
+      </Box>
+
       {/* Export Actions */}
       <Box id="export-actions" sx={{ mb: 3, scrollMarginTop: '80px' }}>
         <Typography variant="h6" sx={{ fontWeight: 600, fontSize: '1rem', mb: 1 }}>
@@ -196,12 +294,35 @@ export function ExportStep({ audienceId, onBack }: ExportStepProps) {
             exportMethod={exportMethod}
             onExportMethodChange={setExportMethod}
             selectedPlatform={selectedPlatform}
-            onSelectedPlatformChange={setSelectedPlatform}
-            onExportFormatChange={setSelectedExportFormat}
+            onSelectedPlatformChange={(platform) => {
+              setSelectedPlatform(platform);
+              setPushPayloadFormat(null);
+            }}
+            clientId={context.clientId}
+            pushPayloadFormat={pushPayloadFormat}
+            onPushPayloadFormatChange={setPushPayloadFormat}
+            onExportFormatChange={(format) => {
+              setSelectedExportFormat(format);
+              setActivationTarget(format === 'h3' ? 'h3' : format === 'geojson' ? 'geojson' : 'districts');
+            }}
+            h3FileFormat={h3FileFormat}
+            onH3FileFormatChange={setH3FileFormat}
+            reportFormat={reportFormat}
+            onReportFormatChange={setReportFormat}
+            h3Resolution={h3Resolution}
+            onH3ResolutionChange={setH3Resolution}
           />
         </div>
       </Box>
 
+      {/* Scheduled Exports */}
+      <Box id="export-schedules" sx={{ mb: 3, scrollMarginTop: '80px' }}>
+        <Typography variant="h6" sx={{ fontWeight: 600, fontSize: '1rem', mb: 1 }}>
+          Schedules
+        </Typography>
+        <ExportSchedulesCard audienceId={audienceId} />
+      </Box>
+
       {/* Export History */}
       <Box id="export-history" sx={{ scrollMarginTop: '80px' }}>
         <Typography variant="h6" sx={{ fontWeight: 600, fontSize: '1rem', mb: 1 }}>
@@ -212,6 +333,20 @@ export function ExportStep({ audienceId, onBack }: ExportStepProps) {
         </div>
       </Box>
 
+      {/* Version History */}
+      <Box id="version-history" sx={{ mt: 3, scrollMarginTop: '80px' }}>
+        <Typography variant="h6" sx={{ fontWeight: 600, fontSize: '1rem', mb: 1 }}>
+          Versions
+        </Typography>
+        <VersionHistoryCard
+          audienceId={audienceId}
+          onRestored={(version) => {
+            setSnackbarMessage(`Restored version ${version}`);
+            setSnackbarOpen(true);
+          }}
+        />
+      </Box>
+
       {/* Footer Actions */}
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 4, pt: 3, borderTop: '1px solid #e0e0e0' }}>
         <Button
@@ -258,6 +393,39 @@ export function ExportStep({ audienceId, onBack }: ExportStepProps) {
           {snackbarMessage}
         </Alert>
       </Snackbar>
+
+      {/* Finished export, downloaded on click */}
+      <Snackbar
+        open={readyExportPath !== null}
+        onClose={(_, reason) => {
+          if (reason !== 'clickaway') setReadyExportPath(null);
+        }}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert
+          severity="success"
+          action={
+            <>
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => {
+                  if (readyExportPath) handleDownload(readyExportPath);
+                  setReadyExportPath(null);
+                }}
+              >
+                Download
+              </Button>
+              <Button color="inherit" size="small" onClick={() => setReadyExportPath(null)}>
+                Dismiss
+              </Button>
+            </>
+          }
+          sx={{ width: '100%' }}
+        >
+          Export ready.
+        </Alert>
+      </Snackbar>
     </Box>
   );
 }
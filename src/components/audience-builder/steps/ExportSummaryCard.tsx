@@ -9,9 +9,10 @@ interface ExportSummaryCardProps {
   context: ExportContext;
   activationTarget?: 'districts' | 'h3' | 'geojson';
   exportMethod?: 'download' | 'push';
+  h3Summary?: { resolution: number; cellCount: number } | null; // From the last H3 export or preview
 }
 
-export function ExportSummaryCard({ context, activationTarget, exportMethod }: ExportSummaryCardProps) {
+export function ExportSummaryCard({ context, activationTarget, exportMethod, h3Summary }: ExportSummaryCardProps) {
   const isExtension = context.mode === 'extension';
   const hasOverlap = context.providers.some(p => p.overlapPercent !== undefined);
 
@@ -81,6 +82,20 @@ export function ExportSummaryCard({ context, activationTarget, exportMethod }: E
                   {context.thresholdLabel}
                 </Typography>
               </Grid>
+              {context.districtChecksum && (
+                <Grid item xs={6}>
+                  <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', display: 'block', mb: 0.5 }}>
+                    District checksum
+                  </Typography>
+                  <Typography
+                    variant="body2"
+                    title={context.districtChecksum}
+                    sx={{ fontSize: '0.75rem', fontFamily: 'monospace' }}
+                  >
+                    {context.districtChecksum.slice(0, 12)}
+                  </Typography>
+                </Grid>
+              )}
               {exportMethod === 'download' && activationTarget && (
                 <Grid item xs={6}>
                   <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', display: 'block', mb: 0.5 }}>
@@ -93,6 +108,16 @@ export function ExportSummaryCard({ context, activationTarget, exportMethod }: E
                   />
                 </Grid>
               )}
+              {exportMethod === 'download' && activationTarget === 'h3' && h3Summary && (
+                <Grid item xs={6}>
+                  <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', display: 'block', mb: 0.5 }}>
+                    H3 cells (res {h3Summary.resolution})
+                  </Typography>
+                  <Typography variant="body2" sx={{ fontSize: '0.8125rem', fontWeight: 500 }}>
+                    {h3Summary.cellCount.toLocaleString()}
+                  </Typography>
+                </Grid>
+              )}
             </Grid>
           </Grid>
 
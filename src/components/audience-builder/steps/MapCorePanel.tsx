@@ -1,14 +1,40 @@
 'use client';
 
 import React from 'react';
-import { Box, Card, Typography, Slider, Chip, Divider } from '@mui/material';
+import { Box, Card, Typography, Slider, Chip, Divider, ToggleButton, ToggleButtonGroup } from '@mui/material';
+import { AgreementScoring } from '@/features/audience-builder/api/validationResults';
+import { GeoResolution, ValidationAgreementMode } from '@/features/audience-builder/types/signals';
 import { TvRegionFilter } from './TvRegionFilter';
 
+const WEIGHTED_SCORE_MARKS = [0, 0.25, 0.5, 0.75, 1].map((value) => ({
+  value,
+  label: `${Math.round(value * 100)}%`,
+}));
+
+/**
+ * Describe the inclusion rule for the current agreement mode and scoring
+ */
+function describeAgreementRule(props: ValidationCoreProps): string {
+  const providersCount = props.validatingProvidersCount || props.maxSliderValue;
+  if (props.agreementMode === 'unanimous') {
+    return `All ${providersCount} providers must agree`;
+  }
+  if (props.agreementMode === 'majority') {
+    return props.scoring === 'weighted'
+      ? 'Agreeing providers hold more than half of trust weight'
+      : `Most providers must agree (${props.requiredAgreement ?? Math.floor(providersCount / 2) + 1} of ${providersCount})`;
+  }
+  return props.scoring === 'weighted'
+    ? `Agreeing providers hold at least ${Math.round(props.weightedScoreDraft * 100)}% of trust weight`
+    : `${props.sliderDraft} of ${providersCount} providers`;
+}
+
 interface ValidationCoreProps {
   mode: 'validation';
   // Metrics
   audienceSize: number;
   districtsIncluded: number;
+  sectorsIncluded?: number; // Sector resolution
   // Slider
   sliderDraft: number;
   sliderApplied: number;
@@ -17,6 +43,19 @@ interface ValidationCoreProps {
   validationLoading: boolean;
   onSliderChange: (event: Event | React.SyntheticEvent, value: number | number[]) => void;
   onSliderChangeCommitted: (event: Event | React.SyntheticEvent, value: number | number[]) => void;
+  // Agreement scoring: count (slider = providers) or weighted (slider = share of trust weight)
+  scoring: AgreementScoring;
+  onScoringChange: (scoring: AgreementScoring) => void;
+  weightedScoreDraft: number;
+  onWeightedScoreChange: (value: number) => void;
+  onWeightedScoreCommit: (value: number) => void;
+  // Agreement mode: threshold uses the slider; majority/unanimous follow the provider list
+  agreementMode: ValidationAgreementMode;
+  onAgreementModeChange: (mode: ValidationAgreementMode) => void;
+  requiredAgreement?: number;
+  // Resolution: agreement per district or per postcode sector
+  resolution: GeoResolution;
+  onResolutionChange: (resolution: GeoResolution) => void;
   // TV Regions
   selectedTvRegions?: string[];
   onTvRegionsChange?: (regions: string[]) => void;
@@ -66,73 +105,130 @@ export function MapCorePanel(props: MapCorePanelProps) {
         {/* Core Slider */}
         {props.mode === 'validation' ? (
           <Box sx={{ mb: 2 }}>
-            <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
               <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary', fontWeight: 500 }}>
                 Validation strictness
               </Typography>
-              <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary' }}>
-                {props.sliderDraft} of {props.validatingProvidersCount || props.maxSliderValue} providers
-              </Typography>
-            </Box>
-            <Box sx={{ px: 1 }}>
-              <Slider
-                value={props.sliderDraft}
-                onChange={props.onSliderChange}
-                onChangeCommitted={props.onSliderChangeCommitted}
-                min={1}
-                max={Math.max(1, props.maxSliderValue)}
-                step={1}
-                disabled={props.maxSliderValue <= 1 || props.validatingProvidersCount < 1 || props.validationLoading}
-                marks={Array.from({ length: props.maxSliderValue }, (_, i) => ({
-                  value: i + 1,
-                  label: (i + 1).toString(),
-                }))}
-                sx={{
-                  color: '#02b5e7',
-                  height: 6,
-                  '& .MuiSlider-track': {
-                    height: 6,
-                    borderRadius: 3,
-                    border: 'none',
-                    bgcolor: '#02b5e7',
-                  },
-                  '& .MuiSlider-rail': {
-                    height: 6,
-                    borderRadius: 3,
-                    bgcolor: 'rgba(2, 181, 231, 0.2)',
-                    opacity: 1,
-                  },
-                  '& .MuiSlider-thumb': {
-                    width: 20,
-                    height: 20,
-                    bgcolor: '#02b5e7',
-                    border: '2px solid white',
-                    boxShadow: '0 2px 4px rgba(0,0,0,0.2)',
-                    '&:hover': {
-                      boxShadow: '0 2px 8px rgba(2, 181, 231, 0.4)',
-                    },
-                  },
-                  '& .MuiSlider-mark': {
-                    bgcolor: 'rgba(0, 0, 0, 0.3)',
-                    width: 2,
-                    height: 8,
-                    borderRadius: 1,
-                  },
-                  '& .MuiSlider-markLabel': {
-                    fontSize: '0.65rem',
-                    color: 'text.secondary',
-                    mt: 0.5,
-                  },
-                }}
-              />
+              <ToggleButtonGroup
+                value={props.scoring}
+                exclusive
+                size="small"
+                onChange={(_, value: AgreementScoring | null) => value && props.onScoringChange(value)}
+                sx={{ '& .MuiToggleButton-root': { py: 0, px: 1, fontSize: '0.65rem', textTransform: 'none' } }}
+              >
+                <ToggleButton value="count">Count</ToggleButton>
+                <ToggleButton value="weighted">Weighted</ToggleButton>
+              </ToggleButtonGroup>
             </Box>
-            <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 0.5 }}>
-              <Typography variant="caption" sx={{ fontSize: '0.65rem', color: 'text.secondary' }}>
-                Bigger audience
-              </Typography>
-              <Typography variant="caption" sx={{ fontSize: '0.65rem', color: 'text.secondary' }}>
-                Higher confidence
+            <ToggleButtonGroup
+              value={props.agreementMode}
+              exclusive
+              fullWidth
+              size="small"
+              onChange={(_, value: ValidationAgreementMode | null) => value && props.onAgreementModeChange(value)}
+              sx={{ mb: 1, '& .MuiToggleButton-root': { py: 0.25, fontSize: '0.7rem', textTransform: 'none' } }}
+            >
+              <ToggleButton value="threshold">Threshold</ToggleButton>
+              <ToggleButton value="majority">Majority</ToggleButton>
+              <ToggleButton value="unanimous">Unanimous</ToggleButton>
+            </ToggleButtonGroup>
+            <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary', display: 'block', mb: 1 }}>
+              {describeAgreementRule(props)}
+            </Typography>
+            {props.agreementMode === 'threshold' && (
+              <>
+                <Box sx={{ px: 1 }}>
+                  <Slider
+                    {...(props.scoring === 'weighted'
+                      ? {
+                          value: props.weightedScoreDraft,
+                          onChange: (_: Event, value: number | number[]) => props.onWeightedScoreChange(value as number),
+                          onChangeCommitted: (_: Event | React.SyntheticEvent, value: number | number[]) =>
+                            props.onWeightedScoreCommit(value as number),
+                          min: 0,
+                          max: 1,
+                          step: 0.05,
+                          disabled: props.validatingProvidersCount < 1 || props.validationLoading,
+                          marks: WEIGHTED_SCORE_MARKS,
+                          valueLabelDisplay: 'auto' as const,
+                          valueLabelFormat: (value: number) => `${Math.round(value * 100)}%`,
+                        }
+                      : {
+                          value: props.sliderDraft,
+                          onChange: props.onSliderChange,
+                          onChangeCommitted: props.onSliderChangeCommitted,
+                          min: 1,
+                          max: Math.max(1, props.maxSliderValue),
+                          step: 1,
+                          disabled: props.maxSliderValue <= 1 || props.validatingProvidersCount < 1 || props.validationLoading,
+                          marks: Array.from({ length: props.maxSliderValue }, (_, i) => ({
+                            value: i + 1,
+                            label: (i + 1).toString(),
+                          })),
+                        })}
+                    sx={{
+                      color: '#02b5e7',
+                      height: 6,
+                      '& .MuiSlider-track': {
+                        height: 6,
+                        borderRadius: 3,
+                        border: 'none',
+                        bgcolor: '#02b5e7',
+                      },
+                      '& .MuiSlider-rail': {
+                        height: 6,
+                        borderRadius: 3,
+                        bgcolor: 'rgba(2, 181, 231, 0.2)',
+                        opacity: 1,
+                      },
+                      '& .MuiSlider-thumb': {
+                        width: 20,
+                        height: 20,
+                        bgcolor: '#02b5e7',
+                        border: '2px solid white',
+                        boxShadow: '0 2px 4px rgba(0,0,0,0.2)',
+                        '&:hover': {
+                          boxShadow: '0 2px 8px rgba(2, 181, 231, 0.4)',
+                        },
+                      },
+                      '& .MuiSlider-mark': {
+                        bgcolor: 'rgba(0, 0, 0, 0.3)',
+                        width: 2,
+                        height: 8,
+                        borderRadius: 1,
+                      },
+                      '& .MuiSlider-markLabel': {
+                        fontSize: '0.65rem',
+                        color: 'text.secondary',
+                        mt: 0.5,
+                      },
+                    }}
+                  />
+                </Box>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 0.5 }}>
+                  <Typography variant="caption" sx={{ fontSize: '0.65rem', color: 'text.secondary' }}>
+                    Bigger audience
+                  </Typography>
+                  <Typography variant="caption" sx={{ fontSize: '0.65rem', color: 'text.secondary' }}>
+                    Higher confidence
+                  </Typography>
+                </Box>
+              </>
+            )}
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 1.5 }}>
+              <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary', fontWeight: 500 }}>
+                Resolution
               </Typography>
+              <ToggleButtonGroup
+                value={props.resolution}
+                exclusive
+                size="small"
+                onChange={(_, value: GeoResolution | null) => value && props.onResolutionChange(value)}
+                sx={{ '& .MuiToggleButton-root': { py: 0, px: 1, fontSize: '0.65rem', textTransform: 'none' } }}
+              >
+                <ToggleButton value="district">District</ToggleButton>
+                <ToggleButton value="sector">Sector</ToggleButton>
+              </ToggleButtonGroup>
             </Box>
           </Box>
         ) : (
@@ -219,6 +315,16 @@ export function MapCorePanel(props: MapCorePanelProps) {
                 Postcode districts
               </Typography>
             </Box>
+            {props.resolution === 'sector' && (
+              <Box sx={{ flex: 1 }}>
+                <Typography variant="h5" sx={{ fontWeight: 600, fontSize: '1.5rem', lineHeight: 1.2, mb: 0.25 }}>
+                  {(props.sectorsIncluded ?? 0).toLocaleString()}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.65rem' }}>
+                  Postcode sectors
+                </Typography>
+              </Box>
+            )}
           </Box>
         ) : (
           <>
@@ -22,6 +22,24 @@ export function ProviderContributionsCard({ context }: ProviderContributionsCard
             ? 'Percentages represent incremental contribution vs current selection.'
             : '% of included districts supported by provider'}
         </Typography>
+        {context.baseProvider && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, mb: 2, p: 1, bgcolor: '#f5f5f5', borderRadius: 1 }}>
+            <Avatar
+              src={context.baseProvider.iconUrl}
+              sx={{ width: 24, height: 24, fontSize: '0.7rem', bgcolor: '#e0e0e0' }}
+            >
+              {context.baseProvider.provider.charAt(0)}
+            </Avatar>
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              <Typography variant="body2" sx={{ fontSize: '0.8125rem', fontWeight: 500 }}>
+                Universe defined by {context.baseProvider.providerLabel}
+              </Typography>
+              <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.65rem', display: 'block' }}>
+                {context.baseProvider.eligibleDistricts.toLocaleString()} eligible districts
+              </Typography>
+            </Box>
+          </Box>
+        )}
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
           {context.providers.length === 0 ? (
             <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>
@@ -1,15 +1,27 @@
 'use client';
 
 import { Dialog, DialogTitle, DialogContent, DialogActions, Button, Typography, Box } from '@mui/material';
+import { SCORE_NORMALIZATION_METHODS, ScoreNormalizationMethod } from '@/features/audience-builder/types/signals';
 
 interface ProviderRationaleModalProps {
   open: boolean;
   onClose: () => void;
   provider: string;
   matchPercent: number;
+  normalizationMethod?: ScoreNormalizationMethod | null;
+  presenceOnly?: boolean;
 }
 
-export function ProviderRationaleModal({ open, onClose, provider, matchPercent }: ProviderRationaleModalProps) {
+export function ProviderRationaleModal({
+  open,
+  onClose,
+  provider,
+  matchPercent,
+  normalizationMethod,
+  presenceOnly = false,
+}: ProviderRationaleModalProps) {
+  const method = normalizationMethod ? SCORE_NORMALIZATION_METHODS[normalizationMethod] : null;
+
   return (
     <Dialog
       open={open}
@@ -30,6 +42,18 @@ export function ProviderRationaleModal({ open, onClose, provider, matchPercent }
               For MVP, match % is calculated from uploaded district coverage for this segment. Later we will use semantic similarity and geo overlap.
             </Typography>
           </Box>
+          <Box>
+            <Typography variant="body2" sx={{ fontWeight: 500, mb: 0.5, fontSize: '0.875rem' }}>
+              Score normalisation: {method ? method.label : 'Not recorded'}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem', lineHeight: 1.6 }}>
+              {method
+                ? method.description
+                : 'This data was loaded before normalisation methods were recorded; scores are divided by 100.'}
+              {presenceOnly && normalizationMethod !== 'presence_weight' &&
+                ' This file has no scores, so listed districts count as agreeing unless a presence weight is configured.'}
+            </Typography>
+          </Box>
         </Box>
       </DialogContent>
       <DialogActions sx={{ px: 3, pb: 2 }}>
@@ -3,8 +3,9 @@
 import React, { memo } from 'react';
 import { Box } from '@mui/material';
 import dynamic from 'next/dynamic';
-import { IncludedDistrict } from '@/features/audience-builder/api/validationResults';
-import { BattleZoneDistrict } from '@/features/audience-builder/api/battleZones';
+import { IncludedDistrict, IncludedSector } from '@/features/audience-builder/api/validationResults';
+import { BattleZoneDistrict, BattleZoneStoreCatchment } from '@/features/audience-builder/api/battleZones';
+import { BattleZoneCatchment } from '@/features/audience-builder/utils/battleZoneCatchments';
 import { DistrictCentroid } from '@/features/audience-builder/api/districtCentroids';
 
 const StableValidationMapClient = dynamic(() => import('../map/StableValidationMap').then(mod => ({ default: mod.StableValidationMap })), { 
@@ -13,6 +14,7 @@ const StableValidationMapClient = dynamic(() => import('../map/StableValidationM
 
 interface ValidationMapPanelProps {
   includedDistricts: IncludedDistrict[];
+  includedSectors?: IncludedSector[]; // Sector resolution
   maxAgreement: number;
   overlayMode: 'district' | 'hex';
   hexResolution: number;
@@ -26,6 +28,8 @@ interface ValidationMapPanelProps {
   battleZoneCentroids?: DistrictCentroid[];
   battleZoneBaseBrand?: string;
   battleZoneCompetitorBrands?: string[];
+  battleZoneCatchment?: BattleZoneCatchment;
+  battleZoneStoreCatchments?: BattleZoneStoreCatchment[];
 }
 
 /**
@@ -34,6 +38,7 @@ interface ValidationMapPanelProps {
  */
 export const ValidationMapPanel = memo(function ValidationMapPanel({
   includedDistricts,
+  includedSectors,
   maxAgreement,
   overlayMode,
   hexResolution = 5,
@@ -47,6 +52,8 @@ export const ValidationMapPanel = memo(function ValidationMapPanel({
   battleZoneCentroids = [],
   battleZoneBaseBrand,
   battleZoneCompetitorBrands = [],
+  battleZoneCatchment,
+  battleZoneStoreCatchments = [],
 }: ValidationMapPanelProps) {
   return (
     <Box sx={{ width: '100%', height: '600px', position: 'relative', zIndex: 0 }}>
@@ -55,6 +62,7 @@ export const ValidationMapPanel = memo(function ValidationMapPanel({
           center={[54.5, -2.5]}
           zoom={7}
           includedDistricts={includedDistricts}
+          includedSectors={includedSectors}
           maxAgreement={maxAgreement}
           overlayMode={overlayMode}
           hexResolution={hexResolution}
@@ -67,6 +75,8 @@ export const ValidationMapPanel = memo(function ValidationMapPanel({
           battleZoneCentroids={battleZoneCentroids}
           battleZoneBaseBrand={battleZoneBaseBrand}
           battleZoneCompetitorBrands={battleZoneCompetitorBrands}
+          battleZoneCatchment={battleZoneCatchment}
+          battleZoneStoreCatchments={battleZoneStoreCatchments}
         />
       ) : (
         <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%' }}>
@@ -85,6 +95,9 @@ export const ValidationMapPanel = memo(function ValidationMapPanel({
   const nextBattleKey = nextProps.battleZoneDistricts?.map(d => `${d.district}:${d.category}:${d.base_store_count}:${d.competitor_store_count}`).sort().join('|') || '';
   const prevCentroidsKey = prevProps.battleZoneCentroids?.map(c => `${c.district}:${c.centroid_lat}:${c.centroid_lng}`).sort().join('|') || '';
   const nextCentroidsKey = nextProps.battleZoneCentroids?.map(c => `${c.district}:${c.centroid_lat}:${c.centroid_lng}`).sort().join('|') || '';
+  const catchmentKey = (c?: BattleZoneCatchment) => (c ? `${c.mode}:${c.radiusKm}:${c.driveMinutes}` : '');
+  const storeCatchmentsKey = (stores?: BattleZoneStoreCatchment[]) =>
+    stores?.map(s => `${s.poi_id}:${s.source}:${s.district_count}`).join('|') || '';
   
   return (
     prevProps.mounted === nextProps.mounted &&
@@ -92,11 +105,14 @@ export const ValidationMapPanel = memo(function ValidationMapPanel({
     prevProps.hexResolution === nextProps.hexResolution &&
     prevProps.includedDistricts.length === nextProps.includedDistricts.length &&
     prevProps.includedDistricts.map(d => d.district).join('|') === nextProps.includedDistricts.map(d => d.district).join('|') &&
+    (prevProps.includedSectors?.map(s => s.sector).join('|') ?? '') === (nextProps.includedSectors?.map(s => s.sector).join('|') ?? '') &&
     prevProps.maxAgreement === nextProps.maxAgreement &&
     prevPoiIds === nextPoiIds &&
     prevDistrictKeys === nextDistrictKeys &&
     prevProps.battleZonesEnabled === nextProps.battleZonesEnabled &&
     prevBattleKey === nextBattleKey &&
-    prevCentroidsKey === nextCentroidsKey
+    prevCentroidsKey === nextCentroidsKey &&
+    catchmentKey(prevProps.battleZoneCatchment) === catchmentKey(nextProps.battleZoneCatchment) &&
+    storeCatchmentsKey(prevProps.battleZoneStoreCatchments) === storeCatchmentsKey(nextProps.battleZoneStoreCatchments)
   );
 });
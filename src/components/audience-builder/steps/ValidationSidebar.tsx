@@ -4,7 +4,8 @@ import React, { memo, useState } from 'react';
 import { Box, Card, CardContent, Typography, Button, Chip, Avatar, Switch, FormControlLabel, Accordion, AccordionSummary, AccordionDetails, ToggleButtonGroup, ToggleButton, Slider } from '@mui/material';
 import { ExpandMore, Store, LocationOn, GpsFixed } from '@mui/icons-material';
 import { ConstructionMode } from '@/lib/types';
-import { ValidationResults } from '@/features/audience-builder/api/validationResults';
+import { GeoResolution, ValidationAgreementMode } from '@/features/audience-builder/types/signals';
+import { ValidationResults, AgreementScoring } from '@/features/audience-builder/api/validationResults';
 import { MapCorePanel } from './MapCorePanel';
 import { MapToolCard } from './MapToolCard';
 import { getProviderFavicon } from '../providers/providerIcons';
@@ -31,8 +32,18 @@ interface ValidationSidebarProps {
   validationLoading: boolean;
   onSliderChange: (event: Event | React.SyntheticEvent, value: number | number[]) => void;
   onSliderChangeCommitted: (event: Event | React.SyntheticEvent, value: number | number[]) => void;
+  scoring: AgreementScoring;
+  onScoringChange: (scoring: AgreementScoring) => void;
+  weightedScoreDraft: number;
+  onWeightedScoreChange: (value: number) => void;
+  onWeightedScoreCommit: (value: number) => void;
+  agreementMode: ValidationAgreementMode;
+  onAgreementModeChange: (mode: ValidationAgreementMode) => void;
+  resolution: GeoResolution;
+  onResolutionChange: (resolution: GeoResolution) => void;
   audienceSize: number;
   districtsIncluded: number;
+  sectorsIncluded?: number;
   validationResults: ValidationResults | undefined;
   onViewProviders: () => void;
   // Extension mode props
@@ -74,8 +85,18 @@ export const ValidationSidebar = memo(function ValidationSidebar({
   validationLoading,
   onSliderChange,
   onSliderChangeCommitted,
+  scoring,
+  onScoringChange,
+  weightedScoreDraft,
+  onWeightedScoreChange,
+  onWeightedScoreCommit,
+  agreementMode,
+  onAgreementModeChange,
+  resolution,
+  onResolutionChange,
   audienceSize,
   districtsIncluded,
+  sectorsIncluded,
   validationResults,
   onViewProviders,
   suggestedSegments = [],
@@ -154,6 +175,7 @@ export const ValidationSidebar = memo(function ValidationSidebar({
                 mode="validation"
                 audienceSize={audienceSize}
                 districtsIncluded={districtsIncluded}
+                sectorsIncluded={sectorsIncluded}
                 sliderDraft={sliderDraft}
                 sliderApplied={sliderApplied}
                 maxSliderValue={maxSliderValue}
@@ -161,6 +183,16 @@ export const ValidationSidebar = memo(function ValidationSidebar({
                 validationLoading={validationLoading}
                 onSliderChange={onSliderChange}
                 onSliderChangeCommitted={onSliderChangeCommitted}
+                scoring={scoring}
+                onScoringChange={onScoringChange}
+                weightedScoreDraft={weightedScoreDraft}
+                onWeightedScoreChange={onWeightedScoreChange}
+                onWeightedScoreCommit={onWeightedScoreCommit}
+                agreementMode={agreementMode}
+                onAgreementModeChange={onAgreementModeChange}
+                resolution={resolution}
+                onResolutionChange={onResolutionChange}
+                requiredAgreement={validationResults?.requiredAgreement}
                 selectedTvRegions={selectedTvRegions}
                 onTvRegionsChange={onTvRegionsChange}
                 tvRegionDistrictsCount={tvRegionDistrictsCount}
@@ -329,6 +361,9 @@ export const ValidationSidebar = memo(function ValidationSidebar({
     prevProps.sliderDraft === nextProps.sliderDraft &&
     prevProps.sliderApplied === nextProps.sliderApplied &&
     prevProps.maxSliderValue === nextProps.maxSliderValue &&
+    prevProps.scoring === nextProps.scoring &&
+    prevProps.weightedScoreDraft === nextProps.weightedScoreDraft &&
+    prevProps.agreementMode === nextProps.agreementMode &&
     prevProps.validatingProvidersCount === nextProps.validatingProvidersCount &&
     prevProps.validationLoading === nextProps.validationLoading &&
     prevProps.audienceSize === nextProps.audienceSize &&
@@ -0,0 +1,333 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import { Restore, Visibility, CompareArrows } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { useSnapshots, useSnapshot, useRestoreSnapshot } from '@/features/audience-builder/hooks/useSnapshots';
+import { AudienceSnapshotSummary } from '@/features/audience-builder/api/snapshots';
+import { describeSnapshot, diffSnapshots } from '@/features/audience-builder/utils/snapshotDiff';
+import { useBuilderContext } from '../BuilderContext';
+
+interface VersionHistoryCardProps {
+  audienceId: string;
+  onRestored?: (version: number) => void;
+}
+
+const headerCellSx = { fontSize: '0.75rem', fontWeight: 600 };
+const cellSx = { fontSize: '0.8125rem' };
+
+export function VersionHistoryCard({ audienceId, onRestored }: VersionHistoryCardProps) {
+  const { data: snapshots = [], isLoading } = useSnapshots(audienceId);
+  const restoreMutation = useRestoreSnapshot();
+  const { applySavedState } = useBuilderContext();
+
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [diffOpen, setDiffOpen] = useState(false);
+  const [restoreTarget, setRestoreTarget] = useState<AudienceSnapshotSummary | null>(null);
+
+  const viewing = snapshots.find((s) => s.id === viewingId) || null;
+
+  const handleToggleCompare = (snapshotId: string) => {
+    setCompareIds((prev) => {
+      if (prev.includes(snapshotId)) return prev.filter((id) => id !== snapshotId);
+      // Keep the two most recent picks
+      return [...prev, snapshotId].slice(-2);
+    });
+  };
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return;
+    const { builderState } = await restoreMutation.mutateAsync(restoreTarget.id);
+    if (builderState) {
+      applySavedState(builderState);
+    }
+    onRestored?.(restoreTarget.version);
+    setRestoreTarget(null);
+  };
+
+  return (
+    <Card sx={{ boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)' }}>
+      <CardContent sx={{ p: 2 }}>
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : snapshots.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem', textAlign: 'center', py: 4 }}>
+            No versions yet. A version is saved every time the audience is built or exported.
+          </Typography>
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 1 }}>
+              <Button
+                size="small"
+                startIcon={<CompareArrows />}
+                disabled={compareIds.length !== 2}
+                onClick={() => setDiffOpen(true)}
+                sx={{ fontSize: '0.75rem' }}
+              >
+                Compare selected
+              </Button>
+            </Box>
+            <TableContainer component={Paper} sx={{ boxShadow: 'none' }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox" />
+                    <TableCell sx={headerCellSx}>Version</TableCell>
+                    <TableCell sx={headerCellSx}>Source</TableCell>
+                    <TableCell sx={headerCellSx}>Created</TableCell>
+                    <TableCell sx={headerCellSx}>Areas</TableCell>
+                    <TableCell sx={headerCellSx}>Households</TableCell>
+                    <TableCell sx={headerCellSx}>Checksum</TableCell>
+                    <TableCell sx={headerCellSx}>Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {snapshots.map((snapshot) => (
+                    <TableRow key={snapshot.id}>
+                      <TableCell padding="checkbox">
+                        <Checkbox
+                          size="small"
+                          checked={compareIds.includes(snapshot.id)}
+                          onChange={() => handleToggleCompare(snapshot.id)}
+                        />
+                      </TableCell>
+                      <TableCell sx={cellSx}>v{snapshot.version}</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={snapshot.source === 'export' ? 'Export' : 'Build'}
+                          size="small"
+                          sx={{ height: 20, fontSize: '0.7rem' }}
+                        />
+                      </TableCell>
+                      <TableCell sx={cellSx}>{format(new Date(snapshot.created_at), 'PPp')}</TableCell>
+                      <TableCell sx={cellSx}>{snapshot.district_count.toLocaleString()}</TableCell>
+                      <TableCell sx={cellSx}>{snapshot.estimated_households.toLocaleString()}</TableCell>
+                      <TableCell sx={{ ...cellSx, fontFamily: 'monospace' }} title={snapshot.district_checksum || undefined}>
+                        {snapshot.district_checksum ? snapshot.district_checksum.slice(0, 8) : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', gap: 0.5 }}>
+                          <Button
+                            size="small"
+                            startIcon={<Visibility />}
+                            onClick={() => setViewingId(snapshot.id)}
+                            sx={{ fontSize: '0.75rem' }}
+                          >
+                            View
+                          </Button>
+                          <Button
+                            size="small"
+                            startIcon={<Restore />}
+                            onClick={() => setRestoreTarget(snapshot)}
+                            sx={{ fontSize: '0.75rem' }}
+                          >
+                            Restore
+                          </Button>
+                        </Box>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </CardContent>
+
+      {/* View dialog */}
+      <Dialog open={!!viewing} onClose={() => setViewingId(null)} maxWidth="sm" fullWidth>
+        <DialogTitle sx={{ fontSize: '1.125rem', fontWeight: 600, pb: 1, bgcolor: '#f5f5f5', borderBottom: '1px solid #e0e0e0' }}>
+          Version {viewing?.version}
+        </DialogTitle>
+        <DialogContent sx={{ pt: 2 }}>
+          {viewing && (
+            <Table size="small">
+              <TableBody>
+                {describeSnapshot(viewing).map((row) => (
+                  <TableRow key={row.field}>
+                    <TableCell sx={{ ...cellSx, color: 'text.secondary', width: 180 }}>{row.label}</TableCell>
+                    <TableCell sx={cellSx}>{row.value}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell sx={{ ...cellSx, color: 'text.secondary' }}>Areas</TableCell>
+                  <TableCell sx={cellSx}>{viewing.district_count.toLocaleString()}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell sx={{ ...cellSx, color: 'text.secondary' }}>Estimated households</TableCell>
+                  <TableCell sx={cellSx}>{viewing.estimated_households.toLocaleString()}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button onClick={() => setViewingId(null)} variant="outlined" sx={{ fontSize: '0.875rem' }}>
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Diff dialog */}
+      {diffOpen && compareIds.length === 2 && (
+        <SnapshotDiffDialog
+          snapshotIds={compareIds}
+          snapshots={snapshots}
+          onClose={() => setDiffOpen(false)}
+        />
+      )}
+
+      {/* Restore confirmation */}
+      <Dialog open={!!restoreTarget} onClose={() => setRestoreTarget(null)} maxWidth="xs" fullWidth>
+        <DialogTitle sx={{ fontSize: '1.125rem', fontWeight: 600, pb: 1 }}>
+          Restore version {restoreTarget?.version}?
+        </DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" sx={{ fontSize: '0.8125rem' }}>
+            The brief, segment selection, providers, thresholds and filters will be set back to this version.
+            Existing versions are kept.
+          </Typography>
+          {restoreMutation.isError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              Restore failed. Please try again.
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button onClick={() => setRestoreTarget(null)} variant="outlined" sx={{ fontSize: '0.875rem' }}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleRestore}
+            variant="contained"
+            disabled={restoreMutation.isPending}
+            sx={{ bgcolor: '#02b5e7', '&:hover': { bgcolor: '#02a0d0' }, fontSize: '0.875rem' }}
+          >
+            {restoreMutation.isPending ? 'Restoring...' : 'Restore'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+}
+
+function SnapshotDiffDialog({
+  snapshotIds,
+  snapshots,
+  onClose,
+}: {
+  snapshotIds: string[];
+  snapshots: AudienceSnapshotSummary[];
+  onClose: () => void;
+}) {
+  // Order older -> newer regardless of pick order
+  const [olderId, newerId] = [...snapshotIds].sort((a, b) => {
+    const versionOf = (id: string) => snapshots.find((s) => s.id === id)?.version || 0;
+    return versionOf(a) - versionOf(b);
+  });
+  const { data: older, isLoading: olderLoading } = useSnapshot(olderId);
+  const { data: newer, isLoading: newerLoading } = useSnapshot(newerId);
+  const diff = older && newer ? diffSnapshots(older, newer) : null;
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{ fontSize: '1.125rem', fontWeight: 600, pb: 1, bgcolor: '#f5f5f5', borderBottom: '1px solid #e0e0e0' }}>
+        Compare v{older?.version ?? '…'} → v{newer?.version ?? '…'}
+      </DialogTitle>
+      <DialogContent sx={{ pt: 2 }}>
+        {olderLoading || newerLoading || !diff ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', gap: 3, mb: 2 }}>
+              <Typography variant="body2" sx={cellSx}>
+                <strong>+{diff.districtsAdded.length.toLocaleString()}</strong> areas added
+              </Typography>
+              <Typography variant="body2" sx={cellSx}>
+                <strong>−{diff.districtsRemoved.length.toLocaleString()}</strong> areas removed
+              </Typography>
+              <Typography variant="body2" sx={cellSx}>
+                Households {diff.householdsDelta >= 0 ? '+' : ''}{diff.householdsDelta.toLocaleString()}
+              </Typography>
+              {!diff.checksumChanged && (
+                <Chip label="Identical district set" size="small" sx={{ height: 20, fontSize: '0.7rem' }} />
+              )}
+            </Box>
+            {diff.changes.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={cellSx}>
+                No configuration changes between these versions.
+              </Typography>
+            ) : (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={headerCellSx}>Setting</TableCell>
+                    <TableCell sx={headerCellSx}>v{older!.version}</TableCell>
+                    <TableCell sx={headerCellSx}>v{newer!.version}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {diff.changes.map((change) => (
+                    <TableRow key={change.field}>
+                      <TableCell sx={{ ...cellSx, color: 'text.secondary' }}>{change.label}</TableCell>
+                      <TableCell sx={cellSx}>{change.before}</TableCell>
+                      <TableCell sx={cellSx}>{change.after}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {(diff.districtsAdded.length > 0 || diff.districtsRemoved.length > 0) && (
+              <Box sx={{ mt: 2 }}>
+                {diff.districtsAdded.length > 0 && (
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block', fontSize: '0.75rem' }}>
+                    Added: {diff.districtsAdded.slice(0, 20).join(', ')}
+                    {diff.districtsAdded.length > 20 ? ` and ${diff.districtsAdded.length - 20} more` : ''}
+                  </Typography>
+                )}
+                {diff.districtsRemoved.length > 0 && (
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block', fontSize: '0.75rem' }}>
+                    Removed: {diff.districtsRemoved.slice(0, 20).join(', ')}
+                    {diff.districtsRemoved.length > 20 ? ` and ${diff.districtsRemoved.length - 20} more` : ''}
+                  </Typography>
+                )}
+              </Box>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} variant="outlined" sx={{ fontSize: '0.875rem' }}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -2,12 +2,17 @@ import { useMemo, useState, useEffect } from 'react';
 import { useAudience } from '@/features/audience-builder/hooks/useAudiences';
 import { useConstructionSettings } from '@/features/audience-builder/hooks/useConstruction';
 import { useSegments } from '@/features/audience-builder/hooks/useSegments';
-import { useValidationResults } from '@/features/audience-builder/hooks/useValidationResults';
-import { useProviderImpact } from '@/features/audience-builder/hooks/useProviderImpact';
+import { useAudienceResolution } from '@/features/audience-builder/hooks/useAudienceResolution';
+import { AudienceResolutionInput } from '@/features/audience-builder/services/audienceResolution.service';
 import { useBuilderContext } from '../../BuilderContext';
 import { getSelectedSegmentKeys } from '@/features/audience-builder/api/selectedSegments';
 import { getProviderFavicon } from '../../providers/providerIcons';
 import { useProviderMetadata } from '@/features/audience-builder/hooks/useProviderMetadata';
+import {
+  buildProviderContributions,
+  describeThreshold,
+  ProviderContributionSummary,
+} from '@/features/audience-builder/utils/exportSummary';
 
 export interface SelectedSegment {
   segment_key: string;
@@ -15,27 +20,35 @@ export interface SelectedSegment {
   provider?: string;
 }
 
-export interface ProviderContribution {
+export interface ProviderContribution extends ProviderContributionSummary {
+  iconUrl: string;
+}
+
+export interface BaseUniverseProvider {
   provider: string;
   providerLabel: string;
-  districtsContributed: number;
-  percentContributed: number;
-  avgConfidence?: number;
-  overlapPercent?: number;
+  eligibleDistricts: number;
   iconUrl: string;
 }
 
 export interface ExportContext {
   mode: 'validation' | 'extension';
+  anchorSegmentKey: string;
   audienceName: string;
   audienceId: string;
+  clientId: string | null; // Platform connections are configured per client
   lastBuiltAt: string | null;
   activationTarget: 'districts' | 'h3' | 'geojson';
   thresholdLabel: string;
   includedCount: number;
   estimatedHouseholds: number;
+  districtChecksum: string | null; // SHA-256 of the resolved district IDs (matches export metadata)
+  districtIds: string[]; // Resolved districts (sorted)
+  budgetTotal: number | null; // From the audience brief
+  resolutionInput: AudienceResolutionInput | null; // Sent to the export route so it resolves the same districts
   selectedSegments: SelectedSegment[];
   providers: ProviderContribution[];
+  baseProvider: BaseUniverseProvider | null; // Validation mode: partner that defined the eligible universe
 }
 
 export function useExportContext(audienceId: string): {
@@ -45,43 +58,17 @@ export function useExportContext(audienceId: string): {
   const { data: audience } = useAudience(audienceId);
   const { data: settings } = useConstructionSettings(audienceId);
   const { data: segments = [] } = useSegments(audienceId, 'primary', settings?.construction_mode);
-  const { state } = useBuilderContext();
+  const { state, getResolutionInput } = useBuilderContext();
 
   const mode = (state.constructionMode || settings?.construction_mode || 'extension') as 'validation' | 'extension';
-  const anchorKey = 'home_movers'; // TODO: derive from anchor segment
-
-  // Get selected segments
-  const selectedSegmentKeys = useMemo(() => {
-    if (mode === 'extension' && state.includedSegmentKeys.length > 0) {
-      return state.includedSegmentKeys;
-    }
-    return segments.filter(s => s.is_selected).map(s => s.segment_key);
-  }, [mode, state.includedSegmentKeys, segments]);
-
-  // Fetch validation results for Validation mode
-  const { data: validationResults, isLoading: validationLoading } = useValidationResults({
-    segmentKey: anchorKey,
-    minAgreement: 1,
-    enabled: mode === 'validation',
-  });
-
-  // Fetch provider impact for Extension mode
-  const extensionSelectedKeys = useMemo(() => {
-    if (mode === 'extension') {
-      return selectedSegmentKeys.includes(anchorKey)
-        ? selectedSegmentKeys
-        : [anchorKey, ...selectedSegmentKeys];
-    }
-    return [];
-  }, [mode, selectedSegmentKeys, anchorKey]);
+  // Anchor comes from the segment confirmed in Step 2, falling back to the brief intent
+  const anchorKey = state.selectedSegmentKey || settings?.audience_intent || '';
 
-  const { data: providerImpact, isLoading: impactLoading } = useProviderImpact({
-    anchorKey,
-    includedSegmentKeys: extensionSelectedKeys,
-    confidenceThreshold: 0.5,
-    includeAnchorOnly: true,
-    enabled: mode === 'extension' && extensionSelectedKeys.length > 0,
-  });
+  // Resolve with the same builder state as the map so counts and checksum match the export
+  const resolutionInput = getResolutionInput(settings?.audience_intent || undefined);
+  const { data: resolution, isLoading: resolutionLoading } = useAudienceResolution(resolutionInput, !!anchorKey);
+  const validationResults = mode === 'validation' ? resolution?.validationResults : undefined;
+  const providerImpact = mode === 'extension' ? resolution?.providerImpact : undefined;
 
   // Fetch selected segments from DB for Extension mode (to get labels)
   // Use a simple state + effect since getSelectedSegmentKeys is async
@@ -100,6 +87,7 @@ export function useExportContext(audienceId: string): {
     const keysSet = new Set<string>();
     if (mode === 'validation' && validationResults) {
       Object.keys(validationResults.providerStats || {}).forEach(key => keysSet.add(key));
+      keysSet.add(validationResults.baseProvider);
     } else if (mode === 'extension' && providerImpact) {
       providerImpact.providerStats?.forEach(stat => keysSet.add(stat.provider));
     }
@@ -109,7 +97,7 @@ export function useExportContext(audienceId: string): {
   // Fetch provider metadata
   const { data: providerMetadataMap = new Map<string, any>() } = useProviderMetadata(providerKeys);
 
-  const isLoading = mode === 'validation' ? validationLoading : impactLoading;
+  const isLoading = resolutionLoading;
 
   const context = useMemo((): ExportContext | null => {
     if (!audience || !settings) return null;
@@ -151,57 +139,32 @@ export function useExportContext(audienceId: string): {
     }
 
     // Build provider contributions
-    const providersList: ProviderContribution[] = [];
-    
+    const providersList: ProviderContribution[] = buildProviderContributions(
+      mode,
+      validationResults,
+      providerImpact,
+      (provider, fallback) => providerMetadataMap.get(provider)?.display_name || fallback || provider
+    ).map((contribution) => ({
+      ...contribution,
+      iconUrl: getProviderFavicon(contribution.provider, providerMetadataMap.get(contribution.provider)?.logo_url),
+    }));
+
+    let baseProvider: BaseUniverseProvider | null = null;
     if (mode === 'validation' && validationResults) {
-      const totalIncluded = validationResults.totals.districtsIncluded;
-      
-      for (const [provider, stats] of Object.entries(validationResults.providerStats)) {
-        const districtsContributed = stats.agreeingDistricts || 0;
-        const percentContributed = totalIncluded > 0
-          ? (districtsContributed / totalIncluded) * 100
-          : 0;
-
-        const metadata = providerMetadataMap.get(provider);
-        providersList.push({
-          provider,
-          providerLabel: metadata?.display_name || stats.providerLabel || stats.providerSegmentLabel || provider,
-          districtsContributed,
-          percentContributed,
-          iconUrl: getProviderFavicon(provider, metadata?.logo_url),
-        });
-      }
-    } else if (mode === 'extension' && providerImpact) {
-      const totalIncluded = providerImpact.totals.includedDistricts;
-      
-      for (const stat of providerImpact.providerStats) {
-        const percentContributed = totalIncluded > 0
-          ? (stat.incrementalDistricts / totalIncluded) * 100
-          : 0;
-
-        const metadata = providerMetadataMap.get(stat.provider);
-        providersList.push({
-          provider: stat.provider,
-          providerLabel: metadata?.display_name || stat.provider,
-          districtsContributed: stat.incrementalDistricts,
-          percentContributed,
-          overlapPercent: stat.overlapPct,
-          avgConfidence: stat.avgProviderConfidence,
-          iconUrl: getProviderFavicon(stat.provider, metadata?.logo_url),
-        });
-      }
+      const metadata = providerMetadataMap.get(validationResults.baseProvider);
+      baseProvider = {
+        provider: validationResults.baseProvider,
+        providerLabel: metadata?.display_name || validationResults.baseProvider,
+        eligibleDistricts: validationResults.totals.eligibleDistricts,
+        iconUrl: getProviderFavicon(validationResults.baseProvider, metadata?.logo_url),
+      };
     }
 
-    // Build threshold label
-    let thresholdLabel = '—';
-    if (mode === 'validation' && validationResults) {
-      const minAgreement = state.validationMinAgreement || 1;
-      const maxAgreement = validationResults.maxAgreement || 1;
-      thresholdLabel = `Min provider agreement: ${minAgreement} of ${maxAgreement}`;
-    } else if (mode === 'extension' && providerImpact) {
-      const threshold = 0.5; // Default confidence threshold
-      thresholdLabel = `Confidence threshold: ≥ ${threshold.toFixed(2)}`;
-    }
+    const thresholdLabel = describeThreshold(mode, validationResults, providerImpact, {
+      minAgreement: state.validationMinAgreement,
+      minWeightedScore: state.validationMinWeightedScore,
+      confidenceThreshold: state.extensionConfidenceThreshold,
+    });
 
     // Get included count and estimated households
     let includedCount = 0;
@@ -219,15 +182,22 @@ export function useExportContext(audienceId: string): {
 
     return {
       mode,
+      anchorSegmentKey: anchorKey,
       audienceName: audience.name,
       audienceId,
+      clientId: audience.client_id || null,
       lastBuiltAt: settings.last_run_at || null,
       activationTarget: 'districts', // Default, can be changed by user
       thresholdLabel,
       includedCount,
       estimatedHouseholds,
+      districtChecksum: resolution?.checksum || null,
+      districtIds: resolution?.districtIds || [],
+      budgetTotal: audience.budget_total,
+      resolutionInput: resolution?.input || null,
       selectedSegments: selectedSegmentsList,
       providers: providersList,
+      baseProvider,
     };
   }, [
     audience,
@@ -238,6 +208,9 @@ export function useExportContext(audienceId: string): {
     validationResults,
     providerImpact,
     state.validationMinAgreement,
+    state.validationMinWeightedScore,
+    state.extensionConfidenceThreshold,
+    resolution,
     dbSelectedKeys,
     anchorKey,
     providerMetadataMap,
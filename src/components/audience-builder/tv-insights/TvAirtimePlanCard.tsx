@@ -0,0 +1,193 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Alert, Box, Button, Chip, Grid, Paper, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Typography } from '@mui/material';
+import { Download } from '@mui/icons-material';
+import { getAllTvRegions } from '@/features/audience-builder/api/tvRegions';
+import { TvSpotInsight } from '@/features/audience-builder/utils/tvInsights';
+import {
+  buildTvAirtimePlan,
+  TvAirtimePlanSplit,
+  tvAirtimePlanToCsv,
+} from '@/features/audience-builder/utils/tvAirtimePlan';
+import { csvFilename, downloadCsv } from '@/features/audience-builder/utils/csvDownload';
+
+interface TvAirtimePlanCardProps {
+  insights: TvSpotInsight[];
+  audienceName?: string;
+  budget: number | null;
+  startDate: string | null;
+  endDate: string | null;
+  tvRegions: string[];
+}
+
+const headCellSx = { fontSize: '0.7rem', fontWeight: 600, py: 0.5 };
+const cellSx = { fontSize: '0.7rem', py: 0.75 };
+
+function formatCurrency(value: number): string {
+  return `£${Math.round(value).toLocaleString()}`;
+}
+
+export function TvAirtimePlanCard({ insights, audienceName, budget, startDate, endDate, tvRegions }: TvAirtimePlanCardProps) {
+  const { data: allRegions = [] } = useQuery({
+    queryKey: ['tvRegions'],
+    queryFn: getAllTvRegions,
+    staleTime: 10 * 60 * 1000, // 10 minutes - TV regions don't change often
+  });
+  const regionNames = useMemo(
+    () => new Map(allRegions.map((region) => [region.region_key, region.name])),
+    [allRegions]
+  );
+
+  const plan = useMemo(
+    () => buildTvAirtimePlan({ budget: budget || 0, startDate, endDate, tvRegions, insights }),
+    [budget, startDate, endDate, tvRegions, insights]
+  );
+
+  const handleDownload = () => {
+    downloadCsv(tvAirtimePlanToCsv(plan, regionNames), csvFilename(audienceName, 'tv-airtime-plan'));
+  };
+
+  const regionLabel = (key: string) => (key ? regionNames.get(key) || key : 'Network');
+
+  return (
+    <Paper sx={{ p: 2, mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1.5 }}>
+        <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem' }}>
+          Airtime Plan
+        </Typography>
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<Download />}
+          onClick={handleDownload}
+          disabled={plan.lines.length === 0}
+          sx={{ textTransform: 'none', fontSize: '0.75rem' }}
+        >
+          Download CSV schedule
+        </Button>
+      </Box>
+
+      {!budget || budget <= 0 ? (
+        <Alert severity="info" sx={{ fontSize: '0.8125rem' }}>
+          Set a total budget in the audience details to generate an airtime plan.
+        </Alert>
+      ) : plan.lines.length === 0 ? (
+        <Alert severity="info" sx={{ fontSize: '0.8125rem' }}>
+          None of the insight channels sell spot airtime, so no plan can be proposed.
+        </Alert>
+      ) : (
+        <>
+          <Grid container spacing={2} sx={{ mb: 2 }}>
+            <PlanStat label="Budget" value={formatCurrency(plan.budget)} />
+            <PlanStat
+              label="Flight"
+              value={plan.weeks ? `${plan.weeks} week${plan.weeks === 1 ? '' : 's'}` : 'No dates set'}
+              detail={plan.weeks ? `${formatCurrency(plan.totals.spend / plan.weeks)} / week` : undefined}
+            />
+            <PlanStat
+              label="Est. impacts"
+              value={Math.round(plan.totals.impacts).toLocaleString()}
+              detail={`${Math.round(plan.totals.indexedImpacts).toLocaleString()} index-weighted`}
+            />
+            <PlanStat
+              label="Effective CPT"
+              value={`£${plan.totals.effectiveCpt.toFixed(2)}`}
+              detail={`Plan index ${plan.totals.index}`}
+            />
+          </Grid>
+
+          <Grid container spacing={2} sx={{ mb: 2 }}>
+            <SplitList title="By daypart" splits={plan.byDaypart} label={(key) => key} />
+            <SplitList title="By channel" splits={plan.byChannel} label={(key) => key} />
+            <SplitList title="By region" splits={plan.byRegion} label={regionLabel} />
+          </Grid>
+
+          <TableContainer sx={{ maxHeight: 360 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={headCellSx}>Channel</TableCell>
+                  <TableCell sx={headCellSx}>Daypart</TableCell>
+                  <TableCell sx={headCellSx}>Region</TableCell>
+                  <TableCell align="right" sx={headCellSx}>Index</TableCell>
+                  <TableCell align="right" sx={headCellSx}>CPT</TableCell>
+                  <TableCell align="right" sx={headCellSx}>Effective CPT</TableCell>
+                  <TableCell align="right" sx={headCellSx}>Spend</TableCell>
+                  <TableCell align="right" sx={headCellSx}>Est. impacts</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {plan.lines.map((line) => (
+                  <TableRow key={`${line.channel}|${line.daypart}|${line.regionKey}`}>
+                    <TableCell sx={{ ...cellSx, fontWeight: 500 }} title={line.programmes.join(', ')}>{line.channel}</TableCell>
+                    <TableCell sx={cellSx}>{line.daypart}</TableCell>
+                    <TableCell sx={cellSx}>{regionLabel(line.regionKey || '')}</TableCell>
+                    <TableCell align="right" sx={{ ...cellSx, color: 'primary.main', fontWeight: 500 }}>{line.index}</TableCell>
+                    <TableCell align="right" sx={cellSx}>£{line.cpt.toFixed(2)}</TableCell>
+                    <TableCell align="right" sx={cellSx}>£{line.effectiveCpt.toFixed(2)}</TableCell>
+                    <TableCell align="right" sx={cellSx}>{formatCurrency(line.spend)}</TableCell>
+                    <TableCell align="right" sx={cellSx}>{Math.round(line.impacts).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+
+      <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', display: 'block', mt: 1.5 }}>
+        Budget is split by audience impressions × index ÷ CPT, then across regions by audience reach. CPTs are rate-card
+        assumptions by daypart; effective CPT is the cost per thousand index-weighted impacts.
+        {plan.excludedChannels.length > 0 && ` ${plan.excludedChannels.join(', ')} carry no advertising and are excluded.`}
+      </Typography>
+    </Paper>
+  );
+}
+
+function PlanStat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <Grid item xs={6} sm={3}>
+      <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary', display: 'block', mb: 0.5 }}>
+        {label}
+      </Typography>
+      <Typography variant="body2" sx={{ fontSize: '0.9375rem', fontWeight: 600 }}>
+        {value}
+      </Typography>
+      {detail && (
+        <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary' }}>
+          {detail}
+        </Typography>
+      )}
+    </Grid>
+  );
+}
+
+function SplitList({
+  title,
+  splits,
+  label,
+}: {
+  title: string;
+  splits: TvAirtimePlanSplit[];
+  label: (key: string) => string;
+}) {
+  return (
+    <Grid item xs={12} md={4}>
+      <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary', display: 'block', mb: 0.75 }}>
+        {title}
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+        {splits.map((split) => (
+          <Chip
+            key={split.key}
+            size="small"
+            label={`${label(split.key)} ${Math.round(split.share * 100)}%`}
+            sx={{ fontSize: '0.7rem', height: 22 }}
+          />
+        ))}
+      </Box>
+    </Grid>
+  );
+}
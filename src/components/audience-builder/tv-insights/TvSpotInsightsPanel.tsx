@@ -1,18 +1,40 @@
 'use client';
 
-import { Box, Typography, Paper, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Chip, Accordion, AccordionSummary, AccordionDetails, Card, CardContent, Grid } from '@mui/material';
+import { Box, Typography, Paper, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Chip, Accordion, AccordionSummary, AccordionDetails, Card, CardContent, Grid, CircularProgress, Alert } from '@mui/material';
 import { ExpandMore } from '@mui/icons-material';
-import { useBuilderContext } from '../BuilderContext';
-import { getMockTvInsights, getTopChannel, getTopProgramme, getBestDaypart } from './tvSpotMockData';
+import { useAudienceTvInsights } from '@/features/audience-builder/hooks/useTvInsights';
+import {
+  getTopChannel,
+  getTopProgramme,
+  getBestDaypart,
+  TV_DAYPARTS,
+  TV_GENRES,
+  TvSpotInsight,
+} from '@/features/audience-builder/utils/tvInsights';
 import { useMemo } from 'react';
+import { Audience } from '@/lib/types';
+import { TvAirtimePlanCard } from './TvAirtimePlanCard';
 
-export function TvSpotInsightsPanel() {
-  const { state } = useBuilderContext();
-  
-  // Get filtered insights based on TV regions
-  const insights = useMemo(() => {
-    return getMockTvInsights(state.tvRegions.length > 0 ? state.tvRegions : undefined);
-  }, [state.tvRegions]);
+interface TvSpotInsightsPanelProps {
+  districtIds?: string[]; // Resolved audience districts (TV region filter already applied)
+  districtChecksum?: string;
+  isResolving?: boolean;
+  audience?: Audience | null; // Budget and flight dates for the airtime plan
+  tvRegions?: string[]; // Selected TV region filter
+}
+
+const EMPTY_INSIGHTS: TvSpotInsight[] = [];
+const EMPTY_REGIONS: string[] = [];
+
+export function TvSpotInsightsPanel({
+  districtIds,
+  districtChecksum,
+  isResolving = false,
+  audience,
+  tvRegions = EMPTY_REGIONS,
+}: TvSpotInsightsPanelProps) {
+  const { data, isLoading, error } = useAudienceTvInsights(districtIds, districtChecksum);
+  const insights = data?.insights || EMPTY_INSIGHTS;
   
   // Calculate summary metrics
   const topChannel = getTopChannel(insights);
@@ -51,8 +73,8 @@ export function TvSpotInsightsPanel() {
   
   // Daypart & Genre matrix
   const daypartGenreMatrix = useMemo(() => {
-    const dayparts: Array<'Breakfast' | 'Daytime' | 'Peak' | 'Late'> = ['Breakfast', 'Daytime', 'Peak', 'Late'];
-    const genres: Array<'Drama' | 'Sport' | 'Entertainment' | 'News' | 'Factual'> = ['Drama', 'Sport', 'Entertainment', 'News', 'Factual'];
+    const dayparts = TV_DAYPARTS;
+    const genres = TV_GENRES;
     
     const matrix: Record<string, Record<string, number>> = {};
     
@@ -84,169 +106,201 @@ export function TvSpotInsightsPanel() {
         </Typography>
         <Typography variant="body2" sx={{ fontSize: '0.8125rem', color: 'text.secondary', lineHeight: 1.6 }}>
           This view shows which linear TV channels, programmes, and dayparts your selected audience is most likely to watch.
-          Insights are derived by matching viewing behaviour to the locations and characteristics of your audience.
-          Results are indexed, so higher values indicate stronger affinity relative to the average viewer.
+          Insights are derived by matching ACR viewing data to the postcode districts in your audience.
+          Results are indexed against viewing across all districts, so higher values indicate stronger affinity relative to the average viewer.
         </Typography>
         <Typography variant="caption" sx={{ fontSize: '0.75rem', color: 'text.secondary', mt: 1, display: 'block', fontStyle: 'italic' }}>
           Index: 100 = average, higher means stronger affinity
         </Typography>
       </Box>
       
-      {/* Summary Cards */}
-      <Grid container spacing={2} sx={{ mb: 3 }}>
-        <Grid item xs={12} sm={4}>
-          <Card>
-            <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
-              <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary', display: 'block', mb: 0.5 }}>
-                Top Channel
-              </Typography>
-              <Typography variant="h6" sx={{ fontSize: '1rem', fontWeight: 600, mb: 0.25 }}>
-                {topChannel?.channel || 'N/A'}
-              </Typography>
-              <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'primary.main', fontWeight: 500 }}>
-                Index: {topChannel?.index || 0}
-              </Typography>
-            </CardContent>
-          </Card>
-        </Grid>
-        <Grid item xs={12} sm={4}>
-          <Card>
-            <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
-              <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary', display: 'block', mb: 0.5 }}>
-                Top Programme
-              </Typography>
-              <Typography variant="h6" sx={{ fontSize: '1rem', fontWeight: 600, mb: 0.25 }}>
-                {topProgramme?.programme || 'N/A'}
-              </Typography>
-              <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'primary.main', fontWeight: 500 }}>
-                Index: {topProgramme?.index || 0}
-              </Typography>
-            </CardContent>
-          </Card>
+      {/* Data status */}
+      <TvInsightsStatus
+        isLoading={isResolving || isLoading}
+        error={error}
+        hasDistricts={!!districtIds && districtIds.length > 0}
+        hasImport={!!data?.viewingImport}
+        hasInsights={insights.length > 0}
+      />
+      {data?.viewingImport && insights.length > 0 && (
+        <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem', display: 'block', mb: 2 }}>
+          ACR viewing data{data.viewingImport.source_file ? ` from ${data.viewingImport.source_file}` : ''}, imported{' '}
+          {new Date(data.viewingImport.activated_at || data.viewingImport.created_at).toLocaleDateString()} ·{' '}
+          {data.viewingImport.district_count.toLocaleString()} districts · {data.coveredHouseholds.toLocaleString()} audience households covered
+        </Typography>
+      )}
+
+      {insights.length > 0 && (
+        <>
+        {/* Summary Cards */}
+        <Grid container spacing={2} sx={{ mb: 3 }}>
+          <Grid item xs={12} sm={4}>
+            <Card>
+              <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+                <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary', display: 'block', mb: 0.5 }}>
+                  Top Channel
+                </Typography>
+                <Typography variant="h6" sx={{ fontSize: '1rem', fontWeight: 600, mb: 0.25 }}>
+                  {topChannel?.channel || 'N/A'}
+                </Typography>
+                <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'primary.main', fontWeight: 500 }}>
+                  Index: {topChannel?.index || 0}
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <Card>
+              <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+                <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary', display: 'block', mb: 0.5 }}>
+                  Top Programme
+                </Typography>
+                <Typography variant="h6" sx={{ fontSize: '1rem', fontWeight: 600, mb: 0.25 }}>
+                  {topProgramme?.programme || 'N/A'}
+                </Typography>
+                <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'primary.main', fontWeight: 500 }}>
+                  Index: {topProgramme?.index || 0}
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <Card>
+              <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+                <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary', display: 'block', mb: 0.5 }}>
+                  Best Daypart
+                </Typography>
+                <Typography variant="h6" sx={{ fontSize: '1rem', fontWeight: 600, mb: 0.25 }}>
+                  {bestDaypart?.daypart || 'N/A'}
+                </Typography>
+                <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'primary.main', fontWeight: 500 }}>
+                  Index: {bestDaypart?.index || 0}
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
         </Grid>
-        <Grid item xs={12} sm={4}>
-          <Card>
-            <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
-              <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'text.secondary', display: 'block', mb: 0.5 }}>
-                Best Daypart
-              </Typography>
-              <Typography variant="h6" sx={{ fontSize: '1rem', fontWeight: 600, mb: 0.25 }}>
-                {bestDaypart?.daypart || 'N/A'}
+
+        {/* Top Channels & Top Programmes Tables */}
+        <Grid container spacing={2} sx={{ mb: 3 }}>
+          <Grid item xs={12} md={6}>
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem', mb: 1.5 }}>
+                Top Channels
               </Typography>
-              <Typography variant="caption" sx={{ fontSize: '0.7rem', color: 'primary.main', fontWeight: 500 }}>
-                Index: {bestDaypart?.index || 0}
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Rank</TableCell>
+                      <TableCell sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Channel</TableCell>
+                      <TableCell align="right" sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Index</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {channelStats.slice(0, 10).map((ch, idx) => (
+                      <TableRow key={ch.channel}>
+                        <TableCell sx={{ fontSize: '0.7rem', py: 0.75 }}>{idx + 1}</TableCell>
+                        <TableCell sx={{ fontSize: '0.7rem', py: 0.75, fontWeight: 500 }}>{ch.channel}</TableCell>
+                        <TableCell align="right" sx={{ fontSize: '0.7rem', py: 0.75, color: 'primary.main', fontWeight: 500 }}>{ch.avgIndex}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem', mb: 1.5 }}>
+                Top Programmes
               </Typography>
-            </CardContent>
-          </Card>
-        </Grid>
-      </Grid>
-      
-      {/* Top Channels & Top Programmes Tables */}
-      <Grid container spacing={2} sx={{ mb: 3 }}>
-        <Grid item xs={12} md={6}>
-          <Paper sx={{ p: 2 }}>
-            <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem', mb: 1.5 }}>
-              Top Channels
-            </Typography>
-            <TableContainer>
-              <Table size="small">
-                <TableHead>
-                  <TableRow>
-                    <TableCell sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Rank</TableCell>
-                    <TableCell sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Channel</TableCell>
-                    <TableCell align="right" sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Index</TableCell>
-                  </TableRow>
-                </TableHead>
-                <TableBody>
-                  {channelStats.slice(0, 10).map((ch, idx) => (
-                    <TableRow key={ch.channel}>
-                      <TableCell sx={{ fontSize: '0.7rem', py: 0.75 }}>{idx + 1}</TableCell>
-                      <TableCell sx={{ fontSize: '0.7rem', py: 0.75, fontWeight: 500 }}>{ch.channel}</TableCell>
-                      <TableCell align="right" sx={{ fontSize: '0.7rem', py: 0.75, color: 'primary.main', fontWeight: 500 }}>{ch.avgIndex}</TableCell>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Rank</TableCell>
+                      <TableCell sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Programme</TableCell>
+                      <TableCell sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Channel</TableCell>
+                      <TableCell sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Daypart</TableCell>
+                      <TableCell align="right" sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Reach</TableCell>
+                      <TableCell align="right" sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Index</TableCell>
                     </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </TableContainer>
-          </Paper>
+                  </TableHead>
+                  <TableBody>
+                    {topProgrammes.map((prog, idx) => (
+                      <TableRow key={`${prog.channel}-${prog.programme}`}>
+                        <TableCell sx={{ fontSize: '0.7rem', py: 0.75 }}>{idx + 1}</TableCell>
+                        <TableCell sx={{ fontSize: '0.7rem', py: 0.75, fontWeight: 500 }}>{prog.programme}</TableCell>
+                        <TableCell sx={{ fontSize: '0.7rem', py: 0.75 }}>{prog.channel}</TableCell>
+                        <TableCell sx={{ fontSize: '0.7rem', py: 0.75 }}>{prog.daypart}</TableCell>
+                        <TableCell align="right" sx={{ fontSize: '0.7rem', py: 0.75 }}>{prog.reach.toLocaleString()}</TableCell>
+                        <TableCell align="right" sx={{ fontSize: '0.7rem', py: 0.75, color: 'primary.main', fontWeight: 500 }}>{prog.index}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+          </Grid>
         </Grid>
-        <Grid item xs={12} md={6}>
-          <Paper sx={{ p: 2 }}>
-            <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem', mb: 1.5 }}>
-              Top Programmes
-            </Typography>
-            <TableContainer>
-              <Table size="small">
-                <TableHead>
-                  <TableRow>
-                    <TableCell sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Rank</TableCell>
-                    <TableCell sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Programme</TableCell>
-                    <TableCell sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Channel</TableCell>
-                    <TableCell sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Daypart</TableCell>
-                    <TableCell align="right" sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Index</TableCell>
-                  </TableRow>
-                </TableHead>
-                <TableBody>
-                  {topProgrammes.map((prog, idx) => (
-                    <TableRow key={`${prog.channel}-${prog.programme}`}>
-                      <TableCell sx={{ fontSize: '0.7rem', py: 0.75 }}>{idx + 1}</TableCell>
-                      <TableCell sx={{ fontSize: '0.7rem', py: 0.75, fontWeight: 500 }}>{prog.programme}</TableCell>
-                      <TableCell sx={{ fontSize: '0.7rem', py: 0.75 }}>{prog.channel}</TableCell>
-                      <TableCell sx={{ fontSize: '0.7rem', py: 0.75 }}>{prog.daypart}</TableCell>
-                      <TableCell align="right" sx={{ fontSize: '0.7rem', py: 0.75, color: 'primary.main', fontWeight: 500 }}>{prog.index}</TableCell>
-                    </TableRow>
+
+        {/* Daypart & Genre Matrix */}
+        <Paper sx={{ p: 2, mb: 3 }}>
+          <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem', mb: 1.5 }}>
+            Daypart & Genre Performance
+          </Typography>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Daypart</TableCell>
+                  {daypartGenreMatrix.genres.map(genre => (
+                    <TableCell key={genre} align="right" sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>{genre}</TableCell>
                   ))}
-                </TableBody>
-              </Table>
-            </TableContainer>
-          </Paper>
-        </Grid>
-      </Grid>
-      
-      {/* Daypart & Genre Matrix */}
-      <Paper sx={{ p: 2, mb: 3 }}>
-        <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem', mb: 1.5 }}>
-          Daypart & Genre Performance
-        </Typography>
-        <TableContainer>
-          <Table size="small">
-            <TableHead>
-              <TableRow>
-                <TableCell sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>Daypart</TableCell>
-                {daypartGenreMatrix.genres.map(genre => (
-                  <TableCell key={genre} align="right" sx={{ fontSize: '0.7rem', fontWeight: 600, py: 0.5 }}>{genre}</TableCell>
-                ))}
-              </TableRow>
-            </TableHead>
-            <TableBody>
-              {daypartGenreMatrix.dayparts.map(daypart => (
-                <TableRow key={daypart}>
-                  <TableCell sx={{ fontSize: '0.7rem', py: 0.75, fontWeight: 500 }}>{daypart}</TableCell>
-                  {daypartGenreMatrix.genres.map(genre => {
-                    const index = daypartGenreMatrix.matrix[daypart]?.[genre];
-                    return (
-                      <TableCell 
-                        key={genre} 
-                        align="right" 
-                        sx={{ 
-                          fontSize: '0.7rem', 
-                          py: 0.75,
-                          bgcolor: index ? `rgba(2, 181, 231, ${Math.min((index - 100) / 100, 0.3)})` : 'transparent',
-                          color: index && index > 120 ? 'primary.main' : 'text.primary',
-                          fontWeight: index && index > 130 ? 600 : 400,
-                        }}
-                      >
-                        {index || '-'}
-                      </TableCell>
-                    );
-                  })}
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </TableContainer>
-      </Paper>
-      
+              </TableHead>
+              <TableBody>
+                {daypartGenreMatrix.dayparts.map(daypart => (
+                  <TableRow key={daypart}>
+                    <TableCell sx={{ fontSize: '0.7rem', py: 0.75, fontWeight: 500 }}>{daypart}</TableCell>
+                    {daypartGenreMatrix.genres.map(genre => {
+                      const index = daypartGenreMatrix.matrix[daypart]?.[genre];
+                      return (
+                        <TableCell 
+                          key={genre} 
+                          align="right" 
+                          sx={{ 
+                            fontSize: '0.7rem', 
+                            py: 0.75,
+                            bgcolor: index ? `rgba(2, 181, 231, ${Math.min((index - 100) / 100, 0.3)})` : 'transparent',
+                            color: index && index > 120 ? 'primary.main' : 'text.primary',
+                            fontWeight: index && index > 130 ? 600 : 400,
+                          }}
+                        >
+                          {index || '-'}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+
+        {/* Airtime plan */}
+        <TvAirtimePlanCard
+          insights={insights}
+          audienceName={audience?.name}
+          budget={audience?.budget_total ?? null}
+          startDate={audience?.start_date ?? null}
+          endDate={audience?.end_date ?? null}
+          tvRegions={tvRegions}
+        />
+        </>
+      )}
+
       {/* How to use this */}
       <Accordion>
         <AccordionSummary expandIcon={<ExpandMore />}>
@@ -262,6 +316,9 @@ export function TvSpotInsightsPanel() {
             <Typography component="li" variant="body2" sx={{ fontSize: '0.8125rem', mb: 1 }}>
               Use dayparts to target when your audience over-indexes - focus on dayparts with higher index values
             </Typography>
+            <Typography component="li" variant="body2" sx={{ fontSize: '0.8125rem', mb: 1 }}>
+              Use the airtime plan as a starting schedule: download the CSV and adjust the split with your buying agency&apos;s rates
+            </Typography>
             <Typography component="li" variant="body2" sx={{ fontSize: '0.8125rem' }}>
               Insights are derived by matching viewing behaviour to the locations and characteristics of your audience
             </Typography>
@@ -271,3 +328,54 @@ export function TvSpotInsightsPanel() {
     </Box>
   );
 }
+
+function TvInsightsStatus({
+  isLoading,
+  error,
+  hasDistricts,
+  hasImport,
+  hasInsights,
+}: {
+  isLoading: boolean;
+  error: unknown;
+  hasDistricts: boolean;
+  hasImport: boolean;
+  hasInsights: boolean;
+}) {
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+        <CircularProgress size={28} />
+      </Box>
+    );
+  }
+  if (error) {
+    return (
+      <Alert severity="error" sx={{ fontSize: '0.8125rem', mb: 3 }}>
+        Failed to load TV viewing insights: {error instanceof Error ? error.message : 'unknown error'}
+      </Alert>
+    );
+  }
+  if (!hasDistricts) {
+    return (
+      <Alert severity="info" sx={{ fontSize: '0.8125rem', mb: 3 }}>
+        Build the audience to see TV spot insights for its districts.
+      </Alert>
+    );
+  }
+  if (!hasImport) {
+    return (
+      <Alert severity="info" sx={{ fontSize: '0.8125rem', mb: 3 }}>
+        No ACR viewing data has been imported yet. Run npm run db:import:tv-viewing to load a viewing file.
+      </Alert>
+    );
+  }
+  if (!hasInsights) {
+    return (
+      <Alert severity="info" sx={{ fontSize: '0.8125rem', mb: 3 }}>
+        The viewing data does not cover any of this audience&apos;s districts.
+      </Alert>
+    );
+  }
+  return null;
+}
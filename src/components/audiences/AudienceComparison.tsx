@@ -0,0 +1,360 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import dynamic from 'next/dynamic';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Checkbox,
+  FormControlLabel,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import { ArrowBack as ArrowBackIcon } from '@mui/icons-material';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { useAudienceComparison } from '@/features/audience-builder/hooks/useAudienceComparison';
+import {
+  MIN_COMPARED_AUDIENCES,
+  MAX_COMPARED_AUDIENCES,
+} from '@/features/audience-builder/services/audienceComparison.service';
+
+const ComparisonMapClient = dynamic(() => import('./ComparisonMap').then(mod => ({ default: mod.ComparisonMap })), {
+  ssr: false,
+});
+
+// One colour per compared audience (max 4)
+const AUDIENCE_COLORS = ['#02b5e7', '#e65100', '#7b1fa2', '#2e7d32'];
+
+const headerCellSx = { fontWeight: 600, fontSize: '0.75rem', py: 1 };
+const cellSx = { fontSize: '0.8125rem', py: 0.75 };
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function SectionCard({ title, subtitle, children }: { title: string; subtitle?: string; children: React.ReactNode }) {
+  return (
+    <Card sx={{ boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)' }}>
+      <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+        <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem' }}>
+          {title}
+        </Typography>
+        {subtitle && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+            {subtitle}
+          </Typography>
+        )}
+        {children}
+      </CardContent>
+    </Card>
+  );
+}
+
+function AudienceSwatch({ color }: { color: string }) {
+  return <Box sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: color, flexShrink: 0 }} />;
+}
+
+interface AudienceComparisonProps {
+  audienceIds: string[];
+}
+
+export function AudienceComparison({ audienceIds }: AudienceComparisonProps) {
+  const router = useRouter();
+  const { data: comparison, isLoading, error } = useAudienceComparison(audienceIds);
+  const [hiddenAudienceIds, setHiddenAudienceIds] = useState<Set<string>>(new Set());
+
+  const validSelection = audienceIds.length >= MIN_COMPARED_AUDIENCES && audienceIds.length <= MAX_COMPARED_AUDIENCES;
+
+  const colorById = useMemo(() => {
+    const map: Record<string, string> = {};
+    (comparison?.audiences || []).forEach((a, index) => {
+      map[a.id] = AUDIENCE_COLORS[index % AUDIENCE_COLORS.length];
+    });
+    return map;
+  }, [comparison]);
+
+  const nameById = useMemo(() => {
+    const map: Record<string, string> = {};
+    (comparison?.audiences || []).forEach((a) => {
+      map[a.id] = a.name;
+    });
+    return map;
+  }, [comparison]);
+
+  const visibleAudienceIds = useMemo(
+    () => new Set((comparison?.audiences || []).map((a) => a.id).filter((id) => !hiddenAudienceIds.has(id))),
+    [comparison, hiddenAudienceIds]
+  );
+
+  // Union of TV regions across audiences, largest combined households first
+  const tvRegionRows = useMemo(() => {
+    const rows = new Map<string, { regionKey: string; name: string; total: number }>();
+    for (const audience of comparison?.audiences || []) {
+      for (const region of audience.tvRegions) {
+        const row = rows.get(region.regionKey) || { regionKey: region.regionKey, name: region.name, total: 0 };
+        row.total += region.households;
+        rows.set(region.regionKey, row);
+      }
+    }
+    return Array.from(rows.values()).sort((a, b) => b.total - a.total);
+  }, [comparison]);
+
+  const toggleAudienceVisible = (audienceId: string) => {
+    setHiddenAudienceIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(audienceId)) next.delete(audienceId);
+      else next.add(audienceId);
+      return next;
+    });
+  };
+
+  const renderAudienceHeader = (audienceId: string) => (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75, justifyContent: 'flex-end' }}>
+      <AudienceSwatch color={colorById[audienceId]} />
+      {nameById[audienceId]}
+    </Box>
+  );
+
+  return (
+    <AppLayout>
+      <Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+          <Button
+            size="small"
+            startIcon={<ArrowBackIcon />}
+            onClick={() => router.push('/audiences')}
+            sx={{ fontSize: '0.8125rem' }}
+          >
+            Audiences
+          </Button>
+          <Typography variant="h6" sx={{ fontWeight: 600, fontSize: '1.125rem' }}>
+            Compare Audiences
+          </Typography>
+        </Box>
+
+        {!validSelection ? (
+          <Alert severity="info">
+            Select between {MIN_COMPARED_AUDIENCES} and {MAX_COMPARED_AUDIENCES} audiences from the audiences list to compare.
+          </Alert>
+        ) : isLoading ? (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, py: 6, justifyContent: 'center' }}>
+            <CircularProgress size={20} />
+            <Typography variant="body2" color="text.secondary">
+              Resolving audiences...
+            </Typography>
+          </Box>
+        ) : error || !comparison ? (
+          <Alert severity="error">
+            Failed to compare audiences: {error instanceof Error ? error.message : 'Unknown error'}
+          </Alert>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {/* Per-audience summary */}
+            <Box sx={{ display: 'grid', gridTemplateColumns: `repeat(${comparison.audiences.length}, 1fr)`, gap: 2 }}>
+              {comparison.audiences.map((audience) => (
+                <Card key={audience.id} sx={{ boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)', borderTop: `3px solid ${colorById[audience.id]}` }}>
+                  <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+                    <Typography sx={{ fontWeight: 600, fontSize: '0.875rem', mb: 0.5 }}>{audience.name}</Typography>
+                    {audience.mode && (
+                      <Chip
+                        label={audience.mode === 'validation' ? 'Validation' : 'Extension'}
+                        size="small"
+                        sx={{
+                          height: 20,
+                          fontSize: '0.7rem',
+                          mb: 1,
+                          bgcolor: audience.mode === 'validation' ? '#e3f2fd' : '#f3e5f5',
+                          color: audience.mode === 'validation' ? '#1976d2' : '#7b1fa2',
+                        }}
+                      />
+                    )}
+                    {!audience.resolved ? (
+                      <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>
+                        No segment selected yet
+                      </Typography>
+                    ) : (
+                      <Box sx={{ display: 'grid', gridTemplateColumns: '1fr auto', rowGap: 0.25, fontSize: '0.8125rem' }}>
+                        <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>Households</Typography>
+                        <Typography variant="body2" sx={{ fontSize: '0.8125rem', fontWeight: 500 }}>{audience.households.toLocaleString()}</Typography>
+                        <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>Districts</Typography>
+                        <Typography variant="body2" sx={{ fontSize: '0.8125rem', fontWeight: 500 }}>{audience.districtCount.toLocaleString()}</Typography>
+                        <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>Unique districts</Typography>
+                        <Typography variant="body2" sx={{ fontSize: '0.8125rem', fontWeight: 500 }}>
+                          {audience.uniqueDistricts.toLocaleString()}
+                          {audience.districtCount > 0 && ` (${formatPercent(audience.uniqueDistricts / audience.districtCount)})`}
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>Unique households</Typography>
+                        <Typography variant="body2" sx={{ fontSize: '0.8125rem', fontWeight: 500 }}>{audience.uniqueHouseholds.toLocaleString()}</Typography>
+                      </Box>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </Box>
+
+            {/* Overlap */}
+            <SectionCard
+              title="District overlap"
+              subtitle={`Shared by all ${comparison.audiences.length}: ${comparison.sharedByAll.districts.toLocaleString()} districts, ${comparison.sharedByAll.households.toLocaleString()} households`}
+            >
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={headerCellSx}>Audiences</TableCell>
+                      <TableCell sx={headerCellSx} align="right">Jaccard</TableCell>
+                      <TableCell sx={headerCellSx} align="right">Shared districts</TableCell>
+                      <TableCell sx={headerCellSx} align="right">Shared households</TableCell>
+                      <TableCell sx={headerCellSx} align="right">Combined districts</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {comparison.pairs.map((pair) => (
+                      <TableRow key={`${pair.audienceA}:${pair.audienceB}`}>
+                        <TableCell sx={cellSx}>
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+                            <AudienceSwatch color={colorById[pair.audienceA]} />
+                            {nameById[pair.audienceA]}
+                            <Typography component="span" color="text.secondary" sx={{ fontSize: '0.75rem' }}>vs</Typography>
+                            <AudienceSwatch color={colorById[pair.audienceB]} />
+                            {nameById[pair.audienceB]}
+                          </Box>
+                        </TableCell>
+                        <TableCell sx={cellSx} align="right">{formatPercent(pair.jaccard)}</TableCell>
+                        <TableCell sx={cellSx} align="right">{pair.sharedDistricts.toLocaleString()}</TableCell>
+                        <TableCell sx={cellSx} align="right">{pair.sharedHouseholds.toLocaleString()}</TableCell>
+                        <TableCell sx={cellSx} align="right">{pair.unionDistricts.toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </SectionCard>
+
+            {/* Combined map */}
+            <SectionCard title="Combined map" subtitle="Shared districts show as concentric rings">
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1.5, mb: 1 }}>
+                {comparison.audiences.map((audience) => (
+                  <FormControlLabel
+                    key={audience.id}
+                    control={
+                      <Checkbox
+                        size="small"
+                        checked={visibleAudienceIds.has(audience.id)}
+                        onChange={() => toggleAudienceVisible(audience.id)}
+                        sx={{ color: colorById[audience.id], '&.Mui-checked': { color: colorById[audience.id] } }}
+                      />
+                    }
+                    label={<Typography sx={{ fontSize: '0.8125rem' }}>{audience.name}</Typography>}
+                  />
+                ))}
+              </Box>
+              <Box sx={{ height: 520, borderRadius: 1, overflow: 'hidden', border: '1px solid #e0e0e0' }}>
+                <ComparisonMapClient
+                  districts={comparison.districts}
+                  audienceIds={comparison.audiences.map((a) => a.id)}
+                  colors={AUDIENCE_COLORS}
+                  visibleAudienceIds={visibleAudienceIds}
+                  audienceNames={nameById}
+                />
+              </Box>
+            </SectionCard>
+
+            {/* Provider contributions */}
+            <SectionCard title="Provider contributions" subtitle="Districts each provider supports, and share of the audience's districts">
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={headerCellSx}>Provider</TableCell>
+                      {comparison.audiences.map((audience) => (
+                        <TableCell key={audience.id} sx={headerCellSx} align="right">
+                          {renderAudienceHeader(audience.id)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {comparison.providers.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={comparison.audiences.length + 1} sx={{ ...cellSx, color: 'text.secondary' }}>
+                          No provider data
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      comparison.providers.map((provider) => (
+                        <TableRow key={provider}>
+                          <TableCell sx={cellSx}>{provider}</TableCell>
+                          {comparison.audiences.map((audience) => {
+                            const contribution = audience.providerContributions.find((p) => p.provider === provider);
+                            return (
+                              <TableCell key={audience.id} sx={cellSx} align="right">
+                                {contribution
+                                  ? `${contribution.districts.toLocaleString()} (${formatPercent(contribution.districts / Math.max(1, audience.districtCount))})`
+                                  : '—'}
+                              </TableCell>
+                            );
+                          })}
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </SectionCard>
+
+            {/* TV regions */}
+            <SectionCard title="TV regions" subtitle="Households per TV region (districts in brackets)">
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={headerCellSx}>TV region</TableCell>
+                      {comparison.audiences.map((audience) => (
+                        <TableCell key={audience.id} sx={headerCellSx} align="right">
+                          {renderAudienceHeader(audience.id)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {tvRegionRows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={comparison.audiences.length + 1} sx={{ ...cellSx, color: 'text.secondary' }}>
+                          No TV region mapping for these districts
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      tvRegionRows.map((row) => (
+                        <TableRow key={row.regionKey}>
+                          <TableCell sx={cellSx}>{row.name}</TableCell>
+                          {comparison.audiences.map((audience) => {
+                            const region = audience.tvRegions.find((r) => r.regionKey === row.regionKey);
+                            return (
+                              <TableCell key={audience.id} sx={cellSx} align="right">
+                                {region ? `${region.households.toLocaleString()} (${region.districts.toLocaleString()})` : '—'}
+                              </TableCell>
+                            );
+                          })}
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </SectionCard>
+          </Box>
+        )}
+      </Box>
+    </AppLayout>
+  );
+}
@@ -1,13 +1,17 @@
 'use client';
 
 import { Box, Card, CardContent, Typography, Button, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, IconButton, Menu, MenuItem, TextField, InputAdornment, Chip, Select, FormControl, InputLabel, Dialog, DialogTitle, DialogContent, DialogActions, Checkbox, FormControlLabel } from '@mui/material';
-import { Add as AddIcon, MoreVert as MoreVertIcon, Search as SearchIcon, FilterList as FilterIcon, FolderOpen as FolderOpenIcon, Close as CloseIcon } from '@mui/icons-material';
+import { Add as AddIcon, MoreVert as MoreVertIcon, Search as SearchIcon, FilterList as FilterIcon, FolderOpen as FolderOpenIcon, Close as CloseIcon, CompareArrows as CompareIcon, JoinInner as CombineIcon } from '@mui/icons-material';
 import { useRouter } from 'next/navigation';
 import { useAudiences, useCreateAudience, useDeleteAudience } from '@/features/audience-builder/hooks/useAudiences';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useState, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { createClient } from '@/lib/supabase/client';
+import { MIN_COMPARED_AUDIENCES, MAX_COMPARED_AUDIENCES } from '@/features/audience-builder/services/audienceComparison.service';
+import { getCompositions, CompositionOperation } from '@/features/audience-builder/api/compositions';
+import { useCreateCompositeAudience } from '@/features/audience-builder/hooks/useCompositions';
+import { COMPOSITION_OPERATION_LABELS } from '@/features/audience-builder/utils/districtSetOperations';
 
 interface AudienceRowData {
   id: string;
@@ -17,6 +21,7 @@ interface AudienceRowData {
   constructionMode: 'validation' | 'extension' | null;
   households: number | null;
   districts: number | null;
+  composition: CompositionOperation | null; // Set for audiences composed from other audiences
 }
 
 // Fetch audience details in batch
@@ -56,6 +61,9 @@ async function fetchAudienceDetails(audienceIds: string[]) {
     .in('audience_id', audienceIds)
     .eq('segment_type', 'primary');
 
+  // Fetch composition recipes (composite audiences)
+  const compositions = await getCompositions(audienceIds).catch(() => new Map());
+
   // Build details map
   audienceIds.forEach((id) => {
     const audience = (audiences as any[])?.find((a: any) => a.id === id);
@@ -85,6 +93,7 @@ async function fetchAudienceDetails(audienceIds: string[]) {
       client: clientName,
       households: null, // Will be populated from validation/extension results if available
       districts: null,
+      composition: compositions.get(id)?.operation || null,
     });
   });
 
@@ -107,6 +116,12 @@ export function AudiencesList() {
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [newAudienceName, setNewAudienceName] = useState('');
   const [newAudienceClient, setNewAudienceClient] = useState<string>('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [combineDialogOpen, setCombineDialogOpen] = useState(false);
+  const [combineOperation, setCombineOperation] = useState<CompositionOperation>('union');
+  const [combineBaseId, setCombineBaseId] = useState<string>('');
+  const [combineName, setCombineName] = useState('');
+  const createCompositeMutation = useCreateCompositeAudience();
 
   // Fetch clients for filter
   const { data: clients = [] } = useQuery({
@@ -143,6 +158,7 @@ export function AudiencesList() {
         constructionMode: details.constructionMode || null,
         households: details.households || null,
         districts: details.districts || null,
+        composition: details.composition || null,
       };
     });
 
@@ -211,6 +227,56 @@ export function AudiencesList() {
     setNewAudienceClient('');
   };
 
+  const handleCompareToggle = (audienceId: string) => {
+    setCompareIds((prev) =>
+      prev.includes(audienceId)
+        ? prev.filter((id) => id !== audienceId)
+        : prev.length < MAX_COMPARED_AUDIENCES
+          ? [...prev, audienceId]
+          : prev
+    );
+  };
+
+  const handleCompareClick = () => {
+    router.push(`/audiences/compare?ids=${compareIds.map(encodeURIComponent).join(',')}`);
+  };
+
+  const handleCombineClick = () => {
+    setCombineOperation('union');
+    setCombineBaseId(compareIds[0] || '');
+    setCombineName('');
+    setCombineDialogOpen(true);
+  };
+
+  const handleCombineConfirm = async () => {
+    if (!combineName.trim()) return;
+
+    // Exclude subtracts the other audiences from the chosen base, so the base goes first
+    const sourceAudienceIds = combineOperation === 'exclude'
+      ? [combineBaseId, ...compareIds.filter((id) => id !== combineBaseId)]
+      : compareIds;
+    const baseClientId = (audiences.find((a) => a.id === sourceAudienceIds[0]) as any)?.client_id ?? null;
+
+    try {
+      const audience = await createCompositeMutation.mutateAsync({
+        name: combineName.trim(),
+        client_id: baseClientId,
+        operation: combineOperation,
+        sourceAudienceIds,
+      });
+      setCombineDialogOpen(false);
+      setCompareIds([]);
+      router.push(`/audiences/${audience.id}/composition`);
+    } catch (error) {
+      console.error('Failed to create combined audience:', error);
+      alert('Failed to create combined audience. Please try again.');
+    }
+  };
+
+  const handleRowClick = (row: AudienceRowData) => {
+    router.push(row.composition ? `/audiences/${row.id}/composition` : `/audiences/${row.id}/builder?step=1`);
+  };
+
   const handleMenuOpen = (event: React.MouseEvent<HTMLElement>, audienceId: string) => {
     setMenuAnchor(event.currentTarget);
     setSelectedAudienceId(audienceId);
@@ -231,6 +297,7 @@ export function AudiencesList() {
     
     try {
       await deleteMutation.mutateAsync(selectedAudienceId);
+      setCompareIds((prev) => prev.filter((id) => id !== selectedAudienceId));
       setDeleteDialogOpen(false);
       setSelectedAudienceId(null);
     } catch (error) {
@@ -251,16 +318,38 @@ export function AudiencesList() {
           <Typography variant="h6" sx={{ fontWeight: 600, fontSize: '1.125rem' }}>
             Audiences
           </Typography>
-          <Button
-            variant="contained"
-            startIcon={<AddIcon />}
-            onClick={handleCreateClick}
-            disabled={creating}
-            size="small"
-            sx={{ bgcolor: '#02b5e7', '&:hover': { bgcolor: '#02a0d0' } }}
-          >
-            Create New Audience
-          </Button>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              variant="outlined"
+              startIcon={<CombineIcon />}
+              onClick={handleCombineClick}
+              disabled={compareIds.length < 2}
+              size="small"
+              title="Create a new audience from the union, intersection or difference of the selected audiences"
+            >
+              Combine
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<CompareIcon />}
+              onClick={handleCompareClick}
+              disabled={compareIds.length < MIN_COMPARED_AUDIENCES}
+              size="small"
+              title={`Select ${MIN_COMPARED_AUDIENCES}-${MAX_COMPARED_AUDIENCES} audiences to compare`}
+            >
+              Compare{compareIds.length > 0 ? ` (${compareIds.length})` : ''}
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={handleCreateClick}
+              disabled={creating}
+              size="small"
+              sx={{ bgcolor: '#02b5e7', '&:hover': { bgcolor: '#02a0d0' } }}
+            >
+              Create New Audience
+            </Button>
+          </Box>
         </Box>
 
         {isLoading ? (
@@ -316,6 +405,7 @@ export function AudiencesList() {
               <Table size="small">
                 <TableHead>
                   <TableRow sx={{ bgcolor: '#f5f5f5' }}>
+                    <TableCell padding="checkbox" sx={{ py: 1.5 }}></TableCell>
                     <TableCell sx={{ fontWeight: 600, fontSize: '0.75rem', py: 1.5 }}>Client</TableCell>
                     <TableCell sx={{ fontWeight: 600, fontSize: '0.75rem', py: 1.5 }}>Segment Name</TableCell>
                     <TableCell sx={{ fontWeight: 600, fontSize: '0.75rem', py: 1.5 }}>Construction Mode</TableCell>
@@ -327,7 +417,7 @@ export function AudiencesList() {
                 <TableBody>
                   {tableData.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={6} sx={{ py: 8, px: 3, border: 0 }}>
+                      <TableCell colSpan={7} sx={{ py: 8, px: 3, border: 0 }}>
                         <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 2 }}>
                           <Box
                             sx={{
@@ -362,9 +452,18 @@ export function AudiencesList() {
                     <TableRow
                       key={row.id}
                       hover
-                      onClick={() => router.push(`/audiences/${row.id}/builder?step=1`)}
+                      onClick={() => handleRowClick(row)}
                       sx={{ cursor: 'pointer', '&:hover': { bgcolor: '#fafafa' } }}
                     >
+                      <TableCell padding="checkbox" onClick={(e) => e.stopPropagation()}>
+                        <Checkbox
+                          size="small"
+                          checked={compareIds.includes(row.id)}
+                          disabled={!compareIds.includes(row.id) && compareIds.length >= MAX_COMPARED_AUDIENCES}
+                          onChange={() => handleCompareToggle(row.id)}
+                          inputProps={{ 'aria-label': `Select ${row.name} for comparison` }}
+                        />
+                      </TableCell>
                       <TableCell sx={{ fontSize: '0.8125rem', py: 1 }}>
                         {row.client}
                       </TableCell>
@@ -374,7 +473,13 @@ export function AudiencesList() {
                         </Typography>
                       </TableCell>
                       <TableCell sx={{ fontSize: '0.8125rem', py: 1 }}>
-                        {row.constructionMode ? (
+                        {row.composition ? (
+                          <Chip
+                            label={`Composite · ${COMPOSITION_OPERATION_LABELS[row.composition]}`}
+                            size="small"
+                            sx={{ height: 20, fontSize: '0.7rem', bgcolor: '#fff3e0', color: '#e65100' }}
+                          />
+                        ) : row.constructionMode ? (
                           <Chip
                             label={row.constructionMode === 'validation' ? 'Validation' : 'Extension'}
                             size="small"
@@ -693,6 +798,86 @@ export function AudiencesList() {
           </Box>
         </Dialog>
 
+        {/* Combine Audiences Dialog */}
+        <Dialog
+          open={combineDialogOpen}
+          onClose={() => setCombineDialogOpen(false)}
+          maxWidth="sm"
+          fullWidth
+        >
+          <DialogTitle sx={{ fontSize: '1.25rem', fontWeight: 600, pb: 1 }}>
+            Combine Audiences
+          </DialogTitle>
+          <DialogContent>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+              <Typography variant="body2" sx={{ fontSize: '0.8125rem', color: 'text.secondary' }}>
+                Creates a new audience from the selected audiences&apos; districts. The recipe is saved, so the new
+                audience updates when its sources change.
+              </Typography>
+              <FormControl fullWidth size="small">
+                <InputLabel sx={{ fontSize: '0.8125rem' }}>Operation</InputLabel>
+                <Select
+                  label="Operation"
+                  value={combineOperation}
+                  onChange={(e) => setCombineOperation(e.target.value as CompositionOperation)}
+                  sx={{ fontSize: '0.8125rem' }}
+                >
+                  <MenuItem value="union" sx={{ fontSize: '0.8125rem' }}>Union: districts in any audience</MenuItem>
+                  <MenuItem value="intersect" sx={{ fontSize: '0.8125rem' }}>Intersect: districts in every audience</MenuItem>
+                  <MenuItem value="exclude" sx={{ fontSize: '0.8125rem' }}>Exclude: base audience minus the others</MenuItem>
+                </Select>
+              </FormControl>
+              {combineOperation === 'exclude' && (
+                <FormControl fullWidth size="small">
+                  <InputLabel sx={{ fontSize: '0.8125rem' }}>Base audience</InputLabel>
+                  <Select
+                    label="Base audience"
+                    value={combineBaseId}
+                    onChange={(e) => setCombineBaseId(e.target.value)}
+                    sx={{ fontSize: '0.8125rem' }}
+                  >
+                    {compareIds.map((id) => (
+                      <MenuItem key={id} value={id} sx={{ fontSize: '0.8125rem' }}>
+                        {audiences.find((a) => a.id === id)?.name || id}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+              <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                {combineOperation === 'exclude'
+                  ? `${audiences.find((a) => a.id === combineBaseId)?.name || ''} excluding ${compareIds
+                      .filter((id) => id !== combineBaseId)
+                      .map((id) => audiences.find((a) => a.id === id)?.name || id)
+                      .join(', ')}`
+                  : compareIds.map((id) => audiences.find((a) => a.id === id)?.name || id).join(', ')}
+              </Typography>
+              <TextField
+                label="New audience name"
+                size="small"
+                value={combineName}
+                onChange={(e) => setCombineName(e.target.value)}
+                fullWidth
+                InputProps={{ sx: { fontSize: '0.8125rem' } }}
+                InputLabelProps={{ sx: { fontSize: '0.8125rem' } }}
+              />
+            </Box>
+          </DialogContent>
+          <DialogActions sx={{ px: 3, pb: 2 }}>
+            <Button onClick={() => setCombineDialogOpen(false)} sx={{ fontSize: '0.8125rem' }}>
+              Cancel
+            </Button>
+            <Button
+              variant="contained"
+              onClick={handleCombineConfirm}
+              disabled={!combineName.trim() || createCompositeMutation.isPending}
+              sx={{ bgcolor: '#02b5e7', '&:hover': { bgcolor: '#02a0d0' }, fontSize: '0.8125rem' }}
+            >
+              {createCompositeMutation.isPending ? 'Creating...' : 'Create'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
         {/* Delete Confirmation Dialog */}
         <Dialog
           open={deleteDialogOpen}
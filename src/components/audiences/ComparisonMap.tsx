@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useEffect, useMemo } from 'react';
+import { MapContainer, CircleMarker, Tooltip, useMap } from 'react-leaflet';
+import { Box } from '@mui/material';
+import L from 'leaflet';
+import { BaseGreyTileLayer } from '@/components/audience-builder/map/BaseGreyTileLayer';
+import { useMapResize } from '@/components/audience-builder/map/useMapResize';
+import { ComparisonDistrict } from '@/features/audience-builder/services/audienceComparison.service';
+
+interface ComparisonMapProps {
+  districts: ComparisonDistrict[];
+  audienceIds: string[]; // Draw order; index matches colors
+  colors: string[];
+  visibleAudienceIds: Set<string>;
+  audienceNames: Record<string, string>;
+}
+
+function FitToDistricts({ districts }: { districts: ComparisonDistrict[] }) {
+  const map = useMap();
+  useMapResize();
+
+  useEffect(() => {
+    const latLngs = districts
+      .filter((d) => d.centroid_lat && d.centroid_lng)
+      .map((d) => [d.centroid_lat, d.centroid_lng] as [number, number]);
+    if (latLngs.length > 0) {
+      map.fitBounds(L.latLngBounds(latLngs), { padding: [30, 30], maxZoom: 9 });
+    }
+  }, [map, districts]);
+
+  return null;
+}
+
+/**
+ * Combined map for the audience comparison.
+ * Each audience draws its districts in its own colour; shared districts show as
+ * concentric rings (first audience outermost) so overlap is visible at a glance.
+ */
+function ComparisonMapComponent({
+  districts,
+  audienceIds,
+  colors,
+  visibleAudienceIds,
+  audienceNames,
+}: ComparisonMapProps) {
+  const markers = useMemo(() => {
+    const result: Array<{ key: string; district: ComparisonDistrict; color: string; radius: number }> = [];
+    audienceIds.forEach((audienceId, index) => {
+      if (!visibleAudienceIds.has(audienceId)) return;
+      for (const district of districts) {
+        if (!district.audienceIds.includes(audienceId)) continue;
+        result.push({
+          key: `${audienceId}:${district.district}`,
+          district,
+          color: colors[index % colors.length],
+          radius: 7 - index * 1.5,
+        });
+      }
+    });
+    return result;
+  }, [districts, audienceIds, colors, visibleAudienceIds]);
+
+  return (
+    <Box
+      sx={{
+        width: '100%',
+        height: '100%',
+        '& .leaflet-tile-pane': {
+          filter: 'grayscale(1) brightness(1.05) contrast(1.05)',
+        },
+      }}
+    >
+      <MapContainer
+        center={[54.5, -2]}
+        zoom={6}
+        style={{ height: '100%', width: '100%' }}
+        preferCanvas
+      >
+        <BaseGreyTileLayer />
+        <FitToDistricts districts={districts} />
+        {markers.map(({ key, district, color, radius }) => (
+          <CircleMarker
+            key={key}
+            center={[district.centroid_lat, district.centroid_lng]}
+            radius={radius}
+            pathOptions={{ color, fillColor: color, fillOpacity: 0.45, weight: 1 }}
+          >
+            <Tooltip>
+              <strong>{district.district}</strong>
+              <br />
+              {district.households.toLocaleString()} households
+              <br />
+              {district.audienceIds.map((id) => audienceNames[id] || id).join(', ')}
+            </Tooltip>
+          </CircleMarker>
+        ))}
+      </MapContainer>
+    </Box>
+  );
+}
+
+export const ComparisonMap = React.memo(ComparisonMapComponent);
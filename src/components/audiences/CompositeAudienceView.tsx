@@ -0,0 +1,257 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  Chip,
+  CircularProgress,
+  Alert,
+  Snackbar,
+  Link,
+} from '@mui/material';
+import { ArrowBack as ArrowBackIcon, Download } from '@mui/icons-material';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { ExportHistoryCard } from '@/components/audience-builder/steps/ExportHistoryCard';
+import { useAudience, useAudiences } from '@/features/audience-builder/hooks/useAudiences';
+import { useComposition, useCompositions } from '@/features/audience-builder/hooks/useCompositions';
+import { useAudienceResolution } from '@/features/audience-builder/hooks/useAudienceResolution';
+import { useExportJobCompletion } from '@/features/audience-builder/hooks/useExports';
+import { compositionResolutionInput } from '@/features/audience-builder/services/audienceResolution.service';
+import { COMPOSITION_OPERATION_LABELS } from '@/features/audience-builder/utils/districtSetOperations';
+
+const OPERATION_DESCRIPTIONS = {
+  union: 'Districts in any of the source audiences',
+  intersect: 'Districts in every source audience',
+  exclude: 'Districts in the first audience that are in none of the others',
+};
+
+interface CompositeAudienceViewProps {
+  audienceId: string;
+}
+
+export function CompositeAudienceView({ audienceId }: CompositeAudienceViewProps) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { data: audience } = useAudience(audienceId);
+  const { data: audiences = [] } = useAudiences();
+  const { data: composition, isLoading: compositionLoading } = useComposition(audienceId);
+  const sourceIds = composition?.sourceAudienceIds || [];
+  const { data: sourceCompositions = new Map() } = useCompositions(sourceIds);
+
+  const resolutionInput = useMemo(
+    () => (composition ? compositionResolutionInput(audienceId, composition) : null),
+    [audienceId, composition]
+  );
+  const { data: resolution, isLoading: resolutionLoading, error: resolutionError } = useAudienceResolution(resolutionInput);
+
+  const [exportingType, setExportingType] = useState<'csv' | 'geojson' | null>(null);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+
+  const nameById = useMemo(() => new Map(audiences.map((a) => [a.id, a.name])), [audiences]);
+
+  const audiencePath = (id: string) =>
+    sourceCompositions.has(id) ? `/audiences/${id}/composition` : `/audiences/${id}/builder?step=3`;
+
+  const handleDownload = async (storagePath: string) => {
+    try {
+      const response = await fetch(`/api/exports/download?path=${encodeURIComponent(storagePath)}`);
+      if (!response.ok) {
+        throw new Error('Failed to generate download URL');
+      }
+      const { url } = await response.json();
+      window.open(url, '_blank');
+    } catch (error) {
+      console.error('Download error:', error);
+      setSnackbarMessage('Download failed. Please try again.');
+    }
+  };
+
+  const watchExportJob = useExportJobCompletion(audienceId, {
+    onSucceeded: (job) => {
+      queryClient.invalidateQueries({ queryKey: ['audience_snapshots', audienceId] });
+      if (job.storage_path) {
+        handleDownload(job.storage_path);
+      }
+    },
+    onFailed: (job) => {
+      setSnackbarMessage(`Export failed: ${job.error_detail || 'unknown error'}. You can retry it from History.`);
+    },
+  });
+
+  const handleExport = async (exportType: 'csv' | 'geojson') => {
+    setExportingType(exportType);
+    try {
+      // The route resolves composite audiences from the stored recipe
+      const response = await fetch('/api/exports/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          audienceId,
+          exportType,
+          activationTarget: exportType === 'geojson' ? 'geojson' : 'postcode_sector',
+          recommendedThreshold: 50,
+          expectedChecksum: resolution?.checksum || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Export failed');
+      }
+
+      const result = await response.json();
+
+      // The export is generated as a job; download it once it succeeds
+      if (result.export) {
+        watchExportJob(result.export.id);
+      }
+      queryClient.invalidateQueries({ queryKey: ['exports', audienceId] });
+    } catch (error) {
+      console.error('Export error:', error);
+      setSnackbarMessage(error instanceof Error ? error.message : 'Export failed. Please try again.');
+    } finally {
+      setExportingType(null);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <Box sx={{ maxWidth: 1200 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+          <Button
+            size="small"
+            startIcon={<ArrowBackIcon />}
+            onClick={() => router.push('/audiences')}
+            sx={{ fontSize: '0.8125rem' }}
+          >
+            Audiences
+          </Button>
+          <Typography variant="h6" sx={{ fontWeight: 600, fontSize: '1.125rem' }}>
+            {audience?.name || 'Composite audience'}
+          </Typography>
+          {composition && (
+            <Chip
+              label={COMPOSITION_OPERATION_LABELS[composition.operation]}
+              size="small"
+              sx={{ height: 20, fontSize: '0.7rem', bgcolor: '#fff3e0', color: '#e65100' }}
+            />
+          )}
+        </Box>
+
+        {compositionLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : !composition ? (
+          <Alert severity="info">
+            This audience is not composed from other audiences.{' '}
+            <Link component="button" onClick={() => router.push(`/audiences/${audienceId}/builder?step=1`)}>
+              Open in builder
+            </Link>
+          </Alert>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {/* Recipe */}
+            <Card sx={{ boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)' }}>
+              <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+                <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem' }}>
+                  Composition
+                </Typography>
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                  {OPERATION_DESCRIPTIONS[composition.operation]}. Re-resolved from the sources each time, so changes to them carry through.
+                </Typography>
+                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                  {composition.sourceAudienceIds.map((sourceId, index) => (
+                    <Typography key={sourceId} variant="body2" sx={{ fontSize: '0.8125rem' }}>
+                      {composition.operation === 'exclude' && (
+                        <Typography component="span" color="text.secondary" sx={{ fontSize: '0.75rem', mr: 1 }}>
+                          {index === 0 ? 'Base' : 'Minus'}
+                        </Typography>
+                      )}
+                      <Link component="button" onClick={() => router.push(audiencePath(sourceId))} sx={{ fontSize: '0.8125rem' }}>
+                        {nameById.get(sourceId) || sourceId}
+                      </Link>
+                    </Typography>
+                  ))}
+                </Box>
+              </CardContent>
+            </Card>
+
+            {/* Resolved summary + export */}
+            <Card sx={{ boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)' }}>
+              <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+                <Typography variant="subtitle2" sx={{ fontWeight: 600, fontSize: '0.875rem', mb: 1 }}>
+                  Resolved audience
+                </Typography>
+                {resolutionLoading ? (
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+                    <CircularProgress size={16} />
+                    <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>
+                      Resolving source audiences...
+                    </Typography>
+                  </Box>
+                ) : resolutionError || !resolution ? (
+                  <Alert severity="error">
+                    {resolutionError instanceof Error ? resolutionError.message : 'Failed to resolve audience'}
+                  </Alert>
+                ) : (
+                  <Box sx={{ display: 'flex', alignItems: 'flex-end', justifyContent: 'space-between', gap: 2 }}>
+                    <Box sx={{ display: 'grid', gridTemplateColumns: 'auto auto', columnGap: 3, rowGap: 0.25 }}>
+                      <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>Districts</Typography>
+                      <Typography variant="body2" sx={{ fontSize: '0.8125rem', fontWeight: 500 }}>{resolution.districtIds.length.toLocaleString()}</Typography>
+                      <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>Households</Typography>
+                      <Typography variant="body2" sx={{ fontSize: '0.8125rem', fontWeight: 500 }}>{resolution.estimatedHouseholds.toLocaleString()}</Typography>
+                      <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>District checksum</Typography>
+                      <Typography variant="body2" sx={{ fontSize: '0.8125rem', fontFamily: 'monospace' }} title={resolution.checksum}>
+                        {resolution.checksum.slice(0, 12)}
+                      </Typography>
+                    </Box>
+                    <Box sx={{ display: 'flex', gap: 1 }}>
+                      {(['csv', 'geojson'] as const).map((type) => (
+                        <Button
+                          key={type}
+                          variant="contained"
+                          size="small"
+                          startIcon={exportingType === type ? <CircularProgress size={14} color="inherit" /> : <Download />}
+                          disabled={!!exportingType || resolution.districtIds.length === 0}
+                          onClick={() => handleExport(type)}
+                          sx={{ bgcolor: '#02b5e7', '&:hover': { bgcolor: '#02a0d0' }, fontSize: '0.75rem' }}
+                        >
+                          Export {type === 'csv' ? 'CSV' : 'GeoJSON'}
+                        </Button>
+                      ))}
+                    </Box>
+                  </Box>
+                )}
+              </CardContent>
+            </Card>
+
+            <Box>
+              <Typography variant="h6" sx={{ fontWeight: 600, fontSize: '1rem', mb: 1 }}>
+                Export history
+              </Typography>
+              <ExportHistoryCard audienceId={audienceId} onDownload={handleDownload} />
+            </Box>
+          </Box>
+        )}
+
+        <Snackbar
+          open={!!snackbarMessage}
+          autoHideDuration={6000}
+          onClose={() => setSnackbarMessage('')}
+          anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+        >
+          <Alert onClose={() => setSnackbarMessage('')} severity="error" sx={{ width: '100%' }}>
+            {snackbarMessage}
+          </Alert>
+        </Snackbar>
+      </Box>
+    </AppLayout>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { Box, AppBar, Toolbar, Drawer, List, ListItem, ListItemButton, ListItemIcon, ListItemText, Avatar, Menu, MenuItem, Divider, Collapse } from '@mui/material';
-import { People as PeopleIcon, CheckCircle, RadioButtonUnchecked, AdminPanelSettings, Image as ImageIcon, Hub, Business, ExpandMore, ExpandLess } from '@mui/icons-material';
+import { People as PeopleIcon, CheckCircle, RadioButtonUnchecked, AdminPanelSettings, Image as ImageIcon, Hub, Business, CompareArrows, UploadFile, History, Tune, CloudUpload, ExpandMore, ExpandLess } from '@mui/icons-material';
 import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { ReactNode } from 'react';
 import { createClient } from '@/lib/supabase/client';
@@ -385,7 +385,12 @@ export function AppLayout({ children }: AppLayoutProps) {
                 {[
                   { label: 'Logo', icon: ImageIcon, path: '/admin/logo' },
                   { label: 'Data partners', icon: Hub, path: '/admin/data-partners' },
+                  { label: 'Segment mappings', icon: CompareArrows, path: '/admin/segment-mappings' },
+                  { label: 'Signal import', icon: UploadFile, path: '/admin/signal-import' },
+                  { label: 'Signal batches', icon: History, path: '/admin/signal-batches' },
+                  { label: 'Score normalisation', icon: Tune, path: '/admin/score-normalisation' },
                   { label: 'Clients', icon: Business, path: '/admin/clients' },
+                  { label: 'Platform connections', icon: CloudUpload, path: '/admin/platform-connections' },
                 ].map((item) => {
                   const isActive = pathname === item.path;
                   const Icon = item.icon;
@@ -46,8 +46,8 @@ export async function createClientRecord(client: Omit<Client, 'id' | 'created_at
  */
 export async function updateClient(id: string, updates: Partial<Omit<Client, 'id' | 'created_at' | 'updated_at'>>): Promise<Client> {
   const supabase = createClient();
-  const { data, error } = await (supabase
-    .from('admin_clients') as any)
+  const { data, error } = await supabase
+    .from('admin_clients')
     .update({
       ...updates,
       updated_at: new Date().toISOString(),
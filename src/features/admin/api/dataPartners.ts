@@ -1,4 +1,4 @@
-import { createClient } from '@/lib/supabase/client';
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
 import { fetchAll } from '@/lib/supabase/pagination';
 
 export interface DataPartner {
@@ -8,10 +8,16 @@ export interface DataPartner {
   website_url: string | null;
   description: string | null;
   logo_url: string | null;
+  trust_weight: number; // Weighted agreement: relative trust (default 1)
+  agreement_threshold: number; // Weighted agreement: min district_score_norm to agree (default 0.5)
   created_at: string;
   updated_at: string;
 }
 
+export type DataPartnerUpdate = Partial<
+  Pick<DataPartner, 'display_name' | 'website_url' | 'description' | 'logo_url' | 'trust_weight' | 'agreement_threshold'>
+>;
+
 /**
  * List all data partners (canonical source of truth for providers)
  */
@@ -46,10 +52,13 @@ export async function getDataPartnerByKey(providerKey: string): Promise<DataPart
 /**
  * Get multiple data partners by provider_keys
  */
-export async function getDataPartnersByKeys(providerKeys: string[]): Promise<DataPartner[]> {
+export async function getDataPartnersByKeys(
+  providerKeys: string[],
+  client?: TypedSupabaseClient
+): Promise<DataPartner[]> {
   if (providerKeys.length === 0) return [];
   
-  const supabase = createClient();
+  const supabase = client || createClient();
   const query = supabase
     .from('data_partners')
     .select('*')
@@ -64,7 +73,7 @@ export async function getDataPartnersByKeys(providerKeys: string[]): Promise<Dat
  */
 export async function updateDataPartner(
   providerKey: string,
-  updates: Partial<Pick<DataPartner, 'display_name' | 'website_url' | 'description' | 'logo_url'>>
+  updates: DataPartnerUpdate
 ): Promise<DataPartner> {
   const supabase = createClient();
   
@@ -77,8 +86,8 @@ export async function updateDataPartner(
     }
   }
   
-  const { data, error } = await (supabase
-    .from('data_partners') as any)
+  const { data, error } = await supabase
+    .from('data_partners')
     .update({
       ...finalUpdates,
       updated_at: new Date().toISOString(),
@@ -0,0 +1,83 @@
+import { createClient } from '@/lib/supabase/client';
+import { fetchAll } from '@/lib/supabase/pagination';
+import { PlatformKey, PushPayloadFormat } from '@/features/audience-builder/connectors/types';
+
+// Everything except credentials, which authenticated users cannot select
+const CONNECTION_COLUMNS =
+  'id, client_id, platform, config, credentials_set, endpoint_url, payload_format, is_enabled, created_at, updated_at';
+
+export interface PlatformConnection {
+  id: string;
+  client_id: string;
+  platform: PlatformKey;
+  config: Record<string, string>;
+  credentials_set: boolean;
+  endpoint_url: string | null;
+  payload_format: PushPayloadFormat;
+  is_enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PlatformConnectionInput {
+  client_id: string;
+  platform: PlatformKey;
+  config: Record<string, string>;
+  credentials?: Record<string, string>; // Omitted = keep the stored credentials
+  endpoint_url: string | null;
+  payload_format: PushPayloadFormat;
+  is_enabled: boolean;
+}
+
+/**
+ * List platform connections, optionally for one client
+ */
+export async function listPlatformConnections(clientId?: string): Promise<PlatformConnection[]> {
+  const supabase = createClient();
+  let query = supabase
+    .from('platform_connections')
+    .select(CONNECTION_COLUMNS)
+    .order('platform', { ascending: true });
+
+  if (clientId) {
+    query = query.eq('client_id', clientId);
+  }
+
+  return await fetchAll<PlatformConnection>(query);
+}
+
+/**
+ * Create or update a client's connection to a platform
+ */
+export async function savePlatformConnection(input: PlatformConnectionInput): Promise<PlatformConnection> {
+  const supabase = createClient();
+  const { credentials, ...rest } = input;
+  const { data, error } = await supabase
+    .from('platform_connections')
+    .upsert(
+      {
+        ...rest,
+        ...(credentials && Object.keys(credentials).length > 0 ? { credentials } : {}),
+        endpoint_url: rest.endpoint_url?.trim() || null,
+      },
+      { onConflict: 'client_id,platform' }
+    )
+    .select(CONNECTION_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data as PlatformConnection;
+}
+
+/**
+ * Delete a platform connection (and its credentials)
+ */
+export async function deletePlatformConnection(id: string): Promise<void> {
+  const supabase = createClient();
+  const { error } = await supabase
+    .from('platform_connections')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
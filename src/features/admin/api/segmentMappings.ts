@@ -0,0 +1,259 @@
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
+import { fetchAll } from '@/lib/supabase/pagination';
+import { scoreSegmentSimilarity } from '../utils/segmentSimilarity';
+
+export type SegmentMappingStatus = 'suggested' | 'approved' | 'rejected';
+export type SegmentMappingSource = 'seed' | 'manual' | 'suggested';
+
+export interface CanonicalSegment {
+  canonical_key: string;
+  label: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A provider segment mapped onto a canonical segment (provider_segment_aliases).
+ * Many-to-one: a provider may map several segments to one canonical segment.
+ */
+export interface SegmentMapping {
+  id: string;
+  canonical_key: string;
+  provider: string;
+  provider_segment_key: string;
+  provider_segment_label: string;
+  similarity_score: number; // Mapping confidence (0-1)
+  status: SegmentMappingStatus;
+  source: SegmentMappingSource;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export type SegmentMappingInput = Pick<
+  SegmentMapping,
+  'canonical_key' | 'provider' | 'provider_segment_key' | 'provider_segment_label' | 'similarity_score'
+>;
+
+export type SegmentMappingUpdate = Partial<
+  Pick<SegmentMapping, 'canonical_key' | 'provider_segment_label' | 'similarity_score' | 'status'>
+>;
+
+// Suggestions below this confidence are not worth a reviewer's time
+export const MIN_SUGGESTION_CONFIDENCE = 0.5;
+
+/**
+ * List canonical segments
+ */
+export async function listCanonicalSegments(): Promise<CanonicalSegment[]> {
+  const supabase = createClient();
+  const query = supabase
+    .from('canonical_segments')
+    .select('*')
+    .order('label', { ascending: true });
+
+  return await fetchAll<CanonicalSegment>(query);
+}
+
+/**
+ * Create or update a canonical segment
+ */
+export async function upsertCanonicalSegment(
+  segment: Pick<CanonicalSegment, 'canonical_key' | 'label' | 'description'>
+): Promise<CanonicalSegment> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('canonical_segments')
+    .upsert(
+      {
+        canonical_key: segment.canonical_key.trim(),
+        label: segment.label.trim(),
+        description: segment.description || null,
+      },
+      { onConflict: 'canonical_key' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * List segment mappings, optionally filtered by status / canonical key / provider
+ */
+export async function listSegmentMappings(filters: {
+  status?: SegmentMappingStatus;
+  canonicalKey?: string;
+  provider?: string;
+} = {}): Promise<SegmentMapping[]> {
+  const supabase = createClient();
+  let query = supabase
+    .from('provider_segment_aliases')
+    .select('*')
+    .order('canonical_key', { ascending: true })
+    .order('similarity_score', { ascending: false });
+
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.canonicalKey) query = query.eq('canonical_key', filters.canonicalKey);
+  if (filters.provider) query = query.eq('provider', filters.provider);
+
+  return await fetchAll<SegmentMapping>(query);
+}
+
+/**
+ * Approved mappings for a canonical segment (used by segment matching and validation)
+ */
+export async function getApprovedSegmentMappings(
+  canonicalKey: string,
+  client?: TypedSupabaseClient
+): Promise<SegmentMapping[]> {
+  const supabase = client || createClient();
+  const { data, error } = await supabase
+    .from('provider_segment_aliases')
+    .select('*')
+    .eq('canonical_key', canonicalKey)
+    .eq('status', 'approved');
+
+  if (error) throw error;
+  return (data as SegmentMapping[]) || [];
+}
+
+/**
+ * Find the canonical segment an approved provider segment maps to (null if unmapped)
+ */
+export async function getCanonicalKeyForProviderSegment(
+  provider: string,
+  providerSegmentKey: string,
+  client?: TypedSupabaseClient
+): Promise<string | null> {
+  const supabase = client || createClient();
+  const { data, error } = await supabase
+    .from('provider_segment_aliases')
+    .select('canonical_key')
+    .eq('provider', provider)
+    .eq('provider_segment_key', providerSegmentKey)
+    .eq('status', 'approved')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.canonical_key || null;
+}
+
+/**
+ * Create an approved mapping by hand
+ */
+export async function createSegmentMapping(mapping: SegmentMappingInput): Promise<SegmentMapping> {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  const { data, error } = await supabase
+    .from('provider_segment_aliases')
+    .insert({
+      ...mapping,
+      status: 'approved',
+      source: 'manual',
+      reviewed_at: new Date().toISOString(),
+      reviewed_by: user?.id || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Update a mapping. Status changes are recorded as a review.
+ */
+export async function updateSegmentMapping(id: string, updates: SegmentMappingUpdate): Promise<SegmentMapping> {
+  const supabase = createClient();
+  const review = updates.status
+    ? { reviewed_at: new Date().toISOString(), reviewed_by: (await supabase.auth.getUser()).data.user?.id || null }
+    : {};
+
+  const { data, error } = await supabase
+    .from('provider_segment_aliases')
+    .update({ ...updates, ...review })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Delete a mapping
+ */
+export async function deleteSegmentMapping(id: string): Promise<void> {
+  const supabase = createClient();
+  const { error } = await supabase
+    .from('provider_segment_aliases')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Suggest mappings for provider segments that have no mapping yet (in any status).
+ * Each unmapped provider segment is scored against every canonical segment and the best
+ * match above MIN_SUGGESTION_CONFIDENCE is stored as 'suggested' for admin review.
+ * Provider data already stored under a canonical key needs no mapping and is skipped.
+ * Returns the number of suggestions created.
+ */
+export async function suggestSegmentMappings(): Promise<number> {
+  const supabase = createClient();
+
+  const [canonicalSegments, existingMappings, catalog] = await Promise.all([
+    listCanonicalSegments(),
+    listSegmentMappings(),
+    fetchAll<{ provider: string; segment_key: string; label: string }>(
+      supabase.from('provider_segment_catalog').select('provider, segment_key, label')
+    ),
+  ]);
+
+  if (canonicalSegments.length === 0) return 0;
+
+  const canonicalKeys = new Set(canonicalSegments.map((s) => s.canonical_key));
+  const mapped = new Set(existingMappings.map((m) => `${m.provider}:${m.provider_segment_key}`));
+
+  const suggestions: Array<SegmentMappingInput & { status: 'suggested'; source: 'suggested' }> = [];
+  const seen = new Set<string>();
+  for (const segment of catalog) {
+    const id = `${segment.provider}:${segment.segment_key}`;
+    if (canonicalKeys.has(segment.segment_key) || mapped.has(id) || seen.has(id)) continue;
+    seen.add(id);
+
+    let best: { canonical: CanonicalSegment; score: number } | null = null;
+    for (const canonical of canonicalSegments) {
+      const score = scoreSegmentSimilarity(
+        { key: segment.segment_key, label: segment.label },
+        { key: canonical.canonical_key, label: canonical.label }
+      );
+      if (!best || score > best.score) best = { canonical, score };
+    }
+
+    if (best && best.score >= MIN_SUGGESTION_CONFIDENCE) {
+      suggestions.push({
+        canonical_key: best.canonical.canonical_key,
+        provider: segment.provider,
+        provider_segment_key: segment.segment_key,
+        provider_segment_label: segment.label,
+        similarity_score: best.score,
+        status: 'suggested',
+        source: 'suggested',
+      });
+    }
+  }
+
+  if (suggestions.length === 0) return 0;
+
+  const { error } = await supabase
+    .from('provider_segment_aliases')
+    .upsert(suggestions, { onConflict: 'provider,provider_segment_key', ignoreDuplicates: true });
+
+  if (error) throw error;
+  return suggestions.length;
+}
@@ -0,0 +1,213 @@
+import { createClient } from '@/lib/supabase/client';
+import { fetchAll } from '@/lib/supabase/pagination';
+import { SegmentSignalRecord } from '../utils/segmentSignalCsv';
+import { ScoreNormalizationMethod } from '@/features/audience-builder/types/signals';
+
+const LOOKUP_BATCH_SIZE = 1000; // Supabase limit is typically 1000 for .in()
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * One load of a partner file into geo_sector_signals.
+ * Only the active batch per provider + segment feeds geo_district_signals.
+ */
+export interface SignalImportBatch {
+  id: string;
+  provider: string;
+  segment_key: string;
+  source_file: string | null;
+  status: 'pending' | 'complete';
+  is_active: boolean;
+  row_count: number;
+  district_count: number;
+  rows_with_score: number;
+  checksum: string | null; // SHA-256 of the sorted "sector:score" lines
+  normalization_method: ScoreNormalizationMethod;
+  imported_by: string | null;
+  imported_by_email: string | null;
+  created_at: string;
+  activated_at: string | null;
+}
+
+export interface SignalImportBatchComparison {
+  from: SignalImportBatch;
+  to: SignalImportBatch;
+  gainedDistricts: string[]; // In "to" but not "from"
+  lostDistricts: string[]; // In "from" but not "to"
+  unchangedDistrictCount: number;
+  identical: boolean; // Same checksum
+}
+
+/**
+ * Districts that are not in geo_districts (their signals import but will not map or resolve)
+ */
+export async function findUnknownDistricts(districts: string[]): Promise<string[]> {
+  const supabase = createClient();
+  const known = new Set<string>();
+
+  for (let i = 0; i < districts.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = districts.slice(i, i + LOOKUP_BATCH_SIZE);
+    const { data, error } = await supabase
+      .from('geo_districts')
+      .select('district')
+      .in('district', batch);
+
+    if (error) throw error;
+    ((data as { district: string }[]) || []).forEach((row) => known.add(row.district));
+  }
+
+  return districts.filter((district) => !known.has(district));
+}
+
+/**
+ * The batch currently feeding geo_district_signals for a provider + segment (null if none)
+ */
+export async function getActiveSignalImportBatch(
+  provider: string,
+  segmentKey: string
+): Promise<SignalImportBatch | null> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('signal_import_batches')
+    .select('*')
+    .eq('provider', provider)
+    .eq('segment_key', segmentKey)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as SignalImportBatch | null) || null;
+}
+
+/**
+ * List completed import batches, newest first
+ */
+export async function listSignalImportBatches(filters: {
+  provider?: string;
+  segmentKey?: string;
+} = {}): Promise<SignalImportBatch[]> {
+  const supabase = createClient();
+  let query = supabase
+    .from('signal_import_batches')
+    .select('*')
+    .eq('status', 'complete')
+    .order('created_at', { ascending: false });
+
+  if (filters.provider) query = query.eq('provider', filters.provider);
+  if (filters.segmentKey) query = query.eq('segment_key', filters.segmentKey);
+
+  return await fetchAll<SignalImportBatch>(query);
+}
+
+/**
+ * Import parsed records as a new batch and make it active.
+ * The previous active batch is kept for comparison and rollback. A failed import
+ * deletes its partial batch, leaving the active batch untouched.
+ */
+export async function importSegmentSignals(
+  records: SegmentSignalRecord[],
+  batchInfo: { provider: string; segmentKey: string; sourceFile: string },
+  onProgress?: (written: number, total: number) => void
+): Promise<SignalImportBatch> {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data: batch, error: batchError } = await supabase
+    .from('signal_import_batches')
+    .insert({
+      provider: batchInfo.provider,
+      segment_key: batchInfo.segmentKey,
+      source_file: batchInfo.sourceFile,
+      imported_by: user?.id || null,
+      imported_by_email: user?.email || null,
+    })
+    .select()
+    .single();
+
+  if (batchError) throw batchError;
+
+  try {
+    let written = 0;
+    for (let i = 0; i < records.length; i += INSERT_BATCH_SIZE) {
+      const rows = records.slice(i, i + INSERT_BATCH_SIZE).map((record) => ({ ...record, batch_id: batch.id }));
+      const { error } = await supabase
+        .from('geo_sector_signals')
+        .insert(rows);
+
+      if (error) throw error;
+      written += rows.length;
+      onProgress?.(written, records.length);
+    }
+
+    const { data: completed, error: completeError } = await supabase.rpc('complete_signal_import_batch', {
+      target_batch_id: batch.id,
+    });
+
+    if (completeError) throw completeError;
+    return completed as SignalImportBatch;
+  } catch (error) {
+    await supabase.from('signal_import_batches').delete().eq('id', batch.id);
+    throw error;
+  }
+}
+
+/**
+ * Make an earlier batch active again (rollback)
+ */
+export async function activateSignalImportBatch(batchId: string): Promise<void> {
+  const supabase = createClient();
+  const { error } = await supabase.rpc('activate_signal_import_batch', {
+    target_batch_id: batchId,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Delete an inactive batch and its rows
+ */
+export async function deleteSignalImportBatch(batchId: string): Promise<void> {
+  const supabase = createClient();
+  const { error } = await supabase
+    .from('signal_import_batches')
+    .delete()
+    .eq('id', batchId)
+    .eq('is_active', false);
+
+  if (error) throw error;
+}
+
+async function getBatchDistricts(batchId: string): Promise<Set<string>> {
+  const supabase = createClient();
+  const rows = await fetchAll<{ district: string }>(
+    supabase.from('geo_sector_signals')
+      .select('district')
+      .eq('batch_id', batchId)
+      .order('sector', { ascending: true })
+  );
+  return new Set(rows.map((row) => row.district));
+}
+
+/**
+ * Districts gained and lost going from one batch to another
+ */
+export async function compareSignalImportBatches(
+  fromBatch: SignalImportBatch,
+  toBatch: SignalImportBatch
+): Promise<SignalImportBatchComparison> {
+  const [fromDistricts, toDistricts] = await Promise.all([
+    getBatchDistricts(fromBatch.id),
+    getBatchDistricts(toBatch.id),
+  ]);
+
+  const gainedDistricts = Array.from(toDistricts).filter((d) => !fromDistricts.has(d)).sort();
+  const lostDistricts = Array.from(fromDistricts).filter((d) => !toDistricts.has(d)).sort();
+
+  return {
+    from: fromBatch,
+    to: toBatch,
+    gainedDistricts,
+    lostDistricts,
+    unchangedDistrictCount: toDistricts.size - gainedDistricts.length,
+    identical: !!fromBatch.checksum && fromBatch.checksum === toBatch.checksum,
+  };
+}
@@ -0,0 +1,74 @@
+import { createClient } from '@/lib/supabase/client';
+import { fetchAll } from '@/lib/supabase/pagination';
+import { ScoreNormalizationMethod } from '@/features/audience-builder/types/signals';
+
+export const DEFAULT_NORMALIZATION_METHOD: ScoreNormalizationMethod = 'divide_by_100';
+
+export interface SignalNormalizationSetting {
+  provider: string;
+  segment_key: string;
+  method: ScoreNormalizationMethod;
+  presence_weight: number | null; // score_norm for rows without a score; null = presence counts as agreement
+  index_baseline: number; // 'index_to_probability': index meaning "average"
+  created_at: string;
+  updated_at: string;
+}
+
+export type SignalNormalizationInput = Pick<
+  SignalNormalizationSetting,
+  'provider' | 'segment_key' | 'method' | 'presence_weight' | 'index_baseline'
+>;
+
+/**
+ * List normalisation settings for all providers + segments
+ */
+export async function listSignalNormalizationSettings(): Promise<SignalNormalizationSetting[]> {
+  const supabase = createClient();
+  const query = supabase
+    .from('signal_normalization_settings')
+    .select('*')
+    .order('provider', { ascending: true })
+    .order('segment_key', { ascending: true });
+
+  return await fetchAll<SignalNormalizationSetting>(query);
+}
+
+/**
+ * Settings for one provider + segment (null = default divide by 100)
+ */
+export async function getSignalNormalizationSetting(
+  provider: string,
+  segmentKey: string
+): Promise<SignalNormalizationSetting | null> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('signal_normalization_settings')
+    .select('*')
+    .eq('provider', provider)
+    .eq('segment_key', segmentKey)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data || null;
+}
+
+/**
+ * Save the method for a provider + segment and re-normalise its stored batches.
+ * Returns the number of batches re-normalised.
+ */
+export async function saveSignalNormalizationSetting(setting: SignalNormalizationInput): Promise<number> {
+  const supabase = createClient();
+  const { error } = await supabase
+    .from('signal_normalization_settings')
+    .upsert(setting, { onConflict: 'provider,segment_key' });
+
+  if (error) throw error;
+
+  const { data, error: renormalizeError } = await supabase.rpc('renormalize_signal_batches', {
+    target_provider: setting.provider,
+    target_segment_key: setting.segment_key,
+  });
+
+  if (renormalizeError) throw renormalizeError;
+  return (data as number) || 0;
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Autocomplete,
+} from '@mui/material';
+import { CanonicalSegment, SegmentMappingInput } from '../api/segmentMappings';
+
+interface AddSegmentMappingDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** newCanonicalLabel is set when the canonical key does not exist yet */
+  onSave: (mapping: SegmentMappingInput, newCanonicalLabel?: string) => Promise<void>;
+  canonicalSegments: CanonicalSegment[];
+}
+
+type FieldErrors = {
+  canonicalKey?: string;
+  canonicalLabel?: string;
+  provider?: string;
+  providerSegmentKey?: string;
+  confidence?: string;
+};
+
+export function AddSegmentMappingDialog({ open, onClose, onSave, canonicalSegments }: AddSegmentMappingDialogProps) {
+  const [canonicalKey, setCanonicalKey] = useState('');
+  const [canonicalLabel, setCanonicalLabel] = useState('');
+  const [provider, setProvider] = useState('');
+  const [providerSegmentKey, setProviderSegmentKey] = useState('');
+  const [providerSegmentLabel, setProviderSegmentLabel] = useState('');
+  const [confidence, setConfidence] = useState('1');
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  useEffect(() => {
+    if (open) {
+      setCanonicalKey('');
+      setCanonicalLabel('');
+      setProvider('');
+      setProviderSegmentKey('');
+      setProviderSegmentLabel('');
+      setConfidence('1');
+      setErrors({});
+    }
+  }, [open]);
+
+  const trimmedCanonicalKey = canonicalKey.trim();
+  const isNewCanonical =
+    trimmedCanonicalKey !== '' && !canonicalSegments.some((s) => s.canonical_key === trimmedCanonicalKey);
+
+  const handleSave = async () => {
+    const newErrors: FieldErrors = {};
+
+    if (!trimmedCanonicalKey) {
+      newErrors.canonicalKey = 'Canonical segment is required';
+    }
+    if (isNewCanonical && !canonicalLabel.trim()) {
+      newErrors.canonicalLabel = 'Label is required for a new canonical segment';
+    }
+    if (!provider.trim()) {
+      newErrors.provider = 'Provider is required';
+    }
+    if (!providerSegmentKey.trim()) {
+      newErrors.providerSegmentKey = 'Provider segment key is required';
+    }
+
+    const parsedConfidence = Number(confidence);
+    if (confidence.trim() === '' || !Number.isFinite(parsedConfidence) || parsedConfidence < 0 || parsedConfidence > 1) {
+      newErrors.confidence = 'Confidence must be between 0 and 1';
+    }
+
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(
+        {
+          canonical_key: trimmedCanonicalKey,
+          provider: provider.trim(),
+          provider_segment_key: providerSegmentKey.trim(),
+          provider_segment_label: providerSegmentLabel.trim() || providerSegmentKey.trim(),
+          similarity_score: parsedConfidence,
+        },
+        isNewCanonical ? canonicalLabel.trim() : undefined
+      );
+      onClose();
+    } catch (error) {
+      console.error('Failed to save segment mapping:', error);
+      alert('Failed to save. The provider segment may already be mapped.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ fontSize: '1.25rem', fontWeight: 600 }}>
+        Add Segment Mapping
+      </DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          <Autocomplete
+            freeSolo
+            options={canonicalSegments.map((s) => s.canonical_key)}
+            getOptionLabel={(key) => {
+              const segment = canonicalSegments.find((s) => s.canonical_key === key);
+              return segment ? `${segment.label} (${key})` : key;
+            }}
+            inputValue={canonicalKey}
+            onInputChange={(_, value, reason) => {
+              // Selecting an option fills in the display label; keep the key instead
+              if (reason !== 'reset') setCanonicalKey(value);
+            }}
+            onChange={(_, value) => setCanonicalKey(value || '')}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label="Canonical Segment"
+                error={!!errors.canonicalKey}
+                helperText={errors.canonicalKey || 'Pick an existing canonical key or type a new one'}
+                required
+                size="small"
+              />
+            )}
+          />
+          {isNewCanonical && (
+            <TextField
+              label="Canonical Segment Label"
+              value={canonicalLabel}
+              onChange={(e) => setCanonicalLabel(e.target.value)}
+              error={!!errors.canonicalLabel}
+              helperText={errors.canonicalLabel || 'Creates a new canonical segment'}
+              required
+              fullWidth
+              size="small"
+            />
+          )}
+          <TextField
+            label="Provider"
+            value={provider}
+            onChange={(e) => setProvider(e.target.value)}
+            error={!!errors.provider}
+            helperText={errors.provider || 'Provider key as it appears in uploaded data, e.g. EXPERIAN'}
+            required
+            fullWidth
+            size="small"
+          />
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label="Provider Segment Key"
+              value={providerSegmentKey}
+              onChange={(e) => setProviderSegmentKey(e.target.value)}
+              error={!!errors.providerSegmentKey}
+              helperText={errors.providerSegmentKey}
+              required
+              fullWidth
+              size="small"
+            />
+            <TextField
+              label="Provider Segment Label"
+              value={providerSegmentLabel}
+              onChange={(e) => setProviderSegmentLabel(e.target.value)}
+              helperText="Optional"
+              fullWidth
+              size="small"
+            />
+          </Box>
+          <TextField
+            label="Confidence"
+            type="number"
+            value={confidence}
+            onChange={(e) => setConfidence(e.target.value)}
+            error={!!errors.confidence}
+            helperText={errors.confidence || 'How closely the provider segment matches (0-1)'}
+            fullWidth
+            size="small"
+            inputProps={{ min: 0, max: 1, step: 0.05 }}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={isSaving}
+          sx={{ bgcolor: '#02b5e7', '&:hover': { bgcolor: '#02a0d0' } }}
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
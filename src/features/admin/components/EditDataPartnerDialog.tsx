@@ -10,12 +10,12 @@ import {
   TextField,
   Box,
 } from '@mui/material';
-import { DataPartner } from '../api/dataPartners';
+import { DataPartner, DataPartnerUpdate } from '../api/dataPartners';
 
 interface EditDataPartnerDialogProps {
   open: boolean;
   onClose: () => void;
-  onSave: (updates: Partial<Pick<DataPartner, 'display_name' | 'website_url' | 'description' | 'logo_url'>>) => Promise<void>;
+  onSave: (updates: DataPartnerUpdate) => Promise<void>;
   partner?: DataPartner | null;
 }
 
@@ -24,8 +24,10 @@ export function EditDataPartnerDialog({ open, onClose, onSave, partner }: EditDa
   const [websiteUrl, setWebsiteUrl] = useState('');
   const [description, setDescription] = useState('');
   const [logoUrl, setLogoUrl] = useState('');
+  const [trustWeight, setTrustWeight] = useState('1');
+  const [agreementThreshold, setAgreementThreshold] = useState('0.5');
   const [isSaving, setIsSaving] = useState(false);
-  const [errors, setErrors] = useState<{ displayName?: string; websiteUrl?: string }>({});
+  const [errors, setErrors] = useState<{ displayName?: string; websiteUrl?: string; trustWeight?: string; agreementThreshold?: string }>({});
 
   useEffect(() => {
     if (open && partner) {
@@ -33,6 +35,8 @@ export function EditDataPartnerDialog({ open, onClose, onSave, partner }: EditDa
       setWebsiteUrl(partner.website_url || '');
       setDescription(partner.description || '');
       setLogoUrl(partner.logo_url || '');
+      setTrustWeight(String(partner.trust_weight ?? 1));
+      setAgreementThreshold(String(partner.agreement_threshold ?? 0.5));
       setErrors({});
     }
   }, [open, partner]);
@@ -51,7 +55,7 @@ export function EditDataPartnerDialog({ open, onClose, onSave, partner }: EditDa
   };
 
   const handleSave = async () => {
-    const newErrors: { displayName?: string; websiteUrl?: string } = {};
+    const newErrors: { displayName?: string; websiteUrl?: string; trustWeight?: string; agreementThreshold?: string } = {};
     
     if (!displayName.trim()) {
       newErrors.displayName = 'Display name is required';
@@ -65,6 +69,16 @@ export function EditDataPartnerDialog({ open, onClose, onSave, partner }: EditDa
       newErrors.websiteUrl = 'Logo URL must be a valid URL';
     }
 
+    const parsedTrustWeight = Number(trustWeight);
+    if (trustWeight.trim() === '' || !Number.isFinite(parsedTrustWeight) || parsedTrustWeight < 0) {
+      newErrors.trustWeight = 'Trust weight must be a number of 0 or more';
+    }
+
+    const parsedThreshold = Number(agreementThreshold);
+    if (agreementThreshold.trim() === '' || !Number.isFinite(parsedThreshold) || parsedThreshold < 0 || parsedThreshold > 1) {
+      newErrors.agreementThreshold = 'Threshold must be between 0 and 1';
+    }
+
     if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors);
       return;
@@ -79,6 +93,8 @@ export function EditDataPartnerDialog({ open, onClose, onSave, partner }: EditDa
         website_url: websiteUrl.trim() || null,
         description: description.trim() || null,
         logo_url: logoUrl.trim() || (websiteUrl.trim() ? undefined : null), // undefined = auto-generate, null = clear
+        trust_weight: parsedTrustWeight,
+        agreement_threshold: parsedThreshold,
       });
       onClose();
     } catch (error) {
@@ -135,6 +151,30 @@ export function EditDataPartnerDialog({ open, onClose, onSave, partner }: EditDa
             rows={3}
             placeholder="Optional description"
           />
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label="Trust Weight"
+              type="number"
+              value={trustWeight}
+              onChange={(e) => setTrustWeight(e.target.value)}
+              error={!!errors.trustWeight}
+              helperText={errors.trustWeight || 'Weighted agreement only. 0 ignores this provider'}
+              fullWidth
+              size="small"
+              inputProps={{ min: 0, step: 0.1 }}
+            />
+            <TextField
+              label="Agreement Threshold"
+              type="number"
+              value={agreementThreshold}
+              onChange={(e) => setAgreementThreshold(e.target.value)}
+              error={!!errors.agreementThreshold}
+              helperText={errors.agreementThreshold || 'Min normalised score (0-1) to count as agreeing'}
+              fullWidth
+              size="small"
+              inputProps={{ min: 0, max: 1, step: 0.05 }}
+            />
+          </Box>
         </Box>
       </DialogContent>
       <DialogActions>
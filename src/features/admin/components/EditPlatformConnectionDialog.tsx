@@ -0,0 +1,209 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  Typography,
+} from '@mui/material';
+import { PlatformConnection, PlatformConnectionInput } from '../api/platformConnections';
+import {
+  ConnectorMetadata,
+  PushPayloadFormat,
+  PUSH_PAYLOAD_FORMATS,
+} from '@/features/audience-builder/connectors/types';
+
+interface EditPlatformConnectionDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSave: (input: PlatformConnectionInput) => Promise<void>;
+  clientId: string;
+  metadata: ConnectorMetadata | null;
+  connection?: PlatformConnection | null;
+}
+
+export function EditPlatformConnectionDialog({
+  open,
+  onClose,
+  onSave,
+  clientId,
+  metadata,
+  connection,
+}: EditPlatformConnectionDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [endpointUrl, setEndpointUrl] = useState('');
+  const [payloadFormat, setPayloadFormat] = useState<PushPayloadFormat>('postcode_list');
+  const [isEnabled, setIsEnabled] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (open && metadata) {
+      // Secrets are never read back, so secret fields always start empty
+      setValues({ ...(connection?.config || {}) });
+      setEndpointUrl(connection?.endpoint_url || '');
+      setPayloadFormat(
+        connection && metadata.supportedFormats.includes(connection.payload_format)
+          ? connection.payload_format
+          : metadata.supportedFormats[0]
+      );
+      setIsEnabled(connection?.is_enabled ?? true);
+      setErrors({});
+    }
+  }, [open, connection, metadata]);
+
+  if (!metadata) return null;
+
+  // Changing the endpoint clears the stored credentials (see 039), so secrets must be re-entered
+  const endpointChanged = (endpointUrl.trim() || null) !== (connection?.endpoint_url || null);
+  const canKeepSecrets = !!connection?.credentials_set && !endpointChanged;
+
+  const handleSave = async () => {
+    const newErrors: Record<string, string> = {};
+
+    for (const field of metadata.fields) {
+      if (!field.required) continue;
+      const value = values[field.key]?.trim();
+      // A stored secret can be kept by leaving the field blank
+      if (!value && !(field.secret && canKeepSecrets)) {
+        newErrors[field.key] = `${field.label} is required`;
+      }
+    }
+
+    if (endpointUrl.trim()) {
+      try {
+        new URL(endpointUrl.trim());
+      } catch {
+        newErrors.endpointUrl = 'Please enter a valid URL';
+      }
+    }
+
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors);
+      return;
+    }
+
+    const config: Record<string, string> = {};
+    const credentials: Record<string, string> = {};
+    for (const field of metadata.fields) {
+      const value = values[field.key]?.trim();
+      if (!value) continue;
+      if (field.secret) {
+        credentials[field.key] = value;
+      } else {
+        config[field.key] = value;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        client_id: clientId,
+        platform: metadata.key,
+        config,
+        credentials: Object.keys(credentials).length > 0 ? credentials : undefined,
+        endpoint_url: endpointUrl.trim() || null,
+        payload_format: payloadFormat,
+        is_enabled: isEnabled,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Failed to save platform connection:', error);
+      alert('Failed to save. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ fontSize: '1.25rem', fontWeight: 600 }}>
+        {connection ? `Edit ${metadata.label}` : `Connect ${metadata.label}`}
+      </DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          {metadata.fields.map((field) => (
+            <TextField
+              key={field.key}
+              label={field.label}
+              type={field.secret ? 'password' : 'text'}
+              value={values[field.key] || ''}
+              onChange={(e) => setValues((prev) => ({ ...prev, [field.key]: e.target.value }))}
+              error={!!errors[field.key]}
+              helperText={
+                errors[field.key] ||
+                (field.secret && canKeepSecrets
+                  ? 'Leave blank to keep the current value'
+                  : field.secret && connection?.credentials_set
+                    ? 'Re-enter: changing the endpoint clears the stored value'
+                    : field.helperText || (field.required ? undefined : 'Optional'))
+              }
+              required={field.required && !(field.secret && canKeepSecrets)}
+              fullWidth
+              size="small"
+              autoComplete={field.secret ? 'new-password' : 'off'}
+            />
+          ))}
+          <TextField
+            label="Endpoint URL"
+            value={endpointUrl}
+            onChange={(e) => setEndpointUrl(e.target.value)}
+            error={!!errors.endpointUrl}
+            helperText={
+              errors.endpointUrl ||
+              `Optional. Must be on ${new URL(metadata.defaultEndpoint).host}; http://localhost:${metadata.mockPort} (local mock server) only works with CONNECTOR_MOCK_ENDPOINTS=true`
+            }
+            fullWidth
+            size="small"
+            placeholder={metadata.defaultEndpoint}
+          />
+          <FormControl fullWidth size="small">
+            <InputLabel>Default payload</InputLabel>
+            <Select
+              value={payloadFormat}
+              label="Default payload"
+              onChange={(e) => setPayloadFormat(e.target.value as PushPayloadFormat)}
+            >
+              {metadata.supportedFormats.map((format) => (
+                <MenuItem key={format} value={format}>
+                  {PUSH_PAYLOAD_FORMATS[format].label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Typography variant="caption" color="text.secondary" sx={{ mt: -1 }}>
+            {PUSH_PAYLOAD_FORMATS[payloadFormat].description}
+          </Typography>
+          <FormControlLabel
+            control={<Switch checked={isEnabled} onChange={(e) => setIsEnabled(e.target.checked)} />}
+            label="Enabled"
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={isSaving}
+          sx={{ bgcolor: '#02b5e7', '&:hover': { bgcolor: '#02a0d0' } }}
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
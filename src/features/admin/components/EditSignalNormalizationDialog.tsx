@@ -0,0 +1,160 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Box,
+  Typography,
+} from '@mui/material';
+import { SCORE_NORMALIZATION_METHODS, ScoreNormalizationMethod } from '@/features/audience-builder/types/signals';
+import {
+  DEFAULT_NORMALIZATION_METHOD,
+  SignalNormalizationInput,
+  SignalNormalizationSetting,
+} from '../api/signalNormalization';
+
+interface EditSignalNormalizationDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSave: (setting: SignalNormalizationInput) => Promise<void>;
+  provider: string;
+  segmentKey: string;
+  setting?: SignalNormalizationSetting | null;
+}
+
+export function EditSignalNormalizationDialog({
+  open,
+  onClose,
+  onSave,
+  provider,
+  segmentKey,
+  setting,
+}: EditSignalNormalizationDialogProps) {
+  const [method, setMethod] = useState<ScoreNormalizationMethod>(DEFAULT_NORMALIZATION_METHOD);
+  const [presenceWeight, setPresenceWeight] = useState('');
+  const [indexBaseline, setIndexBaseline] = useState('100');
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<{ presenceWeight?: string; indexBaseline?: string }>({});
+
+  useEffect(() => {
+    if (open) {
+      setMethod(setting?.method || DEFAULT_NORMALIZATION_METHOD);
+      setPresenceWeight(setting?.presence_weight != null ? String(setting.presence_weight) : '');
+      setIndexBaseline(String(setting?.index_baseline ?? 100));
+      setErrors({});
+    }
+  }, [open, setting]);
+
+  const handleSave = async () => {
+    const newErrors: { presenceWeight?: string; indexBaseline?: string } = {};
+
+    const parsedPresenceWeight = presenceWeight.trim() === '' ? null : Number(presenceWeight);
+    if (parsedPresenceWeight !== null && (!Number.isFinite(parsedPresenceWeight) || parsedPresenceWeight < 0 || parsedPresenceWeight > 1)) {
+      newErrors.presenceWeight = 'Presence weight must be between 0 and 1';
+    }
+    if (method === 'presence_weight' && parsedPresenceWeight === null) {
+      newErrors.presenceWeight = 'Presence weight is required for this method';
+    }
+
+    const parsedBaseline = Number(indexBaseline);
+    if (indexBaseline.trim() === '' || !Number.isFinite(parsedBaseline) || parsedBaseline <= 0) {
+      newErrors.indexBaseline = 'Baseline must be greater than 0';
+    }
+
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        provider,
+        segment_key: segmentKey,
+        method,
+        presence_weight: parsedPresenceWeight,
+        index_baseline: parsedBaseline,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Failed to save normalisation:', error);
+      alert('Failed to save. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ fontSize: '1.25rem', fontWeight: 600 }}>
+        Score Normalisation: {provider} / {segmentKey}
+      </DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          <TextField
+            select
+            label="Method"
+            value={method}
+            onChange={(e) => setMethod(e.target.value as ScoreNormalizationMethod)}
+            helperText={SCORE_NORMALIZATION_METHODS[method].description}
+            fullWidth
+            size="small"
+          >
+            {(Object.keys(SCORE_NORMALIZATION_METHODS) as ScoreNormalizationMethod[]).map((key) => (
+              <MenuItem key={key} value={key}>
+                {SCORE_NORMALIZATION_METHODS[key].label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label="Presence Weight"
+              type="number"
+              value={presenceWeight}
+              onChange={(e) => setPresenceWeight(e.target.value)}
+              error={!!errors.presenceWeight}
+              helperText={errors.presenceWeight || 'Normalised score for sectors without a score. Empty = presence counts as agreement'}
+              fullWidth
+              size="small"
+              inputProps={{ min: 0, max: 1, step: 0.05 }}
+            />
+            <TextField
+              label="Index Baseline"
+              type="number"
+              value={indexBaseline}
+              onChange={(e) => setIndexBaseline(e.target.value)}
+              error={!!errors.indexBaseline}
+              helperText={errors.indexBaseline || 'Index to probability only: the index that maps to 0.5'}
+              fullWidth
+              size="small"
+              disabled={method !== 'index_to_probability'}
+              inputProps={{ min: 1, step: 10 }}
+            />
+          </Box>
+          <Typography variant="caption" color="text.secondary">
+            Saving re-normalises every stored batch for this provider and segment.
+          </Typography>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={isSaving}
+          sx={{ bgcolor: '#02b5e7', '&:hover': { bgcolor: '#02a0d0' } }}
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,425 @@
+'use client';
+
+import { useState } from 'react';
+import { parse } from 'papaparse';
+import {
+  Box,
+  Button,
+  Paper,
+  Stepper,
+  Step,
+  StepLabel,
+  TextField,
+  MenuItem,
+  Autocomplete,
+  Typography,
+  Alert,
+  Chip,
+  LinearProgress,
+  CircularProgress,
+} from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import { useDataPartners } from '../hooks/useDataPartners';
+import { useCanonicalSegments } from '../hooks/useSegmentMappings';
+import { useImportSegmentSignals } from '../hooks/useSegmentSignalImport';
+import { findUnknownDistricts, getActiveSignalImportBatch, SignalImportBatch } from '../api/segmentSignalImport';
+import {
+  getSignalNormalizationSetting,
+  saveSignalNormalizationSetting,
+  DEFAULT_NORMALIZATION_METHOD,
+  SignalNormalizationSetting,
+} from '../api/signalNormalization';
+import { SCORE_NORMALIZATION_METHODS, ScoreNormalizationMethod } from '@/features/audience-builder/types/signals';
+import {
+  detectSegmentSignalColumns,
+  parseSegmentSignalRows,
+  ParsedSegmentSignals,
+} from '../utils/segmentSignalCsv';
+
+const STEPS = ['Upload file', 'Configure', 'Preview', 'Import'];
+const MAX_LISTED_VALUES = 30;
+
+interface ImportPreview {
+  parsed: ParsedSegmentSignals;
+  unknownDistricts: string[];
+  activeBatch: SignalImportBatch | null;
+  normalizationSetting: SignalNormalizationSetting | null;
+}
+
+function ValueChips({ values }: { values: string[] }) {
+  return (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
+      {values.slice(0, MAX_LISTED_VALUES).map((value) => (
+        <Chip key={value} label={value} size="small" sx={{ height: 20, fontSize: '0.7rem' }} />
+      ))}
+      {values.length > MAX_LISTED_VALUES && (
+        <Typography variant="caption" color="text.secondary">
+          +{values.length - MAX_LISTED_VALUES} more
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
+export function SegmentSignalImportWizard() {
+  const { data: partners = [] } = useDataPartners();
+  const { data: canonicalSegments = [] } = useCanonicalSegments();
+  const importSignals = useImportSegmentSignals();
+
+  const [activeStep, setActiveStep] = useState(0);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const [sectorIndex, setSectorIndex] = useState<number | ''>('');
+  const [districtIndex, setDistrictIndex] = useState<number | ''>('');
+  const [scoreIndex, setScoreIndex] = useState<number | ''>('');
+  const [provider, setProvider] = useState('');
+  const [segmentKey, setSegmentKey] = useState('');
+  const [providerLabel, setProviderLabel] = useState('');
+
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [normalizationMethod, setNormalizationMethod] = useState<ScoreNormalizationMethod>(DEFAULT_NORMALIZATION_METHOD);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [progress, setProgress] = useState({ written: 0, total: 0 });
+  const [importedBatch, setImportedBatch] = useState<SignalImportBatch | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const reset = () => {
+    setActiveStep(0);
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setFileError(null);
+    setSectorIndex('');
+    setDistrictIndex('');
+    setScoreIndex('');
+    setProvider('');
+    setSegmentKey('');
+    setProviderLabel('');
+    setPreview(null);
+    setNormalizationMethod(DEFAULT_NORMALIZATION_METHOD);
+    setPreviewError(null);
+    setProgress({ written: 0, total: 0 });
+    setImportedBatch(null);
+    setImportError(null);
+  };
+
+  const handleFile = async (file: File) => {
+    setFileError(null);
+    const result = parse<string[]>(await file.text(), { header: false, skipEmptyLines: true });
+    const rows = result.data;
+    if (rows.length < 2) {
+      setFileError('The file has no data rows.');
+      return;
+    }
+
+    const columns = detectSegmentSignalColumns(rows[0]);
+    setFileName(file.name);
+    setHeaders(rows[0]);
+    setDataRows(rows.slice(1));
+    setSectorIndex(columns.sectorIndex ?? '');
+    setDistrictIndex(columns.districtIndex ?? '');
+    setScoreIndex(columns.scoreIndex ?? '');
+    setActiveStep(1);
+  };
+
+  const handlePreview = async () => {
+    if (sectorIndex === '' || districtIndex === '') return;
+    setIsPreviewing(true);
+    setPreviewError(null);
+    try {
+      const parsed = parseSegmentSignalRows(
+        dataRows,
+        { sectorIndex, districtIndex, scoreIndex: scoreIndex === '' ? null : scoreIndex },
+        {
+          provider: provider.trim(),
+          segmentKey: segmentKey.trim(),
+          providerLabel: providerLabel.trim() || undefined,
+          sourceFile: fileName,
+        }
+      );
+      const [unknownDistricts, activeBatch, normalizationSetting] = await Promise.all([
+        findUnknownDistricts(parsed.districts),
+        getActiveSignalImportBatch(provider.trim(), segmentKey.trim()),
+        getSignalNormalizationSetting(provider.trim(), segmentKey.trim()),
+      ]);
+      setPreview({ parsed, unknownDistricts, activeBatch, normalizationSetting });
+      setNormalizationMethod(normalizationSetting?.method || DEFAULT_NORMALIZATION_METHOD);
+      setActiveStep(2);
+    } catch (error) {
+      console.error('Failed to preview import:', error);
+      setPreviewError(error instanceof Error ? error.message : 'Failed to preview import');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setActiveStep(3);
+    setImportError(null);
+    setProgress({ written: 0, total: preview.parsed.records.length });
+    try {
+      // A changed method is saved for the provider + segment (and re-applied to its older batches)
+      const currentMethod = preview.normalizationSetting?.method || DEFAULT_NORMALIZATION_METHOD;
+      if (normalizationMethod !== currentMethod) {
+        await saveSignalNormalizationSetting({
+          provider: provider.trim(),
+          segment_key: segmentKey.trim(),
+          method: normalizationMethod,
+          presence_weight: preview.normalizationSetting?.presence_weight ?? (normalizationMethod === 'presence_weight' ? 1 : null),
+          index_baseline: preview.normalizationSetting?.index_baseline ?? 100,
+        });
+      }
+      const batch = await importSignals.mutateAsync({
+        records: preview.parsed.records,
+        batchInfo: { provider: provider.trim(), segmentKey: segmentKey.trim(), sourceFile: fileName },
+        onProgress: (written, total) => setProgress({ written, total }),
+      });
+      setImportedBatch(batch);
+    } catch (error) {
+      console.error('Failed to import signals:', error);
+      setImportError(error instanceof Error ? error.message : 'Import failed');
+    }
+  };
+
+  const canPreview =
+    sectorIndex !== '' && districtIndex !== '' && provider.trim() !== '' && segmentKey.trim() !== '';
+
+  const columnSelect = (label: string, value: number | '', onChange: (value: number | '') => void, optional = false) => (
+    <TextField
+      select
+      label={label}
+      value={value}
+      onChange={(e) => onChange(e.target.value === '' ? '' : Number(e.target.value))}
+      size="small"
+      fullWidth
+      required={!optional}
+      helperText={value === '' && !optional ? 'Column not detected, pick one' : undefined}
+      error={value === '' && !optional}
+    >
+      {optional && <MenuItem value="">None</MenuItem>}
+      {headers.map((header, index) => (
+        <MenuItem key={index} value={index}>
+          {header || `Column ${index + 1}`}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+
+  const summaryRow = (label: string, value: string | number) => (
+    <>
+      <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>{label}</Typography>
+      <Typography variant="body2" sx={{ fontSize: '0.8125rem', fontWeight: 500 }}>
+        {typeof value === 'number' ? value.toLocaleString() : value}
+      </Typography>
+    </>
+  );
+
+  return (
+    <Paper sx={{ p: 3, boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)' }}>
+      <Stepper activeStep={activeStep} sx={{ mb: 3 }}>
+        {STEPS.map((label) => (
+          <Step key={label}>
+            <StepLabel>{label}</StepLabel>
+          </Step>
+        ))}
+      </Stepper>
+
+      {activeStep === 0 && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-start', gap: 1.5 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>
+            Upload a partner CSV with one row per postcode sector. Sector and district columns are required; an Index or Score column (0-100) is optional.
+          </Typography>
+          <Button
+            variant="contained"
+            component="label"
+            startIcon={<UploadFile />}
+            size="small"
+            sx={{ bgcolor: '#02b5e7', '&:hover': { bgcolor: '#02a0d0' } }}
+          >
+            Choose CSV
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </Button>
+          {fileError && <Alert severity="error">{fileError}</Alert>}
+        </Box>
+      )}
+
+      {activeStep === 1 && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Typography variant="body2" sx={{ fontSize: '0.8125rem' }}>
+            <strong>{fileName}</strong> · {dataRows.length.toLocaleString()} data rows
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            {columnSelect('Sector column', sectorIndex, setSectorIndex)}
+            {columnSelect('District column', districtIndex, setDistrictIndex)}
+            {columnSelect('Score column', scoreIndex, setScoreIndex, true)}
+          </Box>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <Autocomplete
+              freeSolo
+              fullWidth
+              options={partners.map((p) => p.provider_key)}
+              inputValue={provider}
+              onInputChange={(_, value) => setProvider(value)}
+              renderInput={(params) => (
+                <TextField {...params} label="Provider" required size="small" helperText="Existing data partner or a new provider key" />
+              )}
+            />
+            <Autocomplete
+              freeSolo
+              fullWidth
+              options={canonicalSegments.map((s) => s.canonical_key)}
+              inputValue={segmentKey}
+              onInputChange={(_, value) => setSegmentKey(value)}
+              renderInput={(params) => (
+                <TextField {...params} label="Canonical segment key" required size="small" helperText="e.g. home_movers" />
+              )}
+            />
+          </Box>
+          <TextField
+            label="Provider segment label"
+            value={providerLabel}
+            onChange={(e) => setProviderLabel(e.target.value)}
+            size="small"
+            fullWidth
+            helperText="Optional. Defaults to the segment key"
+          />
+          {previewError && <Alert severity="error">{previewError}</Alert>}
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Button size="small" onClick={reset}>Back</Button>
+            <Button
+              variant="contained"
+              size="small"
+              onClick={handlePreview}
+              disabled={!canPreview || isPreviewing}
+              startIcon={isPreviewing ? <CircularProgress size={14} color="inherit" /> : undefined}
+              sx={{ bgcolor: '#02b5e7', '&:hover': { bgcolor: '#02a0d0' } }}
+            >
+              Preview import
+            </Button>
+          </Box>
+        </Box>
+      )}
+
+      {activeStep === 2 && preview && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Typography variant="body2" sx={{ fontSize: '0.8125rem' }}>
+            Dry run for <strong>{fileName}</strong>. Nothing has been written yet.
+          </Typography>
+          <Box sx={{ display: 'grid', gridTemplateColumns: 'auto 1fr', columnGap: 3, rowGap: 0.5 }}>
+            {summaryRow('Provider / segment', `${provider.trim()} / ${segmentKey.trim()}`)}
+            {summaryRow('Rows read', preview.parsed.rowsRead)}
+            {summaryRow('Sectors to import', preview.parsed.records.length)}
+            {summaryRow('Rows with score', preview.parsed.rowsWithScore)}
+            {summaryRow('Distinct districts', preview.parsed.districts.length)}
+            {summaryRow('Rows missing sector or district', preview.parsed.skippedRows)}
+            {summaryRow('Duplicate sector rows', preview.parsed.duplicateSectorRows)}
+            {summaryRow(
+              'Current active batch',
+              preview.activeBatch
+                ? `${preview.activeBatch.source_file || 'Unknown file'} · ${preview.activeBatch.row_count.toLocaleString()} sectors · ${new Date(preview.activeBatch.created_at).toLocaleDateString()}`
+                : 'None'
+            )}
+          </Box>
+
+          <TextField
+            select
+            label="Score normalisation"
+            value={normalizationMethod}
+            onChange={(e) => setNormalizationMethod(e.target.value as ScoreNormalizationMethod)}
+            size="small"
+            sx={{ maxWidth: 480 }}
+            helperText={
+              preview.parsed.rowsWithScore === 0 && normalizationMethod !== 'presence_weight'
+                ? 'This file has no scores: sectors count as agreeing unless a presence weight is set on the Score normalisation page.'
+                : SCORE_NORMALIZATION_METHODS[normalizationMethod].description
+            }
+          >
+            {(Object.keys(SCORE_NORMALIZATION_METHODS) as ScoreNormalizationMethod[]).map((key) => (
+              <MenuItem key={key} value={key}>
+                {SCORE_NORMALIZATION_METHODS[key].label}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          {preview.activeBatch && (
+            <Alert severity="info">
+              This file is imported as a new batch and replaces the current active batch. The current batch is kept and can be restored from Signal batches.
+            </Alert>
+          )}
+          {preview.parsed.invalidSectors.length > 0 && (
+            <Alert severity="warning">
+              {preview.parsed.invalidSectorRows.toLocaleString()} rows have sectors that could not be normalised and will be skipped:
+              <ValueChips values={preview.parsed.invalidSectors} />
+            </Alert>
+          )}
+          {preview.unknownDistricts.length > 0 && (
+            <Alert severity="warning">
+              {preview.unknownDistricts.length.toLocaleString()} districts are not in geo_districts. Their signals are imported but will not appear on maps or in exports until the districts are added:
+              <ValueChips values={preview.unknownDistricts} />
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Button size="small" onClick={() => setActiveStep(1)}>Back</Button>
+            <Button
+              variant="contained"
+              size="small"
+              onClick={handleImport}
+              disabled={preview.parsed.records.length === 0}
+              sx={{ bgcolor: '#02b5e7', '&:hover': { bgcolor: '#02a0d0' } }}
+            >
+              Import {preview.parsed.records.length.toLocaleString()} sectors
+            </Button>
+          </Box>
+        </Box>
+      )}
+
+      {activeStep === 3 && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {importError ? (
+            <Alert severity="error">
+              Import failed after {progress.written.toLocaleString()} of {progress.total.toLocaleString()} sectors and was discarded; the active batch is unchanged. {importError}
+            </Alert>
+          ) : importedBatch === null ? (
+            <>
+              <Typography variant="body2" sx={{ fontSize: '0.8125rem' }}>
+                Writing {progress.written.toLocaleString()} of {progress.total.toLocaleString()} sectors...
+              </Typography>
+              <LinearProgress
+                variant="determinate"
+                value={progress.total > 0 ? (progress.written / progress.total) * 100 : 0}
+              />
+            </>
+          ) : (
+            <Alert severity="success">
+              Imported {importedBatch.row_count.toLocaleString()} sectors ({importedBatch.district_count.toLocaleString()} districts) from {fileName} for {provider.trim()} / {segmentKey.trim()}.
+              Scores were normalised with {SCORE_NORMALIZATION_METHODS[importedBatch.normalization_method].label.toLowerCase()}.
+              This batch is now active (checksum {importedBatch.checksum?.slice(0, 12)}). New providers can be added on the Data partners page with &quot;Sync from data&quot;.
+            </Alert>
+          )}
+          {(importError || importedBatch !== null) && (
+            <Box>
+              <Button variant="outlined" size="small" onClick={reset}>
+                Import another file
+              </Button>
+            </Box>
+          )}
+        </Box>
+      )}
+    </Paper>
+  );
+}
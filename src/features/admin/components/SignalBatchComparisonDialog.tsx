@@ -0,0 +1,104 @@
+'use client';
+
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Chip,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import { SignalImportBatch } from '../api/segmentSignalImport';
+import { useSignalImportBatchComparison } from '../hooks/useSegmentSignalImport';
+
+const MAX_LISTED_DISTRICTS = 200;
+
+interface SignalBatchComparisonDialogProps {
+  open: boolean;
+  onClose: () => void;
+  fromBatch: SignalImportBatch | null;
+  toBatch: SignalImportBatch | null;
+}
+
+function describeBatch(batch: SignalImportBatch) {
+  return `${batch.source_file || 'Unknown file'} (${new Date(batch.created_at).toLocaleString()})`;
+}
+
+function DistrictList({ title, districts, color }: { title: string; districts: string[]; color: string }) {
+  return (
+    <Box>
+      <Typography variant="subtitle2" sx={{ fontSize: '0.8125rem', fontWeight: 600, mb: 0.5 }}>
+        {title} ({districts.length.toLocaleString()})
+      </Typography>
+      {districts.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>None</Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, maxHeight: 200, overflowY: 'auto' }}>
+          {districts.slice(0, MAX_LISTED_DISTRICTS).map((district) => (
+            <Chip key={district} label={district} size="small" sx={{ height: 20, fontSize: '0.7rem', bgcolor: color }} />
+          ))}
+          {districts.length > MAX_LISTED_DISTRICTS && (
+            <Typography variant="caption" color="text.secondary">
+              +{districts.length - MAX_LISTED_DISTRICTS} more
+            </Typography>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+export function SignalBatchComparisonDialog({ open, onClose, fromBatch, toBatch }: SignalBatchComparisonDialogProps) {
+  const { data: comparison, isLoading, error } = useSignalImportBatchComparison(
+    open ? fromBatch : null,
+    open ? toBatch : null
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{ fontSize: '1.25rem', fontWeight: 600 }}>
+        Compare Batches
+      </DialogTitle>
+      <DialogContent>
+        {fromBatch && toBatch && (
+          <Box sx={{ display: 'grid', gridTemplateColumns: 'auto 1fr', columnGap: 2, rowGap: 0.25, mb: 2 }}>
+            <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>From</Typography>
+            <Typography variant="body2" sx={{ fontSize: '0.8125rem' }}>
+              {describeBatch(fromBatch)} · {fromBatch.district_count.toLocaleString()} districts
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.8125rem' }}>To</Typography>
+            <Typography variant="body2" sx={{ fontSize: '0.8125rem' }}>
+              {describeBatch(toBatch)} · {toBatch.district_count.toLocaleString()} districts
+            </Typography>
+          </Box>
+        )}
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error instanceof Error ? error.message : 'Failed to compare batches'}</Alert>
+        ) : comparison ? (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {comparison.identical && (
+              <Alert severity="info">Both batches have the same checksum: the sector data is identical.</Alert>
+            )}
+            <Typography variant="body2" sx={{ fontSize: '0.8125rem' }}>
+              {comparison.unchangedDistrictCount.toLocaleString()} districts are in both batches.
+            </Typography>
+            <DistrictList title="Districts gained" districts={comparison.gainedDistricts} color="#e8f5e9" />
+            <DistrictList title="Districts lost" districts={comparison.lostDistricts} color="#ffebee" />
+          </Box>
+        ) : null}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
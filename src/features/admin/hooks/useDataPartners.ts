@@ -5,7 +5,7 @@ import {
   getDataPartnersByKeys,
   updateDataPartner,
   syncDataPartnersFromSignals,
-  DataPartner,
+  DataPartnerUpdate,
 } from '../api/dataPartners';
 
 /**
@@ -47,10 +47,12 @@ export function useUpdateDataPartner() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ providerKey, updates }: { providerKey: string; updates: Partial<Pick<DataPartner, 'display_name' | 'website_url' | 'description' | 'logo_url'>> }) =>
+    mutationFn: ({ providerKey, updates }: { providerKey: string; updates: DataPartnerUpdate }) =>
       updateDataPartner(providerKey, updates),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['dataPartners'] });
+      // Trust weights/thresholds change weighted validation results
+      queryClient.invalidateQueries({ queryKey: ['audienceResolution'] });
     },
   });
 }
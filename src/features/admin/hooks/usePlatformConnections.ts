@@ -0,0 +1,42 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  deletePlatformConnection,
+  listPlatformConnections,
+  PlatformConnectionInput,
+  savePlatformConnection,
+} from '../api/platformConnections';
+
+/**
+ * React Query hook to fetch platform connections (all clients, or one client)
+ */
+export function usePlatformConnections(clientId?: string | null, enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['platformConnections', clientId || 'all'],
+    queryFn: () => listPlatformConnections(clientId || undefined),
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useSavePlatformConnection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: PlatformConnectionInput) => savePlatformConnection(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['platformConnections'] });
+    },
+  });
+}
+
+export function useDeletePlatformConnection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deletePlatformConnection(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['platformConnections'] });
+    },
+  });
+}
@@ -0,0 +1,113 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  listCanonicalSegments,
+  listSegmentMappings,
+  upsertCanonicalSegment,
+  createSegmentMapping,
+  updateSegmentMapping,
+  deleteSegmentMapping,
+  suggestSegmentMappings,
+  CanonicalSegment,
+  SegmentMappingInput,
+  SegmentMappingStatus,
+  SegmentMappingUpdate,
+} from '../api/segmentMappings';
+
+/**
+ * React Query hook to fetch canonical segments
+ */
+export function useCanonicalSegments() {
+  return useQuery({
+    queryKey: ['canonicalSegments'],
+    queryFn: listCanonicalSegments,
+  });
+}
+
+/**
+ * React Query hook to fetch segment mappings, optionally filtered by status
+ */
+export function useSegmentMappings(status?: SegmentMappingStatus) {
+  return useQuery({
+    queryKey: ['segmentMappings', status || 'all'],
+    queryFn: () => listSegmentMappings({ status }),
+  });
+}
+
+/**
+ * Invalidate everything that reads approved mappings
+ */
+function useInvalidateMappings() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['segmentMappings'] });
+    // Approved mappings change segment matches and validation results
+    queryClient.invalidateQueries({ queryKey: ['segment_matches'] });
+    queryClient.invalidateQueries({ queryKey: ['audienceResolution'] });
+  };
+}
+
+/**
+ * React Query hook to create or update a canonical segment
+ */
+export function useUpsertCanonicalSegment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (segment: Pick<CanonicalSegment, 'canonical_key' | 'label' | 'description'>) =>
+      upsertCanonicalSegment(segment),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['canonicalSegments'] });
+    },
+  });
+}
+
+/**
+ * React Query hook to create an approved mapping by hand
+ */
+export function useCreateSegmentMapping() {
+  const invalidate = useInvalidateMappings();
+
+  return useMutation({
+    mutationFn: (mapping: SegmentMappingInput) => createSegmentMapping(mapping),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * React Query hook to update (approve, reject, reassign) a mapping
+ */
+export function useUpdateSegmentMapping() {
+  const invalidate = useInvalidateMappings();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: SegmentMappingUpdate }) =>
+      updateSegmentMapping(id, updates),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * React Query hook to delete a mapping
+ */
+export function useDeleteSegmentMapping() {
+  const invalidate = useInvalidateMappings();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteSegmentMapping(id),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * React Query hook to generate mapping suggestions from uploaded data
+ */
+export function useSuggestSegmentMappings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: suggestSegmentMappings,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['segmentMappings'] });
+    },
+  });
+}
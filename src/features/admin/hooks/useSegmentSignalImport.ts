@@ -0,0 +1,95 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  importSegmentSignals,
+  listSignalImportBatches,
+  activateSignalImportBatch,
+  deleteSignalImportBatch,
+  compareSignalImportBatches,
+  SignalImportBatch,
+} from '../api/segmentSignalImport';
+import { SegmentSignalRecord } from '../utils/segmentSignalCsv';
+
+/**
+ * Invalidate everything derived from the active signal batches
+ */
+function useInvalidateSignals() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['signalImportBatches'] });
+    // Active batches change segment matches, validation and mapping suggestions
+    queryClient.invalidateQueries({ queryKey: ['segment_matches'] });
+    queryClient.invalidateQueries({ queryKey: ['audienceResolution'] });
+    queryClient.invalidateQueries({ queryKey: ['segmentMappings'] });
+    queryClient.invalidateQueries({ queryKey: ['segmentProviderCoverage'] });
+  };
+}
+
+/**
+ * React Query hook to list completed import batches
+ */
+export function useSignalImportBatches() {
+  return useQuery({
+    queryKey: ['signalImportBatches'],
+    queryFn: () => listSignalImportBatches(),
+  });
+}
+
+/**
+ * React Query hook to compare two batches (districts gained / lost)
+ */
+export function useSignalImportBatchComparison(
+  fromBatch: SignalImportBatch | null,
+  toBatch: SignalImportBatch | null
+) {
+  return useQuery({
+    queryKey: ['signalImportBatchComparison', fromBatch?.id, toBatch?.id],
+    queryFn: () => compareSignalImportBatches(fromBatch!, toBatch!),
+    enabled: !!fromBatch && !!toBatch,
+  });
+}
+
+/**
+ * React Query hook to write a previewed signal file as a new active batch
+ */
+export function useImportSegmentSignals() {
+  const invalidate = useInvalidateSignals();
+
+  return useMutation({
+    mutationFn: ({
+      records,
+      batchInfo,
+      onProgress,
+    }: {
+      records: SegmentSignalRecord[];
+      batchInfo: { provider: string; segmentKey: string; sourceFile: string };
+      onProgress?: (written: number, total: number) => void;
+    }) => importSegmentSignals(records, batchInfo, onProgress),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * React Query hook to make a batch active (rollback)
+ */
+export function useActivateSignalImportBatch() {
+  const invalidate = useInvalidateSignals();
+
+  return useMutation({
+    mutationFn: (batchId: string) => activateSignalImportBatch(batchId),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * React Query hook to delete an inactive batch
+ */
+export function useDeleteSignalImportBatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (batchId: string) => deleteSignalImportBatch(batchId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['signalImportBatches'] });
+    },
+  });
+}
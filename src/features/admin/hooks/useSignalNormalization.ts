@@ -0,0 +1,34 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  listSignalNormalizationSettings,
+  saveSignalNormalizationSetting,
+  SignalNormalizationInput,
+} from '../api/signalNormalization';
+
+/**
+ * React Query hook to fetch normalisation settings
+ */
+export function useSignalNormalizationSettings() {
+  return useQuery({
+    queryKey: ['signalNormalizationSettings'],
+    queryFn: listSignalNormalizationSettings,
+  });
+}
+
+/**
+ * React Query hook to save a normalisation setting (re-normalises stored batches)
+ */
+export function useSaveSignalNormalizationSetting() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (setting: SignalNormalizationInput) => saveSignalNormalizationSetting(setting),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['signalNormalizationSettings'] });
+      queryClient.invalidateQueries({ queryKey: ['signalImportBatches'] });
+      // Normalised scores drive eligibility and agreement
+      queryClient.invalidateQueries({ queryKey: ['segmentProviderCoverage'] });
+      queryClient.invalidateQueries({ queryKey: ['audienceResolution'] });
+    },
+  });
+}
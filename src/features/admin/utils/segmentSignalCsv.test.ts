@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectSegmentSignalColumns,
+  isValidSector,
+  normalizeSector,
+  parseScore,
+  parseSegmentSignalRows,
+} from './segmentSignalCsv';
+
+describe('normalizeSector', () => {
+  it('splits the inward digit from the outward code', () => {
+    expect(normalizeSector('al11')).toBe('AL1 1');
+    expect(normalizeSector('SW1A1')).toBe('SW1A 1');
+    expect(normalizeSector(' M11 ')).toBe('M1 1');
+  });
+
+  it('leaves spaced or unrecognised values alone', () => {
+    expect(normalizeSector('al1 1')).toBe('AL1 1');
+    expect(normalizeSector('AL')).toBe('AL');
+  });
+});
+
+describe('isValidSector', () => {
+  it('accepts normalised sectors only', () => {
+    expect(isValidSector('AL1 1')).toBe(true);
+    expect(isValidSector('SW1A 1')).toBe(true);
+    expect(isValidSector('AL11')).toBe(false);
+    expect(isValidSector('AL1 1AB')).toBe(false);
+    expect(isValidSector('12 3')).toBe(false);
+  });
+});
+
+describe('parseScore', () => {
+  it('parses numbers and keeps fractional propensities', () => {
+    expect(parseScore(' 120 ')).toBe(120);
+    expect(parseScore('0.35')).toBe(0.35);
+    expect(parseScore(80)).toBe(80);
+  });
+
+  it('returns null for blank or non-numeric values', () => {
+    expect(parseScore('')).toBeNull();
+    expect(parseScore(null)).toBeNull();
+    expect(parseScore('n/a')).toBeNull();
+    expect(parseScore('Infinity')).toBeNull();
+  });
+});
+
+describe('detectSegmentSignalColumns', () => {
+  it('matches header variants case-insensitively', () => {
+    expect(detectSegmentSignalColumns(['Postcode District', ' SECTOR ', 'Index'])).toEqual({
+      sectorIndex: 1,
+      districtIndex: 0,
+      scoreIndex: 2,
+    });
+  });
+
+  it('reports missing columns as null', () => {
+    expect(detectSegmentSignalColumns(['postcode_sector', 'district'])).toEqual({
+      sectorIndex: 0,
+      districtIndex: 1,
+      scoreIndex: null,
+    });
+  });
+});
+
+describe('parseSegmentSignalRows', () => {
+  const options = { provider: 'CCS', segmentKey: 'home_movers', sourceFile: 'ccs.csv' };
+  const columns = { sectorIndex: 0, districtIndex: 1, scoreIndex: 2 };
+
+  it('builds records and counts skipped, invalid and duplicate rows', () => {
+    const parsed = parseSegmentSignalRows(
+      [
+        ['AL11', 'al1', '120'],
+        ['AL1 2', 'AL1', ''],
+        ['', 'AL1', '90'],
+        ['NOTASECTOR', 'AL2', '50'],
+        ['al1 1', 'AL1', '140'],
+        ['B1 1', 'B1', '80'],
+      ],
+      columns,
+      options
+    );
+
+    expect(parsed.rowsRead).toBe(6);
+    expect(parsed.skippedRows).toBe(1);
+    expect(parsed.invalidSectors).toEqual(['NOTASECTOR']);
+    expect(parsed.invalidSectorRows).toBe(1);
+    expect(parsed.duplicateSectorRows).toBe(1);
+    expect(parsed.rowsWithScore).toBe(2);
+    expect(parsed.districts).toEqual(['AL1', 'B1']);
+    expect(parsed.records.map((r) => r.sector)).toEqual(['AL1 1', 'AL1 2', 'B1 1']);
+  });
+
+  it('keeps the last row for a repeated sector and scales the score', () => {
+    const { records } = parseSegmentSignalRows([['AL11', 'AL1', '120'], ['AL1 1', 'AL1', '140']], columns, options);
+    expect(records).toEqual([
+      {
+        segment_key: 'home_movers',
+        provider: 'CCS',
+        provider_segment_label: 'home_movers',
+        sector: 'AL1 1',
+        district: 'AL1',
+        score: 140,
+        score_norm: 1.4,
+        source_file: 'ccs.csv',
+      },
+    ]);
+  });
+
+  it('leaves scores empty without a score column', () => {
+    const { records } = parseSegmentSignalRows(
+      [['AL1 1', 'AL1']],
+      { ...columns, scoreIndex: null },
+      { ...options, providerLabel: 'CCS Movers' }
+    );
+    expect(records[0]).toMatchObject({ score: null, score_norm: null, provider_segment_label: 'CCS Movers' });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Parsing for provider segment signal CSVs (sector, district, optional score).
+ * Shared by the admin import wizard and the import-segment-geo-csv script.
+ */
+
+export const SECTOR_COLUMN_VARIANTS = ['Sector', 'sector', 'postcode_sector', 'Postcode Sector'];
+export const DISTRICT_COLUMN_VARIANTS = ['District', 'district', 'postcode_district', 'Postcode District'];
+export const SCORE_COLUMN_VARIANTS = ['Index', 'index', 'Score', 'score'];
+
+// Normalised sector: outward code, space, inward digit (e.g. "AL1 1", "SW1A 1")
+const SECTOR_PATTERN = /^[A-Z]{1,2}\d[A-Z\d]? \d$/;
+
+export interface SegmentSignalColumns {
+  sectorIndex: number | null;
+  districtIndex: number | null;
+  scoreIndex: number | null;
+}
+
+export interface SegmentSignalRecord {
+  segment_key: string;
+  provider: string;
+  provider_segment_label: string;
+  sector: string;
+  district: string;
+  score: number | null;
+  score_norm: number | null;
+  source_file: string;
+}
+
+export interface ParsedSegmentSignals {
+  records: SegmentSignalRecord[];
+  rowsRead: number;
+  /** Rows missing a sector or district value */
+  skippedRows: number;
+  /** Raw sector values that do not normalise to a valid sector (these rows are not imported) */
+  invalidSectors: string[];
+  invalidSectorRows: number;
+  /** Rows repeating an earlier sector (the last one wins) */
+  duplicateSectorRows: number;
+  rowsWithScore: number;
+  districts: string[];
+}
+
+/**
+ * Normalize sector code (e.g. "AL11" -> "AL1 1")
+ * Attempts to add space between outward and inward codes
+ */
+export function normalizeSector(sector: string): string {
+  const trimmed = sector.trim().toUpperCase();
+
+  // If already has space, return as-is
+  if (trimmed.includes(' ')) {
+    return trimmed;
+  }
+
+  // Split off the inward digit after a full outward code
+  // e.g. "AL11" -> "AL1 1", "SW1A1" -> "SW1A 1"
+  const match = trimmed.match(/^([A-Z]{1,2}\d[A-Z\d]?)(\d)$/);
+  if (match) {
+    const [, outward, inward] = match;
+    return `${outward} ${inward}`;
+  }
+
+  // If pattern doesn't match, return as-is
+  return trimmed;
+}
+
+/**
+ * Whether a normalised sector looks like a real postcode sector
+ */
+export function isValidSector(sector: string): boolean {
+  return SECTOR_PATTERN.test(sector);
+}
+
+/**
+ * Normalize district code
+ */
+export function normalizeDistrict(district: string): string {
+  return district.trim().toUpperCase();
+}
+
+/**
+ * Parse score from string or number
+ */
+export function parseScore(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  // Fractional scores (0-1 propensities) are kept; normalisation happens on import
+  const num = typeof value === 'string' ? parseFloat(value.trim()) : Number(value);
+  if (isNaN(num) || !isFinite(num)) {
+    return null;
+  }
+
+  return num;
+}
+
+/**
+ * Find column index by name (case-insensitive, handles variants)
+ */
+export function findColumnIndex(headers: string[], variants: string[]): number | null {
+  const lowerHeaders = headers.map(h => h.toLowerCase().trim());
+  for (const variant of variants) {
+    const index = lowerHeaders.indexOf(variant.toLowerCase().trim());
+    if (index !== -1) {
+      return index;
+    }
+  }
+  return null;
+}
+
+/**
+ * Detect the sector / district / score columns from a header row
+ */
+export function detectSegmentSignalColumns(headers: string[]): SegmentSignalColumns {
+  return {
+    sectorIndex: findColumnIndex(headers, SECTOR_COLUMN_VARIANTS),
+    districtIndex: findColumnIndex(headers, DISTRICT_COLUMN_VARIANTS),
+    scoreIndex: findColumnIndex(headers, SCORE_COLUMN_VARIANTS),
+  };
+}
+
+/**
+ * Turn data rows (header row excluded) into geo_sector_signals records
+ */
+export function parseSegmentSignalRows(
+  dataRows: string[][],
+  columns: { sectorIndex: number; districtIndex: number; scoreIndex: number | null },
+  options: { provider: string; segmentKey: string; providerLabel?: string; sourceFile: string }
+): ParsedSegmentSignals {
+  const { sectorIndex, districtIndex, scoreIndex } = columns;
+  // Keyed by sector: a repeated sector would hit the unique constraint twice in one upsert
+  const recordsBySector = new Map<string, SegmentSignalRecord>();
+  const invalidSectors = new Set<string>();
+  const districtSet = new Set<string>();
+  let skippedRows = 0;
+  let invalidSectorRows = 0;
+
+  for (const row of dataRows) {
+    const sectorRaw = row[sectorIndex];
+    const districtRaw = row[districtIndex];
+
+    if (!sectorRaw?.trim() || !districtRaw?.trim()) {
+      skippedRows++; // Incomplete row or missing required fields
+      continue;
+    }
+
+    const sector = normalizeSector(sectorRaw);
+    if (!isValidSector(sector)) {
+      invalidSectors.add(sectorRaw.trim());
+      invalidSectorRows++;
+      continue;
+    }
+
+    const district = normalizeDistrict(districtRaw);
+    const score = parseScore(scoreIndex !== null ? row[scoreIndex] : null);
+    districtSet.add(district);
+
+    recordsBySector.set(sector, {
+      segment_key: options.segmentKey,
+      provider: options.provider,
+      provider_segment_label: options.providerLabel || options.segmentKey,
+      sector,
+      district,
+      score,
+      score_norm: score !== null ? score / 100.0 : null,
+      source_file: options.sourceFile,
+    });
+  }
+
+  const records = Array.from(recordsBySector.values());
+
+  return {
+    records,
+    rowsRead: dataRows.length,
+    skippedRows,
+    invalidSectors: Array.from(invalidSectors),
+    invalidSectorRows,
+    duplicateSectorRows: dataRows.length - skippedRows - invalidSectorRows - records.length,
+    rowsWithScore: records.filter((record) => record.score !== null).length,
+    districts: Array.from(districtSet).sort(),
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Text similarity for suggesting provider segment -> canonical segment mappings.
+ * Scores are 0-1; suggestions still need admin approval before they are used.
+ */
+
+interface SegmentText {
+  key: string;
+  label: string;
+}
+
+const normalizeText = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Crude singularisation so "movers" and "mover" share a token
+const tokenize = (value: string): Set<string> =>
+  new Set(
+    normalizeText(value)
+      .split(' ')
+      .filter((token) => token.length > 2)
+      .map((token) => (token.length > 3 && token.endsWith('s') ? token.slice(0, -1) : token))
+  );
+
+/**
+ * Levenshtein ratio: 1 - edit distance / longer length
+ */
+export function calculateSimilarity(str1: string, str2: string): number {
+  const longer = str1.length > str2.length ? str1 : str2;
+  const shorter = str1.length > str2.length ? str2 : str1;
+
+  if (longer.length === 0) return 1.0;
+
+  const distance = levenshteinDistance(longer, shorter);
+  return (longer.length - distance) / longer.length;
+}
+
+function levenshteinDistance(str1: string, str2: string): number {
+  const matrix: number[][] = [];
+
+  for (let i = 0; i <= str2.length; i++) {
+    matrix[i] = [i];
+  }
+
+  for (let j = 0; j <= str1.length; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= str2.length; i++) {
+    for (let j = 1; j <= str1.length; j++) {
+      if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1,
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j] + 1
+        );
+      }
+    }
+  }
+
+  return matrix[str2.length][str1.length];
+}
+
+function tokenOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((token) => {
+    if (b.has(token)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Best of key edit similarity, label edit similarity and shared-word overlap.
+ * Provider keys often carry a prefix (exp_, tci_), so words are compared as well as whole strings.
+ */
+export function scoreSegmentSimilarity(providerSegment: SegmentText, canonical: SegmentText): number {
+  const keyScore = calculateSimilarity(normalizeText(providerSegment.key), normalizeText(canonical.key));
+  const labelScore = calculateSimilarity(normalizeText(providerSegment.label), normalizeText(canonical.label));
+  const tokenScore = tokenOverlap(
+    tokenize(`${providerSegment.key} ${providerSegment.label}`),
+    tokenize(`${canonical.key} ${canonical.label}`)
+  );
+  return Math.round(Math.max(keyScore, labelScore, tokenScore) * 100) / 100;
+}
@@ -66,8 +66,8 @@ export async function updateAudience(
   updates: Partial<Audience>
 ): Promise<Audience> {
   const supabase = createClient();
-  const { data, error } = await (supabase
-    .from('audiences') as any)
+  const { data, error } = await supabase
+    .from('audiences')
     .update(updates)
     .eq('id', id)
     .select()
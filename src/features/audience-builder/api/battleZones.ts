@@ -1,4 +1,5 @@
-import { createClient } from '@/lib/supabase/client';
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
+import { BattleZoneCatchment } from '../utils/battleZoneCatchments';
 
 export interface BattleZoneDistrict {
   district: string;
@@ -27,24 +28,47 @@ export interface BattleZonesOptions {
   baseBrand: string;
   competitorBrands?: string[];
   rings?: number;
+  catchment?: BattleZoneCatchment; // Omitted = neighbour rings
   tvRegions?: string[];
 }
 
+export interface BattleZoneStoreCatchment {
+  poi_id: string;
+  store_name: string;
+  lat: number;
+  lng: number;
+  source: 'distance' | 'estimate' | 'road_graph';
+  district_count: number;
+  reach_km: number | null; // Furthest district centroid in the catchment
+  points: Array<[number, number]>; // Road-graph catchments only: reached district centroids
+}
+
 /**
- * Get battle zone districts with category classification
+ * RPC arguments shared by the districts and summary functions
  */
-export async function getBattleZoneDistricts(
-  options: BattleZonesOptions
-): Promise<BattleZoneDistrict[]> {
-  const { baseBrand, competitorBrands = [], rings = 0, tvRegions } = options;
-  const supabase = createClient();
-
-  const { data, error } = await supabase.rpc('get_battle_zones_districts', {
+function battleZoneParams(options: BattleZonesOptions) {
+  const { baseBrand, competitorBrands = [], rings = 0, catchment, tvRegions } = options;
+  return {
     base_brand: baseBrand,
     competitor_brands: competitorBrands.length > 0 ? competitorBrands : null,
     rings: rings || 0,
     tv_regions: tvRegions && tvRegions.length > 0 ? tvRegions : null,
-  } as any);
+    catchment_mode: catchment?.mode || 'rings',
+    max_distance_km: catchment?.mode === 'distance' ? catchment.radiusKm : null,
+    max_drive_minutes: catchment?.mode === 'drive_time' ? catchment.driveMinutes : null,
+  };
+}
+
+/**
+ * Get battle zone districts with category classification
+ */
+export async function getBattleZoneDistricts(
+  options: BattleZonesOptions,
+  client?: TypedSupabaseClient
+): Promise<BattleZoneDistrict[]> {
+  const supabase = client || createClient();
+
+  const { data, error } = await supabase.rpc('get_battle_zones_districts', battleZoneParams(options));
 
   if (error) {
     console.error('Error fetching battle zone districts:', error);
@@ -60,20 +84,39 @@ export async function getBattleZoneDistricts(
 export async function getBattleZoneSummary(
   options: BattleZonesOptions
 ): Promise<BattleZoneSummary> {
-  const { baseBrand, competitorBrands = [], rings = 0, tvRegions } = options;
   const supabase = createClient();
 
-  const { data, error } = await supabase.rpc('get_battle_zones_summary', {
+  const { data, error } = await supabase.rpc('get_battle_zones_summary', battleZoneParams(options));
+
+  if (error) {
+    console.error('Error fetching battle zone summary:', error);
+    throw error;
+  }
+
+  return (data || {}) as unknown as BattleZoneSummary;
+}
+
+/**
+ * Get each base store's catchment for map overlays (distance and drive-time catchments only)
+ */
+export async function getBattleZoneStoreCatchments(
+  baseBrand: string,
+  catchment: BattleZoneCatchment
+): Promise<BattleZoneStoreCatchment[]> {
+  if (catchment.mode === 'rings') return [];
+  const supabase = createClient();
+
+  const { data, error } = await supabase.rpc('get_battle_zone_store_catchments', {
     base_brand: baseBrand,
-    competitor_brands: competitorBrands.length > 0 ? competitorBrands : null,
-    rings: rings || 0,
-    tv_regions: tvRegions && tvRegions.length > 0 ? tvRegions : null,
+    catchment_mode: catchment.mode,
+    max_distance_km: catchment.mode === 'distance' ? catchment.radiusKm : null,
+    max_drive_minutes: catchment.mode === 'drive_time' ? catchment.driveMinutes : null,
   } as any);
 
   if (error) {
-    console.error('Error fetching battle zone summary:', error);
+    console.error('Error fetching battle zone store catchments:', error);
     throw error;
   }
 
-  return (data || {}) as BattleZoneSummary;
+  return (data || []) as BattleZoneStoreCatchment[];
 }
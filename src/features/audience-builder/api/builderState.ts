@@ -0,0 +1,102 @@
+import { createClient } from '@/lib/supabase/client';
+import type { Json } from '@/lib/supabase/database.types';
+import type { AgreementScoring } from './validationResults';
+import type { GeoResolution, ValidationAgreementMode } from '../types/signals';
+import type { BattleZoneCatchment } from '../utils/battleZoneCatchments';
+
+/**
+ * Persisted subset of BuilderContext state (audience_builder_state.state).
+ * activeTab is URL-driven and not persisted.
+ */
+export interface PersistedBuilderState {
+  constructionMode?: 'validation' | 'extension';
+  validationMinAgreement?: number;
+  validationAgreementMode?: ValidationAgreementMode;
+  validationScoring?: AgreementScoring;
+  validationMinWeightedScore?: number;
+  geoResolution?: GeoResolution;
+  extensionConfidenceThreshold?: number;
+  includedSegmentKeys?: string[];
+  selectionConfirmed?: boolean;
+  selectedProviders?: string[];
+  baseProvider?: string;
+  selectedSegmentKey?: string | null;
+  tvRegions?: string[];
+  selectedPoiIds?: string[];
+  selectedPoiBrands?: string[];
+  battleZonesEnabled?: boolean;
+  battleZoneBaseBrand?: string;
+  battleZoneCompetitorBrands?: string[];
+  battleZoneRings?: number;
+  battleZoneCatchment?: BattleZoneCatchment;
+}
+
+// One entry per PersistedBuilderState key; the Record type makes a new key fail to compile until listed
+const PERSISTED_BUILDER_STATE_KEYS: Record<keyof PersistedBuilderState, true> = {
+  constructionMode: true,
+  validationMinAgreement: true,
+  validationAgreementMode: true,
+  validationScoring: true,
+  validationMinWeightedScore: true,
+  geoResolution: true,
+  extensionConfidenceThreshold: true,
+  includedSegmentKeys: true,
+  selectionConfirmed: true,
+  selectedProviders: true,
+  baseProvider: true,
+  selectedSegmentKey: true,
+  tvRegions: true,
+  selectedPoiIds: true,
+  selectedPoiBrands: true,
+  battleZonesEnabled: true,
+  battleZoneBaseBrand: true,
+  battleZoneCompetitorBrands: true,
+  battleZoneRings: true,
+  battleZoneCatchment: true,
+};
+
+/**
+ * Keep only the known PersistedBuilderState keys (drops activeTab, keys from older versions
+ * and anything else written into the JSONB column)
+ */
+export function pickPersistedBuilderState(state: object): PersistedBuilderState {
+  const source = state as Record<string, unknown>;
+  const picked: Record<string, unknown> = {};
+  for (const key of Object.keys(PERSISTED_BUILDER_STATE_KEYS)) {
+    if (source[key] !== undefined) picked[key] = source[key];
+  }
+  return picked as PersistedBuilderState;
+}
+
+/**
+ * Get the saved builder state for an audience (null if never saved)
+ */
+export async function getBuilderState(audienceId: string): Promise<PersistedBuilderState | null> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('audience_builder_state')
+    .select('state')
+    .eq('audience_id', audienceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data?.state as PersistedBuilderState) || null;
+}
+
+/**
+ * Save (upsert) the builder state for an audience
+ */
+export async function saveBuilderState(
+  audienceId: string,
+  state: PersistedBuilderState
+): Promise<void> {
+  const supabase = createClient();
+  const { error } = await supabase
+    .from('audience_builder_state')
+    .upsert(
+      { audience_id: audienceId, state: state as unknown as Json },
+      { onConflict: 'audience_id' }
+    );
+
+  if (error) throw error;
+}
@@ -0,0 +1,85 @@
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
+
+export type CompositionOperation = 'union' | 'intersect' | 'exclude';
+
+/**
+ * Set-operation recipe for a composite audience (audience_compositions).
+ * Source order matters for 'exclude': the first source minus the rest.
+ */
+export interface AudienceCompositionRecipe {
+  operation: CompositionOperation;
+  sourceAudienceIds: string[];
+}
+
+export interface AudienceComposition extends AudienceCompositionRecipe {
+  audienceId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const mapComposition = (row: any): AudienceComposition => ({
+  audienceId: row.audience_id,
+  operation: row.operation,
+  sourceAudienceIds: row.source_audience_ids || [],
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Get the composition recipe for an audience (null for regular audiences)
+ */
+export async function getComposition(
+  audienceId: string,
+  client?: TypedSupabaseClient
+): Promise<AudienceComposition | null> {
+  const supabase = client || createClient();
+  const { data, error } = await supabase
+    .from('audience_compositions')
+    .select('*')
+    .eq('audience_id', audienceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? mapComposition(data) : null;
+}
+
+/**
+ * Get composition recipes for several audiences, keyed by audience ID
+ */
+export async function getCompositions(audienceIds: string[]): Promise<Map<string, AudienceComposition>> {
+  if (audienceIds.length === 0) return new Map();
+
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('audience_compositions')
+    .select('*')
+    .in('audience_id', audienceIds);
+
+  if (error) throw error;
+  return new Map((data || []).map((row) => [row.audience_id, mapComposition(row)]));
+}
+
+/**
+ * Save (upsert) the composition recipe for an audience
+ */
+export async function saveComposition(
+  audienceId: string,
+  recipe: AudienceCompositionRecipe
+): Promise<AudienceComposition> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('audience_compositions')
+    .upsert(
+      {
+        audience_id: audienceId,
+        operation: recipe.operation,
+        source_audience_ids: recipe.sourceAudienceIds,
+      },
+      { onConflict: 'audience_id' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return mapComposition(data);
+}
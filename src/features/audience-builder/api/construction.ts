@@ -52,8 +52,8 @@ export async function updateConstructionSettings(
   };
 
   if (existing) {
-    const { data, error } = await (supabase
-      .from('audience_construction_settings') as any)
+    const { data, error } = await supabase
+      .from('audience_construction_settings')
       .update(payload)
       .eq('audience_id', audienceId)
       .select()
@@ -66,10 +66,12 @@ export async function updateConstructionSettings(
       construction_mode: updateRow.construction_mode,
       active_signals: (updateRow.active_signals as any) || {},
       last_run_at: updateRow.last_run_at || null,
+      validation_min_agreement: updateRow.validation_min_agreement || 1,
+      validation_agreement_mode: updateRow.validation_agreement_mode || 'threshold',
     };
   } else {
-    const { data, error } = await (supabase
-      .from('audience_construction_settings') as any)
+    const { data, error } = await supabase
+      .from('audience_construction_settings')
       .insert(payload)
       .select()
       .single();
@@ -81,6 +83,8 @@ export async function updateConstructionSettings(
       construction_mode: insertRow.construction_mode,
       active_signals: (insertRow.active_signals as any) || {},
       last_run_at: insertRow.last_run_at || null,
+      validation_min_agreement: insertRow.validation_min_agreement || 1,
+      validation_agreement_mode: insertRow.validation_agreement_mode || 'threshold',
     };
   }
 }
@@ -0,0 +1,41 @@
+import type { Geometry } from 'geojson';
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
+import { BoundaryGeometry, isBoundaryGeometry } from '../utils/districtBoundaries';
+
+const LOOKUP_BATCH_SIZE = 500; // boundary rows are large; keep responses modest
+
+/**
+ * District boundary polygons at one stored detail level (geo_district_boundaries.min_zoom),
+ * keyed by district. Districts without an imported boundary are missing from the map.
+ */
+export async function getDistrictBoundaries(
+  districts: string[],
+  minZoom: number,
+  client?: TypedSupabaseClient
+): Promise<Map<string, BoundaryGeometry>> {
+  const supabase = client || createClient();
+  const byDistrict = new Map<string, BoundaryGeometry>();
+  const uniqueDistricts = Array.from(new Set(districts));
+
+  for (let i = 0; i < uniqueDistricts.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = uniqueDistricts.slice(i, i + LOOKUP_BATCH_SIZE);
+    const { data, error } = await supabase
+      .from('geo_district_boundaries')
+      .select('district, geometry')
+      .eq('min_zoom', minZoom)
+      .in('district', batch);
+
+    if (error) {
+      console.warn('[districtBoundaries] Error fetching boundaries batch:', error);
+      continue;
+    }
+    for (const row of data || []) {
+      const geometry = row.geometry as Geometry | null;
+      if (isBoundaryGeometry(geometry)) {
+        byDistrict.set(row.district, geometry);
+      }
+    }
+  }
+
+  return byDistrict;
+}
@@ -0,0 +1,121 @@
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
+import { PlatformKey, PushPayloadFormat } from '../connectors/types';
+import { ExportScheduleCadence } from '../utils/exportSchedules';
+
+export interface ExportSchedule {
+  id: string;
+  audience_id: string;
+  user_id: string;
+  cadence: ExportScheduleCadence;
+  export_type: 'csv' | 'geojson' | 'xlsx' | 'html' | 'pdf';
+  activation_target: 'postcode_sector' | 'geojson' | 'h3';
+  h3_resolution: number | null;
+  destination: PlatformKey | null; // null = export file only
+  payload_format: PushPayloadFormat | null;
+  change_threshold_pct: number;
+  is_enabled: boolean;
+  next_run_at: string;
+  last_run_at: string | null;
+  last_export_id: string | null;
+  last_error: string | null;
+  running_since: string | null; // Set while a run is in progress
+  created_at: string;
+  updated_at: string;
+}
+
+export type ExportScheduleInput = Pick<
+  ExportSchedule,
+  | 'cadence'
+  | 'export_type'
+  | 'activation_target'
+  | 'h3_resolution'
+  | 'destination'
+  | 'payload_format'
+  | 'change_threshold_pct'
+  | 'is_enabled'
+  | 'next_run_at'
+>;
+
+export async function getExportSchedules(
+  audienceId: string,
+  client?: TypedSupabaseClient
+): Promise<ExportSchedule[]> {
+  const supabase = client || createClient();
+  const { data, error } = await supabase
+    .from('export_schedules')
+    .select('*')
+    .eq('audience_id', audienceId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data as ExportSchedule[]) || [];
+}
+
+export async function createExportSchedule(
+  audienceId: string,
+  input: ExportScheduleInput
+): Promise<ExportSchedule> {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('export_schedules')
+    .insert({ ...input, audience_id: audienceId, user_id: user.id })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ExportSchedule;
+}
+
+export async function updateExportSchedule(
+  id: string,
+  updates: Partial<ExportScheduleInput>
+): Promise<ExportSchedule> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('export_schedules')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ExportSchedule;
+}
+
+export async function deleteExportSchedule(id: string): Promise<void> {
+  const supabase = createClient();
+  const { error } = await supabase
+    .from('export_schedules')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export interface ExportScheduleRun {
+  scheduleId: string;
+  exportId: string | null;
+  status: 'succeeded' | 'failed' | 'skipped';
+  message: string;
+}
+
+/**
+ * Run a schedule now (server-side, same path as the scheduled run). A failed run still
+ * resolves with its outcome; only request errors throw.
+ */
+export async function runExportScheduleNow(scheduleId: string): Promise<ExportScheduleRun> {
+  const response = await fetch('/api/exports/schedules/run', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ scheduleId }),
+  });
+  const result = await response.json();
+  const run = result.runs?.[0] as ExportScheduleRun | undefined;
+  if (!run) {
+    throw new Error(result.error || 'Scheduled export failed');
+  }
+  return run;
+}
@@ -37,6 +37,22 @@ export async function createExport(
   return data;
 }
 
+/**
+ * Re-queue a failed export job (generation runs server-side)
+ */
+export async function retryExportJob(exportId: string): Promise<Export> {
+  const response = await fetch('/api/exports/retry', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ exportId }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Retry failed');
+  }
+  return result.export;
+}
+
 export async function getExportDownloadUrl(storagePath: string): Promise<string> {
   const supabase = createClient();
   const { data, error } = await supabase.storage
@@ -1,4 +1,4 @@
-import { createClient } from '@/lib/supabase/client';
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
 import { fetchAll } from '@/lib/supabase/pagination';
 import { getAvailableSegmentKeys } from './segmentAvailability';
 import { getDistrictsByTvRegion } from './tvRegions';
@@ -256,8 +256,8 @@ export async function getProviderImpact({
   includeAnchorOnly?: boolean;
   providers?: string[]; // Optional filter: only include these providers (CCS is always included)
   tvRegions?: string[]; // Optional filter: only include districts in these TV regions
-}): Promise<ExtensionResults> {
-  const supabase = createClient();
+}, client?: TypedSupabaseClient): Promise<ExtensionResults> {
+  const supabase = client || createClient();
 
   // Normalize district codes
   const normalizeDistrict = (d: string): string => {
@@ -317,7 +317,7 @@ export async function getProviderImpact({
   
   // Apply TV region filter if provided (AND logic: segmentEligible AND tvRegionAllowed)
   if (tvRegions && tvRegions.length > 0) {
-    const tvRegionDistricts = await getDistrictsByTvRegion(tvRegions);
+    const tvRegionDistricts = await getDistrictsByTvRegion(tvRegions, supabase);
     
     // Intersection: only keep districts that are BOTH segment-eligible AND in TV regions
     // Normalize TV region districts using the same function for consistent comparison
@@ -485,7 +485,7 @@ export async function getProviderImpact({
   // Get provider metadata from data_partners for display names
   let providerMetadataMap = new Map<string, { display_name: string }>();
   try {
-    const partners = await getDataPartnersByKeys(Array.from(allProviders));
+    const partners = await getDataPartnersByKeys(Array.from(allProviders), supabase);
     partners.forEach(partner => {
       providerMetadataMap.set(partner.provider_key, { display_name: partner.display_name });
     });
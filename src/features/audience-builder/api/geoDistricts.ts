@@ -1,4 +1,4 @@
-import { createClient } from '@/lib/supabase/client';
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
 import { fetchAll } from '@/lib/supabase/pagination';
 
 export interface GeoDistrict {
@@ -29,6 +29,45 @@ export async function getGeoDistricts(): Promise<GeoDistrict[]> {
   return await fetchAll(query);
 }
 
+// Matches the per-district fallback used by the validation/extension household totals
+export const FALLBACK_HOUSEHOLDS_PER_DISTRICT = 2500;
+
+/**
+ * Get household counts for districts (batched). Districts with a NULL count, or whose
+ * batch fails, get FALLBACK_HOUSEHOLDS_PER_DISTRICT, so every requested district has a value.
+ */
+export async function getDistrictHouseholds(
+  districtIds: string[],
+  client?: TypedSupabaseClient
+): Promise<Map<string, number>> {
+  const supabase = client || createClient();
+  const households = new Map<string, number>();
+  const batchSize = 1000;
+
+  for (let i = 0; i < districtIds.length; i += batchSize) {
+    const batch = districtIds.slice(i, i + batchSize);
+    const { data, error } = await supabase
+      .from('geo_districts')
+      .select('district, households')
+      .in('district', batch);
+
+    if (error) {
+      console.warn('[geoDistricts] Error fetching households batch:', error);
+      continue;
+    }
+    for (const row of data || []) {
+      if (row.households !== null && row.households > 0) {
+        households.set(row.district, row.households);
+      }
+    }
+  }
+
+  for (const district of districtIds) {
+    if (!households.has(district)) households.set(district, FALLBACK_HOUSEHOLDS_PER_DISTRICT);
+  }
+  return households;
+}
+
 /**
  * Get audience signals for a specific audience key (with pagination to fetch all rows)
  */
@@ -0,0 +1,125 @@
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
+import { fetchAll } from '@/lib/supabase/pagination';
+
+export interface SectorSignalRow {
+  segment_key: string;
+  provider: string;
+  provider_segment_label: string | null;
+  sector: string; // e.g. 'AL1 1'
+  district: string;
+  score: number | null;
+  score_norm: number | null;
+}
+
+export interface GeoSector {
+  sector: string;
+  district: string;
+  centroid_lat: number | null;
+  centroid_lng: number | null;
+  households: number | null;
+}
+
+const LOOKUP_BATCH_SIZE = 1000; // Supabase limit is typically 1000 for .in()
+// Sectors without reference centroids are spread on a ring around their district centroid
+const APPROXIMATE_SECTOR_RADIUS_DEG = 0.012;
+
+/**
+ * Sector signals from active import batches for the given segment keys (with pagination)
+ */
+export async function getActiveSectorSignals(
+  segmentKeys: string[],
+  client?: TypedSupabaseClient
+): Promise<SectorSignalRow[]> {
+  const supabase = client || createClient();
+  const query = supabase
+    .from('geo_active_sector_signals')
+    .select('*')
+    .in('segment_key', segmentKeys)
+    .order('sector', { ascending: true });
+
+  return await fetchAll<SectorSignalRow>(query);
+}
+
+/**
+ * Sector reference rows (centroids, households) from geo_sectors, keyed by sector.
+ * Sectors without a row are simply missing from the map.
+ */
+export async function getGeoSectors(
+  sectors: string[],
+  client?: TypedSupabaseClient
+): Promise<Map<string, GeoSector>> {
+  const supabase = client || createClient();
+  const bySector = new Map<string, GeoSector>();
+
+  for (let i = 0; i < sectors.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = sectors.slice(i, i + LOOKUP_BATCH_SIZE);
+    const { data, error } = await supabase
+      .from('geo_sectors')
+      .select('sector, district, centroid_lat, centroid_lng, households')
+      .in('sector', batch);
+
+    if (error) {
+      console.warn('[geoSectors] Error fetching sectors batch:', error);
+      continue;
+    }
+    for (const row of data || []) {
+      bySector.set(row.sector, {
+        sector: row.sector,
+        district: row.district,
+        centroid_lat: row.centroid_lat !== null ? Number(row.centroid_lat) : null,
+        centroid_lng: row.centroid_lng !== null ? Number(row.centroid_lng) : null,
+        households: row.households,
+      });
+    }
+  }
+
+  return bySector;
+}
+
+/**
+ * Number of known sectors per district (geo_district_sector_counts), used to split
+ * district households between its sectors
+ */
+export async function getDistrictSectorCounts(
+  districts: string[],
+  client?: TypedSupabaseClient
+): Promise<Map<string, number>> {
+  const supabase = client || createClient();
+  const counts = new Map<string, number>();
+
+  for (let i = 0; i < districts.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = districts.slice(i, i + LOOKUP_BATCH_SIZE);
+    const { data, error } = await supabase
+      .from('geo_district_sector_counts')
+      .select('district, sector_count')
+      .in('district', batch);
+
+    if (error) {
+      console.warn('[geoSectors] Error fetching sector counts batch:', error);
+      continue;
+    }
+    for (const row of data || []) {
+      counts.set(row.district, Number(row.sector_count));
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Deterministic stand-in centroid for a sector without reference data: a point on a small
+ * ring around the district centroid, positioned by the sector's inward digit
+ */
+export function approximateSectorCentroid(
+  sector: string,
+  districtCentroid: { lat: number; lng: number }
+): { lat: number; lng: number } {
+  const digit = Number(sector.slice(-1)) || 0;
+  const angle = (digit / 10) * 2 * Math.PI;
+  // Longitude degrees shrink with latitude; keep the ring roughly circular
+  const lngScale = Math.cos((districtCentroid.lat * Math.PI) / 180) || 1;
+  return {
+    lat: districtCentroid.lat + APPROXIMATE_SECTOR_RADIUS_DEG * Math.sin(angle),
+    lng: districtCentroid.lng + (APPROXIMATE_SECTOR_RADIUS_DEG * Math.cos(angle)) / lngScale,
+  };
+}
@@ -41,8 +41,8 @@ export async function updatePoiLayer(
   updates: Partial<PoiLayer>
 ): Promise<PoiLayer> {
   const supabase = createClient();
-  const { data, error } = await (supabase
-    .from('poi_layers') as any)
+  const { data, error } = await supabase
+    .from('poi_layers')
     .update(updates)
     .eq('id', layerId)
     .select()
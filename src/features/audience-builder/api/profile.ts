@@ -25,8 +25,8 @@ export async function updateProfileSettings(
   const existing = await getProfileSettings(audienceId);
   
   if (existing) {
-    const { data, error } = await (supabase
-      .from('audience_profile_settings') as any)
+    const { data, error } = await supabase
+      .from('audience_profile_settings')
       .update(updates)
       .eq('audience_id', audienceId)
       .select()
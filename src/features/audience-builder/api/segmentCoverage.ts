@@ -1,8 +1,11 @@
 import { createClient } from '@/lib/supabase/client';
+import { ScoreNormalizationMethod } from '../types/signals';
 
 export interface ProviderCoverage {
   provider: string;
   districtCount: number;
+  normalizationMethod: ScoreNormalizationMethod | null; // From the active import batch
+  presenceOnly: boolean; // Active batch has no scores
 }
 
 /**
@@ -23,6 +26,23 @@ export async function getSegmentProviderCoverage(
     .eq('segment_key', normalizedSegmentKey);
 
   if (error) throw error;
+
+  // Normalisation of each provider's active batch (informational, so failures are not fatal)
+  const { data: activeBatches, error: batchesError } = await supabase
+    .from('signal_import_batches')
+    .select('provider, normalization_method, rows_with_score')
+    .eq('segment_key', normalizedSegmentKey)
+    .eq('is_active', true);
+
+  if (batchesError) {
+    console.warn('Failed to load signal import batches:', batchesError);
+  }
+  const batchByProvider = new Map<string, { normalization_method: ScoreNormalizationMethod; rows_with_score: number }>(
+    (activeBatches || []).map((batch) => [
+      batch.provider.trim(),
+      { ...batch, normalization_method: batch.normalization_method as ScoreNormalizationMethod },
+    ])
+  );
   
   // Group by provider and count distinct districts
   const providerMap = new Map<string, Set<string>>();
@@ -44,6 +64,8 @@ export async function getSegmentProviderCoverage(
     ([provider, districts]) => ({
       provider,
       districtCount: districts.size,
+      normalizationMethod: batchByProvider.get(provider)?.normalization_method || null,
+      presenceOnly: batchByProvider.has(provider) && batchByProvider.get(provider)!.rows_with_score === 0,
     })
   );
 
@@ -1,4 +1,9 @@
 import { createClient } from '@/lib/supabase/client';
+import {
+  getApprovedSegmentMappings,
+  getCanonicalKeyForProviderSegment,
+  SegmentMapping,
+} from '@/features/admin/api/segmentMappings';
 
 export interface SegmentLibraryItem {
   id: string;
@@ -38,49 +43,37 @@ export interface SuggestedSegment {
 }
 
 /**
- * Get like-for-like matches across providers for Option 1 (Validation)
+ * Get like-for-like matches across providers for Option 1 (Validation).
+ * Uses approved cross-provider mappings (provider_segment_aliases) for the canonical segment;
+ * a provider-specific brief key is first resolved to its canonical segment.
  */
 export async function getSegmentMatches(
   briefSegmentKey: string,
   briefProvider: string = 'CCS'
 ): Promise<SegmentMatch[]> {
-  const supabase = createClient();
-  
-  // Query segment_library for segments with similar keys or labels
-  // This is a simplified matching - in production, you'd have a proper mapping table
-  const { data: librarySegments, error } = await supabase
-    .from('segment_library')
-    .select('*')
-    .eq('is_active', true)
-    .ilike('segment_key', `%${briefSegmentKey}%`);
-
-  if (error) {
-    // If segment_library table doesn't exist or query fails, return empty array
-    console.warn('Could not query segment_library for matches:', error);
+  let mappings: SegmentMapping[];
+  try {
+    const canonicalKey =
+      (await getCanonicalKeyForProviderSegment(briefProvider, briefSegmentKey)) || briefSegmentKey;
+    mappings = await getApprovedSegmentMappings(canonicalKey);
+  } catch (error) {
+    // If the mapping tables are unavailable, return empty array
+    console.warn('Could not query segment mappings for matches:', error);
     return [];
   }
 
-  // For now, return segments from other providers that might match
-  // In production, this would use a proper mapping/translation table
-  const matches: SegmentMatch[] = [];
-  const providers = ['CCS', 'ONS', 'Experian', 'Outra', 'TwentyCI'];
-  
-  for (const segment of (librarySegments as any[]) || []) {
-    const seg = segment as any;
-    if (seg.provider !== briefProvider) {
-      // Calculate match confidence based on key similarity
-      const keySimilarity = calculateSimilarity(briefSegmentKey, seg.segment_key);
-      const agreementLevel = keySimilarity > 0.8 ? 'high' : keySimilarity > 0.5 ? 'medium' : 'low';
-      
-      matches.push({
-        provider: seg.provider,
-        segment_key: seg.segment_key,
-        segment_label: seg.label,
-        match_confidence: keySimilarity,
-        agreement_level: agreementLevel,
-      });
-    }
-  }
+  const matches: SegmentMatch[] = mappings
+    .filter((mapping) => mapping.provider !== briefProvider)
+    .map((mapping) => {
+      const confidence = Number(mapping.similarity_score);
+      return {
+        provider: mapping.provider,
+        segment_key: mapping.provider_segment_key,
+        segment_label: mapping.provider_segment_label,
+        match_confidence: confidence,
+        agreement_level: confidence > 0.8 ? 'high' : confidence > 0.5 ? 'medium' : 'low',
+      };
+    });
 
   return matches.sort((a, b) => b.match_confidence - a.match_confidence);
 }
@@ -169,44 +162,3 @@ export async function getSuggestedSegments(
     .sort((a, b) => b.adjacency_score - a.adjacency_score)
     .slice(0, limit);
 }
-
-/**
- * Simple string similarity calculation
- */
-function calculateSimilarity(str1: string, str2: string): number {
-  const longer = str1.length > str2.length ? str1 : str2;
-  const shorter = str1.length > str2.length ? str2 : str1;
-  
-  if (longer.length === 0) return 1.0;
-  
-  const distance = levenshteinDistance(longer, shorter);
-  return (longer.length - distance) / longer.length;
-}
-
-function levenshteinDistance(str1: string, str2: string): number {
-  const matrix: number[][] = [];
-  
-  for (let i = 0; i <= str2.length; i++) {
-    matrix[i] = [i];
-  }
-  
-  for (let j = 0; j <= str1.length; j++) {
-    matrix[0][j] = j;
-  }
-  
-  for (let i = 1; i <= str2.length; i++) {
-    for (let j = 1; j <= str1.length; j++) {
-      if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1,
-          matrix[i][j - 1] + 1,
-          matrix[i - 1][j] + 1
-        );
-      }
-    }
-  }
-  
-  return matrix[str2.length][str1.length];
-}
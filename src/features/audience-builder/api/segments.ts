@@ -1,4 +1,4 @@
-import { createClient } from '@/lib/supabase/client';
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
 import { AudienceSegment, ConstructionMode, SegmentType } from '@/lib/types';
 
 export async function getSegments(
@@ -30,8 +30,8 @@ export async function updateSegmentSelection(
   isSelected: boolean
 ): Promise<AudienceSegment> {
   const supabase = createClient();
-  const { data, error } = await (supabase
-    .from('audience_segments') as any)
+  const { data, error } = await supabase
+    .from('audience_segments')
     .update({ is_selected: isSelected })
     .eq('id', segmentId)
     .select()
@@ -56,8 +56,8 @@ export async function updateConstructionMode(
   mode: ConstructionMode
 ): Promise<void> {
   const supabase = createClient();
-  const { error } = await (supabase
-    .from('audience_segments') as any)
+  const { error } = await supabase
+    .from('audience_segments')
     .update({ construction_mode: mode })
     .eq('audience_id', audienceId);
 
@@ -106,8 +106,8 @@ export async function addSegmentFromSuggestion(
   if (existingSegment) {
     // Update existing segment instead of inserting
     const existing = existingSegment as any;
-    const { data, error } = await (supabase
-      .from('audience_segments') as any)
+    const { data, error } = await supabase
+      .from('audience_segments')
       .update({
         segment_label: suggestion.segment_label,
         description: suggestion.description || null,
@@ -157,3 +157,37 @@ export async function addSegmentFromSuggestion(
   if (error) throw error;
   return data;
 }
+
+/**
+ * Resolve the anchor segment key for an audience.
+ * Order: segment key sent from BuilderContext (selectedSegmentKey) -> audience_intent
+ * from construction settings -> brief anchor segment upserted by buildAudience.
+ * Returns null when no anchor is configured.
+ */
+export async function getAnchorSegmentKey(
+  audienceId: string,
+  requestedKey: string | null | undefined,
+  audienceIntent: string | null | undefined,
+  client?: TypedSupabaseClient
+): Promise<string | null> {
+  if (requestedKey && requestedKey.trim()) {
+    return requestedKey.trim();
+  }
+
+  if (audienceIntent) {
+    return audienceIntent;
+  }
+
+  // buildAudience upserts the brief anchor with a deterministic key
+  const supabase = client || createClient();
+  const { data: anchorSegment, error } = await supabase
+    .from('audience_segments')
+    .select('segment_key')
+    .eq('audience_id', audienceId)
+    .eq('segment_type', 'primary')
+    .eq('segment_key', `anchor_${audienceId}`)
+    .maybeSingle();
+
+  if (error) throw error;
+  return anchorSegment?.segment_key || null;
+}
@@ -0,0 +1,102 @@
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
+import type { Database } from '@/lib/supabase/database.types';
+import { PersistedBuilderState } from './builderState';
+import type { AudienceResolutionInput } from '../services/audienceResolution.service';
+import type { AudienceIntent, ValidationAgreementMode } from '../types/signals';
+
+export type SnapshotSource = 'build' | 'export';
+
+export interface SnapshotBrief {
+  name: string;
+  description: string | null;
+  client_id: string | null;
+  target_reach: number | null;
+  start_date: string | null;
+  end_date: string | null;
+  budget_total: number | null;
+}
+
+export interface SnapshotConstruction {
+  audience_intent: AudienceIntent | null;
+  construction_mode: 'validation' | 'extension';
+  validation_min_agreement: number | null;
+  validation_agreement_mode: ValidationAgreementMode | null;
+  last_run_at: string | null;
+}
+
+export interface AudienceSnapshot {
+  id: string;
+  audience_id: string;
+  version: number;
+  source: SnapshotSource;
+  brief: SnapshotBrief;
+  construction: SnapshotConstruction | null;
+  selected_segment_keys: string[];
+  builder_state: PersistedBuilderState | null;
+  resolution_input: AudienceResolutionInput | null;
+  district_ids: string[];
+  district_count: number; // Generated from district_ids
+  district_checksum: string | null;
+  estimated_households: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+/** Lightweight row for history lists (district_ids omitted; load one snapshot for diff/restore) */
+export type AudienceSnapshotSummary = Omit<AudienceSnapshot, 'district_ids'>;
+
+export type NewAudienceSnapshot = Omit<AudienceSnapshot, 'id' | 'version' | 'district_count' | 'created_at'>;
+
+const SUMMARY_COLUMNS =
+  'id, audience_id, version, source, brief, construction, selected_segment_keys, builder_state, resolution_input, district_count, district_checksum, estimated_households, created_by, created_at';
+
+/**
+ * Get snapshot history for an audience, newest first
+ */
+export async function getSnapshots(audienceId: string): Promise<AudienceSnapshotSummary[]> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('audience_snapshots')
+    .select(SUMMARY_COLUMNS)
+    .eq('audience_id', audienceId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return (data as unknown as AudienceSnapshotSummary[]) || [];
+}
+
+/**
+ * Get a single snapshot including its district list
+ */
+export async function getSnapshot(
+  snapshotId: string,
+  client?: TypedSupabaseClient
+): Promise<AudienceSnapshot | null> {
+  const supabase = client || createClient();
+  const { data, error } = await supabase
+    .from('audience_snapshots')
+    .select('*')
+    .eq('id', snapshotId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as unknown as AudienceSnapshot | null) || null;
+}
+
+/**
+ * Insert a snapshot. Version is assigned by the database; rows are immutable once written.
+ */
+export async function insertSnapshot(
+  snapshot: NewAudienceSnapshot,
+  client?: TypedSupabaseClient
+): Promise<AudienceSnapshot> {
+  const supabase = client || createClient();
+  const { data, error } = await supabase
+    .from('audience_snapshots')
+    .insert(snapshot as unknown as Database['public']['Tables']['audience_snapshots']['Insert'])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as unknown as AudienceSnapshot;
+}
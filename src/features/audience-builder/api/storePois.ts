@@ -119,8 +119,8 @@ export async function updatePoi(
   }>
 ): Promise<StorePoi> {
   const supabase = createClient();
-  const { data, error } = await (supabase
-    .from('store_pois') as any)
+  const { data, error } = await supabase
+    .from('store_pois')
     .update(updates)
     .eq('id', id)
     .select()
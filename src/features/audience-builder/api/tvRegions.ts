@@ -1,4 +1,6 @@
-import { createClient } from '@/lib/supabase/client';
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
+
+const BATCH_SIZE = 1000;
 
 /**
  * Get normalized district codes for given TV region keys
@@ -6,13 +8,14 @@ import { createClient } from '@/lib/supabase/client';
  * @returns Array of normalized district codes
  */
 export async function getDistrictsByTvRegion(
-  regionKeys: string[]
+  regionKeys: string[],
+  client?: TypedSupabaseClient
 ): Promise<string[]> {
   if (!regionKeys || regionKeys.length === 0) {
     return [];
   }
 
-  const supabase = createClient();
+  const supabase = client || createClient();
 
   const { data, error } = await supabase
     .from('district_tv_regions')
@@ -60,3 +63,39 @@ export async function getAllTvRegions(): Promise<
     name: r.name,
   }));
 }
+
+/**
+ * TV region membership per district (a district may straddle several regions)
+ */
+export async function getTvRegionsByDistrict(
+  districtIds: string[],
+  client?: TypedSupabaseClient
+): Promise<{ regionsByDistrict: Map<string, string[]>; regionNames: Map<string, string> }> {
+  const supabase = client || createClient();
+  const regionsByDistrict = new Map<string, string[]>();
+  for (let i = 0; i < districtIds.length; i += BATCH_SIZE) {
+    const batch = districtIds.slice(i, i + BATCH_SIZE);
+    const { data, error } = await supabase
+      .from('district_tv_regions')
+      .select('district_norm, region_key')
+      .in('district_norm', batch);
+    if (error) {
+      console.warn('[tvRegions] Error fetching TV regions batch:', error);
+      continue;
+    }
+    for (const row of data || []) {
+      if (!row.district_norm) continue;
+      const regions = regionsByDistrict.get(row.district_norm) || [];
+      if (!regions.includes(row.region_key)) regions.push(row.region_key);
+      regionsByDistrict.set(row.district_norm, regions);
+    }
+  }
+
+  const { data: regions, error } = await supabase.from('tv_regions').select('region_key, name');
+  if (error) console.warn('[tvRegions] Error fetching TV region names:', error);
+  const regionNames = new Map<string, string>(
+    (regions || []).map((r) => [r.region_key, r.name])
+  );
+
+  return { regionsByDistrict, regionNames };
+}
@@ -0,0 +1,79 @@
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
+import { TvDaypart, TvGenre } from '../utils/tvInsights';
+
+export interface TvViewingImport {
+  id: string;
+  source_file: string | null;
+  status: 'pending' | 'complete';
+  is_active: boolean;
+  row_count: number;
+  district_count: number;
+  programme_count: number;
+  created_at: string;
+  activated_at: string | null;
+}
+
+/**
+ * Audience vs all-district viewing totals for one programme (get_tv_viewing_aggregates)
+ */
+export interface TvViewingAggregate {
+  channel: string;
+  programme: string;
+  daypart: TvDaypart;
+  genre: TvGenre;
+  audience_viewers: number;
+  audience_impressions: number;
+  population_viewers: number;
+  population_impressions: number;
+  audience_households: number; // Audience districts covered by the import
+  population_households: number; // Every district covered by the import
+  region_viewers: Record<string, number>; // Audience viewers by TV region
+  region_households: Record<string, number>; // Audience households by TV region
+}
+
+/**
+ * The viewing import insights are currently computed from (null before the first import)
+ */
+export async function getActiveTvViewingImport(client?: TypedSupabaseClient): Promise<TvViewingImport | null> {
+  const supabase = client || createClient();
+
+  const { data, error } = await supabase
+    .from('tv_viewing_imports')
+    .select('*')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as TvViewingImport) || null;
+}
+
+export async function getTvViewingAggregates(
+  districtIds: string[],
+  client?: TypedSupabaseClient
+): Promise<TvViewingAggregate[]> {
+  const supabase = client || createClient();
+
+  const { data, error } = await supabase.rpc('get_tv_viewing_aggregates', {
+    audience_districts: districtIds,
+  });
+
+  if (error) {
+    console.error('Error fetching TV viewing aggregates:', error);
+    throw error;
+  }
+
+  // BIGINT columns arrive as numbers or strings depending on size
+  return (data || []).map((row) => ({
+    ...row,
+    daypart: row.daypart as TvDaypart,
+    genre: row.genre as TvGenre,
+    audience_viewers: Number(row.audience_viewers),
+    audience_impressions: Number(row.audience_impressions),
+    population_viewers: Number(row.population_viewers),
+    population_impressions: Number(row.population_impressions),
+    audience_households: Number(row.audience_households),
+    population_households: Number(row.population_households),
+    region_viewers: (row.region_viewers || {}) as Record<string, number>,
+    region_households: (row.region_households || {}) as Record<string, number>,
+  }));
+}
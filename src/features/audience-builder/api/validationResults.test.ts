@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { getRequiredAgreement } from './validationResults';
+
+describe('getRequiredAgreement', () => {
+  it('uses the minimum agreement in threshold mode', () => {
+    expect(getRequiredAgreement('threshold', 2, 5)).toBe(2);
+    expect(getRequiredAgreement('threshold', 4, 3)).toBe(4);
+  });
+
+  it('requires strictly more than half of the providers in majority mode', () => {
+    expect(getRequiredAgreement('majority', 1, 1)).toBe(1);
+    expect(getRequiredAgreement('majority', 1, 2)).toBe(2);
+    expect(getRequiredAgreement('majority', 1, 3)).toBe(2);
+    expect(getRequiredAgreement('majority', 1, 4)).toBe(3);
+    expect(getRequiredAgreement('majority', 1, 5)).toBe(3);
+  });
+
+  it('requires every provider in unanimous mode', () => {
+    expect(getRequiredAgreement('unanimous', 1, 1)).toBe(1);
+    expect(getRequiredAgreement('unanimous', 1, 4)).toBe(4);
+  });
+
+  it('still requires one agreeing provider when none validate', () => {
+    expect(getRequiredAgreement('majority', 1, 0)).toBe(1);
+    expect(getRequiredAgreement('unanimous', 1, 0)).toBe(1);
+  });
+
+  it('ignores the minimum agreement outside threshold mode', () => {
+    expect(getRequiredAgreement('majority', 5, 3)).toBe(2);
+    expect(getRequiredAgreement('unanimous', 5, 3)).toBe(3);
+  });
+});
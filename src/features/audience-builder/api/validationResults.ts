@@ -1,12 +1,19 @@
-import { createClient } from '@/lib/supabase/client';
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
 import { fetchAll } from '@/lib/supabase/pagination';
 import { getDistrictsByTvRegion } from './tvRegions';
 import { getDataPartnersByKeys } from '@/features/admin/api/dataPartners';
+import { getApprovedSegmentMappings, SegmentMapping } from '@/features/admin/api/segmentMappings';
+import { getActiveSectorSignals, getGeoSectors, getDistrictSectorCounts, approximateSectorCentroid, SectorSignalRow } from './geoSectors';
+import { getDistrictHouseholds } from './geoDistricts';
+import { GeoResolution, ValidationAgreementMode } from '../types/signals';
 
 export interface ProviderStats {
   agreeingDistricts: number;
+  agreeingSectors?: number; // Sector resolution only
   providerSegmentLabel?: string;
   providerLabel?: string; // Display name from data_partners
+  mappedSegmentKeys?: string[]; // Provider segment keys used via approved cross-provider mappings
+  mappingConfidence?: number; // Highest confidence among those mappings
 }
 
 export interface IncludedDistrict {
@@ -16,15 +23,66 @@ export interface IncludedDistrict {
   agreementCount: number;
   avgConfidence: number;
   agreeingProviders: string[];
+  weightedScore?: number; // Weighted scoring: agreeing trust / total trust (0-1)
+}
+
+/**
+ * Sector resolution: an included postcode sector. district is the parent district; the
+ * centroid comes from geo_sectors or is approximated around the district centroid.
+ */
+export interface IncludedSector extends IncludedDistrict {
+  sector: string;
+  households: number; // geo_sectors count, or an even share of the district's households
+}
+
+/**
+ * How provider agreement is scored in validation mode.
+ * - count: each provider counts 1 at the fixed 0.5 threshold; include when count >= minAgreement
+ * - weighted: providers count their data_partners trust_weight at their own agreement_threshold;
+ *   include when agreeing trust / total trust >= minWeightedScore
+ */
+export type AgreementScoring = 'count' | 'weighted';
+
+export interface ProviderWeight {
+  trustWeight: number;
+  agreementThreshold: number;
+}
+
+const DEFAULT_AGREEMENT_THRESHOLD = 0.5;
+const DEFAULT_TRUST_WEIGHT = 1;
+// Absorbs float rounding in weighted shares (e.g. 3 equal weights reaching a 1/3 threshold)
+const WEIGHTED_SCORE_EPSILON = 1e-9;
+
+/**
+ * Number of agreeing providers a district needs under an agreement mode.
+ * Majority is strictly more than half; with no validating providers nothing can agree.
+ */
+export function getRequiredAgreement(
+  agreementMode: ValidationAgreementMode,
+  minAgreement: number,
+  validatingProvidersCount: number
+): number {
+  if (agreementMode === 'majority') return Math.floor(validatingProvidersCount / 2) + 1;
+  if (agreementMode === 'unanimous') return Math.max(1, validatingProvidersCount);
+  return minAgreement;
 }
 
 export interface ValidationResults {
-  includedDistricts: IncludedDistrict[]; // Districts with centroids that meet minAgreement threshold
+  resolution: GeoResolution;
+  includedDistricts: IncludedDistrict[]; // Districts with centroids that meet minAgreement threshold (sector resolution: parents of included sectors)
+  includedSectors?: IncludedSector[]; // Sector resolution only
   includedDistrictIds: string[]; // Just the district codes (for backward compatibility)
-  eligibleDistrictIds: string[]; // All districts eligible (CCS base universe)
-  agreementByDistrict: Record<string, number>; // District -> agreement count (0-N)
+  eligibleDistrictIds: string[]; // All districts eligible (base provider universe)
+  baseProvider: string; // Provider whose presence defines the eligible universe
+  agreementByDistrict: Record<string, number>; // District -> agreement count (0-N); sector resolution: best sector
+  agreementBySector?: Record<string, number>; // Sector resolution only
   providerStats: Record<string, ProviderStats>;
   maxAgreement: number; // Maximum agreement count (number of validating providers)
+  agreementScoring: AgreementScoring;
+  agreementMode: ValidationAgreementMode;
+  requiredAgreement: number; // Count scoring: providers a district needs under agreementMode
+  weightedScoreByDistrict?: Record<string, number>; // Weighted scoring only
+  providerWeights?: Record<string, ProviderWeight>; // Weighted scoring only: weights/thresholds applied
   totals: {
     districtsIncluded: number;
     eligibleDistricts: number;
@@ -32,6 +90,8 @@ export interface ValidationResults {
     confidenceBand: 'Low' | 'Med' | 'High';
     avgAgreement: number; // For backward compatibility
     estimatedHouseholds: number; // Sum of real household counts with fallback
+    sectorsIncluded?: number; // Sector resolution only
+    eligibleSectors?: number; // Sector resolution only
   };
   debug?: {
     joinMissingCount: number; // Districts in signals not found in geo_districts
@@ -50,14 +110,57 @@ interface DistrictSignalRow {
   has_score: boolean;
 }
 
+/**
+ * Prefer the signal with presence, then the higher normalized score
+ */
+function strongerSignal(candidate: DistrictSignalRow, current: DistrictSignalRow): boolean {
+  if ((candidate.sectors_count > 0) !== (current.sectors_count > 0)) return candidate.sectors_count > 0;
+  return (candidate.district_score_norm ?? 0) > (current.district_score_norm ?? 0);
+}
+
+// Normalize sector codes (trim, upper, single space before the inward digit)
+function normalizeSector(sector: string): string {
+  return sector.trim().toUpperCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * A sector row as a one-sector district signal, so sectors share the district agreement rules
+ */
+function toSectorSignal(row: SectorSignalRow): DistrictSignalRow {
+  return {
+    segment_key: row.segment_key,
+    provider: row.provider,
+    provider_segment_label: row.provider_segment_label,
+    district: row.district,
+    sectors_count: 1,
+    district_score_avg: row.score,
+    district_score_norm: row.score_norm,
+    has_score: row.score_norm !== null,
+  };
+}
+
 /**
  * Get validation results for a segment based on geo_district_signals (CSV-based)
  * 
  * Rules:
- * - CCS is the base universe provider
- * - Eligible districts = districts where CCS has presence (sectors_count > 0) AND (if has_score) district_score_norm >= 0.5
+ * - baseProvider (CCS by default) is the base universe provider
+ * - Eligible districts = districts where the base provider has presence (sectors_count > 0) AND (if has_score) district_score_norm >= 0.5
  * - For each other provider, "agrees" for a district if provider has presence AND (if has_score) district_score_norm >= 0.5
  * - Include district if agreeingProvidersCount >= minAgreement
+ *
+ * With agreementScoring 'weighted', each provider's agreement threshold and trust weight come
+ * from data_partners, and a district is included when agreeing trust / total trust >= minWeightedScore.
+ *
+ * Providers whose data sits under their own segment keys are included through approved
+ * mappings onto the canonical segment (provider_segment_aliases); for a provider with mapped
+ * data, only the mapped keys are used.
+ *
+ * agreementMode 'majority' / 'unanimous' replace the slider value with more than half / all of the
+ * validating providers (or of their trust weight), so they follow changes to the provider list.
+ *
+ * With resolution 'sector', the same rules run per postcode sector on the active sector rows
+ * (geo_active_sector_signals). District fields then describe the parent districts of eligible and
+ * included sectors, carrying their best sector's agreement, and households are rolled down to sectors.
  */
 export async function getValidationResults({
   segmentKey,
@@ -65,31 +168,69 @@ export async function getValidationResults({
   baseProvider = 'CCS',
   providers,
   tvRegions,
+  agreementScoring = 'count',
+  minWeightedScore = 0.5,
+  agreementMode = 'threshold',
+  resolution = 'district',
 }: {
   segmentKey: string;
   minAgreement: number;
+  agreementMode?: ValidationAgreementMode;
+  agreementScoring?: AgreementScoring;
+  minWeightedScore?: number; // Weighted scoring: 0-1 share of total trust weight
   baseProvider?: string;
   providers?: string[]; // Optional filter: only include these providers (excluding baseProvider)
   tvRegions?: string[]; // Optional filter: only include districts in these TV regions
-}): Promise<ValidationResults> {
-  const supabase = createClient();
+  resolution?: GeoResolution;
+}, client?: TypedSupabaseClient): Promise<ValidationResults> {
+  // Accept an injected client so the export route can run this with the server session
+  const supabase = client || createClient();
   
-  // Fetch all district signals for this segment (with pagination)
+  // Approved cross-provider mappings onto this (canonical) segment
+  let mappings: SegmentMapping[] = [];
+  try {
+    mappings = await getApprovedSegmentMappings(segmentKey, supabase);
+  } catch (error) {
+    console.warn('Failed to fetch segment mappings:', error);
+  }
+  const mappingsByProvider = new Map<string, SegmentMapping[]>();
+  for (const mapping of mappings) {
+    if (mapping.provider_segment_key === segmentKey) continue; // Identity mapping, nothing to add
+    mappingsByProvider.set(mapping.provider, [...(mappingsByProvider.get(mapping.provider) || []), mapping]);
+  }
+  const segmentKeys = Array.from(
+    new Set([segmentKey, ...mappings.map((m) => m.provider_segment_key)])
+  );
+
+  // Fetch all district signals for this segment and its mapped provider segments (with pagination)
   const districtSignalsQuery = supabase
     .from('geo_district_signals')
     .select('*')
-    .eq('segment_key', segmentKey);
+    .in('segment_key', segmentKeys);
+
+  const fetchedSignals = await fetchAll<DistrictSignalRow>(districtSignalsQuery);
 
-  const allDistrictSignals = await fetchAll<DistrictSignalRow>(districtSignalsQuery);
+  // Providers with data under a mapped key use only that data; the rest use the canonical key
+  const isMappedSignal = (signal: { provider: string; segment_key: string }) =>
+    (mappingsByProvider.get(signal.provider) || []).some((m) => m.provider_segment_key === signal.segment_key);
+  const providersWithMappedData = new Set(fetchedSignals.filter(isMappedSignal).map((s) => s.provider));
+  const allDistrictSignals = fetchedSignals.filter((signal) =>
+    providersWithMappedData.has(signal.provider) ? isMappedSignal(signal) : signal.segment_key === segmentKey
+  );
   
   if (allDistrictSignals.length === 0) {
     return {
+      resolution,
       includedDistricts: [],
       includedDistrictIds: [],
       eligibleDistrictIds: [],
+      baseProvider,
       agreementByDistrict: {},
       providerStats: {},
       maxAgreement: 1,
+      agreementScoring,
+      agreementMode,
+      requiredAgreement: getRequiredAgreement(agreementMode, minAgreement, 0),
       totals: {
         districtsIncluded: 0,
         eligibleDistricts: 0,
@@ -118,7 +259,7 @@ export async function getValidationResults({
   // Get base provider signals
   const baseProviderSignals = signalsByProvider.get(baseProvider) || [];
   
-  // Determine eligible districts (CCS base universe) - normalize district codes
+  // Determine eligible districts (base provider universe) - normalize district codes
   const eligibleDistricts = new Set<string>();
   for (const baseSignal of baseProviderSignals) {
     // Normalize district code
@@ -136,24 +277,26 @@ export async function getValidationResults({
   }
 
   let eligibleDistrictIds = Array.from(eligibleDistricts);
+  let normalizedTvRegionSet: Set<string> | null = null; // Kept for the sector filter
   
   // Apply TV region filter if provided (AND logic: segmentEligible AND tvRegionAllowed)
   if (tvRegions && tvRegions.length > 0) {
-    const tvRegionDistricts = await getDistrictsByTvRegion(tvRegions);
+    const tvRegionDistricts = await getDistrictsByTvRegion(tvRegions, supabase);
     
     // Intersection: only keep districts that are BOTH segment-eligible AND in TV regions
     // Normalize TV region districts using the same function for consistent comparison
     // (tvRegionDistricts come from DB as district_norm, but normalize to be safe)
-    const normalizedTvRegionSet = new Set(
+    const tvRegionSet = new Set(
       tvRegionDistricts.map(d => normalizeDistrict(d))
     );
+    normalizedTvRegionSet = tvRegionSet;
     
     // Filter: keep only districts that exist in BOTH sets (AND logic - intersection)
     // eligibleDistrictIds are already normalized from the Set above
     eligibleDistrictIds = eligibleDistrictIds.filter((district) => {
       // District is already normalized, but normalize again to be absolutely sure
       const normalized = normalizeDistrict(district);
-      return normalizedTvRegionSet.has(normalized);
+      return tvRegionSet.has(normalized);
     });
   }
   
@@ -175,22 +318,52 @@ export async function getValidationResults({
     const districtMap = new Map<string, DistrictSignalRow>();
     for (const signal of providerSignals) {
       const normalizedDistrict = normalizeDistrict(signal.district);
-      districtMap.set(normalizedDistrict, signal);
+      // Several mapped segments from one provider can cover a district: keep the strongest
+      const existing = districtMap.get(normalizedDistrict);
+      if (!existing || strongerSignal(signal, existing)) {
+        districtMap.set(normalizedDistrict, signal);
+      }
     }
     districtMapsByProvider.set(provider, districtMap);
   }
 
-  // Get provider metadata from data_partners for display names
-  let providerMetadataMap = new Map<string, { display_name: string }>();
+  // Get provider metadata from data_partners for display names (and weights for weighted scoring)
+  let providerMetadataMap = new Map<string, { display_name: string; trust_weight?: number; agreement_threshold?: number }>();
   try {
-    const partners = await getDataPartnersByKeys(Array.from(validatingProviders));
+    const partners = await getDataPartnersByKeys(Array.from(validatingProviders), supabase);
     partners.forEach(partner => {
-      providerMetadataMap.set(partner.provider_key, { display_name: partner.display_name });
+      providerMetadataMap.set(partner.provider_key, {
+        display_name: partner.display_name,
+        trust_weight: partner.trust_weight,
+        agreement_threshold: partner.agreement_threshold,
+      });
     });
   } catch (error) {
     console.warn('Failed to fetch provider metadata:', error);
   }
 
+  // Count scoring: every provider weighs 1 at the fixed threshold
+  const isWeighted = agreementScoring === 'weighted';
+  const providerWeights: Record<string, ProviderWeight> = {};
+  for (const provider of validatingProviders) {
+    const metadata = providerMetadataMap.get(provider);
+    providerWeights[provider] = isWeighted
+      ? {
+          trustWeight: Number(metadata?.trust_weight ?? DEFAULT_TRUST_WEIGHT),
+          agreementThreshold: Number(metadata?.agreement_threshold ?? DEFAULT_AGREEMENT_THRESHOLD),
+        }
+      : { trustWeight: DEFAULT_TRUST_WEIGHT, agreementThreshold: DEFAULT_AGREEMENT_THRESHOLD };
+  }
+  const totalTrustWeight = validatingProviders.reduce((sum, p) => sum + providerWeights[p].trustWeight, 0);
+
+  // Provider agrees if: has presence AND (if has_score) score_norm >= its agreement threshold
+  const providerAgrees = (provider: string, signal: DistrictSignalRow | undefined): boolean => {
+    if (!signal || signal.sectors_count <= 0) return false;
+    return signal.has_score
+      ? (signal.district_score_norm ?? 0) >= providerWeights[provider].agreementThreshold
+      : true; // If no score, presence alone means agreement
+  };
+
   // Process each eligible district to compute agreement
   const agreementByDistrict: Record<string, number> = {};
   const providerStats: Record<string, ProviderStats> = {};
@@ -200,47 +373,133 @@ export async function getValidationResults({
     const providerSignals = signalsByProvider.get(provider) || [];
     const firstSignal = providerSignals[0];
     const metadata = providerMetadataMap.get(provider);
+    const providerKeys = new Set(providerSignals.map((s) => s.segment_key));
+    const usedMappings = (mappingsByProvider.get(provider) || []).filter((m) => providerKeys.has(m.provider_segment_key));
     providerStats[provider] = {
       agreeingDistricts: 0,
-      providerSegmentLabel: firstSignal?.provider_segment_label || undefined,
+      providerSegmentLabel:
+        usedMappings[0]?.provider_segment_label || firstSignal?.provider_segment_label || undefined,
       providerLabel: metadata?.display_name || provider,
+      ...(usedMappings.length > 0
+        ? {
+            mappedSegmentKeys: usedMappings.map((m) => m.provider_segment_key),
+            mappingConfidence: Math.max(...usedMappings.map((m) => Number(m.similarity_score))),
+          }
+        : {}),
     };
   }
 
   let maxAgreement = 0;
+  const weightedScoreByDistrict: Record<string, number> = {};
+
+  // Sector resolution state (filled below, used for the sector output)
+  const sectorDistricts = new Map<string, string>(); // Sector -> parent district
+  const agreementBySector: Record<string, number> = {};
+  const weightedScoreBySector: Record<string, number> = {};
+  const agreeingProvidersBySector = new Map<string, string[]>();
+  let eligibleSectorIds: string[] = [];
+
+  if (resolution === 'sector') {
+    const sectorRows = (await getActiveSectorSignals(segmentKeys, supabase)).filter((row) =>
+      providersWithMappedData.has(row.provider) ? isMappedSignal(row) : row.segment_key === segmentKey
+    );
+
+    // One signal per provider per sector, shaped like a single-sector district signal
+    const sectorMapsByProvider = new Map<string, Map<string, DistrictSignalRow>>();
+    for (const row of sectorRows) {
+      const sector = normalizeSector(row.sector);
+      sectorDistricts.set(sector, normalizeDistrict(row.district));
+      if (!sectorMapsByProvider.has(row.provider)) {
+        sectorMapsByProvider.set(row.provider, new Map());
+      }
+      const sectorMap = sectorMapsByProvider.get(row.provider)!;
+      const signal = toSectorSignal(row);
+      const existing = sectorMap.get(sector);
+      if (!existing || strongerSignal(signal, existing)) {
+        sectorMap.set(sector, signal);
+      }
+    }
 
-  for (const district of eligibleDistrictIds) {
-    let agreeingCount = 0;
+    // Eligible sectors: same base-provider rule as districts, within the TV regions
+    eligibleSectorIds = Array.from(sectorMapsByProvider.get(baseProvider)?.entries() || [])
+      .filter(([sector, signal]) => {
+        const meetsThreshold = signal.has_score ? (signal.district_score_norm ?? 0) >= 0.5 : true;
+        return meetsThreshold && (!normalizedTvRegionSet || normalizedTvRegionSet.has(sectorDistricts.get(sector)!));
+      })
+      .map(([sector]) => sector);
 
-    // Check each validating provider
+    const agreeingDistrictsByProvider = new Map<string, Set<string>>(
+      validatingProviders.map((provider) => [provider, new Set<string>()])
+    );
+    for (const sector of eligibleSectorIds) {
+      const district = sectorDistricts.get(sector)!;
+      const agreeingProviders = validatingProviders.filter((provider) =>
+        providerAgrees(provider, sectorMapsByProvider.get(provider)?.get(sector))
+      );
+      const agreeingWeight = agreeingProviders.reduce((sum, p) => sum + providerWeights[p].trustWeight, 0);
+      for (const provider of agreeingProviders) {
+        providerStats[provider].agreeingSectors = (providerStats[provider].agreeingSectors || 0) + 1;
+        agreeingDistrictsByProvider.get(provider)!.add(district);
+      }
+
+      agreementBySector[sector] = agreeingProviders.length;
+      agreeingProvidersBySector.set(sector, agreeingProviders);
+      // Districts carry their best sector, so a district is included when any of its sectors is
+      agreementByDistrict[district] = Math.max(agreementByDistrict[district] ?? 0, agreeingProviders.length);
+      maxAgreement = Math.max(maxAgreement, agreeingProviders.length);
+      if (isWeighted) {
+        const weightedScore = totalTrustWeight > 0 ? agreeingWeight / totalTrustWeight : 0;
+        weightedScoreBySector[sector] = weightedScore;
+        weightedScoreByDistrict[district] = Math.max(weightedScoreByDistrict[district] ?? 0, weightedScore);
+      }
+    }
+
+    eligibleDistrictIds = Array.from(new Set(eligibleSectorIds.map((sector) => sectorDistricts.get(sector)!)));
     for (const provider of validatingProviders) {
-      const districtMap = districtMapsByProvider.get(provider);
-      const providerSignal = districtMap?.get(district);
-      
-      if (providerSignal) {
-        // Provider agrees if: has presence AND (if has_score) score_norm >= 0.5
-        const hasPresence = providerSignal.sectors_count > 0;
-        const meetsThreshold = providerSignal.has_score
-          ? (providerSignal.district_score_norm ?? 0) >= 0.5
-          : true; // If no score, presence alone means agreement
-        
-        if (hasPresence && meetsThreshold) {
+      providerStats[provider].agreeingDistricts = agreeingDistrictsByProvider.get(provider)!.size;
+      providerStats[provider].agreeingSectors = providerStats[provider].agreeingSectors || 0;
+    }
+  } else {
+    for (const district of eligibleDistrictIds) {
+      let agreeingCount = 0;
+      let agreeingWeight = 0;
+
+      // Check each validating provider
+      for (const provider of validatingProviders) {
+        const providerSignal = districtMapsByProvider.get(provider)?.get(district);
+
+        if (providerAgrees(provider, providerSignal)) {
           agreeingCount++;
+          agreeingWeight += providerWeights[provider].trustWeight;
           // Update provider stats
           if (providerStats[provider]) {
             providerStats[provider].agreeingDistricts++;
           }
         }
       }
-    }
 
-    agreementByDistrict[district] = agreeingCount;
-    maxAgreement = Math.max(maxAgreement, agreeingCount);
+      agreementByDistrict[district] = agreeingCount;
+      maxAgreement = Math.max(maxAgreement, agreeingCount);
+      if (isWeighted) {
+        weightedScoreByDistrict[district] = totalTrustWeight > 0 ? agreeingWeight / totalTrustWeight : 0;
+      }
+    }
   }
 
-  // Filter included districts based on minAgreement (districts already normalized)
-  const includedDistrictIds = eligibleDistrictIds.filter(
-    district => (agreementByDistrict[district] || 0) >= minAgreement
+  // Filter included districts (and sectors) on count or weighted score (codes already normalized)
+  const requiredAgreement = getRequiredAgreement(agreementMode, minAgreement, validatingProviders.length);
+  const meetsWeightedScore = (score: number) => {
+    if (agreementMode === 'majority') return score > 0.5 + WEIGHTED_SCORE_EPSILON;
+    if (agreementMode === 'unanimous') return totalTrustWeight > 0 && score + WEIGHTED_SCORE_EPSILON >= 1;
+    return score + WEIGHTED_SCORE_EPSILON >= minWeightedScore;
+  };
+  const meetsAgreement = (agreementCount: number, weightedScore: number) =>
+    isWeighted ? meetsWeightedScore(weightedScore) : agreementCount >= requiredAgreement;
+  const includedDistrictIds = eligibleDistrictIds.filter((district) =>
+    meetsAgreement(agreementByDistrict[district] || 0, weightedScoreByDistrict[district] || 0)
+  );
+  const includedSectorIds = eligibleSectorIds.filter((sector) =>
+    meetsAgreement(agreementBySector[sector] || 0, weightedScoreBySector[sector] || 0)
   );
 
   // Build set of ALL districts in signals (for join missing count)
@@ -309,29 +568,29 @@ export async function getValidationResults({
   // Track debug metrics
   let missingCentroidCount = 0;
 
+  // Sector resolution: a district's agreeing providers are those agreeing on any included sector
+  const sectorProvidersByDistrict = new Map<string, Set<string>>();
+  for (const sector of includedSectorIds) {
+    const district = sectorDistricts.get(sector)!;
+    if (!sectorProvidersByDistrict.has(district)) sectorProvidersByDistrict.set(district, new Set());
+    agreeingProvidersBySector.get(sector)!.forEach((p) => sectorProvidersByDistrict.get(district)!.add(p));
+  }
+
   // Build includedDistricts with centroids
   const includedDistricts: IncludedDistrict[] = [];
   for (const district of includedDistrictIds) {
     const agreementCount = agreementByDistrict[district] || 0;
-    const avgConfidence = contributingProvidersCount > 0
+    const weightedScore = isWeighted ? weightedScoreByDistrict[district] || 0 : undefined;
+    const avgConfidence = weightedScore ?? (contributingProvidersCount > 0
       ? agreementCount / contributingProvidersCount
-      : 0;
+      : 0);
     
     // Get agreeing providers for this district
-    const agreeingProviders: string[] = [];
-    for (const provider of validatingProviders) {
-      const districtMap = districtMapsByProvider.get(provider);
-      const providerSignal = districtMap?.get(district);
-      if (providerSignal) {
-        const hasPresence = providerSignal.sectors_count > 0;
-        const meetsThreshold = providerSignal.has_score
-          ? (providerSignal.district_score_norm ?? 0) >= 0.5
-          : true;
-        if (hasPresence && meetsThreshold) {
-          agreeingProviders.push(provider);
-        }
-      }
-    }
+    const agreeingProviders = validatingProviders.filter((provider) =>
+      resolution === 'sector'
+        ? sectorProvidersByDistrict.get(district)?.has(provider)
+        : providerAgrees(provider, districtMapsByProvider.get(provider)?.get(district))
+    );
 
     const centroid = centroidMap.get(district);
     
@@ -349,7 +608,57 @@ export async function getValidationResults({
       agreementCount,
       avgConfidence,
       agreeingProviders,
+      ...(weightedScore !== undefined ? { weightedScore } : {}),
+    });
+  }
+
+  // Sector resolution: sector points and households rolled down from their districts
+  let includedSectors: IncludedSector[] | undefined;
+  if (resolution === 'sector') {
+    const parentDistricts = Array.from(new Set(includedSectorIds.map((sector) => sectorDistricts.get(sector)!)));
+    const [geoSectors, sectorCounts, districtHouseholds] = await Promise.all([
+      getGeoSectors(includedSectorIds, supabase),
+      getDistrictSectorCounts(parentDistricts, supabase),
+      getDistrictHouseholds(parentDistricts, supabase),
+    ]);
+    // Fallback split when the count view has no row: sectors seen for this segment
+    const seenSectorsByDistrict = new Map<string, number>();
+    sectorDistricts.forEach((district) => {
+      seenSectorsByDistrict.set(district, (seenSectorsByDistrict.get(district) || 0) + 1);
     });
+
+    includedSectors = [];
+    for (const sector of includedSectorIds) {
+      const district = sectorDistricts.get(sector)!;
+      const geoSector = geoSectors.get(sector);
+      const districtCentroid = fullCentroidMap.get(district);
+      const centroid = geoSector?.centroid_lat != null && geoSector.centroid_lng != null
+        ? { lat: geoSector.centroid_lat, lng: geoSector.centroid_lng }
+        : districtCentroid
+        ? approximateSectorCentroid(sector, districtCentroid)
+        : null;
+      if (!centroid) {
+        missingCentroidCount++;
+        continue;
+      }
+
+      const agreementCount = agreementBySector[sector] || 0;
+      const weightedScore = isWeighted ? weightedScoreBySector[sector] || 0 : undefined;
+      const sectorCount = Math.max(1, sectorCounts.get(district) || seenSectorsByDistrict.get(district) || 1);
+      includedSectors.push({
+        sector,
+        district,
+        centroid_lat: centroid.lat,
+        centroid_lng: centroid.lng,
+        agreementCount,
+        avgConfidence: weightedScore ?? (contributingProvidersCount > 0 ? agreementCount / contributingProvidersCount : 0),
+        agreeingProviders: agreeingProvidersBySector.get(sector) || [],
+        households: geoSector?.households && geoSector.households > 0
+          ? geoSector.households
+          : Math.round((districtHouseholds.get(district) || 0) / sectorCount),
+        ...(weightedScore !== undefined ? { weightedScore } : {}),
+      });
+    }
   }
 
   // Calculate totals
@@ -364,7 +673,10 @@ export async function getValidationResults({
   let estimatedHouseholds = 0;
   const FALLBACK_HOUSEHOLDS_PER_DISTRICT = 2500;
   
-  if (districtsIncluded > 0) {
+  if (includedSectors) {
+    // Sector resolution: only the included sectors' share of each district counts
+    estimatedHouseholds = includedSectors.reduce((sum, s) => sum + s.households, 0);
+  } else if (districtsIncluded > 0) {
     // Fetch household counts for included districts
     const includedDistrictIds = includedDistricts.map(d => d.district);
     const batchSize = 1000;
@@ -416,7 +728,13 @@ export async function getValidationResults({
   // Confidence band logic
   let confidenceBand: 'Low' | 'Med' | 'High' = 'Low';
   if (contributingProvidersCount > 0) {
-    const agreementRatio = minAgreement / Math.max(1, contributingProvidersCount);
+    const agreementRatio = agreementMode === 'unanimous'
+      ? 1
+      : agreementMode === 'majority'
+      ? 0.5
+      : isWeighted
+      ? minWeightedScore
+      : requiredAgreement / Math.max(1, contributingProvidersCount);
     if (agreementRatio >= 0.7) {
       confidenceBand = 'High';
     } else if (agreementRatio >= 0.4) {
@@ -425,12 +743,19 @@ export async function getValidationResults({
   }
 
   return {
+    resolution,
     includedDistricts,
+    ...(includedSectors ? { includedSectors, agreementBySector } : {}),
     includedDistrictIds, // For backward compatibility
     eligibleDistrictIds,
+    baseProvider,
     agreementByDistrict,
     providerStats,
     maxAgreement: Math.max(1, maxAgreement),
+    agreementScoring,
+    agreementMode,
+    requiredAgreement,
+    ...(isWeighted ? { weightedScoreByDistrict, providerWeights } : {}),
     totals: {
       districtsIncluded,
       eligibleDistricts: eligibleDistrictIds.length,
@@ -438,6 +763,9 @@ export async function getValidationResults({
       confidenceBand,
       avgAgreement,
       estimatedHouseholds, // Add to totals
+      ...(includedSectors
+        ? { sectorsIncluded: includedSectors.length, eligibleSectors: eligibleSectorIds.length }
+        : {}),
     },
     debug: process.env.NODE_ENV !== 'production' ? {
       joinMissingCount,
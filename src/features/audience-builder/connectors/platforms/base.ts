@@ -0,0 +1,37 @@
+import {
+  ConnectorAdapter,
+  ConnectorMetadata,
+  ConnectorRequest,
+  ConnectorResult,
+  PlatformConnectionSecrets,
+  PushAudience,
+  PushPayloadFormat,
+} from '../types';
+
+export abstract class BaseConnector implements ConnectorAdapter {
+  abstract getMetadata(): ConnectorMetadata;
+  abstract formatPayload(audience: PushAudience, format: PushPayloadFormat, config: Record<string, string>): unknown;
+  abstract buildRequest(payload: unknown, connection: PlatformConnectionSecrets, baseUrl: string): ConnectorRequest;
+  abstract parseResponse(body: any): ConnectorResult;
+
+  /**
+   * Join a base URL and a path without doubling slashes
+   */
+  protected joinUrl(baseUrl: string, path: string): string {
+    return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+  }
+
+  protected radiusMeters(area: PushAudience['areas'][number]): number {
+    return Math.round(area.radiusKm * 1000);
+  }
+
+  /**
+   * Fail fast on missing config/credentials before anything is sent
+   */
+  protected requireValues(values: Record<string, string>, keys: string[]): void {
+    const missing = keys.filter((key) => !values[key]);
+    if (missing.length > 0) {
+      throw new Error(`${this.getMetadata().label} connection is missing: ${missing.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { BaseConnector } from './base';
+import {
+  ConnectorMetadata,
+  ConnectorRequest,
+  ConnectorResult,
+  PlatformConnectionSecrets,
+  PushAudience,
+  PushPayloadFormat,
+} from '../types';
+
+/**
+ * Display & Video 360: advertiser location lists (regional postcodes or proximity points).
+ * DV360 has no H3 targeting, so only postcode and geo lists are offered.
+ */
+export class DV360Connector extends BaseConnector {
+  getMetadata(): ConnectorMetadata {
+    return {
+      key: 'dv360',
+      label: 'DV360',
+      defaultEndpoint: 'https://displayvideo.googleapis.com/v3',
+      endpointEnvVar: 'DV360_API_URL',
+      mockPort: 4102,
+      supportedFormats: ['postcode_list', 'geo_list'],
+      fields: [
+        { key: 'advertiserId', label: 'Advertiser ID', required: true },
+        { key: 'partnerId', label: 'Partner ID' },
+        { key: 'accessToken', label: 'OAuth access token', required: true, secret: true },
+      ],
+    };
+  }
+
+  formatPayload(audience: PushAudience, format: PushPayloadFormat): unknown {
+    if (format === 'geo_list') {
+      return {
+        displayName: audience.segmentName,
+        locationType: 'TARGETING_LOCATION_TYPE_PROXIMITY',
+        assignedLocations: audience.areas.map((area) => ({
+          proximityLocation: {
+            latitude: area.lat,
+            longitude: area.lng,
+            radius: Number(area.radiusKm.toFixed(2)),
+            radiusUnit: 'DISTANCE_UNIT_KILOMETERS',
+            displayName: area.code,
+          },
+        })),
+      };
+    }
+    return {
+      displayName: audience.segmentName,
+      locationType: 'TARGETING_LOCATION_TYPE_REGIONAL',
+      assignedLocations: audience.areas.map((area) => ({
+        regionalLocation: { postalCode: area.code, countryCode: 'GB' },
+      })),
+    };
+  }
+
+  buildRequest(payload: unknown, connection: PlatformConnectionSecrets, baseUrl: string): ConnectorRequest {
+    this.requireValues(connection.config, ['advertiserId']);
+    this.requireValues(connection.credentials, ['accessToken']);
+    return {
+      url: this.joinUrl(baseUrl, `/advertisers/${encodeURIComponent(connection.config.advertiserId)}/locationLists`),
+      method: 'POST',
+      headers: { Authorization: `Bearer ${connection.credentials.accessToken}` },
+      body: payload,
+    };
+  }
+
+  parseResponse(body: any): ConnectorResult {
+    return {
+      externalId: body?.locationListId ?? null,
+      message: body?.locationListId ? `Location list ${body.locationListId} created` : 'Location list created',
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { BaseConnector } from './base';
+import {
+  ConnectorMetadata,
+  ConnectorRequest,
+  ConnectorResult,
+  PlatformConnectionSecrets,
+  PushAudience,
+  PushPayloadFormat,
+} from '../types';
+
+/**
+ * LiveRamp: file-style segment upload. Rows are sent inline as CSV with a field map, and
+ * LiveRamp distributes the segment to the configured destination.
+ */
+export class LiveRampConnector extends BaseConnector {
+  getMetadata(): ConnectorMetadata {
+    return {
+      key: 'liveramp',
+      label: 'LiveRamp',
+      defaultEndpoint: 'https://us.api.liveramp.com/v1',
+      endpointEnvVar: 'LIVERAMP_API_URL',
+      mockPort: 4104,
+      supportedFormats: ['postcode_list', 'h3'],
+      fields: [
+        { key: 'audienceKey', label: 'LiveRamp audience key', required: true },
+        { key: 'destination', label: 'Destination', helperText: 'Distribution destination name' },
+        { key: 'apiToken', label: 'API token', required: true, secret: true },
+      ],
+    };
+  }
+
+  formatPayload(audience: PushAudience, format: PushPayloadFormat, config: Record<string, string>): unknown {
+    const rows =
+      format === 'h3'
+        ? ['h3_index', ...(audience.h3Cells || [])]
+        : ['postcode', ...audience.areas.map((area) => area.code)];
+
+    return {
+      segmentName: audience.segmentName,
+      destination: config.destination || null,
+      fieldMap: { [rows[0]]: format === 'h3' ? 'H3_INDEX' : 'POSTAL_CODE' },
+      country: 'GB',
+      recordCount: rows.length - 1,
+      data: rows.join('\n'),
+    };
+  }
+
+  buildRequest(payload: unknown, connection: PlatformConnectionSecrets, baseUrl: string): ConnectorRequest {
+    this.requireValues(connection.config, ['audienceKey']);
+    this.requireValues(connection.credentials, ['apiToken']);
+    return {
+      url: this.joinUrl(baseUrl, `/audiences/${encodeURIComponent(connection.config.audienceKey)}/segments`),
+      method: 'POST',
+      headers: { Authorization: `Bearer ${connection.credentials.apiToken}` },
+      body: payload,
+    };
+  }
+
+  parseResponse(body: any): ConnectorResult {
+    return {
+      externalId: body?.segmentId ?? null,
+      message: body?.segmentId ? `Segment ${body.segmentId} uploaded (${body.recordCount ?? '?'} records)` : 'Segment uploaded',
+    };
+  }
+}
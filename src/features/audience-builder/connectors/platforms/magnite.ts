@@ -0,0 +1,74 @@
+import { BaseConnector } from './base';
+import {
+  ConnectorMetadata,
+  ConnectorRequest,
+  ConnectorResult,
+  PlatformConnectionSecrets,
+  PushAudience,
+  PushPayloadFormat,
+} from '../types';
+
+/**
+ * Magnite: account-level geo audiences (postal codes, lat/long radius or H3 cells)
+ */
+export class MagniteConnector extends BaseConnector {
+  getMetadata(): ConnectorMetadata {
+    return {
+      key: 'magnite',
+      label: 'Magnite',
+      defaultEndpoint: 'https://api.magnite.com/v1',
+      endpointEnvVar: 'MAGNITE_API_URL',
+      mockPort: 4103,
+      supportedFormats: ['postcode_list', 'geo_list', 'h3'],
+      fields: [
+        { key: 'accountId', label: 'Account ID', required: true },
+        { key: 'destination', label: 'Destination / seat', helperText: 'Optional seat or deal the audience is shared with' },
+        { key: 'apiKey', label: 'API key', required: true, secret: true },
+        { key: 'apiSecret', label: 'API secret', required: true, secret: true },
+      ],
+    };
+  }
+
+  formatPayload(audience: PushAudience, format: PushPayloadFormat, config: Record<string, string>): unknown {
+    const targeting =
+      format === 'h3'
+        ? { type: 'h3', resolution: audience.h3Resolution, cells: audience.h3Cells || [] }
+        : format === 'geo_list'
+        ? {
+            type: 'lat_long_radius',
+            points: audience.areas.map((area) => ({
+              id: area.code,
+              lat: area.lat,
+              lon: area.lng,
+              radius_m: this.radiusMeters(area),
+            })),
+          }
+        : { type: 'postal_code', country: 'GB', postal_codes: audience.areas.map((area) => area.code) };
+
+    return {
+      name: audience.segmentName,
+      external_ref: audience.audienceId,
+      destination: config.destination || null,
+      targeting,
+    };
+  }
+
+  buildRequest(payload: unknown, connection: PlatformConnectionSecrets, baseUrl: string): ConnectorRequest {
+    this.requireValues(connection.config, ['accountId']);
+    this.requireValues(connection.credentials, ['apiKey', 'apiSecret']);
+    const basicAuth = Buffer.from(`${connection.credentials.apiKey}:${connection.credentials.apiSecret}`).toString('base64');
+    return {
+      url: this.joinUrl(baseUrl, `/accounts/${encodeURIComponent(connection.config.accountId)}/audiences`),
+      method: 'POST',
+      headers: { Authorization: `Basic ${basicAuth}` },
+      body: payload,
+    };
+  }
+
+  parseResponse(body: any): ConnectorResult {
+    return {
+      externalId: body?.id != null ? String(body.id) : null,
+      message: body?.status ? `Audience ${body.id} ${body.status}` : 'Audience created',
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { BaseConnector } from './base';
+import {
+  ConnectorMetadata,
+  ConnectorRequest,
+  ConnectorResult,
+  PlatformConnectionSecrets,
+  PushAudience,
+  PushPayloadFormat,
+} from '../types';
+
+/**
+ * The Trade Desk: geo segments created per advertiser (postal codes, geofences or H3 cells)
+ */
+export class TradeDeskConnector extends BaseConnector {
+  getMetadata(): ConnectorMetadata {
+    return {
+      key: 'ttd',
+      label: 'The Trade Desk',
+      defaultEndpoint: 'https://api.thetradedesk.com/v3',
+      endpointEnvVar: 'TTD_API_URL',
+      mockPort: 4101,
+      supportedFormats: ['postcode_list', 'geo_list', 'h3'],
+      fields: [
+        { key: 'advertiserId', label: 'Advertiser ID', required: true },
+        { key: 'seatId', label: 'Seat ID' },
+        { key: 'apiToken', label: 'API token', required: true, secret: true },
+      ],
+    };
+  }
+
+  formatPayload(audience: PushAudience, format: PushPayloadFormat, config: Record<string, string>): unknown {
+    const base = {
+      AdvertiserId: config.advertiserId,
+      SeatId: config.seatId || undefined,
+      GeoSegmentName: audience.segmentName,
+      Description: `Audience ${audience.audienceId} (${audience.checksum.slice(0, 12)})`,
+    };
+
+    if (format === 'h3') {
+      return { ...base, GeoType: 'H3', H3Resolution: audience.h3Resolution, H3Indexes: audience.h3Cells || [] };
+    }
+    if (format === 'geo_list') {
+      return {
+        ...base,
+        GeoType: 'Geofence',
+        Geofences: audience.areas.map((area) => ({
+          Name: area.code,
+          Latitude: area.lat,
+          Longitude: area.lng,
+          RadiusInMeters: this.radiusMeters(area),
+        })),
+      };
+    }
+    return {
+      ...base,
+      GeoType: 'PostalCode',
+      PostalCodes: audience.areas.map((area) => ({ CountryCode: 'GB', PostalCode: area.code })),
+    };
+  }
+
+  buildRequest(payload: unknown, connection: PlatformConnectionSecrets, baseUrl: string): ConnectorRequest {
+    this.requireValues(connection.config, ['advertiserId']);
+    this.requireValues(connection.credentials, ['apiToken']);
+    return {
+      url: this.joinUrl(baseUrl, '/geosegment'),
+      method: 'POST',
+      headers: { 'TTD-Auth': connection.credentials.apiToken },
+      body: payload,
+    };
+  }
+
+  parseResponse(body: any): ConnectorResult {
+    return {
+      externalId: body?.GeoSegmentId ?? null,
+      message: body?.GeoSegmentId ? `Geo segment ${body.GeoSegmentId} created` : 'Geo segment created',
+    };
+  }
+}
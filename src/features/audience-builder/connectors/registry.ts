@@ -0,0 +1,32 @@
+import { ConnectorAdapter, PlatformKey } from './types';
+import { TradeDeskConnector } from './platforms/ttd';
+import { DV360Connector } from './platforms/dv360';
+import { MagniteConnector } from './platforms/magnite';
+import { LiveRampConnector } from './platforms/liveramp';
+
+const connectors: Record<PlatformKey, ConnectorAdapter> = {
+  ttd: new TradeDeskConnector(),
+  dv360: new DV360Connector(),
+  magnite: new MagniteConnector(),
+  liveramp: new LiveRampConnector(),
+};
+
+export function getConnector(platform: PlatformKey): ConnectorAdapter {
+  const connector = connectors[platform];
+  if (!connector) {
+    throw new Error(`Connector ${platform} not found`);
+  }
+  return connector;
+}
+
+export function getAllConnectors(): ConnectorAdapter[] {
+  return Object.values(connectors);
+}
+
+export function getPlatformKeys(): PlatformKey[] {
+  return Object.keys(connectors) as PlatformKey[];
+}
+
+export function isPlatformKey(value: unknown): value is PlatformKey {
+  return typeof value === 'string' && value in connectors;
+}
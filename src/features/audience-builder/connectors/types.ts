@@ -0,0 +1,128 @@
+export type PlatformKey = 'ttd' | 'dv360' | 'magnite' | 'liveramp';
+
+/**
+ * What is sent to the platform:
+ * - geo_list: area centroids with a household-sized radius (proximity targeting)
+ * - postcode_list: the included postcode districts or sectors
+ * - h3: H3 cells covering the included areas
+ */
+export type PushPayloadFormat = 'geo_list' | 'postcode_list' | 'h3';
+
+export const PUSH_PAYLOAD_FORMATS: Record<PushPayloadFormat, { label: string; description: string }> = {
+  geo_list: {
+    label: 'Geo list',
+    description: 'Area centroids with a radius sized from households',
+  },
+  postcode_list: {
+    label: 'Postcode list',
+    description: 'Included postcode districts (or sectors)',
+  },
+  h3: {
+    label: 'H3 cells',
+    description: 'H3 cells covering the included areas',
+  },
+};
+
+export interface ConnectorField {
+  key: string;
+  label: string;
+  required?: boolean;
+  secret?: boolean; // Stored in platform_connections.credentials, never read back
+  helperText?: string;
+}
+
+export interface ConnectorMetadata {
+  key: PlatformKey;
+  label: string;
+  defaultEndpoint: string;
+  endpointEnvVar: string; // Overrides defaultEndpoint for every connection without its own endpoint
+  mockPort: number; // Port of this platform's local mock server (npm run connectors:mock)
+  supportedFormats: PushPayloadFormat[];
+  fields: ConnectorField[];
+}
+
+/**
+ * One included area of the pushed audience
+ */
+export interface PushArea {
+  code: string; // District or sector code
+  district: string;
+  lat: number;
+  lng: number;
+  radiusKm: number;
+  households: number;
+  agreementCount: number;
+  avgConfidence: number;
+}
+
+export interface PushAudience {
+  audienceId: string;
+  audienceName: string;
+  segmentName: string; // Name the segment/list is created under on the platform
+  geoLevel: 'district' | 'sector';
+  areas: PushArea[];
+  h3Cells?: string[]; // Present when the payload format is h3
+  h3Resolution?: number;
+  checksum: string;
+}
+
+/**
+ * A client's connection to a platform, with credentials (server-side only)
+ */
+export interface PlatformConnectionSecrets {
+  id: string;
+  clientId: string;
+  platform: PlatformKey;
+  config: Record<string, string>;
+  credentials: Record<string, string>;
+  endpointUrl: string | null;
+  payloadFormat: PushPayloadFormat;
+  isEnabled: boolean;
+}
+
+export interface ConnectorRequest {
+  url: string;
+  method: 'POST' | 'PUT';
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface ConnectorResult {
+  externalId: string | null; // Segment / list id on the platform
+  message: string;
+}
+
+export interface ConnectorAdapter {
+  /**
+   * Platform metadata, config fields and supported payload formats
+   */
+  getMetadata(): ConnectorMetadata;
+
+  /**
+   * Platform-specific payload for the audience in the given format
+   */
+  formatPayload(audience: PushAudience, format: PushPayloadFormat, config: Record<string, string>): unknown;
+
+  /**
+   * HTTP request that delivers the payload
+   */
+  buildRequest(payload: unknown, connection: PlatformConnectionSecrets, baseUrl: string): ConnectorRequest;
+
+  /**
+   * Platform id and a summary from a successful response body
+   */
+  parseResponse(body: any): ConnectorResult;
+}
+
+/**
+ * One delivery attempt, appended to exports.delivery_log
+ */
+export interface DeliveryLogEntry {
+  attempt: number;
+  at: string;
+  endpoint: string;
+  status: 'delivered' | 'failed';
+  http_status: number | null;
+  external_id: string | null;
+  message: string;
+}
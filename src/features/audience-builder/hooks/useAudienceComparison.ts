@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  compareAudiences,
+  AudienceComparison,
+  MIN_COMPARED_AUDIENCES,
+  MAX_COMPARED_AUDIENCES,
+} from '../services/audienceComparison.service';
+
+export function useAudienceComparison(audienceIds: string[]) {
+  const ids = Array.from(new Set(audienceIds));
+
+  return useQuery<AudienceComparison>({
+    // Order is kept: it determines the colour assigned to each audience
+    queryKey: ['audienceComparison', ids],
+    queryFn: () => compareAudiences(ids),
+    enabled: ids.length >= MIN_COMPARED_AUDIENCES && ids.length <= MAX_COMPARED_AUDIENCES,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    refetchOnWindowFocus: false,
+    retry: 0,
+  });
+}
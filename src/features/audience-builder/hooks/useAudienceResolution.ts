@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  resolveAudience,
+  normalizeResolutionInput,
+  AudienceResolution,
+  AudienceResolutionInput,
+} from '../services/audienceResolution.service';
+
+/**
+ * Resolve the current builder state to a district set (shared with the export route).
+ * Query key is the normalized input, so the map and export step share the cache entry.
+ */
+export function useAudienceResolution(
+  input: AudienceResolutionInput | null,
+  enabled: boolean = true
+) {
+  const normalized = input && input.segmentKey ? normalizeResolutionInput(input) : null;
+
+  return useQuery<AudienceResolution>({
+    queryKey: ['audienceResolution', normalized],
+    queryFn: () => resolveAudience(normalized!),
+    enabled: enabled && !!normalized,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+    retry: 0,
+  });
+}
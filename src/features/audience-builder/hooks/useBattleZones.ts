@@ -2,10 +2,13 @@ import { useQuery } from '@tanstack/react-query';
 import {
   getBattleZoneDistricts,
   getBattleZoneSummary,
+  getBattleZoneStoreCatchments,
   BattleZoneDistrict,
+  BattleZoneStoreCatchment,
   BattleZoneSummary,
   BattleZonesOptions,
 } from '@/features/audience-builder/api/battleZones';
+import { BattleZoneCatchment } from '@/features/audience-builder/utils/battleZoneCatchments';
 
 /**
  * Hook to fetch battle zone districts
@@ -21,6 +24,9 @@ export function useBattleZoneDistricts(
       options?.baseBrand,
       options?.competitorBrands?.sort().join(','),
       options?.rings,
+      options?.catchment?.mode,
+      options?.catchment?.radiusKm,
+      options?.catchment?.driveMinutes,
       options?.tvRegions?.sort().join(','),
     ],
     queryFn: () => {
@@ -48,6 +54,9 @@ export function useBattleZoneSummary(
       options?.baseBrand,
       options?.competitorBrands?.sort().join(','),
       options?.rings,
+      options?.catchment?.mode,
+      options?.catchment?.radiusKm,
+      options?.catchment?.driveMinutes,
       options?.tvRegions?.sort().join(','),
     ],
     queryFn: () => {
@@ -60,3 +69,21 @@ export function useBattleZoneSummary(
     refetchOnReconnect: false,
   });
 }
+
+/**
+ * Hook to fetch per-store catchments for the map overlay
+ */
+export function useBattleZoneStoreCatchments(
+  baseBrand: string | null | undefined,
+  catchment: BattleZoneCatchment | null | undefined,
+  enabled: boolean = true
+) {
+  return useQuery<BattleZoneStoreCatchment[]>({
+    queryKey: ['battleZones', 'storeCatchments', baseBrand, catchment?.mode, catchment?.radiusKm, catchment?.driveMinutes],
+    queryFn: () => getBattleZoneStoreCatchments(baseBrand!, catchment!),
+    enabled: enabled && !!baseBrand && !!catchment && catchment.mode !== 'rings',
+    staleTime: 30000, // 30 seconds
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+  });
+}
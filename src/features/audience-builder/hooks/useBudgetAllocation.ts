@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { AllocationBase, getAllocationBase } from '../services/budgetAllocation.service';
+
+/**
+ * Households and TV regions to allocate budget over, keyed by the resolution's district checksum
+ */
+export function useAllocationBase(districtIds: string[] | undefined, districtChecksum: string | null | undefined) {
+  return useQuery<AllocationBase>({
+    queryKey: ['budgetAllocationBase', districtChecksum],
+    queryFn: () => getAllocationBase(districtIds || []),
+    enabled: !!districtIds && districtIds.length > 0 && !!districtChecksum,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,23 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as builderStateApi from '../api/builderState';
+
+export function useSavedBuilderState(audienceId: string) {
+  return useQuery({
+    queryKey: ['builder_state', audienceId],
+    queryFn: () => builderStateApi.getBuilderState(audienceId),
+    enabled: !!audienceId,
+    staleTime: Infinity, // Only read once for hydration; local state is the source of truth afterwards
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useSaveBuilderState() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ audienceId, state }: { audienceId: string; state: builderStateApi.PersistedBuilderState }) =>
+      builderStateApi.saveBuilderState(audienceId, state),
+    onSuccess: (_, variables) => {
+      queryClient.setQueryData(['builder_state', variables.audienceId], variables.state);
+    },
+  });
+}
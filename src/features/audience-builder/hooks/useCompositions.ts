@@ -0,0 +1,30 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as compositionsApi from '../api/compositions';
+import { createCompositeAudience } from '../services/audienceComposition.service';
+
+export function useComposition(audienceId: string) {
+  return useQuery({
+    queryKey: ['audience_composition', audienceId],
+    queryFn: () => compositionsApi.getComposition(audienceId),
+    enabled: !!audienceId,
+  });
+}
+
+export function useCreateCompositeAudience() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: createCompositeAudience,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['audiences'] });
+      queryClient.invalidateQueries({ queryKey: ['audienceDetails'] });
+    },
+  });
+}
+
+export function useCompositions(audienceIds: string[]) {
+  return useQuery({
+    queryKey: ['audience_compositions', audienceIds],
+    queryFn: () => compositionsApi.getCompositions(audienceIds),
+    enabled: audienceIds.length > 0,
+  });
+}
@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getDistrictBoundaries } from '@/features/audience-builder/api/districtBoundaries';
+import { BoundaryGeometry } from '@/features/audience-builder/utils/districtBoundaries';
+
+/**
+ * Hook to fetch district boundary polygons at a stored detail level
+ */
+export function useDistrictBoundaries(
+  districts: string[],
+  minZoom: number,
+  enabled: boolean = true
+) {
+  // Create stable key from sorted districts
+  const districtsKey = useMemo(() => {
+    return [...districts].sort().join('|');
+  }, [districts]);
+
+  return useQuery<Map<string, BoundaryGeometry>>({
+    queryKey: ['districtBoundaries', minZoom, districtsKey],
+    queryFn: () => getDistrictBoundaries(districts, minZoom),
+    enabled: enabled && districts.length > 0,
+    // Keep drawing the previous detail level while the next one loads
+    placeholderData: (previous) => previous,
+    staleTime: 30 * 60 * 1000, // boundaries only change on re-import
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+  });
+}
@@ -0,0 +1,53 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as schedulesApi from '../api/exportSchedules';
+
+export function useExportSchedules(audienceId: string) {
+  return useQuery({
+    queryKey: ['exportSchedules', audienceId],
+    queryFn: () => schedulesApi.getExportSchedules(audienceId),
+    enabled: !!audienceId,
+  });
+}
+
+export function useSaveExportSchedule(audienceId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, input }: { id?: string; input: schedulesApi.ExportScheduleInput }) =>
+      id ? schedulesApi.updateExportSchedule(id, input) : schedulesApi.createExportSchedule(audienceId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exportSchedules', audienceId] });
+    },
+  });
+}
+
+export function useToggleExportSchedule(audienceId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, isEnabled }: { id: string; isEnabled: boolean }) =>
+      schedulesApi.updateExportSchedule(id, { is_enabled: isEnabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exportSchedules', audienceId] });
+    },
+  });
+}
+
+export function useDeleteExportSchedule(audienceId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => schedulesApi.deleteExportSchedule(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exportSchedules', audienceId] });
+    },
+  });
+}
+
+export function useRunExportSchedule(audienceId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => schedulesApi.runExportScheduleNow(id),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['exportSchedules', audienceId] });
+      queryClient.invalidateQueries({ queryKey: ['exports', audienceId] });
+    },
+  });
+}
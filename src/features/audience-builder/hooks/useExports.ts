@@ -1,11 +1,59 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useEffect, useRef } from 'react';
 import * as exportsApi from '../api/exports';
+import { Export } from '@/lib/types';
+import { isExportJobActive, isExportJobStale } from '../utils/exportJobs';
+
+const EXPORT_JOB_POLL_MS = 2000;
 
 export function useExports(audienceId: string) {
   return useQuery({
     queryKey: ['exports', audienceId],
     queryFn: () => exportsApi.getExports(audienceId),
     enabled: !!audienceId,
+    // Poll while any export job is queued or running (interrupted jobs no longer report progress)
+    refetchInterval: (query) =>
+      query.state.data?.some((job) => isExportJobActive(job) && !isExportJobStale(job)) ? EXPORT_JOB_POLL_MS : false,
+  });
+}
+
+/**
+ * Watch export jobs started from this screen and call back once each one finishes.
+ * Returns a function that adds a job id to the watch list.
+ */
+export function useExportJobCompletion(
+  audienceId: string,
+  handlers: { onSucceeded: (job: Export) => void; onFailed: (job: Export) => void }
+) {
+  const { data: exports } = useExports(audienceId);
+  const watchedIdsRef = useRef(new Set<string>());
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    for (const job of exports || []) {
+      if (!watchedIdsRef.current.has(job.id) || isExportJobActive(job)) continue;
+      watchedIdsRef.current.delete(job.id);
+      if (job.status === 'succeeded') {
+        handlersRef.current.onSucceeded(job);
+      } else {
+        handlersRef.current.onFailed(job);
+      }
+    }
+  }, [exports]);
+
+  return useCallback((jobId: string) => {
+    watchedIdsRef.current.add(jobId);
+  }, []);
+}
+
+export function useRetryExport(audienceId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (exportId: string) => exportsApi.retryExportJob(exportId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exports', audienceId] });
+    },
   });
 }
 
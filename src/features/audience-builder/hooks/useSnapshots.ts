@@ -0,0 +1,33 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as snapshotsApi from '../api/snapshots';
+import { restoreAudienceSnapshot } from '../services/snapshot.service';
+
+export function useSnapshots(audienceId: string) {
+  return useQuery({
+    queryKey: ['audience_snapshots', audienceId],
+    queryFn: () => snapshotsApi.getSnapshots(audienceId),
+    enabled: !!audienceId,
+  });
+}
+
+export function useSnapshot(snapshotId: string | null) {
+  return useQuery({
+    queryKey: ['audience_snapshot', snapshotId],
+    queryFn: () => snapshotsApi.getSnapshot(snapshotId!),
+    enabled: !!snapshotId,
+    staleTime: Infinity, // Snapshots are immutable
+  });
+}
+
+export function useRestoreSnapshot() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (snapshotId: string) => restoreAudienceSnapshot(snapshotId),
+    onSuccess: ({ audienceId }) => {
+      queryClient.invalidateQueries({ queryKey: ['audiences'] });
+      queryClient.invalidateQueries({ queryKey: ['construction_settings', audienceId] });
+      queryClient.invalidateQueries({ queryKey: ['segments', audienceId] });
+      queryClient.invalidateQueries({ queryKey: ['builder_state', audienceId] });
+    },
+  });
+}
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { getAudienceTvInsights, AudienceTvInsights } from '../services/tvViewing.service';
+
+/**
+ * TV spot insights for a resolved district set. Keyed by the resolution's district checksum,
+ * so the list itself isn't hashed into the key.
+ */
+export function useAudienceTvInsights(
+  districtIds: string[] | undefined,
+  districtChecksum: string | undefined,
+  enabled: boolean = true
+) {
+  return useQuery<AudienceTvInsights>({
+    queryKey: ['tvInsights', districtChecksum],
+    queryFn: () => getAudienceTvInsights(districtIds || []),
+    enabled: enabled && !!districtIds && !!districtChecksum,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+  });
+}
@@ -0,0 +1,202 @@
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
+import { getDistrictHouseholds, FALLBACK_HOUSEHOLDS_PER_DISTRICT } from '../api/geoDistricts';
+import { getTvRegionsByDistrict } from '../api/tvRegions';
+import { resolveSavedAudience, AudienceResolution } from './audienceResolution.service';
+
+export const MIN_COMPARED_AUDIENCES = 2;
+export const MAX_COMPARED_AUDIENCES = 4;
+
+export interface ProviderContribution {
+  provider: string;
+  districts: number;
+  households: number;
+}
+
+export interface TvRegionBreakdown {
+  regionKey: string;
+  name: string;
+  districts: number;
+  households: number;
+}
+
+export interface ComparedAudience {
+  id: string;
+  name: string;
+  mode: AudienceResolution['input']['mode'] | null;
+  segmentKey: string | null;
+  districtCount: number;
+  households: number;
+  uniqueDistricts: number; // Districts in no other compared audience
+  uniqueHouseholds: number;
+  providerContributions: ProviderContribution[];
+  tvRegions: TvRegionBreakdown[];
+  resolved: boolean; // False when the audience has no segment to resolve yet
+}
+
+export interface AudiencePairOverlap {
+  audienceA: string;
+  audienceB: string;
+  sharedDistricts: number;
+  sharedHouseholds: number;
+  unionDistricts: number;
+  jaccard: number; // |A ∩ B| / |A ∪ B| over districts
+}
+
+export interface ComparisonDistrict {
+  district: string;
+  centroid_lat: number;
+  centroid_lng: number;
+  households: number;
+  audienceIds: string[]; // Compared audiences that include this district
+}
+
+export interface AudienceComparison {
+  audiences: ComparedAudience[];
+  pairs: AudiencePairOverlap[];
+  sharedByAll: { districts: number; households: number };
+  districts: ComparisonDistrict[];
+  providers: string[]; // Union of contributing providers, sorted
+}
+
+const sumHouseholds = (districts: Iterable<string>, households: Map<string, number>) => {
+  let total = 0;
+  for (const district of Array.from(districts)) {
+    total += households.get(district) ?? FALLBACK_HOUSEHOLDS_PER_DISTRICT;
+  }
+  return total;
+};
+
+/**
+ * Compare 2-4 saved audiences: district overlap and uniqueness (Jaccard, shared households),
+ * per-provider contributions, TV region breakdowns and a combined district list for the map.
+ * Each audience is resolved from its persisted builder state via the shared resolution service.
+ */
+export async function compareAudiences(
+  audienceIds: string[],
+  client?: TypedSupabaseClient
+): Promise<AudienceComparison> {
+  const ids = Array.from(new Set(audienceIds));
+  if (ids.length < MIN_COMPARED_AUDIENCES || ids.length > MAX_COMPARED_AUDIENCES) {
+    throw new Error(`Select between ${MIN_COMPARED_AUDIENCES} and ${MAX_COMPARED_AUDIENCES} audiences to compare`);
+  }
+
+  const supabase = client || createClient();
+
+  const { data: audienceRows, error } = await supabase
+    .from('audiences')
+    .select('id, name')
+    .in('id', ids);
+  if (error) throw error;
+
+  const nameById = new Map((audienceRows || []).map((a) => [a.id, a.name as string]));
+  const missing = ids.filter((id) => !nameById.has(id));
+  if (missing.length > 0) {
+    throw new Error(`Audience not found: ${missing.join(', ')}`);
+  }
+
+  const resolutions = await Promise.all(ids.map((id) => resolveSavedAudience(id, supabase)));
+
+  const districtSets = resolutions.map((r) => new Set(r?.districtIds || []));
+  const allDistricts = new Map<string, ComparisonDistrict>();
+  resolutions.forEach((resolution, index) => {
+    for (const d of resolution?.districts || []) {
+      const existing = allDistricts.get(d.district);
+      if (existing) {
+        existing.audienceIds.push(ids[index]);
+      } else {
+        allDistricts.set(d.district, {
+          district: d.district,
+          centroid_lat: d.centroid_lat,
+          centroid_lng: d.centroid_lng,
+          households: 0,
+          audienceIds: [ids[index]],
+        });
+      }
+    }
+  });
+
+  const unionIds = Array.from(allDistricts.keys()).sort();
+  const [households, { regionsByDistrict, regionNames }] = await Promise.all([
+    getDistrictHouseholds(unionIds, supabase),
+    getTvRegionsByDistrict(unionIds, supabase),
+  ]);
+  allDistricts.forEach((d) => {
+    d.households = households.get(d.district) ?? FALLBACK_HOUSEHOLDS_PER_DISTRICT;
+  });
+
+  const providers = new Set<string>();
+
+  const audiences: ComparedAudience[] = ids.map((id, index) => {
+    const resolution = resolutions[index];
+    const districts = resolution?.districts || [];
+    const unique = districts.filter((d) => allDistricts.get(d.district)!.audienceIds.length === 1);
+
+    const byProvider = new Map<string, ProviderContribution>();
+    for (const d of districts) {
+      const districtHouseholds = households.get(d.district) ?? FALLBACK_HOUSEHOLDS_PER_DISTRICT;
+      for (const provider of d.providers) {
+        providers.add(provider);
+        const entry = byProvider.get(provider) || { provider, districts: 0, households: 0 };
+        entry.districts += 1;
+        entry.households += districtHouseholds;
+        byProvider.set(provider, entry);
+      }
+    }
+
+    const byRegion = new Map<string, TvRegionBreakdown>();
+    for (const d of districts) {
+      const districtHouseholds = households.get(d.district) ?? FALLBACK_HOUSEHOLDS_PER_DISTRICT;
+      for (const regionKey of regionsByDistrict.get(d.district) || []) {
+        const entry = byRegion.get(regionKey) || {
+          regionKey,
+          name: regionNames.get(regionKey) || regionKey,
+          districts: 0,
+          households: 0,
+        };
+        entry.districts += 1;
+        entry.households += districtHouseholds;
+        byRegion.set(regionKey, entry);
+      }
+    }
+
+    return {
+      id,
+      name: nameById.get(id)!,
+      mode: resolution?.input.mode || null,
+      segmentKey: resolution?.input.segmentKey || null,
+      districtCount: districts.length,
+      households: sumHouseholds(districtSets[index], households),
+      uniqueDistricts: unique.length,
+      uniqueHouseholds: sumHouseholds(unique.map((d) => d.district), households),
+      providerContributions: Array.from(byProvider.values()).sort((a, b) => b.districts - a.districts),
+      tvRegions: Array.from(byRegion.values()).sort((a, b) => b.households - a.households),
+      resolved: !!resolution,
+    };
+  });
+
+  const pairs: AudiencePairOverlap[] = [];
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const shared = Array.from(districtSets[i]).filter((d) => districtSets[j].has(d));
+      const unionDistricts = districtSets[i].size + districtSets[j].size - shared.length;
+      pairs.push({
+        audienceA: ids[i],
+        audienceB: ids[j],
+        sharedDistricts: shared.length,
+        sharedHouseholds: sumHouseholds(shared, households),
+        unionDistricts,
+        jaccard: unionDistricts > 0 ? shared.length / unionDistricts : 0,
+      });
+    }
+  }
+
+  const sharedByAll = unionIds.filter((d) => allDistricts.get(d)!.audienceIds.length === ids.length);
+
+  return {
+    audiences,
+    pairs,
+    sharedByAll: { districts: sharedByAll.length, households: sumHouseholds(sharedByAll, households) },
+    districts: unionIds.map((d) => allDistricts.get(d)!),
+    providers: Array.from(providers).sort(),
+  };
+}
@@ -0,0 +1,39 @@
+import * as audiencesApi from '../api/audiences';
+import * as compositionsApi from '../api/compositions';
+import { Audience } from '@/lib/types';
+
+export interface NewCompositeAudience extends compositionsApi.AudienceCompositionRecipe {
+  name: string;
+  client_id?: string | null;
+  description?: string;
+}
+
+/**
+ * Create a new audience defined by a set operation over existing audiences.
+ * Only the recipe is stored; districts are resolved from the sources on read and export.
+ */
+export async function createCompositeAudience(composite: NewCompositeAudience): Promise<Audience> {
+  const sourceAudienceIds = Array.from(new Set(composite.sourceAudienceIds));
+  if (sourceAudienceIds.length < 2) {
+    throw new Error('Select at least two source audiences');
+  }
+
+  const audience = await audiencesApi.createAudience({
+    name: composite.name,
+    client_id: composite.client_id,
+    description: composite.description || '',
+  });
+
+  try {
+    await compositionsApi.saveComposition(audience.id, {
+      operation: composite.operation,
+      sourceAudienceIds,
+    });
+  } catch (error) {
+    // Don't leave a plain, empty audience behind
+    await audiencesApi.deleteAudience(audience.id).catch(() => undefined);
+    throw error;
+  }
+
+  return audience;
+}
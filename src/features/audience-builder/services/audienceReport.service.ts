@@ -0,0 +1,429 @@
+import puppeteer from 'puppeteer-core';
+import type { Position } from 'geojson';
+import { TypedSupabaseClient } from '@/lib/supabase/client';
+import { getBattleZoneDistricts } from '../api/battleZones';
+import { getDistrictBoundaries } from '../api/districtBoundaries';
+import { BoundaryGeometry } from '../utils/districtBoundaries';
+import { buildDonutSegments, donutArcPath } from '../utils/donutChart';
+import { getBestDaypart, getTopChannel, getTopProgramme, TvSpotInsight } from '../utils/tvInsights';
+import {
+  buildPlanningDistrictRows,
+  PlanningDistrictRow,
+  PlanningExportData,
+  PlanningSummaryEntry,
+  PlanningTvRegionSummary,
+  planningBriefEntries,
+  planningConstructionEntries,
+  summarizeTvRegions,
+} from './planningData.service';
+import { getAudienceTvInsights } from './tvViewing.service';
+
+export const HTML_CONTENT_TYPE = 'text/html; charset=utf-8';
+export const PDF_CONTENT_TYPE = 'application/pdf';
+
+const REPORT_BOUNDARY_ZOOM = 0; // Coarsest stored boundaries keep the embedded map small
+const MAP_WIDTH = 640;
+const MAP_HEIGHT = 420;
+const MAP_PADDING = 12;
+const TOP_CONTESTED_DISTRICTS = 10;
+const TOP_TV_SPOTS = 8;
+const CONFIDENCE_FILLS: Record<string, string> = { high: '#02b5e7', medium: '#7de0f5', low: '#c9f1fb' };
+
+interface ContestedDistrict {
+  district: string;
+  households: number;
+  baseStoreCount: number | null; // null when store counts could not be loaded
+  competitorStoreCount: number | null;
+  competitorBrands: string[];
+}
+
+interface AudienceReportSections {
+  data: PlanningExportData;
+  rows: PlanningDistrictRow[];
+  boundaries: Map<string, BoundaryGeometry>;
+  contested: ContestedDistrict[] | null; // null when battle zones are off
+  tvRegions: PlanningTvRegionSummary[];
+  tvInsights: TvSpotInsight[];
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-GB');
+}
+
+function formatEntryValue([field, value]: PlanningSummaryEntry): string {
+  if (value === null || value === '') return '—';
+  if (typeof value !== 'number') return escapeHtml(value);
+  return field === 'Budget' ? `£${formatNumber(value)}` : formatNumber(value);
+}
+
+function entriesTable(entries: PlanningSummaryEntry[]): string {
+  return `<table class="fields">${entries
+    .map((entry) => `<tr><th>${escapeHtml(entry[0])}</th><td>${formatEntryValue(entry)}</td></tr>`)
+    .join('')}</table>`;
+}
+
+/**
+ * Contested districts in the audience, most stores on either side first
+ */
+async function loadContestedDistricts(
+  data: PlanningExportData,
+  rows: PlanningDistrictRow[],
+  client: TypedSupabaseClient
+): Promise<ContestedDistrict[] | null> {
+  const { battleZones, tvRegions } = data.resolution.input;
+  if (!battleZones.enabled) return null;
+
+  const contestedRows = rows.filter((row) => row.battle_zone === 'contested');
+  let storesByDistrict = new Map<string, { base: number; competitor: number; brands: string[] }>();
+  try {
+    const battleZoneDistricts = await getBattleZoneDistricts(
+      {
+        baseBrand: battleZones.baseBrand,
+        competitorBrands: battleZones.competitorBrands,
+        rings: battleZones.rings,
+        catchment: battleZones.catchment,
+        tvRegions,
+      },
+      client
+    );
+    storesByDistrict = new Map(
+      battleZoneDistricts.map((d) => [
+        d.district.trim().toUpperCase().replace(/\s+/g, ''),
+        { base: d.base_store_count, competitor: d.competitor_store_count, brands: d.competitor_brands_present || [] },
+      ])
+    );
+  } catch (error) {
+    console.warn('[audienceReport] Failed to load battle zone store counts:', error);
+  }
+
+  return contestedRows
+    .map((row) => {
+      const stores = storesByDistrict.get(row.district);
+      return {
+        district: row.district,
+        households: row.households,
+        baseStoreCount: stores ? stores.base : null,
+        competitorStoreCount: stores ? stores.competitor : null,
+        competitorBrands: stores?.brands || [],
+      };
+    })
+    .sort(
+      (a, b) =>
+        (b.baseStoreCount || 0) + (b.competitorStoreCount || 0) - ((a.baseStoreCount || 0) + (a.competitorStoreCount || 0)) ||
+        b.households - a.households
+    )
+    .slice(0, TOP_CONTESTED_DISTRICTS);
+}
+
+function providerDonutSection(data: PlanningExportData): string {
+  const segments = buildDonutSegments(data.providerContributions);
+  const isExtension = data.resolution.input.mode === 'extension';
+  const size = 180;
+  const radius = size / 2 - 10;
+
+  const chart =
+    segments.length > 0
+      ? `<svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">${segments
+          .map(
+            (segment) =>
+              `<path d="${donutArcPath(size / 2, size / 2, radius, radius * 0.6, segment.startAngle, segment.endAngle)}" fill="${segment.color}" stroke="white" stroke-width="2" />`
+          )
+          .join('')}</svg>`
+      : '<p class="muted">No provider contributions for this build.</p>';
+
+  const legend = segments
+    .map(
+      (segment) => `<tr>
+        <td><span class="swatch" style="background:${segment.color}"></span>${escapeHtml(segment.providerLabel)}</td>
+        <td class="num">${formatNumber(segment.districtsContributed)}</td>
+        <td class="num">${segment.normalizedPercent.toFixed(1)}%</td>
+      </tr>`
+    )
+    .join('');
+
+  return `<section>
+    <h2>Provider contributions</h2>
+    ${data.baseProvider ? `<p class="muted">Universe defined by ${escapeHtml(data.baseProvider.providerLabel)} (${formatNumber(data.baseProvider.eligibleDistricts)} eligible districts)</p>` : ''}
+    <div class="donut">
+      ${chart}
+      ${segments.length > 0 ? `<table class="grid">
+        <thead><tr><th>Provider</th><th class="num">${isExtension ? 'Incremental districts' : 'Districts supported'}</th><th class="num">Share</th></tr></thead>
+        <tbody>${legend}</tbody>
+      </table>` : ''}
+    </div>
+  </section>`;
+}
+
+function ringsOf(geometry: BoundaryGeometry): Position[][] {
+  return geometry.type === 'Polygon' ? geometry.coordinates : geometry.coordinates.flat();
+}
+
+/**
+ * Static map of the included districts: boundary polygons where imported, centroid dots
+ * otherwise, shaded by confidence level
+ */
+function districtMapSection(rows: PlanningDistrictRow[], boundaries: Map<string, BoundaryGeometry>): string {
+  if (rows.length === 0) {
+    return '<section><h2>District map</h2><p class="muted">No districts in this audience.</p></section>';
+  }
+
+  let minLng = Infinity;
+  let maxLng = -Infinity;
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  const extend = ([lng, lat]: Position) => {
+    minLng = Math.min(minLng, lng);
+    maxLng = Math.max(maxLng, lng);
+    minLat = Math.min(minLat, lat);
+    maxLat = Math.max(maxLat, lat);
+  };
+  for (const row of rows) {
+    const boundary = boundaries.get(row.district);
+    if (boundary) ringsOf(boundary).forEach((ring) => ring.forEach(extend));
+    else extend([row.lng, row.lat]);
+  }
+
+  // Equirectangular projection scaled at the map's mid latitude
+  const lngScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  const spanX = Math.max((maxLng - minLng) * lngScale, 0.01);
+  const spanY = Math.max(maxLat - minLat, 0.01);
+  const scale = Math.min((MAP_WIDTH - MAP_PADDING * 2) / spanX, (MAP_HEIGHT - MAP_PADDING * 2) / spanY);
+  const offsetX = (MAP_WIDTH - spanX * scale) / 2;
+  const offsetY = (MAP_HEIGHT - spanY * scale) / 2;
+  const project = ([lng, lat]: Position): [string, string] => [
+    (offsetX + (lng - minLng) * lngScale * scale).toFixed(1),
+    (offsetY + (maxLat - lat) * scale).toFixed(1),
+  ];
+
+  const shapes = rows
+    .map((row) => {
+      const fill = CONFIDENCE_FILLS[row.confidence_level] || CONFIDENCE_FILLS.low;
+      const boundary = boundaries.get(row.district);
+      if (!boundary) {
+        const [x, y] = project([row.lng, row.lat]);
+        return `<circle cx="${x}" cy="${y}" r="2.5" fill="${fill}" stroke="#0088a8" stroke-width="0.5" />`;
+      }
+      const d = ringsOf(boundary)
+        .map((ring) => `M${ring.map((position) => project(position).join(',')).join('L')}Z`)
+        .join('');
+      return `<path d="${d}" fill="${fill}" fill-rule="evenodd" stroke="#0088a8" stroke-width="0.4" />`;
+    })
+    .join('');
+
+  const legend = Object.entries(CONFIDENCE_FILLS)
+    .map(([level, color]) => `<span><span class="swatch" style="background:${color}"></span>${level} confidence</span>`)
+    .join('');
+
+  return `<section>
+    <h2>District map</h2>
+    <svg class="map" width="${MAP_WIDTH}" height="${MAP_HEIGHT}" viewBox="0 0 ${MAP_WIDTH} ${MAP_HEIGHT}">${shapes}</svg>
+    <p class="legend">${legend}</p>
+  </section>`;
+}
+
+function battleZonesSection(contested: ContestedDistrict[] | null): string {
+  if (!contested) {
+    return '<section><h2>Battle zones</h2><p class="muted">Battle zones were not enabled for this build.</p></section>';
+  }
+  if (contested.length === 0) {
+    return '<section><h2>Battle zones</h2><p class="muted">No contested districts in this audience.</p></section>';
+  }
+
+  const stores = (count: number | null) => (count === null ? '—' : formatNumber(count));
+  return `<section>
+    <h2>Top contested districts</h2>
+    <table class="grid">
+      <thead><tr><th>District</th><th class="num">Households</th><th class="num">Our stores</th><th class="num">Competitor stores</th><th>Competitors present</th></tr></thead>
+      <tbody>${contested
+        .map(
+          (d) => `<tr>
+            <td>${escapeHtml(d.district)}</td>
+            <td class="num">${formatNumber(d.households)}</td>
+            <td class="num">${stores(d.baseStoreCount)}</td>
+            <td class="num">${stores(d.competitorStoreCount)}</td>
+            <td>${escapeHtml(d.competitorBrands.join(', ') || '—')}</td>
+          </tr>`
+        )
+        .join('')}</tbody>
+    </table>
+  </section>`;
+}
+
+function tvRegionsSection(tvRegions: PlanningTvRegionSummary[]): string {
+  return `<section>
+    <h2>TV region household split</h2>
+    <table class="grid">
+      <thead><tr><th>TV region</th><th class="num">Districts</th><th class="num">Households</th><th>% of audience households</th></tr></thead>
+      <tbody>${tvRegions
+        .map(
+          (region) => `<tr>
+            <td>${escapeHtml(region.name)}</td>
+            <td class="num">${formatNumber(region.districts)}</td>
+            <td class="num">${formatNumber(region.households)}</td>
+            <td><span class="bar" style="width:${Math.min(region.share, 100)}%"></span>${region.share.toFixed(1)}%</td>
+          </tr>`
+        )
+        .join('')}</tbody>
+    </table>
+  </section>`;
+}
+
+function tvInsightsSection(insights: TvSpotInsight[]): string {
+  if (insights.length === 0) {
+    return '<section><h2>TV spot insights</h2><p class="muted">No ACR viewing data covers these districts.</p></section>';
+  }
+
+  const topChannel = getTopChannel(insights);
+  const topProgramme = getTopProgramme(insights);
+  const bestDaypart = getBestDaypart(insights);
+  const highlights = [
+    topChannel && ['Top channel', topChannel.channel, topChannel.index],
+    topProgramme && ['Top programme', `${topProgramme.programme} (${topProgramme.channel})`, topProgramme.index],
+    bestDaypart && ['Best daypart', bestDaypart.daypart, bestDaypart.index],
+  ].filter((h): h is [string, string, number] => Boolean(h));
+
+  return `<section>
+    <h2>TV spot insights</h2>
+    <div class="highlights">${highlights
+      .map(
+        ([label, value, index]) =>
+          `<div class="highlight"><div class="muted">${label}</div><div class="value">${escapeHtml(value)}</div><div class="muted">Index ${index}</div></div>`
+      )
+      .join('')}</div>
+    <table class="grid">
+      <thead><tr><th>Programme</th><th>Channel</th><th>Daypart</th><th>Genre</th><th class="num">Reach</th><th class="num">Index</th></tr></thead>
+      <tbody>${[...insights]
+        .sort((a, b) => b.index - a.index)
+        .slice(0, TOP_TV_SPOTS)
+        .map(
+          (insight) => `<tr>
+            <td>${escapeHtml(insight.programme)}</td>
+            <td>${escapeHtml(insight.channel)}</td>
+            <td>${insight.daypart}</td>
+            <td>${insight.genre}</td>
+            <td class="num">${formatNumber(insight.reach)}</td>
+            <td class="num">${insight.index}</td>
+          </tr>`
+        )
+        .join('')}</tbody>
+    </table>
+    <p class="muted">Index 100 = average viewing across all districts in the ACR viewing data; reach is unique viewers in the audience's districts.</p>
+  </section>`;
+}
+
+const REPORT_STYLES = `
+  @page { size: A4; margin: 14mm; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #1f2937; font-size: 12px; margin: 0 auto; max-width: 760px; padding: 24px; }
+  header { border-bottom: 3px solid #02b5e7; padding-bottom: 12px; margin-bottom: 16px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 0 0 8px; color: #0088a8; }
+  section { margin-bottom: 22px; break-inside: avoid; }
+  table { border-collapse: collapse; width: 100%; }
+  table.fields th { text-align: left; width: 34%; font-weight: 600; padding: 4px 8px 4px 0; vertical-align: top; }
+  table.fields td { padding: 4px 0; word-break: break-word; }
+  table.grid th { font-size: 11px; font-weight: 600; text-align: left; border-bottom: 1px solid #d1d5db; padding: 4px 6px; }
+  table.grid td { border-bottom: 1px solid #f0f0f0; padding: 4px 6px; }
+  .num { text-align: right; }
+  .muted { color: #6b7280; font-size: 11px; }
+  .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 50%; margin-right: 6px; vertical-align: middle; }
+  .donut { display: flex; gap: 20px; align-items: flex-start; }
+  .map { display: block; max-width: 100%; height: auto; border: 1px solid #e5e7eb; border-radius: 4px; background: #f8fafc; }
+  .legend span { margin-right: 14px; font-size: 11px; text-transform: capitalize; }
+  .bar { display: inline-block; height: 8px; background: #3bc8ea; border-radius: 2px; margin-right: 6px; vertical-align: middle; max-width: 60%; }
+  .highlights { display: flex; gap: 12px; margin-bottom: 10px; }
+  .highlight { flex: 1; border: 1px solid #e5e7eb; border-radius: 4px; padding: 8px; }
+  .highlight .value { font-weight: 600; font-size: 13px; margin: 2px 0; }
+  @media print { body { padding: 0; max-width: none; } }
+`;
+
+function renderReportHtml(sections: AudienceReportSections): string {
+  const { data, rows, boundaries, contested, tvRegions, tvInsights } = sections;
+  const generatedAt = data.metadata.export_generated_at
+    ? new Date(data.metadata.export_generated_at).toLocaleString('en-GB', { timeZone: 'UTC' })
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(data.brief.name)} – audience planning report</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(data.brief.name)}</h1>
+    <div class="muted">Audience planning report${generatedAt ? ` · generated ${escapeHtml(generatedAt)} UTC` : ''}${data.metadata.snapshot_version != null ? ` · snapshot v${escapeHtml(data.metadata.snapshot_version)}` : ''}</div>
+  </header>
+  <section><h2>Brief</h2>${entriesTable(planningBriefEntries(data))}</section>
+  <section><h2>Construction</h2>${entriesTable(planningConstructionEntries(data))}</section>
+  ${providerDonutSection(data)}
+  ${districtMapSection(rows, boundaries)}
+  ${battleZonesSection(contested)}
+  ${tvRegionsSection(tvRegions)}
+  ${tvInsightsSection(tvInsights)}
+</body>
+</html>`;
+}
+
+/**
+ * Self-contained, printable planning report (inline styles and SVG, no external assets).
+ * Returns the district rows too, for previews and row counts.
+ */
+export async function buildAudienceReport(
+  data: PlanningExportData,
+  client: TypedSupabaseClient
+): Promise<{ html: string; rows: PlanningDistrictRow[] }> {
+  const rows = buildPlanningDistrictRows(data);
+  const tvRegions = summarizeTvRegions(data, rows);
+  const districtIds = rows.map((row) => row.district);
+
+  const [boundaries, contested, tvInsights] = await Promise.all([
+    getDistrictBoundaries(districtIds, REPORT_BOUNDARY_ZOOM, client),
+    loadContestedDistricts(data, rows, client),
+    getAudienceTvInsights(districtIds, client),
+  ]);
+
+  const html = renderReportHtml({
+    data,
+    rows,
+    boundaries,
+    contested,
+    tvRegions,
+    tvInsights: tvInsights.insights,
+  });
+  return { html, rows };
+}
+
+/**
+ * Print the report to an A4 PDF with headless Chrome (PUPPETEER_EXECUTABLE_PATH)
+ */
+export async function renderReportPdf(html: string): Promise<Buffer> {
+  const executablePath = process.env.PUPPETEER_EXECUTABLE_PATH;
+  if (!executablePath) {
+    throw new Error('PDF rendering is not configured: set PUPPETEER_EXECUTABLE_PATH to a Chrome or Chromium binary');
+  }
+
+  const browser = await puppeteer.launch({
+    executablePath,
+    headless: true,
+    args: ['--no-sandbox', '--disable-dev-shm-usage'],
+  });
+  try {
+    const page = await browser.newPage();
+    await page.setContent(html, { waitUntil: 'load' });
+    const pdf = await page.pdf({ format: 'A4', printBackground: true, preferCSSPageSize: true });
+    return Buffer.from(pdf);
+  } finally {
+    await browser.close();
+  }
+}
@@ -0,0 +1,440 @@
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
+import { getValidationResults, ValidationResults, AgreementScoring } from '../api/validationResults';
+import { getProviderImpact, ExtensionResults } from '../api/extensionResults';
+import { getBattleZoneDistricts, BattleZoneDistrict } from '../api/battleZones';
+import { PersistedBuilderState } from '../api/builderState';
+import { getComposition, AudienceCompositionRecipe } from '../api/compositions';
+import { getDistrictHouseholds } from '../api/geoDistricts';
+import { combineDistricts } from '../utils/districtSetOperations';
+import { BattleZoneCatchment, normalizeCatchment } from '../utils/battleZoneCatchments';
+import { GeoResolution, ValidationAgreementMode } from '../types/signals';
+
+/**
+ * Everything needed to resolve an audience to a district set.
+ * Mirrors the BuilderContext state so the map and the export route resolve identically.
+ */
+export interface AudienceResolutionInput {
+  mode: 'validation' | 'extension';
+  segmentKey: string;
+  providers: string[]; // Full build list including the base provider
+  baseProvider: string; // Validation mode: provider defining the eligible universe (CCS by default)
+  minAgreement: number; // Validation mode, count scoring
+  agreementMode: ValidationAgreementMode; // Validation mode: threshold (minAgreement), majority or unanimous
+  agreementScoring: AgreementScoring; // Validation mode
+  minWeightedScore: number; // Validation mode, weighted scoring (0-1 share of trust weight)
+  resolution: GeoResolution; // Validation mode: agreement per district or per postcode sector
+  confidenceThreshold: number; // Extension mode
+  includedSegmentKeys: string[]; // Extension mode
+  tvRegions: string[];
+  poiIds: string[];
+  poiBrands: string[];
+  battleZones: {
+    enabled: boolean;
+    baseBrand: string;
+    competitorBrands: string[];
+    rings: number;
+    catchment?: BattleZoneCatchment; // Missing on inputs saved before distance/drive-time catchments (= rings)
+  };
+  // Composite audiences: set operation over other audiences' districts (segment fields unused)
+  composition?: AudienceCompositionRecipe;
+}
+
+export interface ResolvedDistrict {
+  district: string;
+  centroid_lat: number;
+  centroid_lng: number;
+  agreementCount: number;
+  avgConfidence: number;
+  providers: string[]; // Agreeing (validation) or supporting (extension) providers
+  battleZoneCategory?: BattleZoneDistrict['category'];
+}
+
+export interface ResolvedSector {
+  sector: string;
+  district: string; // Parent district
+  centroid_lat: number;
+  centroid_lng: number;
+  agreementCount: number;
+  avgConfidence: number;
+  providers: string[];
+  households: number; // Rolled down from the district unless geo_sectors has a count
+}
+
+export interface AudienceResolution {
+  input: AudienceResolutionInput;
+  districts: ResolvedDistrict[];
+  districtIds: string[]; // Sorted, used for the checksum
+  sectors?: ResolvedSector[]; // Sector resolution only
+  sectorIds?: string[]; // Sector resolution only: sorted, used for the checksum instead
+  estimatedHouseholds: number;
+  checksum: string; // SHA-256 of the sorted district IDs (sector IDs at sector resolution)
+  validationResults?: ValidationResults;
+  providerImpact?: ExtensionResults;
+}
+
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.5;
+const DEFAULT_MIN_WEIGHTED_SCORE = 0.5;
+export const DEFAULT_BASE_PROVIDER = 'CCS';
+
+/**
+ * Fill defaults and sort list fields so equivalent inputs compare (and cache) equally.
+ * Accepts partial input, e.g. a request body from the export route.
+ */
+export function normalizeResolutionInput(
+  input: Partial<AudienceResolutionInput> & Pick<AudienceResolutionInput, 'mode' | 'segmentKey'>
+): AudienceResolutionInput {
+  const sorted = (values?: string[]) => Array.from(new Set(values || [])).sort();
+  const segmentKey = input.segmentKey.trim();
+  const includedSegmentKeys = sorted(input.includedSegmentKeys);
+
+  return {
+    mode: input.mode,
+    segmentKey,
+    providers: sorted(input.providers),
+    baseProvider: input.baseProvider?.trim() || DEFAULT_BASE_PROVIDER,
+    minAgreement: Math.max(1, Number(input.minAgreement) || 1),
+    agreementMode:
+      input.agreementMode === 'majority' || input.agreementMode === 'unanimous' ? input.agreementMode : 'threshold',
+    agreementScoring: input.agreementScoring === 'weighted' ? 'weighted' : 'count',
+    minWeightedScore: Math.min(1, Math.max(0, Number(input.minWeightedScore ?? DEFAULT_MIN_WEIGHTED_SCORE))),
+    // Sector agreement only exists in validation; extension always resolves districts
+    resolution: input.mode === 'validation' && input.resolution === 'sector' ? 'sector' : 'district',
+    confidenceThreshold: input.confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD,
+    // Extension always includes the anchor segment
+    includedSegmentKeys: includedSegmentKeys.includes(segmentKey)
+      ? includedSegmentKeys
+      : [segmentKey, ...includedSegmentKeys],
+    tvRegions: sorted(input.tvRegions),
+    poiIds: sorted(input.poiIds),
+    poiBrands: sorted(input.poiBrands),
+    battleZones: {
+      enabled: Boolean(input.battleZones?.enabled && input.battleZones.baseBrand),
+      baseBrand: input.battleZones?.baseBrand || '',
+      competitorBrands: sorted(input.battleZones?.competitorBrands),
+      rings: input.battleZones?.rings || 0,
+      catchment: normalizeCatchment(input.battleZones?.catchment),
+    },
+    ...(input.composition
+      ? {
+          composition: {
+            operation: input.composition.operation,
+            // Order is kept: 'exclude' subtracts the rest from the first source
+            sourceAudienceIds: Array.from(new Set(input.composition.sourceAudienceIds)),
+          },
+        }
+      : {}),
+  };
+}
+
+/**
+ * Deterministic segment key for composite audiences (mirrors anchor_<audienceId>)
+ */
+export function compositeSegmentKey(audienceId: string): string {
+  return `composite_${audienceId}`;
+}
+
+/**
+ * Build a resolution input for a composite audience from its stored recipe
+ */
+export function compositionResolutionInput(
+  audienceId: string,
+  recipe: AudienceCompositionRecipe
+): AudienceResolutionInput {
+  return normalizeResolutionInput({
+    mode: 'extension',
+    segmentKey: compositeSegmentKey(audienceId),
+    composition: { operation: recipe.operation, sourceAudienceIds: recipe.sourceAudienceIds },
+  });
+}
+
+/**
+ * Build a resolution input from (live or persisted) builder state.
+ * Returns null when no segment key is available.
+ */
+export function resolutionInputFromBuilderState(
+  state: PersistedBuilderState,
+  fallbackSegmentKey?: string | null
+): AudienceResolutionInput | null {
+  const segmentKey = state.selectedSegmentKey || fallbackSegmentKey;
+  if (!segmentKey) return null;
+  const mode = state.constructionMode || 'extension';
+  // Extension always builds on the CCS anchor; the base universe is a validation choice
+  const baseProvider = (mode === 'validation' && state.baseProvider) || DEFAULT_BASE_PROVIDER;
+  return {
+    mode,
+    segmentKey,
+    // Base provider is always part of the build
+    providers: [baseProvider, ...(state.selectedProviders || [])],
+    baseProvider,
+    minAgreement: state.validationMinAgreement || 1,
+    agreementMode: state.validationAgreementMode || 'threshold',
+    agreementScoring: state.validationScoring || 'count',
+    minWeightedScore: state.validationMinWeightedScore ?? DEFAULT_MIN_WEIGHTED_SCORE,
+    resolution: state.geoResolution || 'district',
+    confidenceThreshold: state.extensionConfidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD,
+    // MVP: Extension mode builds from the selected segment only
+    includedSegmentKeys: [segmentKey],
+    tvRegions: state.tvRegions || [],
+    poiIds: state.selectedPoiIds || [],
+    poiBrands: state.selectedPoiBrands || [],
+    battleZones: {
+      enabled: Boolean(state.battleZonesEnabled),
+      baseBrand: state.battleZoneBaseBrand || '',
+      competitorBrands: state.battleZoneCompetitorBrands || [],
+      rings: state.battleZoneRings || 0,
+      catchment: normalizeCatchment(state.battleZoneCatchment),
+    },
+  };
+}
+
+/**
+ * Stable SHA-256 over the sorted, de-duplicated district IDs.
+ * Uses Web Crypto so the same code runs in the browser and in route handlers.
+ */
+export async function computeDistrictChecksum(districtIds: string[]): Promise<string> {
+  const canonical = Array.from(new Set(districtIds)).sort().join(',');
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Resolve an audience to its district set.
+ * Single source of truth for Build & Explore and the export route: pass the server
+ * client from route handlers, omit it in the browser.
+ *
+ * POI and battle-zone selections are map overlays, not filters: they do not change the
+ * district set, but battle-zone categories are attached to matching districts.
+ */
+export async function resolveAudience(
+  rawInput: AudienceResolutionInput,
+  client?: TypedSupabaseClient
+): Promise<AudienceResolution> {
+  return resolveNormalizedInput(normalizeResolutionInput(rawInput), client, []);
+}
+
+/**
+ * ancestry: composite audiences currently being resolved, used to reject cycles
+ */
+async function resolveNormalizedInput(
+  input: AudienceResolutionInput,
+  client: TypedSupabaseClient | undefined,
+  ancestry: string[]
+): Promise<AudienceResolution> {
+  if (input.composition) {
+    return resolveComposition(input, input.composition, client || createClient(), ancestry);
+  }
+
+  const providers = input.providers.length > 0 ? input.providers : undefined;
+  const tvRegions = input.tvRegions.length > 0 ? input.tvRegions : undefined;
+
+  let districts: ResolvedDistrict[] = [];
+  let sectors: ResolvedSector[] | undefined;
+  let estimatedHouseholds = 0;
+  let validationResults: ValidationResults | undefined;
+  let providerImpact: ExtensionResults | undefined;
+
+  if (input.mode === 'validation') {
+    validationResults = await getValidationResults(
+      {
+        segmentKey: input.segmentKey,
+        minAgreement: input.minAgreement,
+        baseProvider: input.baseProvider,
+        agreementMode: input.agreementMode,
+        agreementScoring: input.agreementScoring,
+        minWeightedScore: input.minWeightedScore,
+        providers,
+        tvRegions,
+        resolution: input.resolution,
+      },
+      client
+    );
+    districts = validationResults.includedDistricts.map((d) => ({
+      district: d.district,
+      centroid_lat: d.centroid_lat,
+      centroid_lng: d.centroid_lng,
+      agreementCount: d.agreementCount,
+      avgConfidence: d.avgConfidence,
+      providers: d.agreeingProviders,
+    }));
+    sectors = validationResults.includedSectors?.map((s) => ({
+      sector: s.sector,
+      district: s.district,
+      centroid_lat: s.centroid_lat,
+      centroid_lng: s.centroid_lng,
+      agreementCount: s.agreementCount,
+      avgConfidence: s.avgConfidence,
+      providers: s.agreeingProviders,
+      households: s.households,
+    }));
+    estimatedHouseholds = validationResults.totals.estimatedHouseholds;
+  } else {
+    providerImpact = await getProviderImpact(
+      {
+        anchorKey: input.segmentKey,
+        includedSegmentKeys: input.includedSegmentKeys,
+        confidenceThreshold: input.confidenceThreshold,
+        includeAnchorOnly: true,
+        providers,
+        tvRegions,
+      },
+      client
+    );
+    districts = providerImpact.includedDistricts.map((d) => ({
+      district: d.district,
+      centroid_lat: d.centroid_lat,
+      centroid_lng: d.centroid_lng,
+      agreementCount: d.agreementCount,
+      avgConfidence: d.avgConfidence,
+      providers: d.supportingProviders,
+    }));
+    estimatedHouseholds = providerImpact.totals.estimatedHouseholds;
+  }
+
+  if (input.battleZones.enabled) {
+    try {
+      const battleZoneDistricts = await getBattleZoneDistricts(
+        {
+          baseBrand: input.battleZones.baseBrand,
+          competitorBrands: input.battleZones.competitorBrands,
+          rings: input.battleZones.rings,
+          catchment: input.battleZones.catchment,
+          tvRegions,
+        },
+        client
+      );
+      const categoryByDistrict = new Map(
+        battleZoneDistricts.map((d) => [d.district.trim().toUpperCase().replace(/\s+/g, ''), d.category])
+      );
+      districts = districts.map((d) => ({
+        ...d,
+        battleZoneCategory: categoryByDistrict.get(d.district),
+      }));
+    } catch (error) {
+      console.warn('[audienceResolution] Failed to annotate battle zones:', error);
+    }
+  }
+
+  const districtIds = districts.map((d) => d.district).sort();
+  const sectorIds = sectors?.map((s) => s.sector).sort();
+  // A sector audience can change within unchanged districts, so it is checksummed on sectors
+  const checksum = await computeDistrictChecksum(sectorIds || districtIds);
+
+  return {
+    input,
+    districts,
+    districtIds,
+    ...(sectors ? { sectors, sectorIds } : {}),
+    estimatedHouseholds,
+    checksum,
+    validationResults,
+    providerImpact,
+  };
+}
+
+/**
+ * Resolve a composite audience: resolve every source as saved, then apply the set operation.
+ * Sources are re-resolved each time, so the composite follows changes to them.
+ */
+async function resolveComposition(
+  input: AudienceResolutionInput,
+  recipe: AudienceCompositionRecipe,
+  supabase: TypedSupabaseClient,
+  ancestry: string[]
+): Promise<AudienceResolution> {
+  const sources = await Promise.all(
+    recipe.sourceAudienceIds.map((sourceId) => resolveSavedAudienceWithin(sourceId, supabase, ancestry))
+  );
+
+  const unresolved = recipe.sourceAudienceIds.filter((_, index) => !sources[index]);
+  if (unresolved.length > 0) {
+    throw new Error(`Source audiences could not be resolved (deleted or no segment selected): ${unresolved.join(', ')}`);
+  }
+
+  const districts = combineDistricts(
+    recipe.operation,
+    sources.map((source) => source!.districts)
+  );
+  const districtIds = districts.map((d) => d.district);
+  const households = await getDistrictHouseholds(districtIds, supabase);
+  const estimatedHouseholds = districtIds.reduce((sum, d) => sum + (households.get(d) || 0), 0);
+
+  return {
+    input,
+    districts,
+    districtIds,
+    estimatedHouseholds,
+    checksum: await computeDistrictChecksum(districtIds),
+  };
+}
+
+/**
+ * Resolve a saved audience from its persisted builder state and construction settings,
+ * or from its composition recipe for composite audiences.
+ * Returns null when the audience has no segment to resolve yet.
+ */
+export async function resolveSavedAudience(
+  audienceId: string,
+  client?: TypedSupabaseClient
+): Promise<AudienceResolution | null> {
+  return resolveSavedAudienceWithin(audienceId, client || createClient(), []);
+}
+
+async function resolveSavedAudienceWithin(
+  audienceId: string,
+  supabase: TypedSupabaseClient,
+  ancestry: string[]
+): Promise<AudienceResolution | null> {
+  if (ancestry.includes(audienceId)) {
+    throw new Error(`Audience composition cycle: ${[...ancestry, audienceId].join(' -> ')}`);
+  }
+
+  const [composition, input] = await Promise.all([
+    getComposition(audienceId, supabase),
+    getSavedResolutionInput(audienceId, supabase),
+  ]);
+
+  if (composition) {
+    return resolveNormalizedInput(
+      compositionResolutionInput(audienceId, composition),
+      supabase,
+      [...ancestry, audienceId]
+    );
+  }
+
+  if (!input) return null;
+
+  return resolveNormalizedInput(input, supabase, [...ancestry, audienceId]);
+}
+
+/**
+ * Normalized resolution input from an audience's persisted builder state and construction
+ * settings (ignores compositions). Returns null when the audience has no segment yet.
+ */
+export async function getSavedResolutionInput(
+  audienceId: string,
+  client?: TypedSupabaseClient
+): Promise<AudienceResolutionInput | null> {
+  const supabase = client || createClient();
+  const [settingsResult, builderStateResult] = await Promise.all([
+    supabase.from('audience_construction_settings').select('*').eq('audience_id', audienceId).maybeSingle(),
+    supabase.from('audience_builder_state').select('state').eq('audience_id', audienceId).maybeSingle(),
+  ]);
+
+  if (settingsResult.error) throw settingsResult.error;
+  if (builderStateResult.error) throw builderStateResult.error;
+
+  const settings = settingsResult.data;
+  const builderState = (builderStateResult.data?.state as PersistedBuilderState) || {};
+
+  const input = resolutionInputFromBuilderState(
+    {
+      ...builderState,
+      constructionMode: settings?.construction_mode || builderState.constructionMode,
+      validationAgreementMode: settings?.validation_agreement_mode || builderState.validationAgreementMode,
+    },
+    settings?.audience_intent
+  );
+  return input ? normalizeResolutionInput(input) : null;
+}
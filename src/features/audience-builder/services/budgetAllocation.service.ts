@@ -0,0 +1,31 @@
+import { TypedSupabaseClient } from '@/lib/supabase/client';
+import { getDistrictHouseholds } from '../api/geoDistricts';
+import { getTvRegionsByDistrict } from '../api/tvRegions';
+import { AllocationDistrict } from '../utils/budgetAllocation';
+
+export interface AllocationBase {
+  districts: AllocationDistrict[];
+  regionNames: Map<string, string>;
+}
+
+/**
+ * Households (geo_districts, fallback 2,500) and TV regions for the audience's districts
+ */
+export async function getAllocationBase(
+  districtIds: string[],
+  client?: TypedSupabaseClient
+): Promise<AllocationBase> {
+  const [households, { regionsByDistrict, regionNames }] = await Promise.all([
+    getDistrictHouseholds(districtIds, client),
+    getTvRegionsByDistrict(districtIds, client),
+  ]);
+
+  return {
+    districts: districtIds.map((district) => ({
+      district,
+      households: households.get(district) || 0,
+      regionKeys: regionsByDistrict.get(district) || [],
+    })),
+    regionNames,
+  };
+}
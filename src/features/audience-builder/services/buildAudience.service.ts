@@ -4,6 +4,7 @@ import * as segmentsApi from '../api/segments';
 import * as constructionApi from '../api/construction';
 import * as audiencesApi from '../api/audiences';
 import { ConstructionSettings } from '../types/signals';
+import { createAudienceSnapshot } from './snapshot.service';
 
 /**
  * Build audience pipeline - orchestrates validation/extension analysis
@@ -225,6 +226,13 @@ export async function buildAudience(audienceId: string, modeOverride?: 'validati
   await constructionApi.updateConstructionSettings(audienceId, {
     last_run_at: new Date().toISOString(),
   });
+
+  // Record an immutable snapshot of this build
+  try {
+    await createAudienceSnapshot(audienceId, 'build');
+  } catch (error) {
+    console.warn('Failed to record build snapshot (non-critical):', error);
+  }
 }
 
 /**
@@ -272,8 +280,8 @@ async function populateAgreementData(audienceId: string, validatedProviders: str
       }
     }
 
-    const { error: updateError } = await (supabase
-      .from('geo_units') as any)
+    const { error: updateError } = await supabase
+      .from('geo_units')
       .update({
         agreement_count: agreementCount,
         agreeing_providers: agreeingProviders,
@@ -335,8 +343,8 @@ async function upsertAnchorSegment(
   };
 
   // Use upsert with onConflict to handle insert/update atomically
-  const { data, error } = await (supabase
-    .from('audience_segments') as any)
+  const { data, error } = await supabase
+    .from('audience_segments')
     .upsert(payload as any, {
       onConflict: 'audience_id,segment_type,provider,segment_key',
     })
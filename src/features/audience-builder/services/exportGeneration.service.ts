@@ -0,0 +1,840 @@
+import type { Feature, Geometry } from 'geojson';
+import { TypedSupabaseClient } from '@/lib/supabase/client';
+import { Database } from '@/lib/supabase/database.types';
+import { getSelectedSegmentKeys } from '../api/selectedSegments';
+import { getComposition, AudienceComposition } from '../api/compositions';
+import { getAnchorSegmentKey } from '../api/segments';
+import { getDistrictBoundaries } from '../api/districtBoundaries';
+import { getDistrictHouseholds } from '../api/geoDistricts';
+import { EXPORT_BOUNDARY_ZOOM } from '../utils/districtBoundaries';
+import { buildH3Activation, H3ActivationResult, normalizeH3Resolution } from '../utils/h3Activation';
+import { ValidationResults } from '../api/validationResults';
+import { ExtensionResults } from '../api/extensionResults';
+import {
+  resolveAudience,
+  normalizeResolutionInput,
+  compositeSegmentKey,
+  compositionResolutionInput,
+  AudienceResolution,
+  AudienceResolutionInput,
+  ResolvedDistrict,
+} from './audienceResolution.service';
+import { createAudienceSnapshot } from './snapshot.service';
+import { loadPlanningExportData, PlanningDistrictRow, PlanningExportData } from './planningData.service';
+import { buildPlanningWorkbook, XLSX_CONTENT_TYPE } from './planningWorkbook.service';
+import { buildAudienceReport, HTML_CONTENT_TYPE, PDF_CONTENT_TYPE, renderReportPdf } from './audienceReport.service';
+
+/**
+ * Request body of /api/exports/generate, stored on queued export jobs so they can be retried
+ */
+export interface ExportGenerationParams {
+  audienceId: string;
+  exportType: 'csv' | 'geojson' | 'xlsx' | 'html' | 'pdf';
+  activationTarget?: string;
+  h3Resolution?: number; // H3 cell resolution for the h3 target (optional)
+  recommendedThreshold?: number;
+  validationMinAgreement?: number; // From context (optional, falls back to DB)
+  includedSegmentKeys?: string[]; // From context (optional, falls back to DB)
+  segmentKey?: string; // From context (optional, falls back to DB)
+  resolution?: Partial<AudienceResolutionInput>; // Full builder state from context (optional)
+  expectedChecksum?: string; // District checksum the client resolved (optional)
+}
+
+/**
+ * Metadata written into every export file (and returned with previews)
+ */
+export interface ExportMetadata {
+  mode: AudienceResolutionInput['mode'];
+  anchor_segment_key: string;
+  included_segments: ExportSegmentSummary[];
+  last_built_at: string | null;
+  activation_target: string;
+  recommended_threshold: number;
+  export_generated_at: string;
+  resolution: AudienceResolutionInput;
+  geo_resolution: AudienceResolutionInput['resolution'];
+  district_count: number;
+  sector_count?: number; // Sector resolution only
+  estimated_households: number;
+  district_checksum: {
+    algorithm: 'sha256';
+    value: string;
+    client_value: string | null;
+    matches_client: boolean | null;
+  };
+  composition?: { operation: AudienceComposition['operation']; source_audience_ids: string[] };
+  // Validation mode: how agreement was scored
+  base_provider?: string;
+  agreement_scoring?: ValidationResults['agreementScoring'];
+  agreement_mode?: ValidationResults['agreementMode'];
+  required_agreement?: number;
+  min_weighted_score?: number; // Weighted scoring only
+  provider_weights?: ValidationResults['providerWeights']; // Weighted scoring only
+  min_agreement?: number; // Count scoring only
+  // Extension mode
+  provider_impact?: ExtensionResults['providerStats'];
+  totals?: ExtensionResults['totals'];
+  // Real exports only (previews record no snapshot)
+  snapshot_id?: string;
+  snapshot_version?: number;
+  h3?: {
+    resolution: number;
+    cell_count: number;
+    polygon_filled_areas: number;
+    radius_filled_areas: number;
+  };
+}
+
+export interface ExportSegmentSummary {
+  segment_key: string;
+  segment_label: string;
+  provider: string;
+  origin: string | null;
+}
+
+/**
+ * One H3 cell of an H3 activation export
+ */
+export interface ExportH3Cell {
+  h3_index: string;
+  h3_resolution: number;
+  providers_agreeing: number;
+  confidence_level: ConfidenceTier;
+  avg_confidence: number;
+  agreeing_providers: string[];
+  households: number;
+  source_areas: string[];
+  lat: number;
+  lng: number;
+}
+
+/**
+ * GeoJSON feature, H3 cell (JSON exports) or district row (XLSX, reports)
+ */
+export type ExportFeature = Feature | ExportH3Cell | PlanningDistrictRow;
+
+export interface GeneratedExport {
+  content: string | Buffer; // Buffer for XLSX workbooks and PDF reports
+  contentType: string;
+  filename: string;
+  metadata: ExportMetadata;
+  features: ExportFeature[];
+  rowCount: number;
+  snapshotId: string | null;
+  h3Resolution: number | null;
+}
+
+/**
+ * A generation failure with the HTTP status the synchronous (preview) path responds with
+ */
+export class ExportGenerationError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 500) {
+    super(message);
+    this.name = 'ExportGenerationError';
+    this.status = status;
+  }
+}
+
+type ConfidenceTier = 'high' | 'medium' | 'low';
+
+/**
+ * A resolved district or sector in the row shape the export writers share
+ */
+interface ExportGeoUnit {
+  id: string;
+  audience_id: string;
+  geo_type: string;
+  geo_id: string;
+  district?: string; // Sector resolution only: parent district
+  households?: number; // Sector resolution only
+  score: number;
+  avg_confidence: number;
+  confidence_tier: ConfidenceTier;
+  drivers: {
+    signals: Array<{ signal_type: string; contribution: number; inferred?: boolean }>;
+    agreement_count: number;
+    supporting_providers: string[];
+  };
+  agreement_count: number;
+  agreeing_providers: string[];
+  battle_zone_category?: ResolvedDistrict['battleZoneCategory'];
+  centroid_lat: number;
+  centroid_lng: number;
+}
+
+function confidenceTier(avgConfidence: number): ConfidenceTier {
+  return avgConfidence >= 0.7 ? 'high' : avgConfidence >= 0.4 ? 'medium' : 'low';
+}
+
+export type ExportProgressCallback = (progress: number, message: string) => Promise<void> | void;
+
+function errorDetail(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return String(error);
+}
+
+/**
+ * Load district polygons keyed by district code: imported boundaries first, then
+ * geo_districts.geometry.
+ * Districts without a polygon are omitted.
+ */
+async function getDistrictGeometries(
+  supabase: TypedSupabaseClient,
+  districtIds: string[]
+): Promise<Map<string, Geometry>> {
+  // Imported boundary polygons (finest detail level) take precedence over geo_districts.geometry
+  const geometryByDistrict = new Map<string, Geometry>(
+    await getDistrictBoundaries(districtIds, EXPORT_BOUNDARY_ZOOM, supabase)
+  );
+  const remaining = districtIds.filter((district) => !geometryByDistrict.has(district));
+  const batchSize = 1000; // Supabase limit is typically 1000 for .in()
+
+  for (let i = 0; i < remaining.length; i += batchSize) {
+    const batch = remaining.slice(i, i + batchSize);
+    const { data, error } = await supabase
+      .from('geo_districts')
+      .select('district, geometry')
+      .in('district', batch);
+
+    if (error) {
+      console.warn('[exports/generate] Error fetching district geometries:', error);
+      continue;
+    }
+    for (const row of data || []) {
+      if (row.geometry) {
+        geometryByDistrict.set(row.district, row.geometry as unknown as Geometry);
+      }
+    }
+  }
+
+  return geometryByDistrict;
+}
+
+/**
+ * Planning deliverables (XLSX workbook, HTML/PDF report) list districts and are never H3 cell lists
+ */
+function isPlanningExport(exportType: ExportGenerationParams['exportType']): boolean {
+  return exportType === 'xlsx' || exportType === 'html' || exportType === 'pdf';
+}
+
+const RESOLUTION_LIST_FIELDS = ['providers', 'includedSegmentKeys', 'tvRegions', 'poiIds', 'poiBrands'] as const;
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Shape check for a resolution sent in a request body (builder state from the client).
+ * Fields are optional, but present ones must have the types normalizeResolutionInput expects.
+ */
+export function isValidResolutionRequest(value: unknown): value is Partial<AudienceResolutionInput> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+  const input = value as Record<string, unknown>;
+  if (input.segmentKey != null && typeof input.segmentKey !== 'string') return false;
+  if (input.baseProvider != null && typeof input.baseProvider !== 'string') return false;
+  if (input.mode != null && input.mode !== 'validation' && input.mode !== 'extension') return false;
+  if (RESOLUTION_LIST_FIELDS.some((field) => input[field] != null && !isStringList(input[field]))) return false;
+
+  const battleZones = input.battleZones;
+  if (battleZones != null) {
+    if (typeof battleZones !== 'object' || Array.isArray(battleZones)) return false;
+    const { competitorBrands } = battleZones as Record<string, unknown>;
+    if (competitorBrands != null && !isStringList(competitorBrands)) return false;
+  }
+  return true;
+}
+
+export interface ExportResolutionPlan {
+  input: AudienceResolutionInput;
+  anchorKey: string;
+  composition: AudienceComposition | null;
+  constructionSettings: Database['public']['Tables']['audience_construction_settings']['Row'] | null;
+  isValidationMode: boolean;
+}
+
+/**
+ * Build the resolution input for an export or platform push from the request and the saved
+ * audience. Composite audiences resolve from their saved recipe; request filters only apply
+ * to segment audiences. Invalid request fields are a 400, a missing anchor segment a 422.
+ */
+export async function prepareExportResolution(
+  supabase: TypedSupabaseClient,
+  params: Pick<
+    ExportGenerationParams,
+    'audienceId' | 'validationMinAgreement' | 'includedSegmentKeys' | 'segmentKey' | 'resolution'
+  >
+): Promise<ExportResolutionPlan> {
+  const {
+    audienceId,
+    validationMinAgreement,
+    includedSegmentKeys,
+    segmentKey: requestedSegmentKey,
+    resolution: requestedResolution,
+  } = params;
+
+  if (
+    (requestedResolution != null && !isValidResolutionRequest(requestedResolution)) ||
+    (requestedSegmentKey != null && typeof requestedSegmentKey !== 'string') ||
+    (includedSegmentKeys != null && !isStringList(includedSegmentKeys))
+  ) {
+    throw new ExportGenerationError('Invalid resolution in request', 400);
+  }
+
+  // Get construction settings first (needed to determine mode)
+  const { data: constructionSettings } = await supabase
+    .from('audience_construction_settings')
+    .select('*')
+    .eq('audience_id', audienceId)
+    .single();
+
+  // Composite audiences resolve from their stored set-operation recipe, not a segment
+  let composition: AudienceComposition | null;
+  try {
+    composition = await getComposition(audienceId, supabase);
+  } catch (error) {
+    console.error('Failed to load audience composition:', error);
+    throw new ExportGenerationError(`Failed to load audience composition: ${errorDetail(error)}`);
+  }
+
+  let anchorKey: string | null;
+  try {
+    anchorKey = composition
+      ? compositeSegmentKey(audienceId)
+      : await getAnchorSegmentKey(
+          audienceId,
+          requestedResolution?.segmentKey || requestedSegmentKey,
+          constructionSettings?.audience_intent,
+          supabase
+        );
+  } catch (error) {
+    console.error('Failed to load anchor segment:', error);
+    throw new ExportGenerationError(`Failed to load anchor segment: ${errorDetail(error)}`);
+  }
+  if (!anchorKey) {
+    throw new ExportGenerationError(
+      'No anchor segment configured for this audience. Select a segment in Audience Selection before exporting.',
+      422
+    );
+  }
+
+  const isValidationMode = !composition && (requestedResolution?.mode || constructionSettings?.construction_mode) === 'validation';
+
+  // Extension segments: builder state, then request keys, then saved selection
+  let selectedKeys: string[] = requestedResolution?.includedSegmentKeys || includedSegmentKeys || [];
+  if (!isValidationMode && !composition && selectedKeys.length === 0) {
+    try {
+      selectedKeys = await getSelectedSegmentKeys(audienceId);
+    } catch (error) {
+      console.error('Failed to load selected segments:', error);
+    }
+  }
+
+  // Resolve through the same service as the Build & Explore map so the file matches what was shown.
+  // A recipe only ever comes from the audience's saved composition row, never from the request.
+  const { composition: _requestedComposition, ...requestedFilters } = requestedResolution || {};
+  const input = composition
+    ? compositionResolutionInput(audienceId, composition)
+    : normalizeResolutionInput({
+        ...requestedFilters,
+        mode: isValidationMode ? 'validation' : 'extension',
+        segmentKey: anchorKey,
+        // Use minAgreement from context if provided, otherwise fall back to DB (default 1)
+        minAgreement: requestedResolution?.minAgreement ?? validationMinAgreement ?? constructionSettings?.validation_min_agreement ?? 1,
+        agreementMode: requestedResolution?.agreementMode ?? constructionSettings?.validation_agreement_mode ?? 'threshold',
+        includedSegmentKeys: selectedKeys,
+      });
+
+  return { input, anchorKey, composition, constructionSettings, isValidationMode };
+}
+
+/**
+ * Resolve the audience and build the export file. Previews skip the snapshot; every
+ * stage reports progress so queued jobs can show where they are.
+ */
+export async function generateExport(
+  params: ExportGenerationParams,
+  options: {
+    client: TypedSupabaseClient;
+    preview?: boolean;
+    onProgress?: ExportProgressCallback;
+    userId?: string; // Owner recorded on the snapshot when running without a session
+  }
+): Promise<GeneratedExport> {
+  const { client: supabase, preview = false, userId } = options;
+  const onProgress: ExportProgressCallback = options.onProgress || (() => {});
+  const {
+    audienceId,
+    exportType,
+    activationTarget = 'h3',
+    h3Resolution: requestedH3Resolution,
+    recommendedThreshold = 50,
+    includedSegmentKeys,
+    expectedChecksum,
+  } = params;
+
+  await onProgress(5, 'Loading audience settings');
+  const {
+    input: resolutionInput,
+    anchorKey,
+    composition,
+    constructionSettings,
+    isValidationMode,
+  } = await prepareExportResolution(supabase, params);
+
+  await onProgress(10, 'Resolving audience districts');
+  let resolution: AudienceResolution;
+  try {
+    resolution = await resolveAudience(resolutionInput, supabase);
+  } catch (error) {
+    console.error('Failed to resolve audience districts:', error);
+    throw new ExportGenerationError(`Failed to resolve audience districts: ${errorDetail(error)}`);
+  }
+
+  if (expectedChecksum && expectedChecksum !== resolution.checksum) {
+    console.warn('[exports/generate] District checksum differs from client resolution', {
+      audienceId,
+      expectedChecksum,
+      checksum: resolution.checksum,
+    });
+  }
+
+  await onProgress(40, 'Collecting segment metadata');
+
+  // Sector resolution exports the included sectors instead of their districts
+  const sectorResolution = Boolean(resolution.sectors);
+  const battleZoneCategoryByDistrict = new Map(
+    resolution.districts.map((d) => [d.district, d.battleZoneCategory])
+  );
+
+  // Convert resolved districts (or sectors) to geo_units format for compatibility
+  const geoUnits: ExportGeoUnit[] = resolution.sectors ? resolution.sectors.map((s) => ({
+    id: `sector_${s.sector}`,
+    audience_id: audienceId,
+    geo_type: 'postcode_sector',
+    geo_id: s.sector,
+    district: s.district,
+    households: s.households,
+    score: s.avgConfidence * 100,
+    avg_confidence: s.avgConfidence,
+    confidence_tier: confidenceTier(s.avgConfidence),
+    drivers: {
+      signals: [],
+      agreement_count: s.agreementCount,
+      supporting_providers: s.providers,
+    },
+    agreement_count: s.agreementCount,
+    agreeing_providers: s.providers,
+    battle_zone_category: battleZoneCategoryByDistrict.get(s.district),
+    centroid_lat: s.centroid_lat,
+    centroid_lng: s.centroid_lng,
+  })) : resolution.districts.map((d) => ({
+    id: `district_${d.district}`,
+    audience_id: audienceId,
+    geo_type: 'postcode_sector',
+    geo_id: d.district,
+    score: d.avgConfidence * 100,
+    avg_confidence: d.avgConfidence,
+    confidence_tier: confidenceTier(d.avgConfidence),
+    drivers: {
+      signals: [],
+      agreement_count: d.agreementCount,
+      supporting_providers: d.providers,
+    },
+    agreement_count: d.agreementCount,
+    agreeing_providers: d.providers,
+    battle_zone_category: d.battleZoneCategory,
+    centroid_lat: d.centroid_lat,
+    centroid_lng: d.centroid_lng,
+  }));
+
+  // Get included segments for metadata
+  // Use includedSegmentKeys from context if provided, otherwise query DB
+  let segments: ExportSegmentSummary[] = [];
+
+  if (isValidationMode) {
+    // Validation mode: get segments from audience_segments
+    if (includedSegmentKeys && includedSegmentKeys.length > 0) {
+      const { data: segs = [] } = await supabase
+        .from('audience_segments')
+        .select('*')
+        .eq('audience_id', audienceId)
+        .in('segment_key', includedSegmentKeys);
+      segments = segs || [];
+    } else {
+      const { data: segs = [] } = await supabase
+        .from('audience_segments')
+        .select('*')
+        .eq('audience_id', audienceId)
+        .eq('is_selected', true);
+      segments = segs || [];
+    }
+  } else if (!composition) {
+    // Extension mode: segments come from the resolved segment keys
+    const { data: segLibs = [] } = await supabase
+      .from('segment_library')
+      .select('segment_key, label, provider')
+      .in('segment_key', resolution.input.includedSegmentKeys)
+      .eq('is_active', true);
+    segments = (segLibs || []).map((s) => ({
+      segment_key: s.segment_key,
+      segment_label: s.label,
+      provider: s.provider,
+      origin: 'suggested',
+    }));
+  }
+
+  // Build metadata
+  const metadata: ExportMetadata = {
+    mode: resolution.input.mode,
+    anchor_segment_key: anchorKey,
+    included_segments: segments.map(s => ({
+      segment_key: s.segment_key,
+      segment_label: s.segment_label,
+      provider: s.provider,
+      origin: s.origin,
+    })),
+    last_built_at: constructionSettings?.last_run_at || null,
+    activation_target: activationTarget,
+    recommended_threshold: recommendedThreshold,
+    export_generated_at: new Date().toISOString(),
+    resolution: resolution.input,
+    geo_resolution: resolution.input.resolution,
+    district_count: resolution.districtIds.length,
+    ...(resolution.sectorIds ? { sector_count: resolution.sectorIds.length } : {}),
+    estimated_households: resolution.estimatedHouseholds,
+    district_checksum: {
+      algorithm: 'sha256',
+      value: resolution.checksum,
+      client_value: expectedChecksum || null,
+      matches_client: expectedChecksum ? expectedChecksum === resolution.checksum : null,
+    },
+  };
+
+  if (composition) {
+    metadata.composition = {
+      operation: composition.operation,
+      source_audience_ids: composition.sourceAudienceIds,
+    };
+  }
+
+  // Record how validation agreement was scored (count of providers vs weighted trust)
+  if (resolution.validationResults) {
+    metadata.base_provider = resolution.validationResults.baseProvider;
+    metadata.agreement_scoring = resolution.validationResults.agreementScoring;
+    metadata.agreement_mode = resolution.validationResults.agreementMode;
+    metadata.required_agreement = resolution.validationResults.requiredAgreement;
+    if (resolution.validationResults.agreementScoring === 'weighted') {
+      metadata.min_weighted_score = resolution.input.minWeightedScore;
+      metadata.provider_weights = resolution.validationResults.providerWeights;
+    } else {
+      metadata.min_agreement = resolution.input.minAgreement;
+    }
+  }
+
+  // Add provider impact for Extension mode
+  if (resolution.providerImpact) {
+    metadata.provider_impact = resolution.providerImpact.providerStats;
+    metadata.totals = resolution.providerImpact.totals;
+  }
+
+  // Record the snapshot this export is generated from (immutable, linked from the exports row).
+  // Previews are not exports, so they don't create snapshots.
+  let snapshotId: string | null = null;
+  if (!preview) {
+    await onProgress(50, 'Recording audience snapshot');
+    try {
+      const snapshot = await createAudienceSnapshot(audienceId, 'export', { resolution, client: supabase, userId });
+      snapshotId = snapshot.id;
+      metadata.snapshot_id = snapshot.id;
+      metadata.snapshot_version = snapshot.version;
+    } catch (error) {
+      console.error('Failed to record export snapshot:', error);
+      throw new ExportGenerationError(`Failed to record audience snapshot: ${errorDetail(error)}`);
+    }
+  }
+
+  // H3 target: cover the included districts (or sectors) with cells instead of listing areas.
+  // Planning workbooks and reports always list districts.
+  let h3Activation: H3ActivationResult | null = null;
+  if (activationTarget === 'h3' && !isPlanningExport(exportType)) {
+    await onProgress(60, 'Covering areas with H3 cells');
+    const h3Resolution = normalizeH3Resolution(requestedH3Resolution);
+    const [geometryByDistrict, householdsByDistrict] = sectorResolution
+      ? [new Map<string, Geometry>(), new Map<string, number>()]
+      : await Promise.all([
+          getDistrictGeometries(supabase, resolution.districtIds),
+          getDistrictHouseholds(resolution.districtIds, supabase),
+        ]);
+    h3Activation = buildH3Activation(
+      geoUnits.map((unit) => ({
+        geoId: unit.geo_id,
+        district: unit.district || unit.geo_id,
+        centroid_lat: unit.centroid_lat,
+        centroid_lng: unit.centroid_lng,
+        agreementCount: unit.agreement_count || 0,
+        avgConfidence: unit.avg_confidence || 0,
+        providers: unit.agreeing_providers || [],
+        households: sectorResolution ? unit.households || 0 : householdsByDistrict.get(unit.geo_id) || 0,
+      })),
+      geometryByDistrict,
+      h3Resolution
+    );
+    metadata.h3 = {
+      resolution: h3Activation.resolution,
+      cell_count: h3Activation.cells.length,
+      polygon_filled_areas: h3Activation.polygonUnits,
+      radius_filled_areas: h3Activation.radiusUnits,
+    };
+  }
+
+  await onProgress(75, 'Writing export file');
+
+  // Calculate inclusion based on threshold
+  const threshold = recommendedThreshold || 50;
+
+  // Generate content
+  let content: string | Buffer;
+  let features: ExportFeature[] = [];
+  if (isPlanningExport(exportType)) {
+    let planningData: PlanningExportData;
+    try {
+      planningData = await loadPlanningExportData(audienceId, resolution, metadata, supabase);
+    } catch (error) {
+      console.error('Failed to load planning data:', error);
+      throw new ExportGenerationError(`Failed to load audience brief: ${errorDetail(error)}`);
+    }
+
+    if (exportType === 'xlsx') {
+      const workbook = await buildPlanningWorkbook(planningData);
+      content = workbook.content;
+      features = workbook.rows;
+    } else {
+      const report = await buildAudienceReport(planningData, supabase);
+      features = report.rows;
+      content = report.html;
+      // Previews show the HTML; only real exports are printed
+      if (exportType === 'pdf' && !preview) {
+        await onProgress(85, 'Rendering PDF report');
+        try {
+          content = await renderReportPdf(report.html);
+        } catch (error) {
+          console.error('Failed to render PDF report:', error);
+          throw new ExportGenerationError(`Failed to render PDF report: ${errorDetail(error)}`);
+        }
+      }
+    }
+  } else if (h3Activation) {
+    const cells = h3Activation.cells.map((cell): ExportH3Cell => ({
+      h3_index: cell.h3,
+      h3_resolution: h3Activation!.resolution,
+      providers_agreeing: cell.agreementCount,
+      confidence_level: confidenceTier(cell.avgConfidence),
+      avg_confidence: Number(cell.avgConfidence.toFixed(3)),
+      agreeing_providers: cell.providers,
+      households: cell.households,
+      source_areas: cell.geoIds,
+      lat: Number(cell.lat.toFixed(6)),
+      lng: Number(cell.lng.toFixed(6)),
+    }));
+    if (exportType === 'csv') {
+      const headers = ['h3_index', 'h3_resolution', 'providers_agreeing', 'confidence_level', 'avg_confidence', 'agreeing_providers', 'households', 'source_areas', 'lat', 'lng'];
+      const rows = cells.map((cell) => [
+        cell.h3_index,
+        cell.h3_resolution,
+        cell.providers_agreeing,
+        cell.confidence_level,
+        cell.avg_confidence.toFixed(3),
+        `"${cell.agreeing_providers.join('; ')}"`,
+        cell.households,
+        `"${cell.source_areas.join('; ')}"`,
+        cell.lat,
+        cell.lng,
+      ].join(','));
+      content = [`# ${JSON.stringify(metadata)}`, headers.join(','), ...rows].join('\n');
+    } else {
+      // Plain JSON cell list (no geometry): what DSP H3 uploads expect
+      features = cells;
+      content = JSON.stringify({ metadata, cells }, null, 2);
+    }
+  } else if (exportType === 'csv') {
+    // Add metadata as commented JSON line
+    const metadataLine = `# ${JSON.stringify(metadata)}`;
+
+    // Headers differ for validation vs extension mode
+    const headers = sectorResolution
+      ? ['sector', 'district', 'providers_agreeing', 'confidence_level', 'avg_confidence', 'agreeing_providers', 'households', 'lat', 'lng']
+      : isValidationMode
+      ? ['district', 'providers_agreeing', 'confidence_level', 'avg_confidence', 'agreeing_providers', 'lat', 'lng']
+      : ['geo_id', 'geo_type', 'score', 'confidence_tier', 'included', 'top_drivers', 'lat', 'lng'];
+
+    const rows = geoUnits.map((unit) => {
+      const lat = unit.centroid_lat;
+      const lng = unit.centroid_lng;
+
+      if (sectorResolution) {
+        // Validation mode at sector resolution: sector list with rolled-down households
+        return [
+          unit.geo_id, // sector code
+          unit.district,
+          unit.agreement_count || 0,
+          unit.confidence_tier || 'low',
+          (unit.avg_confidence || 0).toFixed(3),
+          `"${(unit.agreeing_providers || []).join('; ')}"`,
+          unit.households,
+          lat,
+          lng,
+        ].join(',');
+      } else if (isValidationMode) {
+        // Validation mode: district-based export
+        const agreementCount = unit.agreement_count || 0;
+        const confidenceLevel = unit.confidence_tier || 'low';
+        const avgConfidence = unit.avg_confidence || 0;
+        const agreeingProviders = (unit.agreeing_providers || []).join('; ');
+
+        return [
+          unit.geo_id, // district code
+          agreementCount,
+          confidenceLevel,
+          avgConfidence.toFixed(3),
+          `"${agreeingProviders}"`,
+          lat,
+          lng,
+        ].join(',');
+      } else {
+        // Extension mode: existing logic
+        const included = unit.score >= threshold;
+
+        const drivers = unit.drivers;
+        const signals = drivers?.signals || [];
+        const topDrivers = signals
+          .sort((a, b) => b.contribution - a.contribution)
+          .slice(0, 3)
+          .map((s) => `${s.signal_type}(${s.contribution.toFixed(1)})`)
+          .join('; ');
+
+        return [
+          unit.geo_id,
+          unit.geo_type,
+          unit.score,
+          unit.confidence_tier,
+          included ? 'true' : 'false',
+          `"${topDrivers || ''}"`,
+          lat,
+          lng,
+        ].join(',');
+      }
+    });
+    content = [metadataLine, headers.join(','), ...rows].join('\n');
+  } else {
+    const geometryByDistrict = await getDistrictGeometries(supabase, resolution.districtIds);
+    features = geoUnits.map((unit): Feature => {
+      // Real polygon when a boundary is imported, otherwise the centroid the map renders
+      // (sectors have no stored polygons and are always points)
+      const geometry = (!sectorResolution && geometryByDistrict.get(unit.geo_id)) || {
+        type: 'Point',
+        coordinates: [unit.centroid_lng, unit.centroid_lat],
+      };
+      if (sectorResolution) {
+        return {
+          type: 'Feature',
+          geometry,
+          properties: {
+            sector: unit.geo_id,
+            district: unit.district,
+            households: unit.households,
+            providers_agreeing: unit.agreement_count || 0,
+            confidence_level: unit.confidence_tier || 'low',
+            avg_confidence: unit.avg_confidence || 0,
+            agreeing_providers: unit.agreeing_providers || [],
+            audience_key: anchorKey,
+          },
+        };
+      } else if (isValidationMode) {
+        // Validation mode: district-based GeoJSON
+        return {
+          type: 'Feature',
+          geometry,
+          properties: {
+            district: unit.geo_id,
+            providers_agreeing: unit.agreement_count || 0,
+            confidence_level: unit.confidence_tier || 'low',
+            avg_confidence: unit.avg_confidence || 0,
+            agreeing_providers: unit.agreeing_providers || [],
+            audience_key: anchorKey,
+          },
+        };
+      } else {
+        // Extension mode: existing logic
+        const drivers = unit.drivers;
+        const signals = drivers?.signals || [];
+        const topDrivers = signals
+          .sort((a, b) => b.contribution - a.contribution)
+          .slice(0, 3)
+          .map((s) => ({
+            signal_type: s.signal_type,
+            contribution: s.contribution,
+            inferred: s.inferred || false,
+          }));
+
+        return {
+          type: 'Feature',
+          geometry,
+          properties: {
+            geo_id: unit.geo_id,
+            geo_type: unit.geo_type,
+            score: unit.score,
+            confidence_tier: unit.confidence_tier,
+            included: unit.score >= threshold,
+            top_drivers: topDrivers,
+            recommended_threshold: threshold,
+            activation_target: activationTarget,
+          },
+        };
+      }
+    });
+    content = JSON.stringify(
+      {
+        type: 'FeatureCollection',
+        metadata,
+        features,
+      },
+      null,
+      2
+    );
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const targetLabel = h3Activation
+    ? `h3-r${h3Activation.resolution}`
+    : exportType === 'xlsx'
+    ? 'planning'
+    : exportType === 'html' || exportType === 'pdf'
+    ? 'report'
+    : activationTarget;
+  const extension = exportType === 'geojson' ? (h3Activation ? 'json' : 'geojson') : exportType;
+
+  return {
+    content,
+    contentType:
+      exportType === 'csv'
+        ? 'text/csv'
+        : exportType === 'xlsx'
+        ? XLSX_CONTENT_TYPE
+        : exportType === 'html'
+        ? HTML_CONTENT_TYPE
+        : exportType === 'pdf'
+        ? PDF_CONTENT_TYPE
+        : h3Activation
+        ? 'application/json'
+        : 'application/geo+json',
+    filename: `audience-${audienceId}-${targetLabel}-v1-${timestamp}.${extension}`,
+    metadata,
+    features,
+    rowCount: h3Activation ? h3Activation.cells.length : isPlanningExport(exportType) ? features.length : geoUnits.length,
+    snapshotId,
+    h3Resolution: h3Activation?.resolution ?? null,
+  };
+}
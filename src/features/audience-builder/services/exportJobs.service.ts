@@ -0,0 +1,170 @@
+import { TypedSupabaseClient } from '@/lib/supabase/client';
+import { Export } from '@/lib/types';
+import { ExportGenerationParams, generateExport } from './exportGeneration.service';
+import { isExportJobStale } from '../utils/exportJobs';
+
+const MAX_ERROR_DETAIL_LENGTH = 2000;
+// A queued job its request has not started within this long is picked up by the cron run
+const QUEUED_JOB_PICKUP_MS = 2 * 60 * 1000;
+// Interrupted runs before a job is failed instead of restarted again
+export const MAX_EXPORT_JOB_ATTEMPTS = 3;
+const MAX_RECOVERED_JOBS_PER_RUN = 10;
+
+export interface RecoveredExportJob {
+  exportId: string;
+  status: Export['status'];
+  restarted: boolean;
+}
+
+function errorDetail(error: unknown): string {
+  const message =
+    error instanceof Error
+      ? error.message
+      : error && typeof error === 'object' && 'message' in error
+      ? String(error.message)
+      : String(error);
+  return message.length > MAX_ERROR_DETAIL_LENGTH ? `${message.slice(0, MAX_ERROR_DETAIL_LENGTH)}…` : message;
+}
+
+async function updateJob(supabase: TypedSupabaseClient, jobId: string, updates: Record<string, unknown>) {
+  const { error } = await supabase.from('exports').update(updates).eq('id', jobId);
+  if (error) {
+    console.warn('[exports/jobs] Failed to update export job', jobId, error);
+  }
+}
+
+/**
+ * Generate, upload and record an export job for its owner (userId). Export rows are only
+ * writable by the service role, so `supabase` must be a service client; routes check
+ * ownership before queuing. Never throws: failures are written to the job row with the
+ * stage they happened in.
+ */
+export async function runExportJob(
+  supabase: TypedSupabaseClient,
+  jobId: string,
+  params: ExportGenerationParams,
+  userId?: string
+): Promise<void> {
+  let stage = 'Starting';
+  await updateJob(supabase, jobId, {
+    status: 'running',
+    progress: 0,
+    progress_message: stage,
+    error_detail: null,
+    started_at: new Date().toISOString(),
+    completed_at: null,
+  });
+
+  try {
+    const generated = await generateExport(params, {
+      client: supabase,
+      userId,
+      onProgress: async (progress, message) => {
+        stage = message;
+        await updateJob(supabase, jobId, { progress, progress_message: message });
+      },
+    });
+
+    stage = 'Uploading export file';
+    await updateJob(supabase, jobId, { progress: 90, progress_message: stage });
+    const { data: uploadData, error: uploadError } = await supabase.storage
+      .from('audience-exports')
+      .upload(generated.filename, generated.content, { contentType: generated.contentType });
+
+    if (uploadError) throw uploadError;
+
+    await updateJob(supabase, jobId, {
+      status: 'succeeded',
+      progress: 100,
+      progress_message: null,
+      storage_path: uploadData.path,
+      snapshot_id: generated.snapshotId,
+      h3_resolution: generated.h3Resolution,
+      row_count: generated.rowCount,
+      completed_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[exports/jobs] Export job failed:', jobId, error);
+    await updateJob(supabase, jobId, {
+      status: 'failed',
+      progress_message: stage,
+      error_detail: errorDetail(error),
+      completed_at: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Run the job after the request that queued it has responded. If the runtime stops the
+ * function before it finishes, recoverExportJobs picks the job up on the next cron run.
+ */
+export function startExportJob(
+  supabase: TypedSupabaseClient,
+  jobId: string,
+  params: ExportGenerationParams,
+  userId?: string
+): void {
+  void runExportJob(supabase, jobId, params, userId);
+}
+
+/**
+ * Pick up jobs whose request never finished them: queued jobs that were not started and
+ * running jobs that stopped updating (e.g. the serverless function was frozen after
+ * responding). Called from the cron route with the service role; jobs run one at a time.
+ */
+export async function recoverExportJobs(
+  supabase: TypedSupabaseClient,
+  now: Date = new Date()
+): Promise<RecoveredExportJob[]> {
+  const { data, error } = await supabase
+    .from('exports')
+    .select('id, user_id, status, attempts, updated_at, job_params')
+    .in('status', ['queued', 'running'])
+    .not('job_params', 'is', null)
+    .lt('updated_at', new Date(now.getTime() - QUEUED_JOB_PICKUP_MS).toISOString())
+    .order('updated_at', { ascending: true })
+    .limit(MAX_RECOVERED_JOBS_PER_RUN);
+
+  if (error) throw error;
+
+  const results: RecoveredExportJob[] = [];
+  for (const job of (data as Export[]) || []) {
+    const interrupted = job.status === 'running';
+    if (interrupted && !isExportJobStale(job, now.getTime())) continue;
+
+    if (interrupted && (job.attempts || 1) >= MAX_EXPORT_JOB_ATTEMPTS) {
+      await updateJob(supabase, job.id, {
+        status: 'failed',
+        error_detail: `Export job was interrupted ${job.attempts} times`,
+        completed_at: now.toISOString(),
+      });
+      results.push({ exportId: job.id, status: 'failed', restarted: false });
+      continue;
+    }
+
+    // Claim the job only if nothing touched it since it was read (a retry or another cron run)
+    const { data: claimed, error: claimError } = await supabase
+      .from('exports')
+      .update({
+        status: 'queued',
+        progress_message: 'Queued',
+        attempts: interrupted ? (job.attempts || 1) + 1 : job.attempts,
+      })
+      .eq('id', job.id)
+      .eq('status', job.status)
+      .eq('updated_at', job.updated_at as string) // never null: matched by the updated_at cutoff
+      .select('id');
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) continue;
+
+    await runExportJob(supabase, job.id, job.job_params as unknown as ExportGenerationParams, job.user_id);
+
+    const { data: finished } = await supabase.from('exports').select('status').eq('id', job.id).single();
+    results.push({
+      exportId: job.id,
+      status: (finished as Pick<Export, 'status'> | null)?.status ?? 'failed',
+      restarted: true,
+    });
+  }
+  return results;
+}
@@ -0,0 +1,254 @@
+import { TypedSupabaseClient } from '@/lib/supabase/client';
+import type { Json } from '@/lib/supabase/database.types';
+import { Export } from '@/lib/types';
+import { ExportSchedule } from '../api/exportSchedules';
+import { getSnapshot } from '../api/snapshots';
+import { getConnector } from '../connectors/registry';
+import { PushPayloadFormat } from '../connectors/types';
+import { compareDistrictLists, computeNextRunAt, DistrictChange } from '../utils/exportSchedules';
+import { getSavedResolutionInput, resolveSavedAudience } from './audienceResolution.service';
+import { ExportGenerationParams } from './exportGeneration.service';
+import { runExportJob } from './exportJobs.service';
+import { getPlatformConnectionWithSecrets, pushAudienceToPlatform } from './platformPush.service';
+
+const MAX_SCHEDULES_PER_RUN = 25;
+// A claim older than this belongs to a run that stopped without finishing
+const STALE_SCHEDULE_RUN_MS = 30 * 60 * 1000;
+
+export interface ExportScheduleRunResult {
+  scheduleId: string;
+  exportId: string | null;
+  status: 'succeeded' | 'failed' | 'skipped';
+  message: string;
+  districtChange: DistrictChange | null;
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return String(error);
+}
+
+/**
+ * First scheduled time after `now`, keeping the schedule's time of day. A schedule that
+ * is not due yet (e.g. "Run now") keeps its next run.
+ */
+function advanceNextRunAt(schedule: ExportSchedule, now: Date): Date {
+  let next = new Date(schedule.next_run_at);
+  while (next.getTime() <= now.getTime()) {
+    next = computeNextRunAt(schedule.cadence, next);
+  }
+  return next;
+}
+
+async function getExportDistrictIds(
+  supabase: TypedSupabaseClient,
+  exportId: string | null
+): Promise<string[] | null> {
+  if (!exportId) return null;
+  const { data, error } = await supabase
+    .from('exports')
+    .select('snapshot_id')
+    .eq('id', exportId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const snapshotId = (data as Pick<Export, 'snapshot_id'> | null)?.snapshot_id;
+  if (!snapshotId) return null;
+  const snapshot = await getSnapshot(snapshotId, supabase);
+  return snapshot ? snapshot.district_ids || [] : null;
+}
+
+/**
+ * Run one schedule with the audience's saved builder settings: push to the destination
+ * platform, or generate an export file when there is none. The run is appended to export
+ * history and compared with the schedule's previous successful run.
+ * Runs without a session, so `supabase` must be a service-role client.
+ */
+export async function runExportSchedule(
+  supabase: TypedSupabaseClient,
+  schedule: ExportSchedule,
+  now: Date = new Date()
+): Promise<ExportScheduleRunResult> {
+  const nextRunAt = advanceNextRunAt(schedule, now);
+
+  // Claim every run (cron or "Run now") so overlapping callers don't run it twice
+  const staleBefore = new Date(now.getTime() - STALE_SCHEDULE_RUN_MS).toISOString();
+  const { data: claimed, error: claimError } = await supabase
+    .from('export_schedules')
+    .update({ next_run_at: nextRunAt.toISOString(), running_since: now.toISOString() })
+    .eq('id', schedule.id)
+    .eq('next_run_at', schedule.next_run_at)
+    .or(`running_since.is.null,running_since.lt.${staleBefore}`)
+    .select('id');
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) {
+    return { scheduleId: schedule.id, exportId: null, status: 'skipped', message: 'Already running', districtChange: null };
+  }
+
+  let exportId: string | null = null;
+  let succeeded = false;
+  let message = '';
+
+  try {
+    const { data: audience, error: audienceError } = await supabase
+      .from('audiences')
+      .select('id, user_id, name, client_id')
+      .eq('id', schedule.audience_id)
+      .single();
+    if (audienceError || !audience) {
+      throw new Error('Audience not found');
+    }
+    const { user_id: userId, name: audienceName, client_id: clientId } = audience;
+
+    if (schedule.destination) {
+      const connector = getConnector(schedule.destination);
+      const metadata = connector.getMetadata();
+      const connection = clientId
+        ? await getPlatformConnectionWithSecrets(supabase, clientId, schedule.destination)
+        : null;
+      if (!connection || !connection.isEnabled) {
+        throw new Error(`${metadata.label} is not configured for this audience's client`);
+      }
+
+      const format = (schedule.payload_format || connection.payloadFormat) as PushPayloadFormat;
+      if (!metadata.supportedFormats.includes(format)) {
+        throw new Error(`${metadata.label} does not accept ${format} payloads`);
+      }
+
+      const resolution = await resolveSavedAudience(schedule.audience_id, supabase);
+      if (!resolution) {
+        throw new Error('No anchor segment configured for this audience');
+      }
+
+      const { export: exportRecord, delivery } = await pushAudienceToPlatform({
+        client: supabase,
+        userId,
+        audienceId: schedule.audience_id,
+        audienceName,
+        connector,
+        connection,
+        format,
+        h3Resolution: schedule.h3_resolution ?? undefined,
+        resolution,
+        scheduleId: schedule.id,
+      });
+      exportId = exportRecord.id;
+      succeeded = delivery.status === 'delivered';
+      message = delivery.log[delivery.log.length - 1]?.message || '';
+    } else {
+      // Composite audiences resolve from their recipe inside export generation
+      const savedInput = await getSavedResolutionInput(schedule.audience_id, supabase);
+      const params: ExportGenerationParams = {
+        audienceId: schedule.audience_id,
+        exportType: schedule.export_type,
+        activationTarget: schedule.activation_target,
+        h3Resolution: schedule.h3_resolution ?? undefined,
+        resolution: savedInput || undefined,
+      };
+
+      const { data: job, error: jobError } = await supabase
+        .from('exports')
+        .insert({
+          audience_id: schedule.audience_id,
+          user_id: userId,
+          export_type: params.exportType,
+          storage_path: null,
+          activation_target: params.activationTarget,
+          status: 'queued',
+          progress: 0,
+          progress_message: 'Queued',
+          job_params: params as unknown as Json,
+          schedule_id: schedule.id,
+        })
+        .select()
+        .single();
+      if (jobError || !job) {
+        throw new Error('Failed to queue export');
+      }
+      exportId = (job as Export).id;
+
+      await runExportJob(supabase, exportId, params, userId);
+
+      const { data: finished } = await supabase
+        .from('exports')
+        .select('status, error_detail')
+        .eq('id', exportId)
+        .single();
+      const finishedJob = finished as Pick<Export, 'status' | 'error_detail'> | null;
+      succeeded = finishedJob?.status === 'succeeded';
+      message = finishedJob?.error_detail || '';
+    }
+  } catch (error) {
+    console.error('[exports/schedules] Scheduled export failed:', schedule.id, error);
+    message = errorMessage(error);
+  }
+
+  // Compare the run's districts with the previous successful run of this schedule
+  let districtChange: DistrictChange | null = null;
+  if (exportId) {
+    try {
+      const currentIds = await getExportDistrictIds(supabase, exportId);
+      if (currentIds) {
+        const previousIds = await getExportDistrictIds(supabase, schedule.last_export_id);
+        districtChange = compareDistrictLists(
+          previousIds,
+          currentIds,
+          Number(schedule.change_threshold_pct),
+          previousIds ? schedule.last_export_id : null
+        );
+        const { error } = await supabase.from('exports')
+          .update({ district_change: districtChange as unknown as Json })
+          .eq('id', exportId);
+        if (error) throw error;
+      }
+    } catch (error) {
+      console.warn('[exports/schedules] Failed to compare district lists:', schedule.id, error);
+    }
+  }
+
+  const { error: scheduleError } = await supabase
+    .from('export_schedules')
+    .update({
+      last_run_at: now.toISOString(),
+      running_since: null,
+      last_error: succeeded ? null : message || 'Scheduled export failed',
+      ...(succeeded ? { last_export_id: exportId } : {}),
+    })
+    .eq('id', schedule.id);
+  if (scheduleError) {
+    console.warn('[exports/schedules] Failed to update schedule:', schedule.id, scheduleError);
+  }
+
+  return {
+    scheduleId: schedule.id,
+    exportId,
+    status: succeeded ? 'succeeded' : 'failed',
+    message,
+    districtChange,
+  };
+}
+
+/**
+ * Run every enabled schedule that is due, oldest first and one at a time
+ */
+export async function runDueExportSchedules(
+  supabase: TypedSupabaseClient,
+  now: Date = new Date()
+): Promise<ExportScheduleRunResult[]> {
+  const { data, error } = await supabase
+    .from('export_schedules')
+    .select('*')
+    .eq('is_enabled', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(MAX_SCHEDULES_PER_RUN);
+
+  if (error) throw error;
+
+  const results: ExportScheduleRunResult[] = [];
+  for (const schedule of (data as ExportSchedule[]) || []) {
+    results.push(await runExportSchedule(supabase, schedule, now));
+  }
+  return results;
+}
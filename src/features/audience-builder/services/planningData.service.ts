@@ -0,0 +1,236 @@
+import { TypedSupabaseClient } from '@/lib/supabase/client';
+import { getDataPartnersByKeys } from '@/features/admin/api/dataPartners';
+import { FALLBACK_HOUSEHOLDS_PER_DISTRICT, getDistrictHouseholds } from '../api/geoDistricts';
+import { getTvRegionsByDistrict } from '../api/tvRegions';
+import { SnapshotBrief } from '../api/snapshots';
+import {
+  buildProviderContributions,
+  confidenceBand,
+  describeThreshold,
+  ProviderContributionSummary,
+} from '../utils/exportSummary';
+import { AudienceResolution } from './audienceResolution.service';
+
+const UNASSIGNED_REGION = 'Unassigned';
+
+/**
+ * Everything the planning deliverables (XLSX workbook, HTML/PDF report) are built from
+ */
+export interface PlanningExportData {
+  brief: Pick<SnapshotBrief, 'name' | 'description' | 'target_reach' | 'start_date' | 'end_date' | 'budget_total'>;
+  resolution: AudienceResolution;
+  metadata: any; // Export metadata (segments, checksum, snapshot version)
+  providerContributions: ProviderContributionSummary[];
+  baseProvider: { providerLabel: string; eligibleDistricts: number } | null; // Validation mode
+  providerLabels: Map<string, string>;
+  thresholdLabel: string;
+  confidenceBand: string | null;
+  householdsByDistrict: Map<string, number>;
+  regionsByDistrict: Map<string, string[]>;
+  regionNames: Map<string, string>;
+}
+
+/**
+ * One row of the Districts sheet (also used for previews)
+ */
+export interface PlanningDistrictRow {
+  district: string;
+  sectors?: number; // Sector resolution only: included sectors in the district
+  households: number;
+  providers_agreeing: number;
+  confidence_level: string;
+  avg_confidence: number;
+  agreeing_providers: string;
+  tv_regions: string;
+  battle_zone: string;
+  lat: number;
+  lng: number;
+}
+
+export type PlanningSummaryEntry = [string, string | number | null];
+
+export interface PlanningTvRegionSummary {
+  regionKey: string;
+  name: string;
+  districts: number;
+  households: number;
+  share: number; // % of audience households
+}
+
+function confidenceLevel(avgConfidence: number): string {
+  return avgConfidence >= 0.7 ? 'high' : avgConfidence >= 0.4 ? 'medium' : 'low';
+}
+
+/**
+ * Load the brief, provider labels, households and TV regions for a resolved audience
+ */
+export async function loadPlanningExportData(
+  audienceId: string,
+  resolution: AudienceResolution,
+  metadata: any,
+  client: TypedSupabaseClient
+): Promise<PlanningExportData> {
+  const { mode } = resolution.input;
+  const validationResults = mode === 'validation' ? resolution.validationResults : undefined;
+  const providerImpact = mode === 'extension' ? resolution.providerImpact : undefined;
+
+  const providerKeys = new Set<string>(resolution.districts.flatMap((d) => d.providers));
+  if (validationResults) {
+    Object.keys(validationResults.providerStats).forEach((key) => providerKeys.add(key));
+    providerKeys.add(validationResults.baseProvider);
+  }
+  providerImpact?.providerStats.forEach((stat) => providerKeys.add(stat.provider));
+
+  const { data: brief, error: briefError } = await client
+    .from('audiences')
+    .select('name, description, target_reach, start_date, end_date, budget_total')
+    .eq('id', audienceId)
+    .single();
+  if (briefError) throw briefError;
+  if (!brief) throw new Error('Audience not found');
+
+  const [partners, householdsByDistrict, { regionsByDistrict, regionNames }] = await Promise.all([
+    getDataPartnersByKeys(Array.from(providerKeys), client).catch((error) => {
+      console.warn('[planningData] Error fetching provider metadata:', error);
+      return [];
+    }),
+    getDistrictHouseholds(resolution.districtIds, client),
+    getTvRegionsByDistrict(resolution.districtIds, client),
+  ]);
+
+  const providerLabels = new Map(partners.map((p) => [p.provider_key, p.display_name]));
+  const labelFor = (provider: string, fallback?: string) => providerLabels.get(provider) || fallback || provider;
+
+  return {
+    brief,
+    resolution,
+    metadata,
+    providerContributions: buildProviderContributions(mode, validationResults, providerImpact, labelFor),
+    baseProvider: validationResults
+      ? {
+          providerLabel: labelFor(validationResults.baseProvider),
+          eligibleDistricts: validationResults.totals.eligibleDistricts,
+        }
+      : null,
+    providerLabels,
+    thresholdLabel: describeThreshold(mode, validationResults, providerImpact, resolution.input),
+    confidenceBand: confidenceBand(mode, validationResults, providerImpact),
+    householdsByDistrict,
+    regionsByDistrict,
+    regionNames,
+  };
+}
+
+/**
+ * The campaign brief as Field/Value pairs
+ */
+export function planningBriefEntries(data: PlanningExportData): PlanningSummaryEntry[] {
+  const { brief } = data;
+  const flight = [brief.start_date, brief.end_date].filter(Boolean).join(' – ');
+  return [
+    ['Audience', brief.name],
+    ['Brief', brief.description],
+    ['Flight dates', flight || null],
+    ['Target reach', brief.target_reach],
+    ['Budget', brief.budget_total],
+  ];
+}
+
+/**
+ * How the audience was built (mode, providers, thresholds, size, provenance) as Field/Value pairs
+ */
+export function planningConstructionEntries(data: PlanningExportData): PlanningSummaryEntry[] {
+  const { resolution, metadata } = data;
+  const segments: any[] = metadata.included_segments || [];
+  const providers = Array.from(
+    new Set([
+      ...(resolution.validationResults ? [resolution.validationResults.baseProvider] : []),
+      ...data.providerContributions.map((p) => p.provider),
+    ])
+  ).map((p) => data.providerLabels.get(p) || p);
+
+  return [
+    ['Mode', resolution.input.mode === 'validation' ? 'Validation' : 'Extension'],
+    ['Anchor segment', metadata.anchor_segment_key || resolution.input.segmentKey],
+    ['Included segments', segments.map((s) => s.segment_label || s.segment_key).join('; ') || null],
+    ['Providers', providers.join('; ') || null],
+    ...(data.baseProvider
+      ? [['Universe', `${data.baseProvider.providerLabel} (${data.baseProvider.eligibleDistricts} eligible districts)`] as PlanningSummaryEntry]
+      : []),
+    ['Threshold', data.thresholdLabel],
+    ['Confidence band', data.confidenceBand],
+    ['Geo resolution', resolution.input.resolution === 'sector' ? 'Postcode sector' : 'Postcode district'],
+    ['Districts', resolution.districtIds.length],
+    ...(resolution.sectorIds ? [['Sectors', resolution.sectorIds.length] as PlanningSummaryEntry] : []),
+    ['Estimated households', resolution.estimatedHouseholds],
+    ['TV regions filter', resolution.input.tvRegions.map((r) => data.regionNames.get(r) || r).join('; ') || 'None'],
+    ['Snapshot version', metadata.snapshot_version ?? null],
+    ['District checksum (SHA-256)', resolution.checksum],
+    ['Generated at', metadata.export_generated_at],
+  ];
+}
+
+export function buildPlanningDistrictRows(data: PlanningExportData): PlanningDistrictRow[] {
+  const { resolution, householdsByDistrict, regionsByDistrict, regionNames, providerLabels } = data;
+  const sectorsByDistrict = new Map<string, { count: number; households: number }>();
+  for (const sector of resolution.sectors || []) {
+    const entry = sectorsByDistrict.get(sector.district) || { count: 0, households: 0 };
+    entry.count += 1;
+    entry.households += sector.households;
+    sectorsByDistrict.set(sector.district, entry);
+  }
+
+  return resolution.districts.map((d) => {
+    const sectors = sectorsByDistrict.get(d.district);
+    return {
+      district: d.district,
+      ...(resolution.sectors ? { sectors: sectors?.count || 0 } : {}),
+      // At sector resolution only the included sectors' households count
+      households: sectors
+        ? sectors.households
+        : householdsByDistrict.get(d.district) ?? FALLBACK_HOUSEHOLDS_PER_DISTRICT,
+      providers_agreeing: d.agreementCount,
+      confidence_level: confidenceLevel(d.avgConfidence),
+      avg_confidence: Number(d.avgConfidence.toFixed(3)),
+      agreeing_providers: d.providers.map((p) => providerLabels.get(p) || p).join('; '),
+      tv_regions: (regionsByDistrict.get(d.district) || []).map((r) => regionNames.get(r) || r).join('; '),
+      battle_zone: d.battleZoneCategory || '',
+      lat: d.centroid_lat,
+      lng: d.centroid_lng,
+    };
+  });
+}
+
+/**
+ * Audience households split by TV region, largest first. A district straddling regions
+ * counts towards each of them; districts outside every region are grouped as Unassigned.
+ */
+export function summarizeTvRegions(
+  data: PlanningExportData,
+  rows: PlanningDistrictRow[]
+): PlanningTvRegionSummary[] {
+  const byRegion = new Map<string, PlanningTvRegionSummary>();
+  for (const row of rows) {
+    const regionKeys = data.regionsByDistrict.get(row.district) || [];
+    for (const regionKey of regionKeys.length > 0 ? regionKeys : [UNASSIGNED_REGION]) {
+      const entry = byRegion.get(regionKey) || {
+        regionKey,
+        name: data.regionNames.get(regionKey) || regionKey,
+        districts: 0,
+        households: 0,
+        share: 0,
+      };
+      entry.districts += 1;
+      entry.households += row.households;
+      byRegion.set(regionKey, entry);
+    }
+  }
+
+  const totalHouseholds = rows.reduce((sum, row) => sum + row.households, 0);
+  return Array.from(byRegion.values())
+    .map((region) => ({
+      ...region,
+      share: totalHouseholds > 0 ? Number(((region.households / totalHouseholds) * 100).toFixed(1)) : 0,
+    }))
+    .sort((a, b) => b.households - a.households);
+}
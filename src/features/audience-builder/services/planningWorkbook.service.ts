@@ -0,0 +1,133 @@
+import { Workbook, Worksheet } from 'exceljs';
+import {
+  buildPlanningDistrictRows,
+  PlanningDistrictRow,
+  PlanningExportData,
+  planningBriefEntries,
+  planningConstructionEntries,
+  summarizeTvRegions,
+} from './planningData.service';
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const HEADER_FILL = 'FFE1F5FC'; // Light tint of the app's #02b5e7
+
+function styleHeader(sheet: Worksheet) {
+  const header = sheet.getRow(1);
+  header.font = { bold: true };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+}
+
+function addSummarySheet(workbook: Workbook, input: PlanningExportData) {
+  const sheet = workbook.addWorksheet('Summary');
+  sheet.columns = [
+    { header: 'Field', key: 'field', width: 28 },
+    { header: 'Value', key: 'value', width: 70 },
+  ];
+
+  const entries = [...planningBriefEntries(input), ...planningConstructionEntries(input)];
+
+  for (const [field, value] of entries) {
+    sheet.addRow({ field, value: value ?? '—' });
+  }
+  for (const field of ['Target reach', 'Districts', 'Sectors', 'Estimated households']) {
+    const row = entries.findIndex(([f]) => f === field);
+    if (row >= 0) sheet.getCell(row + 2, 2).numFmt = '#,##0';
+  }
+  const budgetRow = entries.findIndex(([f]) => f === 'Budget');
+  sheet.getCell(budgetRow + 2, 2).numFmt = '£#,##0';
+  sheet.getColumn('value').alignment = { horizontal: 'left', wrapText: true };
+  styleHeader(sheet);
+}
+
+function addDistrictsSheet(workbook: Workbook, rows: PlanningDistrictRow[], sectorResolution: boolean) {
+  const sheet = workbook.addWorksheet('Districts');
+  sheet.columns = [
+    { header: 'District', key: 'district', width: 12 },
+    ...(sectorResolution ? [{ header: 'Sectors', key: 'sectors', width: 10 }] : []),
+    { header: 'Households', key: 'households', width: 13, style: { numFmt: '#,##0' } },
+    { header: 'Providers agreeing', key: 'providers_agreeing', width: 18 },
+    { header: 'Confidence level', key: 'confidence_level', width: 16 },
+    { header: 'Avg confidence', key: 'avg_confidence', width: 15, style: { numFmt: '0.000' } },
+    { header: 'Agreeing providers', key: 'agreeing_providers', width: 40 },
+    { header: 'TV regions', key: 'tv_regions', width: 30 },
+    { header: 'Battle zone', key: 'battle_zone', width: 14 },
+    { header: 'Lat', key: 'lat', width: 11 },
+    { header: 'Lng', key: 'lng', width: 11 },
+  ];
+  sheet.addRows(rows);
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: sheet.columns.length } };
+  styleHeader(sheet);
+}
+
+function addProviderContributionsSheet(workbook: Workbook, input: PlanningExportData) {
+  const isExtension = input.resolution.input.mode === 'extension';
+  const sheet = workbook.addWorksheet('Provider Contributions');
+  sheet.columns = [
+    { header: 'Provider', key: 'provider', width: 28 },
+    { header: isExtension ? 'Incremental districts' : 'Districts supported', key: 'districts', width: 20 },
+    {
+      header: isExtension ? '% incremental vs current selection' : '% of included districts',
+      key: 'percent',
+      width: 32,
+      style: { numFmt: '0.0"%"' },
+    },
+    ...(isExtension
+      ? [
+          { header: 'Overlap %', key: 'overlap', width: 12, style: { numFmt: '0"%"' } },
+          { header: 'Avg confidence', key: 'avg_confidence', width: 15, style: { numFmt: '0.00' } },
+        ]
+      : []),
+  ];
+
+  if (input.baseProvider) {
+    sheet.addRow({
+      provider: `Universe defined by ${input.baseProvider.providerLabel}`,
+      districts: input.baseProvider.eligibleDistricts,
+    }).font = { italic: true };
+  }
+  for (const contribution of input.providerContributions) {
+    sheet.addRow({
+      provider: contribution.providerLabel,
+      districts: contribution.districtsContributed,
+      percent: Number(contribution.percentContributed.toFixed(1)),
+      overlap: contribution.overlapPercent !== undefined ? Math.round(contribution.overlapPercent) : undefined,
+      avg_confidence: contribution.avgConfidence,
+    });
+  }
+  styleHeader(sheet);
+}
+
+function addTvRegionsSheet(workbook: Workbook, input: PlanningExportData, rows: PlanningDistrictRow[]) {
+  const sheet = workbook.addWorksheet('TV Regions');
+  sheet.columns = [
+    { header: 'TV region', key: 'name', width: 28 },
+    { header: 'Districts', key: 'districts', width: 12, style: { numFmt: '#,##0' } },
+    { header: 'Households', key: 'households', width: 14, style: { numFmt: '#,##0' } },
+    { header: '% of audience households', key: 'share', width: 26, style: { numFmt: '0.0"%"' } },
+  ];
+  for (const { name, districts, households, share } of summarizeTvRegions(input, rows)) {
+    sheet.addRow({ name, districts, households, share });
+  }
+  styleHeader(sheet);
+}
+
+/**
+ * Planning workbook: Summary, Districts, Provider Contributions and TV Regions sheets
+ */
+export async function buildPlanningWorkbook(
+  input: PlanningExportData
+): Promise<{ content: Buffer; rows: PlanningDistrictRow[] }> {
+  const rows = buildPlanningDistrictRows(input);
+
+  const workbook = new Workbook();
+  workbook.created = new Date(input.metadata.export_generated_at || Date.now());
+  addSummarySheet(workbook, input);
+  addDistrictsSheet(workbook, rows, Boolean(input.resolution.sectors));
+  addProviderContributionsSheet(workbook, input);
+  addTvRegionsSheet(workbook, input, rows);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return { content: Buffer.from(buffer as ArrayBuffer), rows };
+}
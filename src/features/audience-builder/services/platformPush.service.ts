@@ -0,0 +1,373 @@
+import { TypedSupabaseClient } from '@/lib/supabase/client';
+import type { Json } from '@/lib/supabase/database.types';
+import { Export } from '@/lib/types';
+import { getDistrictHouseholds } from '../api/geoDistricts';
+import { getDistrictBoundaries } from '../api/districtBoundaries';
+import { EXPORT_BOUNDARY_ZOOM } from '../utils/districtBoundaries';
+import { buildH3Activation, householdRadiusKm, normalizeH3Resolution } from '../utils/h3Activation';
+import {
+  ConnectorAdapter,
+  ConnectorMetadata,
+  DeliveryLogEntry,
+  PlatformConnectionSecrets,
+  PlatformKey,
+  PushArea,
+  PushAudience,
+  PushPayloadFormat,
+} from '../connectors/types';
+import { AudienceResolution } from './audienceResolution.service';
+import { createAudienceSnapshot } from './snapshot.service';
+
+const DEFAULT_MAX_ATTEMPTS = 2;
+const REQUEST_TIMEOUT_MS = 30000;
+const MAX_LOGGED_MESSAGE_LENGTH = 500;
+
+export interface PushDeliveryResult {
+  status: 'delivered' | 'failed';
+  externalId: string | null;
+  log: DeliveryLogEntry[];
+}
+
+export interface PlatformPushResult {
+  export: Export;
+  delivery: PushDeliveryResult;
+}
+
+/**
+ * Load a client's platform connection including credentials. Credentials are not
+ * selectable by app users, so the client passed in must use the service role.
+ */
+export async function getPlatformConnectionWithSecrets(
+  serviceClient: TypedSupabaseClient,
+  clientId: string,
+  platform: PlatformKey
+): Promise<PlatformConnectionSecrets | null> {
+  const { data, error } = await serviceClient
+    .from('platform_connections')
+    .select('*')
+    .eq('client_id', clientId)
+    .eq('platform', platform)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  return {
+    id: data.id,
+    clientId: data.client_id,
+    platform: data.platform,
+    config: (data.config || {}) as Record<string, string>,
+    credentials: (data.credentials || {}) as Record<string, string>,
+    endpointUrl: data.endpoint_url,
+    payloadFormat: data.payload_format,
+    isEnabled: data.is_enabled,
+  };
+}
+
+/**
+ * Included areas of a resolved audience in connector form. H3 cells are only computed for
+ * the h3 format (boundaries are polyfilled, other areas use a household-sized disc).
+ */
+export async function buildPushAudience(
+  resolution: AudienceResolution,
+  options: {
+    audienceId: string;
+    audienceName: string;
+    format: PushPayloadFormat;
+    h3Resolution?: number;
+    client: TypedSupabaseClient;
+  }
+): Promise<PushAudience> {
+  const { audienceId, audienceName, format, client } = options;
+
+  let areas: PushArea[];
+  if (resolution.sectors) {
+    areas = resolution.sectors.map((s) => ({
+      code: s.sector,
+      district: s.district,
+      lat: s.centroid_lat,
+      lng: s.centroid_lng,
+      radiusKm: householdRadiusKm(s.households),
+      households: s.households,
+      agreementCount: s.agreementCount,
+      avgConfidence: s.avgConfidence,
+    }));
+  } else {
+    const households = await getDistrictHouseholds(resolution.districtIds, client);
+    areas = resolution.districts.map((d) => {
+      const districtHouseholds = households.get(d.district) || 0;
+      return {
+        code: d.district,
+        district: d.district,
+        lat: d.centroid_lat,
+        lng: d.centroid_lng,
+        radiusKm: householdRadiusKm(districtHouseholds),
+        households: districtHouseholds,
+        agreementCount: d.agreementCount,
+        avgConfidence: d.avgConfidence,
+      };
+    });
+  }
+
+  const audience: PushAudience = {
+    audienceId,
+    audienceName,
+    segmentName: audienceName,
+    geoLevel: resolution.sectors ? 'sector' : 'district',
+    areas,
+    checksum: resolution.checksum,
+  };
+
+  if (format === 'h3') {
+    const h3Resolution = normalizeH3Resolution(options.h3Resolution);
+    const boundaries = resolution.sectors
+      ? new Map()
+      : await getDistrictBoundaries(resolution.districtIds, EXPORT_BOUNDARY_ZOOM, client);
+    const activation = buildH3Activation(
+      areas.map((area) => ({
+        geoId: area.code,
+        district: area.district,
+        centroid_lat: area.lat,
+        centroid_lng: area.lng,
+        agreementCount: area.agreementCount,
+        avgConfidence: area.avgConfidence,
+        providers: [],
+        households: area.households,
+      })),
+      boundaries,
+      h3Resolution
+    );
+    audience.h3Cells = activation.cells.map((cell) => cell.h3);
+    audience.h3Resolution = h3Resolution;
+  }
+
+  return audience;
+}
+
+/**
+ * Origins a connection's endpoint override may use: the platform's own API (default or env
+ * override) and, only with CONNECTOR_MOCK_ENDPOINTS=true, its local mock server. Credentials
+ * are sent to this URL, so an arbitrary host from the connection row is never trusted.
+ */
+export function allowedConnectorOrigins(metadata: ConnectorMetadata): string[] {
+  const origins = [metadata.defaultEndpoint, process.env[metadata.endpointEnvVar]]
+    .filter((url): url is string => Boolean(url))
+    .map((url) => new URL(url).origin);
+  if (process.env.CONNECTOR_MOCK_ENDPOINTS === 'true') {
+    origins.push(`http://localhost:${metadata.mockPort}`, `http://127.0.0.1:${metadata.mockPort}`);
+  }
+  return origins;
+}
+
+/**
+ * Base URL a connection pushes to: its own endpoint when the origin is allowed, otherwise the
+ * platform's env override or default. Throws for an endpoint on any other host.
+ */
+export function resolveConnectorBaseUrl(
+  connector: ConnectorAdapter,
+  connection: PlatformConnectionSecrets
+): string {
+  const metadata = connector.getMetadata();
+  const platformUrl = process.env[metadata.endpointEnvVar] || metadata.defaultEndpoint;
+  if (!connection.endpointUrl) return platformUrl;
+
+  let origin: string | null;
+  try {
+    origin = new URL(connection.endpointUrl).origin;
+  } catch {
+    origin = null;
+  }
+  if (!origin || !allowedConnectorOrigins(metadata).includes(origin)) {
+    throw new Error(
+      `${metadata.label} endpoint ${connection.endpointUrl} is not allowed. Use ${new URL(platformUrl).origin}` +
+        ' (mock servers need CONNECTOR_MOCK_ENDPOINTS=true on the server).'
+    );
+  }
+  return connection.endpointUrl;
+}
+
+function truncate(message: string): string {
+  return message.length > MAX_LOGGED_MESSAGE_LENGTH ? `${message.slice(0, MAX_LOGGED_MESSAGE_LENGTH)}…` : message;
+}
+
+/**
+ * Send the payload to the platform. Network errors, 429s and 5xx responses are retried;
+ * every attempt is logged (without credentials) for exports.delivery_log.
+ */
+export async function deliverPush(
+  connector: ConnectorAdapter,
+  connection: PlatformConnectionSecrets,
+  payload: unknown,
+  maxAttempts: number = DEFAULT_MAX_ATTEMPTS
+): Promise<PushDeliveryResult> {
+  const request = connector.buildRequest(payload, connection, resolveConnectorBaseUrl(connector, connection));
+  const log: DeliveryLogEntry[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const entry: DeliveryLogEntry = {
+      attempt,
+      at: new Date().toISOString(),
+      endpoint: request.url,
+      status: 'failed',
+      http_status: null,
+      external_id: null,
+      message: '',
+    };
+    let retryable = false;
+
+    try {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: { 'Content-Type': 'application/json', ...request.headers },
+        body: JSON.stringify(request.body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      entry.http_status = response.status;
+      const text = await response.text();
+      let body: any = null;
+      try {
+        body = text ? JSON.parse(text) : null;
+      } catch {
+        body = null;
+      }
+
+      if (response.ok) {
+        const result = connector.parseResponse(body);
+        entry.status = 'delivered';
+        entry.external_id = result.externalId;
+        entry.message = result.message;
+      } else {
+        entry.message = truncate(body?.error?.message || body?.message || body?.error || text || response.statusText);
+        retryable = response.status === 429 || response.status >= 500;
+      }
+    } catch (error) {
+      entry.message = truncate(error instanceof Error ? error.message : String(error));
+      retryable = true;
+    }
+
+    log.push(entry);
+    if (entry.status === 'delivered') {
+      return { status: 'delivered', externalId: entry.external_id, log };
+    }
+    if (!retryable) break;
+  }
+
+  return { status: 'failed', externalId: null, log };
+}
+
+/**
+ * Push a resolved audience: build the payload, record a snapshot, keep the exact payload in
+ * storage, create the exports row and deliver it. The delivery outcome (including a
+ * connection rejected before sending) is written to the row's delivery log.
+ */
+export async function pushAudienceToPlatform(options: {
+  client: TypedSupabaseClient;
+  userId: string;
+  audienceId: string;
+  audienceName: string;
+  connector: ConnectorAdapter;
+  connection: PlatformConnectionSecrets;
+  format: PushPayloadFormat;
+  h3Resolution?: number;
+  resolution: AudienceResolution;
+  scheduleId?: string | null;
+}): Promise<PlatformPushResult> {
+  const { client: supabase, userId, audienceId, connector, connection, format, resolution } = options;
+  const platform = connector.getMetadata().key;
+  // Rejects a disallowed endpoint override before anything is stored or sent
+  const endpoint = resolveConnectorBaseUrl(connector, connection);
+
+  const pushAudience = await buildPushAudience(resolution, {
+    audienceId,
+    audienceName: options.audienceName,
+    format,
+    h3Resolution: options.h3Resolution,
+    client: supabase,
+  });
+  const payload = connector.formatPayload(pushAudience, format, connection.config);
+  const rowCount = format === 'h3' ? pushAudience.h3Cells?.length || 0 : pushAudience.areas.length;
+
+  let snapshotId: string;
+  try {
+    const snapshot = await createAudienceSnapshot(audienceId, 'export', { resolution, client: supabase, userId });
+    snapshotId = snapshot.id;
+  } catch (error) {
+    console.error('Failed to record export snapshot:', error);
+    throw new Error('Failed to record audience snapshot');
+  }
+
+  // Keep the exact payload that was sent alongside file exports
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const filename = `audience-${audienceId}-push-${platform}-${format}-${timestamp}.json`;
+  const document = {
+    platform,
+    payload_format: format,
+    endpoint,
+    district_checksum: resolution.checksum,
+    row_count: rowCount,
+    ...(pushAudience.h3Resolution ? { h3_resolution: pushAudience.h3Resolution } : {}),
+    payload,
+  };
+  const { data: uploadData, error: uploadError } = await supabase.storage
+    .from('audience-exports')
+    .upload(filename, JSON.stringify(document, null, 2), { contentType: 'application/json' });
+
+  if (uploadError) {
+    throw new Error('Failed to store push payload');
+  }
+
+  const { data: exportRecord, error: exportError } = await supabase
+    .from('exports')
+    .insert({
+      audience_id: audienceId,
+      user_id: userId,
+      export_type: 'json',
+      storage_path: uploadData.path,
+      snapshot_id: snapshotId,
+      activation_target: format,
+      h3_resolution: pushAudience.h3Resolution ?? null,
+      row_count: rowCount,
+      destination: platform,
+      delivery_status: 'pending',
+      delivery_log: [],
+      schedule_id: options.scheduleId ?? null,
+    })
+    .select()
+    .single();
+
+  if (exportError || !exportRecord) {
+    throw new Error('Failed to create export record');
+  }
+
+  let delivery: PushDeliveryResult;
+  try {
+    delivery = await deliverPush(connector, connection, payload);
+  } catch (error) {
+    // Connector rejected the connection before sending (e.g. missing advertiser id)
+    delivery = {
+      status: 'failed',
+      externalId: null,
+      log: [{
+        attempt: 0,
+        at: new Date().toISOString(),
+        endpoint,
+        status: 'failed',
+        http_status: null,
+        external_id: null,
+        message: error instanceof Error ? error.message : String(error),
+      }],
+    };
+  }
+
+  const { data: updatedExport, error: updateError } = await supabase
+    .from('exports')
+    .update({ delivery_status: delivery.status, delivery_log: delivery.log as unknown as Json })
+    .eq('id', exportRecord.id)
+    .select()
+    .single();
+
+  if (updateError) {
+    console.error('Failed to record push delivery:', updateError);
+  }
+
+  return { export: (updatedExport || exportRecord) as Export, delivery };
+}
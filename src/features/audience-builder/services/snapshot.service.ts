@@ -0,0 +1,132 @@
+import { createClient, TypedSupabaseClient } from '@/lib/supabase/client';
+import * as snapshotsApi from '../api/snapshots';
+import * as audiencesApi from '../api/audiences';
+import * as constructionApi from '../api/construction';
+import * as selectedSegmentsApi from '../api/selectedSegments';
+import * as builderStateApi from '../api/builderState';
+import { PersistedBuilderState } from '../api/builderState';
+import {
+  resolveAudience,
+  resolutionInputFromBuilderState,
+  AudienceResolution,
+} from './audienceResolution.service';
+import type { AudienceIntent } from '../types/signals';
+
+/**
+ * Capture an immutable snapshot of the audience as it stands now.
+ * Reads the brief, construction settings, selected segments and saved builder state, and
+ * resolves the district set unless a resolution is passed in (the export route passes the
+ * one it just exported so the snapshot matches the file exactly).
+ */
+export async function createAudienceSnapshot(
+  audienceId: string,
+  source: snapshotsApi.SnapshotSource,
+  options: { resolution?: AudienceResolution; client?: TypedSupabaseClient; userId?: string } = {}
+): Promise<snapshotsApi.AudienceSnapshot> {
+  const supabase = options.client || createClient();
+  // Scheduled runs use the service role and pass the audience owner instead of a session
+  const userId = options.userId || (await supabase.auth.getUser()).data.user?.id;
+  if (!userId) throw new Error('Not authenticated');
+
+  const [audienceResult, settingsResult, selectedResult, builderStateResult] = await Promise.all([
+    supabase.from('audiences').select('*').eq('id', audienceId).single(),
+    supabase.from('audience_construction_settings').select('*').eq('audience_id', audienceId).maybeSingle(),
+    supabase.from('audience_selected_segments').select('segment_key').eq('audience_id', audienceId).order('added_at', { ascending: true }),
+    supabase.from('audience_builder_state').select('state').eq('audience_id', audienceId).maybeSingle(),
+  ]);
+
+  if (audienceResult.error) throw audienceResult.error;
+  const audience = audienceResult.data;
+  const settings = settingsResult.data;
+  const builderState = (builderStateResult.data?.state as PersistedBuilderState) || null;
+
+  let resolution = options.resolution;
+  if (!resolution) {
+    const input = resolutionInputFromBuilderState(
+      { ...builderState, constructionMode: settings?.construction_mode || builderState?.constructionMode },
+      settings?.audience_intent
+    );
+    if (input) {
+      try {
+        resolution = await resolveAudience(input, supabase);
+      } catch (error) {
+        // Still record the configuration; the district list is left empty
+        console.warn('[snapshot] Failed to resolve districts for snapshot:', error);
+      }
+    }
+  }
+
+  return snapshotsApi.insertSnapshot(
+    {
+      audience_id: audienceId,
+      source,
+      brief: {
+        name: audience.name,
+        description: audience.description ?? null,
+        client_id: audience.client_id ?? null,
+        target_reach: audience.target_reach ?? null,
+        start_date: audience.start_date ?? null,
+        end_date: audience.end_date ?? null,
+        budget_total: audience.budget_total ?? null,
+      },
+      construction: settings
+        ? {
+            audience_intent: (settings.audience_intent as AudienceIntent | null) ?? null,
+            construction_mode: settings.construction_mode,
+            validation_min_agreement: settings.validation_min_agreement ?? null,
+            validation_agreement_mode: settings.validation_agreement_mode ?? null,
+            last_run_at: settings.last_run_at ?? null,
+          }
+        : null,
+      selected_segment_keys: (selectedResult.data || []).map((row) => row.segment_key),
+      builder_state: builderState,
+      resolution_input: resolution?.input || null,
+      district_ids: resolution?.districtIds || [],
+      district_checksum: resolution?.checksum || null,
+      estimated_households: Math.round(resolution?.estimatedHouseholds || 0),
+      created_by: userId,
+    },
+    supabase
+  );
+}
+
+/**
+ * Restore an audience to a prior snapshot: brief, construction settings, selected segments
+ * and builder state. History is append-only, so the restored configuration is picked up by
+ * the next build/export snapshot. Returns the restored builder state for BuilderContext.
+ */
+export async function restoreAudienceSnapshot(
+  snapshotId: string
+): Promise<{ audienceId: string; builderState: PersistedBuilderState | null }> {
+  const snapshot = await snapshotsApi.getSnapshot(snapshotId);
+  if (!snapshot) throw new Error('Snapshot not found');
+
+  const { brief, construction, builder_state: builderState } = snapshot;
+
+  await audiencesApi.updateAudience(snapshot.audience_id, {
+    name: brief.name,
+    description: brief.description,
+    target_reach: brief.target_reach,
+    start_date: brief.start_date,
+    end_date: brief.end_date,
+    budget_total: brief.budget_total,
+    client_id: brief.client_id,
+  });
+
+  if (construction) {
+    await constructionApi.updateConstructionSettings(snapshot.audience_id, {
+      audience_intent: construction.audience_intent,
+      construction_mode: construction.construction_mode,
+      validation_min_agreement: construction.validation_min_agreement ?? undefined,
+      validation_agreement_mode: construction.validation_agreement_mode ?? undefined,
+    });
+  }
+
+  await selectedSegmentsApi.setSelectedSegmentKeys(snapshot.audience_id, snapshot.selected_segment_keys);
+
+  if (builderState) {
+    await builderStateApi.saveBuilderState(snapshot.audience_id, builderState);
+  }
+
+  return { audienceId: snapshot.audience_id, builderState };
+}
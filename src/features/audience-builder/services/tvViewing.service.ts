@@ -0,0 +1,74 @@
+import { TypedSupabaseClient } from '@/lib/supabase/client';
+import {
+  getActiveTvViewingImport,
+  getTvViewingAggregates,
+  TvViewingAggregate,
+  TvViewingImport,
+} from '../api/tvViewing';
+import { TvSpotInsight, viewingIndex } from '../utils/tvInsights';
+
+const TOP_REGIONS_PER_PROGRAMME = 3;
+
+export interface AudienceTvInsights {
+  insights: TvSpotInsight[]; // Highest index first
+  viewingImport: TvViewingImport | null; // null until viewing data has been imported
+  coveredHouseholds: number; // Audience households in districts the import covers
+}
+
+/**
+ * Regions where the audience watches the programme most (viewers per household)
+ */
+function topRegions(aggregate: TvViewingAggregate): string[] {
+  return Object.entries(aggregate.region_viewers)
+    .map(([regionKey, viewers]) => {
+      const households = Number(aggregate.region_households[regionKey]) || 0;
+      return { regionKey, rate: households > 0 ? Number(viewers) / households : 0 };
+    })
+    .filter((region) => region.rate > 0)
+    .sort((a, b) => b.rate - a.rate)
+    .slice(0, TOP_REGIONS_PER_PROGRAMME)
+    .map((region) => region.regionKey);
+}
+
+/**
+ * Index the audience's districts against every district in the active ACR viewing import:
+ * index = (audience viewers / audience households) / (all viewers / all households) x 100
+ */
+export async function getAudienceTvInsights(
+  districtIds: string[],
+  client?: TypedSupabaseClient
+): Promise<AudienceTvInsights> {
+  const viewingImport = await getActiveTvViewingImport(client);
+  if (!viewingImport || districtIds.length === 0) {
+    return { insights: [], viewingImport, coveredHouseholds: 0 };
+  }
+
+  const aggregates = await getTvViewingAggregates(districtIds, client);
+  const insights: TvSpotInsight[] = [];
+  for (const aggregate of aggregates) {
+    const index = viewingIndex(
+      aggregate.audience_viewers,
+      aggregate.audience_households,
+      aggregate.population_viewers,
+      aggregate.population_households
+    );
+    if (index === null) continue;
+    insights.push({
+      channel: aggregate.channel,
+      programme: aggregate.programme,
+      daypart: aggregate.daypart,
+      genre: aggregate.genre,
+      index,
+      impressions: aggregate.audience_impressions,
+      reach: aggregate.audience_viewers,
+      topRegions: topRegions(aggregate),
+      regionReach: aggregate.region_viewers,
+    });
+  }
+
+  return {
+    insights: insights.sort((a, b) => b.index - a.index),
+    viewingImport,
+    coveredHouseholds: aggregates[0]?.audience_households || 0,
+  };
+}
@@ -10,13 +10,66 @@ export interface SignalConfig {
   spatial_bias?: SpatialBias;
 }
 
+/**
+ * Validation mode agreement rule:
+ * - threshold: at least validation_min_agreement providers (the slider value)
+ * - majority: more than half of the validating providers
+ * - unanimous: every validating provider
+ */
+export type ValidationAgreementMode = 'threshold' | 'majority' | 'unanimous';
+
+/**
+ * Geography validation agreement is computed on: postcode districts (the geo_district_signals
+ * aggregation) or the postcode sectors the signals are delivered at.
+ */
+export type GeoResolution = 'district' | 'sector';
+
+/**
+ * How a provider's raw scores become score_norm (0-1), configured per provider + segment
+ * (signal_normalization_settings) and applied when a batch is imported.
+ */
+export type ScoreNormalizationMethod =
+  | 'divide_by_100'
+  | 'divide_by_max'
+  | 'percentile_rank'
+  | 'z_score'
+  | 'index_to_probability'
+  | 'presence_weight';
+
+export const SCORE_NORMALIZATION_METHODS: Record<ScoreNormalizationMethod, { label: string; description: string }> = {
+  divide_by_100: {
+    label: 'Divide by 100',
+    description: 'Score / 100. The default, for scores already on a 0-100 scale.',
+  },
+  divide_by_max: {
+    label: 'Divide by max',
+    description: 'Score / the highest score in the file, so the top sector is 1.',
+  },
+  percentile_rank: {
+    label: 'Percentile rank',
+    description: 'Position of the score among all sectors in the file (0 = lowest, 1 = highest). Suits deciles and ranks.',
+  },
+  z_score: {
+    label: 'Z-score',
+    description: 'Standard deviations from the file mean, mapped to 0-1 (the mean is 0.5).',
+  },
+  index_to_probability: {
+    label: 'Index to probability',
+    description: 'Index / (index + baseline), so the baseline index (usually 100 = average) is 0.5.',
+  },
+  presence_weight: {
+    label: 'Presence weight',
+    description: 'Ignores scores: every sector the provider lists gets the same fixed weight.',
+  },
+};
+
 export interface ConstructionSettings {
   audience_intent: AudienceIntent | null;
   construction_mode: 'validation' | 'extension';
   active_signals: Record<string, SignalConfig>;
   last_run_at?: string | null;
   validation_min_agreement?: number;
-  validation_agreement_mode?: 'threshold' | 'majority' | 'unanimous';
+  validation_agreement_mode?: ValidationAgreementMode;
 }
 
 export type SignalSourceProvider = 'Outra' | 'Experian' | 'ONS' | 'TwentyCI' | 'CCS';
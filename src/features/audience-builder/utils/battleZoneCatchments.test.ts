@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildRoadGraph,
+  convexHull,
+  describeCatchment,
+  driveMinutesToKm,
+  driveTimesFrom,
+  estimateDriveMinutes,
+  normalizeCatchment,
+  parseRoadGraphRows,
+} from './battleZoneCatchments';
+
+describe('drive time estimates', () => {
+  it('converts between straight-line distance and estimated minutes', () => {
+    expect(estimateDriveMinutes(10)).toBeCloseTo(19.5);
+    expect(driveMinutesToKm(estimateDriveMinutes(12))).toBeCloseTo(12);
+  });
+});
+
+describe('normalizeCatchment', () => {
+  it('defaults missing or older saved catchments to rings', () => {
+    expect(normalizeCatchment(undefined)).toEqual({ mode: 'rings', radiusKm: 10, driveMinutes: 20 });
+    expect(normalizeCatchment({ mode: 'unknown' as never })).toMatchObject({ mode: 'rings' });
+  });
+
+  it('clamps radius and drive time to their ranges', () => {
+    expect(normalizeCatchment({ mode: 'distance', radiusKm: 500, driveMinutes: 1 })).toEqual({
+      mode: 'distance',
+      radiusKm: 50,
+      driveMinutes: 5,
+    });
+    expect(normalizeCatchment({ mode: 'drive_time', driveMinutes: Number.NaN })).toMatchObject({ driveMinutes: 20 });
+  });
+
+  it('describes each mode', () => {
+    expect(describeCatchment({ mode: 'distance', radiusKm: 8, driveMinutes: 20 }, 2)).toBe('8 km radius');
+    expect(describeCatchment({ mode: 'drive_time', radiusKm: 8, driveMinutes: 25 }, 2)).toBe('25 min drive');
+    expect(describeCatchment(undefined, 2)).toBe('rings: 2');
+  });
+});
+
+describe('parseRoadGraphRows', () => {
+  it('normalises districts, keeps the fastest time per pair and skips bad rows', () => {
+    const { edges, skippedRows } = parseRoadGraphRows([
+      { from_district: 'ab1', to_district: 'AB2', minutes: '6' },
+      { from: 'AB2', to: 'AB1', drive_minutes: '4' },
+      { from_district: 'AB2', to_district: 'AB 3', minutes: '5' },
+      { from_district: 'AB3', to_district: 'AB3', minutes: '1' },
+      { from_district: 'AB3', to_district: '', minutes: '1' },
+      { from_district: 'AB3', to_district: 'AB4', minutes: 'slow' },
+      { from_district: 'AB3', to_district: 'AB4', minutes: '-2' },
+    ]);
+    expect(edges).toEqual([
+      { from: 'AB2', to: 'AB1', minutes: 4 },
+      { from: 'AB2', to: 'AB3', minutes: 5 },
+    ]);
+    expect(skippedRows).toBe(4);
+  });
+});
+
+describe('driveTimesFrom', () => {
+  // AB1 -5- AB2 -5- AB3, plus a slow direct AB1 -15- AB3 and a far AB3 -30- AB4
+  const graph = buildRoadGraph([
+    { from: 'AB1', to: 'AB2', minutes: 5 },
+    { from: 'AB2', to: 'AB3', minutes: 5 },
+    { from: 'AB1', to: 'AB3', minutes: 15 },
+    { from: 'AB3', to: 'AB4', minutes: 30 },
+  ]);
+
+  it('finds the shortest route to each district within the limit', () => {
+    const times = driveTimesFrom(graph, 'AB1', 2, 30);
+    expect(Object.fromEntries(times)).toEqual({ AB1: 2, AB2: 7, AB3: 12 });
+  });
+
+  it('drives edges in both directions', () => {
+    expect(driveTimesFrom(graph, 'AB4', 0, 60).get('AB1')).toBe(40);
+  });
+
+  it('includes a district reached exactly at the limit', () => {
+    expect(Array.from(driveTimesFrom(graph, 'AB1', 0, 10).keys()).sort()).toEqual(['AB1', 'AB2', 'AB3']);
+  });
+
+  it('returns only the start for a district off the graph', () => {
+    expect(Object.fromEntries(driveTimesFrom(graph, 'ZZ1', 3, 30))).toEqual({ ZZ1: 3 });
+  });
+});
+
+describe('convexHull', () => {
+  it('drops interior and collinear points', () => {
+    const hull = convexHull([
+      [0, 0],
+      [0, 2],
+      [2, 2],
+      [2, 0],
+      [1, 1],
+      [0, 1],
+    ]);
+    expect(hull).toHaveLength(4);
+    expect(hull).toEqual(expect.arrayContaining([[0, 0], [0, 2], [2, 2], [2, 0]]));
+  });
+
+  it('returns fewer than three points unchanged', () => {
+    expect(convexHull([[51.5, -0.1]])).toEqual([[51.5, -0.1]]);
+    expect(convexHull([])).toEqual([]);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Battle zone catchments: the neighbour-ring walk, a straight-line radius around each base
+ * store, or an approximate drive time. Drive times come from store_drive_times when a road
+ * graph has been imported (db:import:road-graph) and are otherwise estimated from distance.
+ */
+
+export type BattleZoneCatchmentMode = 'rings' | 'distance' | 'drive_time';
+
+export interface BattleZoneCatchment {
+  mode: BattleZoneCatchmentMode;
+  radiusKm: number; // Distance mode
+  driveMinutes: number; // Drive-time mode
+}
+
+export const DEFAULT_BATTLE_ZONE_CATCHMENT: BattleZoneCatchment = {
+  mode: 'rings',
+  radiusKm: 10,
+  driveMinutes: 20,
+};
+
+export const CATCHMENT_RADIUS_KM = { min: 1, max: 50 };
+export const CATCHMENT_DRIVE_MINUTES = { min: 5, max: 60 }; // max is also the road-graph import cutoff
+
+// Must match estimate_drive_minutes() in 045_battle_zone_catchments.sql
+export const DRIVE_DETOUR_FACTOR = 1.3;
+export const DRIVE_SPEED_KMH = 40;
+
+export function estimateDriveMinutes(distanceKm: number): number {
+  return ((distanceKm * DRIVE_DETOUR_FACTOR) / DRIVE_SPEED_KMH) * 60;
+}
+
+/**
+ * Straight-line radius covered by an estimated drive time
+ */
+export function driveMinutesToKm(minutes: number): number {
+  return ((minutes / 60) * DRIVE_SPEED_KMH) / DRIVE_DETOUR_FACTOR;
+}
+
+function clamp(value: unknown, range: { min: number; max: number }, fallback: number): number {
+  const num = Number(value);
+  return Number.isFinite(num) ? Math.min(range.max, Math.max(range.min, num)) : fallback;
+}
+
+/**
+ * Fill in and clamp a (possibly partial or older saved) catchment
+ */
+export function normalizeCatchment(catchment?: Partial<BattleZoneCatchment> | null): BattleZoneCatchment {
+  const mode = catchment?.mode === 'distance' || catchment?.mode === 'drive_time' ? catchment.mode : 'rings';
+  return {
+    mode,
+    radiusKm: clamp(catchment?.radiusKm, CATCHMENT_RADIUS_KM, DEFAULT_BATTLE_ZONE_CATCHMENT.radiusKm),
+    driveMinutes: clamp(catchment?.driveMinutes, CATCHMENT_DRIVE_MINUTES, DEFAULT_BATTLE_ZONE_CATCHMENT.driveMinutes),
+  };
+}
+
+export function describeCatchment(catchment: BattleZoneCatchment | undefined, rings: number): string {
+  switch (catchment?.mode) {
+    case 'distance':
+      return `${catchment.radiusKm} km radius`;
+    case 'drive_time':
+      return `${catchment.driveMinutes} min drive`;
+    default:
+      return `rings: ${rings}`;
+  }
+}
+
+export interface RoadGraphEdge {
+  from: string;
+  to: string;
+  minutes: number;
+}
+
+const normalizeDistrict = (district: string) => district.trim().toUpperCase().replace(/\s+/g, '');
+
+/**
+ * Road-graph CSV rows: from_district, to_district, minutes (also from / to / drive_minutes).
+ * Edges are drivable both ways; a repeated pair keeps its fastest time.
+ */
+export function parseRoadGraphRows(rows: Record<string, string>[]): { edges: RoadGraphEdge[]; skippedRows: number } {
+  const fastest = new Map<string, RoadGraphEdge>();
+  let skippedRows = 0;
+  for (const row of rows) {
+    const from = normalizeDistrict(row.from_district ?? row.from ?? '');
+    const to = normalizeDistrict(row.to_district ?? row.to ?? '');
+    const minutes = Number(row.minutes ?? row.drive_minutes);
+    if (!from || !to || from === to || !Number.isFinite(minutes) || minutes < 0) {
+      skippedRows += 1;
+      continue;
+    }
+    const key = from < to ? `${from}|${to}` : `${to}|${from}`;
+    const existing = fastest.get(key);
+    if (!existing || minutes < existing.minutes) fastest.set(key, { from, to, minutes });
+  }
+  return { edges: Array.from(fastest.values()), skippedRows };
+}
+
+export type RoadGraph = Map<string, Array<{ to: string; minutes: number }>>;
+
+export function buildRoadGraph(edges: RoadGraphEdge[]): RoadGraph {
+  const graph: RoadGraph = new Map();
+  const link = (from: string, to: string, minutes: number) => {
+    const neighbours = graph.get(from) || [];
+    neighbours.push({ to, minutes });
+    graph.set(from, neighbours);
+  };
+  for (const edge of edges) {
+    link(edge.from, edge.to, edge.minutes);
+    link(edge.to, edge.from, edge.minutes);
+  }
+  return graph;
+}
+
+/**
+ * Shortest drive minutes from a start district (Dijkstra), stopping at maxMinutes.
+ * startMinutes covers the drive from the store to its district centroid.
+ */
+export function driveTimesFrom(
+  graph: RoadGraph,
+  start: string,
+  startMinutes: number,
+  maxMinutes: number
+): Map<string, number> {
+  const settled = new Map<string, number>();
+  const frontier = new Map<string, number>([[start, startMinutes]]);
+
+  while (frontier.size > 0) {
+    let district = '';
+    let minutes = Infinity;
+    frontier.forEach((value, key) => {
+      if (value < minutes) {
+        district = key;
+        minutes = value;
+      }
+    });
+    frontier.delete(district);
+    settled.set(district, minutes);
+
+    for (const edge of graph.get(district) || []) {
+      const next = minutes + edge.minutes;
+      if (next > maxMinutes || settled.has(edge.to)) continue;
+      if (next < (frontier.get(edge.to) ?? Infinity)) frontier.set(edge.to, next);
+    }
+  }
+  return settled;
+}
+
+/**
+ * Convex hull (monotone chain) of [lat, lng] points, for outlining road-graph catchments
+ */
+export function convexHull(points: Array<[number, number]>): Array<[number, number]> {
+  const sorted = [...points].sort((a, b) => a[1] - b[1] || a[0] - b[0]);
+  if (sorted.length < 3) return sorted;
+  const cross = (o: [number, number], a: [number, number], b: [number, number]) =>
+    (a[1] - o[1]) * (b[0] - o[0]) - (a[0] - o[0]) * (b[1] - o[1]);
+
+  const lower: Array<[number, number]> = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+    lower.push(point);
+  }
+  const upper: Array<[number, number]> = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const point = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop();
+    upper.push(point);
+  }
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
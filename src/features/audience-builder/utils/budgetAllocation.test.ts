@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AllocationDistrict,
+  allocateBudget,
+  allocateDistricts,
+  BudgetAllocation,
+  budgetAllocationToCsv,
+  RegionAllocationRules,
+} from './budgetAllocation';
+
+const names = new Map([
+  ['r1', 'London'],
+  ['r2', 'Midlands'],
+  ['r3', 'Wales'],
+]);
+
+// 60% / 30% / 10% of households
+const districts: AllocationDistrict[] = [
+  { district: 'AB1', households: 4000, regionKeys: ['r1'] },
+  { district: 'AB2', households: 2000, regionKeys: ['r1'] },
+  { district: 'AB3', households: 3000, regionKeys: ['r2'] },
+  { district: 'AB4', households: 1000, regionKeys: ['r3'] },
+];
+
+const allocate = (rules: RegionAllocationRules = {}, budget = 10000) => allocateBudget(budget, districts, names, rules);
+
+const byRegion = (allocation: BudgetAllocation) =>
+  Object.fromEntries(allocation.regions.map((region) => [region.regionKey, region]));
+
+describe('allocateBudget', () => {
+  it('splits the budget by households, most households first', () => {
+    const allocation = allocate();
+    expect(allocation.regions.map((r) => [r.name, r.amount, r.limitedBy])).toEqual([
+      ['London', 6000, null],
+      ['Midlands', 3000, null],
+      ['Wales', 1000, null],
+    ]);
+    expect(allocation.allocated).toBe(10000);
+    expect(allocation.warnings).toEqual([]);
+  });
+
+  it('counts a district in several regions once, split evenly', () => {
+    const allocation = allocateBudget(
+      1000,
+      [
+        { district: 'AB1', households: 2000, regionKeys: ['r1', 'r2'] },
+        { district: 'AB2', households: 2000, regionKeys: ['r2'] },
+      ],
+      names
+    );
+    const regions = byRegion(allocation);
+    expect(regions.r1).toMatchObject({ districts: 1, households: 1000, amount: 250 });
+    expect(regions.r2).toMatchObject({ districts: 2, households: 3000, amount: 750 });
+  });
+
+  it('pins regions over their maximum and re-splits the rest', () => {
+    const regions = byRegion(allocate({ r1: { maxPct: 50 } }));
+    expect(regions.r1).toMatchObject({ amount: 5000, limitedBy: 'max', proportionalAmount: 6000 });
+    expect(regions.r2.amount).toBeCloseTo(3750);
+    expect(regions.r3.amount).toBeCloseTo(1250);
+  });
+
+  it('pins regions under their minimum and takes the difference from the others', () => {
+    const regions = byRegion(allocate({ r3: { minPct: 25 } }));
+    expect(regions.r3).toMatchObject({ amount: 2500, limitedBy: 'min' });
+    expect(regions.r1.amount).toBeCloseTo(5000);
+    expect(regions.r2.amount).toBeCloseTo(2500);
+  });
+
+  it('keeps re-splitting until neither limit is breached', () => {
+    // Pinning London to its cap pushes Wales' share further under its floor
+    const allocation = allocate({ r1: { maxPct: 50 }, r3: { minPct: 20 } });
+    const regions = byRegion(allocation);
+    expect(regions.r1).toMatchObject({ amount: 5000, limitedBy: 'max' });
+    expect(regions.r3).toMatchObject({ amount: 2000, limitedBy: 'min' });
+    expect(regions.r2).toMatchObject({ amount: 3000, limitedBy: null });
+    expect(allocation.allocated).toBeCloseTo(10000);
+  });
+
+  it('treats a minimum above the maximum as a fixed share', () => {
+    const regions = byRegion(allocate({ r2: { minPct: 40, maxPct: 20 } }));
+    expect(regions.r2).toMatchObject({ amount: 4000, limitedBy: 'min' });
+  });
+
+  it('gives manual amounts first and splits the remainder', () => {
+    const allocation = allocate({ r1: { amount: 2000, maxPct: 5 } });
+    const regions = byRegion(allocation);
+    expect(regions.r1).toMatchObject({ amount: 2000, limitedBy: 'override', share: 0.2 });
+    expect(regions.r2.amount).toBeCloseTo(6000);
+    expect(regions.r3.amount).toBeCloseTo(2000);
+  });
+
+  it('warns when manual amounts exceed the budget', () => {
+    const allocation = allocate({ r1: { amount: 12000 } });
+    const regions = byRegion(allocation);
+    expect(regions.r2.amount).toBe(0);
+    expect(regions.r3.amount).toBe(0);
+    expect(allocation.warnings).toContain('Manual amounts exceed the budget; other regions receive nothing.');
+  });
+
+  it('scales minimums down when they exceed the budget', () => {
+    const allocation = allocate({ r1: { minPct: 80 }, r2: { minPct: 40 } });
+    const regions = byRegion(allocation);
+    expect(regions.r1.amount).toBeCloseTo(6666.67, 1);
+    expect(regions.r2.amount).toBeCloseTo(3333.33, 1);
+    expect(regions.r3.amount).toBe(0);
+    expect(allocation.warnings).toContain(
+      'Regional minimums exceed the budget available; minimums are scaled down to fit.'
+    );
+  });
+
+  it('leaves budget unallocated when every region is capped below it', () => {
+    const allocation = allocate({ r1: { maxPct: 30 }, r2: { maxPct: 30 }, r3: { maxPct: 30 } });
+    expect(allocation.allocated).toBeCloseTo(9000);
+    expect(allocation.warnings).toContain('Regional maximums leave part of the budget unallocated.');
+  });
+
+  it('reports districts without a TV region as unassigned', () => {
+    const allocation = allocateBudget(
+      1000,
+      [...districts, { district: 'ZZ1', households: 500, regionKeys: [] }],
+      names
+    );
+    expect(allocation.unassigned).toEqual({ districts: 1, households: 500 });
+    expect(allocation.allocated).toBeCloseTo(1000);
+    expect(allocation.warnings).toEqual(['1 district (500 households) has no TV region and is not allocated.']);
+  });
+});
+
+describe('allocateDistricts', () => {
+  it('splits each region across its districts by households', () => {
+    const rows = allocateDistricts(allocate(), districts);
+    expect(rows.map((row) => [row.regionKey, row.district, row.amount])).toEqual([
+      ['r1', 'AB1', 4000],
+      ['r1', 'AB2', 2000],
+      ['r2', 'AB3', 3000],
+      ['r3', 'AB4', 1000],
+    ]);
+  });
+
+  it('splits straddling districts across their regions', () => {
+    const straddling: AllocationDistrict[] = [{ district: 'AB1', households: 2000, regionKeys: ['r1', 'r2'] }];
+    const rows = allocateDistricts(allocateBudget(1000, straddling, names), straddling);
+    expect(rows).toEqual([
+      { district: 'AB1', regionKey: 'r1', households: 1000, amount: 500 },
+      { district: 'AB1', regionKey: 'r2', households: 1000, amount: 500 },
+    ]);
+  });
+});
+
+describe('budgetAllocationToCsv', () => {
+  it('writes one row per region, or per region and district', () => {
+    const allocation = allocate({ r1: { maxPct: 50 } });
+    const regionCsv = budgetAllocationToCsv(allocation).split(/\r?\n/);
+    expect(regionCsv[0]).toBe(
+      'tv_region,region_key,districts,households,household_share_pct,proportional_budget_gbp,budget_gbp,budget_share_pct,limited_by'
+    );
+    expect(regionCsv[1]).toBe('London,r1,2,6000,60.0,6000.00,5000.00,50.0,max');
+
+    const districtCsv = budgetAllocationToCsv(allocation, allocateDistricts(allocation, districts)).split(/\r?\n/);
+    expect(districtCsv[0]).toBe('tv_region,district,households,budget_gbp,budget_share_pct');
+    expect(districtCsv).toHaveLength(5);
+  });
+});
@@ -0,0 +1,255 @@
+import Papa from 'papaparse';
+
+/**
+ * Split a campaign budget across TV regions in proportion to in-audience households, with
+ * per-region min/max caps (% of budget) and fixed manual amounts. Regions are then split
+ * across their districts by households for district-level buys.
+ */
+
+export interface AllocationDistrict {
+  district: string;
+  households: number;
+  regionKeys: string[]; // Empty when the district has no TV region
+}
+
+export interface RegionAllocationRule {
+  minPct?: number; // Floor as % of budget
+  maxPct?: number; // Cap as % of budget
+  amount?: number; // Manual override (GBP); caps are ignored for overridden regions
+}
+
+export type RegionAllocationRules = Record<string, RegionAllocationRule>;
+
+export interface RegionAllocation {
+  regionKey: string;
+  name: string;
+  districts: number;
+  households: number; // Straddling districts count once, split evenly across their regions
+  householdShare: number; // 0-1 of allocatable households
+  proportionalAmount: number; // Before caps and overrides
+  amount: number;
+  share: number; // 0-1 of budget
+  limitedBy: 'min' | 'max' | 'override' | null;
+}
+
+export interface DistrictAllocation {
+  district: string;
+  regionKey: string;
+  households: number; // The district's households counted in this region
+  amount: number;
+}
+
+export interface BudgetAllocation {
+  budget: number;
+  allocated: number;
+  regions: RegionAllocation[]; // Most households first
+  unassigned: { districts: number; households: number }; // No TV region, so not allocated
+  warnings: string[];
+}
+
+function regionHouseholds(districts: AllocationDistrict[]) {
+  const byRegion = new Map<string, { districts: number; households: number }>();
+  const unassigned = { districts: 0, households: 0 };
+  for (const district of districts) {
+    if (district.regionKeys.length === 0) {
+      unassigned.districts += 1;
+      unassigned.households += district.households;
+      continue;
+    }
+    const portion = district.households / district.regionKeys.length;
+    for (const regionKey of district.regionKeys) {
+      const entry = byRegion.get(regionKey) || { districts: 0, households: 0 };
+      entry.districts += 1;
+      entry.households += portion;
+      byRegion.set(regionKey, entry);
+    }
+  }
+  return { byRegion, unassigned };
+}
+
+/**
+ * Household-proportional split of `amount` with floors and caps: regions that breach a limit
+ * are pinned to it and the rest is re-split among the others until nothing breaches.
+ */
+function cappedSplit(
+  amount: number,
+  regions: Array<{ regionKey: string; households: number; min: number; max: number }>
+): Map<string, { amount: number; limitedBy: 'min' | 'max' | null }> {
+  const result = new Map<string, { amount: number; limitedBy: 'min' | 'max' | null }>();
+  let free = regions;
+  let remaining = amount;
+
+  while (free.length > 0) {
+    const households = free.reduce((sum, region) => sum + region.households, 0);
+    const proposed = free.map((region) => ({
+      region,
+      amount: households > 0 ? (remaining * region.households) / households : remaining / free.length,
+    }));
+    const under = proposed.filter(({ region, amount }) => amount < region.min);
+    const over = proposed.filter(({ region, amount }) => amount > region.max);
+    if (under.length === 0 && over.length === 0) {
+      proposed.forEach(({ region, amount }) => result.set(region.regionKey, { amount, limitedBy: null }));
+      break;
+    }
+    // Pin one side per pass (the larger violation) so re-splitting can't push the other side back over
+    const deficit = under.reduce((sum, { region, amount }) => sum + region.min - amount, 0);
+    const excess = over.reduce((sum, { region, amount }) => sum + amount - region.max, 0);
+    const pinMax = excess >= deficit;
+    const breaches = pinMax ? over : under;
+    for (const { region } of breaches) {
+      const pinned = pinMax ? region.max : region.min;
+      result.set(region.regionKey, { amount: pinned, limitedBy: pinMax ? 'max' : 'min' });
+      remaining -= pinned;
+    }
+    const pinnedKeys = new Set(breaches.map(({ region }) => region.regionKey));
+    free = free.filter((region) => !pinnedKeys.has(region.regionKey));
+  }
+  return result;
+}
+
+export function allocateBudget(
+  budget: number,
+  districts: AllocationDistrict[],
+  regionNames: Map<string, string>,
+  rules: RegionAllocationRules = {}
+): BudgetAllocation {
+  const { byRegion, unassigned } = regionHouseholds(districts);
+  const totalHouseholds = Array.from(byRegion.values()).reduce((sum, region) => sum + region.households, 0);
+  const warnings: string[] = [];
+
+  const overridden = Array.from(byRegion.keys()).filter((key) => rules[key]?.amount !== undefined);
+  const overrideTotal = overridden.reduce((sum, key) => sum + Math.max(0, rules[key].amount!), 0);
+  const remaining = Math.max(0, budget - overrideTotal);
+  if (overrideTotal > budget) {
+    warnings.push('Manual amounts exceed the budget; other regions receive nothing.');
+  }
+
+  const capped = Array.from(byRegion.entries())
+    .filter(([key]) => !overridden.includes(key))
+    .map(([regionKey, region]) => {
+      const rule = rules[regionKey] || {};
+      const min = rule.minPct !== undefined ? (budget * rule.minPct) / 100 : 0;
+      const max = rule.maxPct !== undefined ? (budget * rule.maxPct) / 100 : Infinity;
+      return { regionKey, households: region.households, min, max: Math.max(min, max) };
+    });
+
+  const minTotal = capped.reduce((sum, region) => sum + region.min, 0);
+  const maxTotal = capped.reduce((sum, region) => sum + region.max, 0);
+  let split: Map<string, { amount: number; limitedBy: 'min' | 'max' | null }>;
+  if (minTotal > remaining) {
+    warnings.push('Regional minimums exceed the budget available; minimums are scaled down to fit.');
+    const scale = minTotal > 0 ? remaining / minTotal : 0;
+    split = new Map(capped.map((region) => [region.regionKey, { amount: region.min * scale, limitedBy: 'min' as const }]));
+  } else {
+    split = cappedSplit(remaining, capped);
+    if (capped.length > 0 && maxTotal < remaining) {
+      warnings.push('Regional maximums leave part of the budget unallocated.');
+    }
+  }
+
+  const regions: RegionAllocation[] = Array.from(byRegion.entries()).map(([regionKey, region]) => {
+    const isOverride = overridden.includes(regionKey);
+    const entry = isOverride
+      ? { amount: Math.max(0, rules[regionKey].amount!), limitedBy: 'override' as const }
+      : split.get(regionKey) || { amount: 0, limitedBy: null };
+    const householdShare = totalHouseholds > 0 ? region.households / totalHouseholds : 0;
+    return {
+      regionKey,
+      name: regionNames.get(regionKey) || regionKey,
+      districts: region.districts,
+      households: Math.round(region.households),
+      householdShare,
+      proportionalAmount: budget * householdShare,
+      amount: entry.amount,
+      share: budget > 0 ? entry.amount / budget : 0,
+      limitedBy: entry.limitedBy,
+    };
+  });
+
+  if (unassigned.districts > 0) {
+    const single = unassigned.districts === 1;
+    const households = Math.round(unassigned.households).toLocaleString();
+    warnings.push(
+      `${unassigned.districts} district${single ? '' : 's'} (${households} households) ${single ? 'has' : 'have'} no TV region and ${single ? 'is' : 'are'} not allocated.`
+    );
+  }
+
+  return {
+    budget,
+    allocated: regions.reduce((sum, region) => sum + region.amount, 0),
+    regions: regions.sort((a, b) => b.households - a.households),
+    unassigned: { districts: unassigned.districts, households: Math.round(unassigned.households) },
+    warnings,
+  };
+}
+
+/**
+ * Split each region's amount across its districts by the households counted in that region
+ */
+export function allocateDistricts(allocation: BudgetAllocation, districts: AllocationDistrict[]): DistrictAllocation[] {
+  const regionAmounts = new Map(allocation.regions.map((region) => [region.regionKey, region]));
+  const rows: DistrictAllocation[] = [];
+  for (const district of districts) {
+    for (const regionKey of district.regionKeys) {
+      const region = regionAmounts.get(regionKey);
+      if (!region) continue;
+      const households = district.households / district.regionKeys.length;
+      rows.push({
+        district: district.district,
+        regionKey,
+        households: Math.round(households),
+        amount: region.households > 0 ? (region.amount * households) / region.households : 0,
+      });
+    }
+  }
+  return rows.sort((a, b) => a.regionKey.localeCompare(b.regionKey) || b.amount - a.amount);
+}
+
+/**
+ * Allocation table for the buying team: one row per region, or per region + district
+ */
+export function budgetAllocationToCsv(
+  allocation: BudgetAllocation,
+  districtRows?: DistrictAllocation[]
+): string {
+  const money = (value: number) => value.toFixed(2);
+  const names = new Map(allocation.regions.map((region) => [region.regionKey, region.name]));
+
+  if (districtRows) {
+    return Papa.unparse({
+      fields: ['tv_region', 'district', 'households', 'budget_gbp', 'budget_share_pct'],
+      data: districtRows.map((row) => [
+        names.get(row.regionKey) || row.regionKey,
+        row.district,
+        row.households,
+        money(row.amount),
+        allocation.budget > 0 ? ((row.amount / allocation.budget) * 100).toFixed(2) : '0.00',
+      ]),
+    });
+  }
+
+  return Papa.unparse({
+    fields: [
+      'tv_region',
+      'region_key',
+      'districts',
+      'households',
+      'household_share_pct',
+      'proportional_budget_gbp',
+      'budget_gbp',
+      'budget_share_pct',
+      'limited_by',
+    ],
+    data: allocation.regions.map((region) => [
+      region.name,
+      region.regionKey,
+      region.districts,
+      region.households,
+      (region.householdShare * 100).toFixed(1),
+      money(region.proportionalAmount),
+      money(region.amount),
+      (region.share * 100).toFixed(1),
+      region.limitedBy || '',
+    ]),
+  });
+}
@@ -0,0 +1,19 @@
+/**
+ * Browser download for CSV tables built client-side (airtime plan, budget allocation)
+ */
+export function downloadCsv(csv: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * `<audience-name>-<suffix>.csv`, lowercased and hyphenated
+ */
+export function csvFilename(audienceName: string | undefined, suffix: string): string {
+  const slug = (audienceName || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'audience'}-${suffix}.csv`;
+}
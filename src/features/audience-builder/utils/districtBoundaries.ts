@@ -0,0 +1,139 @@
+import type { Geometry, MultiPolygon, Polygon, Position } from 'geojson';
+
+export type BoundaryGeometry = Polygon | MultiPolygon;
+
+export interface BoundaryDetailLevel {
+  minZoom: number; // used from this map zoom until the next level's minZoom
+  tolerance: number; // Douglas-Peucker tolerance in degrees
+}
+
+/**
+ * Simplification bands stored in geo_district_boundaries. Coarse shapes keep the national
+ * view light; the finest level is close to the source and is what exports emit.
+ */
+export const BOUNDARY_DETAIL_LEVELS: BoundaryDetailLevel[] = [
+  { minZoom: 0, tolerance: 0.005 },
+  { minZoom: 9, tolerance: 0.001 },
+  { minZoom: 12, tolerance: 0.0002 },
+];
+
+export const EXPORT_BOUNDARY_ZOOM = BOUNDARY_DETAIL_LEVELS[BOUNDARY_DETAIL_LEVELS.length - 1].minZoom;
+
+/**
+ * The stored detail level (its min_zoom) to draw at the given map zoom
+ */
+export function boundaryZoomLevelFor(zoom: number): number {
+  let level = BOUNDARY_DETAIL_LEVELS[0].minZoom;
+  for (const detail of BOUNDARY_DETAIL_LEVELS) {
+    if (zoom >= detail.minZoom) level = detail.minZoom;
+  }
+  return level;
+}
+
+export function isBoundaryGeometry(geometry: Geometry | null | undefined): geometry is BoundaryGeometry {
+  return !!geometry && (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon');
+}
+
+export function countVertices(geometry: BoundaryGeometry): number {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.reduce(
+    (sum, rings) => sum + rings.reduce((ringSum, ring) => ringSum + ring.length, 0),
+    0
+  );
+}
+
+function perpendicularDistance(point: Position, start: Position, end: Position): number {
+  const dx = end[0] - start[0];
+  const dy = end[1] - start[1];
+  if (dx === 0 && dy === 0) {
+    return Math.hypot(point[0] - start[0], point[1] - start[1]);
+  }
+  const t = ((point[0] - start[0]) * dx + (point[1] - start[1]) * dy) / (dx * dx + dy * dy);
+  const clamped = Math.max(0, Math.min(1, t));
+  return Math.hypot(point[0] - (start[0] + clamped * dx), point[1] - (start[1] + clamped * dy));
+}
+
+/**
+ * Douglas-Peucker over an open line (iterative, so large rings don't overflow the stack)
+ */
+function simplifyLine(points: Position[], tolerance: number): Position[] {
+  if (points.length <= 2) return points;
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const distance = perpendicularDistance(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i] === 1);
+}
+
+/**
+ * Simplify a closed ring. Returns null when it collapses below a valid ring (4 positions).
+ */
+function simplifyRing(ring: Position[], tolerance: number): Position[] | null {
+  if (ring.length < 4) return null;
+  // Split at the point furthest from the start so the closing point isn't the only anchor
+  let splitIndex = 0;
+  let maxDistance = 0;
+  for (let i = 1; i < ring.length - 1; i++) {
+    const distance = Math.hypot(ring[i][0] - ring[0][0], ring[i][1] - ring[0][1]);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      splitIndex = i;
+    }
+  }
+  if (splitIndex === 0) return null;
+
+  const firstHalf = simplifyLine(ring.slice(0, splitIndex + 1), tolerance);
+  const secondHalf = simplifyLine(ring.slice(splitIndex), tolerance);
+  const simplified = [...firstHalf, ...secondHalf.slice(1)];
+  return simplified.length >= 4 ? simplified : null;
+}
+
+function simplifyPolygonRings(rings: Position[][], tolerance: number): Position[][] | null {
+  if (rings.length === 0) return null;
+  const outer = simplifyRing(rings[0], tolerance);
+  if (!outer) return null;
+  // Holes that collapse are dropped rather than invalidating the polygon
+  const holes = rings
+    .slice(1)
+    .map((ring) => simplifyRing(ring, tolerance))
+    .filter((ring): ring is Position[] => ring !== null);
+  return [outer, ...holes];
+}
+
+/**
+ * Simplify a district boundary for storage at a detail level. Parts whose outer ring
+ * collapses are dropped (small islands); if nothing survives the original is returned.
+ */
+export function simplifyGeometry(geometry: BoundaryGeometry, tolerance: number): BoundaryGeometry {
+  if (geometry.type === 'Polygon') {
+    const rings = simplifyPolygonRings(geometry.coordinates, tolerance);
+    return rings ? { type: 'Polygon', coordinates: rings } : geometry;
+  }
+
+  const polygons = geometry.coordinates
+    .map((rings) => simplifyPolygonRings(rings, tolerance))
+    .filter((rings): rings is Position[][] => rings !== null);
+  if (polygons.length === 0) return geometry;
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { ResolvedDistrict } from '../services/audienceResolution.service';
+import { combineDistricts } from './districtSetOperations';
+
+function district(code: string, overrides: Partial<ResolvedDistrict> = {}): ResolvedDistrict {
+  return {
+    district: code,
+    centroid_lat: 51.5,
+    centroid_lng: -0.1,
+    agreementCount: 1,
+    avgConfidence: 0.5,
+    providers: ['CCS'],
+    ...overrides,
+  };
+}
+
+const codes = (districts: ResolvedDistrict[]) => districts.map((d) => d.district);
+
+describe('combineDistricts', () => {
+  const first = [district('AB2'), district('AB1'), district('AB3')];
+  const second = [district('AB3'), district('AB4'), district('AB1')];
+  const third = [district('AB1'), district('AB5')];
+
+  it('returns nothing without sources', () => {
+    expect(combineDistricts('union', [])).toEqual([]);
+  });
+
+  it('unions districts from every source, sorted', () => {
+    expect(codes(combineDistricts('union', [first, second, third]))).toEqual(['AB1', 'AB2', 'AB3', 'AB4', 'AB5']);
+  });
+
+  it('intersects districts present in every source', () => {
+    expect(codes(combineDistricts('intersect', [first, second]))).toEqual(['AB1', 'AB3']);
+    expect(codes(combineDistricts('intersect', [first, second, third]))).toEqual(['AB1']);
+  });
+
+  it('does not count a district listed twice in one source as two sources', () => {
+    const duplicated = [district('AB1'), district('AB1'), district('AB2')];
+    expect(codes(combineDistricts('intersect', [duplicated, [district('AB2')]]))).toEqual(['AB2']);
+  });
+
+  it('excludes districts in any later source from the first', () => {
+    expect(codes(combineDistricts('exclude', [first, second]))).toEqual(['AB2']);
+    expect(codes(combineDistricts('exclude', [first, [district('AB9')]]))).toEqual(['AB1', 'AB2', 'AB3']);
+  });
+
+  it('keeps the strongest agreement and confidence and merges providers', () => {
+    const [merged] = combineDistricts('union', [
+      [district('AB1', { agreementCount: 2, avgConfidence: 0.4, providers: ['ONS', 'CCS'] })],
+      [district('AB1', { agreementCount: 1, avgConfidence: 0.9, providers: ['Experian'] })],
+    ]);
+    expect(merged).toMatchObject({ agreementCount: 2, avgConfidence: 0.9, providers: ['CCS', 'Experian', 'ONS'] });
+  });
+
+  it('takes excluded districts from the first source only', () => {
+    const [kept] = combineDistricts('exclude', [
+      [district('AB1', { agreementCount: 1, providers: ['CCS'] })],
+      [district('AB2', { agreementCount: 3, providers: ['ONS'] })],
+    ]);
+    expect(kept).toMatchObject({ district: 'AB1', agreementCount: 1, providers: ['CCS'] });
+  });
+
+  it('drops battle zone annotations', () => {
+    const [merged] = combineDistricts('union', [[district('AB1', { battleZoneCategory: 'contested' })]]);
+    expect(merged.battleZoneCategory).toBeUndefined();
+  });
+});
@@ -0,0 +1,72 @@
+import type { CompositionOperation } from '../api/compositions';
+import type { ResolvedDistrict } from '../services/audienceResolution.service';
+
+export const COMPOSITION_OPERATION_LABELS: Record<CompositionOperation, string> = {
+  union: 'Union',
+  intersect: 'Intersect',
+  exclude: 'Exclude',
+};
+
+/**
+ * Merge the same district from several sources: strongest agreement/confidence wins,
+ * providers are the union (sorted)
+ */
+function mergeDistrict(matches: ResolvedDistrict[]): ResolvedDistrict {
+  const [first] = matches;
+  return {
+    district: first.district,
+    centroid_lat: first.centroid_lat,
+    centroid_lng: first.centroid_lng,
+    agreementCount: Math.max(...matches.map((d) => d.agreementCount)),
+    avgConfidence: Math.max(...matches.map((d) => d.avgConfidence)),
+    providers: Array.from(new Set(matches.flatMap((d) => d.providers))).sort(),
+  };
+}
+
+/**
+ * Apply a set operation to resolved district lists (IncludedDistrict shapes from
+ * getValidationResults / getProviderImpact, as normalized by resolveAudience).
+ *
+ * - union: districts in any source
+ * - intersect: districts in every source
+ * - exclude: districts in the first source and in none of the others
+ *
+ * Battle-zone annotations are per-source overlays and are dropped. Result is sorted by district.
+ */
+export function combineDistricts(
+  operation: CompositionOperation,
+  sources: ResolvedDistrict[][]
+): ResolvedDistrict[] {
+  if (sources.length === 0) return [];
+
+  const byDistrict = new Map<string, ResolvedDistrict[]>();
+  const sourceCount = new Map<string, number>();
+  sources.forEach((districts) => {
+    const seen = new Set<string>();
+    for (const d of districts) {
+      byDistrict.set(d.district, [...(byDistrict.get(d.district) || []), d]);
+      if (!seen.has(d.district)) {
+        seen.add(d.district);
+        sourceCount.set(d.district, (sourceCount.get(d.district) || 0) + 1);
+      }
+    }
+  });
+
+  let included: string[];
+  if (operation === 'union') {
+    included = Array.from(byDistrict.keys());
+  } else if (operation === 'intersect') {
+    included = Array.from(byDistrict.keys()).filter((d) => sourceCount.get(d) === sources.length);
+  } else {
+    const excluded = new Set(sources.slice(1).flatMap((districts) => districts.map((d) => d.district)));
+    included = Array.from(new Set(sources[0].map((d) => d.district))).filter((d) => !excluded.has(d));
+  }
+
+  return included
+    .sort()
+    .map((district) =>
+      operation === 'exclude'
+        ? mergeDistrict(byDistrict.get(district)!.filter((d) => sources[0].includes(d)))
+        : mergeDistrict(byDistrict.get(district)!)
+    );
+}
@@ -0,0 +1,71 @@
+// Color palette centered around #3bc8ea
+export const DONUT_COLOR_PALETTE = [
+  '#3bc8ea', // Base lightbox blue
+  '#5dd4f0', // Lighter
+  '#1bb4d6', // Darker
+  '#7de0f5', // Very light
+  '#0a9fc4', // Very dark
+  '#9de8f8', // Lightest
+  '#0088a8', // Darkest
+];
+
+export type DonutSegment<T> = T & {
+  normalizedPercent: number;
+  startAngle: number; // Degrees, -90 is the top
+  endAngle: number;
+  color: string;
+};
+
+/**
+ * Normalize provider shares to 100% and lay them out clockwise from the top
+ */
+export function buildDonutSegments<T extends { percentContributed: number }>(items: T[]): DonutSegment<T>[] {
+  if (items.length === 0) return [];
+
+  const total = items.reduce((sum, item) => sum + item.percentContributed, 0);
+  let currentAngle = -90; // Start at top
+  return items.map((item, index) => {
+    const normalizedPercent = total > 0 ? (item.percentContributed / total) * 100 : 0;
+    const startAngle = currentAngle;
+    const endAngle = currentAngle + (normalizedPercent / 100) * 360;
+    currentAngle = endAngle;
+
+    return {
+      ...item,
+      normalizedPercent,
+      startAngle,
+      endAngle,
+      color: DONUT_COLOR_PALETTE[index % DONUT_COLOR_PALETTE.length],
+    };
+  });
+}
+
+/**
+ * SVG path of one ring segment. A full circle is drawn just short of 360° because an arc
+ * whose endpoints coincide renders nothing.
+ */
+export function donutArcPath(
+  centerX: number,
+  centerY: number,
+  radius: number,
+  innerRadius: number,
+  startAngle: number,
+  endAngle: number
+): string {
+  const start = (startAngle * Math.PI) / 180;
+  const end = (Math.min(endAngle, startAngle + 359.99) * Math.PI) / 180;
+
+  const x1 = centerX + radius * Math.cos(start);
+  const y1 = centerY + radius * Math.sin(start);
+  const x2 = centerX + radius * Math.cos(end);
+  const y2 = centerY + radius * Math.sin(end);
+
+  const x3 = centerX + innerRadius * Math.cos(end);
+  const y3 = centerY + innerRadius * Math.sin(end);
+  const x4 = centerX + innerRadius * Math.cos(start);
+  const y4 = centerY + innerRadius * Math.sin(start);
+
+  const largeArc = end - start > Math.PI ? 1 : 0;
+
+  return `M ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2} L ${x3} ${y3} A ${innerRadius} ${innerRadius} 0 ${largeArc} 0 ${x4} ${y4} Z`;
+}
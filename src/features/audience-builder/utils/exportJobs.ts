@@ -0,0 +1,19 @@
+import { Export } from '@/lib/types';
+
+// A queued/running job not updated for this long was interrupted (e.g. server restart)
+export const STALE_EXPORT_JOB_MS = 10 * 60 * 1000;
+
+export function isExportJobActive(job: Pick<Export, 'status'>): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+export function isExportJobStale(job: Pick<Export, 'status' | 'updated_at'>, now: number = Date.now()): boolean {
+  return isExportJobActive(job) && !!job.updated_at && now - new Date(job.updated_at).getTime() > STALE_EXPORT_JOB_MS;
+}
+
+/**
+ * Failed and interrupted jobs can be run again with their stored parameters
+ */
+export function canRetryExportJob(job: Pick<Export, 'status' | 'updated_at' | 'job_params'>): boolean {
+  return !!job.job_params && (job.status === 'failed' || isExportJobStale(job));
+}
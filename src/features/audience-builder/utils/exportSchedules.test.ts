@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { compareDistrictLists, computeNextRunAt } from './exportSchedules';
+
+describe('computeNextRunAt', () => {
+  const from = new Date('2026-01-31T06:30:00Z');
+
+  it('adds a day or a week', () => {
+    expect(computeNextRunAt('daily', from).toISOString()).toBe('2026-02-01T06:30:00.000Z');
+    expect(computeNextRunAt('weekly', from).toISOString()).toBe('2026-02-07T06:30:00.000Z');
+  });
+
+  it('keeps the day of month, clamped to the length of the next month', () => {
+    expect(computeNextRunAt('monthly', from).toISOString()).toBe('2026-02-28T06:30:00.000Z');
+    expect(computeNextRunAt('monthly', new Date('2028-01-31T06:30:00Z')).toISOString()).toBe('2028-02-29T06:30:00.000Z');
+    expect(computeNextRunAt('monthly', new Date('2026-03-15T06:30:00Z')).toISOString()).toBe('2026-04-15T06:30:00.000Z');
+    expect(computeNextRunAt('monthly', new Date('2026-12-31T06:30:00Z')).toISOString()).toBe('2027-01-31T06:30:00.000Z');
+  });
+
+  it('does not modify the start date', () => {
+    const start = new Date('2026-01-31T06:30:00Z');
+    computeNextRunAt('monthly', start);
+    expect(start.toISOString()).toBe('2026-01-31T06:30:00.000Z');
+  });
+});
+
+describe('compareDistrictLists', () => {
+  it('never marks the first run as material', () => {
+    const change = compareDistrictLists(null, ['AB1', 'AB2'], 10);
+    expect(change).toMatchObject({
+      previous_count: 0,
+      current_count: 2,
+      added_count: 2,
+      removed_count: 0,
+      changed_pct: 0,
+      material: false,
+    });
+  });
+
+  it('measures added and removed districts against the previous run', () => {
+    const change = compareDistrictLists(['AB1', 'AB2', 'AB3', 'AB4'], ['AB5', 'AB2', 'AB3', 'AB4'], 50, 'export-1');
+    expect(change).toEqual({
+      previous_export_id: 'export-1',
+      previous_count: 4,
+      current_count: 4,
+      added_count: 1,
+      removed_count: 1,
+      changed_pct: 50,
+      threshold_pct: 50,
+      material: true,
+      added_sample: ['AB5'],
+      removed_sample: ['AB1'],
+    });
+  });
+
+  it('is not material below the threshold or without changes', () => {
+    expect(compareDistrictLists(['AB1', 'AB2', 'AB3', 'AB4'], ['AB1', 'AB2', 'AB3'], 30).material).toBe(false);
+    expect(compareDistrictLists(['AB1'], ['AB1'], 0).material).toBe(false);
+  });
+
+  it('treats districts appearing after an empty run as a full change', () => {
+    const change = compareDistrictLists([], ['AB1'], 10);
+    expect(change.changed_pct).toBe(100);
+    expect(change.material).toBe(true);
+  });
+
+  it('samples sorted district lists', () => {
+    const previous = Array.from({ length: 60 }, (_, i) => `ZZ${i}`);
+    const change = compareDistrictLists(previous, ['AB2', 'AB1'], 10);
+    expect(change.added_sample).toEqual(['AB1', 'AB2']);
+    expect(change.removed_sample).toHaveLength(50);
+    expect(change.removed_count).toBe(60);
+  });
+});
@@ -0,0 +1,80 @@
+export type ExportScheduleCadence = 'daily' | 'weekly' | 'monthly';
+
+export const EXPORT_SCHEDULE_CADENCES: Record<ExportScheduleCadence, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+export const DEFAULT_CHANGE_THRESHOLD_PCT = 10;
+
+const CHANGE_SAMPLE_SIZE = 50;
+
+/**
+ * District membership of a scheduled run versus the previous run (stored on exports.district_change)
+ */
+export interface DistrictChange {
+  previous_export_id: string | null;
+  previous_count: number;
+  current_count: number;
+  added_count: number;
+  removed_count: number;
+  changed_pct: number; // (added + removed) as a % of the previous run
+  threshold_pct: number;
+  material: boolean;
+  added_sample: string[];
+  removed_sample: string[];
+}
+
+/**
+ * Next run after `from`. Monthly runs keep the day of month where it exists (31st -> 30th etc.)
+ */
+export function computeNextRunAt(cadence: ExportScheduleCadence, from: Date): Date {
+  const next = new Date(from.getTime());
+  if (cadence === 'daily') {
+    next.setUTCDate(next.getUTCDate() + 1);
+  } else if (cadence === 'weekly') {
+    next.setUTCDate(next.getUTCDate() + 7);
+  } else {
+    const day = next.getUTCDate();
+    next.setUTCDate(1);
+    next.setUTCMonth(next.getUTCMonth() + 1);
+    const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+    next.setUTCDate(Math.min(day, daysInMonth));
+  }
+  return next;
+}
+
+/**
+ * Compare district lists of two runs. The first run of a schedule has no previous run and is
+ * never material.
+ */
+export function compareDistrictLists(
+  previous: string[] | null,
+  current: string[],
+  thresholdPct: number,
+  previousExportId: string | null = null
+): DistrictChange {
+  const previousSet = new Set(previous || []);
+  const currentSet = new Set(current);
+  const added = current.filter((d) => !previousSet.has(d)).sort();
+  const removed = Array.from(previousSet).filter((d) => !currentSet.has(d)).sort();
+  const changedPct = previous
+    ? previousSet.size > 0
+      ? ((added.length + removed.length) / previousSet.size) * 100
+      : current.length > 0 ? 100 : 0
+    : 0;
+
+  return {
+    previous_export_id: previousExportId,
+    previous_count: previousSet.size,
+    current_count: currentSet.size,
+    added_count: added.length,
+    removed_count: removed.length,
+    changed_pct: Number(changedPct.toFixed(1)),
+    threshold_pct: thresholdPct,
+    material: previous !== null && changedPct >= thresholdPct && added.length + removed.length > 0,
+    added_sample: added.slice(0, CHANGE_SAMPLE_SIZE),
+    removed_sample: removed.slice(0, CHANGE_SAMPLE_SIZE),
+  };
+}
@@ -0,0 +1,105 @@
+import type { ValidationResults } from '../api/validationResults';
+import type { ExtensionResults } from '../api/extensionResults';
+
+/**
+ * Provider share of the included districts, as shown in ProviderContributionsCard and the
+ * XLSX Provider Contributions sheet
+ */
+export interface ProviderContributionSummary {
+  provider: string;
+  providerLabel: string;
+  districtsContributed: number;
+  percentContributed: number;
+  avgConfidence?: number; // Extension mode
+  overlapPercent?: number; // Extension mode
+}
+
+export interface ThresholdSettings {
+  minAgreement: number;
+  minWeightedScore: number;
+  confidenceThreshold: number;
+}
+
+type ProviderLabelLookup = (provider: string, fallback?: string) => string;
+
+/**
+ * Validation: % of included districts each provider agrees on.
+ * Extension: % of included districts each provider adds beyond the current selection.
+ */
+export function buildProviderContributions(
+  mode: 'validation' | 'extension',
+  validationResults: ValidationResults | undefined,
+  providerImpact: ExtensionResults | undefined,
+  labelFor: ProviderLabelLookup
+): ProviderContributionSummary[] {
+  const contributions: ProviderContributionSummary[] = [];
+
+  if (mode === 'validation' && validationResults) {
+    const totalIncluded = validationResults.totals.districtsIncluded;
+    for (const [provider, stats] of Object.entries(validationResults.providerStats)) {
+      const districtsContributed = stats.agreeingDistricts || 0;
+      contributions.push({
+        provider,
+        providerLabel: labelFor(provider, stats.providerLabel || stats.providerSegmentLabel),
+        districtsContributed,
+        percentContributed: totalIncluded > 0 ? (districtsContributed / totalIncluded) * 100 : 0,
+      });
+    }
+  } else if (mode === 'extension' && providerImpact) {
+    const totalIncluded = providerImpact.totals.includedDistricts;
+    for (const stat of providerImpact.providerStats) {
+      contributions.push({
+        provider: stat.provider,
+        providerLabel: labelFor(stat.provider),
+        districtsContributed: stat.incrementalDistricts,
+        percentContributed: totalIncluded > 0 ? (stat.incrementalDistricts / totalIncluded) * 100 : 0,
+        overlapPercent: stat.overlapPct,
+        avgConfidence: stat.avgProviderConfidence,
+      });
+    }
+  }
+
+  return contributions;
+}
+
+/**
+ * Human-readable inclusion rule for the build (agreement rule or confidence threshold)
+ */
+export function describeThreshold(
+  mode: 'validation' | 'extension',
+  validationResults: ValidationResults | undefined,
+  providerImpact: ExtensionResults | undefined,
+  settings: ThresholdSettings
+): string {
+  if (mode === 'validation' && validationResults && validationResults.agreementMode !== 'threshold') {
+    const rule = validationResults.agreementMode === 'unanimous' ? 'Unanimous' : 'Majority';
+    return validationResults.agreementScoring === 'weighted'
+      ? `${rule} provider agreement (weighted by trust)`
+      : `${rule} provider agreement: ${validationResults.requiredAgreement} of ${validationResults.totals.contributingProvidersCount}`;
+  }
+  if (mode === 'validation' && validationResults?.agreementScoring === 'weighted') {
+    return `Min weighted agreement: ≥ ${Math.round(settings.minWeightedScore * 100)}% of trust weight`;
+  }
+  if (mode === 'validation' && validationResults) {
+    return `Min provider agreement: ${settings.minAgreement || 1} of ${validationResults.maxAgreement || 1}`;
+  }
+  if (mode === 'extension' && providerImpact) {
+    return `Confidence threshold: ≥ ${settings.confidenceThreshold.toFixed(2)}`;
+  }
+  return '—';
+}
+
+/**
+ * Confidence band of the build: the agreement rule's strictness in validation mode, average
+ * provider confidence in extension mode (same bands as the map panel)
+ */
+export function confidenceBand(
+  mode: 'validation' | 'extension',
+  validationResults: ValidationResults | undefined,
+  providerImpact: ExtensionResults | undefined
+): 'Low' | 'Med' | 'High' | null {
+  if (mode === 'validation') return validationResults?.totals.confidenceBand || null;
+  if (!providerImpact) return null;
+  const avgConfidence = providerImpact.totals.avgConfidence;
+  return avgConfidence >= 0.7 ? 'High' : avgConfidence >= 0.5 ? 'Med' : 'Low';
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { getResolution } from 'h3-js';
+import type { Geometry, Polygon } from 'geojson';
+import {
+  buildH3Activation,
+  DEFAULT_H3_ACTIVATION_RESOLUTION,
+  H3ActivationUnit,
+  householdRadiusKm,
+  normalizeH3Resolution,
+} from './h3Activation';
+
+function unit(geoId: string, overrides: Partial<H3ActivationUnit> = {}): H3ActivationUnit {
+  return {
+    geoId,
+    district: geoId,
+    centroid_lat: 51.5,
+    centroid_lng: -0.1,
+    agreementCount: 1,
+    avgConfidence: 0.5,
+    providers: ['CCS'],
+    households: 10000,
+    ...overrides,
+  };
+}
+
+// GeoJSON square ([lng, lat]) of `size` degrees with its south-west corner at lng, lat
+function square(lng: number, lat: number, size: number): Polygon {
+  return {
+    type: 'Polygon',
+    coordinates: [[[lng, lat], [lng + size, lat], [lng + size, lat + size], [lng, lat + size], [lng, lat]]],
+  };
+}
+
+const totalHouseholds = (cells: Array<{ households: number }>) => cells.reduce((sum, cell) => sum + cell.households, 0);
+
+describe('normalizeH3Resolution', () => {
+  it('accepts supported resolutions and falls back to the default', () => {
+    expect(normalizeH3Resolution(8)).toBe(8);
+    expect(normalizeH3Resolution('6')).toBe(6);
+    expect(normalizeH3Resolution(12)).toBe(DEFAULT_H3_ACTIVATION_RESOLUTION);
+    expect(normalizeH3Resolution(undefined)).toBe(DEFAULT_H3_ACTIVATION_RESOLUTION);
+  });
+});
+
+describe('householdRadiusKm', () => {
+  it('clamps the disc radius', () => {
+    expect(householdRadiusKm(0)).toBe(0.5);
+    expect(householdRadiusKm(-100)).toBe(0.5);
+    expect(householdRadiusKm(10_000_000)).toBe(10);
+  });
+
+  it('grows with households between the limits', () => {
+    expect(householdRadiusKm(20000)).toBeGreaterThan(householdRadiusKm(5000));
+  });
+});
+
+describe('buildH3Activation', () => {
+  it('polyfills units with a boundary polygon', () => {
+    const geometry = new Map<string, Geometry>([['AB1', square(-0.2, 51.45, 0.1)]]);
+    const result = buildH3Activation([unit('AB1')], geometry, 7);
+
+    expect(result.polygonUnits).toBe(1);
+    expect(result.radiusUnits).toBe(0);
+    expect(result.cells.length).toBeGreaterThan(1);
+    result.cells.forEach((cell) => {
+      expect(getResolution(cell.h3)).toBe(7);
+      expect(cell.lng).toBeGreaterThanOrEqual(-0.2);
+      expect(cell.lng).toBeLessThanOrEqual(-0.1);
+    });
+    expect(totalHouseholds(result.cells)).toBeCloseTo(10000, -2);
+  });
+
+  it('uses a household disc around the centroid without a usable polygon', () => {
+    const tinyPolygon = new Map<string, Geometry>([['AB2', square(-0.1, 51.5, 0.0001)]]);
+    const result = buildH3Activation([unit('AB1'), unit('AB2')], tinyPolygon, 7);
+
+    expect(result.polygonUnits).toBe(0);
+    expect(result.radiusUnits).toBe(2);
+    expect(result.cells.length).toBeGreaterThan(0);
+  });
+
+  it('skips units without a polygon or centroid', () => {
+    const result = buildH3Activation([unit('AB1', { centroid_lat: NaN })], new Map(), 7);
+    expect(result.cells).toEqual([]);
+    expect(result.radiusUnits).toBe(0);
+  });
+
+  it('merges cells shared by several units, keeping the strongest agreement', () => {
+    const result = buildH3Activation(
+      [
+        unit('AB1', { agreementCount: 1, avgConfidence: 0.9, providers: ['ONS'] }),
+        unit('AB1 1', { agreementCount: 3, avgConfidence: 0.4, providers: ['CCS'] }),
+      ],
+      new Map(),
+      7
+    );
+
+    const shared = result.cells.filter((cell) => cell.geoIds.length === 2);
+    expect(shared.length).toBeGreaterThan(0);
+    shared.forEach((cell) => {
+      expect(cell).toMatchObject({ agreementCount: 3, avgConfidence: 0.9, providers: ['CCS', 'ONS'] });
+    });
+    expect(result.cells[0].agreementCount).toBe(3);
+  });
+});
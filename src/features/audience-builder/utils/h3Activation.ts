@@ -0,0 +1,156 @@
+import {
+  cellToLatLng,
+  getHexagonEdgeLengthAvg,
+  greatCircleDistance,
+  gridDisk,
+  latLngToCell,
+  polygonToCells,
+  UNITS,
+} from 'h3-js';
+import type { Geometry } from 'geojson';
+import { isBoundaryGeometry } from './districtBoundaries';
+
+export const H3_ACTIVATION_RESOLUTIONS = [5, 6, 7, 8, 9];
+export const DEFAULT_H3_ACTIVATION_RESOLUTION = 7;
+
+// Units without a polygon are treated as a disc sized from their households
+const FALLBACK_HOUSEHOLDS_PER_KM2 = 150; // Roughly the UK average across postcode districts
+const MIN_FALLBACK_RADIUS_KM = 0.5;
+const MAX_FALLBACK_RADIUS_KM = 10;
+
+/**
+ * An included district or sector to be covered with H3 cells
+ */
+export interface H3ActivationUnit {
+  geoId: string; // District or sector code
+  district: string;
+  centroid_lat: number;
+  centroid_lng: number;
+  agreementCount: number;
+  avgConfidence: number;
+  providers: string[];
+  households: number;
+}
+
+export interface H3ActivationCell {
+  h3: string;
+  lat: number;
+  lng: number;
+  agreementCount: number; // Highest among the units covering the cell
+  avgConfidence: number; // Highest among the units covering the cell
+  providers: string[];
+  geoIds: string[]; // Districts/sectors the cell was generated from
+  households: number; // Share of each covering unit's households
+}
+
+export interface H3ActivationResult {
+  resolution: number;
+  cells: H3ActivationCell[];
+  polygonUnits: number; // Units filled from a boundary polygon
+  radiusUnits: number; // Units approximated from centroid + households
+}
+
+export function normalizeH3Resolution(resolution: unknown): number {
+  const value = Number(resolution);
+  return H3_ACTIVATION_RESOLUTIONS.includes(value) ? value : DEFAULT_H3_ACTIVATION_RESOLUTION;
+}
+
+/**
+ * Radius of a disc holding the unit's households at the fallback density
+ */
+export function householdRadiusKm(households: number): number {
+  const radius = Math.sqrt(Math.max(households, 0) / (Math.PI * FALLBACK_HOUSEHOLDS_PER_KM2));
+  return Math.min(MAX_FALLBACK_RADIUS_KM, Math.max(MIN_FALLBACK_RADIUS_KM, radius));
+}
+
+/**
+ * Cells whose centres fall inside the polygon (each part of a MultiPolygon separately)
+ */
+function cellsForGeometry(geometry: Geometry, resolution: number): string[] {
+  if (!isBoundaryGeometry(geometry)) return [];
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const cells = new Set<string>();
+  for (const rings of polygons) {
+    for (const cell of polygonToCells(rings, resolution, true)) {
+      cells.add(cell);
+    }
+  }
+  return Array.from(cells);
+}
+
+/**
+ * Cells whose centres lie within the household-based radius of the centroid
+ */
+function cellsForRadius(unit: H3ActivationUnit, resolution: number): string[] {
+  const center = latLngToCell(unit.centroid_lat, unit.centroid_lng, resolution);
+  const radiusKm = householdRadiusKm(unit.households);
+  const ringSize = Math.ceil(radiusKm / (getHexagonEdgeLengthAvg(resolution, UNITS.km) * 1.5));
+  const origin = [unit.centroid_lat, unit.centroid_lng];
+  const cells = gridDisk(center, ringSize).filter(
+    (cell) => greatCircleDistance(origin, cellToLatLng(cell), UNITS.km) <= radiusKm
+  );
+  return cells.length > 0 ? cells : [center];
+}
+
+/**
+ * Cover the included units with H3 cells at the given resolution. Units with a boundary
+ * polygon are polyfilled; the rest (sectors, districts without boundaries) use a disc sized
+ * from their households. Cells shared by several units keep the strongest agreement.
+ */
+export function buildH3Activation(
+  units: H3ActivationUnit[],
+  geometryByGeoId: Map<string, Geometry>,
+  resolution: number = DEFAULT_H3_ACTIVATION_RESOLUTION
+): H3ActivationResult {
+  const cellMap = new Map<string, H3ActivationCell & { providerSet: Set<string> }>();
+  let polygonUnits = 0;
+  let radiusUnits = 0;
+
+  for (const unit of units) {
+    const geometry = geometryByGeoId.get(unit.geoId);
+    let cells = geometry ? cellsForGeometry(geometry, resolution) : [];
+    if (cells.length > 0) {
+      polygonUnits++;
+    } else {
+      // Polygons smaller than a cell contain no cell centre; fall back like a missing boundary
+      if (!Number.isFinite(unit.centroid_lat) || !Number.isFinite(unit.centroid_lng)) continue;
+      cells = cellsForRadius(unit, resolution);
+      radiusUnits++;
+    }
+
+    const householdsPerCell = unit.households / cells.length;
+    for (const h3 of cells) {
+      const existing = cellMap.get(h3);
+      if (existing) {
+        existing.agreementCount = Math.max(existing.agreementCount, unit.agreementCount);
+        existing.avgConfidence = Math.max(existing.avgConfidence, unit.avgConfidence);
+        unit.providers.forEach((provider) => existing.providerSet.add(provider));
+        if (!existing.geoIds.includes(unit.geoId)) existing.geoIds.push(unit.geoId);
+        existing.households += householdsPerCell;
+      } else {
+        const [lat, lng] = cellToLatLng(h3);
+        cellMap.set(h3, {
+          h3,
+          lat,
+          lng,
+          agreementCount: unit.agreementCount,
+          avgConfidence: unit.avgConfidence,
+          providers: [],
+          providerSet: new Set(unit.providers),
+          geoIds: [unit.geoId],
+          households: householdsPerCell,
+        });
+      }
+    }
+  }
+
+  const cells = Array.from(cellMap.values())
+    .map(({ providerSet, ...cell }) => ({
+      ...cell,
+      providers: Array.from(providerSet).sort(),
+      households: Math.round(cell.households),
+    }))
+    .sort((a, b) => b.agreementCount - a.agreementCount || a.h3.localeCompare(b.h3));
+
+  return { resolution, cells, polygonUnits, radiusUnits };
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import type { AudienceSnapshot } from '../api/snapshots';
+import { describeSnapshot, diffSnapshots } from './snapshotDiff';
+
+function snapshot(overrides: Partial<AudienceSnapshot> = {}): AudienceSnapshot {
+  return {
+    id: 'snap-1',
+    audience_id: 'aud-1',
+    version: 1,
+    source: 'build',
+    brief: {
+      name: 'Home movers',
+      description: null,
+      client_id: null,
+      target_reach: 50000,
+      start_date: '2026-01-01',
+      end_date: null,
+      budget_total: 10000,
+    },
+    construction: {
+      audience_intent: 'home_movers',
+      construction_mode: 'validation',
+      validation_min_agreement: 2,
+      validation_agreement_mode: 'threshold',
+      last_run_at: null,
+    },
+    selected_segment_keys: ['home_movers'],
+    builder_state: null,
+    resolution_input: null,
+    district_ids: ['AB1', 'AB2', 'AB3'],
+    district_count: 3,
+    district_checksum: 'abc',
+    estimated_households: 3000,
+    created_by: null,
+    created_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const valueOf = (snap: AudienceSnapshot, field: string) =>
+  describeSnapshot(snap).find((v) => v.field === field)?.value;
+
+describe('describeSnapshot', () => {
+  it('shows empty values as a dash and sorts lists', () => {
+    const snap = snapshot({ selected_segment_keys: ['b_segment', 'a_segment'] });
+    expect(valueOf(snap, 'brief.description')).toBe('—');
+    expect(valueOf(snap, 'selected_segments')).toBe('a_segment, b_segment');
+  });
+
+  it('prefers the resolution input over saved builder state', () => {
+    const snap = snapshot({
+      builder_state: { selectedProviders: ['CCS'] },
+      resolution_input: {
+        mode: 'validation',
+        segmentKey: 'home_movers',
+        providers: ['ONS', 'CCS'],
+        baseProvider: 'CCS',
+        minAgreement: 2,
+        agreementMode: 'threshold',
+        agreementScoring: 'count',
+        minWeightedScore: 0.5,
+        resolution: 'district',
+        confidenceThreshold: 0.5,
+        includedSegmentKeys: [],
+        tvRegions: [],
+        poiIds: [],
+        poiBrands: [],
+        battleZones: { enabled: false, baseBrand: '', competitorBrands: [], rings: 0 },
+      },
+    });
+    expect(valueOf(snap, 'providers')).toBe('CCS, ONS');
+  });
+
+  it('falls back to defaults for the base provider and agreement settings', () => {
+    const snap = snapshot({ construction: null });
+    expect(valueOf(snap, 'base_provider')).toBe('CCS');
+    expect(valueOf(snap, 'agreement_mode')).toBe('threshold');
+    expect(valueOf(snap, 'agreement_scoring')).toBe('count');
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('reports no changes between identical snapshots', () => {
+    const diff = diffSnapshots(snapshot(), snapshot({ id: 'snap-2', version: 2 }));
+    expect(diff).toEqual({
+      changes: [],
+      districtsAdded: [],
+      districtsRemoved: [],
+      householdsDelta: 0,
+      checksumChanged: false,
+    });
+  });
+
+  it('lists changed settings with before and after values', () => {
+    const after = snapshot({ brief: { ...snapshot().brief, budget_total: 15000, name: 'Home movers Q2' } });
+    expect(diffSnapshots(snapshot(), after).changes).toEqual([
+      { field: 'brief.name', label: 'Name', before: 'Home movers', after: 'Home movers Q2' },
+      { field: 'brief.budget_total', label: 'Budget', before: '10000', after: '15000' },
+    ]);
+  });
+
+  it('compares district membership, households and checksum', () => {
+    const after = snapshot({
+      district_ids: ['AB2', 'AB3', 'AB4', 'AB5'],
+      district_checksum: 'def',
+      estimated_households: 4200,
+    });
+    const diff = diffSnapshots(snapshot(), after);
+    expect(diff.districtsAdded).toEqual(['AB4', 'AB5']);
+    expect(diff.districtsRemoved).toEqual(['AB1']);
+    expect(diff.householdsDelta).toBe(1200);
+    expect(diff.checksumChanged).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import { AudienceSnapshot } from '../api/snapshots';
+import { describeCatchment } from './battleZoneCatchments';
+
+export interface SnapshotFieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface SnapshotDiff {
+  changes: SnapshotFieldChange[];
+  districtsAdded: string[];
+  districtsRemoved: string[];
+  householdsDelta: number;
+  checksumChanged: boolean;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? [...value].sort().join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+/**
+ * Flatten the comparable parts of a snapshot into labelled display values
+ */
+export function describeSnapshot(snapshot: Omit<AudienceSnapshot, 'district_ids'>): Array<{ field: string; label: string; value: string }> {
+  const state = snapshot.builder_state || {};
+  const input = snapshot.resolution_input;
+  const catchment = describeCatchment(
+    input?.battleZones?.catchment || state.battleZoneCatchment,
+    input?.battleZones?.rings ?? state.battleZoneRings ?? 0
+  );
+  return [
+    { field: 'brief.name', label: 'Name', value: formatValue(snapshot.brief.name) },
+    { field: 'brief.description', label: 'Description', value: formatValue(snapshot.brief.description) },
+    { field: 'brief.target_reach', label: 'Target reach', value: formatValue(snapshot.brief.target_reach) },
+    { field: 'brief.start_date', label: 'Start date', value: formatValue(snapshot.brief.start_date) },
+    { field: 'brief.end_date', label: 'End date', value: formatValue(snapshot.brief.end_date) },
+    { field: 'brief.budget_total', label: 'Budget', value: formatValue(snapshot.brief.budget_total) },
+    { field: 'mode', label: 'Mode', value: formatValue(input?.mode || snapshot.construction?.construction_mode) },
+    {
+      field: 'composition',
+      label: 'Composition',
+      value: input?.composition
+        ? `${input.composition.operation}: ${input.composition.sourceAudienceIds.join(', ')}`
+        : '—',
+    },
+    { field: 'segment', label: 'Segment', value: formatValue(input?.segmentKey || state.selectedSegmentKey) },
+    { field: 'selected_segments', label: 'Selected segments', value: formatValue(snapshot.selected_segment_keys) },
+    {
+      field: 'base_provider',
+      label: 'Base universe provider',
+      value: formatValue(input?.baseProvider || state.baseProvider || 'CCS'),
+    },
+    { field: 'providers', label: 'Providers', value: formatValue(input?.providers || state.selectedProviders) },
+    { field: 'min_agreement', label: 'Min agreement', value: formatValue(input?.minAgreement ?? state.validationMinAgreement) },
+    {
+      field: 'agreement_mode',
+      label: 'Agreement mode',
+      value: formatValue(input?.agreementMode || snapshot.construction?.validation_agreement_mode || 'threshold'),
+    },
+    {
+      field: 'agreement_scoring',
+      label: 'Agreement scoring',
+      value: formatValue(input?.agreementScoring || state.validationScoring || 'count'),
+    },
+    {
+      field: 'min_weighted_score',
+      label: 'Min weighted agreement',
+      value: formatValue(input?.minWeightedScore ?? state.validationMinWeightedScore),
+    },
+    {
+      field: 'confidence_threshold',
+      label: 'Confidence threshold',
+      value: formatValue(input?.confidenceThreshold ?? state.extensionConfidenceThreshold),
+    },
+    { field: 'tv_regions', label: 'TV regions', value: formatValue(input?.tvRegions || state.tvRegions) },
+    { field: 'poi_brands', label: 'Store brands', value: formatValue(input?.poiBrands || state.selectedPoiBrands) },
+    { field: 'poi_ids', label: 'Stores', value: formatValue(input?.poiIds || state.selectedPoiIds) },
+    {
+      field: 'battle_zones',
+      label: 'Battle zones',
+      value: input?.battleZones?.enabled || state.battleZonesEnabled
+        ? `${input?.battleZones?.baseBrand || state.battleZoneBaseBrand} vs ${formatValue(input?.battleZones?.competitorBrands || state.battleZoneCompetitorBrands)} (${catchment})`
+        : 'Off',
+    },
+  ];
+}
+
+/**
+ * Compare two snapshots (before -> after): changed settings, district membership and households
+ */
+export function diffSnapshots(before: AudienceSnapshot, after: AudienceSnapshot): SnapshotDiff {
+  const beforeValues = describeSnapshot(before);
+  const afterValues = new Map(describeSnapshot(after).map((v) => [v.field, v.value]));
+
+  const changes: SnapshotFieldChange[] = beforeValues
+    .filter((v) => afterValues.get(v.field) !== v.value)
+    .map((v) => ({ field: v.field, label: v.label, before: v.value, after: afterValues.get(v.field) || '—' }));
+
+  const beforeDistricts = new Set(before.district_ids);
+  const afterDistricts = new Set(after.district_ids);
+
+  return {
+    changes,
+    districtsAdded: after.district_ids.filter((d) => !beforeDistricts.has(d)),
+    districtsRemoved: before.district_ids.filter((d) => !afterDistricts.has(d)),
+    householdsDelta: after.estimated_households - before.estimated_households,
+    checksumChanged: before.district_checksum !== after.district_checksum,
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { buildTvAirtimePlan, channelCpt, flightWeeks } from './tvAirtimePlan';
+import type { TvSpotInsight } from './tvInsights';
+
+function insight(overrides: Partial<TvSpotInsight> = {}): TvSpotInsight {
+  return {
+    channel: 'ITV1',
+    programme: 'Coronation Street',
+    daypart: 'Peak',
+    genre: 'Drama',
+    index: 150,
+    impressions: 1000,
+    reach: 400,
+    topRegions: [],
+    regionReach: {},
+    ...overrides,
+  };
+}
+
+const insights = [
+  insight({ regionReach: { london: 300, midlands: 100 } }),
+  insight({ channel: 'Channel 4', programme: 'Countdown', daypart: 'Daytime', index: 120, impressions: 3000 }),
+  insight({ channel: 'Sky Sports', programme: 'Premier League', genre: 'Sport', index: 80, impressions: 5000 }),
+  insight({ channel: 'BBC One', programme: 'EastEnders', index: 200, impressions: 2000 }),
+];
+
+const plan = (overrides: Partial<Parameters<typeof buildTvAirtimePlan>[0]> = {}) =>
+  buildTvAirtimePlan({ budget: 10000, startDate: null, endDate: null, tvRegions: [], insights, ...overrides });
+
+describe('flightWeeks', () => {
+  it('counts part weeks as whole weeks', () => {
+    expect(flightWeeks('2026-03-01', '2026-03-07')).toBe(1);
+    expect(flightWeeks('2026-03-01', '2026-03-08')).toBe(2);
+    expect(flightWeeks('2026-03-01', '2026-03-01')).toBe(1);
+  });
+
+  it('returns null for missing, invalid or reversed dates', () => {
+    expect(flightWeeks(null, '2026-03-08')).toBeNull();
+    expect(flightWeeks('2026-03-08', 'not a date')).toBeNull();
+    expect(flightWeeks('2026-03-08', '2026-03-01')).toBeNull();
+  });
+});
+
+describe('channelCpt', () => {
+  it('applies channel factors to the daypart rate', () => {
+    expect(channelCpt('ITV1', 'Peak')).toBe(9);
+    expect(channelCpt('Sky Sports', 'Peak')).toBeCloseTo(12.6);
+    expect(channelCpt('Sky News', 'Daytime')).toBeCloseTo(2.4);
+  });
+});
+
+describe('buildTvAirtimePlan', () => {
+  it('plans over-indexing commercial buys and spends the whole budget', () => {
+    const result = plan();
+    expect(result.excludedChannels).toEqual(['BBC One']);
+    expect(result.byChannel.map((split) => split.key).sort()).toEqual(['Channel 4', 'ITV1']);
+    expect(result.totals.spend).toBeCloseTo(10000);
+    expect(result.lines.reduce((sum, line) => sum + line.share, 0)).toBeCloseTo(1);
+  });
+
+  it('weights buys by impressions x index / CPT', () => {
+    const { byChannel } = plan();
+    const spend = (channel: string) => byChannel.find((split) => split.key === channel)!.spend;
+    // ITV1: 1000 x 150 / 9, Channel 4: 3000 x 120 / 3
+    expect(spend('Channel 4') / spend('ITV1')).toBeCloseTo(120000 / (150000 / 9));
+  });
+
+  it('splits buys across regions by reach, or buys network without a region split', () => {
+    const { lines } = plan();
+    const itv = lines.filter((line) => line.channel === 'ITV1');
+    const london = itv.find((line) => line.regionKey === 'london')!;
+    const midlands = itv.find((line) => line.regionKey === 'midlands')!;
+    expect(london.spend / midlands.spend).toBeCloseTo(3);
+    expect(lines.find((line) => line.channel === 'Channel 4')!.regionKey).toBeNull();
+  });
+
+  it('restricts region splits to the selected regions', () => {
+    const itv = plan({ tvRegions: ['midlands'] }).lines.filter((line) => line.channel === 'ITV1');
+    expect(itv.map((line) => line.regionKey)).toEqual(['midlands']);
+  });
+
+  it('falls back to below-average buys when nothing over-indexes', () => {
+    const result = plan({ insights: [insights[2]] });
+    expect(result.lines).toHaveLength(1);
+    expect(result.lines[0]).toMatchObject({ channel: 'Sky Sports', index: 80 });
+    expect(result.totals.index).toBe(80);
+  });
+
+  it('derives impacts, effective CPT and weekly spend', () => {
+    const result = plan({ insights: [insights[1]], startDate: '2026-03-01', endDate: '2026-03-28' });
+    const [line] = result.lines;
+    expect(result.weeks).toBe(4);
+    expect(line.impacts).toBeCloseTo((10000 / 3) * 1000);
+    expect(line.indexedImpacts).toBeCloseTo(line.impacts * 1.2);
+    expect(line.effectiveCpt).toBeCloseTo(2.5);
+    expect(line.weeklySpend).toBeCloseTo(2500);
+    expect(result.totals.effectiveCpt).toBeCloseTo(2.5);
+  });
+
+  it('plans nothing without a budget', () => {
+    const result = plan({ budget: 0 });
+    expect(result.lines).toEqual([]);
+    expect(result.totals).toEqual({ spend: 0, impacts: 0, indexedImpacts: 0, index: 0, effectiveCpt: 0 });
+  });
+});
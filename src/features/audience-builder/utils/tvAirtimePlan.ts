@@ -0,0 +1,262 @@
+import Papa from 'papaparse';
+import { TvDaypart, TvSpotInsight } from './tvInsights';
+
+/**
+ * Airtime plan proposed from TV spot insights: the budget is split across channel x daypart
+ * buys in proportion to audience impressions x index / CPT, then across TV regions by the
+ * audience's reach in each region. Costs are rate-card assumptions, not live prices.
+ */
+
+// Cost per thousand impacts (GBP) by daypart, before channel adjustments
+export const TV_DAYPART_CPT: Record<TvDaypart, number> = {
+  Breakfast: 4.5,
+  Daytime: 3,
+  Peak: 9,
+  Late: 5.5,
+};
+
+// Channels priced away from the daypart rate (premium sport, lower-rated news)
+const CHANNEL_CPT_FACTORS: Record<string, number> = {
+  'Sky Sports': 1.4,
+  'Sky News': 0.8,
+};
+
+// BBC channels carry no spot advertising
+const NON_COMMERCIAL_CHANNEL = /^BBC\b/i;
+
+// Buys at or above this index are planned; below-average buys are only used when nothing over-indexes
+const MIN_PLAN_INDEX = 100;
+
+export interface TvAirtimePlanInput {
+  budget: number;
+  startDate: string | null;
+  endDate: string | null;
+  tvRegions: string[]; // Selected region filter; empty = every region the audience is reached in
+  insights: TvSpotInsight[];
+}
+
+export interface TvAirtimePlanLine {
+  channel: string;
+  daypart: TvDaypart;
+  regionKey: string | null; // null when the viewing data has no region split (network buy)
+  programmes: string[]; // Highest index first
+  index: number; // Impression-weighted across the buy's programmes
+  cpt: number; // Rate-card cost per thousand impacts
+  effectiveCpt: number; // CPT per thousand on-target impacts (cpt x 100 / index)
+  spend: number;
+  share: number; // 0-1 of the budget
+  weeklySpend: number | null; // null without flight dates
+  impacts: number; // Estimated impacts bought
+  indexedImpacts: number; // Impacts x index / 100
+}
+
+export interface TvAirtimePlanSplit {
+  key: string; // Daypart, channel or region key ('' for network buys)
+  spend: number;
+  share: number;
+  impacts: number;
+  indexedImpacts: number;
+}
+
+export interface TvAirtimePlan {
+  budget: number;
+  startDate: string | null;
+  endDate: string | null;
+  weeks: number | null; // null without valid flight dates
+  lines: TvAirtimePlanLine[]; // Largest spend first
+  byDaypart: TvAirtimePlanSplit[];
+  byChannel: TvAirtimePlanSplit[];
+  byRegion: TvAirtimePlanSplit[];
+  totals: { spend: number; impacts: number; indexedImpacts: number; index: number; effectiveCpt: number };
+  excludedChannels: string[]; // Non-commercial channels left out of the plan
+}
+
+interface PlanBuy {
+  channel: string;
+  daypart: TvDaypart;
+  programmes: TvSpotInsight[];
+  impressions: number;
+  index: number;
+  cpt: number;
+  regionReach: Record<string, number>;
+}
+
+export function isCommercialChannel(channel: string): boolean {
+  return !NON_COMMERCIAL_CHANNEL.test(channel);
+}
+
+export function channelCpt(channel: string, daypart: TvDaypart): number {
+  return TV_DAYPART_CPT[daypart] * (CHANNEL_CPT_FACTORS[channel] ?? 1);
+}
+
+/**
+ * Whole weeks in the flight (part weeks count), or null when the dates are missing or reversed
+ */
+export function flightWeeks(startDate: string | null, endDate: string | null): number | null {
+  if (!startDate || !endDate) return null;
+  const start = new Date(startDate).getTime();
+  const end = new Date(endDate).getTime();
+  if (Number.isNaN(start) || Number.isNaN(end) || end < start) return null;
+  const days = Math.round((end - start) / (24 * 60 * 60 * 1000)) + 1;
+  return Math.max(1, Math.ceil(days / 7));
+}
+
+function groupBuys(insights: TvSpotInsight[]): PlanBuy[] {
+  const buys = new Map<string, PlanBuy>();
+  for (const insight of insights) {
+    const key = `${insight.channel}|${insight.daypart}`;
+    const buy = buys.get(key) || {
+      channel: insight.channel,
+      daypart: insight.daypart,
+      programmes: [],
+      impressions: 0,
+      index: 0,
+      cpt: channelCpt(insight.channel, insight.daypart),
+      regionReach: {},
+    };
+    buy.programmes.push(insight);
+    buy.impressions += insight.impressions;
+    for (const [regionKey, reach] of Object.entries(insight.regionReach)) {
+      buy.regionReach[regionKey] = (buy.regionReach[regionKey] || 0) + reach;
+    }
+    buys.set(key, buy);
+  }
+
+  return Array.from(buys.values()).map((buy) => ({
+    ...buy,
+    programmes: buy.programmes.sort((a, b) => b.index - a.index),
+    index: Math.round(buy.programmes.reduce((sum, p) => sum + p.index * p.impressions, 0) / buy.impressions),
+  }));
+}
+
+/**
+ * Split a buy's spend across regions by audience reach (restricted to the region filter when set)
+ */
+function regionShares(buy: PlanBuy, tvRegions: string[]): Array<{ regionKey: string | null; share: number }> {
+  const reach = Object.entries(buy.regionReach).filter(
+    ([regionKey, viewers]) => viewers > 0 && (tvRegions.length === 0 || tvRegions.includes(regionKey))
+  );
+  const total = reach.reduce((sum, [, viewers]) => sum + viewers, 0);
+  if (total === 0) return [{ regionKey: null, share: 1 }];
+  return reach.map(([regionKey, viewers]) => ({ regionKey, share: viewers / total }));
+}
+
+function summarize(lines: TvAirtimePlanLine[], keyOf: (line: TvAirtimePlanLine) => string, budget: number): TvAirtimePlanSplit[] {
+  const splits = new Map<string, TvAirtimePlanSplit>();
+  for (const line of lines) {
+    const key = keyOf(line);
+    const split = splits.get(key) || { key, spend: 0, share: 0, impacts: 0, indexedImpacts: 0 };
+    split.spend += line.spend;
+    split.impacts += line.impacts;
+    split.indexedImpacts += line.indexedImpacts;
+    split.share = budget > 0 ? split.spend / budget : 0;
+    splits.set(key, split);
+  }
+  return Array.from(splits.values()).sort((a, b) => b.spend - a.spend);
+}
+
+export function buildTvAirtimePlan(input: TvAirtimePlanInput): TvAirtimePlan {
+  const { budget, startDate, endDate, tvRegions } = input;
+  const weeks = flightWeeks(startDate, endDate);
+  const commercial = input.insights.filter((insight) => isCommercialChannel(insight.channel) && insight.impressions > 0);
+  const excludedChannels = Array.from(
+    new Set(input.insights.filter((insight) => !isCommercialChannel(insight.channel)).map((insight) => insight.channel))
+  ).sort();
+
+  const buys = groupBuys(commercial);
+  const overIndexing = buys.filter((buy) => buy.index >= MIN_PLAN_INDEX);
+  const planned = overIndexing.length > 0 ? overIndexing : buys;
+  const weight = (buy: PlanBuy) => (buy.impressions * buy.index) / buy.cpt;
+  const totalWeight = planned.reduce((sum, buy) => sum + weight(buy), 0);
+
+  const lines: TvAirtimePlanLine[] = [];
+  if (budget > 0 && totalWeight > 0) {
+    for (const buy of planned) {
+      const buySpend = (budget * weight(buy)) / totalWeight;
+      for (const { regionKey, share } of regionShares(buy, tvRegions)) {
+        const spend = buySpend * share;
+        const impacts = (spend / buy.cpt) * 1000;
+        lines.push({
+          channel: buy.channel,
+          daypart: buy.daypart,
+          regionKey,
+          programmes: buy.programmes.map((p) => p.programme),
+          index: buy.index,
+          cpt: buy.cpt,
+          effectiveCpt: (buy.cpt * 100) / buy.index,
+          spend,
+          share: spend / budget,
+          weeklySpend: weeks ? spend / weeks : null,
+          impacts,
+          indexedImpacts: (impacts * buy.index) / 100,
+        });
+      }
+    }
+  }
+  lines.sort((a, b) => b.spend - a.spend);
+
+  const spend = lines.reduce((sum, line) => sum + line.spend, 0);
+  const impacts = lines.reduce((sum, line) => sum + line.impacts, 0);
+  const indexedImpacts = lines.reduce((sum, line) => sum + line.indexedImpacts, 0);
+  return {
+    budget,
+    startDate,
+    endDate,
+    weeks,
+    lines,
+    byDaypart: summarize(lines, (line) => line.daypart, budget),
+    byChannel: summarize(lines, (line) => line.channel, budget),
+    byRegion: summarize(lines, (line) => line.regionKey || '', budget),
+    totals: {
+      spend,
+      impacts,
+      indexedImpacts,
+      index: impacts > 0 ? Math.round((indexedImpacts / impacts) * 100) : 0,
+      effectiveCpt: indexedImpacts > 0 ? (spend / indexedImpacts) * 1000 : 0,
+    },
+    excludedChannels,
+  };
+}
+
+/**
+ * CSV schedule, one row per channel x daypart x region buy
+ */
+export function tvAirtimePlanToCsv(plan: TvAirtimePlan, regionNames: Map<string, string>): string {
+  const money = (value: number) => value.toFixed(2);
+  return Papa.unparse({
+    fields: [
+      'channel',
+      'daypart',
+      'tv_region',
+      'programmes',
+      'index',
+      'cpt_gbp',
+      'effective_cpt_gbp',
+      'spend_gbp',
+      'budget_share_pct',
+      'flight_start',
+      'flight_end',
+      'weeks',
+      'weekly_spend_gbp',
+      'est_impacts',
+      'est_indexed_impacts',
+    ],
+    data: plan.lines.map((line) => [
+      line.channel,
+      line.daypart,
+      line.regionKey ? regionNames.get(line.regionKey) || line.regionKey : 'Network',
+      line.programmes.join('; '),
+      line.index,
+      money(line.cpt),
+      money(line.effectiveCpt),
+      money(line.spend),
+      (line.share * 100).toFixed(1),
+      plan.startDate || '',
+      plan.endDate || '',
+      plan.weeks ?? '',
+      line.weeklySpend === null ? '' : money(line.weeklySpend),
+      Math.round(line.impacts),
+      Math.round(line.indexedImpacts),
+    ]),
+  });
+}
@@ -0,0 +1,84 @@
+export const TV_DAYPARTS = ['Breakfast', 'Daytime', 'Peak', 'Late'] as const;
+export const TV_GENRES = ['Drama', 'Sport', 'Entertainment', 'News', 'Factual'] as const;
+
+export type TvDaypart = (typeof TV_DAYPARTS)[number];
+export type TvGenre = (typeof TV_GENRES)[number];
+
+export interface TvSpotInsight {
+  channel: string;
+  programme: string;
+  daypart: TvDaypart;
+  genre: TvGenre;
+  index: number; // 100 = average, >100 = over-index
+  impressions: number; // Total views in the audience's districts
+  reach: number; // Unique viewers in the audience's districts
+  topRegions: string[]; // TV region keys, highest viewing rate first
+  regionReach: Record<string, number>; // Unique viewers in the audience's districts by TV region key
+}
+
+/**
+ * Audience viewing rate over population viewing rate, x100 (null when either rate is undefined)
+ */
+export function viewingIndex(
+  audienceViewers: number,
+  audienceHouseholds: number,
+  populationViewers: number,
+  populationHouseholds: number
+): number | null {
+  if (audienceHouseholds <= 0 || populationHouseholds <= 0 || populationViewers <= 0) return null;
+  const audienceRate = audienceViewers / audienceHouseholds;
+  const populationRate = populationViewers / populationHouseholds;
+  return Math.round((audienceRate / populationRate) * 100);
+}
+
+export function getTopChannel(insights: TvSpotInsight[]): { channel: string; index: number } | null {
+  if (insights.length === 0) return null;
+
+  const channelIndexes = insights.reduce((acc, insight) => {
+    if (!acc[insight.channel]) {
+      acc[insight.channel] = { total: 0, count: 0 };
+    }
+    acc[insight.channel].total += insight.index;
+    acc[insight.channel].count += 1;
+    return acc;
+  }, {} as Record<string, { total: number; count: number }>);
+
+  const channelAverages = Object.entries(channelIndexes).map(([channel, data]) => ({
+    channel,
+    index: Math.round(data.total / data.count),
+  }));
+
+  channelAverages.sort((a, b) => b.index - a.index);
+  return channelAverages[0] || null;
+}
+
+export function getTopProgramme(insights: TvSpotInsight[]): { programme: string; channel: string; index: number } | null {
+  if (insights.length === 0) return null;
+
+  const top = insights.reduce((max, insight) =>
+    insight.index > max.index ? { programme: insight.programme, channel: insight.channel, index: insight.index } : max
+  , { programme: '', channel: '', index: 0 });
+
+  return top.index > 0 ? top : null;
+}
+
+export function getBestDaypart(insights: TvSpotInsight[]): { daypart: string; index: number } | null {
+  if (insights.length === 0) return null;
+
+  const daypartIndexes = insights.reduce((acc, insight) => {
+    if (!acc[insight.daypart]) {
+      acc[insight.daypart] = { total: 0, count: 0 };
+    }
+    acc[insight.daypart].total += insight.index;
+    acc[insight.daypart].count += 1;
+    return acc;
+  }, {} as Record<string, { total: number; count: number }>);
+
+  const daypartAverages = Object.entries(daypartIndexes).map(([daypart, data]) => ({
+    daypart,
+    index: Math.round(data.total / data.count),
+  }));
+
+  daypartAverages.sort((a, b) => b.index - a.index);
+  return daypartAverages[0] || null;
+}
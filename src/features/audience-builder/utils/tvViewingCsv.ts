@@ -0,0 +1,141 @@
+import { TV_DAYPARTS, TV_GENRES, TvDaypart, TvGenre } from './tvInsights';
+
+/**
+ * Parsing for district-level ACR viewing CSVs (district, channel, programme, daypart, genre,
+ * viewers, optional impressions). Used by the import-tv-viewing script.
+ */
+
+export const TV_VIEWING_COLUMN_VARIANTS: Record<keyof TvViewingRecord, string[]> = {
+  district: ['district', 'District', 'postcode_district', 'Postcode District'],
+  channel: ['channel', 'Channel'],
+  programme: ['programme', 'Programme', 'program', 'Program', 'title', 'Title'],
+  daypart: ['daypart', 'Daypart', 'day_part'],
+  genre: ['genre', 'Genre'],
+  viewers: ['viewers', 'Viewers', 'reach', 'Reach', 'unique_viewers'],
+  impressions: ['impressions', 'Impressions', 'views', 'Views'],
+};
+
+export interface TvViewingRecord {
+  district: string; // Normalized (uppercase, no spaces)
+  channel: string;
+  programme: string;
+  daypart: TvDaypart;
+  genre: TvGenre;
+  viewers: number;
+  impressions: number; // Viewers when the file has no impressions column
+}
+
+export interface ParsedTvViewing {
+  records: TvViewingRecord[];
+  rowsRead: number;
+  /** Rows missing a district, channel, programme or viewers value */
+  skippedRows: number;
+  /** Daypart / genre values that are not one of the known labels (these rows are not imported) */
+  invalidDayparts: string[];
+  invalidGenres: string[];
+  invalidRows: number;
+  /** Rows repeating an earlier district + programme (their viewers and impressions are added) */
+  mergedRows: number;
+  districts: string[];
+  programmes: number;
+}
+
+export function normalizeViewingDistrict(district: string): string {
+  return district.trim().toUpperCase().replace(/\s+/g, '');
+}
+
+function pickLabel<T extends string>(value: string, labels: readonly T[]): T | null {
+  const trimmed = value.trim().toLowerCase();
+  return labels.find((label) => label.toLowerCase() === trimmed) || null;
+}
+
+function parseCount(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = Number(value.trim().replace(/,/g, ''));
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.round(parsed) : null;
+}
+
+/**
+ * Map header names to record fields, accepting the common variants above
+ */
+export function detectTvViewingColumns(headers: string[]): Partial<Record<keyof TvViewingRecord, string>> {
+  const columns: Partial<Record<keyof TvViewingRecord, string>> = {};
+  for (const [field, variants] of Object.entries(TV_VIEWING_COLUMN_VARIANTS)) {
+    const header = variants.find((variant) => headers.includes(variant));
+    if (header) columns[field as keyof TvViewingRecord] = header;
+  }
+  return columns;
+}
+
+export function programmeKey(record: Pick<TvViewingRecord, 'channel' | 'programme' | 'daypart' | 'genre'>): string {
+  return [record.channel, record.programme, record.daypart, record.genre].join('|');
+}
+
+/**
+ * Validate and normalize parsed CSV rows (objects keyed by header)
+ */
+export function parseTvViewingRows(rows: Array<Record<string, string>>, headers: string[]): ParsedTvViewing {
+  const columns = detectTvViewingColumns(headers);
+  const missing = (['district', 'channel', 'programme', 'daypart', 'genre', 'viewers'] as const).filter(
+    (field) => !columns[field]
+  );
+  if (missing.length > 0) {
+    throw new Error(`Missing required column(s): ${missing.join(', ')}`);
+  }
+
+  const byKey = new Map<string, TvViewingRecord>();
+  const invalidDayparts = new Set<string>();
+  const invalidGenres = new Set<string>();
+  const programmes = new Set<string>();
+  let skippedRows = 0;
+  let invalidRows = 0;
+  let mergedRows = 0;
+
+  for (const row of rows) {
+    const district = normalizeViewingDistrict(row[columns.district!] || '');
+    const channel = (row[columns.channel!] || '').trim();
+    const programme = (row[columns.programme!] || '').trim();
+    const viewers = parseCount(row[columns.viewers!]);
+    if (!district || !channel || !programme || viewers === null) {
+      skippedRows++;
+      continue;
+    }
+
+    const rawDaypart = row[columns.daypart!] || '';
+    const rawGenre = row[columns.genre!] || '';
+    const daypart = pickLabel(rawDaypart, TV_DAYPARTS);
+    const genre = pickLabel(rawGenre, TV_GENRES);
+    if (!daypart) invalidDayparts.add(rawDaypart);
+    if (!genre) invalidGenres.add(rawGenre);
+    if (!daypart || !genre) {
+      invalidRows++;
+      continue;
+    }
+
+    const impressions = (columns.impressions ? parseCount(row[columns.impressions]) : null) ?? viewers;
+    const record: TvViewingRecord = { district, channel, programme, daypart, genre, viewers, impressions };
+    const key = `${district}|${programmeKey(record)}`;
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.viewers += viewers;
+      existing.impressions += impressions;
+      mergedRows++;
+    } else {
+      byKey.set(key, record);
+      programmes.add(programmeKey(record));
+    }
+  }
+
+  const records = Array.from(byKey.values());
+  return {
+    records,
+    rowsRead: rows.length,
+    skippedRows,
+    invalidDayparts: Array.from(invalidDayparts),
+    invalidGenres: Array.from(invalidGenres),
+    invalidRows,
+    mergedRows,
+    districts: Array.from(new Set(records.map((r) => r.district))).sort(),
+    programmes: programmes.size,
+  };
+}
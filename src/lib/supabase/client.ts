@@ -1,4 +1,10 @@
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { Database } from './database.types';
 
-export const createClient = () => createClientComponentClient<Database>();
+// auth-helpers passes supabase-js the older generic order, which resolves every query to
+// `never`; the cast restores table/view/function typing from Database
+export const createClient = () => createClientComponentClient<Database>() as unknown as SupabaseClient<Database>;
+
+// Shared by browser and server clients so API functions can accept either
+export type TypedSupabaseClient = ReturnType<typeof createClient>;
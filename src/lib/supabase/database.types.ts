@@ -21,6 +21,7 @@ export interface Database {
           budget_total: number | null
           created_at: string
           updated_at: string
+          client_id: string | null
         }
         Insert: {
           id?: string
@@ -33,6 +34,7 @@ export interface Database {
           budget_total?: number | null
           created_at?: string
           updated_at?: string
+          client_id?: string | null
         }
         Update: {
           id?: string
@@ -45,7 +47,9 @@ export interface Database {
           budget_total?: number | null
           created_at?: string
           updated_at?: string
+          client_id?: string | null
         }
+        Relationships: []
       }
       audience_segments: {
         Row: {
@@ -60,6 +64,14 @@ export interface Database {
           is_selected: boolean
           weight: number
           created_at: string
+          metadata: Json
+          origin: 'brief' | 'validated' | 'suggested' | null
+          match_type: 'name_match' | 'inferred' | null
+          evidence: Json
+          source_providers: string[]
+          added_at: string
+          created_by_mode: 'validation' | 'extension' | 'manual'
+          is_recommended: boolean
         }
         Insert: {
           id?: string
@@ -73,6 +85,14 @@ export interface Database {
           is_selected?: boolean
           weight?: number
           created_at?: string
+          metadata?: Json
+          origin?: 'brief' | 'validated' | 'suggested' | null
+          match_type?: 'name_match' | 'inferred' | null
+          evidence?: Json
+          source_providers?: string[]
+          added_at?: string
+          created_by_mode?: 'validation' | 'extension' | 'manual'
+          is_recommended?: boolean
         }
         Update: {
           id?: string
@@ -86,7 +106,16 @@ export interface Database {
           is_selected?: boolean
           weight?: number
           created_at?: string
+          metadata?: Json
+          origin?: 'brief' | 'validated' | 'suggested' | null
+          match_type?: 'name_match' | 'inferred' | null
+          evidence?: Json
+          source_providers?: string[]
+          added_at?: string
+          created_by_mode?: 'validation' | 'extension' | 'manual'
+          is_recommended?: boolean
         }
+        Relationships: []
       }
       audience_profile_settings: {
         Row: {
@@ -119,6 +148,7 @@ export interface Database {
           confidence_low?: number | null
           updated_at?: string
         }
+        Relationships: []
       }
       geo_units: {
         Row: {
@@ -131,6 +161,8 @@ export interface Database {
           drivers: Json | null
           geometry: Json | null
           created_at: string
+          agreement_count: number
+          agreeing_providers: string[]
         }
         Insert: {
           id?: string
@@ -142,6 +174,8 @@ export interface Database {
           drivers?: Json | null
           geometry?: Json | null
           created_at?: string
+          agreement_count?: number
+          agreeing_providers?: string[]
         }
         Update: {
           id?: string
@@ -153,7 +187,10 @@ export interface Database {
           drivers?: Json | null
           geometry?: Json | null
           created_at?: string
+          agreement_count?: number
+          agreeing_providers?: string[]
         }
+        Relationships: []
       }
       poi_layers: {
         Row: {
@@ -183,33 +220,1237 @@ export interface Database {
           is_enabled?: boolean
           created_at?: string
         }
+        Relationships: []
       }
       exports: {
         Row: {
           id: string
           audience_id: string
           user_id: string
-          export_type: 'csv' | 'geojson'
-          storage_path: string
+          export_type: 'csv' | 'geojson' | 'json' | 'xlsx' | 'html' | 'pdf'
+          storage_path: string | null
+          snapshot_id: string | null
+          activation_target: string | null
+          h3_resolution: number | null
+          row_count: number | null
+          destination: string | null
+          delivery_status: 'pending' | 'delivered' | 'failed' | null
+          delivery_log: Json
+          status: 'queued' | 'running' | 'succeeded' | 'failed'
+          progress: number
+          progress_message: string | null
+          error_detail: string | null
+          job_params: Json | null
+          attempts: number
+          schedule_id: string | null
+          district_change: Json | null
+          started_at: string | null
+          completed_at: string | null
+          updated_at: string | null
           created_at: string
         }
         Insert: {
           id?: string
           audience_id: string
           user_id: string
-          export_type: 'csv' | 'geojson'
-          storage_path: string
+          export_type: 'csv' | 'geojson' | 'json' | 'xlsx' | 'html' | 'pdf'
+          storage_path?: string | null
+          snapshot_id?: string | null
+          activation_target?: string | null
+          h3_resolution?: number | null
+          row_count?: number | null
+          destination?: string | null
+          delivery_status?: 'pending' | 'delivered' | 'failed' | null
+          delivery_log?: Json
+          status?: 'queued' | 'running' | 'succeeded' | 'failed'
+          progress?: number
+          progress_message?: string | null
+          error_detail?: string | null
+          job_params?: Json | null
+          attempts?: number
+          schedule_id?: string | null
+          district_change?: Json | null
+          started_at?: string | null
+          completed_at?: string | null
+          updated_at?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           audience_id?: string
           user_id?: string
-          export_type?: 'csv' | 'geojson'
-          storage_path?: string
+          export_type?: 'csv' | 'geojson' | 'json' | 'xlsx' | 'html' | 'pdf'
+          storage_path?: string | null
+          snapshot_id?: string | null
+          activation_target?: string | null
+          h3_resolution?: number | null
+          row_count?: number | null
+          destination?: string | null
+          delivery_status?: 'pending' | 'delivered' | 'failed' | null
+          delivery_log?: Json
+          status?: 'queued' | 'running' | 'succeeded' | 'failed'
+          progress?: number
+          progress_message?: string | null
+          error_detail?: string | null
+          job_params?: Json | null
+          attempts?: number
+          schedule_id?: string | null
+          district_change?: Json | null
+          started_at?: string | null
+          completed_at?: string | null
+          updated_at?: string | null
           created_at?: string
         }
+        Relationships: []
       }
+      audience_construction_settings: {
+        Row: {
+          audience_id: string
+          audience_intent: string | null
+          construction_mode: 'validation' | 'extension'
+          active_signals: Json
+          created_at: string
+          updated_at: string
+          last_run_at: string | null
+          validation_min_agreement: number
+          validation_agreement_mode: 'threshold' | 'majority' | 'unanimous'
+        }
+        Insert: {
+          audience_id: string
+          audience_intent?: string | null
+          construction_mode?: 'validation' | 'extension'
+          active_signals?: Json
+          created_at?: string
+          updated_at?: string
+          last_run_at?: string | null
+          validation_min_agreement?: number
+          validation_agreement_mode?: 'threshold' | 'majority' | 'unanimous'
+        }
+        Update: {
+          audience_id?: string
+          audience_intent?: string | null
+          construction_mode?: 'validation' | 'extension'
+          active_signals?: Json
+          created_at?: string
+          updated_at?: string
+          last_run_at?: string | null
+          validation_min_agreement?: number
+          validation_agreement_mode?: 'threshold' | 'majority' | 'unanimous'
+        }
+        Relationships: []
+      }
+      segment_library: {
+        Row: {
+          id: string
+          provider: string
+          segment_key: string
+          label: string
+          description: string | null
+          tags: string[]
+          adjacency: Json
+          example_signals: Json
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          provider: string
+          segment_key: string
+          label: string
+          description?: string | null
+          tags?: string[]
+          adjacency?: Json
+          example_signals?: Json
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          provider?: string
+          segment_key?: string
+          label?: string
+          description?: string | null
+          tags?: string[]
+          adjacency?: Json
+          example_signals?: Json
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      geo_districts: {
+        Row: {
+          district: string
+          centroid_lat: number
+          centroid_lng: number
+          geometry: Json | null
+          created_at: string
+          source: string
+          updated_at: string
+          district_norm: string | null
+          households: number | null
+        }
+        Insert: {
+          district: string
+          centroid_lat: number
+          centroid_lng: number
+          geometry?: Json | null
+          created_at?: string
+          source?: string
+          updated_at?: string
+          district_norm?: string | null
+          households?: number | null
+        }
+        Update: {
+          district?: string
+          centroid_lat?: number
+          centroid_lng?: number
+          geometry?: Json | null
+          created_at?: string
+          source?: string
+          updated_at?: string
+          district_norm?: string | null
+          households?: number | null
+        }
+        Relationships: []
+      }
+      geo_audience_signals: {
+        Row: {
+          district: string
+          audience_key: string
+          provider: string
+          confidence: number
+          evidence: Json
+          created_at: string
+        }
+        Insert: {
+          district: string
+          audience_key: string
+          provider: string
+          confidence: number
+          evidence?: Json
+          created_at?: string
+        }
+        Update: {
+          district?: string
+          audience_key?: string
+          provider?: string
+          confidence?: number
+          evidence?: Json
+          created_at?: string
+        }
+        Relationships: []
+      }
+      provider_segment_aliases: {
+        Row: {
+          id: string
+          canonical_key: string
+          provider: string
+          provider_segment_key: string
+          provider_segment_label: string
+          similarity_score: number
+          created_at: string
+          status: 'suggested' | 'approved' | 'rejected'
+          source: 'seed' | 'manual' | 'suggested'
+          reviewed_at: string | null
+          reviewed_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          canonical_key: string
+          provider: string
+          provider_segment_key: string
+          provider_segment_label: string
+          similarity_score?: number
+          created_at?: string
+          status?: 'suggested' | 'approved' | 'rejected'
+          source?: 'seed' | 'manual' | 'suggested'
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          canonical_key?: string
+          provider?: string
+          provider_segment_key?: string
+          provider_segment_label?: string
+          similarity_score?: number
+          created_at?: string
+          status?: 'suggested' | 'approved' | 'rejected'
+          source?: 'seed' | 'manual' | 'suggested'
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      geo_sector_signals: {
+        Row: {
+          id: string
+          segment_key: string
+          provider: string
+          provider_segment_label: string | null
+          sector: string
+          district: string
+          score: number | null
+          score_norm: number | null
+          source_file: string | null
+          created_at: string
+          district_norm: string | null
+          batch_id: string
+        }
+        Insert: {
+          id?: string
+          segment_key: string
+          provider: string
+          provider_segment_label?: string | null
+          sector: string
+          district: string
+          score?: number | null
+          score_norm?: number | null
+          source_file?: string | null
+          created_at?: string
+          district_norm?: string | null
+          batch_id: string
+        }
+        Update: {
+          id?: string
+          segment_key?: string
+          provider?: string
+          provider_segment_label?: string | null
+          sector?: string
+          district?: string
+          score?: number | null
+          score_norm?: number | null
+          source_file?: string | null
+          created_at?: string
+          district_norm?: string | null
+          batch_id?: string
+        }
+        Relationships: []
+      }
+      audience_selected_segments: {
+        Row: {
+          audience_id: string
+          segment_key: string
+          added_at: string
+        }
+        Insert: {
+          audience_id: string
+          segment_key: string
+          added_at?: string
+        }
+        Update: {
+          audience_id?: string
+          segment_key?: string
+          added_at?: string
+        }
+        Relationships: []
+      }
+      app_settings: {
+        Row: {
+          id: string
+          key: string
+          value: Json
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          key: string
+          value: Json
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          key?: string
+          value?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      admin_data_partners: {
+        Row: {
+          id: string
+          name: string
+          url: string | null
+          description: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          url?: string | null
+          description?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          url?: string | null
+          description?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      admin_clients: {
+        Row: {
+          id: string
+          name: string
+          url: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          url?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          url?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      data_partners: {
+        Row: {
+          id: string
+          provider_key: string
+          display_name: string
+          website_url: string | null
+          description: string | null
+          logo_url: string | null
+          created_at: string
+          updated_at: string
+          trust_weight: number
+          agreement_threshold: number
+        }
+        Insert: {
+          id?: string
+          provider_key: string
+          display_name: string
+          website_url?: string | null
+          description?: string | null
+          logo_url?: string | null
+          created_at?: string
+          updated_at?: string
+          trust_weight?: number
+          agreement_threshold?: number
+        }
+        Update: {
+          id?: string
+          provider_key?: string
+          display_name?: string
+          website_url?: string | null
+          description?: string | null
+          logo_url?: string | null
+          created_at?: string
+          updated_at?: string
+          trust_weight?: number
+          agreement_threshold?: number
+        }
+        Relationships: []
+      }
+      tv_regions: {
+        Row: {
+          id: string
+          region_key: string
+          name: string
+          description: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          region_key: string
+          name: string
+          description?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          region_key?: string
+          name?: string
+          description?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      district_tv_regions: {
+        Row: {
+          district: string
+          region_key: string
+          source: string
+          created_at: string
+          district_norm: string | null
+        }
+        Insert: {
+          district: string
+          region_key: string
+          source?: string
+          created_at?: string
+          district_norm?: string | null
+        }
+        Update: {
+          district?: string
+          region_key?: string
+          source?: string
+          created_at?: string
+          district_norm?: string | null
+        }
+        Relationships: []
+      }
+      district_neighbors: {
+        Row: {
+          district: string
+          neighbor_district: string
+          relationship: string
+          distance_km: number | null
+          source: string
+          created_at: string
+          district_norm: string | null
+          neighbor_district_norm: string | null
+        }
+        Insert: {
+          district: string
+          neighbor_district: string
+          relationship?: string
+          distance_km?: number | null
+          source?: string
+          created_at?: string
+          district_norm?: string | null
+          neighbor_district_norm?: string | null
+        }
+        Update: {
+          district?: string
+          neighbor_district?: string
+          relationship?: string
+          distance_km?: number | null
+          source?: string
+          created_at?: string
+          district_norm?: string | null
+          neighbor_district_norm?: string | null
+        }
+        Relationships: []
+      }
+      store_pois: {
+        Row: {
+          id: string
+          brand: string
+          name: string
+          address: string | null
+          city: string | null
+          postcode: string | null
+          lat: number
+          lng: number
+          website_url: string | null
+          notes: string | null
+          created_at: string
+          osm_type: string | null
+          osm_id: number | null
+          source: string
+          raw_name: string | null
+          tags: Json | null
+        }
+        Insert: {
+          id?: string
+          brand: string
+          name: string
+          address?: string | null
+          city?: string | null
+          postcode?: string | null
+          lat: number
+          lng: number
+          website_url?: string | null
+          notes?: string | null
+          created_at?: string
+          osm_type?: string | null
+          osm_id?: number | null
+          source?: string
+          raw_name?: string | null
+          tags?: Json | null
+        }
+        Update: {
+          id?: string
+          brand?: string
+          name?: string
+          address?: string | null
+          city?: string | null
+          postcode?: string | null
+          lat?: number
+          lng?: number
+          website_url?: string | null
+          notes?: string | null
+          created_at?: string
+          osm_type?: string | null
+          osm_id?: number | null
+          source?: string
+          raw_name?: string | null
+          tags?: Json | null
+        }
+        Relationships: []
+      }
+      store_poi_district: {
+        Row: {
+          poi_id: string
+          district: string
+          distance_km: number
+          created_at: string
+        }
+        Insert: {
+          poi_id: string
+          district: string
+          distance_km: number
+          created_at?: string
+        }
+        Update: {
+          poi_id?: string
+          district?: string
+          distance_km?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      district_households_staging: {
+        Row: {
+          district_code: string
+          households: number
+          source: string
+          created_at: string
+        }
+        Insert: {
+          district_code: string
+          households: number
+          source?: string
+          created_at?: string
+        }
+        Update: {
+          district_code?: string
+          households?: number
+          source?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      audience_builder_state: {
+        Row: {
+          audience_id: string
+          state: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          audience_id: string
+          state?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          audience_id?: string
+          state?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      audience_snapshots: {
+        Row: {
+          id: string
+          audience_id: string
+          version: number
+          source: 'build' | 'export'
+          brief: Json
+          construction: Json | null
+          selected_segment_keys: string[]
+          builder_state: Json | null
+          resolution_input: Json | null
+          district_ids: string[]
+          district_count: number
+          district_checksum: string | null
+          estimated_households: number
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          audience_id: string
+          version?: number
+          source: 'build' | 'export'
+          brief?: Json
+          construction?: Json | null
+          selected_segment_keys?: string[]
+          builder_state?: Json | null
+          resolution_input?: Json | null
+          district_ids?: string[]
+          district_count?: never
+          district_checksum?: string | null
+          estimated_households?: number
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          audience_id?: string
+          version?: number
+          source?: 'build' | 'export'
+          brief?: Json
+          construction?: Json | null
+          selected_segment_keys?: string[]
+          builder_state?: Json | null
+          resolution_input?: Json | null
+          district_ids?: string[]
+          district_count?: never
+          district_checksum?: string | null
+          estimated_households?: number
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      audience_compositions: {
+        Row: {
+          audience_id: string
+          operation: 'union' | 'intersect' | 'exclude'
+          source_audience_ids: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          audience_id: string
+          operation: 'union' | 'intersect' | 'exclude'
+          source_audience_ids: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          audience_id?: string
+          operation?: 'union' | 'intersect' | 'exclude'
+          source_audience_ids?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      canonical_segments: {
+        Row: {
+          canonical_key: string
+          label: string
+          description: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          canonical_key: string
+          label: string
+          description?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          canonical_key?: string
+          label?: string
+          description?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      signal_import_batches: {
+        Row: {
+          id: string
+          provider: string
+          segment_key: string
+          source_file: string | null
+          status: 'pending' | 'complete'
+          is_active: boolean
+          row_count: number
+          district_count: number
+          rows_with_score: number
+          checksum: string | null
+          imported_by: string | null
+          imported_by_email: string | null
+          created_at: string
+          activated_at: string | null
+          normalization_method: string
+        }
+        Insert: {
+          id?: string
+          provider: string
+          segment_key: string
+          source_file?: string | null
+          status?: 'pending' | 'complete'
+          is_active?: boolean
+          row_count?: number
+          district_count?: number
+          rows_with_score?: number
+          checksum?: string | null
+          imported_by?: string | null
+          imported_by_email?: string | null
+          created_at?: string
+          activated_at?: string | null
+          normalization_method?: string
+        }
+        Update: {
+          id?: string
+          provider?: string
+          segment_key?: string
+          source_file?: string | null
+          status?: 'pending' | 'complete'
+          is_active?: boolean
+          row_count?: number
+          district_count?: number
+          rows_with_score?: number
+          checksum?: string | null
+          imported_by?: string | null
+          imported_by_email?: string | null
+          created_at?: string
+          activated_at?: string | null
+          normalization_method?: string
+        }
+        Relationships: []
+      }
+      signal_normalization_settings: {
+        Row: {
+          provider: string
+          segment_key: string
+          method: 'divide_by_100' | 'divide_by_max' | 'percentile_rank' | 'z_score' | 'index_to_probability' | 'presence_weight'
+          presence_weight: number | null
+          index_baseline: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          provider: string
+          segment_key: string
+          method?: 'divide_by_100' | 'divide_by_max' | 'percentile_rank' | 'z_score' | 'index_to_probability' | 'presence_weight'
+          presence_weight?: number | null
+          index_baseline?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          provider?: string
+          segment_key?: string
+          method?: 'divide_by_100' | 'divide_by_max' | 'percentile_rank' | 'z_score' | 'index_to_probability' | 'presence_weight'
+          presence_weight?: number | null
+          index_baseline?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      geo_sectors: {
+        Row: {
+          sector: string
+          district: string
+          centroid_lat: number | null
+          centroid_lng: number | null
+          households: number | null
+          created_at: string
+        }
+        Insert: {
+          sector: string
+          district: string
+          centroid_lat?: number | null
+          centroid_lng?: number | null
+          households?: number | null
+          created_at?: string
+        }
+        Update: {
+          sector?: string
+          district?: string
+          centroid_lat?: number | null
+          centroid_lng?: number | null
+          households?: number | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      geo_district_boundaries: {
+        Row: {
+          district: string
+          min_zoom: number
+          geometry: Json
+          vertex_count: number
+          source: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          district: string
+          min_zoom: number
+          geometry: Json
+          vertex_count?: number
+          source?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          district?: string
+          min_zoom?: number
+          geometry?: Json
+          vertex_count?: number
+          source?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      platform_connections: {
+        Row: {
+          id: string
+          client_id: string
+          platform: 'ttd' | 'dv360' | 'magnite' | 'liveramp'
+          config: Json
+          credentials: Json
+          credentials_set: boolean
+          endpoint_url: string | null
+          payload_format: 'geo_list' | 'postcode_list' | 'h3'
+          is_enabled: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          platform: 'ttd' | 'dv360' | 'magnite' | 'liveramp'
+          config?: Json
+          credentials?: Json
+          credentials_set?: never
+          endpoint_url?: string | null
+          payload_format?: 'geo_list' | 'postcode_list' | 'h3'
+          is_enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          platform?: 'ttd' | 'dv360' | 'magnite' | 'liveramp'
+          config?: Json
+          credentials?: Json
+          credentials_set?: never
+          endpoint_url?: string | null
+          payload_format?: 'geo_list' | 'postcode_list' | 'h3'
+          is_enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      export_schedules: {
+        Row: {
+          id: string
+          audience_id: string
+          user_id: string
+          cadence: 'daily' | 'weekly' | 'monthly'
+          export_type: 'csv' | 'geojson' | 'xlsx' | 'html' | 'pdf'
+          activation_target: 'postcode_sector' | 'geojson' | 'h3'
+          h3_resolution: number | null
+          destination: 'ttd' | 'dv360' | 'magnite' | 'liveramp' | null
+          payload_format: 'geo_list' | 'postcode_list' | 'h3' | null
+          change_threshold_pct: number
+          is_enabled: boolean
+          next_run_at: string
+          last_run_at: string | null
+          last_export_id: string | null
+          last_error: string | null
+          running_since: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          audience_id: string
+          user_id: string
+          cadence?: 'daily' | 'weekly' | 'monthly'
+          export_type?: 'csv' | 'geojson' | 'xlsx' | 'html' | 'pdf'
+          activation_target?: 'postcode_sector' | 'geojson' | 'h3'
+          h3_resolution?: number | null
+          destination?: 'ttd' | 'dv360' | 'magnite' | 'liveramp' | null
+          payload_format?: 'geo_list' | 'postcode_list' | 'h3' | null
+          change_threshold_pct?: number
+          is_enabled?: boolean
+          next_run_at?: string
+          last_run_at?: string | null
+          last_export_id?: string | null
+          last_error?: string | null
+          running_since?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          audience_id?: string
+          user_id?: string
+          cadence?: 'daily' | 'weekly' | 'monthly'
+          export_type?: 'csv' | 'geojson' | 'xlsx' | 'html' | 'pdf'
+          activation_target?: 'postcode_sector' | 'geojson' | 'h3'
+          h3_resolution?: number | null
+          destination?: 'ttd' | 'dv360' | 'magnite' | 'liveramp' | null
+          payload_format?: 'geo_list' | 'postcode_list' | 'h3' | null
+          change_threshold_pct?: number
+          is_enabled?: boolean
+          next_run_at?: string
+          last_run_at?: string | null
+          last_export_id?: string | null
+          last_error?: string | null
+          running_since?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tv_viewing_imports: {
+        Row: {
+          id: string
+          source_file: string | null
+          status: 'pending' | 'complete'
+          is_active: boolean
+          row_count: number
+          district_count: number
+          programme_count: number
+          created_at: string
+          activated_at: string | null
+        }
+        Insert: {
+          id?: string
+          source_file?: string | null
+          status?: 'pending' | 'complete'
+          is_active?: boolean
+          row_count?: number
+          district_count?: number
+          programme_count?: number
+          created_at?: string
+          activated_at?: string | null
+        }
+        Update: {
+          id?: string
+          source_file?: string | null
+          status?: 'pending' | 'complete'
+          is_active?: boolean
+          row_count?: number
+          district_count?: number
+          programme_count?: number
+          created_at?: string
+          activated_at?: string | null
+        }
+        Relationships: []
+      }
+      tv_programmes: {
+        Row: {
+          id: string
+          channel: string
+          programme: string
+          daypart: 'Breakfast' | 'Daytime' | 'Peak' | 'Late'
+          genre: 'Drama' | 'Sport' | 'Entertainment' | 'News' | 'Factual'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          channel: string
+          programme: string
+          daypart: 'Breakfast' | 'Daytime' | 'Peak' | 'Late'
+          genre: 'Drama' | 'Sport' | 'Entertainment' | 'News' | 'Factual'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          channel?: string
+          programme?: string
+          daypart?: 'Breakfast' | 'Daytime' | 'Peak' | 'Late'
+          genre?: 'Drama' | 'Sport' | 'Entertainment' | 'News' | 'Factual'
+          created_at?: string
+        }
+        Relationships: []
+      }
+      tv_district_viewing: {
+        Row: {
+          import_id: string
+          district: string
+          programme_id: string
+          viewers: number
+          impressions: number
+        }
+        Insert: {
+          import_id: string
+          district: string
+          programme_id: string
+          viewers: number
+          impressions: number
+        }
+        Update: {
+          import_id?: string
+          district?: string
+          programme_id?: string
+          viewers?: number
+          impressions?: number
+        }
+        Relationships: []
+      }
+      store_drive_times: {
+        Row: {
+          poi_id: string
+          district: string
+          drive_minutes: number
+        }
+        Insert: {
+          poi_id: string
+          district: string
+          drive_minutes: number
+        }
+        Update: {
+          poi_id?: string
+          district?: string
+          drive_minutes?: number
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      geo_district_signals: {
+        Row: {
+          segment_key: string
+          provider: string
+          provider_segment_label: string | null
+          district: string
+          sectors_count: number
+          district_score_avg: number | null
+          district_score_norm: number | null
+          has_score: boolean
+          district_norm: string | null
+        }
+        Relationships: []
+      }
+      provider_segment_catalog: {
+        Row: {
+          provider: string
+          segment_key: string
+          label: string
+        }
+        Relationships: []
+      }
+      geo_active_sector_signals: {
+        Row: {
+          segment_key: string
+          provider: string
+          provider_segment_label: string | null
+          sector: string
+          district: string
+          score: number | null
+          score_norm: number | null
+        }
+        Relationships: []
+      }
+      geo_district_sector_counts: {
+        Row: {
+          district: string
+          sector_count: number
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      activate_signal_import_batch: {
+        Args: { target_batch_id: string }
+        Returns: undefined
+      }
+      complete_signal_import_batch: {
+        Args: { target_batch_id: string }
+        Returns: Database['public']['Tables']['signal_import_batches']['Row']
+      }
+      renormalize_signal_batches: {
+        Args: { target_provider: string; target_segment_key: string }
+        Returns: number
+      }
+      get_battle_zones_districts: {
+        Args: {
+          base_brand: string
+          competitor_brands?: string[] | null
+          rings?: number
+          tv_regions?: string[] | null
+          catchment_mode?: string
+          max_distance_km?: number | null
+          max_drive_minutes?: number | null
+        }
+        Returns: {
+          district: string
+          category: string
+          base_store_count: number
+          competitor_store_count: number
+          competitor_brands_present: string[]
+        }[]
+      }
+      get_battle_zones_summary: {
+        Args: {
+          base_brand: string
+          competitor_brands?: string[] | null
+          rings?: number
+          tv_regions?: string[] | null
+          catchment_mode?: string
+          max_distance_km?: number | null
+          max_drive_minutes?: number | null
+        }
+        Returns: Json
+      }
+      get_battle_zone_store_catchments: {
+        Args: {
+          base_brand: string
+          catchment_mode?: string
+          max_distance_km?: number | null
+          max_drive_minutes?: number | null
+        }
+        Returns: {
+          poi_id: string
+          store_name: string
+          lat: number
+          lng: number
+          source: string
+          district_count: number
+          reach_km: number
+          points: Json
+        }[]
+      }
+      get_tv_viewing_aggregates: {
+        Args: { audience_districts: string[] }
+        Returns: {
+          channel: string
+          programme: string
+          daypart: string
+          genre: string
+          audience_viewers: number
+          audience_impressions: number
+          population_viewers: number
+          population_impressions: number
+          audience_households: number
+          population_households: number
+          region_viewers: Json
+          region_households: Json
+        }[]
+      }
+    }
+    Enums: {
+      segment_type_enum: 'primary' | 'secondary'
+      construction_mode_enum: 'validation' | 'extension'
+      reach_mode_enum: 'accuracy' | 'balanced' | 'reach'
+      geo_type_enum: 'h3' | 'postcode_sector'
+      confidence_tier_enum: 'high' | 'medium' | 'low' | 'discarded'
+      poi_layer_type_enum: 'stores' | 'custom'
+      export_type_enum: 'csv' | 'geojson' | 'json' | 'xlsx' | 'html' | 'pdf'
+    }
+    CompositeTypes: {
+      [_ in never]: never
     }
   }
 }
@@ -1,8 +1,9 @@
 import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
 import { Database } from './database.types';
+import type { TypedSupabaseClient } from './client';
 
-export const createServerClient = () => {
+export const createServerClient = (): TypedSupabaseClient => {
   const cookieStore = cookies();
-  return createServerComponentClient<Database>({ cookies: () => cookieStore });
+  return createServerComponentClient<Database>({ cookies: () => cookieStore }) as unknown as TypedSupabaseClient;
 };
@@ -0,0 +1,22 @@
+import { createClient } from '@supabase/supabase-js';
+import { TypedSupabaseClient } from './client';
+
+/**
+ * Service-role client for server-side work without a user session (scheduled runs) or that
+ * reads columns app users cannot select (platform credentials). Bypasses RLS: callers check
+ * ownership themselves.
+ */
+export const createServiceClient = (): TypedSupabaseClient => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Server configuration error: SUPABASE_SERVICE_ROLE_KEY is required');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }) as unknown as TypedSupabaseClient;
+};
@@ -0,0 +1,175 @@
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import { getAllConnectors } from '../features/audience-builder/connectors/registry';
+import { PlatformKey } from '../features/audience-builder/connectors/types';
+
+/**
+ * Local stand-ins for the platform APIs used by "Push to platform", one server per
+ * platform on the port in its connector metadata. Point a platform connection's
+ * endpoint at http://localhost:<port> to push without real credentials.
+ *
+ * Each server checks the auth header and payload shape the real API requires and
+ * answers with a platform-like id. GET /_deliveries lists what it has received.
+ *
+ * Usage: npm run connectors:mock -- [--fail ttd] [--fail magnite]
+ */
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+interface ReceivedDelivery {
+  at: string;
+  path: string;
+  status: number;
+  body: unknown;
+}
+
+type MockHandler = (path: string, headers: http.IncomingHttpHeaders, body: any) => MockResponse;
+
+function badRequest(message: string): MockResponse {
+  return { status: 400, body: { error: { message } } };
+}
+
+function unauthorized(message: string): MockResponse {
+  return { status: 401, body: { error: { message } } };
+}
+
+const handlers: Record<PlatformKey, MockHandler> = {
+  ttd: (path, headers, body) => {
+    if (path !== '/geosegment') return { status: 404, body: { Message: `No route for ${path}` } };
+    if (!headers['ttd-auth']) return unauthorized('TTD-Auth header is required');
+    if (!body?.AdvertiserId) return badRequest('AdvertiserId is required');
+    const items = body.PostalCodes || body.Geofences || body.H3Indexes;
+    if (!Array.isArray(items) || items.length === 0) return badRequest(`No targets for GeoType ${body.GeoType}`);
+    return {
+      status: 200,
+      body: { GeoSegmentId: `ttd-${randomUUID().slice(0, 8)}`, GeoType: body.GeoType, TargetCount: items.length },
+    };
+  },
+
+  dv360: (path, headers, body) => {
+    const match = path.match(/^\/advertisers\/([^/]+)\/locationLists$/);
+    if (!match) return { status: 404, body: { error: { message: `No route for ${path}` } } };
+    if (!headers.authorization?.startsWith('Bearer ')) return unauthorized('Bearer token is required');
+    if (!body?.displayName) return badRequest('displayName is required');
+    if (!Array.isArray(body.assignedLocations) || body.assignedLocations.length === 0) {
+      return badRequest('assignedLocations must not be empty');
+    }
+    return {
+      status: 200,
+      body: {
+        advertiserId: match[1],
+        locationListId: String(Math.floor(Math.random() * 1e9)),
+        locationType: body.locationType,
+        assignedLocationCount: body.assignedLocations.length,
+      },
+    };
+  },
+
+  magnite: (path, headers, body) => {
+    const match = path.match(/^\/accounts\/([^/]+)\/audiences$/);
+    if (!match) return { status: 404, body: { error: `No route for ${path}` } };
+    if (!headers.authorization?.startsWith('Basic ')) return unauthorized('Basic auth is required');
+    if (!body?.name || !body.targeting?.type) return badRequest('name and targeting.type are required');
+    const items = body.targeting.postal_codes || body.targeting.points || body.targeting.cells;
+    if (!Array.isArray(items) || items.length === 0) return badRequest('targeting is empty');
+    return {
+      status: 201,
+      body: { id: Math.floor(Math.random() * 1e6), account_id: match[1], status: 'processing', size: items.length },
+    };
+  },
+
+  liveramp: (path, headers, body) => {
+    const match = path.match(/^\/audiences\/([^/]+)\/segments$/);
+    if (!match) return { status: 404, body: { message: `No route for ${path}` } };
+    if (!headers.authorization?.startsWith('Bearer ')) return unauthorized('Bearer token is required');
+    if (typeof body?.data !== 'string' || !body.fieldMap) return badRequest('data and fieldMap are required');
+    const recordCount = body.data.split('\n').length - 1;
+    if (recordCount <= 0) return badRequest('data has no records');
+    return {
+      status: 202,
+      body: { segmentId: `lr-${randomUUID().slice(0, 8)}`, audienceKey: match[1], recordCount },
+    };
+  },
+};
+
+function parseFailingPlatforms(args: string[]): Set<string> {
+  const failing = new Set<string>();
+  args.forEach((arg, index) => {
+    if (arg === '--fail' && args[index + 1]) failing.add(args[index + 1]);
+  });
+  return failing;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function startMockServer(platform: PlatformKey, label: string, port: number, failing: boolean): http.Server {
+  const deliveries: ReceivedDelivery[] = [];
+
+  const server = http.createServer(async (req, res) => {
+    const path = (req.url || '/').split('?')[0];
+
+    if (req.method === 'GET' && path === '/_deliveries') {
+      sendJson(res, 200, deliveries);
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    let body: any = null;
+    try {
+      const text = await readBody(req);
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      sendJson(res, 400, { error: 'Body must be JSON' });
+      return;
+    }
+
+    const response: MockResponse = failing
+      ? { status: 503, body: { error: `${label} mock is configured to fail` } }
+      : handlers[platform](path, req.headers, body);
+
+    deliveries.push({ at: new Date().toISOString(), path, status: response.status, body });
+    console.log(`[${platform}] POST ${path} -> ${response.status}`);
+    sendJson(res, response.status, response.body);
+  });
+
+  server.listen(port, () => {
+    console.log(`${label} mock listening on http://localhost:${port}${failing ? ' (failing with 503)' : ''}`);
+  });
+  return server;
+}
+
+function main() {
+  const failing = parseFailingPlatforms(process.argv.slice(2));
+  const servers = getAllConnectors().map((connector) => {
+    const { key, label, mockPort } = connector.getMetadata();
+    return startMockServer(key, label, mockPort, failing.has(key));
+  });
+
+  const shutdown = () => {
+    console.log('\nStopping mock servers...');
+    servers.forEach((server) => server.close());
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
@@ -0,0 +1,197 @@
+import { createClient } from '@supabase/supabase-js';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Feature, FeatureCollection, Geometry } from 'geojson';
+import {
+  BOUNDARY_DETAIL_LEVELS,
+  countVertices,
+  isBoundaryGeometry,
+  simplifyGeometry,
+} from '../features/audience-builder/utils/districtBoundaries';
+import { fetchAll } from '../lib/supabase/pagination';
+
+// Load environment variables from .env.local
+const envPath = path.resolve(process.cwd(), '.env.local');
+if (fs.existsSync(envPath)) {
+  const envFile = fs.readFileSync(envPath, 'utf-8');
+  envFile.split('\n').forEach((line) => {
+    const match = line.match(/^([^=:#]+)=(.*)$/);
+    if (match) {
+      const key = match[1].trim();
+      const value = match[2].trim().replace(/^["']|["']$/g, '');
+      if (!process.env[key]) {
+        process.env[key] = value;
+      }
+    }
+  });
+}
+
+// Property names commonly used for the district code in published boundary files
+const DISTRICT_PROPERTY_CANDIDATES = ['name', 'PostDist', 'postdist', 'district', 'pc_district', 'DISTRICT'];
+const UPSERT_BATCH_SIZE = 500;
+
+/**
+ * Normalize district code: trim, uppercase, remove spaces, keep alphanumeric only
+ */
+function normalizeDistrict(district: string): string {
+  return district
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, '')
+    .replace(/[^A-Z0-9]/g, '');
+}
+
+function detectDistrictProperty(features: Feature[]): string | null {
+  const sample = features.find((feature) => feature.properties);
+  if (!sample?.properties) return null;
+  return DISTRICT_PROPERTY_CANDIDATES.find((key) => typeof sample.properties![key] === 'string') || null;
+}
+
+async function importDistrictBoundaries(options: { file: string; property?: string; dryRun?: boolean }) {
+  const { file, dryRun = false } = options;
+  console.log('\n=== Importing Postcode District Boundaries ===\n');
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error(
+      'Missing required environment variables:\n' +
+      '  - NEXT_PUBLIC_SUPABASE_URL\n' +
+      '  - SUPABASE_SERVICE_ROLE_KEY\n' +
+      '\nPlease set these in your .env.local file.'
+    );
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+
+  const filePath = path.resolve(process.cwd(), file);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`GeoJSON file not found at: ${filePath}`);
+  }
+
+  console.log(`Reading ${filePath}...`);
+  const collection = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as FeatureCollection<Geometry | null>;
+  if (collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('Expected a GeoJSON FeatureCollection');
+  }
+  console.log(`Loaded ${collection.features.length} features`);
+
+  const property = options.property || detectDistrictProperty(collection.features as Feature[]);
+  if (!property) {
+    throw new Error(
+      `Could not detect the district code property (tried ${DISTRICT_PROPERTY_CANDIDATES.join(', ')}). ` +
+      'Pass it with --property <name>.'
+    );
+  }
+  console.log(`Using feature property "${property}" as the district code`);
+  if (dryRun) {
+    console.log('🔍 DRY RUN MODE - No changes will be made to the database\n');
+  }
+
+  // Collect one geometry per district (later features with the same code are skipped)
+  const boundaries = new Map<string, ReturnType<typeof simplifyGeometry>>();
+  let skippedGeometry = 0;
+  let duplicates = 0;
+  for (const feature of collection.features) {
+    const rawCode = feature.properties?.[property];
+    const district = typeof rawCode === 'string' ? normalizeDistrict(rawCode) : '';
+    if (!district || !isBoundaryGeometry(feature.geometry)) {
+      skippedGeometry++;
+      continue;
+    }
+    if (boundaries.has(district)) {
+      duplicates++;
+      continue;
+    }
+    boundaries.set(district, feature.geometry);
+  }
+
+  console.log(`✓ ${boundaries.size} district boundaries`);
+  if (skippedGeometry > 0) console.warn(`⚠ Skipped ${skippedGeometry} features without a code or polygon geometry`);
+  if (duplicates > 0) console.warn(`⚠ Skipped ${duplicates} duplicate district features`);
+
+  // Report districts that aren't in geo_districts (they'll be stored but never drawn)
+  let knownRows: Array<{ district: string }> | null = null;
+  try {
+    knownRows = await fetchAll<{ district: string }>(
+      supabase.from('geo_districts').select('district').order('district', { ascending: true })
+    );
+  } catch (error) {
+    console.warn('⚠ Could not load geo_districts for comparison:', error);
+  }
+  if (knownRows) {
+    const known = new Set(knownRows.map((row) => normalizeDistrict(row.district)));
+    const unknown = Array.from(boundaries.keys()).filter((district) => !known.has(district));
+    const missing = Array.from(known).filter((district) => !boundaries.has(district));
+    if (unknown.length > 0) {
+      console.warn(`⚠ ${unknown.length} boundaries are not in geo_districts (e.g. ${unknown.slice(0, 5).join(', ')})`);
+    }
+    if (missing.length > 0) {
+      console.warn(`⚠ ${missing.length} geo_districts have no boundary and will stay as points (e.g. ${missing.slice(0, 5).join(', ')})`);
+    }
+  }
+
+  const source = path.basename(filePath);
+  for (const level of BOUNDARY_DETAIL_LEVELS) {
+    const rows = Array.from(boundaries.entries()).map(([district, geometry]) => {
+      const simplified = simplifyGeometry(geometry, level.tolerance);
+      return {
+        district,
+        min_zoom: level.minZoom,
+        geometry: simplified,
+        vertex_count: countVertices(simplified),
+        source,
+      };
+    });
+    const totalVertices = rows.reduce((sum, row) => sum + row.vertex_count, 0);
+    console.log(`\nZoom ${level.minZoom}+ (tolerance ${level.tolerance}°): ${totalVertices} vertices`);
+
+    if (dryRun) {
+      console.log(`[DRY RUN] Would upsert ${rows.length} boundaries`);
+      continue;
+    }
+
+    let upserted = 0;
+    for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+      const batch = rows.slice(i, i + UPSERT_BATCH_SIZE);
+      const { error } = await supabase
+        .from('geo_district_boundaries')
+        .upsert(batch, { onConflict: 'district,min_zoom' });
+
+      if (error) {
+        throw new Error(`Error upserting batch ${i / UPSERT_BATCH_SIZE + 1}: ${error.message}`);
+      }
+      upserted += batch.length;
+      console.log(`  Upserted ${upserted}/${rows.length}`);
+    }
+  }
+
+  console.log('\n✅ Import complete!');
+}
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const argValue = (name: string) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+importDistrictBoundaries({
+  file: argValue('--file') || 'district_boundaries.geojson',
+  property: argValue('--property'),
+  dryRun: args.includes('--dry-run') || args.includes('-d'),
+})
+  .then(() => {
+    console.log('\nDone.');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Import failed:', error);
+    process.exit(1);
+  });
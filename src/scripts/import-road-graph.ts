@@ -0,0 +1,171 @@
+import { createClient } from '@supabase/supabase-js';
+import * as fs from 'fs';
+import * as path from 'path';
+import Papa from 'papaparse';
+import {
+  buildRoadGraph,
+  CATCHMENT_DRIVE_MINUTES,
+  driveTimesFrom,
+  estimateDriveMinutes,
+  parseRoadGraphRows,
+  RoadGraph,
+} from '../features/audience-builder/utils/battleZoneCatchments';
+import { fetchAll } from '../lib/supabase/pagination';
+
+// Load environment variables from .env.local
+const envPath = path.resolve(process.cwd(), '.env.local');
+if (fs.existsSync(envPath)) {
+  const envFile = fs.readFileSync(envPath, 'utf-8');
+  envFile.split('\n').forEach((line) => {
+    const match = line.match(/^([^=:#]+)=(.*)$/);
+    if (match) {
+      const key = match[1].trim();
+      const value = match[2].trim().replace(/^["']|["']$/g, '');
+      if (!process.env[key]) {
+        process.env[key] = value;
+      }
+    }
+  });
+}
+
+const INSERT_BATCH_SIZE = 1000;
+
+function readRoadGraphFile(file: string): RoadGraph {
+  const filePath = path.resolve(process.cwd(), file);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Road graph CSV not found at: ${filePath}`);
+  }
+
+  console.log(`Reading ${filePath}...`);
+  const parseResult = Papa.parse<Record<string, string>>(fs.readFileSync(filePath, 'utf-8'), {
+    header: true,
+    skipEmptyLines: true,
+  });
+  if (parseResult.errors.length > 0) {
+    console.warn(`⚠ ${parseResult.errors.length} CSV parse warnings (first: ${parseResult.errors[0].message})`);
+  }
+
+  const { edges, skippedRows } = parseRoadGraphRows(parseResult.data);
+  const graph = buildRoadGraph(edges);
+  console.log(`✓ ${edges.length} road links between ${graph.size} districts`);
+  if (skippedRows > 0) {
+    console.warn(`⚠ Skipped ${skippedRows} rows missing a district pair or a valid minutes value`);
+  }
+  return graph;
+}
+
+/**
+ * Drive minutes from every store to the districts it reaches on a district-level road graph.
+ * The CSV lists links between district centroids (from_district, to_district, minutes), e.g.
+ * exported from a local OSM routing run. Stores whose district isn't on the graph are left out
+ * and keep the straight-line estimate in get_battle_zone_catchments.
+ */
+async function importRoadGraph(options: { file?: string; maxMinutes: number; dryRun?: boolean }) {
+  const { file, maxMinutes, dryRun = false } = options;
+  console.log('\n=== Importing Road Graph Drive Times ===\n');
+
+  if (!file) {
+    throw new Error('Pass a road graph CSV with --file <path>');
+  }
+  if (!Number.isFinite(maxMinutes) || maxMinutes <= 0) {
+    throw new Error('--max-minutes must be a positive number');
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error(
+      'Missing required environment variables:\n' +
+      '  - NEXT_PUBLIC_SUPABASE_URL\n' +
+      '  - SUPABASE_SERVICE_ROLE_KEY\n' +
+      '\nPlease set these in your .env.local file.'
+    );
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+
+  const graph = readRoadGraphFile(file);
+  if (graph.size === 0) {
+    throw new Error('No road links to import');
+  }
+
+  console.log('Loading store districts...');
+  const stores = await fetchAll<{ poi_id: string; district: string; distance_km: number }>(
+    supabase.from('store_poi_district').select('poi_id, district, distance_km').order('poi_id', { ascending: true })
+  );
+  console.log(`✓ ${stores.length} stores`);
+
+  const rows: Array<{ poi_id: string; district: string; drive_minutes: number }> = [];
+  let offGraph = 0;
+  for (const store of stores) {
+    const district = store.district.trim().toUpperCase().replace(/\s+/g, '');
+    if (!graph.has(district)) {
+      offGraph += 1;
+      continue;
+    }
+    // The store sits distance_km from its district centroid, where the graph starts
+    const reached = driveTimesFrom(graph, district, estimateDriveMinutes(store.distance_km), maxMinutes);
+    reached.forEach((minutes, reachedDistrict) => {
+      rows.push({ poi_id: store.poi_id, district: reachedDistrict, drive_minutes: Math.round(minutes * 10) / 10 });
+    });
+  }
+  console.log(`✓ ${rows.length} store → district drive times within ${maxMinutes} min`);
+  if (offGraph > 0) {
+    console.warn(`⚠ ${offGraph} stores are in districts missing from the graph and keep the straight-line estimate`);
+  }
+
+  if (dryRun) {
+    console.log('\n🔍 DRY RUN MODE - No changes will be made to the database');
+    console.log(`[DRY RUN] Would replace store_drive_times with ${rows.length} rows`);
+    return;
+  }
+
+  // Full rebuild: drive times for stores no longer on the graph must not linger
+  const { error: deleteError } = await supabase
+    .from('store_drive_times')
+    .delete()
+    .not('poi_id', 'is', null);
+  if (deleteError) {
+    throw new Error(`Error clearing store_drive_times: ${deleteError.message}`);
+  }
+
+  let inserted = 0;
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+    const { error } = await supabase.from('store_drive_times').insert(batch);
+    if (error) {
+      throw new Error(`Error inserting batch ${i / INSERT_BATCH_SIZE + 1}: ${error.message}`);
+    }
+    inserted += batch.length;
+    console.log(`  Inserted ${inserted}/${rows.length}`);
+  }
+
+  console.log(`\n✅ Drive times for ${stores.length - offGraph} stores imported`);
+}
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const argValue = (name: string) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+importRoadGraph({
+  file: argValue('--file'),
+  maxMinutes: Number(argValue('--max-minutes') ?? CATCHMENT_DRIVE_MINUTES.max),
+  dryRun: args.includes('--dry-run') || args.includes('-d'),
+})
+  .then(() => {
+    console.log('\nDone.');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Import failed:', error);
+    process.exit(1);
+  });
@@ -2,6 +2,7 @@ import { createClient } from '@supabase/supabase-js';
 import * as fs from 'fs';
 import * as path from 'path';
 import { parse } from 'papaparse';
+import { detectSegmentSignalColumns, parseSegmentSignalRows } from '../features/admin/utils/segmentSignalCsv';
 
 // Load environment variables from .env.local
 const envPath = path.resolve(process.cwd(), '.env.local');
@@ -33,67 +34,6 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey, {
   },
 });
 
-/**
- * Normalize sector code (e.g. "AL11" -> "AL1 1")
- * Attempts to add space between outward and inward codes
- */
-function normalizeSector(sector: string): string {
-  const trimmed = sector.trim().toUpperCase();
-  
-  // If already has space, return as-is
-  if (trimmed.includes(' ')) {
-    return trimmed;
-  }
-  
-  // Try to detect pattern: 2-4 letters followed by 1-2 digits
-  // e.g. "AL11" -> "AL1 1", "SW1A1" -> "SW1A 1"
-  const match = trimmed.match(/^([A-Z]{2,4})(\d{1,2})$/);
-  if (match) {
-    const [, outward, inward] = match;
-    return `${outward} ${inward}`;
-  }
-  
-  // If pattern doesn't match, return as-is
-  return trimmed;
-}
-
-/**
- * Normalize district code
- */
-function normalizeDistrict(district: string): string {
-  return district.trim().toUpperCase();
-}
-
-/**
- * Parse score from string or number
- */
-function parseScore(value: any): number | null {
-  if (value === null || value === undefined || value === '') {
-    return null;
-  }
-  
-  const num = typeof value === 'string' ? parseInt(value.trim(), 10) : Number(value);
-  if (isNaN(num) || !isFinite(num)) {
-    return null;
-  }
-  
-  return num;
-}
-
-/**
- * Find column index by name (case-insensitive, handles variants)
- */
-function findColumnIndex(headers: string[], variants: string[]): number | null {
-  const lowerHeaders = headers.map(h => h.toLowerCase().trim());
-  for (const variant of variants) {
-    const index = lowerHeaders.indexOf(variant.toLowerCase().trim());
-    if (index !== -1) {
-      return index;
-    }
-  }
-  return null;
-}
-
 /**
  * Import CSV file to geo_sector_signals
  */
@@ -142,9 +82,7 @@ async function importSegmentGeoCSV({
   console.log(`Headers: ${headers.join(', ')}`);
   
   // Find column indices
-  const sectorIndex = findColumnIndex(headers, ['Sector', 'sector', 'postcode_sector', 'Postcode Sector']);
-  const districtIndex = findColumnIndex(headers, ['District', 'district', 'postcode_district', 'Postcode District']);
-  const scoreIndex = findColumnIndex(headers, ['Index', 'index', 'Score', 'score']);
+  const { sectorIndex, districtIndex, scoreIndex } = detectSegmentSignalColumns(headers);
   
   if (sectorIndex === null) {
     throw new Error('Could not find Sector column. Expected: Sector, sector, postcode_sector, or Postcode Sector');
@@ -156,84 +94,68 @@ async function importSegmentGeoCSV({
   console.log(`Column indices: sector=${sectorIndex}, district=${districtIndex}, score=${scoreIndex !== null ? scoreIndex : 'not found'}`);
   
   // Process rows
-  const records: Array<{
-    segment_key: string;
-    provider: string;
-    provider_segment_label: string;
-    sector: string;
-    district: string;
-    score: number | null;
-    score_norm: number | null;
-    source_file: string;
-  }> = [];
-  
-  let rowsWithScore = 0;
-  const districtSet = new Set<string>();
-  
-  for (let i = 0; i < dataRows.length; i++) {
-    const row = dataRows[i];
-    if (row.length <= Math.max(sectorIndex, districtIndex)) {
-      continue; // Skip incomplete rows
-    }
-    
-    const sectorRaw = row[sectorIndex];
-    const districtRaw = row[districtIndex];
-    const scoreRaw = scoreIndex !== null ? row[scoreIndex] : null;
-    
-    if (!sectorRaw || !districtRaw) {
-      continue; // Skip rows with missing required fields
-    }
-    
-    const sector = normalizeSector(sectorRaw);
-    const district = normalizeDistrict(districtRaw);
-    const score = parseScore(scoreRaw);
-    const scoreNorm = score !== null ? score / 100.0 : null;
-    
-    if (score !== null) {
-      rowsWithScore++;
-    }
-    
-    districtSet.add(district);
-    
-    records.push({
-      segment_key: segmentKey,
-      provider,
-      provider_segment_label: providerLabel || segmentKey,
-      sector,
-      district,
-      score,
-      score_norm: scoreNorm,
-      source_file: path.basename(filePath),
-    });
+  const { records, invalidSectors, rowsWithScore, districts } = parseSegmentSignalRows(
+    dataRows,
+    { sectorIndex, districtIndex, scoreIndex },
+    { provider, segmentKey, providerLabel, sourceFile: path.basename(filePath) }
+  );
+  const districtSet = new Set(districts);
+  
+  if (invalidSectors.length > 0) {
+    console.warn(`Skipping ${invalidSectors.length} invalid sectors: ${invalidSectors.slice(0, 10).join(', ')}`);
   }
   
   console.log(`\nProcessed ${records.length} records`);
   console.log(`Distinct districts: ${districtSet.size}`);
   console.log(`Rows with score: ${rowsWithScore} (${((rowsWithScore / records.length) * 100).toFixed(1)}%)`);
   
-  // Upsert in batches
-  console.log(`\nUpserting to database...`);
+  // Each load is a new import batch; it becomes active once all rows are written
+  const { data: importBatch, error: importBatchError } = await supabase
+    .from('signal_import_batches')
+    .insert({
+      provider,
+      segment_key: segmentKey,
+      source_file: path.basename(filePath),
+    })
+    .select()
+    .single();
+  
+  if (importBatchError || !importBatch) {
+    throw importBatchError || new Error('Failed to create import batch');
+  }
+  
+  console.log(`\nInserting to database (batch ${importBatch.id})...`);
   const batchSize = 500;
   let upserted = 0;
   
-  for (let i = 0; i < records.length; i += batchSize) {
-    const batch = records.slice(i, i + batchSize);
-    const { error } = await supabase
-      .from('geo_sector_signals')
-      .upsert(batch, {
-        onConflict: 'segment_key,provider,sector',
-        ignoreDuplicates: false,
-      });
-    
-    if (error) {
-      console.error(`Error upserting batch ${i / batchSize + 1}:`, error);
-      throw error;
+  try {
+    for (let i = 0; i < records.length; i += batchSize) {
+      const batch = records.slice(i, i + batchSize).map((record) => ({ ...record, batch_id: importBatch.id }));
+      const { error } = await supabase
+        .from('geo_sector_signals')
+        .insert(batch);
+      
+      if (error) {
+        console.error(`Error inserting batch ${i / batchSize + 1}:`, error);
+        throw error;
+      }
+      
+      upserted += batch.length;
+      if ((i / batchSize + 1) % 10 === 0 || i + batchSize >= records.length) {
+        console.log(`Inserted ${upserted} of ${records.length} records`);
+      }
     }
     
-    upserted += batch.length;
-    if ((i / batchSize + 1) % 10 === 0 || i + batchSize >= records.length) {
-      console.log(`Upserted ${upserted} of ${records.length} records`);
+    const { error: completeError } = await supabase.rpc('complete_signal_import_batch', {
+      target_batch_id: importBatch.id,
+    });
+    if (completeError) {
+      throw completeError;
     }
+  } catch (error) {
+    // Discard the partial batch so the previous active batch stays in use
+    await supabase.from('signal_import_batches').delete().eq('id', importBatch.id);
+    throw error;
   }
   
   console.log(`\n✅ Successfully imported ${upserted} records`);
@@ -241,6 +163,7 @@ async function importSegmentGeoCSV({
   console.log(`   Rows with score: ${rowsWithScore} (${((rowsWithScore / records.length) * 100).toFixed(1)}%)`);
   
   return {
+    batchId: importBatch.id as string,
     rowsRead: dataRows.length,
     rowsUpserted: upserted,
     distinctDistricts: districtSet.size,
@@ -0,0 +1,206 @@
+import { createClient } from '@supabase/supabase-js';
+import * as fs from 'fs';
+import * as path from 'path';
+import Papa from 'papaparse';
+import { parseTvViewingRows, programmeKey, TvViewingRecord } from '../features/audience-builder/utils/tvViewingCsv';
+import { fetchAll } from '../lib/supabase/pagination';
+import { buildSeedViewingRecords, SeedDistrict } from './tv-viewing-seed';
+
+// Load environment variables from .env.local
+const envPath = path.resolve(process.cwd(), '.env.local');
+if (fs.existsSync(envPath)) {
+  const envFile = fs.readFileSync(envPath, 'utf-8');
+  envFile.split('\n').forEach((line) => {
+    const match = line.match(/^([^=:#]+)=(.*)$/);
+    if (match) {
+      const key = match[1].trim();
+      const value = match[2].trim().replace(/^["']|["']$/g, '');
+      if (!process.env[key]) {
+        process.env[key] = value;
+      }
+    }
+  });
+}
+
+const INSERT_BATCH_SIZE = 1000;
+const DEFAULT_HOUSEHOLDS = 2500;
+
+function readViewingFile(file: string): TvViewingRecord[] {
+  const filePath = path.resolve(process.cwd(), file);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Viewing CSV not found at: ${filePath}`);
+  }
+
+  console.log(`Reading ${filePath}...`);
+  const parseResult = Papa.parse<Record<string, string>>(fs.readFileSync(filePath, 'utf-8'), {
+    header: true,
+    skipEmptyLines: true,
+  });
+  if (parseResult.errors.length > 0) {
+    console.warn(`⚠ ${parseResult.errors.length} CSV parse warnings (first: ${parseResult.errors[0].message})`);
+  }
+
+  const parsed = parseTvViewingRows(parseResult.data, parseResult.meta.fields || []);
+  console.log(`✓ ${parsed.rowsRead} rows read`);
+  console.log(`✓ ${parsed.records.length} district viewing rows, ${parsed.districts.length} districts, ${parsed.programmes} programmes`);
+  if (parsed.skippedRows > 0) {
+    console.warn(`⚠ Skipped ${parsed.skippedRows} rows missing a district, channel, programme or viewers value`);
+  }
+  if (parsed.invalidRows > 0) {
+    console.warn(`⚠ Skipped ${parsed.invalidRows} rows with an unknown daypart or genre`);
+    if (parsed.invalidDayparts.length > 0) console.warn(`  Dayparts: ${parsed.invalidDayparts.slice(0, 10).join(', ')}`);
+    if (parsed.invalidGenres.length > 0) console.warn(`  Genres: ${parsed.invalidGenres.slice(0, 10).join(', ')}`);
+  }
+  if (parsed.mergedRows > 0) {
+    console.log(`  Merged ${parsed.mergedRows} repeated district + programme rows`);
+  }
+  return parsed.records;
+}
+
+/**
+ * Seed rows for every known district, using its households and TV region
+ */
+async function buildSeedRecords(supabase: any): Promise<TvViewingRecord[]> {
+  console.log('Building seed viewing rows from geo_districts...');
+  const districts = await fetchAll<{ district_norm: string | null; district: string; households: number | null }>(
+    supabase.from('geo_districts').select('district, district_norm, households').order('district', { ascending: true })
+  );
+  const regions = await fetchAll<{ district_norm: string | null; region_key: string }>(
+    supabase.from('district_tv_regions').select('district_norm, region_key').order('district_norm', { ascending: true })
+  );
+  const regionByDistrict = new Map(regions.map((row) => [row.district_norm, row.region_key]));
+
+  const seedDistricts: SeedDistrict[] = districts.map((row) => {
+    const district = row.district_norm || row.district.trim().toUpperCase().replace(/\s+/g, '');
+    return {
+      district,
+      households: row.households || DEFAULT_HOUSEHOLDS,
+      regionKey: regionByDistrict.get(district) || null,
+    };
+  });
+
+  const records = buildSeedViewingRecords(seedDistricts);
+  console.log(`✓ ${records.length} seed viewing rows for ${seedDistricts.length} districts`);
+  return records;
+}
+
+async function importTvViewing(options: { file?: string; seed?: boolean; dryRun?: boolean }) {
+  const { file, seed = false, dryRun = false } = options;
+  console.log(`\n=== Importing ACR TV Viewing Data${seed ? ' (seed)' : ''} ===\n`);
+
+  if (!seed && !file) {
+    throw new Error('Pass a viewing CSV with --file <path>, or --seed to load the seed fixture.');
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error(
+      'Missing required environment variables:\n' +
+      '  - NEXT_PUBLIC_SUPABASE_URL\n' +
+      '  - SUPABASE_SERVICE_ROLE_KEY\n' +
+      '\nPlease set these in your .env.local file.'
+    );
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+
+  const records = seed ? await buildSeedRecords(supabase) : readViewingFile(file!);
+  if (records.length === 0) {
+    throw new Error('No viewing rows to import');
+  }
+
+  if (dryRun) {
+    console.log('\n🔍 DRY RUN MODE - No changes will be made to the database');
+    console.log(`[DRY RUN] Would import ${records.length} district viewing rows`);
+    return;
+  }
+
+  // Programmes are shared across imports; upsert and map each back to its id
+  const programmes = new Map<string, Pick<TvViewingRecord, 'channel' | 'programme' | 'daypart' | 'genre'>>();
+  for (const record of records) {
+    const { channel, programme, daypart, genre } = record;
+    programmes.set(programmeKey(record), { channel, programme, daypart, genre });
+  }
+  const { data: programmeRows, error: programmeError } = await supabase
+    .from('tv_programmes')
+    .upsert(Array.from(programmes.values()), { onConflict: 'channel,programme,daypart,genre' })
+    .select('id, channel, programme, daypart, genre');
+  if (programmeError) {
+    throw new Error(`Error upserting programmes: ${programmeError.message}`);
+  }
+  const programmeIds = new Map<string, string>(
+    ((programmeRows as Array<{ id: string } & Pick<TvViewingRecord, 'channel' | 'programme' | 'daypart' | 'genre'>>) || []).map(
+      (row) => [programmeKey(row), row.id]
+    )
+  );
+  console.log(`✓ ${programmeIds.size} programmes`);
+
+  const { data: importRow, error: importError } = await supabase
+    .from('tv_viewing_imports')
+    .insert({ source_file: seed ? 'seed' : path.basename(file!) })
+    .select('id')
+    .single();
+  if (importError || !importRow) {
+    throw new Error(`Error creating import: ${importError?.message}`);
+  }
+  const importId = (importRow as { id: string }).id;
+
+  // The import stays pending (and inactive) until every row is in
+  const rows = records.map((record) => ({
+    import_id: importId,
+    district: record.district,
+    programme_id: programmeIds.get(programmeKey(record)),
+    viewers: record.viewers,
+    impressions: record.impressions,
+  }));
+  let inserted = 0;
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+    const { error } = await supabase.from('tv_district_viewing').insert(batch);
+    if (error) {
+      await supabase.from('tv_viewing_imports').delete().eq('id', importId);
+      throw new Error(`Error inserting batch ${i / INSERT_BATCH_SIZE + 1}: ${error.message}`);
+    }
+    inserted += batch.length;
+    console.log(`  Inserted ${inserted}/${rows.length}`);
+  }
+
+  const { data: completed, error: completeError } = await supabase.rpc('complete_tv_viewing_import', {
+    target_import_id: importId,
+  });
+  if (completeError) {
+    throw new Error(`Error activating import: ${completeError.message}`);
+  }
+  const stats = completed as { row_count: number; district_count: number; programme_count: number };
+  console.log(
+    `\n✅ Import ${importId} active: ${stats.row_count} rows, ${stats.district_count} districts, ${stats.programme_count} programmes`
+  );
+}
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const argValue = (name: string) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+importTvViewing({
+  file: argValue('--file'),
+  seed: args.includes('--seed'),
+  dryRun: args.includes('--dry-run') || args.includes('-d'),
+})
+  .then(() => {
+    console.log('\nDone.');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Import failed:', error);
+    process.exit(1);
+  });
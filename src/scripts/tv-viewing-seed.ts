@@ -0,0 +1,98 @@
+import type { TvDaypart, TvGenre } from '../features/audience-builder/utils/tvInsights';
+import type { TvViewingRecord } from '../features/audience-builder/utils/tvViewingCsv';
+
+/**
+ * Seed fixture for the TV viewing tables (npm run db:seed:tv-viewing). These are the
+ * programmes and regional affinities the TV Spot Insights panel used to show as mock data;
+ * the seed turns them into district-level viewing rows so local environments have something
+ * to index before a real ACR file is imported.
+ */
+
+export interface SeedProgramme {
+  channel: string;
+  programme: string;
+  daypart: TvDaypart;
+  genre: TvGenre;
+  affinity: number; // Viewing uplift in the programme's strong regions (100 = none)
+  topRegions: string[]; // TV region keys
+}
+
+export const SEED_PROGRAMMES: SeedProgramme[] = [
+  // ITV
+  { channel: 'ITV', programme: 'Coronation Street', daypart: 'Peak', genre: 'Drama', affinity: 145, topRegions: ['granada', 'yorkshire', 'central'] },
+  { channel: 'ITV', programme: 'Emmerdale', daypart: 'Peak', genre: 'Drama', affinity: 138, topRegions: ['yorkshire', 'granada', 'central'] },
+  { channel: 'ITV', programme: 'Good Morning Britain', daypart: 'Breakfast', genre: 'News', affinity: 125, topRegions: ['london', 'central', 'granada'] },
+  { channel: 'ITV', programme: 'Love Island', daypart: 'Peak', genre: 'Entertainment', affinity: 165, topRegions: ['london', 'central', 'meridian'] },
+  { channel: 'ITV', programme: 'The Chase', daypart: 'Daytime', genre: 'Entertainment', affinity: 132, topRegions: ['central', 'granada', 'yorkshire'] },
+
+  // Channel 4
+  { channel: 'Channel 4', programme: 'Gogglebox', daypart: 'Peak', genre: 'Entertainment', affinity: 152, topRegions: ['london', 'central', 'yorkshire'] },
+  { channel: 'Channel 4', programme: 'The Great British Bake Off', daypart: 'Peak', genre: 'Entertainment', affinity: 178, topRegions: ['london', 'central', 'meridian'] },
+  { channel: 'Channel 4', programme: 'Location, Location, Location', daypart: 'Peak', genre: 'Factual', affinity: 142, topRegions: ['london', 'meridian', 'central'] },
+  { channel: 'Channel 4', programme: 'Channel 4 News', daypart: 'Peak', genre: 'News', affinity: 118, topRegions: ['london', 'central'] },
+
+  // Channel 5
+  { channel: 'Channel 5', programme: 'Neighbours', daypart: 'Daytime', genre: 'Drama', affinity: 128, topRegions: ['central', 'granada'] },
+  { channel: 'Channel 5', programme: 'The Gadget Show', daypart: 'Peak', genre: 'Factual', affinity: 135, topRegions: ['london', 'central'] },
+
+  // Sky
+  { channel: 'Sky Sports', programme: 'Premier League Live', daypart: 'Peak', genre: 'Sport', affinity: 188, topRegions: ['london', 'granada', 'yorkshire'] },
+  { channel: 'Sky One', programme: 'Game of Thrones', daypart: 'Peak', genre: 'Drama', affinity: 162, topRegions: ['london', 'central', 'meridian'] },
+  { channel: 'Sky News', programme: 'Sky News at Ten', daypart: 'Peak', genre: 'News', affinity: 112, topRegions: ['london', 'central'] },
+
+  // BBC
+  { channel: 'BBC One', programme: 'EastEnders', daypart: 'Peak', genre: 'Drama', affinity: 148, topRegions: ['london', 'meridian', 'central'] },
+  { channel: 'BBC One', programme: 'Match of the Day', daypart: 'Late', genre: 'Sport', affinity: 175, topRegions: ['london', 'granada', 'yorkshire'] },
+  { channel: 'BBC One', programme: 'The One Show', daypart: 'Peak', genre: 'Entertainment', affinity: 128, topRegions: ['london', 'central', 'yorkshire'] },
+  { channel: 'BBC One', programme: 'BBC Breakfast', daypart: 'Breakfast', genre: 'News', affinity: 122, topRegions: ['london', 'central', 'granada'] },
+  { channel: 'BBC Two', programme: 'Top Gear', daypart: 'Peak', genre: 'Entertainment', affinity: 155, topRegions: ['london', 'central', 'meridian'] },
+  { channel: 'BBC Two', programme: 'Horizon', daypart: 'Peak', genre: 'Factual', affinity: 138, topRegions: ['london', 'central'] },
+];
+
+// Share of households watching a programme outside its strong regions, by daypart
+const BASE_VIEWING_RATE: Record<TvDaypart, number> = {
+  Breakfast: 0.04,
+  Daytime: 0.03,
+  Peak: 0.08,
+  Late: 0.05,
+};
+const IMPRESSIONS_PER_VIEWER = 2.5;
+
+export interface SeedDistrict {
+  district: string; // Normalized
+  households: number;
+  regionKey: string | null;
+}
+
+/**
+ * Stable 0.85-1.15 variation per district + programme, so re-seeding gives the same rows
+ */
+function seedVariation(key: string): number {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  return 0.85 + ((Math.abs(hash) % 1000) / 1000) * 0.3;
+}
+
+export function buildSeedViewingRecords(districts: SeedDistrict[]): TvViewingRecord[] {
+  const records: TvViewingRecord[] = [];
+  for (const district of districts) {
+    for (const seed of SEED_PROGRAMMES) {
+      const uplift = district.regionKey && seed.topRegions.includes(district.regionKey) ? seed.affinity / 100 : 1;
+      const rate = BASE_VIEWING_RATE[seed.daypart] * uplift * seedVariation(`${district.district}|${seed.programme}`);
+      const viewers = Math.round(district.households * rate);
+      if (viewers === 0) continue;
+      records.push({
+        district: district.district,
+        channel: seed.channel,
+        programme: seed.programme,
+        daypart: seed.daypart,
+        genre: seed.genre,
+        viewers,
+        impressions: Math.round(viewers * IMPRESSIONS_PER_VIEWER),
+      });
+    }
+  }
+  return records;
+}
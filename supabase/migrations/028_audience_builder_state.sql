@@ -0,0 +1,32 @@
+-- Persist the full Build & Explore state (BuilderContext) per audience
+-- Stores selections, filters and slider values as JSONB so planners can resume after reload
+CREATE TABLE IF NOT EXISTS audience_builder_state (
+  audience_id UUID PRIMARY KEY REFERENCES audiences(id) ON DELETE CASCADE,
+  state JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE audience_builder_state IS
+'Autosaved BuilderContext state per audience (selected segment/providers, TV regions, POIs, battle zones, slider values).';
+
+COMMENT ON COLUMN audience_builder_state.state IS
+'Serialized BuilderState. Keys mirror BuilderContext; unknown keys are ignored on hydration.';
+
+CREATE TRIGGER update_audience_builder_state_updated_at BEFORE UPDATE ON audience_builder_state
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS policies
+ALTER TABLE audience_builder_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own audience builder state"
+  ON audience_builder_state
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM audiences
+      WHERE audiences.id = audience_builder_state.audience_id
+      AND audiences.user_id = auth.uid()
+    )
+  );
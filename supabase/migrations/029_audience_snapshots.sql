@@ -0,0 +1,120 @@
+-- Immutable audience snapshots
+-- A snapshot is written on every build and every export: brief, segment selection, providers,
+-- agreement threshold, filters, resolved district list and household total.
+-- Exports link to the snapshot they were generated from.
+
+-- ============================================
+-- 1. audience_snapshots table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS audience_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  audience_id UUID NOT NULL REFERENCES audiences(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('build', 'export')),
+  brief JSONB NOT NULL DEFAULT '{}'::jsonb,
+  construction JSONB,
+  selected_segment_keys TEXT[] NOT NULL DEFAULT '{}',
+  builder_state JSONB,
+  resolution_input JSONB,
+  district_ids TEXT[] NOT NULL DEFAULT '{}',
+  district_count INTEGER GENERATED ALWAYS AS (cardinality(district_ids)) STORED,
+  district_checksum TEXT,
+  estimated_households INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (audience_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audience_snapshots_audience ON audience_snapshots(audience_id, version DESC);
+
+COMMENT ON TABLE audience_snapshots IS
+'Immutable point-in-time copies of an audience. Written on build and export; never updated.';
+
+COMMENT ON COLUMN audience_snapshots.district_count IS
+'Number of district_ids, so history lists can skip the district array.';
+
+COMMENT ON COLUMN audience_snapshots.district_checksum IS
+'SHA-256 of the sorted district IDs (same value as district_checksum in export metadata).';
+
+-- ============================================
+-- 2. Version numbering and immutability
+-- ============================================
+
+CREATE OR REPLACE FUNCTION set_audience_snapshot_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Serialise inserts per audience (e.g. a build save racing an export) so two snapshots
+  -- can't read the same MAX(version); the lock is held until the transaction ends
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.audience_id::text));
+
+  SELECT COALESCE(MAX(version), 0) + 1
+  INTO NEW.version
+  FROM audience_snapshots
+  WHERE audience_id = NEW.audience_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audience_snapshots_set_version ON audience_snapshots;
+CREATE TRIGGER audience_snapshots_set_version
+  BEFORE INSERT ON audience_snapshots
+  FOR EACH ROW EXECUTE FUNCTION set_audience_snapshot_version();
+
+CREATE OR REPLACE FUNCTION prevent_audience_snapshot_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audience_snapshots are immutable';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audience_snapshots_immutable ON audience_snapshots;
+CREATE TRIGGER audience_snapshots_immutable
+  BEFORE UPDATE ON audience_snapshots
+  FOR EACH ROW EXECUTE FUNCTION prevent_audience_snapshot_update();
+
+-- ============================================
+-- 3. RLS (read + insert only)
+-- ============================================
+
+ALTER TABLE audience_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own audience snapshots"
+  ON audience_snapshots
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM audiences
+      WHERE audiences.id = audience_snapshots.audience_id
+      AND audiences.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create snapshots for their own audiences"
+  ON audience_snapshots
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM audiences
+      WHERE audiences.id = audience_snapshots.audience_id
+      AND audiences.user_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- 4. Link exports to snapshots
+-- ============================================
+
+ALTER TABLE exports
+ADD COLUMN IF NOT EXISTS snapshot_id UUID REFERENCES audience_snapshots(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_exports_snapshot ON exports(snapshot_id);
+
+COMMENT ON COLUMN exports.snapshot_id IS
+'Audience snapshot the export was generated from.';
@@ -0,0 +1,55 @@
+-- Audiences composed from other audiences with a set operation on their resolved districts
+-- The recipe is stored (not the district list) so a composite re-resolves when its sources change
+CREATE TABLE IF NOT EXISTS audience_compositions (
+  audience_id UUID PRIMARY KEY REFERENCES audiences(id) ON DELETE CASCADE,
+  operation TEXT NOT NULL CHECK (operation IN ('union', 'intersect', 'exclude')),
+  source_audience_ids UUID[] NOT NULL CHECK (array_length(source_audience_ids, 1) >= 2),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (NOT (audience_id = ANY(source_audience_ids)))
+);
+
+CREATE INDEX IF NOT EXISTS idx_audience_compositions_sources
+ON audience_compositions USING GIN (source_audience_ids);
+
+COMMENT ON TABLE audience_compositions IS
+'Set-operation recipe for composite audiences. Resolved at read/export time from the current source audiences.';
+
+COMMENT ON COLUMN audience_compositions.operation IS
+'union: districts in any source; intersect: districts in every source; exclude: first source minus the remaining sources';
+
+COMMENT ON COLUMN audience_compositions.source_audience_ids IS
+'Ordered source audiences. Order matters for exclude (first = base). Deleted sources fail resolution rather than silently shrinking the composite.';
+
+CREATE TRIGGER update_audience_compositions_updated_at BEFORE UPDATE ON audience_compositions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS policies: owner of the composite audience, and only over sources they own
+ALTER TABLE audience_compositions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own audience compositions"
+  ON audience_compositions
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM audiences
+      WHERE audiences.id = audience_compositions.audience_id
+      AND audiences.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM audiences
+      WHERE audiences.id = audience_compositions.audience_id
+      AND audiences.user_id = auth.uid()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(audience_compositions.source_audience_ids) AS source_id
+      WHERE NOT EXISTS (
+        SELECT 1 FROM audiences
+        WHERE audiences.id = source_id
+        AND audiences.user_id = auth.uid()
+      )
+    )
+  );
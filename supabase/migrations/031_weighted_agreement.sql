@@ -0,0 +1,12 @@
+-- Weighted agreement scoring for validation mode
+-- Each data partner gets a trust weight and its own agreement threshold on district_score_norm.
+-- Count scoring (the default) is unchanged: every provider counts 1 at the fixed 0.5 threshold.
+ALTER TABLE data_partners
+ADD COLUMN IF NOT EXISTS trust_weight NUMERIC NOT NULL DEFAULT 1 CHECK (trust_weight >= 0),
+ADD COLUMN IF NOT EXISTS agreement_threshold NUMERIC NOT NULL DEFAULT 0.5 CHECK (agreement_threshold >= 0 AND agreement_threshold <= 1);
+
+COMMENT ON COLUMN data_partners.trust_weight IS
+'Relative trust in this provider for weighted agreement (0 = ignored, 1 = default). Only used when validation scoring is weighted.';
+
+COMMENT ON COLUMN data_partners.agreement_threshold IS
+'Minimum district_score_norm for this provider to count as agreeing under weighted scoring (count scoring uses 0.5).';
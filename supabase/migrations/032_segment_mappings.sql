@@ -0,0 +1,135 @@
+-- Cross-provider segment mapping
+-- canonical_segments is the shared vocabulary; provider_segment_aliases (012) becomes a
+-- many-to-one mapping of provider segment keys/labels onto a canonical segment, with a
+-- confidence (similarity_score) and a review status. Only approved mappings are used for
+-- segment matching and validation; suggestions wait for admin review.
+
+-- Admin = app_metadata.role 'admin' on the signed-in user's JWT. app_metadata can only be
+-- set with the service role, so users cannot grant it to themselves.
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION is_admin() IS 'True when the signed-in user has app_metadata.role = admin';
+
+-- Canonical segments
+CREATE TABLE IF NOT EXISTS canonical_segments (
+  canonical_key TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Backfill from existing aliases, the CCS segment library and CCS signal data
+INSERT INTO canonical_segments (canonical_key, label, description)
+SELECT segment_key, label, description
+FROM segment_library
+WHERE provider = 'CCS'
+ON CONFLICT (canonical_key) DO NOTHING;
+
+INSERT INTO canonical_segments (canonical_key, label)
+SELECT DISTINCT canonical_key, INITCAP(REPLACE(canonical_key, '_', ' '))
+FROM provider_segment_aliases
+ON CONFLICT (canonical_key) DO NOTHING;
+
+INSERT INTO canonical_segments (canonical_key, label)
+SELECT DISTINCT segment_key, INITCAP(REPLACE(segment_key, '_', ' '))
+FROM geo_district_signals
+WHERE provider = 'CCS'
+  AND segment_key IS NOT NULL
+  AND segment_key != ''
+ON CONFLICT (canonical_key) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_canonical_segments_updated_at ON canonical_segments;
+CREATE TRIGGER update_canonical_segments_updated_at
+  BEFORE UPDATE ON canonical_segments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE canonical_segments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage canonical segments" ON canonical_segments;
+DROP POLICY IF EXISTS "Authenticated users can read canonical segments" ON canonical_segments;
+DROP POLICY IF EXISTS "Admins can manage canonical segments" ON canonical_segments;
+
+CREATE POLICY "Authenticated users can read canonical segments"
+  ON canonical_segments FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage canonical segments"
+  ON canonical_segments FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Many-to-one: a provider may map several of its segments onto one canonical segment,
+-- but each provider segment maps to exactly one canonical segment
+ALTER TABLE provider_segment_aliases
+DROP CONSTRAINT IF EXISTS provider_segment_aliases_canonical_key_provider_key;
+
+ALTER TABLE provider_segment_aliases
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'approved' CHECK (status IN ('suggested', 'approved', 'rejected')),
+ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('seed', 'manual', 'suggested')),
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Rows from the 012 seed were curated by hand
+UPDATE provider_segment_aliases SET source = 'seed' WHERE source = 'manual' AND reviewed_at IS NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'provider_segment_aliases_provider_segment_key'
+  ) THEN
+    ALTER TABLE provider_segment_aliases
+    ADD CONSTRAINT provider_segment_aliases_provider_segment_key UNIQUE (provider, provider_segment_key);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'provider_segment_aliases_canonical_key_fkey'
+  ) THEN
+    ALTER TABLE provider_segment_aliases
+    ADD CONSTRAINT provider_segment_aliases_canonical_key_fkey
+    FOREIGN KEY (canonical_key) REFERENCES canonical_segments(canonical_key)
+    ON UPDATE CASCADE ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_provider_segment_aliases_status ON provider_segment_aliases(status);
+
+DROP TRIGGER IF EXISTS update_provider_segment_aliases_updated_at ON provider_segment_aliases;
+CREATE TRIGGER update_provider_segment_aliases_updated_at
+  BEFORE UPDATE ON provider_segment_aliases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Admins review suggestions from the app; everyone else keeps 012's read access.
+-- Approved mappings drive validation for every audience.
+DROP POLICY IF EXISTS "Authenticated users can manage provider segment aliases" ON provider_segment_aliases;
+DROP POLICY IF EXISTS "Admins can manage provider segment aliases" ON provider_segment_aliases;
+CREATE POLICY "Admins can manage provider segment aliases"
+  ON provider_segment_aliases FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Distinct provider segments seen in signal data or the segment library (input for suggestions)
+CREATE OR REPLACE VIEW provider_segment_catalog AS
+SELECT DISTINCT
+  provider,
+  segment_key,
+  COALESCE(provider_segment_label, INITCAP(REPLACE(segment_key, '_', ' '))) AS label
+FROM geo_district_signals
+WHERE provider IS NOT NULL AND segment_key IS NOT NULL
+UNION
+SELECT provider, segment_key, label
+FROM segment_library
+WHERE is_active = true;
+
+COMMENT ON TABLE canonical_segments IS 'Shared segment vocabulary that provider segments are mapped onto';
+COMMENT ON COLUMN provider_segment_aliases.similarity_score IS 'Mapping confidence (0-1)';
+COMMENT ON COLUMN provider_segment_aliases.status IS 'suggested (awaiting review), approved (used for matching/validation) or rejected';
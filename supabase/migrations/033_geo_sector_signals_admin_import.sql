@@ -0,0 +1,27 @@
+-- Admin signal import
+-- The in-app import wizard writes geo_sector_signals as the signed-in user, so admins need
+-- write access (013 only allowed the service role used by the import script).
+-- Signals are shared by every audience, so writes are limited to admin users (is_admin(), 032).
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_tables
+    WHERE schemaname = 'public'
+    AND tablename = 'geo_sector_signals'
+    AND rowsecurity = true
+  ) THEN
+    DROP POLICY IF EXISTS "Authenticated users can manage geo sector signals" ON geo_sector_signals;
+    DROP POLICY IF EXISTS "Admins can manage geo sector signals" ON geo_sector_signals;
+
+    CREATE POLICY "Admins can manage geo sector signals"
+      ON geo_sector_signals FOR ALL
+      TO authenticated
+      USING (is_admin())
+      WITH CHECK (is_admin());
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_geo_sector_signals_source_file ON geo_sector_signals(source_file);
+
+COMMENT ON COLUMN geo_sector_signals.source_file IS 'Name of the uploaded CSV the row was imported from';
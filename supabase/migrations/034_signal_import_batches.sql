@@ -0,0 +1,192 @@
+-- Import batches for geo_sector_signals
+-- Every load of a partner file becomes a batch. Batches are kept side by side instead of
+-- overwriting each other; exactly one batch per provider + segment is active, and
+-- geo_district_signals only aggregates active batches. Rolling back = activating an
+-- earlier batch.
+
+CREATE TABLE IF NOT EXISTS signal_import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  segment_key TEXT NOT NULL,
+  source_file TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'complete')),
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  district_count INTEGER NOT NULL DEFAULT 0,
+  rows_with_score INTEGER NOT NULL DEFAULT 0,
+  checksum TEXT, -- SHA-256 of the sorted "sector:score" lines
+  imported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  imported_by_email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  activated_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_signal_import_batches_provider_segment
+  ON signal_import_batches(provider, segment_key, created_at DESC);
+
+-- One active batch per provider + segment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_signal_import_batches_active
+  ON signal_import_batches(provider, segment_key)
+  WHERE is_active;
+
+ALTER TABLE signal_import_batches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view signal import batches" ON signal_import_batches;
+CREATE POLICY "Authenticated users can view signal import batches"
+  ON signal_import_batches FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Importing and activating batches changes the signals every audience uses (is_admin() from 032)
+DROP POLICY IF EXISTS "Admins can manage signal import batches" ON signal_import_batches;
+CREATE POLICY "Admins can manage signal import batches"
+  ON signal_import_batches FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+ALTER TABLE geo_sector_signals
+ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES signal_import_batches(id) ON DELETE CASCADE;
+
+-- Row counts and checksum of a batch's rows (on completion, and for the legacy backfill)
+CREATE OR REPLACE FUNCTION record_signal_import_batch_stats(target_batch_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE signal_import_batches b
+  SET
+    row_count = stats.row_count,
+    district_count = stats.district_count,
+    rows_with_score = stats.rows_with_score,
+    checksum = stats.checksum
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS row_count,
+      COUNT(DISTINCT district)::INTEGER AS district_count,
+      COUNT(*) FILTER (WHERE score IS NOT NULL)::INTEGER AS rows_with_score,
+      encode(
+        sha256(convert_to(
+          COALESCE(string_agg(sector || ':' || COALESCE(score::TEXT, ''), E'\n' ORDER BY sector COLLATE "C"), ''),
+          'UTF8'
+        )),
+        'hex'
+      ) AS checksum
+    FROM geo_sector_signals
+    WHERE batch_id = target_batch_id
+  ) stats
+  WHERE b.id = target_batch_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill: existing rows become one active "legacy" batch per provider + segment
+INSERT INTO signal_import_batches (provider, segment_key, source_file, status, is_active, created_at, activated_at)
+SELECT
+  provider,
+  segment_key,
+  CASE WHEN COUNT(DISTINCT source_file) = 1 THEN MAX(source_file) ELSE NULL END,
+  'complete',
+  true,
+  MIN(created_at),
+  MIN(created_at)
+FROM geo_sector_signals
+WHERE batch_id IS NULL
+GROUP BY provider, segment_key
+ON CONFLICT DO NOTHING;
+
+UPDATE geo_sector_signals s
+SET batch_id = b.id
+FROM signal_import_batches b
+WHERE s.batch_id IS NULL
+  AND b.is_active
+  AND b.provider = s.provider
+  AND b.segment_key = s.segment_key;
+
+-- Legacy batches never went through complete_signal_import_batch
+SELECT record_signal_import_batch_stats(id)
+FROM signal_import_batches
+WHERE status = 'complete'
+  AND checksum IS NULL;
+
+ALTER TABLE geo_sector_signals ALTER COLUMN batch_id SET NOT NULL;
+
+-- Sectors are unique within a batch, not across batches
+ALTER TABLE geo_sector_signals DROP CONSTRAINT IF EXISTS geo_sector_signals_unique;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'geo_sector_signals_batch_sector_unique'
+  ) THEN
+    ALTER TABLE geo_sector_signals
+    ADD CONSTRAINT geo_sector_signals_batch_sector_unique UNIQUE (batch_id, sector);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_geo_sector_signals_batch_district
+  ON geo_sector_signals(batch_id, district);
+
+-- Record counts, checksum and make the batch active (replacing the previous active batch)
+CREATE OR REPLACE FUNCTION complete_signal_import_batch(target_batch_id UUID)
+RETURNS signal_import_batches AS $$
+DECLARE
+  batch signal_import_batches;
+BEGIN
+  PERFORM record_signal_import_batch_stats(target_batch_id);
+
+  UPDATE signal_import_batches
+  SET status = 'complete'
+  WHERE id = target_batch_id;
+
+  PERFORM activate_signal_import_batch(target_batch_id);
+
+  SELECT * INTO batch FROM signal_import_batches WHERE id = target_batch_id;
+  RETURN batch;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Make a completed batch the active one for its provider + segment (also used for rollback)
+CREATE OR REPLACE FUNCTION activate_signal_import_batch(target_batch_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  target signal_import_batches;
+BEGIN
+  SELECT * INTO target FROM signal_import_batches WHERE id = target_batch_id;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Import batch % not found', target_batch_id;
+  END IF;
+  IF target.status <> 'complete' THEN
+    RAISE EXCEPTION 'Import batch % has not finished importing', target_batch_id;
+  END IF;
+
+  UPDATE signal_import_batches
+  SET is_active = false
+  WHERE provider = target.provider
+    AND segment_key = target.segment_key
+    AND is_active
+    AND id <> target_batch_id;
+
+  UPDATE signal_import_batches
+  SET is_active = true, activated_at = NOW()
+  WHERE id = target_batch_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- District signals only come from active batches (same columns as 023)
+CREATE OR REPLACE VIEW geo_district_signals AS
+SELECT
+  s.segment_key,
+  s.provider,
+  s.provider_segment_label,
+  s.district,
+  COUNT(*) as sectors_count,
+  AVG(s.score) FILTER (WHERE s.score IS NOT NULL) as district_score_avg,
+  AVG(s.score_norm) FILTER (WHERE s.score_norm IS NOT NULL) as district_score_norm,
+  BOOL_OR(s.score IS NOT NULL) as has_score,
+  MAX(s.district_norm) as district_norm
+FROM geo_sector_signals s
+JOIN signal_import_batches b ON b.id = s.batch_id AND b.is_active
+GROUP BY s.segment_key, s.provider, s.provider_segment_label, s.district;
+
+COMMENT ON TABLE signal_import_batches IS 'One row per partner file load. geo_district_signals only uses the active batch per provider + segment.';
+COMMENT ON COLUMN signal_import_batches.checksum IS 'SHA-256 of the batch''s sorted "sector:score" lines; equal checksums mean identical data';
+COMMENT ON VIEW geo_district_signals IS 'District-level aggregation of sector signals from active import batches. Use district_score_norm for eligibility thresholds.';
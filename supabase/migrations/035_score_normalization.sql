@@ -0,0 +1,211 @@
+-- Per-provider score normalisation
+-- Partners deliver scores on different scales (indices around 100, deciles, 0-1 propensities),
+-- so score / 100 (compute_score_norm, 013) is only the default. The method for each
+-- provider + segment is configured here and applied to a batch when it is imported; changing
+-- it re-normalises the stored batches.
+
+-- Scores may be fractional (0-1 propensities); views over geo_sector_signals have to be
+-- recreated around the type change
+DROP VIEW IF EXISTS provider_segment_catalog;
+DROP VIEW IF EXISTS geo_district_signals;
+
+ALTER TABLE geo_sector_signals ALTER COLUMN score TYPE NUMERIC;
+
+CREATE TABLE IF NOT EXISTS signal_normalization_settings (
+  provider TEXT NOT NULL,
+  segment_key TEXT NOT NULL,
+  method TEXT NOT NULL DEFAULT 'divide_by_100' CHECK (method IN (
+    'divide_by_100',
+    'divide_by_max',
+    'percentile_rank',
+    'z_score',
+    'index_to_probability',
+    'presence_weight'
+  )),
+  -- score_norm for rows without a score (and for every row with 'presence_weight').
+  -- NULL keeps presence-only rows unscored, i.e. presence alone counts as agreement.
+  presence_weight NUMERIC CHECK (presence_weight IS NULL OR (presence_weight >= 0 AND presence_weight <= 1)),
+  -- 'index_to_probability': the index value meaning "average" (maps to 0.5)
+  index_baseline NUMERIC NOT NULL DEFAULT 100 CHECK (index_baseline > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (provider, segment_key)
+);
+
+DROP TRIGGER IF EXISTS update_signal_normalization_settings_updated_at ON signal_normalization_settings;
+CREATE TRIGGER update_signal_normalization_settings_updated_at
+  BEFORE UPDATE ON signal_normalization_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE signal_normalization_settings ENABLE ROW LEVEL SECURITY;
+
+-- The method is shared by every audience using the provider's signals, like the batches (034)
+DROP POLICY IF EXISTS "Authenticated users can manage signal normalization settings" ON signal_normalization_settings;
+DROP POLICY IF EXISTS "Authenticated users can view signal normalization settings" ON signal_normalization_settings;
+DROP POLICY IF EXISTS "Admins can manage signal normalization settings" ON signal_normalization_settings;
+
+CREATE POLICY "Authenticated users can view signal normalization settings"
+  ON signal_normalization_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage signal normalization settings"
+  ON signal_normalization_settings FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- The method each batch was normalised with (shown in the provider rationale)
+ALTER TABLE signal_import_batches
+ADD COLUMN IF NOT EXISTS normalization_method TEXT NOT NULL DEFAULT 'divide_by_100';
+
+-- Recompute score_norm for one batch from its provider + segment settings
+CREATE OR REPLACE FUNCTION normalize_signal_import_batch(target_batch_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  batch signal_import_batches;
+  settings signal_normalization_settings;
+  norm_method TEXT;
+BEGIN
+  SELECT * INTO batch FROM signal_import_batches WHERE id = target_batch_id;
+  IF batch.id IS NULL THEN
+    RAISE EXCEPTION 'Import batch % not found', target_batch_id;
+  END IF;
+
+  SELECT * INTO settings
+  FROM signal_normalization_settings
+  WHERE provider = batch.provider AND segment_key = batch.segment_key;
+
+  norm_method := COALESCE(settings.method, 'divide_by_100');
+
+  IF norm_method = 'presence_weight' THEN
+    UPDATE geo_sector_signals
+    SET score_norm = COALESCE(settings.presence_weight, 1)
+    WHERE batch_id = target_batch_id;
+  ELSE
+    UPDATE geo_sector_signals g
+    SET score_norm = n.score_norm
+    FROM (
+      SELECT
+        id,
+        CASE norm_method
+          -- Legacy behaviour, left unclamped
+          WHEN 'divide_by_100' THEN score / 100.0
+          WHEN 'divide_by_max' THEN COALESCE(score / NULLIF(MAX(score) OVER (), 0), 0)
+          WHEN 'percentile_rank' THEN PERCENT_RANK() OVER (ORDER BY score)
+          -- Logistic approximation of the normal CDF
+          WHEN 'z_score' THEN COALESCE(
+            1 / (1 + EXP(-1.702 * (score - AVG(score) OVER ()) / NULLIF(STDDEV_POP(score) OVER (), 0))),
+            0.5
+          )
+          WHEN 'index_to_probability' THEN GREATEST(score, 0) / (GREATEST(score, 0) + COALESCE(settings.index_baseline, 100))
+        END AS score_norm
+      FROM geo_sector_signals
+      WHERE batch_id = target_batch_id
+        AND score IS NOT NULL
+    ) n
+    WHERE g.id = n.id;
+
+    UPDATE geo_sector_signals
+    SET score_norm = settings.presence_weight
+    WHERE batch_id = target_batch_id
+      AND score IS NULL;
+  END IF;
+
+  UPDATE signal_import_batches
+  SET normalization_method = norm_method
+  WHERE id = target_batch_id;
+
+  -- RLS turns writes without admin access into no-ops; fail rather than leave the stored
+  -- method and score_norm out of step
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % could not be updated', target_batch_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN norm_method;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Re-normalise every stored batch for a provider + segment (after the settings change)
+CREATE OR REPLACE FUNCTION renormalize_signal_batches(target_provider TEXT, target_segment_key TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  batch_row RECORD;
+  batch_count INTEGER := 0;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can re-normalise signal batches'
+      USING ERRCODE = '42501';
+  END IF;
+
+  FOR batch_row IN
+    SELECT id FROM signal_import_batches
+    WHERE provider = target_provider
+      AND segment_key = target_segment_key
+      AND status = 'complete'
+  LOOP
+    PERFORM normalize_signal_import_batch(batch_row.id);
+    batch_count := batch_count + 1;
+  END LOOP;
+
+  RETURN batch_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Normalise before recording counts and activating (replaces 034)
+CREATE OR REPLACE FUNCTION complete_signal_import_batch(target_batch_id UUID)
+RETURNS signal_import_batches AS $$
+DECLARE
+  batch signal_import_batches;
+BEGIN
+  PERFORM normalize_signal_import_batch(target_batch_id);
+
+  PERFORM record_signal_import_batch_stats(target_batch_id);
+
+  UPDATE signal_import_batches
+  SET status = 'complete'
+  WHERE id = target_batch_id;
+
+  PERFORM activate_signal_import_batch(target_batch_id);
+
+  SELECT * INTO batch FROM signal_import_batches WHERE id = target_batch_id;
+  RETURN batch;
+END;
+$$ LANGUAGE plpgsql;
+
+-- has_score now means "has a normalised score", so presence-only rows given a presence
+-- weight are compared against agreement thresholds like scored rows
+CREATE VIEW geo_district_signals AS
+SELECT
+  s.segment_key,
+  s.provider,
+  s.provider_segment_label,
+  s.district,
+  COUNT(*) as sectors_count,
+  AVG(s.score) FILTER (WHERE s.score IS NOT NULL) as district_score_avg,
+  AVG(s.score_norm) FILTER (WHERE s.score_norm IS NOT NULL) as district_score_norm,
+  BOOL_OR(s.score_norm IS NOT NULL) as has_score,
+  MAX(s.district_norm) as district_norm
+FROM geo_sector_signals s
+JOIN signal_import_batches b ON b.id = s.batch_id AND b.is_active
+GROUP BY s.segment_key, s.provider, s.provider_segment_label, s.district;
+
+-- Unchanged from 032
+CREATE OR REPLACE VIEW provider_segment_catalog AS
+SELECT DISTINCT
+  provider,
+  segment_key,
+  COALESCE(provider_segment_label, INITCAP(REPLACE(segment_key, '_', ' '))) AS label
+FROM geo_district_signals
+WHERE provider IS NOT NULL AND segment_key IS NOT NULL
+UNION
+SELECT provider, segment_key, label
+FROM segment_library
+WHERE is_active = true;
+
+COMMENT ON TABLE signal_normalization_settings IS 'How raw partner scores are normalised to score_norm (0-1), per provider + segment';
+COMMENT ON COLUMN geo_sector_signals.score IS 'Raw score as delivered (index, decile, 0-1 propensity, ...)';
+COMMENT ON COLUMN geo_sector_signals.score_norm IS 'Normalised score (0.0-1.0) from the provider + segment normalisation method';
+COMMENT ON VIEW geo_district_signals IS 'District-level aggregation of sector signals from active import batches. Use district_score_norm for eligibility thresholds.';
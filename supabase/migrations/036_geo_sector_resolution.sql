@@ -0,0 +1,54 @@
+-- Postcode-sector resolution
+-- Signals arrive per sector but validation, the map and exports only worked on the
+-- district aggregation (geo_district_signals). These objects let validation run per sector:
+-- the active sector rows themselves, optional sector reference data (centroids and
+-- households), and the sector count per district used to roll district households down.
+
+-- Sector rows from active import batches (the sector-level twin of geo_district_signals)
+CREATE OR REPLACE VIEW geo_active_sector_signals AS
+SELECT
+  s.segment_key,
+  s.provider,
+  s.provider_segment_label,
+  s.sector,
+  s.district,
+  s.score,
+  s.score_norm
+FROM geo_sector_signals s
+JOIN signal_import_batches b ON b.id = s.batch_id AND b.is_active;
+
+-- Optional sector reference data. Sectors without a row here are placed around their
+-- district centroid and get an even share of the district's households.
+CREATE TABLE IF NOT EXISTS geo_sectors (
+  sector TEXT PRIMARY KEY, -- e.g. 'AL1 1'
+  district TEXT NOT NULL,
+  centroid_lat NUMERIC,
+  centroid_lng NUMERIC,
+  households INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_geo_sectors_district ON geo_sectors(district);
+
+ALTER TABLE geo_sectors ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read geo sectors" ON geo_sectors;
+CREATE POLICY "Authenticated users can read geo sectors"
+  ON geo_sectors FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Known sectors per district across all segments, so a district's households split the
+-- same way whichever segment is being validated
+CREATE OR REPLACE VIEW geo_district_sector_counts AS
+SELECT district, COUNT(DISTINCT sector) AS sector_count
+FROM (
+  SELECT district, sector FROM geo_sectors
+  UNION
+  SELECT district, sector FROM geo_active_sector_signals
+) known_sectors
+GROUP BY district;
+
+COMMENT ON VIEW geo_active_sector_signals IS 'Sector signals from active import batches. Use score_norm for eligibility thresholds.';
+COMMENT ON TABLE geo_sectors IS 'Optional postcode sector centroids and household counts';
+COMMENT ON VIEW geo_district_sector_counts IS 'Distinct known sectors per district (geo_sectors + active signals), for proportional household roll-down';
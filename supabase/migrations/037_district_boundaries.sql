@@ -0,0 +1,45 @@
+-- Postcode district boundary polygons
+-- geo_districts only carries centroids (geometry has been NULL since 015), so the map draws
+-- districts as points and exports fall back to points. Boundaries are imported from a
+-- GeoJSON file (npm run db:import:district-boundaries) and stored pre-simplified once per
+-- zoom band, so the national view does not download street-level detail.
+
+CREATE TABLE IF NOT EXISTS geo_district_boundaries (
+  district TEXT NOT NULL,
+  -- Lowest map zoom this level is used at (until the next level's min_zoom).
+  -- The highest level is also the geometry used in GeoJSON exports.
+  min_zoom INTEGER NOT NULL CHECK (min_zoom >= 0),
+  geometry JSONB NOT NULL, -- GeoJSON Polygon or MultiPolygon, [lng, lat] order
+  vertex_count INTEGER NOT NULL DEFAULT 0,
+  source TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (district, min_zoom)
+);
+
+CREATE INDEX IF NOT EXISTS idx_geo_district_boundaries_min_zoom
+  ON geo_district_boundaries(min_zoom);
+
+DROP TRIGGER IF EXISTS update_geo_district_boundaries_updated_at ON geo_district_boundaries;
+CREATE TRIGGER update_geo_district_boundaries_updated_at
+  BEFORE UPDATE ON geo_district_boundaries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE geo_district_boundaries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read geo district boundaries" ON geo_district_boundaries;
+CREATE POLICY "Authenticated users can read geo district boundaries"
+  ON geo_district_boundaries FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Service role can write geo district boundaries" ON geo_district_boundaries;
+CREATE POLICY "Service role can write geo district boundaries"
+  ON geo_district_boundaries FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE geo_district_boundaries IS 'Postcode district boundary polygons, simplified per map zoom band';
+COMMENT ON COLUMN geo_district_boundaries.min_zoom IS 'Map zoom from which this simplification is used; the highest level is used for exports';
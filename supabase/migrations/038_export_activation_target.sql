@@ -0,0 +1,15 @@
+-- Record what each export file contains
+-- export_type is the file format (csv / geojson = JSON). The activation target says what the
+-- rows are: postcode districts/sectors, GeoJSON features, or H3 cells at h3_resolution.
+
+ALTER TABLE exports
+ADD COLUMN IF NOT EXISTS activation_target TEXT,
+ADD COLUMN IF NOT EXISTS h3_resolution INTEGER,
+ADD COLUMN IF NOT EXISTS row_count INTEGER;
+
+COMMENT ON COLUMN exports.activation_target IS
+'What the export rows are: postcode_sector (districts or sectors), geojson, or h3 (cells).';
+COMMENT ON COLUMN exports.h3_resolution IS
+'H3 resolution of the cells in h3 exports.';
+COMMENT ON COLUMN exports.row_count IS
+'Rows (areas or H3 cells) in the export file.';
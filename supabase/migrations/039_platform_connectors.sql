@@ -0,0 +1,95 @@
+-- Push-to-platform connectors
+-- Each client can hold one connection per activation platform (The Trade Desk, DV360,
+-- Magnite, LiveRamp): non-secret config (advertiser/account ids, destination), credentials,
+-- an optional endpoint override (e.g. the local mock servers) and the default payload format.
+-- Pushes are recorded as exports rows carrying the destination and a delivery log.
+
+CREATE TABLE IF NOT EXISTS platform_connections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES admin_clients(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('ttd', 'dv360', 'magnite', 'liveramp')),
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  credentials JSONB NOT NULL DEFAULT '{}'::jsonb,
+  credentials_set BOOLEAN GENERATED ALWAYS AS (credentials <> '{}'::jsonb) STORED,
+  endpoint_url TEXT, -- NULL = the platform's default API (or its *_API_URL env override); must be on an allowed host
+  payload_format TEXT NOT NULL DEFAULT 'postcode_list'
+    CHECK (payload_format IN ('geo_list', 'postcode_list', 'h3')),
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (client_id, platform)
+);
+
+CREATE INDEX IF NOT EXISTS idx_platform_connections_client ON platform_connections(client_id);
+
+DROP TRIGGER IF EXISTS update_platform_connections_updated_at ON platform_connections;
+CREATE TRIGGER update_platform_connections_updated_at
+  BEFORE UPDATE ON platform_connections
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE platform_connections ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can see which platforms a client has (push dialog); only admins change connections
+-- (is_admin() from 032), since a connection decides where the stored credentials are sent
+DROP POLICY IF EXISTS "Authenticated users can view platform connections" ON platform_connections;
+CREATE POLICY "Authenticated users can view platform connections"
+  ON platform_connections FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage platform connections" ON platform_connections;
+CREATE POLICY "Admins can manage platform connections"
+  ON platform_connections FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Stored credentials are never sent to a new endpoint: changing endpoint_url drops them unless
+-- the same update sets new credentials
+CREATE OR REPLACE FUNCTION clear_platform_credentials_on_endpoint_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.endpoint_url IS DISTINCT FROM OLD.endpoint_url AND NEW.credentials = OLD.credentials THEN
+    NEW.credentials := '{}'::jsonb;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS platform_connections_clear_credentials ON platform_connections;
+CREATE TRIGGER platform_connections_clear_credentials
+  BEFORE UPDATE ON platform_connections
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_platform_credentials_on_endpoint_change();
+
+-- Credentials are write-only for app users: they can be set, never read back.
+-- The push route reads them with the service role.
+REVOKE SELECT ON platform_connections FROM anon, authenticated;
+GRANT SELECT (
+  id, client_id, platform, config, credentials_set, endpoint_url,
+  payload_format, is_enabled, created_at, updated_at
+) ON platform_connections TO authenticated;
+
+-- Push deliveries on the exports record
+ALTER TYPE export_type_enum ADD VALUE IF NOT EXISTS 'json';
+
+ALTER TABLE exports
+ADD COLUMN IF NOT EXISTS destination TEXT,
+ADD COLUMN IF NOT EXISTS delivery_status TEXT CHECK (delivery_status IN ('pending', 'delivered', 'failed')),
+ADD COLUMN IF NOT EXISTS delivery_log JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Delivery results (and job progress, 040) are written by the server with the service role,
+-- so owners can't rewrite the delivery audit trail on their rows: 002's UPDATE policy goes,
+-- and direct inserts are limited to plain download records
+DROP POLICY IF EXISTS "Users can update their own exports" ON exports;
+
+DROP POLICY IF EXISTS "Users can insert their own exports" ON exports;
+CREATE POLICY "Users can insert their own exports"
+  ON exports FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND destination IS NULL AND delivery_status IS NULL);
+
+COMMENT ON TABLE platform_connections IS 'Per-client activation platform config and credentials for push exports';
+COMMENT ON COLUMN platform_connections.credentials IS 'Platform secrets; not selectable by authenticated users';
+COMMENT ON COLUMN exports.destination IS 'Activation platform the export was pushed to (NULL for downloads)';
+COMMENT ON COLUMN exports.delivery_log IS 'Push attempts: [{attempt, at, endpoint, status, http_status, external_id, message}]';
@@ -0,0 +1,39 @@
+-- Export generation runs as a job on the exports row
+-- The row is created queued with the request parameters, moves to running while the file is
+-- generated and ends succeeded (storage_path set) or failed (error_detail set). Failed jobs
+-- are retried from job_params.
+
+ALTER TABLE exports
+ALTER COLUMN storage_path DROP NOT NULL;
+
+ALTER TABLE exports
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'succeeded'
+  CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+ADD COLUMN IF NOT EXISTS progress INTEGER NOT NULL DEFAULT 100
+  CHECK (progress BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS progress_message TEXT,
+ADD COLUMN IF NOT EXISTS error_detail TEXT,
+ADD COLUMN IF NOT EXISTS job_params JSONB,
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Existing rows are finished exports
+UPDATE exports SET completed_at = created_at WHERE completed_at IS NULL AND status = 'succeeded';
+
+DROP TRIGGER IF EXISTS update_exports_updated_at ON exports;
+CREATE TRIGGER update_exports_updated_at
+  BEFORE UPDATE ON exports
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_exports_active_jobs
+ON exports(audience_id) WHERE status IN ('queued', 'running');
+
+COMMENT ON COLUMN exports.status IS
+'Job status: queued, running, succeeded (file at storage_path) or failed (see error_detail).';
+COMMENT ON COLUMN exports.progress IS
+'Job progress 0-100; progress_message names the current (or failing) stage.';
+COMMENT ON COLUMN exports.job_params IS
+'Generation request the job runs with; used to retry failed jobs.';
@@ -0,0 +1,59 @@
+-- Scheduled recurring exports
+-- A schedule re-resolves the audience from its saved builder settings on a cadence and either
+-- writes an export file (destination NULL) or pushes to a platform connection. Each run is an
+-- exports row linked by schedule_id, with district_change comparing it to the previous run.
+
+CREATE TABLE IF NOT EXISTS export_schedules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  audience_id UUID NOT NULL REFERENCES audiences(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  cadence TEXT NOT NULL DEFAULT 'weekly' CHECK (cadence IN ('daily', 'weekly', 'monthly')),
+  export_type TEXT NOT NULL DEFAULT 'csv' CHECK (export_type IN ('csv', 'geojson')),
+  activation_target TEXT NOT NULL DEFAULT 'postcode_sector'
+    CHECK (activation_target IN ('postcode_sector', 'geojson', 'h3')),
+  h3_resolution INTEGER,
+  destination TEXT CHECK (destination IN ('ttd', 'dv360', 'magnite', 'liveramp')),
+  payload_format TEXT CHECK (payload_format IN ('geo_list', 'postcode_list', 'h3')),
+  change_threshold_pct NUMERIC NOT NULL DEFAULT 10 CHECK (change_threshold_pct >= 0),
+  is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_run_at TIMESTAMPTZ,
+  last_export_id UUID REFERENCES exports(id) ON DELETE SET NULL,
+  last_error TEXT,
+  running_since TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_export_schedules_audience ON export_schedules(audience_id);
+CREATE INDEX IF NOT EXISTS idx_export_schedules_due
+ON export_schedules(next_run_at) WHERE is_enabled;
+
+DROP TRIGGER IF EXISTS update_export_schedules_updated_at ON export_schedules;
+CREATE TRIGGER update_export_schedules_updated_at
+  BEFORE UPDATE ON export_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE export_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own export schedules" ON export_schedules;
+CREATE POLICY "Users can manage their own export schedules"
+  ON export_schedules FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE exports
+ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES export_schedules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS district_change JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_exports_schedule ON exports(schedule_id, created_at DESC);
+
+COMMENT ON COLUMN export_schedules.destination IS
+'Platform the run is pushed to (uses the audience client''s platform connection). NULL = export file only.';
+COMMENT ON COLUMN export_schedules.change_threshold_pct IS
+'A run is flagged when districts added + removed exceed this percentage of the previous run.';
+COMMENT ON COLUMN export_schedules.running_since IS
+'Set when a run claims the schedule and cleared when it finishes, so cron and "Run now" never overlap.';
+COMMENT ON COLUMN exports.district_change IS
+'Scheduled runs: districts added/removed versus the previous run of the schedule and whether the change is material.';
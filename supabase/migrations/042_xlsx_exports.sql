@@ -0,0 +1,9 @@
+-- XLSX planning exports
+-- Multi-sheet workbook (Summary, Districts, Provider Contributions, TV Regions) generated
+-- alongside the CSV and GeoJSON files. Schedules can produce it too.
+
+ALTER TYPE export_type_enum ADD VALUE IF NOT EXISTS 'xlsx';
+
+ALTER TABLE export_schedules DROP CONSTRAINT IF EXISTS export_schedules_export_type_check;
+ALTER TABLE export_schedules
+ADD CONSTRAINT export_schedules_export_type_check CHECK (export_type IN ('csv', 'geojson', 'xlsx'));
@@ -0,0 +1,11 @@
+-- HTML/PDF audience planning reports
+-- Self-contained report (brief, construction, provider donut, district map, battle zones,
+-- TV regions and spot insights) stored in audience-exports like the other files.
+-- Schedules can produce it too.
+
+ALTER TYPE export_type_enum ADD VALUE IF NOT EXISTS 'html';
+ALTER TYPE export_type_enum ADD VALUE IF NOT EXISTS 'pdf';
+
+ALTER TABLE export_schedules DROP CONSTRAINT IF EXISTS export_schedules_export_type_check;
+ALTER TABLE export_schedules
+ADD CONSTRAINT export_schedules_export_type_check CHECK (export_type IN ('csv', 'geojson', 'xlsx', 'html', 'pdf'));
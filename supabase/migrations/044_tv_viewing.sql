@@ -0,0 +1,221 @@
+-- ACR viewing data for TV spot insights
+-- District-level viewing files (channel, programme, daypart, genre, viewers) are imported as
+-- batches (npm run db:import:tv-viewing). Exactly one batch is active; insights index the
+-- audience's districts against every district the active batch covers:
+--   index = (audience viewers / audience households) / (all viewers / all households) x 100
+
+CREATE TABLE IF NOT EXISTS tv_viewing_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_file TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'complete')),
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  district_count INTEGER NOT NULL DEFAULT 0,
+  programme_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  activated_at TIMESTAMPTZ
+);
+
+-- One active import
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tv_viewing_imports_active
+  ON tv_viewing_imports(is_active)
+  WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS tv_programmes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel TEXT NOT NULL,
+  programme TEXT NOT NULL,
+  daypart TEXT NOT NULL CHECK (daypart IN ('Breakfast', 'Daytime', 'Peak', 'Late')),
+  genre TEXT NOT NULL CHECK (genre IN ('Drama', 'Sport', 'Entertainment', 'News', 'Factual')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT tv_programmes_unique UNIQUE (channel, programme, daypart, genre)
+);
+
+CREATE TABLE IF NOT EXISTS tv_district_viewing (
+  import_id UUID NOT NULL REFERENCES tv_viewing_imports(id) ON DELETE CASCADE,
+  district TEXT NOT NULL, -- Normalized (uppercase, no spaces), matches geo_districts.district_norm
+  programme_id UUID NOT NULL REFERENCES tv_programmes(id) ON DELETE CASCADE,
+  viewers INTEGER NOT NULL CHECK (viewers >= 0), -- Unique viewers (reach)
+  impressions BIGINT NOT NULL CHECK (impressions >= 0), -- Total views
+  PRIMARY KEY (import_id, district, programme_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tv_district_viewing_import_programme
+  ON tv_district_viewing(import_id, programme_id);
+
+ALTER TABLE tv_viewing_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tv_programmes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tv_district_viewing ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read tv viewing imports" ON tv_viewing_imports;
+CREATE POLICY "Authenticated users can read tv viewing imports"
+  ON tv_viewing_imports FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Service role can manage tv viewing imports" ON tv_viewing_imports;
+CREATE POLICY "Service role can manage tv viewing imports"
+  ON tv_viewing_imports FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read tv programmes" ON tv_programmes;
+CREATE POLICY "Authenticated users can read tv programmes"
+  ON tv_programmes FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Service role can manage tv programmes" ON tv_programmes;
+CREATE POLICY "Service role can manage tv programmes"
+  ON tv_programmes FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read tv district viewing" ON tv_district_viewing;
+CREATE POLICY "Authenticated users can read tv district viewing"
+  ON tv_district_viewing FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Service role can manage tv district viewing" ON tv_district_viewing;
+CREATE POLICY "Service role can manage tv district viewing"
+  ON tv_district_viewing FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Record counts and make the import the active one (replacing the previous active import)
+CREATE OR REPLACE FUNCTION complete_tv_viewing_import(target_import_id UUID)
+RETURNS tv_viewing_imports AS $$
+DECLARE
+  result tv_viewing_imports;
+BEGIN
+  UPDATE tv_viewing_imports i
+  SET
+    row_count = stats.row_count,
+    district_count = stats.district_count,
+    programme_count = stats.programme_count,
+    status = 'complete'
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS row_count,
+      COUNT(DISTINCT district)::INTEGER AS district_count,
+      COUNT(DISTINCT programme_id)::INTEGER AS programme_count
+    FROM tv_district_viewing
+    WHERE import_id = target_import_id
+  ) stats
+  WHERE i.id = target_import_id;
+
+  UPDATE tv_viewing_imports
+  SET is_active = false
+  WHERE is_active AND id <> target_import_id;
+
+  UPDATE tv_viewing_imports
+  SET is_active = true, activated_at = NOW()
+  WHERE id = target_import_id;
+
+  SELECT * INTO result FROM tv_viewing_imports WHERE id = target_import_id;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Viewing totals per programme from the active import, for the audience's districts and for
+-- every covered district. Households only count districts the import covers (missing
+-- households fall back to 2,500 like the rest of the app). region_viewers and
+-- region_households split the audience side by TV region.
+CREATE OR REPLACE FUNCTION get_tv_viewing_aggregates(audience_districts TEXT[])
+RETURNS TABLE (
+  channel TEXT,
+  programme TEXT,
+  daypart TEXT,
+  genre TEXT,
+  audience_viewers BIGINT,
+  audience_impressions BIGINT,
+  population_viewers BIGINT,
+  population_impressions BIGINT,
+  audience_households BIGINT,
+  population_households BIGINT,
+  region_viewers JSONB,
+  region_households JSONB
+) AS $$
+WITH active_import AS (
+  SELECT id FROM tv_viewing_imports WHERE is_active LIMIT 1
+),
+viewing AS (
+  SELECT v.district, v.programme_id, v.viewers, v.impressions
+  FROM tv_district_viewing v
+  JOIN active_import a ON a.id = v.import_id
+),
+covered AS (
+  SELECT
+    d.district,
+    d.district = ANY(audience_districts) AS in_audience,
+    COALESCE(MAX(gd.households), 2500)::BIGINT AS households,
+    MAX(r.region_key) AS region_key
+  FROM (SELECT DISTINCT district FROM viewing) d
+  LEFT JOIN geo_districts gd ON gd.district_norm = d.district
+  LEFT JOIN district_tv_regions r ON r.district_norm = d.district
+  GROUP BY d.district
+),
+household_totals AS (
+  SELECT
+    COALESCE(SUM(households) FILTER (WHERE in_audience), 0)::BIGINT AS audience_households,
+    COALESCE(SUM(households), 0)::BIGINT AS population_households
+  FROM covered
+),
+region_household_totals AS (
+  SELECT COALESCE(jsonb_object_agg(region_key, households), '{}'::JSONB) AS region_households
+  FROM (
+    SELECT region_key, SUM(households) AS households
+    FROM covered
+    WHERE in_audience AND region_key IS NOT NULL
+    GROUP BY region_key
+  ) r
+),
+programme_totals AS (
+  SELECT
+    v.programme_id,
+    COALESCE(SUM(v.viewers) FILTER (WHERE c.in_audience), 0)::BIGINT AS audience_viewers,
+    COALESCE(SUM(v.impressions) FILTER (WHERE c.in_audience), 0)::BIGINT AS audience_impressions,
+    SUM(v.viewers)::BIGINT AS population_viewers,
+    SUM(v.impressions)::BIGINT AS population_impressions
+  FROM viewing v
+  JOIN covered c ON c.district = v.district
+  GROUP BY v.programme_id
+),
+programme_regions AS (
+  SELECT programme_id, jsonb_object_agg(region_key, viewers) AS region_viewers
+  FROM (
+    SELECT v.programme_id, c.region_key, SUM(v.viewers) AS viewers
+    FROM viewing v
+    JOIN covered c ON c.district = v.district
+    WHERE c.in_audience AND c.region_key IS NOT NULL
+    GROUP BY v.programme_id, c.region_key
+  ) r
+  GROUP BY programme_id
+)
+SELECT
+  p.channel,
+  p.programme,
+  p.daypart,
+  p.genre,
+  t.audience_viewers,
+  t.audience_impressions,
+  t.population_viewers,
+  t.population_impressions,
+  h.audience_households,
+  h.population_households,
+  COALESCE(pr.region_viewers, '{}'::JSONB),
+  rh.region_households
+FROM programme_totals t
+JOIN tv_programmes p ON p.id = t.programme_id
+LEFT JOIN programme_regions pr ON pr.programme_id = t.programme_id
+CROSS JOIN household_totals h
+CROSS JOIN region_household_totals rh
+ORDER BY p.channel, p.programme, p.daypart;
+$$ LANGUAGE SQL STABLE;
+
+COMMENT ON TABLE tv_district_viewing IS 'ACR viewing per postcode district and programme, one set per import';
+COMMENT ON FUNCTION get_tv_viewing_aggregates(TEXT[]) IS 'Audience vs all-district viewing totals per programme from the active TV viewing import';
@@ -0,0 +1,354 @@
+-- Migration: Distance and drive-time catchments for battle zones
+-- Catchments were the base brand's store districts expanded rings * 5 steps over
+-- district_neighbors, which gives non-geographic shapes. Battle zones can now also use a
+-- catchment per base store:
+--   distance:   districts whose centroid is within a straight-line km radius of the store
+--   drive_time: districts within N minutes' drive, from store_drive_times when a road graph
+--               has been imported (npm run db:import:road-graph), otherwise estimated as
+--               straight-line km x 1.3 detour at 40 km/h
+-- A store's own district (store_poi_district) is always in its catchment.
+
+-- ============================================
+-- 1. Store drive times from the road graph
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS store_drive_times (
+  poi_id UUID NOT NULL REFERENCES store_pois(id) ON DELETE CASCADE,
+  district TEXT NOT NULL,
+  drive_minutes DOUBLE PRECISION NOT NULL CHECK (drive_minutes >= 0),
+  PRIMARY KEY (poi_id, district)
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_drive_times_district ON store_drive_times(district);
+
+ALTER TABLE store_drive_times ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated users to read store_drive_times" ON store_drive_times;
+CREATE POLICY "Allow authenticated users to read store_drive_times"
+  ON store_drive_times FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Allow service role to manage store_drive_times" ON store_drive_times;
+CREATE POLICY "Allow service role to manage store_drive_times"
+  ON store_drive_times FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE store_drive_times IS 'Drive minutes from each store to the districts reachable on the imported road graph (rebuilt by db:import:road-graph)';
+
+-- ============================================
+-- 2. Drive-time estimate
+-- ============================================
+
+-- Keep in step with DRIVE_DETOUR_FACTOR / DRIVE_SPEED_KMH in utils/battleZoneCatchments.ts
+CREATE OR REPLACE FUNCTION estimate_drive_minutes(distance_km DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT distance_km * 1.3 / 40.0 * 60.0;
+$$ LANGUAGE SQL IMMUTABLE;
+
+COMMENT ON FUNCTION estimate_drive_minutes IS 'Approximate drive minutes for a straight-line distance (1.3 road detour at 40 km/h)';
+
+-- ============================================
+-- 3. Catchment districts per base store
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_battle_zone_catchments(
+  base_brand TEXT,
+  catchment_mode TEXT DEFAULT 'rings',
+  rings INTEGER DEFAULT 0,
+  max_distance_km DOUBLE PRECISION DEFAULT NULL,
+  max_drive_minutes DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  poi_id UUID,
+  district TEXT,
+  distance_km DOUBLE PRECISION,
+  drive_minutes DOUBLE PRECISION,
+  source TEXT
+) AS $$
+WITH base_stores AS (
+  SELECT sp.id AS poi_id, sp.lat, sp.lng, spd.district AS home_district, spd.distance_km AS home_distance_km
+  FROM store_pois sp
+  JOIN store_poi_district spd ON spd.poi_id = sp.id
+  WHERE sp.brand = base_brand
+),
+search AS (
+  -- Straight-line radius to search: the km radius, or how far the drive time reaches
+  SELECT CASE catchment_mode
+    WHEN 'distance' THEN GREATEST(COALESCE(max_distance_km, 0), 0)
+    WHEN 'drive_time' THEN GREATEST(COALESCE(max_drive_minutes, 0), 0) / 60.0 * 40.0 / 1.3
+  END AS radius_km
+),
+road_graph_stores AS (
+  SELECT DISTINCT sdt.poi_id
+  FROM store_drive_times sdt
+  JOIN base_stores bs ON bs.poi_id = sdt.poi_id
+  WHERE catchment_mode = 'drive_time'
+),
+ring_districts AS (
+  -- Original neighbour-ring walk (rings * 5 steps); not attributable to a single store
+  WITH RECURSIVE expand AS (
+    SELECT DISTINCT bs.home_district AS district, 0 AS depth
+    FROM base_stores bs
+    WHERE catchment_mode = 'rings'
+
+    UNION
+
+    SELECT dn.neighbor_district, e.depth + 1
+    FROM expand e
+    JOIN district_neighbors dn ON dn.district = e.district
+    WHERE e.depth < (rings * 5)
+  )
+  SELECT DISTINCT district FROM expand
+),
+radius_districts AS (
+  -- Bounding box first so the haversine only runs on nearby centroids
+  SELECT
+    bs.poi_id,
+    gd.district,
+    haversine_distance(bs.lat, bs.lng, gd.centroid_lat, gd.centroid_lng) AS distance_km
+  FROM base_stores bs
+  CROSS JOIN search s
+  JOIN geo_districts gd
+    ON gd.centroid_lat BETWEEN bs.lat - s.radius_km / 111.0 AND bs.lat + s.radius_km / 111.0
+   AND gd.centroid_lng BETWEEN bs.lng - s.radius_km / (111.0 * cos(radians(bs.lat)))
+                           AND bs.lng + s.radius_km / (111.0 * cos(radians(bs.lat)))
+  WHERE s.radius_km IS NOT NULL
+    AND bs.poi_id NOT IN (SELECT rgs.poi_id FROM road_graph_stores rgs)
+),
+candidates AS (
+  SELECT NULL::UUID AS poi_id, rd.district, NULL::DOUBLE PRECISION AS distance_km,
+    NULL::DOUBLE PRECISION AS drive_minutes, 'rings' AS source
+  FROM ring_districts rd
+
+  UNION ALL
+
+  SELECT rd.poi_id, rd.district, rd.distance_km, estimate_drive_minutes(rd.distance_km),
+    CASE catchment_mode WHEN 'distance' THEN 'distance' ELSE 'estimate' END
+  FROM radius_districts rd
+  CROSS JOIN search s
+  WHERE rd.distance_km <= s.radius_km
+
+  UNION ALL
+
+  SELECT sdt.poi_id, sdt.district,
+    haversine_distance(bs.lat, bs.lng, gd.centroid_lat, gd.centroid_lng),
+    sdt.drive_minutes, 'road_graph'
+  FROM store_drive_times sdt
+  JOIN base_stores bs ON bs.poi_id = sdt.poi_id
+  LEFT JOIN geo_districts gd ON gd.district = sdt.district
+  WHERE catchment_mode = 'drive_time'
+    AND sdt.drive_minutes <= max_drive_minutes
+
+  UNION ALL
+
+  -- The store's own district, even when its centroid is beyond the radius
+  SELECT bs.poi_id, bs.home_district, bs.home_distance_km, estimate_drive_minutes(bs.home_distance_km),
+    CASE
+      WHEN catchment_mode = 'distance' THEN 'distance'
+      WHEN bs.poi_id IN (SELECT rgs.poi_id FROM road_graph_stores rgs) THEN 'road_graph'
+      ELSE 'estimate'
+    END
+  FROM base_stores bs
+  WHERE catchment_mode IN ('distance', 'drive_time')
+)
+SELECT c.poi_id, c.district, MIN(c.distance_km), MIN(c.drive_minutes), MIN(c.source)
+FROM candidates c
+GROUP BY c.poi_id, c.district;
+$$ LANGUAGE SQL STABLE;
+
+COMMENT ON FUNCTION get_battle_zone_catchments IS 'Catchment districts per base store for rings, distance (km) or drive_time (minutes) catchments; rings rows have no poi_id';
+
+-- ============================================
+-- 4. Per-store catchments for map overlays
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_battle_zone_store_catchments(
+  base_brand TEXT,
+  catchment_mode TEXT DEFAULT 'distance',
+  max_distance_km DOUBLE PRECISION DEFAULT NULL,
+  max_drive_minutes DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  poi_id UUID,
+  store_name TEXT,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  source TEXT,
+  district_count INTEGER,
+  reach_km DOUBLE PRECISION,
+  points JSONB
+) AS $$
+SELECT
+  sp.id,
+  sp.name,
+  sp.lat,
+  sp.lng,
+  MIN(c.source),
+  COUNT(*)::INTEGER,
+  MAX(c.distance_km),
+  -- Road-graph catchments aren't circles, so the overlay is drawn around their district centroids
+  CASE WHEN MIN(c.source) = 'road_graph'
+    THEN COALESCE(
+      jsonb_agg(jsonb_build_array(gd.centroid_lat, gd.centroid_lng)) FILTER (WHERE gd.centroid_lat IS NOT NULL),
+      '[]'::JSONB
+    )
+    ELSE '[]'::JSONB
+  END
+FROM get_battle_zone_catchments(base_brand, catchment_mode, 0, max_distance_km, max_drive_minutes) c
+JOIN store_pois sp ON sp.id = c.poi_id
+LEFT JOIN geo_districts gd ON gd.district = c.district
+GROUP BY sp.id, sp.name, sp.lat, sp.lng
+ORDER BY sp.name;
+$$ LANGUAGE SQL STABLE;
+
+COMMENT ON FUNCTION get_battle_zone_store_catchments IS 'One row per base store with its catchment size and, for road-graph drive times, the district centroids it reaches';
+
+-- ============================================
+-- 5. Battle zones over the selected catchment
+-- ============================================
+
+-- New trailing parameters change the signature, so drop the 026 versions rather than
+-- leaving ambiguous overloads behind
+DROP FUNCTION IF EXISTS get_battle_zones_summary(TEXT, TEXT[], INTEGER, TEXT[]);
+DROP FUNCTION IF EXISTS get_battle_zones_districts(TEXT, TEXT[], INTEGER, TEXT[]);
+
+CREATE OR REPLACE FUNCTION get_battle_zones_districts(
+  base_brand TEXT,
+  competitor_brands TEXT[] DEFAULT NULL,
+  rings INTEGER DEFAULT 0,
+  tv_regions TEXT[] DEFAULT NULL,
+  catchment_mode TEXT DEFAULT 'rings',
+  max_distance_km DOUBLE PRECISION DEFAULT NULL,
+  max_drive_minutes DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  district TEXT,
+  category TEXT,
+  base_store_count INTEGER,
+  competitor_store_count INTEGER,
+  competitor_brands_present TEXT[]
+) AS $$
+WITH catchment AS (
+  SELECT DISTINCT c.district
+  FROM get_battle_zone_catchments(base_brand, catchment_mode, rings, max_distance_km, max_drive_minutes) c
+),
+tv_filtered_catchment AS (
+  -- Apply TV region filter if provided
+  SELECT ce.district
+  FROM catchment ce
+  WHERE tv_regions IS NULL
+     OR array_length(tv_regions, 1) IS NULL
+     OR EXISTS (
+       SELECT 1
+       FROM district_tv_regions dtr
+       WHERE dtr.district = ce.district
+         AND dtr.region_key = ANY(tv_regions)
+     )
+),
+district_base_counts AS (
+  -- Count base brand stores per district in catchment
+  SELECT
+    tfc.district,
+    COUNT(DISTINCT sp.id) AS base_count
+  FROM tv_filtered_catchment tfc
+  LEFT JOIN store_poi_district spd ON spd.district = tfc.district
+  LEFT JOIN store_pois sp ON sp.id = spd.poi_id AND sp.brand = base_brand
+  GROUP BY tfc.district
+),
+district_competitor_counts AS (
+  -- Count competitor stores per district in catchment
+  SELECT
+    tfc.district,
+    COUNT(DISTINCT sp.id) AS competitor_count,
+    array_agg(DISTINCT sp.brand) FILTER (WHERE sp.brand IS NOT NULL) AS competitor_brands
+  FROM tv_filtered_catchment tfc
+  LEFT JOIN store_poi_district spd ON spd.district = tfc.district
+  LEFT JOIN store_pois sp ON sp.id = spd.poi_id
+    AND sp.brand = ANY(COALESCE(competitor_brands, ARRAY[]::TEXT[]))
+  GROUP BY tfc.district
+)
+SELECT
+  dbc.district,
+  CASE
+    WHEN dbc.base_count > 0 AND COALESCE(dcc.competitor_count, 0) = 0 THEN 'owned'
+    WHEN dbc.base_count > 0 AND COALESCE(dcc.competitor_count, 0) > 0 THEN 'contested'
+    WHEN dbc.base_count = 0 AND COALESCE(dcc.competitor_count, 0) > 0 THEN 'competitor_only'
+    ELSE NULL -- Exclude districts with neither
+  END AS category,
+  dbc.base_count::INTEGER AS base_store_count,
+  COALESCE(dcc.competitor_count, 0)::INTEGER AS competitor_store_count,
+  COALESCE(dcc.competitor_brands, ARRAY[]::TEXT[]) AS competitor_brands_present
+FROM district_base_counts dbc
+LEFT JOIN district_competitor_counts dcc ON dcc.district = dbc.district
+WHERE
+  -- Only return districts that have at least one store (base or competitor)
+  (dbc.base_count > 0 OR COALESCE(dcc.competitor_count, 0) > 0)
+ORDER BY dbc.district;
+$$ LANGUAGE SQL STABLE;
+
+CREATE OR REPLACE FUNCTION get_battle_zones_summary(
+  base_brand TEXT,
+  competitor_brands TEXT[] DEFAULT NULL,
+  rings INTEGER DEFAULT 0,
+  tv_regions TEXT[] DEFAULT NULL,
+  catchment_mode TEXT DEFAULT 'rings',
+  max_distance_km DOUBLE PRECISION DEFAULT NULL,
+  max_drive_minutes DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS JSONB AS $$
+WITH districts AS (
+  SELECT * FROM get_battle_zones_districts(
+    base_brand, competitor_brands, rings, tv_regions, catchment_mode, max_distance_km, max_drive_minutes
+  )
+),
+category_counts AS (
+  SELECT
+    category,
+    COUNT(*) AS district_count
+  FROM districts
+  WHERE category IS NOT NULL
+  GROUP BY category
+),
+store_counts AS (
+  SELECT
+    SUM(base_store_count) AS total_base_stores,
+    SUM(competitor_store_count) AS total_competitor_stores
+  FROM districts
+),
+top_contested AS (
+  SELECT
+    district,
+    base_store_count,
+    competitor_store_count,
+    competitor_brands_present
+  FROM districts
+  WHERE category = 'contested'
+  ORDER BY competitor_store_count DESC, base_store_count ASC
+  LIMIT 10
+)
+SELECT jsonb_build_object(
+  'totalCatchmentDistricts', (SELECT COUNT(*) FROM districts),
+  'ownedDistricts', COALESCE((SELECT district_count FROM category_counts WHERE category = 'owned'), 0),
+  'contestedDistricts', COALESCE((SELECT district_count FROM category_counts WHERE category = 'contested'), 0),
+  'competitorOnlyDistricts', COALESCE((SELECT district_count FROM category_counts WHERE category = 'competitor_only'), 0),
+  'baseStoreCountInCatchment', COALESCE((SELECT total_base_stores FROM store_counts), 0),
+  'competitorStoreCountInCatchment', COALESCE((SELECT total_competitor_stores FROM store_counts), 0),
+  'topContestedDistricts', (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'district', district,
+        'baseStoreCount', base_store_count,
+        'competitorStoreCount', competitor_store_count,
+        'competitorBrands', competitor_brands_present
+      )
+    )
+    FROM top_contested
+  )
+);
+$$ LANGUAGE SQL STABLE;
+
+COMMENT ON FUNCTION get_battle_zones_districts IS 'Returns districts classified as owned, contested, or competitor-only based on store presence within neighbor-ring, distance or drive-time catchments';
+COMMENT ON FUNCTION get_battle_zones_summary IS 'Returns summary statistics for battle zones including counts and top contested districts';